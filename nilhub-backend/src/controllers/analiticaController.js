@@ -0,0 +1,66 @@
+// backend/src/controllers/analiticaController.js
+const Tienda = require('../models/Tienda');
+const analiticaService = require('../services/analiticaService');
+
+/**
+ * @route   GET /api/analitica/resumen
+ * @desc    Resumen de vistas, clicks, búsquedas y compartidos de mi tienda
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} [req.query.desde] - Primer día (YYYY-MM-DD). Por defecto, hace 29 días
+ * @param {string} [req.query.hasta] - Último día (YYYY-MM-DD). Por defecto, hoy
+ * @param {Object} req.usuario - Usuario del JWT
+ *
+ * @returns {Object} 200 - Totales, período anterior, serie diaria y rankings
+ * @returns {Object} 400 - Rango de fechas inválido
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerResumen = async (req, res) => {
+  try {
+    const hasta = req.query.hasta || analiticaService.diaDe();
+    const desde = req.query.desde || analiticaService.sumarDias(hasta, -(analiticaService.DIAS_POR_DEFECTO - 1));
+
+    if (!analiticaService.esDiaValido(desde) || !analiticaService.esDiaValido(hasta)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Las fechas deben tener el formato YYYY-MM-DD'
+      });
+    }
+
+    const dias = analiticaService.diasEntre(desde, hasta);
+    if (dias < 1 || dias > analiticaService.DIAS_MAXIMO) {
+      return res.status(400).json({
+        success: false,
+        error: `El rango debe ser de 1 a ${analiticaService.DIAS_MAXIMO} días`
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const resumen = await analiticaService.obtenerResumen(tienda._id, desde, hasta);
+
+    res.json({
+      success: true,
+      data: resumen
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener analítica:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener analítica'
+    });
+  }
+};
+
+module.exports = {
+  obtenerResumen
+};
@@ -1,7 +1,12 @@
 // backend/src/controllers/authController.js
 const Usuario = require('../models/Usuario');
 const Tienda = require('../models/Tienda');
-const { generarToken } = require('../middleware/auth');
+const Categoria = require('../models/Categoria');
+const Sesion = require('../models/Sesion');
+const sesionService = require('../services/sesionService');
+const dosPasosService = require('../services/dosPasosService');
+const verificacionEmailService = require('../services/verificacionEmailService');
+const accesosService = require('../services/accesosService');
 
 /**
  * @description Normaliza emails de forma consistente (lowercase + trim)
@@ -18,6 +23,9 @@ const normalizarEmail = (email) => {
  * @route   POST /api/auth/registro
  * @desc    Registra un nuevo usuario y crea su tienda
  * @access  Public
+ *
+ * La tienda queda oculta del catálogo público hasta que el usuario confirme
+ * su email con el código que se le envía (POST /api/auth/verificar-email)
  */
 const registro = async (req, res) => {
   try {
@@ -52,29 +60,26 @@ const registro = async (req, res) => {
       slug,
       whatsapp,
       instagram,
-      facebook
+      facebook,
+      verificacion_pendiente: true
     });
 
-    // Generar token JWT
-    const token = generarToken(usuario._id);
+    // Categorías iniciales del catálogo
+    await Categoria.crearPorDefecto(tienda._id);
+
+    // Código para confirmar el email
+    await verificacionEmailService.enviarCodigo(usuario);
+
+    // Iniciar sesión (cookies httpOnly)
+    await sesionService.iniciar(req, res, usuario);
 
     console.log(`✅ Usuario registrado: ${usuario.email} | Tienda: ${tienda.slug}`);
 
     res.status(201).json({
       success: true,
       data: {
-        usuario: {
-          _id: usuario._id,
-          nombre: usuario.nombre,
-          email: usuario.email,
-          rol: usuario.rol  // ✅ CORREGIDO: role → rol
-        },
-        tienda: {
-          _id: tienda._id,
-          nombre: tienda.nombre,
-          slug: tienda.slug
-        },
-        token
+        usuario,
+        tienda
       }
     });
 
@@ -101,6 +106,15 @@ const registro = async (req, res) => {
  * @route   POST /api/auth/login
  * @desc    Inicia sesión con email y contraseña
  * @access  Public
+ *
+ * Si el usuario tiene la verificación en dos pasos activa, no inicia sesión:
+ * responde { requiere_dos_pasos: true, desafio } y el login se completa en
+ * POST /api/auth/login/dos-pasos
+ *
+ * Los fallos seguidos de una cuenta generan esperas crecientes y, al 10º,
+ * un bloqueo de 30 minutos (ver accesosService)
+ *
+ * @returns {Object} 429 - Cuenta en espera o bloqueada (header Retry-After)
  */
 const login = async (req, res) => {
   try {
@@ -119,13 +133,27 @@ const login = async (req, res) => {
       });
     }
 
+    // 🔒 SEGURIDAD: No probar la contraseña mientras la cuenta está en espera
+    const bloqueo = accesosService.segundosDeBloqueo(usuario);
+
+    if (bloqueo > 0) {
+      res.set('Retry-After', String(bloqueo));
+      return res.status(429).json({
+        success: false,
+        error: accesosService.mensajeDeBloqueo(usuario)
+      });
+    }
+
     // Verificar password
     const passwordCorrecto = await usuario.compararPassword(password);
 
     if (!passwordCorrecto) {
+      const espera = await accesosService.registrarFallo(req, usuario, 'contrasena', 'Contraseña incorrecta');
       return res.status(401).json({
         success: false,
-        error: 'Credenciales inválidas'
+        error: espera > 0
+          ? `Credenciales inválidas. Espera ${accesosService.describirEspera(espera)} antes de volver a intentar.`
+          : 'Credenciales inválidas'
       });
     }
 
@@ -137,29 +165,32 @@ const login = async (req, res) => {
       });
     }
 
+    // Segundo paso: código de la app autenticadora
+    if (usuario.dos_pasos?.activo) {
+      console.log(`🔐 Contraseña correcta, esperando código de dos pasos: ${usuario.email}`);
+      return res.json({
+        success: true,
+        data: {
+          requiere_dos_pasos: true,
+          desafio: dosPasosService.crearDesafio(usuario)
+        }
+      });
+    }
+
     // Obtener tienda del usuario (puede ser null si es admin)
     const tienda = await Tienda.findOne({ usuario_id: usuario._id });
 
-    // Generar token JWT
-    const token = generarToken(usuario._id);
+    // Iniciar sesión (cookies httpOnly)
+    await sesionService.iniciar(req, res, usuario);
+    await accesosService.registrarExito(req, usuario, 'contrasena');
 
-    console.log(`✅ Login exitoso: ${usuario.email} | Rol: ${usuario.rol}`);
+    console.log(`✅ Login exitoso: ${usuario.email} | Rol: ${usuario.role}`);
 
     res.json({
       success: true,
       data: {
-        usuario: {
-          _id: usuario._id,
-          nombre: usuario.nombre,
-          email: usuario.email,
-          rol: usuario.rol  // ✅ CORREGIDO: role → rol
-        },
-        tienda: tienda ? {
-          _id: tienda._id,
-          nombre: tienda.nombre,
-          slug: tienda.slug
-        } : null,
-        token
+        usuario,
+        tienda
       }
     });
 
@@ -199,8 +230,203 @@ const obtenerUsuarioActual = async (req, res) => {
   }
 };
 
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Renueva el JWT de acceso con la cookie de refresco (y rota esa cookie)
+ * @access  Public (requiere la cookie de refresco)
+ */
+const refrescarSesion = async (req, res) => {
+  try {
+    const { error } = await sesionService.renovar(req, res);
+
+    if (error) {
+      return res.status(401).json({
+        success: false,
+        error
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {}
+    });
+
+  } catch (error) {
+    console.error('❌ Error al renovar sesión:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al renovar la sesión'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Cierra la sesión del navegador y borra sus cookies
+ * @access  Public (sin sesión no hace nada)
+ */
+const cerrarSesion = async (req, res) => {
+  try {
+    await sesionService.cerrar(req, res);
+
+    res.json({
+      success: true,
+      message: 'Sesión cerrada'
+    });
+
+  } catch (error) {
+    console.error('❌ Error al cerrar sesión:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al cerrar sesión'
+    });
+  }
+};
+
+// ===================================
+// DISPOSITIVOS
+// ===================================
+
+/**
+ * @route   GET /api/auth/sesiones
+ * @desc    Lista las sesiones abiertas del usuario (dispositivos con sesión iniciada)
+ * @access  Private
+ *
+ * @returns {Object} 200 - Sesiones con dispositivo, red, último uso y marca de la actual
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerSesiones = async (req, res) => {
+  try {
+    const sesiones = await sesionService.listar(req.usuario._id, req.sesionId);
+
+    res.json({
+      success: true,
+      data: sesiones
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener sesiones:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener sesiones'
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/auth/sesiones/:id
+ * @desc    Cierra la sesión de un dispositivo (su JWT deja de valer de inmediato)
+ * @access  Private
+ *
+ * Si es la sesión actual, además borra las cookies de este navegador
+ *
+ * @param {string} req.params.id - ID de la sesión
+ * @returns {Object} 200 - Sesión cerrada
+ * @returns {Object} 404 - Sesión no encontrada o ya cerrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const cerrarSesionDeDispositivo = async (req, res) => {
+  try {
+    const sesion = await Sesion.findOne({ _id: req.params.id, usuario_id: req.usuario._id, revocada_en: null });
+
+    if (!sesion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Sesión no encontrada'
+      });
+    }
+
+    await sesion.revocar('cierre');
+
+    if (String(sesion._id) === String(req.sesionId)) {
+      sesionService.borrarCookies(res);
+    }
+
+    console.log(`👋 Sesión ${sesion._id} cerrada desde Seguridad por ${req.usuario.email}`);
+
+    res.json({
+      success: true,
+      message: 'Sesión cerrada'
+    });
+
+  } catch (error) {
+    if (error.name === 'CastError') {
+      return res.status(404).json({
+        success: false,
+        error: 'Sesión no encontrada'
+      });
+    }
+    console.error('❌ Error al cerrar sesión del dispositivo:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al cerrar sesión'
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/auth/sesiones
+ * @desc    Cierra todas las sesiones del usuario, incluida la de este navegador
+ * @access  Private
+ *
+ * @returns {Object} 200 - { cerradas } cantidad de sesiones cerradas
+ * @returns {Object} 500 - Error del servidor
+ */
+const cerrarTodasLasSesiones = async (req, res) => {
+  try {
+    const cerradas = await Sesion.revocarTodas(req.usuario._id, 'cierre');
+    sesionService.borrarCookies(res);
+
+    console.log(`👋 ${cerradas} sesiones cerradas en todos los dispositivos de ${req.usuario.email}`);
+
+    res.json({
+      success: true,
+      data: { cerradas }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al cerrar todas las sesiones:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al cerrar las sesiones'
+    });
+  }
+};
+
+/**
+ * @route   GET /api/auth/accesos
+ * @desc    Lista los últimos intentos de login de la cuenta (correctos y fallidos)
+ * @access  Private
+ *
+ * @returns {Object} 200 - Intentos con fecha, resultado, método, red y dispositivo
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerAccesos = async (req, res) => {
+  try {
+    const accesos = await accesosService.historialDe(req.usuario._id);
+
+    res.json({
+      success: true,
+      data: accesos
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener accesos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener la actividad de la cuenta'
+    });
+  }
+};
+
 module.exports = {
   registro,
   login,
-  obtenerUsuarioActual
+  obtenerUsuarioActual,
+  refrescarSesion,
+  cerrarSesion,
+  obtenerSesiones,
+  cerrarSesionDeDispositivo,
+  cerrarTodasLasSesiones,
+  obtenerAccesos
 };
\ No newline at end of file
@@ -0,0 +1,445 @@
+// backend/src/controllers/categoriasController.js
+const Categoria = require('../models/Categoria');
+const Producto = require('../models/Producto');
+const Tienda = require('../models/Tienda');
+
+/**
+ * Máximo de categorías por tienda
+ * @constant
+ */
+const MAX_CATEGORIAS = 50;
+
+/**
+ * Valida la categoría padre: debe ser de la misma tienda y de primer nivel
+ * @param {ObjectId} tiendaId - ID de la tienda
+ * @param {string|null} padreId - ID de la categoría padre
+ * @param {string|ObjectId} [categoriaId] - Categoría que se edita (no puede ser su propio padre)
+ * @returns {Promise<string|null>} Mensaje de error o null si es válida
+ * @private
+ */
+const validarPadre = async (tiendaId, padreId, categoriaId) => {
+  if (!padreId) return null;
+
+  if (categoriaId && padreId.toString() === categoriaId.toString()) {
+    return 'Una categoría no puede ser su propia categoría padre';
+  }
+
+  const padre = await Categoria.findOne({ _id: padreId, tienda_id: tiendaId }).catch(() => null);
+
+  if (!padre) {
+    return 'Categoría padre no encontrada';
+  }
+  if (padre.padre_id) {
+    return 'Solo se permite un nivel de subcategorías';
+  }
+  if (categoriaId && await Categoria.exists({ padre_id: categoriaId })) {
+    return 'Esta categoría tiene subcategorías y no puede tener padre';
+  }
+
+  return null;
+};
+
+/**
+ * @route   GET /api/categorias/mis-categorias
+ * @desc    Obtiene las categorías de la tienda del usuario con su conteo de productos
+ * @access  Private (requiere JWT)
+ *
+ * @returns {Object} 200 - Lista de categorías ordenada
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerMisCategorias = async (req, res) => {
+  try {
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const [categorias, conteos] = await Promise.all([
+      Categoria.find({ tienda_id: tienda._id }).sort({ orden: 1, nombre: 1 }).lean(),
+      Producto.aggregate([
+        { $match: { tienda_id: tienda._id } },
+        { $group: { _id: '$categoria', total: { $sum: 1 } } }
+      ])
+    ]);
+
+    const totalPorSlug = new Map(conteos.map(c => [c._id, c.total]));
+
+    res.json({
+      success: true,
+      count: categorias.length,
+      data: categorias.map(categoria => ({
+        ...categoria,
+        total_productos: totalPorSlug.get(categoria.slug) || 0
+      }))
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener categorías:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener categorías'
+    });
+  }
+};
+
+/**
+ * @route   GET /api/categorias/tienda/:slug
+ * @desc    Obtiene las categorías de una tienda (catálogo público)
+ * @access  Public
+ *
+ * @param {string} req.params.slug - Slug de la tienda
+ * @returns {Object} 200 - Lista de categorías ordenada
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerCategoriasDeTienda = async (req, res) => {
+  try {
+    const tienda = await Tienda.findOne(Tienda.filtroPublico({ slug: req.params.slug })).lean();
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const categorias = await Categoria.find({ tienda_id: tienda._id })
+      .select('nombre slug icono orden padre_id')
+      .sort({ orden: 1, nombre: 1 })
+      .lean();
+
+    res.json({
+      success: true,
+      count: categorias.length,
+      data: categorias
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener categorías de la tienda:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener categorías'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/categorias
+ * @desc    Crea una categoría en la tienda del usuario
+ * @access  Private (requiere JWT)
+ *
+ * @param {Object} req.body
+ * @param {string} req.body.nombre - Nombre visible
+ * @param {string} [req.body.icono] - Ícono (ver ICONOS_CATEGORIA)
+ * @param {number} [req.body.orden] - Posición (por defecto al final)
+ * @param {string} [req.body.padre_id] - Categoría padre
+ *
+ * @returns {Object} 201 - Categoría creada
+ * @returns {Object} 400 - Datos inválidos o límite alcanzado
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const crearCategoria = async (req, res) => {
+  try {
+    const { nombre, icono, orden, padre_id } = req.body;
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    if (!nombre || !nombre.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'El nombre de la categoría es obligatorio'
+      });
+    }
+
+    const total = await Categoria.countDocuments({ tienda_id: tienda._id });
+    if (total >= MAX_CATEGORIAS) {
+      return res.status(400).json({
+        success: false,
+        error: `Máximo ${MAX_CATEGORIAS} categorías por tienda`
+      });
+    }
+
+    const errorPadre = await validarPadre(tienda._id, padre_id);
+    if (errorPadre) {
+      return res.status(400).json({
+        success: false,
+        error: errorPadre
+      });
+    }
+
+    const categoria = await Categoria.create({
+      tienda_id: tienda._id,
+      nombre,
+      slug: await Categoria.generarSlugUnico(tienda._id, nombre),
+      icono,
+      orden: orden !== undefined ? orden : total,
+      padre_id: padre_id || null
+    });
+
+    console.log(`✅ Categoría creada: ${categoria.nombre} (Tienda: ${tienda.nombre})`);
+
+    res.status(201).json({
+      success: true,
+      data: categoria
+    });
+
+  } catch (error) {
+    console.error('❌ Error al crear categoría:', error);
+
+    if (error.name === 'ValidationError') {
+      const errores = Object.values(error.errors).map(err => err.message);
+      return res.status(400).json({
+        success: false,
+        error: errores[0] || 'Error de validación'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Error al crear categoría'
+    });
+  }
+};
+
+/**
+ * @route   PUT /api/categorias/:id
+ * @desc    Actualiza una categoría
+ * @access  Private (requiere JWT)
+ *
+ * Si cambia el nombre se regenera el slug y se actualizan
+ * los productos que lo usaban.
+ *
+ * @param {string} req.params.id - ID de la categoría
+ * @param {Object} req.body - nombre, icono, orden, padre_id
+ *
+ * @returns {Object} 200 - Categoría actualizada
+ * @returns {Object} 400 - Datos inválidos
+ * @returns {Object} 403 - No autorizado
+ * @returns {Object} 404 - Categoría no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const actualizarCategoria = async (req, res) => {
+  try {
+    const categoria = await Categoria.findById(req.params.id);
+
+    if (!categoria) {
+      return res.status(404).json({
+        success: false,
+        error: 'Categoría no encontrada'
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda || categoria.tienda_id.toString() !== tienda._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'No autorizado para editar esta categoría'
+      });
+    }
+
+    const { nombre, icono, orden, padre_id } = req.body;
+
+    if (padre_id !== undefined) {
+      const errorPadre = await validarPadre(tienda._id, padre_id, categoria._id);
+      if (errorPadre) {
+        return res.status(400).json({
+          success: false,
+          error: errorPadre
+        });
+      }
+      categoria.padre_id = padre_id || null;
+    }
+
+    const slugAnterior = categoria.slug;
+
+    if (nombre !== undefined && nombre.trim() !== categoria.nombre) {
+      categoria.nombre = nombre;
+      categoria.slug = await Categoria.generarSlugUnico(tienda._id, nombre, categoria._id);
+    }
+    if (icono !== undefined) categoria.icono = icono;
+    if (orden !== undefined) categoria.orden = orden;
+
+    await categoria.save();
+
+    // Mover los productos al nuevo slug
+    if (categoria.slug !== slugAnterior) {
+      const { modifiedCount } = await Producto.updateMany(
+        { tienda_id: tienda._id, categoria: slugAnterior },
+        { $set: { categoria: categoria.slug } }
+      );
+      console.log(`✅ Categoría renombrada: ${slugAnterior} → ${categoria.slug} (${modifiedCount} productos)`);
+    } else {
+      console.log(`✅ Categoría actualizada: ${categoria.nombre}`);
+    }
+
+    res.json({
+      success: true,
+      data: categoria
+    });
+
+  } catch (error) {
+    console.error('❌ Error al actualizar categoría:', error);
+
+    if (error.name === 'ValidationError') {
+      const errores = Object.values(error.errors).map(err => err.message);
+      return res.status(400).json({
+        success: false,
+        error: errores[0] || 'Error de validación'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Error al actualizar categoría'
+    });
+  }
+};
+
+/**
+ * @route   PATCH /api/categorias/orden
+ * @desc    Reordena las categorías de la tienda
+ * @access  Private (requiere JWT)
+ *
+ * @param {Array<string>} req.body.ids - IDs en el orden deseado
+ *
+ * @returns {Object} 200 - Categorías reordenadas
+ * @returns {Object} 400 - Lista inválida
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const reordenarCategorias = async (req, res) => {
+  try {
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Debes enviar la lista de categorías'
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    // Solo se actualizan categorías de la propia tienda
+    await Categoria.bulkWrite(ids.map((id, index) => ({
+      updateOne: {
+        filter: { _id: id, tienda_id: tienda._id },
+        update: { $set: { orden: index } }
+      }
+    })));
+
+    const categorias = await Categoria.find({ tienda_id: tienda._id }).sort({ orden: 1, nombre: 1 });
+
+    res.json({
+      success: true,
+      count: categorias.length,
+      data: categorias
+    });
+
+  } catch (error) {
+    console.error('❌ Error al reordenar categorías:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al reordenar categorías'
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/categorias/:id
+ * @desc    Elimina una categoría sin productos ni subcategorías
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID de la categoría
+ *
+ * @returns {Object} 200 - Categoría eliminada
+ * @returns {Object} 400 - Tiene productos o subcategorías
+ * @returns {Object} 403 - No autorizado
+ * @returns {Object} 404 - Categoría no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const eliminarCategoria = async (req, res) => {
+  try {
+    const categoria = await Categoria.findById(req.params.id);
+
+    if (!categoria) {
+      return res.status(404).json({
+        success: false,
+        error: 'Categoría no encontrada'
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda || categoria.tienda_id.toString() !== tienda._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'No autorizado para eliminar esta categoría'
+      });
+    }
+
+    const [productos, hijas] = await Promise.all([
+      Producto.countDocuments({ tienda_id: tienda._id, categoria: categoria.slug }),
+      Categoria.countDocuments({ padre_id: categoria._id })
+    ]);
+
+    if (productos > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `La categoría tiene ${productos} producto(s). Muévelos a otra categoría antes de eliminarla`
+      });
+    }
+    if (hijas > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'La categoría tiene subcategorías. Elimínalas o muévelas primero'
+      });
+    }
+
+    await categoria.deleteOne();
+
+    console.log(`✅ Categoría eliminada: ${categoria.nombre}`);
+
+    res.json({
+      success: true,
+      data: {}
+    });
+
+  } catch (error) {
+    console.error('❌ Error al eliminar categoría:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al eliminar categoría'
+    });
+  }
+};
+
+module.exports = {
+  obtenerMisCategorias,
+  obtenerCategoriasDeTienda,
+  crearCategoria,
+  actualizarCategoria,
+  reordenarCategorias,
+  eliminarCategoria
+};
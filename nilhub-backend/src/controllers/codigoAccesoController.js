@@ -0,0 +1,284 @@
+// backend/src/controllers/codigoAccesoController.js
+const crypto = require('crypto');
+const Usuario = require('../models/Usuario');
+const Tienda = require('../models/Tienda');
+const CodigoAcceso = require('../models/CodigoAcceso');
+const sesionService = require('../services/sesionService');
+const dosPasosService = require('../services/dosPasosService');
+const verificacionEmailService = require('../services/verificacionEmailService');
+const accesosService = require('../services/accesosService');
+const { enviarCodigoAcceso } = require('../services/emailService');
+
+/**
+ * Segundos de espera entre un código y el siguiente para el mismo email
+ * @constant
+ * @private
+ */
+const ESPERA_REENVIO = 60;
+
+/**
+ * @description Normaliza emails de forma consistente (lowercase + trim)
+ * @param {string} email - Email a normalizar
+ * @returns {string} Email normalizado
+ * @private
+ */
+const normalizarEmail = (email) => {
+  if (!email) return '';
+  return email.toLowerCase().trim();
+};
+
+/**
+ * @description Enlace del login que ingresa con el código
+ * Va en el fragmento (#) para que no quede en logs de servidores ni proxies
+ * @param {string} email
+ * @param {string} code
+ * @returns {string} URL
+ * @private
+ */
+const enlaceDeAcceso = (email, code) => {
+  const base = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${base}/login#${new URLSearchParams({ email, codigo: code })}`;
+};
+
+/**
+ * @description Envía el código por WhatsApp
+ * whatsapp-web.js es opcional: si no está instalado o conectado, falla (en
+ * desarrollo el código queda en la consola del servidor)
+ * @param {Object} usuario
+ * @param {string} telefono
+ * @param {string} code
+ * @returns {Promise<void>}
+ * @private
+ */
+const enviarPorWhatsApp = async (usuario, telefono, code) => {
+  const whatsappService = require('../services/whatsappService');
+  await whatsappService.enviarCodigoAcceso(usuario.nombre, telefono, code);
+};
+
+/**
+ * @description Compara el código guardado con el recibido en tiempo constante
+ * @param {string} guardado - Código del CodigoAcceso
+ * @param {string} recibido - Código del body
+ * @returns {boolean}
+ * @private
+ */
+const codigoCoincide = (guardado, recibido) => {
+  const a = Buffer.from(String(guardado));
+  const b = Buffer.from(String(recibido ?? ''));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * @route   POST /api/auth/login/codigo
+ * @desc    Envía un código de un solo uso para ingresar sin contraseña
+ * @access  Public
+ *
+ * @param {string} req.body.email - Email del usuario
+ * @param {string} req.body.metodo - 'email' (código y enlace) o 'whatsapp'
+ *
+ * Responde lo mismo si el email no existe, si ya pidió un código hace
+ * menos de un minuto o si no tiene WhatsApp: en esos casos no envía nada
+ *
+ * @returns {Object} 200 - Código enviado (no revela si el email existe)
+ * @returns {Object} 500 - Error del servidor
+ */
+const solicitarCodigo = async (req, res) => {
+  try {
+    const { email, metodo } = req.body;
+    const emailNormalizado = normalizarEmail(email);
+    const respuesta = {
+      success: true,
+      message: metodo === 'email'
+        ? 'Si el email está registrado, te enviamos un código y un enlace para ingresar.'
+        : 'Si el email está registrado, te enviamos un código por WhatsApp.'
+    };
+
+    const usuario = await Usuario.findOne({ email: emailNormalizado });
+
+    // 🔒 SEGURIDAD: No revelar si el email existe
+    if (!usuario || !usuario.activo) {
+      return res.json(respuesta);
+    }
+
+    // Un código por minuto (sin avisar: solo una cuenta existente tendría espera)
+    const ultimo = await CodigoAcceso.ultimoDe(emailNormalizado);
+    if (ultimo && Date.now() - ultimo.createdAt.getTime() < ESPERA_REENVIO * 1000) {
+      return res.json(respuesta);
+    }
+
+    // WhatsApp: el teléfono del usuario o, si no tiene, el de su tienda
+    const telefono = metodo === 'whatsapp'
+      ? usuario.telefono || (await Tienda.findOne({ usuario_id: usuario._id }, 'whatsapp'))?.whatsapp
+      : null;
+
+    if (metodo === 'whatsapp' && !telefono) {
+      console.warn(`⚠️ Código de acceso por WhatsApp sin número: ${usuario.email}`);
+      return res.json(respuesta);
+    }
+
+    const code = crypto.randomInt(100000, 1000000).toString();
+
+    await CodigoAcceso.create({
+      usuario_id: usuario._id,
+      email: usuario.email,
+      code,
+      metodo
+    });
+
+    // ⚠️ SOLO EN DESARROLLO: el código es una credencial de acceso
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`🔑 Código de acceso para ${usuario.email} (${metodo}): ${code}`);
+    }
+
+    try {
+      if (metodo === 'email') {
+        await enviarCodigoAcceso(usuario.email, usuario.nombre, code, enlaceDeAcceso(usuario.email, code));
+      } else {
+        await enviarPorWhatsApp(usuario, telefono, code);
+      }
+    } catch (envioError) {
+      // No fallar: el código ya está guardado (y en consola en desarrollo)
+      console.error(`❌ Error al enviar código de acceso por ${metodo}:`, envioError.message);
+    }
+
+    res.json({
+      ...respuesta,
+      // ⚠️ SOLO EN DESARROLLO
+      ...(process.env.NODE_ENV === 'development' && { code })
+    });
+
+  } catch (error) {
+    console.error('❌ Error al solicitar código de acceso:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al enviar el código'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/login/codigo/verificar
+ * @desc    Ingresa con el código (o el enlace) recibido
+ * @access  Public
+ *
+ * Solo vale el último código enviado, con 3 intentos. Si el usuario tiene la
+ * verificación en dos pasos activa responde el desafío, igual que el login
+ * con contraseña. Ingresar con un código enviado por email verifica el email.
+ *
+ * Cada intento se reserva de forma atómica antes de comparar: aunque varios
+ * lleguen en paralelo (y pasen juntos el chequeo de espera de la cuenta),
+ * un código nunca se compara más de 3 veces.
+ *
+ * @param {string} req.body.email - Email del usuario
+ * @param {string} req.body.code - Código de 6 dígitos
+ *
+ * @returns {Object} 200 - { usuario, tienda } o { requiere_dos_pasos, desafio }
+ * @returns {Object} 401 - Código incorrecto, vencido o usado
+ * @returns {Object} 429 - Cuenta en espera o bloqueada (header Retry-After)
+ * @returns {Object} 500 - Error del servidor
+ */
+const ingresarConCodigo = async (req, res) => {
+  try {
+    const { email, code } = req.body;
+
+    const codigoAcceso = await CodigoAcceso.ultimoDe(normalizarEmail(email));
+
+    if (!codigoAcceso || !codigoAcceso.esValido()) {
+      return res.status(401).json({
+        success: false,
+        error: 'El código venció o ya se usó. Pide uno nuevo.'
+      });
+    }
+
+    let usuario = await Usuario.findById(codigoAcceso.usuario_id);
+
+    if (!usuario || !usuario.activo) {
+      return res.status(401).json({
+        success: false,
+        error: 'Usuario inactivo. Contacta al administrador.'
+      });
+    }
+
+    const bloqueo = accesosService.segundosDeBloqueo(usuario);
+
+    if (bloqueo > 0) {
+      res.set('Retry-After', String(bloqueo));
+      return res.status(429).json({
+        success: false,
+        error: accesosService.mensajeDeBloqueo(usuario)
+      });
+    }
+
+    // Cada comparación gasta un intento, reservado antes de comparar
+    if (!await codigoAcceso.reclamarIntento()) {
+      return res.status(401).json({
+        success: false,
+        error: 'El código venció o ya se usó. Pide uno nuevo.'
+      });
+    }
+
+    if (!codigoCoincide(codigoAcceso.code, code)) {
+      const espera = await accesosService.registrarFallo(req, usuario, 'codigo', 'Código de acceso incorrecto');
+      const restantes = 3 - codigoAcceso.intentos;
+      return res.status(401).json({
+        success: false,
+        error: espera > 0
+          ? `Código incorrecto. Espera ${accesosService.describirEspera(espera)} antes de volver a intentar.`
+          : restantes > 0
+            ? `Código incorrecto. Te quedan ${restantes} intentos.`
+            : 'Código incorrecto. Pide uno nuevo.'
+      });
+    }
+
+    if (!await codigoAcceso.consumir()) {
+      return res.status(401).json({
+        success: false,
+        error: 'El código venció o ya se usó. Pide uno nuevo.'
+      });
+    }
+
+    // El código llegó a su bandeja: el email es suyo
+    if (codigoAcceso.metodo === 'email' && !usuario.email_verificado) {
+      usuario = await verificacionEmailService.marcarVerificado(usuario._id);
+    }
+
+    // Segundo paso: código de la app autenticadora
+    if (usuario.dos_pasos?.activo) {
+      console.log(`🔐 Código de acceso correcto, esperando código de dos pasos: ${usuario.email}`);
+      return res.json({
+        success: true,
+        data: {
+          requiere_dos_pasos: true,
+          desafio: dosPasosService.crearDesafio(usuario)
+        }
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: usuario._id });
+
+    await sesionService.iniciar(req, res, usuario);
+    await accesosService.registrarExito(req, usuario, 'codigo');
+
+    console.log(`✅ Login sin contraseña (${codigoAcceso.metodo}): ${usuario.email} | Rol: ${usuario.role}`);
+
+    res.json({
+      success: true,
+      data: {
+        usuario,
+        tienda
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error en login con código:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al iniciar sesión'
+    });
+  }
+};
+
+module.exports = {
+  solicitarCodigo,
+  ingresarConCodigo
+};
@@ -0,0 +1,138 @@
+// backend/src/controllers/cuentaController.js
+const Usuario = require('../models/Usuario');
+const cuentaService = require('../services/cuentaService');
+
+/**
+ * @route   GET /api/auth/cuenta/exportar
+ * @desc    Descarga un .zip con los datos de la cuenta, su tienda y productos
+ * @access  Private
+ *
+ * @returns {Stream} 200 - Archivo .zip (datos.json + imagenes/)
+ * @returns {Object} 500 - Error del servidor
+ */
+const exportarDatos = async (req, res) => {
+  try {
+    const fecha = new Date().toISOString().slice(0, 10);
+
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="nilhub-datos-${fecha}.zip"`
+    });
+
+    await cuentaService.exportarDatos(req.usuario._id, res);
+
+  } catch (error) {
+    console.error('❌ Error al exportar datos de la cuenta:', error);
+
+    // El .zip ya empezó a enviarse: solo queda cortarlo
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({
+      success: false,
+      error: 'Error al exportar tus datos'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/cuenta/eliminacion
+ * @desc    Programa la eliminación de la cuenta (se puede cancelar durante el plazo de gracia)
+ * @access  Private
+ *
+ * La tienda deja de aparecer en el catálogo de inmediato. Vencido el plazo
+ * se borran la cuenta, la tienda, los productos con sus imágenes, los
+ * pedidos y la analítica (ver cuentaService).
+ *
+ * @param {string} req.body.password - Contraseña actual (confirmación)
+ *
+ * @returns {Object} 200 - Eliminación programada, { usuario }
+ * @returns {Object} 400 - Ya estaba programada
+ * @returns {Object} 401 - Contraseña incorrecta
+ * @returns {Object} 403 - Los administradores no pueden eliminar su cuenta
+ * @returns {Object} 500 - Error del servidor
+ */
+const solicitarEliminacion = async (req, res) => {
+  try {
+    if (req.usuario.esAdmin()) {
+      return res.status(403).json({
+        success: false,
+        error: 'Los administradores no pueden eliminar su propia cuenta'
+      });
+    }
+
+    if (req.usuario.eliminacion?.programada_para) {
+      return res.status(400).json({
+        success: false,
+        error: 'La eliminación de tu cuenta ya está programada'
+      });
+    }
+
+    const conPassword = await Usuario.findById(req.usuario._id).select('+password');
+
+    if (!await conPassword.compararPassword(req.body.password)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Contraseña incorrecta'
+      });
+    }
+
+    const usuario = await cuentaService.programarEliminacion(req.usuario);
+
+    res.json({
+      success: true,
+      message: `Tu cuenta se eliminará en ${cuentaService.DIAS_GRACIA} días. Puedes cancelarlo hasta entonces.`,
+      data: { usuario }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al solicitar eliminación de cuenta:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al solicitar la eliminación de la cuenta'
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/auth/cuenta/eliminacion
+ * @desc    Cancela la eliminación programada y vuelve a publicar la tienda
+ * @access  Private
+ *
+ * @returns {Object} 200 - Eliminación cancelada, { usuario }
+ * @returns {Object} 400 - No había eliminación programada
+ * @returns {Object} 500 - Error del servidor
+ */
+const cancelarEliminacion = async (req, res) => {
+  try {
+    if (!req.usuario.eliminacion?.programada_para) {
+      return res.status(400).json({
+        success: false,
+        error: 'Tu cuenta no tiene una eliminación programada'
+      });
+    }
+
+    const usuario = await cuentaService.cancelarEliminacion(req.usuario._id);
+
+    res.json({
+      success: true,
+      message: 'Cancelaste la eliminación. Tu tienda vuelve a estar publicada.',
+      data: { usuario }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al cancelar eliminación de cuenta:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al cancelar la eliminación de la cuenta'
+    });
+  }
+};
+
+module.exports = {
+  exportarDatos,
+  solicitarEliminacion,
+  cancelarEliminacion
+};
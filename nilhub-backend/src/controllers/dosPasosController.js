@@ -0,0 +1,351 @@
+// backend/src/controllers/dosPasosController.js
+const Usuario = require('../models/Usuario');
+const Tienda = require('../models/Tienda');
+const sesionService = require('../services/sesionService');
+const dosPasosService = require('../services/dosPasosService');
+const accesosService = require('../services/accesosService');
+
+const { CAMPOS_SECRETOS } = dosPasosService;
+
+// ===================================
+// LOGIN
+// ===================================
+
+/**
+ * @route   POST /api/auth/login/dos-pasos
+ * @desc    Segundo paso del login: código de la app o de recuperación
+ * @access  Public (requiere el desafío que devolvió POST /api/auth/login)
+ *
+ * @param {string} req.body.desafio - Desafío del primer paso (vence en 5 minutos)
+ * @param {string} req.body.codigo - 6 dígitos de la app o código de recuperación
+ *
+ * @returns {Object} 200 - { usuario, tienda } e inicia la sesión (cookies)
+ * @returns {Object} 401 - Desafío vencido o código incorrecto
+ * @returns {Object} 429 - Cuenta en espera o bloqueada (header Retry-After)
+ * @returns {Object} 500 - Error del servidor
+ */
+const completarLogin = async (req, res) => {
+  try {
+    const { desafio, codigo } = req.body;
+
+    const usuarioId = dosPasosService.leerDesafio(desafio);
+    const usuario = usuarioId && await Usuario.findById(usuarioId).select(CAMPOS_SECRETOS);
+
+    if (!usuario || !usuario.activo || !usuario.dos_pasos?.activo) {
+      return res.status(401).json({
+        success: false,
+        error: 'El inicio de sesión venció. Ingresa tu contraseña nuevamente.'
+      });
+    }
+
+    // Los códigos de 6 dígitos también se pueden adivinar: cuentan como fallos
+    const bloqueo = accesosService.segundosDeBloqueo(usuario);
+
+    if (bloqueo > 0) {
+      res.set('Retry-After', String(bloqueo));
+      return res.status(429).json({
+        success: false,
+        error: accesosService.mensajeDeBloqueo(usuario)
+      });
+    }
+
+    const metodo = await dosPasosService.verificarCodigo(usuario, codigo);
+
+    if (!metodo) {
+      const espera = await accesosService.registrarFallo(req, usuario, 'dos_pasos', 'Código de dos pasos incorrecto');
+      return res.status(401).json({
+        success: false,
+        error: espera > 0
+          ? `Código incorrecto. Espera ${accesosService.describirEspera(espera)} antes de volver a intentar.`
+          : 'Código incorrecto'
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: usuario._id });
+
+    await sesionService.iniciar(req, res, usuario);
+    await accesosService.registrarExito(req, usuario, 'dos_pasos');
+
+    console.log(`✅ Login exitoso en dos pasos (${metodo}): ${usuario.email} | Rol: ${usuario.role}`);
+
+    res.json({
+      success: true,
+      data: {
+        usuario,
+        tienda
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error en login en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al iniciar sesión'
+    });
+  }
+};
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * @route   GET /api/auth/dos-pasos
+ * @desc    Estado de la verificación en dos pasos del usuario
+ * @access  Private
+ *
+ * @returns {Object} 200 - { activo, activado_en, obligatorio, codigos_restantes }
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerEstado = async (req, res) => {
+  try {
+    const usuario = await Usuario.findById(req.usuario._id).select('+dos_pasos.codigos_recuperacion');
+
+    res.json({
+      success: true,
+      data: {
+        activo: usuario.dos_pasos.activo,
+        activado_en: usuario.dos_pasos.activado_en,
+        obligatorio: usuario.dosPasosObligatorio(),
+        codigos_restantes: usuario.dos_pasos.codigos_recuperacion?.length ?? 0
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener la verificación en dos pasos'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/dos-pasos/configurar
+ * @desc    Genera un secreto nuevo y su QR (no se activa hasta confirmar un código)
+ * @access  Private
+ *
+ * @returns {Object} 200 - { secreto, otpauth, qr }
+ * @returns {Object} 400 - Ya está activa
+ * @returns {Object} 500 - Error del servidor
+ */
+const configurar = async (req, res) => {
+  try {
+    if (req.usuario.dos_pasos?.activo) {
+      return res.status(400).json({
+        success: false,
+        error: 'La verificación en dos pasos ya está activa'
+      });
+    }
+
+    const { secreto, otpauth, qr } = await dosPasosService.nuevoSecreto(req.usuario);
+
+    await Usuario.updateOne(
+      { _id: req.usuario._id },
+      { $set: { 'dos_pasos.secreto_pendiente': secreto } }
+    );
+
+    res.json({
+      success: true,
+      data: { secreto, otpauth, qr }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al configurar verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al configurar la verificación en dos pasos'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/dos-pasos/activar
+ * @desc    Activa la verificación con un código del secreto recién escaneado
+ * @access  Private
+ *
+ * Los códigos de recuperación solo se devuelven en esta respuesta
+ *
+ * @param {string} req.body.codigo - 6 dígitos de la app
+ * @returns {Object} 200 - { codigos_recuperacion }
+ * @returns {Object} 400 - Sin configurar, ya activa o código incorrecto
+ * @returns {Object} 500 - Error del servidor
+ */
+const activar = async (req, res) => {
+  try {
+    const usuario = await Usuario.findById(req.usuario._id).select('+dos_pasos.secreto_pendiente');
+    const pendiente = usuario.dos_pasos.secreto_pendiente;
+
+    if (usuario.dos_pasos.activo || !pendiente) {
+      return res.status(400).json({
+        success: false,
+        error: usuario.dos_pasos.activo
+          ? 'La verificación en dos pasos ya está activa'
+          : 'Primero escanea el código QR'
+      });
+    }
+
+    const paso = dosPasosService.verificarTotp(pendiente, req.body.codigo);
+
+    if (paso === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Código incorrecto. Revisa que la hora del teléfono esté bien.'
+      });
+    }
+
+    const { codigos, hashes } = dosPasosService.nuevosCodigosRecuperacion();
+
+    await Usuario.updateOne(
+      { _id: usuario._id },
+      {
+        $set: {
+          'dos_pasos.activo': true,
+          'dos_pasos.secreto': pendiente,
+          'dos_pasos.codigos_recuperacion': hashes,
+          'dos_pasos.ultimo_paso': paso,
+          'dos_pasos.activado_en': new Date()
+        },
+        $unset: { 'dos_pasos.secreto_pendiente': '' }
+      }
+    );
+
+    console.log(`🔐 Verificación en dos pasos activada: ${usuario.email}`);
+
+    res.json({
+      success: true,
+      data: { codigos_recuperacion: codigos }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al activar verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al activar la verificación en dos pasos'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/dos-pasos/codigos
+ * @desc    Reemplaza los códigos de recuperación (los anteriores dejan de servir)
+ * @access  Private
+ *
+ * @param {string} req.body.codigo - Código de la app o de recuperación
+ * @returns {Object} 200 - { codigos_recuperacion }
+ * @returns {Object} 400 - Verificación inactiva o código incorrecto
+ * @returns {Object} 500 - Error del servidor
+ */
+const regenerarCodigos = async (req, res) => {
+  try {
+    const usuario = await Usuario.findById(req.usuario._id).select(CAMPOS_SECRETOS);
+
+    if (!usuario.dos_pasos.activo) {
+      return res.status(400).json({
+        success: false,
+        error: 'La verificación en dos pasos no está activa'
+      });
+    }
+
+    if (!await dosPasosService.verificarCodigo(usuario, req.body.codigo)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Código incorrecto'
+      });
+    }
+
+    const { codigos, hashes } = dosPasosService.nuevosCodigosRecuperacion();
+
+    await Usuario.updateOne(
+      { _id: usuario._id },
+      { $set: { 'dos_pasos.codigos_recuperacion': hashes } }
+    );
+
+    console.log(`🔑 Códigos de recuperación regenerados: ${usuario.email}`);
+
+    res.json({
+      success: true,
+      data: { codigos_recuperacion: codigos }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al regenerar códigos de recuperación:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al regenerar los códigos'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/dos-pasos/desactivar
+ * @desc    Desactiva la verificación en dos pasos
+ * @access  Private (no disponible para administradores: es obligatoria)
+ *
+ * @param {string} req.body.codigo - Código de la app o de recuperación
+ * @returns {Object} 200 - Verificación desactivada
+ * @returns {Object} 400 - Verificación inactiva o código incorrecto
+ * @returns {Object} 403 - Es obligatoria para el usuario
+ * @returns {Object} 500 - Error del servidor
+ */
+const desactivar = async (req, res) => {
+  try {
+    const usuario = await Usuario.findById(req.usuario._id).select(CAMPOS_SECRETOS);
+
+    if (usuario.dosPasosObligatorio()) {
+      return res.status(403).json({
+        success: false,
+        error: 'La verificación en dos pasos es obligatoria para administradores'
+      });
+    }
+
+    if (!usuario.dos_pasos.activo) {
+      return res.status(400).json({
+        success: false,
+        error: 'La verificación en dos pasos no está activa'
+      });
+    }
+
+    if (!await dosPasosService.verificarCodigo(usuario, req.body.codigo)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Código incorrecto'
+      });
+    }
+
+    await Usuario.updateOne(
+      { _id: usuario._id },
+      {
+        $set: { 'dos_pasos.activo': false, 'dos_pasos.activado_en': null },
+        $unset: {
+          'dos_pasos.secreto': '',
+          'dos_pasos.codigos_recuperacion': '',
+          'dos_pasos.ultimo_paso': ''
+        }
+      }
+    );
+
+    console.log(`🔓 Verificación en dos pasos desactivada: ${usuario.email}`);
+
+    res.json({
+      success: true,
+      message: 'Verificación en dos pasos desactivada'
+    });
+
+  } catch (error) {
+    console.error('❌ Error al desactivar verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al desactivar la verificación en dos pasos'
+    });
+  }
+};
+
+module.exports = {
+  completarLogin,
+  obtenerEstado,
+  configurar,
+  activar,
+  regenerarCodigos,
+  desactivar
+};
@@ -1,7 +1,9 @@
 // backend/src/controllers/passwordResetController.js
 const Usuario = require('../models/Usuario');
 const PasswordReset = require('../models/PasswordReset');
+const Sesion = require('../models/Sesion');
 const bcrypt = require('bcryptjs');
+const dosPasosService = require('../services/dosPasosService');
 const { enviarCodigoRecuperacion, enviarConfirmacionCambio } = require('../services/emailService');
 
 /**
@@ -156,7 +158,8 @@ const solicitarRecuperacion = async (req, res) => {
  * @param {string} req.body.email - Email del usuario
  * @param {string} req.body.code - Código de 6 dígitos
  * 
- * @returns {Object} 200 - Código válido
+ * @returns {Object} 200 - Código válido; data.requiere_dos_pasos indica si el
+ *                         cambio pedirá también un código de dos pasos
  * @returns {Object} 400 - Código inválido, usado, expirado o sin intentos
  * @returns {Object} 500 - Error del servidor
  */
@@ -209,9 +212,14 @@ const verificarCodigo = async (req, res) => {
     // Incrementar contador de intentos
     await passwordReset.incrementarIntentos();
 
+    const usuario = await Usuario.findById(passwordReset.usuario_id);
+
     return res.status(200).json({
       success: true,
-      message: 'Código válido'
+      message: 'Código válido',
+      data: {
+        requiere_dos_pasos: Boolean(usuario?.dos_pasos?.activo)
+      }
     });
 
   } catch (error) {
@@ -232,15 +240,18 @@ const verificarCodigo = async (req, res) => {
  * @param {string} req.body.email - Email del usuario
  * @param {string} req.body.code - Código de 6 dígitos
  * @param {string} req.body.nuevaPassword - Nueva contraseña (min 6 caracteres)
+ * @param {string} [req.body.codigo_dos_pasos] - Código de la app o de recuperación
+ *                 (obligatorio si el usuario tiene la verificación en dos pasos:
+ *                 el código del email solo no alcanza para tomar la cuenta)
  * 
  * @returns {Object} 200 - Contraseña actualizada
- * @returns {Object} 400 - Validación fallida o código inválido
+ * @returns {Object} 400 - Validación fallida, código inválido o falta el de dos pasos
  * @returns {Object} 404 - Usuario no encontrado
  * @returns {Object} 500 - Error del servidor
  */
 const resetPassword = async (req, res) => {
   try {
-    const { email, code, nuevaPassword } = req.body;
+    const { email, code, nuevaPassword, codigo_dos_pasos } = req.body;
 
     // Validaciones
     if (!email || !code || !nuevaPassword) {
@@ -274,7 +285,7 @@ const resetPassword = async (req, res) => {
     }
 
     // Buscar usuario
-    const usuario = await Usuario.findById(passwordReset.usuario_id);
+    const usuario = await Usuario.findById(passwordReset.usuario_id).select(dosPasosService.CAMPOS_SECRETOS);
 
     if (!usuario) {
       return res.status(404).json({
@@ -283,21 +294,43 @@ const resetPassword = async (req, res) => {
       });
     }
 
+    // Con verificación en dos pasos también se pide el código de la app
+    // (o uno de recuperación si se perdió el teléfono)
+    if (usuario.dos_pasos?.activo) {
+      if (!codigo_dos_pasos) {
+        return res.status(400).json({
+          success: false,
+          error: 'Ingresa el código de tu app autenticadora o un código de recuperación'
+        });
+      }
+
+      if (!await dosPasosService.verificarCodigo(usuario, codigo_dos_pasos)) {
+        await passwordReset.incrementarIntentos();
+        return res.status(400).json({
+          success: false,
+          error: 'Código de verificación en dos pasos incorrecto'
+        });
+      }
+    }
+
     // Hashear nueva contraseña manualmente
     const salt = await bcrypt.genSalt(10);
     const passwordHash = await bcrypt.hash(nuevaPassword, salt);
 
     // ⚠️ IMPORTANTE: Usar updateOne para BYPASS del middleware pre-save
-    // Esto evita doble hashing
+    // Esto evita doble hashing. También quita el bloqueo por intentos fallidos
     await Usuario.updateOne(
       { _id: usuario._id },
-      { $set: { password: passwordHash } }
+      { $set: { password: passwordHash, 'bloqueo.intentos_fallidos': 0, 'bloqueo.bloqueado_hasta': null } }
     );
 
     // Marcar código como usado
     await passwordReset.marcarComoUsado();
 
-    console.log(`✅ Contraseña actualizada para: ${usuario.email}`);
+    // Cerrar las sesiones abiertas: quien tenía la contraseña anterior queda fuera
+    const sesionesCerradas = await Sesion.revocarTodas(usuario._id, 'password');
+
+    console.log(`✅ Contraseña actualizada para: ${usuario.email} (${sesionesCerradas} sesiones cerradas)`);
 
     // 📧 Enviar email de confirmación
     try {
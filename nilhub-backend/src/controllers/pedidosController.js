@@ -0,0 +1,459 @@
+// backend/src/controllers/pedidosController.js
+const mongoose = require('mongoose');
+const Pedido = require('../models/Pedido');
+const { ESTADOS_PEDIDO } = require('../models/Pedido');
+const Producto = require('../models/Producto');
+const Tienda = require('../models/Tienda');
+const webhookService = require('../services/webhookService');
+
+/**
+ * Máximo de líneas distintas por pedido
+ * @constant
+ */
+const MAX_ITEMS_PEDIDO = 50;
+
+/**
+ * Stock disponible para una línea del pedido (variante o producto)
+ * Devuelve 0 si el producto o la variante ya no existen
+ * @private
+ */
+const stockDisponible = (producto, item) => {
+  if (!producto) return 0;
+  if (item.variante_id) {
+    const variante = producto.variantes.id(item.variante_id);
+    return variante ? variante.stock : 0;
+  }
+  return producto.stock;
+};
+
+/**
+ * Suma (o resta) unidades al stock de una línea del pedido
+ * ⚠️ IMPORTANTE: Usa Producto.moverStock (atómico) para que dos cambios
+ * simultáneos no se pisen ni dejen el stock negativo
+ * @returns {Promise<boolean>} false si no alcanzó el stock o la línea ya no existe
+ * @private
+ */
+const ajustarStock = async (producto, item, delta) => {
+  const stockAnterior = webhookService.stockDe(producto);
+
+  const actualizado = await Producto.moverStock(producto._id, item.variante_id || null, delta);
+  if (!actualizado) return false;
+
+  webhookService.emitirCambioStock(actualizado, stockAnterior)
+    .catch(err => console.error('❌ Error al emitir webhook:', err));
+  return true;
+};
+
+/**
+ * Nombre de una línea del pedido para los mensajes de error
+ * @private
+ */
+const nombreDeLinea = (item) =>
+  `${item.nombre}${item.variante_nombre ? ` (${item.variante_nombre})` : ''}`;
+
+/**
+ * @route   POST /api/pedidos
+ * @desc    Crea un pedido desde el carrito del catálogo público
+ * @access  Public
+ *
+ * Los precios y el stock se toman de la base de datos,
+ * nunca del cliente.
+ *
+ * @param {Object} req.body
+ * @param {string} req.body.tienda_slug - Slug de la tienda
+ * @param {string} req.body.cliente_nombre - Nombre del comprador
+ * @param {string} req.body.cliente_telefono - Teléfono del comprador
+ * @param {Array<Object>} req.body.items - [{ producto_id, variante_id?, cantidad }]
+ *
+ * @returns {Object} 201 - Pedido creado (incluye código corto)
+ * @returns {Object} 400 - Datos inválidos o stock insuficiente
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const crearPedido = async (req, res) => {
+  try {
+    const { tienda_slug, cliente_nombre, cliente_telefono, items } = req.body;
+
+    if (!tienda_slug || !cliente_nombre || !cliente_telefono) {
+      return res.status(400).json({
+        success: false,
+        error: 'Tienda, nombre y teléfono son obligatorios'
+      });
+    }
+
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_ITEMS_PEDIDO) {
+      return res.status(400).json({
+        success: false,
+        error: `El pedido debe tener entre 1 y ${MAX_ITEMS_PEDIDO} productos`
+      });
+    }
+
+    const tienda = await Tienda.findOne(Tienda.filtroPublico({ slug: tienda_slug }));
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    // Agrupar cantidades por producto y variante (por si llegan repetidos)
+    const cantidades = new Map();
+    for (const item of items) {
+      const cantidad = parseInt(item.cantidad, 10);
+      if (!item.producto_id || isNaN(cantidad) || cantidad < 1) {
+        return res.status(400).json({
+          success: false,
+          error: 'Cada producto debe tener un ID y una cantidad mayor a 0'
+        });
+      }
+      // Un ID mal formado haría fallar la consulta (CastError → 500)
+      if (!mongoose.isValidObjectId(item.producto_id) ||
+          (item.variante_id && !mongoose.isValidObjectId(item.variante_id))) {
+        return res.status(400).json({
+          success: false,
+          error: 'ID de producto inválido'
+        });
+      }
+      const clave = `${item.producto_id}:${item.variante_id || ''}`;
+      const actual = cantidades.get(clave);
+      cantidades.set(clave, {
+        producto_id: String(item.producto_id),
+        variante_id: item.variante_id ? String(item.variante_id) : null,
+        cantidad: (actual ? actual.cantidad : 0) + cantidad
+      });
+    }
+
+    const productoIds = [...new Set([...cantidades.values()].map(linea => linea.producto_id))];
+    const productos = await Producto.find({
+      _id: { $in: productoIds },
+      tienda_id: tienda._id,
+      activo: true
+    });
+
+    if (productos.length !== productoIds.length) {
+      return res.status(400).json({
+        success: false,
+        error: 'Algunos productos ya no están disponibles'
+      });
+    }
+    const productosPorId = new Map(productos.map(p => [p._id.toString(), p]));
+
+    // Construir líneas con precios actuales y validar stock
+    const lineas = [];
+    for (const { producto_id, variante_id, cantidad } of cantidades.values()) {
+      const producto = productosPorId.get(producto_id);
+      let variante = null;
+
+      if (producto.variantes.length > 0) {
+        variante = variante_id ? producto.variantes.id(variante_id) : null;
+        if (!variante) {
+          return res.status(400).json({
+            success: false,
+            error: `Elige una opción disponible de ${producto.nombre}`
+          });
+        }
+      }
+
+      const disponible = variante ? variante.stock : producto.stock;
+      const nombre = variante ? `${producto.nombre} (${variante.nombre})` : producto.nombre;
+
+      if (cantidad > disponible) {
+        return res.status(400).json({
+          success: false,
+          error: `Stock insuficiente para ${nombre} (disponible: ${disponible})`
+        });
+      }
+
+      const precioUnitario = producto.precioDe(variante);
+      lineas.push({
+        producto_id: producto._id,
+        nombre: producto.nombre,
+        variante_id: variante ? variante._id : undefined,
+        variante_nombre: variante ? variante.nombre : undefined,
+        precio_unitario: precioUnitario,
+        cantidad,
+        subtotal: precioUnitario * cantidad
+      });
+    }
+
+    const total = lineas.reduce((suma, linea) => suma + linea.subtotal, 0);
+
+    const pedido = await Pedido.create({
+      tienda_id: tienda._id,
+      codigo: await Pedido.generarCodigoUnico(),
+      cliente_nombre,
+      cliente_telefono: String(cliente_telefono).replace(/\D/g, ''),
+      items: lineas,
+      total
+    });
+
+    console.log(`✅ Pedido creado: ${pedido.codigo} (Tienda: ${tienda.nombre})`);
+
+    res.status(201).json({
+      success: true,
+      data: pedido
+    });
+
+  } catch (error) {
+    console.error('❌ Error al crear pedido:', error);
+
+    if (error.name === 'ValidationError') {
+      const errores = Object.values(error.errors).map(err => err.message);
+      return res.status(400).json({
+        success: false,
+        error: errores[0] || 'Error de validación'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Error al crear pedido'
+    });
+  }
+};
+
+/**
+ * @route   GET /api/pedidos/mis-pedidos
+ * @desc    Obtiene los pedidos de la tienda del usuario autenticado
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} [req.query.estado] - Filtrar por estado
+ * @returns {Object} 200 - Lista de pedidos + resumen por estado
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerMisPedidos = async (req, res) => {
+  try {
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const query = { tienda_id: tienda._id };
+    if (req.query.estado && ESTADOS_PEDIDO.includes(req.query.estado)) {
+      query.estado = req.query.estado;
+    }
+
+    const [pedidos, resumen] = await Promise.all([
+      Pedido.find(query).sort({ createdAt: -1 }).limit(200),
+      Pedido.resumenPorEstado(tienda._id)
+    ]);
+
+    res.json({
+      success: true,
+      count: pedidos.length,
+      data: {
+        pedidos,
+        resumen
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener pedidos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener pedidos'
+    });
+  }
+};
+
+/**
+ * @route   GET /api/pedidos/:id
+ * @desc    Obtiene un pedido de la tienda del usuario
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID del pedido
+ * @returns {Object} 200 - Pedido encontrado
+ * @returns {Object} 403 - No autorizado
+ * @returns {Object} 404 - Pedido no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerPedidoPorId = async (req, res) => {
+  try {
+    const pedido = await Pedido.findById(req.params.id);
+
+    if (!pedido) {
+      return res.status(404).json({
+        success: false,
+        error: 'Pedido no encontrado'
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda || pedido.tienda_id.toString() !== tienda._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'No autorizado para ver este pedido'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: pedido
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener pedido:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener pedido'
+    });
+  }
+};
+
+/**
+ * @route   PATCH /api/pedidos/:id/estado
+ * @desc    Cambia el estado de un pedido
+ * @access  Private (requiere JWT)
+ *
+ * - Al confirmar: descuenta el stock de cada producto (o variante)
+ * - Al cancelar un pedido confirmado: devuelve el stock
+ *
+ * @param {string} req.params.id - ID del pedido
+ * @param {string} req.body.estado - Nuevo estado
+ *
+ * @returns {Object} 200 - Pedido actualizado
+ * @returns {Object} 400 - Transición inválida o stock insuficiente
+ * @returns {Object} 403 - No autorizado
+ * @returns {Object} 404 - Pedido no encontrado
+ * @returns {Object} 409 - Otra petición cambió el pedido al mismo tiempo
+ * @returns {Object} 500 - Error del servidor
+ */
+const cambiarEstadoPedido = async (req, res) => {
+  try {
+    const { estado } = req.body;
+
+    if (!ESTADOS_PEDIDO.includes(estado)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Estado inválido'
+      });
+    }
+
+    const pedido = await Pedido.findById(req.params.id);
+
+    if (!pedido) {
+      return res.status(404).json({
+        success: false,
+        error: 'Pedido no encontrado'
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda || pedido.tienda_id.toString() !== tienda._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: 'No autorizado para editar este pedido'
+      });
+    }
+
+    if (!pedido.puedeCambiarA(estado)) {
+      return res.status(400).json({
+        success: false,
+        error: `No se puede pasar de "${pedido.estado}" a "${estado}"`
+      });
+    }
+
+    const productos = await Producto.find({
+      _id: { $in: pedido.items.map(item => item.producto_id) },
+      tienda_id: tienda._id
+    });
+    const productosPorId = new Map(productos.map(p => [p._id.toString(), p]));
+
+    const descontar = estado === 'confirmado' && !pedido.stock_descontado;
+    const devolver = estado === 'cancelado' && pedido.stock_descontado;
+
+    // Confirmar: validar todo el stock antes de descontar nada
+    if (descontar) {
+      for (const item of pedido.items) {
+        const disponible = stockDisponible(productosPorId.get(item.producto_id.toString()), item);
+        if (disponible < item.cantidad) {
+          return res.status(400).json({
+            success: false,
+            error: `Stock insuficiente para ${nombreDeLinea(item)} (disponible: ${disponible})`
+          });
+        }
+      }
+    }
+
+    // Reclamar el cambio de forma atómica: si otra petición (doble click,
+    // otra pestaña) cambió el pedido desde la lectura, no se toca el stock
+    const anterior = { estado: pedido.estado, stock_descontado: pedido.stock_descontado };
+    const cambios = { estado };
+    if (descontar) cambios.stock_descontado = true;
+    if (devolver) cambios.stock_descontado = false;
+
+    const actualizado = await Pedido.findOneAndUpdate(
+      { _id: pedido._id, ...anterior },
+      { $set: cambios },
+      { new: true }
+    );
+
+    if (!actualizado) {
+      return res.status(409).json({
+        success: false,
+        error: 'El pedido cambió mientras lo editabas. Recarga la página e intenta de nuevo.'
+      });
+    }
+
+    if (descontar) {
+      const descontados = [];
+      for (const item of pedido.items) {
+        const producto = productosPorId.get(item.producto_id.toString());
+        if (producto && await ajustarStock(producto, item, -item.cantidad)) {
+          descontados.push(item);
+          continue;
+        }
+
+        // El stock cambió desde la validación: devolver lo descontado y el estado
+        for (const hecho of descontados) {
+          await ajustarStock(productosPorId.get(hecho.producto_id.toString()), hecho, hecho.cantidad);
+        }
+        await Pedido.updateOne({ _id: pedido._id }, { $set: anterior });
+
+        return res.status(400).json({
+          success: false,
+          error: `Stock insuficiente para ${nombreDeLinea(item)}`
+        });
+      }
+    }
+
+    // Cancelar un pedido ya confirmado: devolver stock
+    if (devolver) {
+      for (const item of pedido.items) {
+        const producto = productosPorId.get(item.producto_id.toString());
+        if (producto) {
+          await ajustarStock(producto, item, item.cantidad);
+        }
+      }
+    }
+
+    console.log(`✅ Pedido ${pedido.codigo} → ${estado}`);
+
+    res.json({
+      success: true,
+      data: actualizado
+    });
+
+  } catch (error) {
+    console.error('❌ Error al cambiar estado del pedido:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al cambiar estado del pedido'
+    });
+  }
+};
+
+module.exports = {
+  crearPedido,
+  obtenerMisPedidos,
+  obtenerPedidoPorId,
+  cambiarEstadoPedido
+};
@@ -1,6 +1,10 @@
 // backend/src/controllers/productosController.js
 const Producto = require('../models/Producto');
 const Tienda = require('../models/Tienda');
+const Categoria = require('../models/Categoria');
+const importacionService = require('../services/importacionService');
+const analiticaService = require('../services/analiticaService');
+const webhookService = require('../services/webhookService');
 
 /**
  * @route   GET /api/productos/mis-productos
@@ -45,8 +49,11 @@ const obtenerMisProductos = async (req, res) => {
 
 /**
  * @route   GET /api/productos/:id
- * @desc    Obtiene un producto por ID e incrementa el contador de vistas
+ * @desc    Obtiene un producto por ID
  * @access  Public
+ *
+ * Las vistas no se cuentan aquí (esta ruta la llaman también el servidor
+ * de Next y los crawlers): el navegador las registra en POST /:id/vista
  * 
  * @param {string} req.params.id - ID del producto
  * @returns {Object} 200 - Producto encontrado
@@ -64,11 +71,6 @@ const obtenerProductoPorId = async (req, res) => {
       });
     }
 
-    // Incrementar vistas (async, no esperar respuesta)
-    producto.incrementarVistas().catch(err => 
-      console.error('Error al incrementar vistas:', err)
-    );
-
     res.json({
       success: true,
       data: producto
@@ -128,6 +130,14 @@ const crearProducto = async (req, res) => {
       }
     }
 
+    // Validar que la categoría exista en la tienda
+    if (!req.body.categoria || !await Categoria.exists({ tienda_id: tienda._id, slug: req.body.categoria })) {
+      return res.status(400).json({
+        success: false,
+        error: 'Categoría inválida'
+      });
+    }
+
     // Crear producto
     const producto = await Producto.create({
       ...req.body,
@@ -139,6 +149,9 @@ const crearProducto = async (req, res) => {
 
     console.log(`✅ Producto creado: ${producto.nombre} (Tienda: ${tienda.nombre})`);
 
+    webhookService.emitir(tienda._id, 'producto.creado', producto.toJSON())
+      .catch(err => console.error('❌ Error al emitir webhook:', err));
+
     res.status(201).json({
       success: true,
       data: producto
@@ -147,6 +160,13 @@ const crearProducto = async (req, res) => {
   } catch (error) {
     console.error('❌ Error al crear producto:', error);
     
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        error: 'Ya existe un producto con ese SKU'
+      });
+    }
+
     // Manejar errores de validación
     if (error.name === 'ValidationError') {
       const errores = Object.values(error.errors).map(err => err.message);
@@ -173,7 +193,7 @@ const crearProducto = async (req, res) => {
  * @param {Object} req.usuario - Usuario del JWT
  * 
  * @returns {Object} 200 - Producto actualizado
- * @returns {Object} 400 - Validación fallida
+ * @returns {Object} 400 - Validación fallida, o stock sin variantes en un producto con variantes
  * @returns {Object} 403 - No autorizado
  * @returns {Object} 404 - Producto no encontrado
  * @returns {Object} 500 - Error del servidor
@@ -226,7 +246,25 @@ const actualizarProducto = async (req, res) => {
       }
     }
 
+    // Con variantes, el stock total es la suma de cada variante: solo se
+    // puede enviar junto con las variantes (el modelo lo recalcula)
+    if (req.body.stock !== undefined && req.body.variantes === undefined && producto.variantes.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Este producto tiene variantes: edita el stock de cada variante'
+      });
+    }
+
+    // Validar la categoría si se está cambiando
+    if (req.body.categoria !== undefined && !await Categoria.exists({ tienda_id: tienda._id, slug: req.body.categoria })) {
+      return res.status(400).json({
+        success: false,
+        error: 'Categoría inválida'
+      });
+    }
+
     // Actualizar producto
+    const stockAnterior = webhookService.stockDe(producto);
     producto = await Producto.findByIdAndUpdate(
       req.params.id,
       req.body,
@@ -235,6 +273,10 @@ const actualizarProducto = async (req, res) => {
 
     console.log(`✅ Producto actualizado: ${producto.nombre}`);
 
+    webhookService.emitir(tienda._id, 'producto.actualizado', producto.toJSON())
+      .then(() => webhookService.emitirCambioStock(producto, stockAnterior))
+      .catch(err => console.error('❌ Error al emitir webhook:', err));
+
     res.json({
       success: true,
       data: producto
@@ -243,6 +285,13 @@ const actualizarProducto = async (req, res) => {
   } catch (error) {
     console.error('❌ Error al actualizar producto:', error);
     
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        error: 'Ya existe un producto con ese SKU'
+      });
+    }
+
     if (error.name === 'ValidationError') {
       const errores = Object.values(error.errors).map(err => err.message);
       return res.status(400).json({
@@ -269,6 +318,7 @@ const actualizarProducto = async (req, res) => {
  * @param {Object} req.usuario - Usuario del JWT
  * 
  * @returns {Object} 200 - Stock actualizado
+ * @returns {Object} 400 - El producto tiene variantes
  * @returns {Object} 403 - No autorizado
  * @returns {Object} 404 - Producto no encontrado
  * @returns {Object} 500 - Error del servidor
@@ -295,10 +345,22 @@ const actualizarStock = async (req, res) => {
       });
     }
 
+    // Con variantes, el stock total es la suma de cada variante
+    if (producto.variantes.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Este producto tiene variantes: edita el stock de cada variante'
+      });
+    }
+
     // Actualizar stock usando el método del modelo
     // ⚠️ IMPORTANTE: Usar .actualizarStock() para que funcione el middleware
+    const stockAnterior = webhookService.stockDe(producto);
     await producto.actualizarStock(req.body.stock);
 
+    webhookService.emitirCambioStock(producto, stockAnterior)
+      .catch(err => console.error('❌ Error al emitir webhook:', err));
+
     console.log(`✅ Stock actualizado: ${producto.nombre} → ${req.body.stock} unidades`);
 
     res.json({
@@ -358,6 +420,12 @@ const eliminarProducto = async (req, res) => {
 
     console.log(`✅ Producto eliminado: ${producto.nombre}`);
 
+    webhookService.emitir(tienda._id, 'producto.eliminado', {
+      _id: String(producto._id),
+      nombre: producto.nombre,
+      sku: producto.sku
+    }).catch(err => console.error('❌ Error al emitir webhook:', err));
+
     res.json({
       success: true,
       data: {}
@@ -372,42 +440,280 @@ const eliminarProducto = async (req, res) => {
   }
 };
 
+/**
+ * @description Cuenta una vista o un click del producto de la URL
+ * Responde 200 también cuando no se cuenta (bot, dueño o repetido):
+ * para el catálogo el resultado es el mismo
+ *
+ * @param {Object} req - Request (params.id, body con visitante y origen, usuario opcional)
+ * @param {Object} res - Response
+ * @param {string} tipo - vista | click_whatsapp
+ * @private
+ */
+const contarInteraccion = async (req, res, tipo) => {
+  const producto = await Producto.findById(req.params.id).select('tienda_id nombre sku');
+
+  if (!producto) {
+    return res.status(404).json({
+      success: false,
+      error: 'Producto no encontrado'
+    });
+  }
+
+  const userAgent = req.get('User-Agent');
+  const referrer = typeof req.body?.referrer === 'string' ? req.body.referrer : undefined;
+  const utm = analiticaService.utmDe(req.body);
+  const contada = await analiticaService.contarInteraccion({
+    tipo,
+    producto,
+    visitante: analiticaService.idDeVisitante({ visitante: req.body?.visitante, ip: req.ip, userAgent }),
+    userAgent,
+    usuario: req.usuario,
+    referrer,
+    utm
+  });
+
+  if (contada && tipo === 'click_whatsapp') {
+    webhookService.emitir(producto.tienda_id, 'whatsapp.click', {
+      producto_id: String(producto._id),
+      nombre: producto.nombre,
+      sku: producto.sku,
+      fuente: analiticaService.fuenteDe({ referrer, utm_source: utm.utm_source }),
+      utm_campaign: utm.utm_campaign
+    }).catch(err => console.error('❌ Error al emitir webhook:', err));
+  }
+
+  res.json({
+    success: true,
+    data: { contada }
+  });
+};
+
+/**
+ * @route   POST /api/productos/:id/vista
+ * @desc    Registra una vista del producto (una por visitante cada 30 minutos)
+ * @access  Public (con token opcional: las vistas del dueño no cuentan)
+ *
+ * @param {string} req.params.id - ID del producto
+ * @param {string} [req.body.visitante] - ID del visitante que guarda el navegador
+ * @param {string} [req.body.referrer] - Página externa de la que llegó el visitante
+ * @param {string} [req.body.utm_source] - utm_* del enlace de llegada (también utm_medium, utm_campaign)
+ * @returns {Object} 200 - { contada } (false si es bot, dueño o repetida)
+ * @returns {Object} 404 - Producto no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const registrarVista = async (req, res) => {
+  try {
+    await contarInteraccion(req, res, 'vista');
+  } catch (error) {
+    console.error('❌ Error al registrar vista:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al registrar vista'
+    });
+  }
+};
+
 /**
  * @route   POST /api/productos/:id/click-whatsapp
- * @desc    Registra un click en el botón de WhatsApp
- * @access  Public
+ * @desc    Registra un click en el botón de WhatsApp (uno por visitante cada 30 minutos)
+ * @access  Public (con token opcional: los clicks del dueño no cuentan)
  * 
  * @param {string} req.params.id - ID del producto
- * @returns {Object} 200 - Click registrado
+ * @param {string} [req.body.visitante] - ID del visitante que guarda el navegador
+ * @param {string} [req.body.referrer] - Página externa de la que llegó el visitante
+ * @param {string} [req.body.utm_source] - utm_* del enlace de llegada (también utm_medium, utm_campaign)
+ * @returns {Object} 200 - { contada } (false si es bot, dueño o repetido)
  * @returns {Object} 404 - Producto no encontrado
  * @returns {Object} 500 - Error del servidor
  */
 const registrarClickWhatsApp = async (req, res) => {
   try {
-    const producto = await Producto.findById(req.params.id);
+    await contarInteraccion(req, res, 'click_whatsapp');
+  } catch (error) {
+    console.error('❌ Error al registrar click:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al registrar click'
+    });
+  }
+};
 
-    if (!producto) {
+/**
+ * @route   POST /api/productos/importar
+ * @desc    Importa productos desde un CSV o XLSX (crea o actualiza)
+ * @access  Private (requiere JWT)
+ *
+ * Sin `mapeo` se sugiere uno a partir de los encabezados y siempre se simula,
+ * así el frontend puede mostrar el paso de asociar columnas.
+ *
+ * @param {Object} req.file - Archivo subido por multer (campo `archivo`)
+ * @param {string} [req.body.mapeo] - JSON campo → encabezado del archivo
+ * @param {string} [req.body.clave='sku'] - Reconocer existentes por 'sku' o 'nombre'
+ * @param {string} [req.body.simular='true'] - 'false' para guardar los cambios
+ * @param {Object} req.usuario - Usuario del JWT
+ *
+ * @returns {Object} 200 - { columnas, mapeo, clave, simulacion, filas, resumen }
+ * @returns {Object} 400 - Archivo, mapeo o clave inválidos
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const importarProductos = async (req, res) => {
+  try {
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda) {
       return res.status(404).json({
         success: false,
-        error: 'Producto no encontrado'
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const formato = req.file && importacionService.formatoDe(req.file.originalname);
+    if (!formato) {
+      return res.status(400).json({
+        success: false,
+        error: 'Sube un archivo .csv o .xlsx'
+      });
+    }
+
+    const clave = req.body.clave || 'sku';
+    if (!importacionService.CLAVES.includes(clave)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Clave inválida (usa sku o nombre)'
       });
     }
 
-    // Incrementar contador (async, no esperar)
-    producto.incrementarClicksWhatsApp().catch(err =>
-      console.error('Error al incrementar clicks WhatsApp:', err)
+    let archivo;
+    try {
+      archivo = await importacionService.leerArchivo(req.file.buffer, formato);
+    } catch {
+      return res.status(400).json({
+        success: false,
+        error: 'No se pudo leer el archivo'
+      });
+    }
+
+    if (archivo.filas.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'El archivo no tiene productos'
+      });
+    }
+
+    if (archivo.filas.length > importacionService.MAX_FILAS) {
+      return res.status(400).json({
+        success: false,
+        error: `Máximo ${importacionService.MAX_FILAS} productos por archivo`
+      });
+    }
+
+    // Mapeo enviado por el usuario o sugerido por los encabezados
+    let mapeo;
+    try {
+      mapeo = req.body.mapeo
+        ? JSON.parse(req.body.mapeo)
+        : importacionService.sugerirMapeo(archivo.columnas);
+    } catch {
+      mapeo = null;
+    }
+
+    const campos = importacionService.COLUMNAS.map(c => c.campo);
+    const mapeoValido = mapeo && typeof mapeo === 'object' && Object.entries(mapeo).every(
+      ([campo, columna]) => campos.includes(campo) && archivo.columnas.includes(columna)
     );
+    if (!mapeoValido) {
+      return res.status(400).json({
+        success: false,
+        error: 'Mapeo de columnas inválido'
+      });
+    }
+
+    const simulacion = !req.body.mapeo || req.body.simular !== 'false';
+
+    let filas = await importacionService.prepararImportacion(tienda, archivo, { mapeo, clave });
+    if (!simulacion) {
+      filas = await importacionService.aplicarImportacion(tienda, filas);
+    }
+
+    const contar = (accion) => filas.filter(f => f.accion === accion).length;
 
     res.json({
       success: true,
-      data: { clicks_whatsapp: producto.clicks_whatsapp + 1 }
+      data: {
+        columnas: archivo.columnas,
+        mapeo,
+        clave,
+        simulacion,
+        filas: filas.map(({ fila, accion, nombre, sku, errores, producto_id }) => ({
+          fila, accion, nombre, sku, errores, producto_id
+        })),
+        resumen: {
+          total: filas.length,
+          crear: contar('crear'),
+          actualizar: contar('actualizar'),
+          errores: contar('error')
+        }
+      }
     });
 
   } catch (error) {
-    console.error('❌ Error al registrar click:', error);
+    console.error('❌ Error al importar productos:', error);
     res.status(500).json({
       success: false,
-      error: 'Error al registrar click'
+      error: 'Error al importar productos'
+    });
+  }
+};
+
+/**
+ * @route   GET /api/productos/exportar
+ * @desc    Descarga todos los productos de la tienda (mismo formato que la importación)
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} [req.query.formato='csv'] - 'csv' o 'xlsx'
+ * @param {Object} req.usuario - Usuario del JWT
+ *
+ * @returns {Buffer} 200 - Archivo para descargar
+ * @returns {Object} 400 - Formato inválido
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const exportarProductos = async (req, res) => {
+  try {
+    const formato = req.query.formato || 'csv';
+
+    if (!importacionService.FORMATOS[formato]) {
+      return res.status(400).json({
+        success: false,
+        error: 'Formato inválido (usa csv o xlsx)'
+      });
+    }
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id });
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const archivo = await importacionService.exportarProductos(tienda._id, formato);
+    const fecha = new Date().toISOString().slice(0, 10);
+
+    res.set({
+      'Content-Type': importacionService.FORMATOS[formato],
+      'Content-Disposition': `attachment; filename="productos-${tienda.slug}-${fecha}.${formato}"`
+    });
+    res.send(archivo);
+
+  } catch (error) {
+    console.error('❌ Error al exportar productos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al exportar productos'
     });
   }
 };
@@ -419,5 +725,8 @@ module.exports = {
   actualizarProducto,
   actualizarStock,
   eliminarProducto,
-  registrarClickWhatsApp
+  registrarVista,
+  registrarClickWhatsApp,
+  importarProductos,
+  exportarProductos
 };
\ No newline at end of file
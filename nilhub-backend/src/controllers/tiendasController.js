@@ -1,6 +1,12 @@
 // backend/src/controllers/tiendasController.js
+const mongoose = require('mongoose');
 const Tienda = require('../models/Tienda');
 const Producto = require('../models/Producto');
+const Categoria = require('../models/Categoria');
+const catalogoService = require('../services/catalogoService');
+const busquedaService = require('../services/busquedaService');
+const analiticaService = require('../services/analiticaService');
+const webhookService = require('../services/webhookService');
 
 /**
  * @route   GET /api/tiendas/:slug
@@ -11,7 +17,7 @@ const obtenerTiendaPorSlug = async (req, res) => {
   try {
     const { slug } = req.params;
 
-    const tienda = await Tienda.findOne({ slug, activa: true })
+    const tienda = await Tienda.findOne(Tienda.filtroPublico({ slug }))
       .populate('usuario_id', 'nombre email')
       .lean();
 
@@ -39,56 +45,121 @@ const obtenerTiendaPorSlug = async (req, res) => {
 
 /**
  * @route   GET /api/tiendas/:slug/productos
- * @desc    Obtiene todos los productos de una tienda (catálogo público)
+ * @desc    Obtiene una página del catálogo público de una tienda
  * @access  Public
+ *
+ * @param {string} [req.query.categoria] - Slug de categoría (incluye subcategorías)
+ * @param {string} [req.query.buscar] - Texto a buscar en nombre, descripción o marca
+ * @param {string} [req.query.marca] - Marcas separadas por coma
+ * @param {number} [req.query.precio_min] - Precio mínimo (precio que paga el cliente)
+ * @param {number} [req.query.precio_max] - Precio máximo
+ * @param {boolean} [req.query.en_stock] - Solo productos con stock ('true')
+ * @param {string} [req.query.ids] - IDs separados por coma (máx. 100)
+ * @param {string} [req.query.orden] - relevancia | recientes | precio_asc | precio_desc | vistas | ofertas
+ *   (por defecto relevancia si hay búsqueda, si no recientes)
+ * @param {number} [req.query.limite] - Productos por página (24 por defecto, máx. 100)
+ * @param {string} [req.query.cursor] - Valor de `siguiente` de la página anterior
+ *
+ * @returns {Object} 200 - { success, data: { tienda, productos, total, siguiente, facetas } }
+ * @returns {Object} 400 - Parámetros inválidos
+ * @returns {Object} 404 - Tienda no encontrada
+ *
+ * `total` es el total de productos que cumplen los filtros (no solo los de la página).
+ * `facetas` solo viene en la primera página (sin cursor).
  */
 const obtenerProductosDeTienda = async (req, res) => {
   try {
     const { slug } = req.params;
-    const { categoria, buscar } = req.query;
+    const {
+      categoria,
+      buscar,
+      marca,
+      precio_min,
+      precio_max,
+      en_stock,
+      ids,
+      limite,
+      cursor
+    } = req.query;
+
+    // Sin búsqueda no hay relevancia: se ordena por recientes
+    const texto = typeof buscar === 'string' ? buscar.trim() : '';
+    const orden = !req.query.orden || (req.query.orden === 'relevancia' && !texto)
+      ? (texto ? 'relevancia' : 'recientes')
+      : req.query.orden;
+
+    // Validar parámetros
+    if (!catalogoService.ORDENES[orden]) {
+      return res.status(400).json({
+        success: false,
+        error: `Orden inválido. Usa: ${Object.keys(catalogoService.ORDENES).join(', ')}`
+      });
+    }
 
-    // Buscar tienda
-    const tienda = await Tienda.findOne({ slug, activa: true }).lean();
+    const numero = (valor) => (valor === undefined || valor === '' ? undefined : Number(valor));
+    const precioMin = numero(precio_min);
+    const precioMax = numero(precio_max);
+    const limiteNum = numero(limite) ?? catalogoService.LIMITE_POR_DEFECTO;
 
-    if (!tienda) {
-      return res.status(404).json({
+    if ([precioMin, precioMax].some(p => p !== undefined && (isNaN(p) || p < 0))) {
+      return res.status(400).json({
         success: false,
-        error: 'Tienda no encontrada'
+        error: 'El rango de precios no es válido'
       });
     }
 
-    // Query base
-    const query = {
-      tienda_id: tienda._id,
-      activo: true
-    };
+    if (!Number.isInteger(limiteNum) || limiteNum < 1 || limiteNum > catalogoService.LIMITE_MAXIMO) {
+      return res.status(400).json({
+        success: false,
+        error: `El límite debe estar entre 1 y ${catalogoService.LIMITE_MAXIMO}`
+      });
+    }
 
-    // Filtrar por categoría
-    if (categoria && categoria !== 'todas') {
-      query.categoria = categoria;
+    const listaIds = ids ? String(ids).split(',').filter(Boolean) : [];
+    if (listaIds.length > catalogoService.LIMITE_MAXIMO || !listaIds.every(id => /^[a-f\d]{24}$/i.test(id))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Lista de IDs inválida'
+      });
     }
 
-    // Buscar por texto
-    if (buscar) {
-      query.$or = [
-        { nombre: { $regex: buscar, $options: 'i' } },
-        { descripcion: { $regex: buscar, $options: 'i' } },
-        { marca: { $regex: buscar, $options: 'i' } }
-      ];
+    const posicion = cursor ? catalogoService.leerCursor(String(cursor), orden) : null;
+    if (cursor && !posicion) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cursor inválido'
+      });
     }
 
-    // Obtener productos
-    const productos = await Producto.find(query)
-      .sort({ createdAt: -1 })
-      .lean();
+    // Buscar tienda
+    const tienda = await Tienda.findOne(Tienda.filtroPublico({ slug })).lean();
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const pagina = await catalogoService.consultarCatalogo(tienda._id, {
+      categoria,
+      buscar: texto,
+      marcas: marca ? String(marca).split(',').map(m => m.trim()).filter(Boolean) : [],
+      precioMin,
+      precioMax,
+      enStock: en_stock === 'true' || en_stock === '1',
+      ids: listaIds,
+      orden,
+      limite: limiteNum,
+      cursor: posicion
+    });
 
     // ✅ Mantener formato: devolver objeto con tienda y productos
     res.status(200).json({
       success: true,
       data: {
         tienda,
-        productos,
-        total: productos.length
+        ...pagina
       }
     });
 
@@ -101,6 +172,143 @@ const obtenerProductosDeTienda = async (req, res) => {
   }
 };
 
+/**
+ * @route   GET /api/tiendas/:slug/sugerencias
+ * @desc    Sugerencias para autocompletar el buscador del catálogo
+ * @access  Public
+ *
+ * @param {string} req.query.q - Texto escrito (mínimo 2 caracteres)
+ * @returns {Object} 200 - { success, data: { productos, marcas, categorias } }
+ * @returns {Object} 404 - Tienda no encontrada
+ */
+const obtenerSugerencias = async (req, res) => {
+  try {
+    const { slug } = req.params;
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (q.length < 2) {
+      return res.status(200).json({
+        success: true,
+        data: { productos: [], marcas: [], categorias: [] }
+      });
+    }
+
+    const tienda = await Tienda.findOne(Tienda.filtroPublico({ slug }), '_id').lean();
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const sugerencias = await busquedaService.sugerencias(tienda._id, q);
+
+    res.status(200).json({
+      success: true,
+      data: sugerencias
+    });
+
+  } catch (error) {
+    console.error('❌ Error en obtenerSugerencias:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener sugerencias'
+    });
+  }
+};
+
+/**
+ * Eventos que el catálogo puede registrar desde el navegador
+ * (vistas y clicks se registran en sus propios endpoints de productos)
+ * @constant
+ */
+const EVENTOS_PUBLICOS = ['busqueda', 'compartir'];
+
+/**
+ * @route   POST /api/tiendas/:slug/eventos
+ * @desc    Registra una búsqueda o un compartir en la analítica de la tienda
+ * @access  Public
+ *
+ * @param {string} req.body.tipo - busqueda | compartir
+ * @param {string} [req.body.producto_id] - Producto compartido
+ * @param {string} [req.body.texto] - Texto buscado (requerido en busqueda)
+ * @param {number} [req.body.resultados] - Productos encontrados
+ * @param {string} [req.body.referrer] - Página externa de origen del visitante
+ * @param {string} [req.body.utm_source] - utm_* del enlace de llegada (también utm_medium, utm_campaign)
+ * @returns {Object} 202 - Evento recibido
+ * @returns {Object} 400 - Evento inválido
+ * @returns {Object} 404 - Tienda o producto no encontrado
+ */
+const registrarEvento = async (req, res) => {
+  try {
+    const { slug } = req.params;
+    const { tipo, producto_id, texto, resultados, referrer } = req.body || {};
+
+    if (!EVENTOS_PUBLICOS.includes(tipo)) {
+      return res.status(400).json({
+        success: false,
+        error: `Tipo de evento inválido. Permitidos: ${EVENTOS_PUBLICOS.join(', ')}`
+      });
+    }
+
+    const textoNormalizado = typeof texto === 'string'
+      ? busquedaService.normalizar(texto).slice(0, 100)
+      : '';
+
+    if (tipo === 'busqueda' && !textoNormalizado) {
+      return res.status(400).json({
+        success: false,
+        error: 'El texto de la búsqueda es requerido'
+      });
+    }
+
+    if (producto_id !== undefined && !mongoose.Types.ObjectId.isValid(producto_id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'ID de producto inválido'
+      });
+    }
+
+    const tienda = await Tienda.findOne(Tienda.filtroPublico({ slug }), '_id').lean();
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    if (producto_id && !(await Producto.exists({ _id: producto_id, tienda_id: tienda._id }))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Producto no encontrado'
+      });
+    }
+
+    const total = Number(resultados);
+
+    await analiticaService.registrarEvento({
+      tipo,
+      tiendaId: tienda._id,
+      productoId: producto_id,
+      referrer: typeof referrer === 'string' ? referrer : undefined,
+      utm: analiticaService.utmDe(req.body),
+      texto: tipo === 'busqueda' ? textoNormalizado : undefined,
+      resultados: tipo === 'busqueda' && Number.isInteger(total) && total >= 0 ? total : undefined
+    });
+
+    res.status(202).json({ success: true });
+
+  } catch (error) {
+    console.error('❌ Error al registrar evento:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al registrar evento'
+    });
+  }
+};
+
 /**
  * @route   GET /api/tiendas/mi-tienda
  * @desc    Obtiene la tienda del usuario autenticado
@@ -164,11 +372,15 @@ const crearTienda = async (req, res) => {
       whatsapp,
       instagram,
       facebook,
-      activa: true
+      activa: true,
+      verificacion_pendiente: !req.usuario.email_verificado
     });
 
     await tienda.save();
 
+    // Categorías iniciales del catálogo
+    await Categoria.crearPorDefecto(tienda._id);
+
     console.log(`✅ Tienda creada: ${tienda.nombre} (${tienda.slug})`);
 
     // ✅ Devolver tienda directamente
@@ -240,6 +452,9 @@ const actualizarTienda = async (req, res) => {
 
     console.log(`✅ Tienda actualizada: ${tienda.nombre}`);
 
+    webhookService.emitir(tienda._id, 'tienda.actualizada', tienda.toJSON())
+      .catch(err => console.error('❌ Error al emitir webhook:', err));
+
     // ✅ Devolver tienda directamente
     res.status(200).json({
       success: true,
@@ -264,10 +479,85 @@ const actualizarTienda = async (req, res) => {
   }
 };
 
+/**
+ * @route   GET /api/tiendas/sitemap
+ * @desc    Slugs de tiendas activas e IDs de sus productos activos (para sitemap.xml)
+ * @access  Public
+ * @returns {Object} 200 - { success, data: { tiendas: [{ slug, updatedAt }], productos: [{ _id, tienda, updatedAt }] } }
+ *
+ * La respuesta se escribe por partes mientras se recorren los cursores:
+ * solo se leen slug/_id/updatedAt y nunca se cargan los documentos completos.
+ * Las tiendas desactivadas (PUT /api/admin/tiendas/:id/toggle) o con el email
+ * del dueño sin verificar, y sus productos, no aparecen.
+ */
+const obtenerMapaDelSitio = async (req, res) => {
+  try {
+    // slug por tienda_id, para asociar cada producto con la URL de su tienda
+    const slugs = new Map();
+
+    res.status(200);
+    res.set('Content-Type', 'application/json; charset=utf-8');
+    res.set('Cache-Control', 'public, max-age=300');
+    res.write('{"success":true,"data":{"tiendas":[');
+
+    const tiendas = Tienda.find(Tienda.filtroPublico(), 'slug updatedAt')
+      .sort({ _id: 1 })
+      .lean()
+      .cursor();
+
+    let primero = true;
+    for await (const tienda of tiendas) {
+      slugs.set(tienda._id.toString(), tienda.slug);
+      res.write(`${primero ? '' : ','}${JSON.stringify({ slug: tienda.slug, updatedAt: tienda.updatedAt })}`);
+      primero = false;
+    }
+
+    res.write('],"productos":[');
+
+    const productos = Producto.find(
+      { activo: true, tienda_id: { $in: [...slugs.keys()] } },
+      'tienda_id updatedAt'
+    )
+      .sort({ tienda_id: 1, _id: 1 })
+      .lean()
+      .cursor();
+
+    primero = true;
+    for await (const producto of productos) {
+      const item = {
+        _id: producto._id,
+        tienda: slugs.get(producto.tienda_id.toString()),
+        updatedAt: producto.updatedAt
+      };
+      res.write(`${primero ? '' : ','}${JSON.stringify(item)}`);
+      primero = false;
+    }
+
+    res.end(']}}');
+
+  } catch (error) {
+    console.error('❌ Error en obtenerMapaDelSitio:', error);
+
+    // Si ya se empezó a escribir no se puede cambiar el status: se corta la respuesta
+    // y el JSON incompleto hace fallar al cliente
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener el mapa del sitio'
+    });
+  }
+};
+
 module.exports = {
   obtenerTiendaPorSlug,
   obtenerProductosDeTienda,
   obtenerMiTienda,
   crearTienda,
-  actualizarTienda
+  actualizarTienda,
+  obtenerMapaDelSitio,
+  obtenerSugerencias,
+  registrarEvento
 };
\ No newline at end of file
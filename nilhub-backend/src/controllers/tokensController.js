@@ -0,0 +1,230 @@
+// backend/src/controllers/tokensController.js
+const TokenApi = require('../models/TokenApi');
+
+const { PERMISOS_TOKEN, MAX_TOKENS } = TokenApi;
+
+/**
+ * @description Valida los permisos recibidos
+ * @param {*} permisos - Valor del body
+ * @returns {string|null} Mensaje de error o null
+ * @private
+ */
+const validarPermisos = (permisos) => {
+  if (!Array.isArray(permisos) || permisos.length === 0) {
+    return 'Elige al menos un permiso';
+  }
+  const invalidos = permisos.filter(p => !PERMISOS_TOKEN.includes(p));
+  if (invalidos.length > 0) {
+    return `Permisos inválidos: ${invalidos.join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * @route   GET /api/tokens
+ * @desc    Lista mis tokens de API vigentes (sin el token, solo su prefijo)
+ * @access  Private (requiere JWT)
+ *
+ * @returns {Object} 200 - { tokens, permisos } (permisos = los que se pueden dar)
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerTokens = async (req, res) => {
+  try {
+    const tokens = await TokenApi.find({ usuario_id: req.usuario._id, revocado_en: null })
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        tokens,
+        permisos: PERMISOS_TOKEN
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener tokens:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener tokens'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/tokens
+ * @desc    Crea un token de API
+ * @access  Private (requiere JWT)
+ *
+ * El token en texto plano solo se devuelve en esta respuesta
+ *
+ * @param {string} req.body.nombre - Para reconocerlo (ej: "Caja de la tienda")
+ * @param {string[]} req.body.permisos - catalogo:leer | productos:escribir | stock:escribir
+ * @param {number} [req.body.limite_por_minuto] - Peticiones por minuto (60 por defecto, máx. 600)
+ *
+ * @returns {Object} 201 - { token, datos del token }
+ * @returns {Object} 400 - Datos inválidos o límite de tokens alcanzado
+ * @returns {Object} 500 - Error del servidor
+ */
+const crearToken = async (req, res) => {
+  try {
+    const { nombre, permisos, limite_por_minuto } = req.body;
+
+    const total = await TokenApi.countDocuments({ usuario_id: req.usuario._id, revocado_en: null });
+    if (total >= MAX_TOKENS) {
+      return res.status(400).json({
+        success: false,
+        error: `Máximo ${MAX_TOKENS} tokens activos. Revoca uno que no uses.`
+      });
+    }
+
+    const error = validarPermisos(permisos);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    const { token, prefijo, hash } = TokenApi.generar();
+    const tokenApi = await TokenApi.create({
+      usuario_id: req.usuario._id,
+      nombre,
+      permisos,
+      limite_por_minuto,
+      prefijo,
+      hash
+    });
+
+    console.log(`✅ Token de API creado: ${tokenApi.nombre} (${prefijo}) por ${req.usuario.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...tokenApi.toJSON(),
+        token
+      }
+    });
+
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        error: Object.values(error.errors)[0].message
+      });
+    }
+    console.error('❌ Error al crear token:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al crear token'
+    });
+  }
+};
+
+/**
+ * @route   PUT /api/tokens/:id
+ * @desc    Cambia nombre, permisos o límite de un token (el token sigue igual)
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID del token
+ * @param {string} [req.body.nombre]
+ * @param {string[]} [req.body.permisos]
+ * @param {number} [req.body.limite_por_minuto]
+ *
+ * @returns {Object} 200 - Token actualizado
+ * @returns {Object} 400 - Datos inválidos
+ * @returns {Object} 404 - Token no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const actualizarToken = async (req, res) => {
+  try {
+    const { nombre, permisos, limite_por_minuto } = req.body;
+
+    const tokenApi = await TokenApi.findOne({ _id: req.params.id, usuario_id: req.usuario._id, revocado_en: null });
+
+    if (!tokenApi) {
+      return res.status(404).json({
+        success: false,
+        error: 'Token no encontrado'
+      });
+    }
+
+    const error = permisos !== undefined && validarPermisos(permisos);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    if (nombre !== undefined) tokenApi.nombre = nombre;
+    if (permisos !== undefined) tokenApi.permisos = permisos;
+    if (limite_por_minuto !== undefined) tokenApi.limite_por_minuto = limite_por_minuto;
+    await tokenApi.save();
+
+    res.json({
+      success: true,
+      data: tokenApi
+    });
+
+  } catch (error) {
+    if (error.name === 'ValidationError' || error.name === 'CastError') {
+      return res.status(400).json({
+        success: false,
+        error: error.errors ? Object.values(error.errors)[0].message : 'Datos inválidos'
+      });
+    }
+    console.error('❌ Error al actualizar token:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al actualizar token'
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/tokens/:id
+ * @desc    Revoca un token: deja de valer de inmediato
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID del token
+ * @returns {Object} 200 - Token revocado
+ * @returns {Object} 404 - Token no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const revocarToken = async (req, res) => {
+  try {
+    const tokenApi = await TokenApi.findOneAndUpdate(
+      { _id: req.params.id, usuario_id: req.usuario._id, revocado_en: null },
+      { $set: { revocado_en: new Date() } },
+      { new: true }
+    );
+
+    if (!tokenApi) {
+      return res.status(404).json({
+        success: false,
+        error: 'Token no encontrado'
+      });
+    }
+
+    console.log(`✅ Token de API revocado: ${tokenApi.nombre} (${tokenApi.prefijo})`);
+
+    res.json({
+      success: true,
+      message: 'Token revocado'
+    });
+
+  } catch (error) {
+    console.error('❌ Error al revocar token:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al revocar token'
+    });
+  }
+};
+
+module.exports = {
+  obtenerTokens,
+  crearToken,
+  actualizarToken,
+  revocarToken
+};
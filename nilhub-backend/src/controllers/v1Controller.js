@@ -0,0 +1,343 @@
+// backend/src/controllers/v1Controller.js
+const mongoose = require('mongoose');
+const Producto = require('../models/Producto');
+const Tienda = require('../models/Tienda');
+const webhookService = require('../services/webhookService');
+
+/**
+ * @fileoverview Endpoints propios de la API pública /api/v1
+ *
+ * @description
+ * Crear, editar y eliminar productos reutilizan productosController; aquí
+ * están los que necesitan las integraciones (caja, inventario): listado
+ * paginado para sincronizar y cambios de stock por SKU o por variante.
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Productos por página si no se indica `limite`
+ * @constant
+ */
+const LIMITE_POR_DEFECTO = 50;
+
+/**
+ * Máximo de productos por página
+ * @constant
+ */
+const LIMITE_MAXIMO = 200;
+
+/**
+ * Máximo de SKUs por petición de PATCH /api/v1/stock
+ * @constant
+ */
+const MAX_ITEMS_STOCK = 100;
+
+/**
+ * @description Tienda del usuario autenticado
+ * @private
+ */
+const tiendaDe = (req) => Tienda.findOne({ usuario_id: req.usuario._id }, '_id');
+
+/**
+ * @description Valida un stock recibido
+ * @private
+ */
+const esStockValido = (stock) => Number.isInteger(stock) && stock >= 0;
+
+// ===================================
+// PRODUCTOS
+// ===================================
+
+/**
+ * @route   GET /api/v1/productos
+ * @desc    Lista los productos de la tienda, paginados por cursor (orden de creación)
+ * @access  Private (JWT o token con catalogo:leer)
+ *
+ * @param {number} [req.query.limite] - Productos por página (50 por defecto, máx. 200)
+ * @param {string} [req.query.cursor] - Valor de `siguiente` de la página anterior
+ * @param {string} [req.query.sku] - Solo el producto (o la variante) con ese SKU
+ * @param {string} [req.query.actualizado_desde] - Fecha ISO: solo productos modificados después
+ *
+ * @returns {Object} 200 - { productos, siguiente } (siguiente es null en la última página)
+ * @returns {Object} 400 - Parámetros inválidos
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const listarProductos = async (req, res) => {
+  try {
+    const { cursor, sku, actualizado_desde } = req.query;
+    const limite = req.query.limite === undefined ? LIMITE_POR_DEFECTO : Number(req.query.limite);
+
+    if (!Number.isInteger(limite) || limite < 1 || limite > LIMITE_MAXIMO) {
+      return res.status(400).json({
+        success: false,
+        error: `El límite debe ser un número entre 1 y ${LIMITE_MAXIMO}`
+      });
+    }
+    if (cursor !== undefined && !mongoose.isValidObjectId(cursor)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cursor inválido'
+      });
+    }
+    const desde = actualizado_desde !== undefined ? new Date(actualizado_desde) : null;
+    if (desde && isNaN(desde)) {
+      return res.status(400).json({
+        success: false,
+        error: 'actualizado_desde debe ser una fecha ISO 8601'
+      });
+    }
+
+    const tienda = await tiendaDe(req);
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const filtro = { tienda_id: tienda._id };
+    if (cursor) filtro._id = { $gt: cursor };
+    if (desde) filtro.updatedAt = { $gt: desde };
+    if (sku) {
+      const codigo = String(sku).trim().toUpperCase();
+      filtro.$or = [{ sku: codigo }, { 'variantes.sku': codigo }];
+    }
+
+    const productos = await Producto.find(filtro)
+      .sort({ _id: 1 })
+      .limit(limite + 1);
+
+    const hayMas = productos.length > limite;
+    const pagina = productos.slice(0, limite);
+
+    res.json({
+      success: true,
+      data: {
+        productos: pagina,
+        siguiente: hayMas ? String(pagina[pagina.length - 1]._id) : null
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al listar productos (v1):', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al listar productos'
+    });
+  }
+};
+
+/**
+ * @route   GET /api/v1/productos/:id
+ * @desc    Obtiene un producto de la tienda (activo o no)
+ * @access  Private (JWT o token con catalogo:leer)
+ *
+ * @param {string} req.params.id - ID del producto
+ * @returns {Object} 200 - Producto
+ * @returns {Object} 404 - Producto no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerProducto = async (req, res) => {
+  try {
+    const tienda = await tiendaDe(req);
+    const producto = tienda && mongoose.isValidObjectId(req.params.id)
+      ? await Producto.findOne({ _id: req.params.id, tienda_id: tienda._id })
+      : null;
+
+    if (!producto) {
+      return res.status(404).json({
+        success: false,
+        error: 'Producto no encontrado'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: producto
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener producto (v1):', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener producto'
+    });
+  }
+};
+
+// ===================================
+// STOCK
+// ===================================
+
+/**
+ * @route   PATCH /api/v1/productos/:id/variantes/:varianteId/stock
+ * @desc    Cambia el stock de una variante (el total se recalcula)
+ * @access  Private (JWT o token con stock:escribir)
+ *
+ * @param {string} req.params.id - ID del producto
+ * @param {string} req.params.varianteId - ID de la variante
+ * @param {number} req.body.stock - Nuevo stock (entero >= 0)
+ *
+ * @returns {Object} 200 - Producto actualizado
+ * @returns {Object} 400 - Stock inválido
+ * @returns {Object} 404 - Producto o variante no encontrados
+ * @returns {Object} 500 - Error del servidor
+ */
+const actualizarStockVariante = async (req, res) => {
+  try {
+    const { stock } = req.body;
+
+    if (!esStockValido(stock)) {
+      return res.status(400).json({
+        success: false,
+        error: 'El stock debe ser un entero mayor o igual a 0'
+      });
+    }
+
+    const tienda = await tiendaDe(req);
+    const producto = tienda && mongoose.isValidObjectId(req.params.id)
+      ? await Producto.findOne({ _id: req.params.id, tienda_id: tienda._id })
+      : null;
+    const variante = producto && mongoose.isValidObjectId(req.params.varianteId)
+      ? producto.variantes.id(req.params.varianteId)
+      : null;
+
+    if (!variante) {
+      return res.status(404).json({
+        success: false,
+        error: producto ? 'Variante no encontrada' : 'Producto no encontrado'
+      });
+    }
+
+    const stockAnterior = webhookService.stockDe(producto);
+    await producto.actualizarStockVariante(variante._id, stock);
+
+    webhookService.emitirCambioStock(producto, stockAnterior)
+      .catch(err => console.error('❌ Error al emitir webhook:', err));
+
+    res.json({
+      success: true,
+      data: producto
+    });
+
+  } catch (error) {
+    console.error('❌ Error al actualizar stock de variante (v1):', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al actualizar stock'
+    });
+  }
+};
+
+/**
+ * @route   PATCH /api/v1/stock
+ * @desc    Cambia el stock de varios productos o variantes por SKU
+ * @access  Private (JWT o token con stock:escribir)
+ *
+ * Cada SKU se procesa por separado: un SKU inexistente no detiene los demás.
+ * Un producto con variantes no acepta stock propio: se usa el SKU de la variante.
+ *
+ * @param {Array<Object>} req.body.items - [{ sku, stock }] (máx. 100)
+ *
+ * @returns {Object} 200 - { actualizados, resultados: [{ sku, ok, stock?, error? }] }
+ * @returns {Object} 400 - Body inválido
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ *
+ * @example
+ * PATCH /api/v1/stock
+ * Body: { items: [{ sku: "LAB-001", stock: 12 }, { sku: "LAB-002-ROJO", stock: 0 }] }
+ */
+const actualizarStockPorSku = async (req, res) => {
+  try {
+    const { items } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_ITEMS_STOCK) {
+      return res.status(400).json({
+        success: false,
+        error: `Envía entre 1 y ${MAX_ITEMS_STOCK} items con { sku, stock }`
+      });
+    }
+
+    const tienda = await tiendaDe(req);
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const resultados = [];
+
+    for (const item of items) {
+      const sku = typeof item?.sku === 'string' ? item.sku.trim().toUpperCase() : '';
+
+      if (!sku) {
+        resultados.push({ sku: item?.sku ?? null, ok: false, error: 'Falta el SKU' });
+        continue;
+      }
+      if (!esStockValido(item.stock)) {
+        resultados.push({ sku, ok: false, error: 'El stock debe ser un entero mayor o igual a 0' });
+        continue;
+      }
+
+      const producto = await Producto.findOne({
+        tienda_id: tienda._id,
+        $or: [{ sku }, { 'variantes.sku': sku }]
+      });
+      const variante = producto?.variantes.find(v => v.sku === sku);
+
+      if (!producto) {
+        resultados.push({ sku, ok: false, error: 'SKU no encontrado' });
+        continue;
+      }
+      if (!variante && producto.variantes.length > 0) {
+        resultados.push({ sku, ok: false, error: 'El producto tiene variantes: usa el SKU de cada variante' });
+        continue;
+      }
+
+      const stockAnterior = webhookService.stockDe(producto);
+      if (variante) {
+        await producto.actualizarStockVariante(variante._id, item.stock);
+      } else {
+        await producto.actualizarStock(item.stock);
+      }
+
+      webhookService.emitirCambioStock(producto, stockAnterior)
+        .catch(err => console.error('❌ Error al emitir webhook:', err));
+
+      resultados.push({ sku, ok: true, producto_id: String(producto._id), stock: item.stock });
+    }
+
+    const actualizados = resultados.filter(r => r.ok).length;
+    console.log(`✅ Stock por SKU en tienda ${tienda._id}: ${actualizados}/${items.length}`);
+
+    res.json({
+      success: true,
+      data: {
+        actualizados,
+        resultados
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al actualizar stock por SKU (v1):', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al actualizar stock'
+    });
+  }
+};
+
+module.exports = {
+  listarProductos,
+  obtenerProducto,
+  actualizarStockVariante,
+  actualizarStockPorSku
+};
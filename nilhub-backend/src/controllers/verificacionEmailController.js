@@ -0,0 +1,115 @@
+// backend/src/controllers/verificacionEmailController.js
+const VerificacionEmail = require('../models/VerificacionEmail');
+const verificacionEmailService = require('../services/verificacionEmailService');
+
+/**
+ * @route   POST /api/auth/verificar-email/reenviar
+ * @desc    Envía un código de verificación nuevo al email del usuario
+ * @access  Private
+ *
+ * @returns {Object} 200 - Código enviado; data.espera son los segundos hasta el próximo reenvío
+ * @returns {Object} 400 - El email ya está verificado
+ * @returns {Object} 429 - Se envió uno hace menos de un minuto
+ * @returns {Object} 500 - Error del servidor
+ */
+const reenviarCodigo = async (req, res) => {
+  try {
+    if (req.usuario.email_verificado) {
+      return res.status(400).json({
+        success: false,
+        error: 'Tu email ya está verificado'
+      });
+    }
+
+    const espera = await verificacionEmailService.esperaParaReenviar(req.usuario);
+
+    if (espera > 0) {
+      return res.status(429).json({
+        success: false,
+        error: `Ya te enviamos un código. Espera ${espera} segundos para pedir otro.`
+      });
+    }
+
+    const code = await verificacionEmailService.enviarCodigo(req.usuario);
+
+    res.json({
+      success: true,
+      message: `Código enviado a ${req.usuario.email}`,
+      data: {
+        espera: verificacionEmailService.ESPERA_REENVIO,
+        // ⚠️ SOLO EN DESARROLLO
+        ...(process.env.NODE_ENV === 'development' && { code })
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al reenviar código de verificación:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al enviar el código'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/verificar-email
+ * @desc    Confirma el email con el último código enviado y publica la tienda
+ * @access  Private
+ *
+ * @param {string} req.body.code - Código de 6 dígitos
+ *
+ * @returns {Object} 200 - Email verificado, { usuario }
+ * @returns {Object} 400 - Ya verificado, código incorrecto, vencido o sin intentos
+ * @returns {Object} 500 - Error del servidor
+ */
+const verificarEmail = async (req, res) => {
+  try {
+    if (req.usuario.email_verificado) {
+      return res.status(400).json({
+        success: false,
+        error: 'Tu email ya está verificado'
+      });
+    }
+
+    const verificacion = await VerificacionEmail.ultimoDe(req.usuario._id);
+
+    if (!verificacion || !verificacion.esValido() || verificacion.email !== req.usuario.email) {
+      return res.status(400).json({
+        success: false,
+        error: 'El código venció. Pide uno nuevo.'
+      });
+    }
+
+    if (verificacion.code !== req.body.code) {
+      await verificacion.incrementarIntentos();
+      return res.status(400).json({
+        success: false,
+        error: 'Código incorrecto'
+      });
+    }
+
+    verificacion.usado = true;
+    await verificacion.save();
+
+    // Publica la tienda en el catálogo
+    const usuario = await verificacionEmailService.marcarVerificado(req.usuario._id);
+
+    res.json({
+      success: true,
+      message: 'Email verificado. Tu tienda ya es pública.',
+      data: { usuario }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al verificar email:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al verificar el email'
+    });
+  }
+};
+
+module.exports = {
+  reenviarCodigo,
+  verificarEmail
+};
@@ -0,0 +1,386 @@
+// backend/src/controllers/webhooksController.js
+const Tienda = require('../models/Tienda');
+const Webhook = require('../models/Webhook');
+const EntregaWebhook = require('../models/EntregaWebhook');
+const webhookService = require('../services/webhookService');
+
+const { EVENTOS_WEBHOOK, MAX_WEBHOOKS } = Webhook;
+
+/**
+ * Entregas que se muestran en el registro de un webhook
+ * @constant
+ */
+const LIMITE_ENTREGAS = 50;
+
+/**
+ * @description Busca un webhook de la tienda del usuario
+ * @param {Object} req - Request (usuario y params.id)
+ * @returns {Promise<Object|null>} Webhook o null si no existe o es de otra tienda
+ * @private
+ */
+const buscarWebhookPropio = async (req) => {
+  const tienda = await Tienda.findOne({ usuario_id: req.usuario._id }, '_id');
+  if (!tienda) return null;
+  return Webhook.findOne({ _id: req.params.id, tienda_id: tienda._id });
+};
+
+/**
+ * @description Valida los eventos recibidos
+ * @param {*} eventos - Valor del body
+ * @returns {string|null} Mensaje de error o null
+ * @private
+ */
+const validarEventos = (eventos) => {
+  if (!Array.isArray(eventos) || eventos.length === 0) {
+    return 'Elige al menos un evento';
+  }
+  const invalidos = eventos.filter(e => !EVENTOS_WEBHOOK.includes(e));
+  if (invalidos.length > 0) {
+    return `Eventos inválidos: ${invalidos.join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * @route   GET /api/webhooks
+ * @desc    Lista los webhooks de mi tienda con su última entrega
+ * @access  Private (requiere JWT)
+ *
+ * @returns {Object} 200 - { webhooks, eventos } (eventos = los que se pueden suscribir)
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerWebhooks = async (req, res) => {
+  try {
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id }, '_id');
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const webhooks = await Webhook.find({ tienda_id: tienda._id }).sort({ createdAt: 1 }).lean();
+    const ultimas = await EntregaWebhook.aggregate([
+      { $match: { webhook_id: { $in: webhooks.map(w => w._id) } } },
+      { $sort: { createdAt: -1 } },
+      { $group: { _id: '$webhook_id', estado: { $first: '$estado' }, fecha: { $first: '$createdAt' } } }
+    ]);
+    const ultimaDe = new Map(ultimas.map(u => [String(u._id), { estado: u.estado, fecha: u.fecha }]));
+
+    res.json({
+      success: true,
+      data: {
+        webhooks: webhooks.map(w => ({ ...w, ultima_entrega: ultimaDe.get(String(w._id)) || null })),
+        eventos: EVENTOS_WEBHOOK
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener webhooks:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener webhooks'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/webhooks
+ * @desc    Registra un webhook y genera su secreto de firma
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.body.url - URL pública que recibirá los eventos
+ * @param {string[]} req.body.eventos - Eventos suscritos
+ * @param {string} [req.body.descripcion] - Nota para identificarlo
+ *
+ * @returns {Object} 201 - Webhook creado (incluye el secreto)
+ * @returns {Object} 400 - Datos inválidos o límite alcanzado
+ * @returns {Object} 404 - Tienda no encontrada
+ * @returns {Object} 500 - Error del servidor
+ */
+const crearWebhook = async (req, res) => {
+  try {
+    const { url, eventos, descripcion } = req.body;
+
+    const tienda = await Tienda.findOne({ usuario_id: req.usuario._id }, '_id');
+
+    if (!tienda) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tienda no encontrada'
+      });
+    }
+
+    const total = await Webhook.countDocuments({ tienda_id: tienda._id });
+    if (total >= MAX_WEBHOOKS) {
+      return res.status(400).json({
+        success: false,
+        error: `Máximo ${MAX_WEBHOOKS} webhooks por tienda`
+      });
+    }
+
+    const error = validarEventos(eventos) || await webhookService.validarDestino(url);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    const webhook = await Webhook.create({
+      tienda_id: tienda._id,
+      url,
+      eventos,
+      descripcion,
+      secreto: webhookService.generarSecreto()
+    });
+
+    console.log(`✅ Webhook creado: ${webhook.url} (Tienda: ${tienda._id})`);
+
+    res.status(201).json({
+      success: true,
+      data: webhook
+    });
+
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        error: Object.values(error.errors)[0].message
+      });
+    }
+    console.error('❌ Error al crear webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al crear webhook'
+    });
+  }
+};
+
+/**
+ * @route   PUT /api/webhooks/:id
+ * @desc    Actualiza URL, eventos, descripción o estado de un webhook
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID del webhook
+ * @param {string} [req.body.url] - Nueva URL
+ * @param {string[]} [req.body.eventos] - Nuevos eventos
+ * @param {string} [req.body.descripcion] - Nueva descripción
+ * @param {boolean} [req.body.activo] - Pausar (false) o reanudar (true)
+ *
+ * @returns {Object} 200 - Webhook actualizado
+ * @returns {Object} 400 - Datos inválidos
+ * @returns {Object} 404 - Webhook no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const actualizarWebhook = async (req, res) => {
+  try {
+    const { url, eventos, descripcion, activo } = req.body;
+
+    const webhook = await buscarWebhookPropio(req);
+
+    if (!webhook) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook no encontrado'
+      });
+    }
+
+    const error = (eventos !== undefined && validarEventos(eventos)) ||
+      (url !== undefined && await webhookService.validarDestino(url));
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error
+      });
+    }
+
+    if (url !== undefined) webhook.url = url;
+    if (eventos !== undefined) webhook.eventos = eventos;
+    if (descripcion !== undefined) webhook.descripcion = descripcion;
+    if (activo !== undefined) webhook.activo = Boolean(activo);
+    await webhook.save();
+
+    res.json({
+      success: true,
+      data: webhook
+    });
+
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        error: Object.values(error.errors)[0].message
+      });
+    }
+    console.error('❌ Error al actualizar webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al actualizar webhook'
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/webhooks/:id
+ * @desc    Elimina un webhook (las entregas pendientes quedan fallidas)
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID del webhook
+ * @returns {Object} 200 - Webhook eliminado
+ * @returns {Object} 404 - Webhook no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const eliminarWebhook = async (req, res) => {
+  try {
+    const webhook = await buscarWebhookPropio(req);
+
+    if (!webhook) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook no encontrado'
+      });
+    }
+
+    await webhook.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Webhook eliminado'
+    });
+
+  } catch (error) {
+    console.error('❌ Error al eliminar webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al eliminar webhook'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/webhooks/:id/secreto
+ * @desc    Genera un nuevo secreto de firma (el anterior deja de valer)
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID del webhook
+ * @returns {Object} 200 - Webhook con el nuevo secreto
+ * @returns {Object} 404 - Webhook no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const regenerarSecreto = async (req, res) => {
+  try {
+    const webhook = await buscarWebhookPropio(req);
+
+    if (!webhook) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook no encontrado'
+      });
+    }
+
+    webhook.secreto = webhookService.generarSecreto();
+    await webhook.save();
+
+    res.json({
+      success: true,
+      data: webhook
+    });
+
+  } catch (error) {
+    console.error('❌ Error al regenerar secreto:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al regenerar secreto'
+    });
+  }
+};
+
+/**
+ * @route   POST /api/webhooks/:id/prueba
+ * @desc    Envía un evento de prueba y devuelve el resultado del intento
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID del webhook
+ * @returns {Object} 200 - Entrega con su primer intento (código de respuesta o error)
+ * @returns {Object} 404 - Webhook no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const enviarPrueba = async (req, res) => {
+  try {
+    const webhook = await buscarWebhookPropio(req);
+
+    if (!webhook) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook no encontrado'
+      });
+    }
+
+    const entrega = await webhookService.enviarPrueba(webhook);
+
+    res.json({
+      success: true,
+      data: entrega
+    });
+
+  } catch (error) {
+    console.error('❌ Error al enviar prueba:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al enviar evento de prueba'
+    });
+  }
+};
+
+/**
+ * @route   GET /api/webhooks/:id/entregas
+ * @desc    Registro de entregas de un webhook (últimas 50, de los últimos 30 días)
+ * @access  Private (requiere JWT)
+ *
+ * @param {string} req.params.id - ID del webhook
+ * @returns {Object} 200 - Entregas con sus intentos, más recientes primero
+ * @returns {Object} 404 - Webhook no encontrado
+ * @returns {Object} 500 - Error del servidor
+ */
+const obtenerEntregas = async (req, res) => {
+  try {
+    const webhook = await buscarWebhookPropio(req);
+
+    if (!webhook) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook no encontrado'
+      });
+    }
+
+    const entregas = await EntregaWebhook.find({ webhook_id: webhook._id })
+      .sort({ createdAt: -1 })
+      .limit(LIMITE_ENTREGAS)
+      .lean();
+
+    res.json({
+      success: true,
+      data: entregas
+    });
+
+  } catch (error) {
+    console.error('❌ Error al obtener entregas:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener entregas'
+    });
+  }
+};
+
+module.exports = {
+  obtenerWebhooks,
+  crearWebhook,
+  actualizarWebhook,
+  eliminarWebhook,
+  regenerarSecreto,
+  enviarPrueba,
+  obtenerEntregas
+};
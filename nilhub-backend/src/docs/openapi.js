@@ -0,0 +1,2142 @@
+// backend/src/docs/openapi.js
+/**
+ * @fileoverview Especificación OpenAPI 3 de toda la API (/api)
+ *
+ * Se sirve en GET /api/docs. Es la fuente del cliente tipado del frontend:
+ * `npm run api:generar` en nilhub-frontend lee este módulo y escribe
+ * src/lib/api.generado.ts. Al agregar o cambiar una ruta de server.js hay que
+ * describirla aquí y regenerar el cliente; si no, el frontend no compila
+ * contra la forma real de la respuesta.
+ *
+ * Las rutas de /api/v1 y sus esquemas vienen de openapiV1.js (contrato
+ * público, que no se rompe entre versiones).
+ *
+ * @module OpenApi
+ */
+
+const openapiV1 = require('./openapiV1');
+const { ICONOS_CATEGORIA } = require('../models/Categoria');
+const { ESTADOS_PEDIDO } = require('../models/Pedido');
+const { EVENTOS_WEBHOOK } = require('../models/Webhook');
+const { PERMISOS_TOKEN } = require('../models/TokenApi');
+
+// ===================================
+// COMPONENTES
+// ===================================
+
+/**
+ * Referencia a un esquema de components.schemas
+ * @private
+ */
+const ref = (nombre) => ({ $ref: `#/components/schemas/${nombre}` });
+
+/**
+ * Respuesta de error ({ success: false, error })
+ * @private
+ */
+const error = (descripcion) => ({
+  description: descripcion,
+  content: { 'application/json': { schema: ref('RespuestaError') } }
+});
+
+/**
+ * Respuesta exitosa con `data`
+ * @private
+ */
+const exito = (descripcion, schema) => ({
+  description: descripcion,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['success', 'data'],
+        properties: { success: { type: 'boolean', enum: [true] }, data: schema }
+      }
+    }
+  }
+});
+
+/**
+ * Respuesta exitosa con solo un mensaje ({ success, message })
+ * @private
+ */
+const mensaje = (descripcion) => ({
+  description: descripcion,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['success', 'message'],
+        properties: { success: { type: 'boolean', enum: [true] }, message: { type: 'string' } }
+      }
+    }
+  }
+});
+
+/**
+ * Body JSON obligatorio
+ * @private
+ */
+const cuerpo = (schema) => ({
+  required: true,
+  content: { 'application/json': { schema } }
+});
+
+/**
+ * Parámetro de ruta obligatorio
+ * @private
+ */
+const enRuta = (nombre, descripcion) => ({
+  name: nombre,
+  in: 'path',
+  required: true,
+  description: descripcion,
+  schema: { type: 'string' }
+});
+
+/**
+ * Parámetro de query opcional
+ * @private
+ */
+const enQuery = (nombre, schema, descripcion) => ({
+  name: nombre,
+  in: 'query',
+  ...(descripcion ? { description: descripcion } : {}),
+  schema
+});
+
+/**
+ * Ruta sin autenticación
+ * @private
+ */
+const publica = { security: [] };
+
+/**
+ * Errores de cualquier ruta con sesión
+ * @private
+ */
+const erroresSesion = {
+  401: error('Sin sesión o token inválido')
+};
+
+/**
+ * Respuesta vacía de las rutas que eliminan ({ success, data: {} })
+ * @private
+ */
+const vacio = { type: 'object' };
+
+/**
+ * Campos de producto del formato de importación/exportación
+ * (los de COLUMNAS en importacionService; no se importa para no cargar Cloudinary)
+ * @private
+ */
+const CAMPOS_IMPORTACION = [
+  'sku', 'nombre', 'descripcion', 'categoria', 'marca', 'precio',
+  'precio_oferta', 'stock', 'imagenes', 'ingredientes', 'peso', 'activo'
+];
+
+/**
+ * Rutas de la API v1 con el prefijo /v1 y el token de API como seguridad
+ * @private
+ */
+const rutasV1 = Object.fromEntries(
+  Object.entries(openapiV1.paths).map(([ruta, operaciones]) => [
+    `/v1${ruta}`,
+    Object.fromEntries(
+      Object.entries(operaciones).map(([metodo, operacion]) => [
+        metodo,
+        metodo === 'parameters'
+          ? operacion
+          : { ...operacion, tags: ['API v1'], security: openapiV1.security }
+      ])
+    )
+  ])
+);
+
+// ===================================
+// ESQUEMAS
+// ===================================
+
+const schemas = {
+  ...openapiV1.components.schemas,
+
+  Usuario: {
+    type: 'object',
+    description: 'Usuario registrado en la plataforma',
+    required: ['_id', 'nombre', 'email', 'role', 'activo', 'createdAt', 'updatedAt'],
+    properties: {
+      _id: { type: 'string' },
+      nombre: { type: 'string', description: 'Nombre completo' },
+      email: { type: 'string', description: 'Email (único, en minúsculas)' },
+      telefono: { type: 'string' },
+      role: { type: 'string', enum: ['vendedor', 'admin'], description: 'Rol en el sistema' },
+      activo: { type: 'boolean', description: 'false = no puede iniciar sesión' },
+      email_verificado: { type: 'boolean', description: 'false = su tienda no aparece en el catálogo público' },
+      dos_pasos: {
+        type: 'object',
+        description: 'Verificación en dos pasos (TOTP)',
+        required: ['activo', 'activado_en', 'obligatorio'],
+        properties: {
+          activo: { type: 'boolean' },
+          activado_en: { type: 'string', format: 'date-time', nullable: true },
+          obligatorio: { type: 'boolean', description: 'true para administradores' }
+        }
+      },
+      bloqueo: {
+        type: 'object',
+        description: 'Intentos de login fallidos seguidos',
+        required: ['intentos_fallidos', 'bloqueado_hasta'],
+        properties: {
+          intentos_fallidos: { type: 'integer', description: 'Se reinicia al ingresar o restablecer la contraseña' },
+          bloqueado_hasta: { type: 'string', format: 'date-time', nullable: true, description: 'Hasta cuándo se rechazan los intentos' }
+        }
+      },
+      eliminacion: {
+        type: 'object',
+        description: 'Solo si pidió eliminar su cuenta',
+        required: ['solicitada_en', 'programada_para'],
+        properties: {
+          solicitada_en: { type: 'string', format: 'date-time' },
+          programada_para: { type: 'string', format: 'date-time', description: 'Hasta entonces puede cancelarla' }
+        }
+      },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  UsuarioResumen: {
+    type: 'object',
+    required: ['_id', 'nombre', 'email'],
+    properties: {
+      _id: { type: 'string' },
+      nombre: { type: 'string' },
+      email: { type: 'string' }
+    }
+  },
+  TiendaEntrada: {
+    type: 'object',
+    description: 'Campos editables de una tienda',
+    properties: {
+      nombre: { type: 'string' },
+      descripcion: { type: 'string' },
+      whatsapp: { type: 'string', description: 'Número con código de país' },
+      instagram: { type: 'string', description: 'Usuario de Instagram sin @' },
+      facebook: { type: 'string', description: 'URL de Facebook' },
+      logo_url: { type: 'string' },
+      logo_cloudinary_id: { type: 'string' },
+      banner_url: { type: 'string' },
+      banner_cloudinary_id: { type: 'string' },
+      color_tema: { type: 'string', description: 'Color hexadecimal del tema' }
+    }
+  },
+  Tienda: {
+    type: 'object',
+    description: 'Tienda virtual de un vendedor',
+    required: [
+      '_id', 'usuario_id', 'nombre', 'slug', 'whatsapp', 'color_tema',
+      'activa', 'total_productos', 'createdAt', 'updatedAt'
+    ],
+    properties: {
+      _id: { type: 'string' },
+      usuario_id: {
+        description: 'Dueño (con nombre y email en la vista pública y en el panel de admin)',
+        oneOf: [{ type: 'string' }, ref('UsuarioResumen')]
+      },
+      nombre: { type: 'string' },
+      slug: { type: 'string', description: 'URL amigable (única, generada del nombre)' },
+      descripcion: { type: 'string' },
+      whatsapp: { type: 'string', description: 'Número con código de país' },
+      instagram: { type: 'string', description: 'Usuario de Instagram sin @' },
+      facebook: { type: 'string', description: 'URL de Facebook' },
+      logo_url: { type: 'string' },
+      logo_cloudinary_id: { type: 'string' },
+      banner_url: { type: 'string' },
+      banner_cloudinary_id: { type: 'string' },
+      color_tema: { type: 'string', description: 'Color hexadecimal del tema' },
+      activa: { type: 'boolean', description: 'false = desactivada por un admin' },
+      verificacion_pendiente: { type: 'boolean', description: 'true = oculta hasta que el dueño confirme su email' },
+      eliminacion_pendiente: { type: 'boolean', description: 'true = oculta porque el dueño pidió eliminar su cuenta' },
+      total_productos: { type: 'integer', description: 'Productos activos' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  Sesion: {
+    type: 'object',
+    description: 'Respuesta de registro e inicio de sesión (las credenciales van en cookies httpOnly)',
+    required: ['usuario', 'tienda'],
+    properties: {
+      usuario: ref('Usuario'),
+      tienda: { allOf: [ref('Tienda')], nullable: true, description: 'null para administradores' }
+    }
+  },
+  DesafioDosPasos: {
+    type: 'object',
+    description: 'Respuesta del login cuando falta el código de dos pasos (no inicia sesión)',
+    required: ['requiere_dos_pasos', 'desafio'],
+    properties: {
+      requiere_dos_pasos: { type: 'boolean', enum: [true] },
+      desafio: { type: 'string', description: 'Se envía a /auth/login/dos-pasos; vence en 5 minutos' }
+    }
+  },
+  EstadoDosPasos: {
+    type: 'object',
+    required: ['activo', 'activado_en', 'obligatorio', 'codigos_restantes'],
+    properties: {
+      activo: { type: 'boolean' },
+      activado_en: { type: 'string', format: 'date-time', nullable: true },
+      obligatorio: { type: 'boolean', description: 'true para administradores (no se puede desactivar)' },
+      codigos_restantes: { type: 'integer', description: 'Códigos de recuperación sin usar' }
+    }
+  },
+  CodigosRecuperacion: {
+    type: 'object',
+    description: 'Códigos de recuperación de un solo uso (solo se ven en esta respuesta)',
+    required: ['codigos_recuperacion'],
+    properties: {
+      codigos_recuperacion: { type: 'array', items: { type: 'string', example: '3f9a2-c41b7' } }
+    }
+  },
+  CodigoDosPasos: {
+    type: 'object',
+    required: ['codigo'],
+    properties: {
+      codigo: { type: 'string', description: '6 dígitos de la app o código de recuperación' }
+    }
+  },
+  SesionAbierta: {
+    type: 'object',
+    description: 'Dispositivo con sesión iniciada (la ubicación es aproximada y solo si el proxy la informa)',
+    required: ['_id', 'dispositivo', 'ip', 'pais', 'ciudad', 'ultimo_uso', 'createdAt', 'actual'],
+    properties: {
+      _id: { type: 'string' },
+      dispositivo: {
+        type: 'object',
+        required: ['navegador', 'sistema', 'movil'],
+        properties: {
+          navegador: { type: 'string', example: 'Chrome' },
+          sistema: { type: 'string', example: 'Android' },
+          movil: { type: 'boolean' }
+        }
+      },
+      ip: { type: 'string' },
+      pais: { type: 'string', description: 'Código ISO del país ("" si no se conoce)', example: 'PE' },
+      ciudad: { type: 'string', description: '"" si no se conoce' },
+      ultimo_uso: { type: 'string', format: 'date-time', description: 'Última renovación (cada 15 minutos de uso)' },
+      createdAt: { type: 'string', format: 'date-time' },
+      actual: { type: 'boolean', description: 'true si es la sesión de quien consulta' }
+    }
+  },
+  Acceso: {
+    type: 'object',
+    description: 'Intento de login (correcto o fallido)',
+    required: ['fecha', 'exito', 'metodo', 'motivo', 'ip', 'pais', 'ciudad', 'dispositivo'],
+    properties: {
+      fecha: { type: 'string', format: 'date-time' },
+      exito: { type: 'boolean' },
+      metodo: {
+        type: 'string',
+        enum: ['contrasena', 'codigo', 'dos_pasos'],
+        description: 'contrasena, código de acceso sin contraseña o código de dos pasos'
+      },
+      motivo: { type: 'string', nullable: true, description: 'Por qué falló (null si fue correcto)' },
+      ip: { type: 'string' },
+      pais: { type: 'string', description: 'Código ISO del país ("" si no se conoce)', example: 'PE' },
+      ciudad: { type: 'string', description: '"" si no se conoce' },
+      dispositivo: {
+        type: 'object',
+        required: ['navegador', 'sistema', 'movil'],
+        properties: {
+          navegador: { type: 'string', example: 'Chrome' },
+          sistema: { type: 'string', example: 'Android' },
+          movil: { type: 'boolean' }
+        }
+      }
+    }
+  },
+  IconoCategoria: {
+    type: 'string',
+    description: 'Ícono de lucide-react de una categoría',
+    enum: ICONOS_CATEGORIA
+  },
+  Categoria: {
+    type: 'object',
+    description: 'Categoría de productos definida por cada tienda',
+    required: ['_id', 'nombre', 'slug', 'icono', 'orden'],
+    properties: {
+      _id: { type: 'string' },
+      tienda_id: { type: 'string' },
+      nombre: { type: 'string' },
+      slug: { type: 'string', description: 'Identificador usado en Producto.categoria (único por tienda)' },
+      icono: ref('IconoCategoria'),
+      orden: { type: 'integer', description: 'Posición en el catálogo (menor primero)' },
+      padre_id: { type: 'string', nullable: true, description: 'Categoría padre (un solo nivel de subcategorías)' },
+      total_productos: { type: 'integer', description: 'Solo en el panel' }
+    }
+  },
+  EstadoPedido: {
+    type: 'string',
+    description: 'Estado de un pedido en el panel del vendedor',
+    enum: ESTADOS_PEDIDO
+  },
+  ItemPedido: {
+    type: 'object',
+    required: ['producto_id', 'nombre', 'precio_unitario', 'cantidad', 'subtotal'],
+    properties: {
+      producto_id: { type: 'string' },
+      nombre: { type: 'string' },
+      variante_id: { type: 'string' },
+      variante_nombre: { type: 'string' },
+      precio_unitario: { type: 'number', description: 'Precio al momento del pedido' },
+      cantidad: { type: 'integer' },
+      subtotal: { type: 'number' }
+    }
+  },
+  Pedido: {
+    type: 'object',
+    description: 'Pedido generado desde el carrito del catálogo',
+    required: [
+      '_id', 'tienda_id', 'codigo', 'cliente_nombre', 'cliente_telefono', 'items',
+      'total', 'estado', 'stock_descontado', 'createdAt', 'updatedAt'
+    ],
+    properties: {
+      _id: { type: 'string' },
+      tienda_id: { type: 'string' },
+      codigo: { type: 'string', description: 'Código corto incluido en el mensaje de WhatsApp (ej: NH-7K3Q9)' },
+      cliente_nombre: { type: 'string' },
+      cliente_telefono: { type: 'string', description: 'Solo dígitos' },
+      items: { type: 'array', items: ref('ItemPedido') },
+      total: { type: 'number' },
+      estado: ref('EstadoPedido'),
+      stock_descontado: { type: 'boolean', description: 'Si ya se descontó el stock (al confirmar)' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  FacetasCatalogo: {
+    type: 'object',
+    description: 'Facetas del catálogo: cada una ignora su propio filtro',
+    required: ['categorias', 'marcas', 'precio', 'en_stock'],
+    properties: {
+      categorias: {
+        type: 'array',
+        description: 'Productos por slug de categoría (sin sumar subcategorías)',
+        items: {
+          type: 'object',
+          required: ['slug', 'total'],
+          properties: { slug: { type: 'string' }, total: { type: 'integer' } }
+        }
+      },
+      marcas: {
+        type: 'array',
+        description: 'Productos por marca, de mayor a menor',
+        items: {
+          type: 'object',
+          required: ['nombre', 'total'],
+          properties: { nombre: { type: 'string' }, total: { type: 'integer' } }
+        }
+      },
+      precio: {
+        type: 'object',
+        nullable: true,
+        description: 'Rango de precios disponible (null si no hay productos)',
+        required: ['min', 'max'],
+        properties: { min: { type: 'number' }, max: { type: 'number' } }
+      },
+      en_stock: { type: 'integer', description: 'Productos con stock' }
+    }
+  },
+  PaginaCatalogo: {
+    type: 'object',
+    description: 'Página del catálogo público',
+    required: ['productos', 'total', 'siguiente', 'facetas'],
+    properties: {
+      productos: { type: 'array', items: ref('Producto') },
+      total: { type: 'integer', description: 'Productos que cumplen los filtros (no solo los de la página)' },
+      siguiente: { type: 'string', nullable: true, description: 'Cursor de la próxima página (null en la última)' },
+      facetas: { allOf: [ref('FacetasCatalogo')], nullable: true, description: 'Solo en la primera página' }
+    }
+  },
+  SugerenciasBusqueda: {
+    type: 'object',
+    description: 'Sugerencias del buscador del catálogo',
+    required: ['productos', 'marcas', 'categorias'],
+    properties: {
+      productos: {
+        type: 'array',
+        description: 'Productos más relevantes',
+        items: {
+          type: 'object',
+          required: ['_id', 'nombre', 'precio'],
+          properties: {
+            _id: { type: 'string' },
+            nombre: { type: 'string' },
+            marca: { type: 'string' },
+            precio: { type: 'number' },
+            precio_oferta: { type: 'number' },
+            imagen: { type: 'string' }
+          }
+        }
+      },
+      marcas: { type: 'array', items: { type: 'string' } },
+      categorias: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['nombre', 'slug'],
+          properties: { nombre: { type: 'string' }, slug: { type: 'string' } }
+        }
+      }
+    }
+  },
+  MapaDelSitio: {
+    type: 'object',
+    description: 'Slugs e IDs públicos para generar sitemap.xml',
+    required: ['tiendas', 'productos'],
+    properties: {
+      tiendas: {
+        type: 'array',
+        description: 'Tiendas activas',
+        items: {
+          type: 'object',
+          required: ['slug', 'updatedAt'],
+          properties: { slug: { type: 'string' }, updatedAt: { type: 'string', format: 'date-time' } }
+        }
+      },
+      productos: {
+        type: 'array',
+        description: 'Productos activos de tiendas activas (tienda = slug)',
+        items: {
+          type: 'object',
+          required: ['_id', 'tienda', 'updatedAt'],
+          properties: {
+            _id: { type: 'string' },
+            tienda: { type: 'string' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        }
+      }
+    }
+  },
+  CampoImportacion: {
+    type: 'string',
+    description: 'Campo de producto que se puede importar/exportar',
+    enum: CAMPOS_IMPORTACION
+  },
+  ResultadoImportacion: {
+    type: 'object',
+    description: 'Resultado de una importación de productos',
+    required: ['columnas', 'mapeo', 'clave', 'simulacion', 'filas', 'resumen'],
+    properties: {
+      columnas: { type: 'array', description: 'Encabezados del archivo', items: { type: 'string' } },
+      mapeo: {
+        type: 'object',
+        description: 'Columna usada para cada campo (sugerida si no se envió)',
+        properties: Object.fromEntries(CAMPOS_IMPORTACION.map(campo => [campo, { type: 'string' }]))
+      },
+      clave: { type: 'string', enum: ['sku', 'nombre'], description: 'Cómo se reconocen los productos existentes' },
+      simulacion: { type: 'boolean', description: 'true si solo se validó, sin guardar' },
+      filas: {
+        type: 'array',
+        description: 'Resultado de cada fila del archivo',
+        items: {
+          type: 'object',
+          required: ['fila', 'accion', 'nombre', 'sku', 'errores'],
+          properties: {
+            fila: { type: 'integer', description: 'Número de fila en el archivo' },
+            accion: { type: 'string', enum: ['crear', 'actualizar', 'error'] },
+            nombre: { type: 'string' },
+            sku: { type: 'string' },
+            errores: { type: 'array', items: { type: 'string' } },
+            producto_id: { type: 'string', description: 'ID del producto guardado (solo al aplicar)' }
+          }
+        }
+      },
+      resumen: {
+        type: 'object',
+        required: ['total', 'crear', 'actualizar', 'errores'],
+        properties: {
+          total: { type: 'integer' },
+          crear: { type: 'integer' },
+          actualizar: { type: 'integer' },
+          errores: { type: 'integer' }
+        }
+      }
+    }
+  },
+  ContadoresAnalitica: {
+    type: 'object',
+    description: 'Contadores de analítica de un día o período',
+    required: ['vistas', 'clicks_whatsapp', 'busquedas', 'compartidos'],
+    properties: {
+      vistas: { type: 'integer' },
+      clicks_whatsapp: { type: 'integer' },
+      busquedas: { type: 'integer' },
+      compartidos: { type: 'integer' }
+    }
+  },
+  ResumenAnalitica: {
+    type: 'object',
+    description: 'Resumen de analítica de la tienda',
+    required: ['desde', 'hasta', 'dias', 'totales', 'anteriores', 'serie', 'productos', 'busquedas', 'fuentes', 'campanas'],
+    properties: {
+      desde: { type: 'string', description: 'Primer día del período (YYYY-MM-DD)' },
+      hasta: { type: 'string', description: 'Último día del período (YYYY-MM-DD)' },
+      dias: { type: 'integer' },
+      totales: {
+        description: 'Totales del período; ctr = clicks / vistas (0 a 1)',
+        allOf: [
+          ref('ContadoresAnalitica'),
+          { type: 'object', required: ['ctr'], properties: { ctr: { type: 'number' } } }
+        ]
+      },
+      anteriores: {
+        description: 'Totales del período anterior de igual largo',
+        allOf: [
+          ref('ContadoresAnalitica'),
+          {
+            type: 'object',
+            required: ['ctr', 'desde', 'hasta'],
+            properties: { ctr: { type: 'number' }, desde: { type: 'string' }, hasta: { type: 'string' } }
+          }
+        ]
+      },
+      serie: {
+        type: 'array',
+        description: 'Un punto por día, incluidos los días sin eventos',
+        items: {
+          allOf: [
+            ref('ContadoresAnalitica'),
+            { type: 'object', required: ['dia'], properties: { dia: { type: 'string' } } }
+          ]
+        }
+      },
+      productos: {
+        type: 'array',
+        description: 'Productos más vistos del período',
+        items: {
+          type: 'object',
+          required: ['_id', 'nombre', 'vistas', 'clicks_whatsapp', 'compartidos', 'ctr'],
+          properties: {
+            _id: { type: 'string' },
+            nombre: { type: 'string' },
+            imagen: { type: 'string' },
+            vistas: { type: 'integer' },
+            clicks_whatsapp: { type: 'integer' },
+            compartidos: { type: 'integer' },
+            ctr: { type: 'number' }
+          }
+        }
+      },
+      busquedas: {
+        type: 'array',
+        description: 'Textos más buscados (normalizados)',
+        items: {
+          type: 'object',
+          required: ['texto', 'total', 'sin_resultados'],
+          properties: { texto: { type: 'string' }, total: { type: 'integer' }, sin_resultados: { type: 'integer' } }
+        }
+      },
+      fuentes: {
+        type: 'array',
+        description: 'Vistas y clicks por fuente de tráfico (instagram, facebook, directo...)',
+        items: {
+          type: 'object',
+          required: ['fuente', 'vistas', 'clicks_whatsapp', 'ctr'],
+          properties: {
+            fuente: { type: 'string' },
+            vistas: { type: 'integer' },
+            clicks_whatsapp: { type: 'integer' },
+            ctr: { type: 'number' }
+          }
+        }
+      },
+      campanas: {
+        type: 'array',
+        description: 'Vistas y clicks por campaña (utm_campaign)',
+        items: {
+          type: 'object',
+          required: ['campana', 'fuente', 'vistas', 'clicks_whatsapp', 'ctr'],
+          properties: {
+            campana: { type: 'string' },
+            fuente: { type: 'string' },
+            vistas: { type: 'integer' },
+            clicks_whatsapp: { type: 'integer' },
+            ctr: { type: 'number' }
+          }
+        }
+      }
+    }
+  },
+  EventoWebhook: {
+    type: 'string',
+    description: 'Evento de la tienda que se puede enviar a un webhook',
+    enum: EVENTOS_WEBHOOK
+  },
+  EstadoEntregaWebhook: {
+    type: 'string',
+    enum: ['pendiente', 'exitosa', 'fallida']
+  },
+  Webhook: {
+    type: 'object',
+    description: 'Webhook saliente de la tienda (POST firmado por cada evento suscrito)',
+    required: ['_id', 'tienda_id', 'url', 'eventos', 'secreto', 'activo', 'createdAt', 'updatedAt'],
+    properties: {
+      _id: { type: 'string' },
+      tienda_id: { type: 'string' },
+      url: { type: 'string' },
+      eventos: { type: 'array', items: ref('EventoWebhook') },
+      secreto: { type: 'string', description: 'Clave para verificar el header X-NilHub-Firma' },
+      descripcion: { type: 'string' },
+      activo: { type: 'boolean', description: 'false = pausado, no se envían eventos' },
+      ultima_entrega: {
+        type: 'object',
+        nullable: true,
+        description: 'Solo en el listado',
+        required: ['estado', 'fecha'],
+        properties: { estado: ref('EstadoEntregaWebhook'), fecha: { type: 'string', format: 'date-time' } }
+      },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  WebhookEntrada: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'https, pública' },
+      eventos: { type: 'array', minItems: 1, items: ref('EventoWebhook') },
+      descripcion: { type: 'string' },
+      activo: { type: 'boolean' }
+    }
+  },
+  EntregaWebhook: {
+    type: 'object',
+    description: 'Envío de un evento a un webhook, con cada intento',
+    required: ['_id', 'webhook_id', 'evento', 'payload', 'estado', 'intentos', 'createdAt'],
+    properties: {
+      _id: { type: 'string' },
+      webhook_id: { type: 'string' },
+      evento: { type: 'string', description: "Un EventoWebhook o 'webhook.prueba'" },
+      payload: {
+        type: 'object',
+        description: 'Cuerpo enviado: { id, evento, fecha, tienda_id, datos }',
+        additionalProperties: true
+      },
+      estado: ref('EstadoEntregaWebhook'),
+      intentos: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['fecha', 'duracion_ms'],
+          properties: {
+            fecha: { type: 'string', format: 'date-time' },
+            codigo: { type: 'integer', description: 'Código HTTP de la respuesta (no hay si no respondió)' },
+            error: { type: 'string' },
+            duracion_ms: { type: 'integer' }
+          }
+        }
+      },
+      proximo_intento: {
+        type: 'string',
+        format: 'date-time',
+        nullable: true,
+        description: 'Próximo reintento si sigue pendiente'
+      },
+      createdAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  PermisoToken: {
+    type: 'string',
+    description: 'Permiso de un token de API',
+    enum: PERMISOS_TOKEN
+  },
+  TokenApi: {
+    type: 'object',
+    description: 'Token de API personal para /api/v1 (el token completo solo se ve al crearlo)',
+    required: ['_id', 'nombre', 'prefijo', 'permisos', 'limite_por_minuto', 'ultimo_uso', 'createdAt'],
+    properties: {
+      _id: { type: 'string' },
+      nombre: { type: 'string' },
+      prefijo: { type: 'string', description: 'Primeros caracteres del token (ej: nhk_3f9a2c)' },
+      permisos: { type: 'array', items: ref('PermisoToken') },
+      limite_por_minuto: { type: 'integer', minimum: 1, maximum: 600 },
+      ultimo_uso: { type: 'string', format: 'date-time', nullable: true },
+      createdAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  TokenApiEntrada: {
+    type: 'object',
+    properties: {
+      nombre: { type: 'string', description: 'Para reconocerlo (ej: "Caja de la tienda")' },
+      permisos: { type: 'array', minItems: 1, items: ref('PermisoToken') },
+      limite_por_minuto: { type: 'integer', minimum: 1, maximum: 600, description: '60 por defecto' }
+    }
+  },
+  OrigenVisita: {
+    type: 'object',
+    description: 'Origen de la visita y visitante (para atribución y para no contar repetidas)',
+    properties: {
+      referrer: { type: 'string', description: 'Página externa de la que llegó el visitante' },
+      utm_source: { type: 'string' },
+      utm_medium: { type: 'string' },
+      utm_campaign: { type: 'string' },
+      visitante: { type: 'string', description: 'ID anónimo del navegador' }
+    }
+  },
+  EstadisticasAdmin: {
+    type: 'object',
+    description: 'Totales de la plataforma',
+    required: ['usuarios', 'vendedores', 'tiendas', 'tiendas_activas', 'productos', 'productos_activos'],
+    properties: {
+      usuarios: { type: 'integer' },
+      vendedores: { type: 'integer' },
+      tiendas: { type: 'integer' },
+      tiendas_activas: { type: 'integer' },
+      productos: { type: 'integer' },
+      productos_activos: { type: 'integer' }
+    }
+  }
+};
+
+// ===================================
+// ESPECIFICACIÓN
+// ===================================
+
+const openapi = {
+  openapi: '3.0.3',
+  info: {
+    title: 'NilHub API',
+    version: '1.0.0',
+    description: [
+      'API completa de NilHub: la que usa el frontend (panel y catálogo público) y la API v1 para integraciones.',
+      '',
+      'Autenticación: el navegador usa las cookies httpOnly que crea /auth/login (acceso de 15 minutos,',
+      'renovable con /auth/refresh). También se acepta `Authorization: Bearer <JWT>`, y las rutas de /v1',
+      'aceptan tokens de API (nhk_...). Todas las respuestas JSON tienen la forma `{ success, data }` o',
+      '`{ success: false, error }`.'
+    ].join('\n')
+  },
+  servers: [{ url: '/api' }],
+  security: [{ cookie: [] }, { jwt: [] }],
+  tags: [
+    { name: 'Autenticación' },
+    { name: 'Productos' },
+    { name: 'Tiendas' },
+    { name: 'Catálogo', description: 'Rutas públicas del catálogo de una tienda' },
+    { name: 'Pedidos' },
+    { name: 'Categorías' },
+    { name: 'Analítica' },
+    { name: 'Webhooks' },
+    { name: 'Tokens de API' },
+    { name: 'API v1', description: 'Contrato estable para integraciones (ver /api/v1/openapi.json)' },
+    { name: 'Imágenes' },
+    { name: 'Admin', description: 'Solo role = admin, con verificación en dos pasos activa' },
+    { name: 'Sistema' }
+  ],
+  paths: {
+    // ===== SISTEMA =====
+    '/health': {
+      get: {
+        tags: ['Sistema'],
+        summary: 'Estado del servidor',
+        ...publica,
+        responses: {
+          200: {
+            description: 'Servidor activo',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['success', 'status', 'uptime', 'timestamp'],
+                  properties: {
+                    success: { type: 'boolean' },
+                    status: { type: 'string' },
+                    uptime: { type: 'integer', description: 'Segundos' },
+                    mongodb: { type: 'string' },
+                    memory: {
+                      type: 'object',
+                      properties: { used: { type: 'string' }, total: { type: 'string' } }
+                    },
+                    timestamp: { type: 'string', format: 'date-time' }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    '/docs': {
+      get: {
+        tags: ['Sistema'],
+        summary: 'Esta especificación',
+        ...publica,
+        responses: {
+          200: {
+            description: 'Documento OpenAPI 3',
+            content: { 'application/json': { schema: { type: 'object', additionalProperties: true } } }
+          }
+        }
+      }
+    },
+
+    // ===== AUTENTICACIÓN =====
+    '/auth/registro': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Registrar vendedor y crear su tienda',
+        description: 'Envía un código al email; la tienda no es pública hasta confirmarlo en POST /auth/verificar-email.',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['nombre', 'email', 'password', 'nombreTienda', 'whatsapp'],
+          properties: {
+            nombre: { type: 'string' },
+            email: { type: 'string' },
+            password: { type: 'string', minLength: 6 },
+            nombreTienda: { type: 'string' },
+            whatsapp: { type: 'string' },
+            instagram: { type: 'string' },
+            facebook: { type: 'string' }
+          }
+        }),
+        responses: {
+          201: exito('Usuario y tienda creados', ref('Sesion')),
+          400: error('Datos inválidos o email ya registrado'),
+          429: error('Demasiados intentos')
+        }
+      }
+    },
+    '/auth/login': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Iniciar sesión',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['email', 'password'],
+          properties: { email: { type: 'string' }, password: { type: 'string' } }
+        }),
+        responses: {
+          200: exito('Sesión iniciada, o desafío si el usuario tiene verificación en dos pasos', {
+            oneOf: [ref('Sesion'), ref('DesafioDosPasos')]
+          }),
+          401: error('Credenciales inválidas o usuario inactivo'),
+          429: error('Demasiados intentos o cuenta bloqueada temporalmente')
+        }
+      }
+    },
+    '/auth/login/codigo': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Pedir un código para ingresar sin contraseña',
+        description: 'Por email llega también un enlace que ingresa directamente. Responde lo mismo si el email no existe, si ya pidió un código hace menos de un minuto o si la cuenta no tiene WhatsApp (y no envía nada).',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['email', 'metodo'],
+          properties: {
+            email: { type: 'string' },
+            metodo: { type: 'string', enum: ['email', 'whatsapp'] }
+          }
+        }),
+        responses: {
+          200: mensaje('Código enviado (si el email existe)'),
+          429: error('Demasiados intentos')
+        }
+      }
+    },
+    '/auth/login/codigo/verificar': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Ingresar con el código recibido',
+        description: 'Solo vale el último código enviado (15 minutos, 3 intentos).',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['email', 'code'],
+          properties: {
+            email: { type: 'string' },
+            code: { type: 'string', description: 'Código de 6 dígitos' }
+          }
+        }),
+        responses: {
+          200: exito('Sesión iniciada, o desafío si el usuario tiene verificación en dos pasos', {
+            oneOf: [ref('Sesion'), ref('DesafioDosPasos')]
+          }),
+          401: error('Código incorrecto, vencido o usado'),
+          429: error('Demasiados intentos o cuenta bloqueada temporalmente')
+        }
+      }
+    },
+    '/auth/login/dos-pasos': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Completar el login con el código de dos pasos',
+        description: 'Acepta los 6 dígitos de la app autenticadora o un código de recuperación (se consume).',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['desafio', 'codigo'],
+          properties: { desafio: { type: 'string' }, codigo: { type: 'string' } }
+        }),
+        responses: {
+          200: exito('Sesión iniciada', ref('Sesion')),
+          401: error('Desafío vencido o código incorrecto'),
+          429: error('Demasiados intentos o cuenta bloqueada temporalmente')
+        }
+      }
+    },
+    '/auth/me': {
+      get: {
+        tags: ['Autenticación'],
+        summary: 'Usuario de la sesión y su tienda',
+        responses: {
+          200: exito('Usuario actual', {
+            type: 'object',
+            required: ['usuario', 'tienda'],
+            properties: {
+              usuario: ref('Usuario'),
+              tienda: { allOf: [ref('Tienda')], nullable: true }
+            }
+          }),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/refresh': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Renovar la sesión',
+        description: 'Cambia la cookie de refresco por una nueva y entrega otro JWT de acceso en su cookie. ' +
+          'Un token de refresco ya usado cierra la sesión completa.',
+        ...publica,
+        responses: {
+          200: exito('Sesión renovada', vacio),
+          401: error('Sin cookie de refresco, sesión vencida o cerrada')
+        }
+      }
+    },
+    '/auth/logout': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Cerrar sesión',
+        description: 'Cierra la sesión de este navegador y borra sus cookies',
+        ...publica,
+        responses: {
+          200: mensaje('Sesión cerrada')
+        }
+      }
+    },
+    '/auth/dos-pasos': {
+      get: {
+        tags: ['Autenticación'],
+        summary: 'Estado de la verificación en dos pasos',
+        responses: {
+          200: exito('Estado', ref('EstadoDosPasos')),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/dos-pasos/configurar': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Generar secreto y QR para la app autenticadora',
+        description: 'No activa nada hasta confirmar un código en /auth/dos-pasos/activar.',
+        responses: {
+          200: exito('Secreto nuevo', {
+            type: 'object',
+            required: ['secreto', 'otpauth', 'qr'],
+            properties: {
+              secreto: { type: 'string', description: 'Base32, para ingresarlo a mano' },
+              otpauth: { type: 'string', description: 'URL otpauth://totp/...' },
+              qr: { type: 'string', description: 'QR como data URL PNG' }
+            }
+          }),
+          400: error('Ya está activa'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/dos-pasos/activar': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Activar con el primer código de la app',
+        requestBody: cuerpo(ref('CodigoDosPasos')),
+        responses: {
+          200: exito('Activada', ref('CodigosRecuperacion')),
+          400: error('Sin configurar, ya activa o código incorrecto'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/dos-pasos/codigos': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Generar códigos de recuperación nuevos',
+        description: 'Los anteriores dejan de servir.',
+        requestBody: cuerpo(ref('CodigoDosPasos')),
+        responses: {
+          200: exito('Códigos nuevos', ref('CodigosRecuperacion')),
+          400: error('Verificación inactiva o código incorrecto'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/dos-pasos/desactivar': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Desactivar la verificación en dos pasos',
+        requestBody: cuerpo(ref('CodigoDosPasos')),
+        responses: {
+          200: mensaje('Desactivada'),
+          400: error('Verificación inactiva o código incorrecto'),
+          403: error('Obligatoria para administradores'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/verificar-email': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Confirmar el email con el código enviado',
+        description: 'Publica la tienda del usuario en el catálogo.',
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['code'],
+          properties: { code: { type: 'string', description: 'Código de 6 dígitos' } }
+        }),
+        responses: {
+          200: exito('Email verificado', {
+            type: 'object',
+            required: ['usuario'],
+            properties: { usuario: ref('Usuario') }
+          }),
+          400: error('Ya verificado, código incorrecto o vencido'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/cuenta/exportar': {
+      get: {
+        tags: ['Autenticación'],
+        summary: 'Descargar mis datos',
+        description: 'Un .zip con datos.json (usuario, accesos, tienda, categorías, productos, pedidos, estadísticas, webhooks, tokens y sesiones) y la carpeta imagenes/',
+        responses: {
+          200: {
+            description: 'Archivo para descargar',
+            content: {
+              'application/zip': { schema: { type: 'string', format: 'binary' } }
+            }
+          },
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/cuenta/eliminacion': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Programar la eliminación de mi cuenta',
+        description: 'La tienda se oculta de inmediato. A los 14 días se borran la cuenta, la tienda, los productos con sus imágenes, los pedidos y la analítica.',
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['password'],
+          properties: { password: { type: 'string', description: 'Contraseña actual' } }
+        }),
+        responses: {
+          200: exito('Eliminación programada', {
+            type: 'object',
+            required: ['usuario'],
+            properties: { usuario: ref('Usuario') }
+          }),
+          400: error('La eliminación ya estaba programada'),
+          401: error('Contraseña incorrecta o sesión inválida'),
+          403: error('Los administradores no pueden eliminar su cuenta'),
+          429: error('Demasiados intentos')
+        }
+      },
+      delete: {
+        tags: ['Autenticación'],
+        summary: 'Cancelar la eliminación de mi cuenta',
+        responses: {
+          200: exito('Eliminación cancelada', {
+            type: 'object',
+            required: ['usuario'],
+            properties: { usuario: ref('Usuario') }
+          }),
+          400: error('No había eliminación programada'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/verificar-email/reenviar': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Reenviar el código de verificación',
+        description: 'Solo vale el último código enviado.',
+        responses: {
+          200: exito('Código enviado', {
+            type: 'object',
+            required: ['espera'],
+            properties: {
+              espera: { type: 'integer', description: 'Segundos hasta poder pedir otro' },
+              code: { type: 'string', description: 'Solo en desarrollo' }
+            }
+          }),
+          400: error('El email ya está verificado'),
+          429: error('Se envió un código hace menos de un minuto'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/sesiones': {
+      get: {
+        tags: ['Autenticación'],
+        summary: 'Dispositivos con sesión iniciada',
+        responses: {
+          200: exito('Sesiones abiertas, la de uso más reciente primero', { type: 'array', items: ref('SesionAbierta') }),
+          ...erroresSesion
+        }
+      },
+      delete: {
+        tags: ['Autenticación'],
+        summary: 'Cerrar sesión en todos los dispositivos',
+        description: 'Incluye este navegador: también borra sus cookies',
+        responses: {
+          200: exito('Sesiones cerradas', {
+            type: 'object',
+            required: ['cerradas'],
+            properties: { cerradas: { type: 'integer' } }
+          }),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/sesiones/{id}': {
+      parameters: [enRuta('id', 'ID de la sesión')],
+      delete: {
+        tags: ['Autenticación'],
+        summary: 'Cerrar sesión en un dispositivo',
+        description: 'Su JWT de acceso deja de valer de inmediato. Si es la sesión actual, borra las cookies.',
+        responses: {
+          200: mensaje('Sesión cerrada'),
+          404: error('Sesión no encontrada'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/accesos': {
+      get: {
+        tags: ['Autenticación'],
+        summary: 'Historial de inicios de sesión',
+        description: 'Los últimos 50 intentos de login de la cuenta, correctos y fallidos',
+        responses: {
+          200: exito('Intentos, el más reciente primero', { type: 'array', items: ref('Acceso') }),
+          ...erroresSesion
+        }
+      }
+    },
+    '/auth/forgot-password': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Enviar código de recuperación por email o WhatsApp',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['email', 'metodo'],
+          properties: { email: { type: 'string' }, metodo: { type: 'string', enum: ['email', 'whatsapp'] } }
+        }),
+        responses: {
+          200: mensaje('Código enviado (o email inexistente, con la misma respuesta)'),
+          400: error('Datos inválidos'),
+          429: error('Demasiados intentos')
+        }
+      }
+    },
+    '/auth/verify-reset-code': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Verificar código de recuperación',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['email', 'code'],
+          properties: { email: { type: 'string' }, code: { type: 'string', pattern: '^\\d{6}$' } }
+        }),
+        responses: {
+          200: exito('Código válido', {
+            type: 'object',
+            required: ['requiere_dos_pasos'],
+            properties: {
+              requiere_dos_pasos: { type: 'boolean', description: 'El cambio pedirá también codigo_dos_pasos' }
+            }
+          }),
+          400: error('Código inválido o vencido')
+        }
+      }
+    },
+    '/auth/reset-password': {
+      post: {
+        tags: ['Autenticación'],
+        summary: 'Cambiar contraseña con el código',
+        description: 'Cierra todas las sesiones abiertas del usuario',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['email', 'code', 'nuevaPassword'],
+          properties: {
+            email: { type: 'string' },
+            code: { type: 'string', pattern: '^\\d{6}$' },
+            nuevaPassword: { type: 'string', minLength: 6 },
+            codigo_dos_pasos: {
+              type: 'string',
+              description: 'Código de la app o de recuperación (obligatorio con verificación en dos pasos)'
+            }
+          }
+        }),
+        responses: {
+          200: mensaje('Contraseña actualizada'),
+          400: error('Código inválido, contraseña muy corta o falta el código de dos pasos'),
+          429: error('Demasiados intentos')
+        }
+      }
+    },
+
+    // ===== PRODUCTOS =====
+    '/productos': {
+      post: {
+        tags: ['Productos'],
+        summary: 'Crear producto',
+        requestBody: cuerpo({
+          allOf: [ref('ProductoEntrada')],
+          required: ['nombre', 'categoria', 'precio', 'stock', 'imagenes']
+        }),
+        responses: {
+          201: exito('Producto creado', ref('Producto')),
+          400: error('Datos inválidos, categoría inexistente o SKU repetido'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/productos/mis-productos': {
+      get: {
+        tags: ['Productos'],
+        summary: 'Productos de mi tienda (activos e inactivos)',
+        responses: {
+          200: exito('Productos', { type: 'array', items: ref('Producto') }),
+          404: error('Tienda no encontrada'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/productos/exportar': {
+      get: {
+        tags: ['Productos'],
+        summary: 'Descargar mis productos (mismo formato que la importación)',
+        parameters: [enQuery('formato', { type: 'string', enum: ['csv', 'xlsx'], default: 'csv' })],
+        responses: {
+          200: {
+            description: 'Archivo para descargar',
+            content: {
+              'text/csv': { schema: { type: 'string', format: 'binary' } },
+              'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+                schema: { type: 'string', format: 'binary' }
+              }
+            }
+          },
+          400: error('Formato inválido'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/productos/importar': {
+      post: {
+        tags: ['Productos'],
+        summary: 'Importar productos desde CSV o XLSX',
+        description: 'Sin `mapeo` se sugiere uno y solo se valida. Con `simular=false` se guardan los cambios.',
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['archivo'],
+                properties: {
+                  archivo: { type: 'string', format: 'binary' },
+                  mapeo: { type: 'string', description: 'JSON campo → encabezado del archivo' },
+                  clave: { type: 'string', enum: ['sku', 'nombre'] },
+                  simular: { type: 'string', enum: ['true', 'false'] }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          200: exito('Resultado por fila', ref('ResultadoImportacion')),
+          400: error('Archivo, mapeo o clave inválidos'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/productos/{id}': {
+      parameters: [enRuta('id', 'ID del producto')],
+      get: {
+        tags: ['Productos'],
+        summary: 'Obtener producto',
+        ...publica,
+        responses: {
+          200: exito('Producto', ref('Producto')),
+          404: error('Producto no encontrado')
+        }
+      },
+      put: {
+        tags: ['Productos'],
+        summary: 'Actualizar producto',
+        description: 'Solo se cambian los campos enviados; `variantes` reemplaza las actuales.',
+        requestBody: cuerpo(ref('ProductoEntrada')),
+        responses: {
+          200: exito('Producto actualizado', ref('Producto')),
+          400: error('Datos inválidos'),
+          403: error('El producto es de otra tienda'),
+          404: error('Producto no encontrado'),
+          ...erroresSesion
+        }
+      },
+      delete: {
+        tags: ['Productos'],
+        summary: 'Eliminar producto',
+        responses: {
+          200: exito('Producto eliminado', vacio),
+          403: error('El producto es de otra tienda'),
+          404: error('Producto no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/productos/{id}/stock': {
+      parameters: [enRuta('id', 'ID del producto')],
+      patch: {
+        tags: ['Productos'],
+        summary: 'Cambiar stock de un producto sin variantes',
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['stock'],
+          properties: { stock: { type: 'integer', minimum: 0 } }
+        }),
+        responses: {
+          200: exito('Producto actualizado', ref('Producto')),
+          400: error('Stock inválido o el producto tiene variantes'),
+          404: error('Producto no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/productos/{id}/vista': {
+      parameters: [enRuta('id', 'ID del producto')],
+      post: {
+        tags: ['Catálogo'],
+        summary: 'Registrar vista del producto',
+        description: 'No se cuentan bots, al dueño (si envía su JWT) ni visitas repetidas del mismo visitante.',
+        ...publica,
+        requestBody: { content: { 'application/json': { schema: ref('OrigenVisita') } } },
+        responses: {
+          200: exito('Vista procesada', {
+            type: 'object',
+            required: ['contada'],
+            properties: { contada: { type: 'boolean' } }
+          }),
+          404: error('Producto no encontrado')
+        }
+      }
+    },
+    '/productos/{id}/click-whatsapp': {
+      parameters: [enRuta('id', 'ID del producto')],
+      post: {
+        tags: ['Catálogo'],
+        summary: 'Registrar click en el botón de WhatsApp',
+        description: 'Mismos filtros que la vista.',
+        ...publica,
+        requestBody: { content: { 'application/json': { schema: ref('OrigenVisita') } } },
+        responses: {
+          200: exito('Click procesado', {
+            type: 'object',
+            required: ['contada'],
+            properties: { contada: { type: 'boolean' } }
+          }),
+          404: error('Producto no encontrado')
+        }
+      }
+    },
+
+    // ===== TIENDAS =====
+    '/tiendas': {
+      post: {
+        tags: ['Tiendas'],
+        summary: 'Crear tienda (si el usuario aún no tiene)',
+        requestBody: cuerpo({
+          allOf: [ref('TiendaEntrada')],
+          required: ['nombre', 'whatsapp']
+        }),
+        responses: {
+          201: exito('Tienda creada', ref('Tienda')),
+          400: error('Faltan datos o el usuario ya tiene tienda'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/tiendas/mi-tienda': {
+      get: {
+        tags: ['Tiendas'],
+        summary: 'Mi tienda',
+        responses: {
+          200: exito('Tienda', ref('Tienda')),
+          404: error('Tienda no encontrada'),
+          ...erroresSesion
+        }
+      },
+      put: {
+        tags: ['Tiendas'],
+        summary: 'Actualizar mi tienda',
+        requestBody: cuerpo(ref('TiendaEntrada')),
+        responses: {
+          200: exito('Tienda actualizada', ref('Tienda')),
+          400: error('Datos inválidos'),
+          404: error('Tienda no encontrada'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/tiendas/sitemap': {
+      get: {
+        tags: ['Catálogo'],
+        summary: 'Tiendas y productos públicos para sitemap.xml',
+        ...publica,
+        responses: { 200: exito('Mapa del sitio', ref('MapaDelSitio')) }
+      }
+    },
+    '/tiendas/{slug}': {
+      // Express comparte la ruta /tiendas/:x: GET recibe el slug y PUT el ID
+      parameters: [enRuta('slug', 'Slug de la tienda (GET) o su ID (PUT)')],
+      get: {
+        tags: ['Catálogo'],
+        summary: 'Tienda activa por slug',
+        ...publica,
+        responses: {
+          200: exito('Tienda', ref('Tienda')),
+          404: error('Tienda no encontrada')
+        }
+      },
+      put: {
+        tags: ['Tiendas'],
+        summary: 'Actualizar tienda por ID (solo la propia)',
+        description: 'Igual que PUT /tiendas/mi-tienda, pero con el ID en la ruta.',
+        requestBody: cuerpo(ref('TiendaEntrada')),
+        responses: {
+          200: exito('Tienda actualizada', ref('Tienda')),
+          403: error('La tienda es de otro usuario'),
+          404: error('Tienda no encontrada'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/tiendas/{slug}/productos': {
+      parameters: [enRuta('slug', 'Slug de la tienda')],
+      get: {
+        tags: ['Catálogo'],
+        summary: 'Página del catálogo con filtros, orden y facetas',
+        ...publica,
+        parameters: [
+          enQuery('categoria', { type: 'string' }, 'Slug de categoría (incluye subcategorías)'),
+          enQuery('buscar', { type: 'string' }, 'Texto en nombre, descripción o marca'),
+          enQuery('marca', { type: 'string' }, 'Marcas separadas por coma'),
+          enQuery('precio_min', { type: 'number' }, 'Precio que paga el cliente'),
+          enQuery('precio_max', { type: 'number' }),
+          enQuery('en_stock', { type: 'string', enum: ['true', '1'] }),
+          enQuery('ids', { type: 'string' }, 'IDs separados por coma (máx. 100)'),
+          enQuery('orden', {
+            type: 'string',
+            enum: ['relevancia', 'recientes', 'precio_asc', 'precio_desc', 'vistas', 'ofertas']
+          }, 'Por defecto relevancia si hay búsqueda, si no recientes'),
+          enQuery('limite', { type: 'integer', minimum: 1, maximum: 100, default: 24 }),
+          enQuery('cursor', { type: 'string' }, 'Valor de `siguiente` de la página anterior')
+        ],
+        responses: {
+          200: exito('Página del catálogo', {
+            allOf: [
+              ref('PaginaCatalogo'),
+              { type: 'object', required: ['tienda'], properties: { tienda: ref('Tienda') } }
+            ]
+          }),
+          400: error('Parámetros inválidos'),
+          404: error('Tienda no encontrada')
+        }
+      }
+    },
+    '/tiendas/{slug}/sugerencias': {
+      parameters: [enRuta('slug', 'Slug de la tienda')],
+      get: {
+        tags: ['Catálogo'],
+        summary: 'Autocompletar del buscador',
+        ...publica,
+        parameters: [enQuery('q', { type: 'string' }, 'Texto escrito (desde 2 caracteres)')],
+        responses: {
+          200: exito('Sugerencias', ref('SugerenciasBusqueda')),
+          404: error('Tienda no encontrada')
+        }
+      }
+    },
+    '/tiendas/{slug}/eventos': {
+      parameters: [enRuta('slug', 'Slug de la tienda')],
+      post: {
+        tags: ['Catálogo'],
+        summary: 'Registrar búsqueda o compartir en la analítica',
+        ...publica,
+        requestBody: cuerpo({
+          allOf: [
+            ref('OrigenVisita'),
+            {
+              type: 'object',
+              required: ['tipo'],
+              properties: {
+                tipo: { type: 'string', enum: ['busqueda', 'compartir'] },
+                texto: { type: 'string', description: 'Texto buscado (en busqueda)' },
+                resultados: { type: 'integer', description: 'Productos encontrados (en busqueda)' },
+                producto_id: { type: 'string', description: 'Producto compartido (en compartir)' }
+              }
+            }
+          ]
+        }),
+        responses: {
+          202: {
+            description: 'Evento recibido',
+            content: {
+              'application/json': {
+                schema: { type: 'object', required: ['success'], properties: { success: { type: 'boolean' } } }
+              }
+            }
+          },
+          400: error('Evento inválido'),
+          404: error('Tienda o producto no encontrado')
+        }
+      }
+    },
+
+    // ===== PEDIDOS =====
+    '/pedidos': {
+      post: {
+        tags: ['Pedidos'],
+        summary: 'Crear pedido desde el carrito',
+        description: 'Los precios se toman de la base de datos, no del cliente.',
+        ...publica,
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['tienda_slug', 'cliente_nombre', 'cliente_telefono', 'items'],
+          properties: {
+            tienda_slug: { type: 'string' },
+            cliente_nombre: { type: 'string' },
+            cliente_telefono: { type: 'string' },
+            items: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                type: 'object',
+                required: ['producto_id', 'cantidad'],
+                properties: {
+                  producto_id: { type: 'string' },
+                  variante_id: { type: 'string' },
+                  cantidad: { type: 'integer', minimum: 1 }
+                }
+              }
+            }
+          }
+        }),
+        responses: {
+          201: exito('Pedido creado', ref('Pedido')),
+          400: error('Datos inválidos o sin stock'),
+          404: error('Tienda o producto no encontrado')
+        }
+      }
+    },
+    '/pedidos/mis-pedidos': {
+      get: {
+        tags: ['Pedidos'],
+        summary: 'Pedidos de mi tienda (los 200 más recientes)',
+        parameters: [enQuery('estado', ref('EstadoPedido'))],
+        responses: {
+          200: exito('Pedidos y total por estado', {
+            type: 'object',
+            required: ['pedidos', 'resumen'],
+            properties: {
+              pedidos: { type: 'array', items: ref('Pedido') },
+              resumen: {
+                type: 'object',
+                description: 'Pedidos por estado (todos, sin filtrar)',
+                required: ESTADOS_PEDIDO,
+                properties: Object.fromEntries(ESTADOS_PEDIDO.map(estado => [estado, { type: 'integer' }]))
+              }
+            }
+          }),
+          ...erroresSesion
+        }
+      }
+    },
+    '/pedidos/{id}': {
+      parameters: [enRuta('id', 'ID del pedido')],
+      get: {
+        tags: ['Pedidos'],
+        summary: 'Obtener pedido de mi tienda',
+        responses: {
+          200: exito('Pedido', ref('Pedido')),
+          404: error('Pedido no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/pedidos/{id}/estado': {
+      parameters: [enRuta('id', 'ID del pedido')],
+      patch: {
+        tags: ['Pedidos'],
+        summary: 'Cambiar estado del pedido',
+        description: 'Confirmar descuenta stock; cancelar un pedido confirmado lo devuelve.',
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['estado'],
+          properties: { estado: ref('EstadoPedido') }
+        }),
+        responses: {
+          200: exito('Pedido actualizado', ref('Pedido')),
+          400: error('Transición no permitida o sin stock'),
+          404: error('Pedido no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+
+    // ===== CATEGORÍAS =====
+    '/categorias': {
+      post: {
+        tags: ['Categorías'],
+        summary: 'Crear categoría',
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['nombre'],
+          properties: {
+            nombre: { type: 'string' },
+            icono: ref('IconoCategoria'),
+            padre_id: { type: 'string', nullable: true }
+          }
+        }),
+        responses: {
+          201: exito('Categoría creada', ref('Categoria')),
+          400: error('Nombre repetido o padre inválido'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/categorias/mis-categorias': {
+      get: {
+        tags: ['Categorías'],
+        summary: 'Categorías de mi tienda con conteo de productos',
+        responses: {
+          200: exito('Categorías', { type: 'array', items: ref('Categoria') }),
+          ...erroresSesion
+        }
+      }
+    },
+    '/categorias/orden': {
+      patch: {
+        tags: ['Categorías'],
+        summary: 'Reordenar categorías',
+        requestBody: cuerpo({
+          type: 'object',
+          required: ['ids'],
+          properties: { ids: { type: 'array', items: { type: 'string' }, description: 'IDs en el orden nuevo' } }
+        }),
+        responses: {
+          200: exito('Categorías en el orden nuevo', { type: 'array', items: ref('Categoria') }),
+          400: error('Lista de IDs inválida'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/categorias/{id}': {
+      parameters: [enRuta('id', 'ID de la categoría')],
+      put: {
+        tags: ['Categorías'],
+        summary: 'Actualizar categoría',
+        description: 'Si cambia el nombre, cambia el slug y se actualizan sus productos.',
+        requestBody: cuerpo({
+          type: 'object',
+          properties: {
+            nombre: { type: 'string' },
+            icono: ref('IconoCategoria'),
+            padre_id: { type: 'string', nullable: true }
+          }
+        }),
+        responses: {
+          200: exito('Categoría actualizada', ref('Categoria')),
+          400: error('Datos inválidos'),
+          404: error('Categoría no encontrada'),
+          ...erroresSesion
+        }
+      },
+      delete: {
+        tags: ['Categorías'],
+        summary: 'Eliminar categoría sin productos ni subcategorías',
+        responses: {
+          200: exito('Categoría eliminada', vacio),
+          400: error('Tiene productos o subcategorías'),
+          404: error('Categoría no encontrada'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/categorias/tienda/{slug}': {
+      parameters: [enRuta('slug', 'Slug de la tienda')],
+      get: {
+        tags: ['Catálogo'],
+        summary: 'Categorías de una tienda',
+        ...publica,
+        responses: {
+          200: exito('Categorías', { type: 'array', items: ref('Categoria') }),
+          404: error('Tienda no encontrada')
+        }
+      }
+    },
+
+    // ===== ANALÍTICA =====
+    '/analitica/resumen': {
+      get: {
+        tags: ['Analítica'],
+        summary: 'Resumen de mi tienda en un rango de días',
+        parameters: [
+          enQuery('desde', { type: 'string' }, 'Primer día (YYYY-MM-DD). Por defecto, hace 29 días'),
+          enQuery('hasta', { type: 'string' }, 'Último día (YYYY-MM-DD). Por defecto, hoy')
+        ],
+        responses: {
+          200: exito('Resumen', ref('ResumenAnalitica')),
+          400: error('Rango de fechas inválido'),
+          ...erroresSesion
+        }
+      }
+    },
+
+    // ===== WEBHOOKS =====
+    '/webhooks': {
+      get: {
+        tags: ['Webhooks'],
+        summary: 'Mis webhooks y los eventos que se pueden suscribir',
+        responses: {
+          200: exito('Webhooks', {
+            type: 'object',
+            required: ['webhooks', 'eventos'],
+            properties: {
+              webhooks: { type: 'array', items: ref('Webhook') },
+              eventos: { type: 'array', items: ref('EventoWebhook') }
+            }
+          }),
+          ...erroresSesion
+        }
+      },
+      post: {
+        tags: ['Webhooks'],
+        summary: 'Registrar webhook (el secreto lo genera el servidor)',
+        requestBody: cuerpo({ allOf: [ref('WebhookEntrada')], required: ['url', 'eventos'] }),
+        responses: {
+          201: exito('Webhook creado', ref('Webhook')),
+          400: error('URL o eventos inválidos, o límite de webhooks alcanzado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/webhooks/{id}': {
+      parameters: [enRuta('id', 'ID del webhook')],
+      put: {
+        tags: ['Webhooks'],
+        summary: 'Editar, pausar o reanudar webhook',
+        requestBody: cuerpo(ref('WebhookEntrada')),
+        responses: {
+          200: exito('Webhook actualizado', ref('Webhook')),
+          400: error('Datos inválidos'),
+          404: error('Webhook no encontrado'),
+          ...erroresSesion
+        }
+      },
+      delete: {
+        tags: ['Webhooks'],
+        summary: 'Eliminar webhook y su registro de entregas',
+        responses: {
+          200: mensaje('Webhook eliminado'),
+          404: error('Webhook no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/webhooks/{id}/secreto': {
+      parameters: [enRuta('id', 'ID del webhook')],
+      post: {
+        tags: ['Webhooks'],
+        summary: 'Generar un secreto nuevo (el anterior deja de valer)',
+        responses: {
+          200: exito('Webhook con el secreto nuevo', ref('Webhook')),
+          404: error('Webhook no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/webhooks/{id}/prueba': {
+      parameters: [enRuta('id', 'ID del webhook')],
+      post: {
+        tags: ['Webhooks'],
+        summary: 'Enviar un evento de prueba',
+        responses: {
+          200: exito('Entrega con el primer intento', ref('EntregaWebhook')),
+          404: error('Webhook no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/webhooks/{id}/entregas': {
+      parameters: [enRuta('id', 'ID del webhook')],
+      get: {
+        tags: ['Webhooks'],
+        summary: 'Últimas 50 entregas, más recientes primero',
+        responses: {
+          200: exito('Entregas', { type: 'array', items: ref('EntregaWebhook') }),
+          404: error('Webhook no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+
+    // ===== TOKENS DE API =====
+    '/tokens': {
+      get: {
+        tags: ['Tokens de API'],
+        summary: 'Mis tokens vigentes y los permisos disponibles',
+        responses: {
+          200: exito('Tokens', {
+            type: 'object',
+            required: ['tokens', 'permisos'],
+            properties: {
+              tokens: { type: 'array', items: ref('TokenApi') },
+              permisos: { type: 'array', items: ref('PermisoToken') }
+            }
+          }),
+          ...erroresSesion
+        }
+      },
+      post: {
+        tags: ['Tokens de API'],
+        summary: 'Crear token',
+        description: 'El token completo solo viene en esta respuesta.',
+        requestBody: cuerpo({ allOf: [ref('TokenApiEntrada')], required: ['nombre', 'permisos'] }),
+        responses: {
+          201: exito('Token creado', {
+            allOf: [
+              ref('TokenApi'),
+              { type: 'object', required: ['token'], properties: { token: { type: 'string' } } }
+            ]
+          }),
+          400: error('Datos inválidos o límite de tokens alcanzado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/tokens/{id}': {
+      parameters: [enRuta('id', 'ID del token')],
+      put: {
+        tags: ['Tokens de API'],
+        summary: 'Cambiar nombre, permisos o límite',
+        requestBody: cuerpo(ref('TokenApiEntrada')),
+        responses: {
+          200: exito('Token actualizado', ref('TokenApi')),
+          400: error('Datos inválidos'),
+          404: error('Token no encontrado'),
+          ...erroresSesion
+        }
+      },
+      delete: {
+        tags: ['Tokens de API'],
+        summary: 'Revocar token',
+        responses: {
+          200: mensaje('Token revocado'),
+          404: error('Token no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+
+    // ===== API V1 =====
+    ...rutasV1,
+
+    // ===== IMÁGENES =====
+    '/upload/imagen': {
+      post: {
+        tags: ['Imágenes'],
+        summary: 'Subir una imagen a Cloudinary (máx. 5 MB)',
+        parameters: [enQuery('folder', { type: 'string', default: 'nilhub/productos', pattern: '^nilhub(/[a-z0-9_-]+)+$' }, 'Carpeta en Cloudinary (dentro de nilhub/)')],
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['imagen'],
+                properties: { imagen: { type: 'string', format: 'binary' } }
+              }
+            }
+          }
+        },
+        responses: {
+          200: exito('Imagen subida', ref('Imagen')),
+          400: error('Falta la imagen o no es una imagen'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/upload/imagenes': {
+      post: {
+        tags: ['Imágenes'],
+        summary: 'Subir hasta 5 imágenes',
+        parameters: [enQuery('folder', { type: 'string', default: 'nilhub/productos', pattern: '^nilhub(/[a-z0-9_-]+)+$' }, 'Carpeta en Cloudinary (dentro de nilhub/)')],
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['imagenes'],
+                properties: { imagenes: { type: 'array', maxItems: 5, items: { type: 'string', format: 'binary' } } }
+              }
+            }
+          }
+        },
+        responses: {
+          200: exito('Imágenes subidas, en el orden enviado', { type: 'array', items: ref('Imagen') }),
+          400: error('Faltan imágenes'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/upload/{cloudinary_id}': {
+      parameters: [enRuta('cloudinary_id', 'ID de Cloudinary (codificado: las "/" van como %2F)')],
+      delete: {
+        tags: ['Imágenes'],
+        summary: 'Eliminar imagen de Cloudinary',
+        responses: {
+          200: exito('Imagen eliminada', vacio),
+          ...erroresSesion
+        }
+      }
+    },
+
+    // ===== ADMIN =====
+    '/admin/stats': {
+      get: {
+        tags: ['Admin'],
+        summary: 'Totales de la plataforma',
+        responses: {
+          200: exito('Estadísticas', ref('EstadisticasAdmin')),
+          403: error('Solo administradores con verificación en dos pasos'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/admin/usuarios': {
+      get: {
+        tags: ['Admin'],
+        summary: 'Todos los usuarios',
+        responses: {
+          200: exito('Usuarios', { type: 'array', items: ref('Usuario') }),
+          403: error('Solo administradores con verificación en dos pasos'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/admin/usuarios/{id}': {
+      parameters: [enRuta('id', 'ID del usuario')],
+      delete: {
+        tags: ['Admin'],
+        summary: 'Eliminar usuario con su tienda, productos e imágenes',
+        description: 'Inmediato, sin el plazo de gracia de la eliminación que pide el propio vendedor',
+        responses: {
+          200: mensaje('Usuario eliminado'),
+          403: error('Solo administradores con verificación en dos pasos'),
+          404: error('Usuario no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/admin/usuarios/{id}/desbloquear': {
+      parameters: [enRuta('id', 'ID del usuario')],
+      put: {
+        tags: ['Admin'],
+        summary: 'Quitar el bloqueo por intentos de login fallidos',
+        responses: {
+          200: exito('Usuario desbloqueado', ref('Usuario')),
+          403: error('Solo administradores con verificación en dos pasos'),
+          404: error('Usuario no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/admin/usuarios/{id}/accesos': {
+      parameters: [enRuta('id', 'ID del usuario')],
+      get: {
+        tags: ['Admin'],
+        summary: 'Historial de inicios de sesión de un usuario',
+        responses: {
+          200: exito('Intentos, el más reciente primero', { type: 'array', items: ref('Acceso') }),
+          403: error('Solo administradores con verificación en dos pasos'),
+          404: error('Usuario no encontrado'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/admin/tiendas': {
+      get: {
+        tags: ['Admin'],
+        summary: 'Todas las tiendas, con su dueño',
+        responses: {
+          200: exito('Tiendas', { type: 'array', items: ref('Tienda') }),
+          403: error('Solo administradores con verificación en dos pasos'),
+          ...erroresSesion
+        }
+      }
+    },
+    '/admin/tiendas/{id}/toggle': {
+      parameters: [enRuta('id', 'ID de la tienda')],
+      put: {
+        tags: ['Admin'],
+        summary: 'Activar o desactivar tienda',
+        responses: {
+          200: exito('Tienda actualizada', ref('Tienda')),
+          403: error('Solo administradores con verificación en dos pasos'),
+          404: error('Tienda no encontrada'),
+          ...erroresSesion
+        }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      cookie: {
+        type: 'apiKey',
+        in: 'cookie',
+        name: 'nilhub_acceso',
+        description: 'JWT de acceso en cookie httpOnly (de POST /auth/login o /auth/refresh)'
+      },
+      jwt: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'El mismo JWT de acceso, para clientes fuera del navegador'
+      },
+      ...openapiV1.components.securitySchemes
+    },
+    schemas
+  }
+};
+
+module.exports = openapi;
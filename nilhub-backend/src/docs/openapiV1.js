@@ -0,0 +1,401 @@
+// backend/src/docs/openapiV1.js
+/**
+ * @fileoverview Especificación OpenAPI 3 de la API pública /api/v1
+ *
+ * Se sirve en GET /api/v1/openapi.json. Al cambiar una ruta de /api/v1
+ * hay que actualizarla aquí: es el contrato que usan las integraciones.
+ * Cambios incompatibles van en una versión nueva (/api/v2), no en v1.
+ *
+ * @module OpenApiV1
+ */
+
+const { PERMISOS_TOKEN } = require('../models/TokenApi');
+
+// ===================================
+// COMPONENTES
+// ===================================
+
+/**
+ * Respuestas de error comunes
+ * @private
+ */
+const error = (descripcion) => ({
+  description: descripcion,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/RespuestaError' } } }
+});
+
+/**
+ * Respuesta exitosa con `data`
+ * @private
+ */
+const exito = (descripcion, schema) => ({
+  description: descripcion,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['success', 'data'],
+        properties: { success: { type: 'boolean', enum: [true] }, data: schema }
+      }
+    }
+  }
+});
+
+/**
+ * Errores que puede devolver cualquier ruta autenticada
+ * @private
+ */
+const erroresAutenticacion = {
+  401: error('Token ausente, inválido o revocado'),
+  403: error('El token no tiene el permiso que exige la ruta'),
+  429: error('Se superó el límite de peticiones por minuto del token')
+};
+
+/**
+ * Parámetro :id de las rutas de un producto
+ * @private
+ */
+const parametroId = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  description: 'ID del producto',
+  schema: { type: 'string' }
+};
+
+/**
+ * Body de crear/actualizar producto con sus campos obligatorios
+ * @private
+ */
+const cuerpoProducto = (requeridos) => ({
+  required: true,
+  content: {
+    'application/json': {
+      schema: {
+        allOf: [{ $ref: '#/components/schemas/ProductoEntrada' }],
+        ...(requeridos.length > 0 ? { required: requeridos } : {})
+      }
+    }
+  }
+});
+
+// ===================================
+// ESPECIFICACIÓN
+// ===================================
+
+const openapiV1 = {
+  openapi: '3.0.3',
+  info: {
+    title: 'NilHub API v1',
+    version: '1.0.0',
+    description: [
+      'API para integrar tu tienda de NilHub con otros sistemas (caja, inventario, scripts).',
+      '',
+      'Autenticación: crea un token en **Configuración → Tokens de API** y envíalo en el header',
+      '`Authorization: Bearer nhk_...`. Cada ruta exige un permiso del token',
+      `(${PERMISOS_TOKEN.join(', ')}).`,
+      '',
+      'Límites: cada token tiene su límite de peticiones por minuto; los headers `RateLimit-*`',
+      'indican cuántas quedan.'
+    ].join('\n')
+  },
+  servers: [{ url: '/api/v1' }],
+  security: [{ tokenApi: [] }],
+  tags: [
+    { name: 'Productos', description: 'Catálogo de la tienda del token' },
+    { name: 'Stock', description: 'Cambios de stock, también por SKU' }
+  ],
+  paths: {
+    '/productos': {
+      get: {
+        tags: ['Productos'],
+        summary: 'Listar productos',
+        description: 'Permiso: `catalogo:leer`. Paginado por cursor en orden de creación.',
+        parameters: [
+          { name: 'limite', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 200, default: 50 } },
+          { name: 'cursor', in: 'query', description: 'Valor de `siguiente` de la página anterior', schema: { type: 'string' } },
+          { name: 'sku', in: 'query', description: 'SKU del producto o de una variante', schema: { type: 'string' } },
+          {
+            name: 'actualizado_desde',
+            in: 'query',
+            description: 'Solo productos modificados después de esta fecha (sincronización incremental)',
+            schema: { type: 'string', format: 'date-time' }
+          }
+        ],
+        responses: {
+          200: exito('Página de productos', {
+            type: 'object',
+            required: ['productos', 'siguiente'],
+            properties: {
+              productos: { type: 'array', items: { $ref: '#/components/schemas/Producto' } },
+              siguiente: { type: 'string', nullable: true, description: 'null en la última página' }
+            }
+          }),
+          400: error('Parámetros inválidos'),
+          ...erroresAutenticacion
+        }
+      },
+      post: {
+        tags: ['Productos'],
+        summary: 'Crear producto',
+        description: 'Permiso: `productos:escribir`.',
+        requestBody: cuerpoProducto(['nombre', 'categoria', 'precio', 'stock', 'imagenes']),
+        responses: {
+          201: exito('Producto creado', { $ref: '#/components/schemas/Producto' }),
+          400: error('Datos inválidos, categoría inexistente o SKU repetido'),
+          ...erroresAutenticacion
+        }
+      }
+    },
+    '/productos/{id}': {
+      parameters: [parametroId],
+      get: {
+        tags: ['Productos'],
+        summary: 'Obtener producto',
+        description: 'Permiso: `catalogo:leer`.',
+        responses: {
+          200: exito('Producto', { $ref: '#/components/schemas/Producto' }),
+          404: error('Producto no encontrado'),
+          ...erroresAutenticacion
+        }
+      },
+      put: {
+        tags: ['Productos'],
+        summary: 'Actualizar producto',
+        description: 'Permiso: `productos:escribir`. Solo se cambian los campos enviados; `variantes` reemplaza las actuales.',
+        requestBody: cuerpoProducto([]),
+        responses: {
+          200: exito('Producto actualizado', { $ref: '#/components/schemas/Producto' }),
+          400: error('Datos inválidos'),
+          403: error('El producto es de otra tienda o falta el permiso'),
+          404: error('Producto no encontrado'),
+          ...erroresAutenticacion
+        }
+      },
+      delete: {
+        tags: ['Productos'],
+        summary: 'Eliminar producto',
+        description: 'Permiso: `productos:escribir`.',
+        responses: {
+          200: exito('Producto eliminado', { type: 'object' }),
+          404: error('Producto no encontrado'),
+          ...erroresAutenticacion
+        }
+      }
+    },
+    '/productos/{id}/stock': {
+      parameters: [parametroId],
+      patch: {
+        tags: ['Stock'],
+        summary: 'Cambiar stock de un producto sin variantes',
+        description: 'Permiso: `stock:escribir`.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', required: ['stock'], properties: { stock: { type: 'integer', minimum: 0 } } }
+            }
+          }
+        },
+        responses: {
+          200: exito('Producto actualizado', { $ref: '#/components/schemas/Producto' }),
+          400: error('El producto tiene variantes'),
+          404: error('Producto no encontrado'),
+          ...erroresAutenticacion
+        }
+      }
+    },
+    '/productos/{id}/variantes/{varianteId}/stock': {
+      parameters: [
+        parametroId,
+        { name: 'varianteId', in: 'path', required: true, schema: { type: 'string' } }
+      ],
+      patch: {
+        tags: ['Stock'],
+        summary: 'Cambiar stock de una variante',
+        description: 'Permiso: `stock:escribir`. El stock total del producto se recalcula.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', required: ['stock'], properties: { stock: { type: 'integer', minimum: 0 } } }
+            }
+          }
+        },
+        responses: {
+          200: exito('Producto actualizado', { $ref: '#/components/schemas/Producto' }),
+          400: error('Stock inválido'),
+          404: error('Producto o variante no encontrados'),
+          ...erroresAutenticacion
+        }
+      }
+    },
+    '/stock': {
+      patch: {
+        tags: ['Stock'],
+        summary: 'Cambiar stock por SKU (hasta 100)',
+        description: [
+          'Permiso: `stock:escribir`. Cada SKU se procesa por separado y su resultado viene en `resultados`.',
+          'Los productos con variantes se actualizan con el SKU de cada variante.'
+        ].join(' '),
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['items'],
+                properties: {
+                  items: {
+                    type: 'array',
+                    minItems: 1,
+                    maxItems: 100,
+                    items: {
+                      type: 'object',
+                      required: ['sku', 'stock'],
+                      properties: { sku: { type: 'string' }, stock: { type: 'integer', minimum: 0 } }
+                    }
+                  }
+                }
+              },
+              example: { items: [{ sku: 'LAB-001', stock: 12 }, { sku: 'LAB-002-ROJO', stock: 0 }] }
+            }
+          }
+        },
+        responses: {
+          200: exito('Resultado por SKU', {
+            type: 'object',
+            required: ['actualizados', 'resultados'],
+            properties: {
+              actualizados: { type: 'integer' },
+              resultados: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['sku', 'ok'],
+                  properties: {
+                    sku: { type: 'string', nullable: true },
+                    ok: { type: 'boolean' },
+                    producto_id: { type: 'string' },
+                    stock: { type: 'integer' },
+                    error: { type: 'string' }
+                  }
+                }
+              }
+            }
+          }),
+          400: error('Body inválido'),
+          ...erroresAutenticacion
+        }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      tokenApi: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'Token de API (nhk_...). También acepta el JWT de una sesión.'
+      }
+    },
+    schemas: {
+      RespuestaError: {
+        type: 'object',
+        required: ['success', 'error'],
+        properties: {
+          success: { type: 'boolean', enum: [false] },
+          error: { type: 'string', description: 'Primer mensaje (para mostrar)' },
+          errores: {
+            type: 'array',
+            description: 'Todos los errores de validación del body o query (solo en 400)',
+            items: {
+              type: 'object',
+              required: ['campo', 'mensaje'],
+              properties: {
+                campo: { type: 'string', description: 'Ruta del campo (ej: variantes.0.stock)' },
+                mensaje: { type: 'string' }
+              }
+            }
+          }
+        }
+      },
+      Imagen: {
+        type: 'object',
+        required: ['url', 'cloudinary_id'],
+        properties: {
+          url: { type: 'string', description: 'URL completa de la imagen' },
+          cloudinary_id: { type: 'string', description: 'ID de Cloudinary (para eliminarla)' }
+        }
+      },
+      VarianteEntrada: {
+        type: 'object',
+        required: ['nombre', 'stock'],
+        properties: {
+          _id: { type: 'string', description: 'Solo para conservar una variante existente' },
+          nombre: { type: 'string', maxLength: 50 },
+          color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+          talla: { type: 'string', maxLength: 20 },
+          sku: { type: 'string', maxLength: 40 },
+          precio: { type: 'number', minimum: 0, description: 'Si falta, se usa el del producto' },
+          stock: { type: 'integer', minimum: 0 },
+          imagen: { $ref: '#/components/schemas/Imagen' }
+        }
+      },
+      Variante: {
+        allOf: [
+          { $ref: '#/components/schemas/VarianteEntrada' },
+          { type: 'object', required: ['_id'], properties: { _id: { type: 'string' } } }
+        ]
+      },
+      ProductoEntrada: {
+        type: 'object',
+        properties: {
+          nombre: { type: 'string' },
+          descripcion: { type: 'string' },
+          categoria: { type: 'string', description: 'Slug de una categoría de la tienda' },
+          marca: { type: 'string' },
+          sku: { type: 'string', description: 'Único en la tienda' },
+          precio: { type: 'number', minimum: 0 },
+          precio_oferta: { type: 'number', minimum: 0, description: 'Menor que precio' },
+          stock: { type: 'integer', minimum: 0, description: 'Se ignora si hay variantes (es la suma de sus stocks)' },
+          imagenes: { type: 'array', minItems: 1, maxItems: 5, items: { $ref: '#/components/schemas/Imagen' } },
+          ingredientes: { type: 'string' },
+          peso: { type: 'string' },
+          variantes: { type: 'array', maxItems: 30, items: { $ref: '#/components/schemas/VarianteEntrada' } },
+          activo: { type: 'boolean' }
+        }
+      },
+      Producto: {
+        type: 'object',
+        required: [
+          '_id', 'tienda_id', 'nombre', 'categoria', 'precio', 'stock', 'hay_stock',
+          'imagenes', 'activo', 'vistas', 'clicks_whatsapp', 'createdAt', 'updatedAt'
+        ],
+        properties: {
+          _id: { type: 'string' },
+          tienda_id: { type: 'string' },
+          nombre: { type: 'string' },
+          descripcion: { type: 'string' },
+          categoria: { type: 'string', description: 'Slug de la categoría de la tienda' },
+          marca: { type: 'string' },
+          sku: { type: 'string', description: 'Código del producto (único en la tienda)' },
+          precio: { type: 'number', description: 'Precio regular en soles' },
+          precio_oferta: { type: 'number' },
+          stock: { type: 'integer', description: 'Cantidad disponible (suma de variantes si las hay)' },
+          hay_stock: { type: 'boolean' },
+          variantes: { type: 'array', items: { $ref: '#/components/schemas/Variante' } },
+          imagenes: { type: 'array', items: { $ref: '#/components/schemas/Imagen' } },
+          ingredientes: { type: 'string' },
+          peso: { type: 'string' },
+          activo: { type: 'boolean', description: 'Visibilidad en el catálogo' },
+          vistas: { type: 'integer' },
+          clicks_whatsapp: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      }
+    }
+  }
+};
+
+module.exports = openapiV1;
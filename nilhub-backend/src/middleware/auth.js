@@ -1,11 +1,193 @@
 // backend/src/middleware/auth.js
 const jwt = require('jsonwebtoken');
+const rateLimit = require('express-rate-limit');
 const Usuario = require('../models/Usuario');
+const TokenApi = require('../models/TokenApi');
+const Sesion = require('../models/Sesion');
+
+// ===================================
+// TOKENS DE API
+// ===================================
+
+/**
+ * @description Indica si la petición viene con un token de API (nhk_...)
+ * en lugar de un JWT de sesión
+ * @param {Object} req - Request de Express
+ * @returns {boolean}
+ */
+const usaTokenApi = (req) =>
+  Boolean(req.headers.authorization?.startsWith(`Bearer ${TokenApi.PREFIJO_TOKEN}`));
+
+/**
+ * @description Busca el token de API de la petición antes del límite general por IP
+ * Lo deja en req.tokenApiVigente (null si no existe o está revocado): el
+ * límite por IP solo se salta con un token vigente, y protect no lo vuelve
+ * a buscar. Si la consulta falla, protect lo intenta de nuevo
+ * @middleware
+ */
+const identificarTokenApi = async (req, res, next) => {
+  if (!usaTokenApi(req)) return next();
+
+  try {
+    req.tokenApiVigente = await TokenApi.buscarVigente(req.headers.authorization.split(' ')[1]);
+  } catch (error) {
+    console.error('❌ Error al buscar token de API:', error.message);
+  }
+
+  next();
+};
+
+/**
+ * Límite de peticiones por token (limite_por_minuto de cada token)
+ * Reemplaza al límite general por IP en /api/v1 (ver server.js)
+ * @private
+ */
+const limitePorToken = rateLimit({
+  windowMs: 60 * 1000,
+  limit: (req) => req.tokenApi.limite_por_minuto,
+  keyGenerator: (req) => String(req.tokenApi._id),
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: 'Este token superó su límite de peticiones por minuto'
+  }
+});
+
+/**
+ * @description Autentica una petición con token de API
+ * Solo vale en rutas que declararon un permiso con permitirToken()
+ * y si el token tiene ese permiso
+ * @private
+ */
+const autenticarTokenApi = async (req, res, next) => {
+  try {
+    const tokenApi = req.tokenApiVigente !== undefined
+      ? req.tokenApiVigente
+      : await TokenApi.buscarVigente(req.headers.authorization.split(' ')[1]);
+
+    if (!tokenApi) {
+      return res.status(401).json({
+        success: false,
+        error: 'Token de API inválido o revocado'
+      });
+    }
+
+    if (!req.permisoToken) {
+      return res.status(403).json({
+        success: false,
+        error: 'Los tokens de API solo se pueden usar en /api/v1'
+      });
+    }
+
+    if (!tokenApi.tienePermiso(req.permisoToken)) {
+      return res.status(403).json({
+        success: false,
+        error: `El token no tiene el permiso ${req.permisoToken}`
+      });
+    }
+
+    const usuario = await Usuario.findById(tokenApi.usuario_id).select('-password');
+
+    if (!usuario || !usuario.activo) {
+      return res.status(401).json({
+        success: false,
+        error: 'Usuario inactivo. Contacta al administrador.'
+      });
+    }
+
+    req.usuario = usuario;
+    req.tokenApi = tokenApi;
+
+    tokenApi.registrarUso().catch(err =>
+      console.error('❌ Error al registrar uso del token:', err)
+    );
+
+    limitePorToken(req, res, next);
+
+  } catch (error) {
+    console.error('❌ Error en autenticación con token de API:', error.message);
+    return res.status(401).json({
+      success: false,
+      error: 'No autorizado'
+    });
+  }
+};
+
+/**
+ * @description Permite usar un token de API en la ruta, con el permiso indicado
+ * Sin este middleware, protect rechaza los tokens de API (solo acepta JWT);
+ * las sesiones con JWT tienen todos los permisos
+ * ⚠️ Debe ir ANTES de protect
+ *
+ * @middleware
+ * @param {string} permiso - Uno de TokenApi.PERMISOS_TOKEN
+ * @returns {Function} Middleware configurado
+ *
+ * @example
+ * router.patch('/stock', permitirToken('stock:escribir'), protect, controller);
+ */
+const permitirToken = (permiso) => (req, res, next) => {
+  req.permisoToken = permiso;
+  next();
+};
+
+// ===================================
+// JWT
+// ===================================
+
+/**
+ * @description JWT de la petición: cookie de sesión del navegador o
+ * header "Authorization: Bearer" (clientes fuera del navegador)
+ * @param {Object} req - Request de Express
+ * @returns {string|null}
+ * @private
+ */
+const jwtDeLaPeticion = (req) => {
+  const autorizacion = req.headers.authorization;
+  if (autorizacion && autorizacion.startsWith('Bearer')) {
+    return autorizacion.split(' ')[1] || '';
+  }
+  return req.cookies?.[Sesion.COOKIE_ACCESO] || null;
+};
+
+/**
+ * @description Valida un JWT y devuelve su usuario
+ * Los JWT de acceso traen el ID de su sesión: si la sesión se cerró
+ * (logout, reutilización del refresco, cambio de contraseña, cierre desde
+ * otro dispositivo) ya no valen, aunque no hayan vencido. Los JWT sin
+ * sesión (emitidos antes de las sesiones) se rechazan: no hay forma de
+ * revocarlos
+ * @param {string} token - JWT
+ * @returns {Promise<{usuario: Object|null, sesionId: string|null}>} Usuario (sin
+ *          password, null si la sesión está cerrada o falta) e ID de la sesión
+ * @throws {Error} Errores de jwt.verify (TokenExpiredError, JsonWebTokenError)
+ * @private
+ */
+const usuarioDelJwt = async (token) => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET);
+
+  // Los desafíos del login en dos pasos no son credenciales de acceso
+  if (decoded.tipo) {
+    return { usuario: null, sesionId: null };
+  }
+
+  const sesionId = decoded.sesion || null;
+
+  if (!sesionId || !(await Sesion.estaVigente(sesionId))) {
+    return { usuario: null, sesionId };
+  }
+
+  return { usuario: await Usuario.findById(decoded.id).select('-password'), sesionId };
+};
 
 /**
  * @description Middleware para proteger rutas privadas con JWT
- * Verifica el token en el header Authorization, valida el usuario
- * y lo adjunta a req.usuario para uso en controllers
+ * Verifica el token (cookie de sesión o header Authorization), valida el
+ * usuario y lo adjunta a req.usuario para uso en controllers (y el ID de
+ * su sesión a req.sesionId)
+ * También acepta tokens de API (nhk_...) en las rutas con permitirToken();
+ * en ese caso adjunta además req.tokenApi
  * 
  * @middleware
  * @param {Object} req - Request de Express
@@ -19,83 +201,112 @@ const Usuario = require('../models/Usuario');
  * router.get('/ruta-privada', protect, controller);
  */
 const protect = async (req, res, next) => {
-  let token;
-
-  // Verificar si el token existe en el header Authorization
-  if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
-    try {
-      // Extraer token del header "Bearer TOKEN"
-      token = req.headers.authorization.split(' ')[1];
+  if (usaTokenApi(req)) {
+    return autenticarTokenApi(req, res, next);
+  }
 
-      // Validar formato básico del token (debe tener 3 partes separadas por punto)
-      if (!token || token.split('.').length !== 3) {
-        return res.status(401).json({
-          success: false,
-          error: 'Token malformado'
-        });
-      }
+  const token = jwtDeLaPeticion(req);
 
-      // Verificar token con JWT_SECRET
-      const decoded = jwt.verify(token, process.env.JWT_SECRET);
+  if (token === null) {
+    // No se proporcionó token
+    console.warn('⚠️ Intento de acceso sin token a:', req.path);
+    return res.status(401).json({
+      success: false,
+      error: 'No autorizado. Token no proporcionado.'
+    });
+  }
 
-      // Obtener usuario del token (sin password)
-      req.usuario = await Usuario.findById(decoded.id).select('-password');
+  // Validar formato básico del token (debe tener 3 partes separadas por punto)
+  if (!token || token.split('.').length !== 3) {
+    return res.status(401).json({
+      success: false,
+      error: 'Token malformado'
+    });
+  }
 
-      if (!req.usuario) {
-        console.warn(`⚠️ Token válido pero usuario no existe: ${decoded.id}`);
-        return res.status(401).json({
-          success: false,
-          error: 'Usuario no encontrado'
-        });
-      }
+  try {
+    // Verificar token y obtener su usuario (sin password)
+    const { usuario, sesionId } = await usuarioDelJwt(token);
+    req.usuario = usuario;
+    req.sesionId = sesionId;
 
-      // Verificar si el usuario está activo
-      if (!req.usuario.activo) {
-        console.warn(`⚠️ Usuario inactivo intentó acceder: ${req.usuario.email}`);
-        return res.status(401).json({
-          success: false,
-          error: 'Usuario inactivo. Contacta al administrador.'
-        });
-      }
+    if (!req.usuario) {
+      console.warn('⚠️ Token válido pero usuario o sesión ya no existen');
+      return res.status(401).json({
+        success: false,
+        error: 'Tu sesión ha expirado. Por favor, inicia sesión nuevamente.'
+      });
+    }
 
-      // ✅ Usuario autenticado - continuar
-      next();
+    // Verificar si el usuario está activo
+    if (!req.usuario.activo) {
+      console.warn(`⚠️ Usuario inactivo intentó acceder: ${req.usuario.email}`);
+      return res.status(401).json({
+        success: false,
+        error: 'Usuario inactivo. Contacta al administrador.'
+      });
+    }
 
-    } catch (error) {
-      // Manejo específico de errores JWT
-      if (error.name === 'TokenExpiredError') {
-        console.warn('⏰ Token expirado');
-        return res.status(401).json({
-          success: false,
-          error: 'Tu sesión ha expirado. Por favor, inicia sesión nuevamente.'
-        });
-      }
+    // ✅ Usuario autenticado - continuar
+    next();
 
-      if (error.name === 'JsonWebTokenError') {
-        console.warn('🔐 Token inválido');
-        return res.status(401).json({
-          success: false,
-          error: 'Token de autenticación inválido'
-        });
-      }
+  } catch (error) {
+    // Manejo específico de errores JWT
+    if (error.name === 'TokenExpiredError') {
+      return res.status(401).json({
+        success: false,
+        error: 'Tu sesión ha expirado. Por favor, inicia sesión nuevamente.'
+      });
+    }
 
-      // Error desconocido
-      console.error('❌ Error en autenticación:', error.message);
+    if (error.name === 'JsonWebTokenError') {
+      console.warn('🔐 Token inválido');
       return res.status(401).json({
         success: false,
-        error: 'No autorizado'
+        error: 'Token de autenticación inválido'
       });
     }
-  } else {
-    // No se proporcionó token
-    console.warn('⚠️ Intento de acceso sin token a:', req.path);
+
+    // Error desconocido
+    console.error('❌ Error en autenticación:', error.message);
     return res.status(401).json({
       success: false,
-      error: 'No autorizado. Token no proporcionado.'
+      error: 'No autorizado'
     });
   }
 };
 
+/**
+ * @description Middleware de autenticación opcional para rutas públicas
+ * Si llega un token válido de un usuario activo, lo adjunta a req.usuario;
+ * si no hay token o no es válido, sigue sin usuario (nunca responde 401)
+ *
+ * @middleware
+ * @param {Object} req - Request de Express
+ * @param {Object} res - Response de Express
+ * @param {Function} next - Next middleware
+ *
+ * @example
+ * // Las vistas del dueño de la tienda no se cuentan
+ * router.post('/:id/vista', autenticacionOpcional, controller);
+ */
+const autenticacionOpcional = async (req, res, next) => {
+  const token = jwtDeLaPeticion(req);
+
+  if (token) {
+    try {
+      const { usuario } = await usuarioDelJwt(token);
+      if (usuario && usuario.activo) {
+        req.usuario = usuario;
+      }
+    } catch (error) {
+      // Token vencido o inválido: se trata como visitante anónimo
+    }
+  }
+
+  next();
+};
+
 /**
  * @description Middleware para verificar que el usuario es administrador
  * Debe usarse DESPUÉS del middleware protect
@@ -129,6 +340,14 @@ const esAdmin = (req, res, next) => {
     });
   }
 
+  // Un administrador sin verificación en dos pasos debe activarla primero
+  if (!req.usuario.dos_pasos?.activo) {
+    return res.status(403).json({
+      success: false,
+      error: 'Activa la verificación en dos pasos para usar las funciones de administrador.'
+    });
+  }
+
   // ✅ Usuario es admin - continuar
   next();
 };
@@ -186,20 +405,23 @@ const esPropietario = (recursoModel, campoUsuario = 'usuario_id') => {
 };
 
 /**
- * @description Genera un token JWT con el ID del usuario
+ * @description Genera el JWT de acceso de una sesión
+ * Dura poco (15 minutos por defecto): el navegador lo renueva con la
+ * cookie de refresco (ver services/sesionService)
  * 
  * @param {string|ObjectId} id - ID del usuario
+ * @param {string|ObjectId} sesionId - ID de la sesión (Sesion)
  * @returns {string} Token JWT firmado
  * 
  * @example
- * const token = generarToken(usuario._id);
+ * const token = generarToken(usuario._id, sesion._id);
  */
-const generarToken = (id) => {
+const generarToken = (id, sesionId) => {
   return jwt.sign(
-    { id },
+    { id, sesion: String(sesionId) },
     process.env.JWT_SECRET,
     {
-      expiresIn: process.env.JWT_EXPIRE || '30d' // 30 días por defecto
+      expiresIn: process.env.JWT_ACCESO_EXPIRE || '15m'
     }
   );
 };
@@ -228,6 +450,10 @@ const verificarToken = (token) => {
 
 module.exports = {
   protect,
+  permitirToken,
+  usaTokenApi,
+  identificarTokenApi,
+  autenticacionOpcional,
   esAdmin,
   esPropietario,
   generarToken,
@@ -126,12 +126,12 @@ const errorHandler = (err, req, res, next) => {
   }
 
   // ===================================
-  // EXPRESS-VALIDATOR ERRORS
+  // VALIDATION ERRORS
   // ===================================
 
   /**
-   * Errores de validación de express-validator
-   * (generalmente manejados en routes, pero por si acaso)
+   * Errores con lista de validaciones ({ errors: [{ msg }] })
+   * (los bodies los valida middleware/validar, que responde antes)
    */
   if (err.errors && Array.isArray(err.errors)) {
     const messages = err.errors.map(e => e.msg);
@@ -10,13 +10,21 @@ const isAdmin = (req, res, next) => {
     });
   }
 
-  if (req.usuario.rol !== 'admin') {
+  if (req.usuario.role !== 'admin') {
     return res.status(403).json({
       success: false,
       error: 'Acceso denegado. Se requieren privilegios de administrador.'
     });
   }
 
+  // Obligatoria para administradores: sin ella solo pueden ir a Seguridad
+  if (!req.usuario.dos_pasos?.activo) {
+    return res.status(403).json({
+      success: false,
+      error: 'Activa la verificación en dos pasos para usar las funciones de administrador.'
+    });
+  }
+
   next();
 };
 
@@ -0,0 +1,76 @@
+// backend/src/middleware/validar.js
+const { erroresDeValidacion } = require('nilhub-shared');
+
+/**
+ * @fileoverview Validación de requests con los esquemas de nilhub-shared
+ *
+ * Los mismos esquemas los usa el frontend (lib/api.ts), así el contrato de
+ * cada body está definido una sola vez.
+ */
+
+// ===================================
+// MIDDLEWARE
+// ===================================
+
+/**
+ * @description Valida req.body (o req.query) con un esquema zod
+ * Si es válido, lo reemplaza por los datos normalizados (texto recortado,
+ * números convertidos, sin campos desconocidos). Si no, responde 400 con
+ * el primer mensaje en `error` y todos en `errores`.
+ *
+ * @param {import('zod').ZodType} esquema - Esquema de nilhub-shared
+ * @param {'body'|'query'} [origen='body'] - Parte del request a validar
+ * @returns {Function} Middleware de Express
+ *
+ * @example
+ * router.post('/', protect, validar(esquemaCrearProducto), productosController.crearProducto);
+ *
+ * // Respuesta si falla:
+ * // { success: false, error: "El precio debe ser mayor o igual a 0",
+ * //   errores: [{ campo: "precio", mensaje: "El precio debe ser mayor o igual a 0" }] }
+ */
+const validar = (esquema, origen = 'body') => (req, res, next) => {
+  const resultado = esquema.safeParse(req[origen] || {});
+
+  if (!resultado.success) {
+    const errores = erroresDeValidacion(resultado.error);
+    return res.status(400).json({
+      success: false,
+      error: errores[0].mensaje,
+      errores
+    });
+  }
+
+  req[origen] = resultado.data;
+  next();
+};
+
+// ===================================
+// VALIDACIÓN FUERA DE UNA RUTA
+// ===================================
+
+/**
+ * @description Valida un objeto con un esquema, sin request (ej: filas de una importación)
+ * @param {import('zod').ZodType} esquema - Esquema de nilhub-shared
+ * @param {Object} datos - Datos a validar
+ * @returns {{errores: Array<string>, datos: Object|null}} Mensajes de error (sin repetir)
+ *          y los datos normalizados (null si no es válido)
+ * @example
+ * const { errores, datos } = validarDatos(esquemaCrearProducto, fila);
+ * if (errores.length) console.log(errores[0]);
+ */
+const validarDatos = (esquema, datos) => {
+  const resultado = esquema.safeParse(datos);
+  if (resultado.success) {
+    return { errores: [], datos: resultado.data };
+  }
+  return {
+    errores: [...new Set(erroresDeValidacion(resultado.error).map(error => error.mensaje))],
+    datos: null
+  };
+};
+
+module.exports = {
+  validar,
+  validarDatos
+};
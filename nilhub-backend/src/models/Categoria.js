@@ -0,0 +1,189 @@
+// backend/src/models/Categoria.js
+const mongoose = require('mongoose');
+
+/**
+ * Íconos disponibles para las categorías
+ * Son nombres de íconos de lucide-react que el frontend sabe dibujar
+ * @constant
+ */
+const ICONOS_CATEGORIA = [
+  'sparkles', 'leaf', 'wind', 'heart', 'scissors', 'package',
+  'shirt', 'gem', 'baby', 'cookie', 'coffee', 'gift',
+  'home', 'smartphone', 'star', 'tag'
+];
+
+/**
+ * Categorías con las que nace cada tienda
+ * Son las que existían como enum fijo en Producto, así los productos
+ * antiguos quedan asignados sin cambiar su valor
+ * @constant
+ */
+const CATEGORIAS_POR_DEFECTO = [
+  { nombre: 'Maquillaje', slug: 'maquillaje', icono: 'sparkles' },
+  { nombre: 'Skincare', slug: 'skincare', icono: 'leaf' },
+  { nombre: 'Fragancias', slug: 'fragancias', icono: 'wind' },
+  { nombre: 'Cuidado Personal', slug: 'cuidado-personal', icono: 'heart' },
+  { nombre: 'Accesorios', slug: 'accesorios', icono: 'scissors' },
+  { nombre: 'Otros', slug: 'otros', icono: 'package' }
+];
+
+/**
+ * Convierte un texto en slug (igual que Tienda.generarSlugUnico)
+ * @param {string} texto - Texto a convertir
+ * @returns {string} Slug en minúsculas sin acentos
+ * @private
+ */
+const slugify = (texto) => texto
+  .toLowerCase()
+  .trim()
+  .normalize('NFD').replace(/[\u0300-\u036f]/g, '') // Remover acentos
+  .replace(/[^a-z0-9\s-]/g, '') // Remover caracteres especiales
+  .replace(/\s+/g, '-') // Espacios a guiones
+  .replace(/-+/g, '-') // Múltiples guiones a uno solo
+  .replace(/^-|-$/g, ''); // Quitar guiones al inicio/fin
+
+/**
+ * @description Esquema de Categoría de productos de una tienda
+ * Cada tienda define sus propias categorías (cosméticos, ropa, snacks...)
+ * Los productos guardan el slug de su categoría en Producto.categoria
+ *
+ * @typedef {Object} Categoria
+ * @property {ObjectId} tienda_id - ID de la tienda dueña
+ * @property {string} nombre - Nombre visible
+ * @property {string} slug - Identificador en URLs y en Producto.categoria (único por tienda)
+ * @property {string} icono - Nombre del ícono (ver ICONOS_CATEGORIA)
+ * @property {number} orden - Posición en el catálogo (menor primero)
+ * @property {ObjectId} padre_id - Categoría padre (opcional, un solo nivel)
+ * @property {Date} createdAt - Fecha de creación
+ * @property {Date} updatedAt - Fecha de última actualización
+ */
+const categoriaSchema = new mongoose.Schema({
+  tienda_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tienda',
+    required: true
+  },
+  nombre: {
+    type: String,
+    required: [true, 'El nombre de la categoría es obligatorio'],
+    trim: true,
+    minlength: [2, 'El nombre debe tener al menos 2 caracteres'],
+    maxlength: [40, 'El nombre no puede exceder 40 caracteres']
+  },
+  slug: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z0-9-]+$/, 'El slug solo puede contener letras, números y guiones']
+  },
+  icono: {
+    type: String,
+    enum: {
+      values: ICONOS_CATEGORIA,
+      message: 'Ícono no disponible'
+    },
+    default: 'tag'
+  },
+  orden: {
+    type: Number,
+    default: 0
+  },
+  padre_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Categoria',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// ===================================
+// MÉTODOS ESTÁTICOS
+// ===================================
+
+/**
+ * @description Genera un slug único dentro de la tienda
+ * @static
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {string} nombre - Nombre de la categoría
+ * @param {string|ObjectId} [excluirId] - Categoría a ignorar (al renombrar)
+ * @returns {Promise<string>} Slug único
+ * @example
+ * const slug = await Categoria.generarSlugUnico(tiendaId, 'Polos & Camisas');
+ * // 'polos-camisas' o 'polos-camisas-1' si ya existe
+ */
+categoriaSchema.statics.generarSlugUnico = async function(tiendaId, nombre, excluirId) {
+  const slug = slugify(nombre) || 'categoria';
+
+  let slugUnico = slug;
+  let contador = 1;
+
+  const query = (s) => ({
+    tienda_id: tiendaId,
+    slug: s,
+    ...(excluirId && { _id: { $ne: excluirId } })
+  });
+
+  while (await this.exists(query(slugUnico))) {
+    slugUnico = `${slug}-${contador}`;
+    contador++;
+  }
+
+  return slugUnico;
+};
+
+/**
+ * @description Crea las categorías por defecto de una tienda
+ * Solo agrega las que falten, se puede llamar varias veces
+ * @static
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @returns {Promise<number>} Cantidad de categorías creadas
+ * @example
+ * await Categoria.crearPorDefecto(tienda._id);
+ */
+categoriaSchema.statics.crearPorDefecto = async function(tiendaId) {
+  const existentes = await this.find({ tienda_id: tiendaId }).distinct('slug');
+
+  const nuevas = CATEGORIAS_POR_DEFECTO
+    .map((categoria, index) => ({ ...categoria, orden: index, tienda_id: tiendaId }))
+    .filter(categoria => !existentes.includes(categoria.slug));
+
+  if (nuevas.length > 0) {
+    await this.insertMany(nuevas);
+  }
+
+  return nuevas.length;
+};
+
+/**
+ * @description Obtiene los slugs de una categoría y de sus subcategorías
+ * Usado para filtrar productos por una categoría padre
+ * @static
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {string} slug - Slug de la categoría
+ * @returns {Promise<Array<string>>} Slugs (vacío si no existe)
+ * @example
+ * const slugs = await Categoria.slugsConHijas(tiendaId, 'maquillaje');
+ * // ['maquillaje', 'labiales', 'sombras']
+ */
+categoriaSchema.statics.slugsConHijas = async function(tiendaId, slug) {
+  const categoria = await this.findOne({ tienda_id: tiendaId, slug }).lean();
+  if (!categoria) return [];
+
+  const hijas = await this.find({ tienda_id: tiendaId, padre_id: categoria._id }).distinct('slug');
+  return [categoria.slug, ...hijas];
+};
+
+// ===================================
+// ÍNDICES
+// ===================================
+categoriaSchema.index({ tienda_id: 1, slug: 1 }, { unique: true }); // Slug único por tienda
+categoriaSchema.index({ tienda_id: 1, orden: 1 }); // Listado ordenado
+
+const Categoria = mongoose.model('Categoria', categoriaSchema);
+
+module.exports = Categoria;
+module.exports.ICONOS_CATEGORIA = ICONOS_CATEGORIA;
+module.exports.CATEGORIAS_POR_DEFECTO = CATEGORIAS_POR_DEFECTO;
+module.exports.slugify = slugify;
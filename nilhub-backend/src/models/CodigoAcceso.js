@@ -0,0 +1,145 @@
+// backend/src/models/CodigoAcceso.js
+const mongoose = require('mongoose');
+
+/**
+ * @description Esquema para el login sin contraseña
+ * Códigos de un solo uso de 6 dígitos enviados por email (con enlace) o
+ * WhatsApp, con los mismos límites que PasswordReset (3 intentos)
+ *
+ * @typedef {Object} CodigoAcceso
+ * @property {ObjectId} usuario_id - ID del usuario
+ * @property {string} email - Email del usuario (normalizado)
+ * @property {string} code - Código de 6 dígitos
+ * @property {string} metodo - Método de envío: 'email' o 'whatsapp'
+ * @property {Date} expira - Fecha de expiración (15 minutos)
+ * @property {number} intentos - Intentos fallidos (máx 3)
+ * @property {boolean} usado - Si ya se usó para ingresar
+ * @property {Date} createdAt - Fecha de envío
+ */
+const codigoAccesoSchema = new mongoose.Schema({
+  usuario_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Usuario',
+    required: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  code: {
+    type: String,
+    required: true,
+    minlength: [6, 'El código debe tener 6 dígitos'],
+    maxlength: [6, 'El código debe tener 6 dígitos']
+  },
+  metodo: {
+    type: String,
+    enum: ['email', 'whatsapp'],
+    required: true
+  },
+  expira: {
+    type: Date,
+    required: true,
+    default: () => new Date(Date.now() + 15 * 60 * 1000) // 15 minutos
+  },
+  intentos: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 3
+  },
+  usado: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// ===================================
+// ÍNDICES
+// ===================================
+
+/**
+ * Índice TTL: MongoDB elimina los códigos vencidos
+ */
+codigoAccesoSchema.index({ expira: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Último código enviado a cada email
+ */
+codigoAccesoSchema.index({ email: 1, createdAt: -1 });
+
+// ===================================
+// MÉTODOS DE INSTANCIA
+// ===================================
+
+/**
+ * @description Verifica si el código todavía puede usarse
+ * Chequea: no usado, intentos < 3, no expirado
+ * @returns {boolean} True si es válido, false si no
+ */
+codigoAccesoSchema.methods.esValido = function() {
+  return (
+    !this.usado &&
+    this.intentos < 3 &&
+    this.expira > new Date()
+  );
+};
+
+/**
+ * @description Reserva un intento antes de comparar el código
+ * Atómico: aunque lleguen varios intentos en paralelo, solo 3 llegan a
+ * comparar (y ninguno si el código venció o ya se usó)
+ * @returns {Promise<boolean>} False si no quedan intentos, venció o ya se usó
+ * @example
+ * if (!await codigoAcceso.reclamarIntento()) { // Pedir uno nuevo }
+ */
+codigoAccesoSchema.methods.reclamarIntento = async function() {
+  const actualizado = await this.constructor.findOneAndUpdate(
+    { _id: this._id, usado: false, intentos: { $lt: 3 }, expira: { $gt: new Date() } },
+    { $inc: { intentos: 1 } },
+    { new: true }
+  );
+  if (!actualizado) return false;
+  this.intentos = actualizado.intentos;
+  return true;
+};
+
+/**
+ * @description Marca el código como usado
+ * Atómico: si dos peticiones llegan con el mismo código, solo una entra
+ * @returns {Promise<boolean>} False si otra petición ya lo usó
+ * @example
+ * if (!await codigoAcceso.consumir()) { // Ya usado }
+ */
+codigoAccesoSchema.methods.consumir = async function() {
+  const { modifiedCount } = await this.constructor.updateOne(
+    { _id: this._id, usado: false },
+    { $set: { usado: true } }
+  );
+  this.usado = true;
+  return modifiedCount === 1;
+};
+
+// ===================================
+// MÉTODOS ESTÁTICOS
+// ===================================
+
+/**
+ * @description Último código enviado a un email (solo vale ese)
+ * @static
+ * @param {string} email - Email normalizado
+ * @returns {Promise<CodigoAcceso|null>}
+ */
+codigoAccesoSchema.statics.ultimoDe = function(email) {
+  return this.findOne({ email }).sort({ createdAt: -1 });
+};
+
+const CodigoAcceso = mongoose.model('CodigoAcceso', codigoAccesoSchema);
+
+module.exports = CodigoAcceso;
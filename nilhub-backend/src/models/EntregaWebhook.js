@@ -0,0 +1,90 @@
+// backend/src/models/EntregaWebhook.js
+const mongoose = require('mongoose');
+
+/**
+ * Días que se guarda el registro de entregas
+ * @constant
+ */
+const DIAS_REGISTRO = 30;
+
+/**
+ * @description Esquema de una entrega de un evento a un webhook
+ * Guarda cada intento con su código de respuesta; si falla se reintenta
+ * en proximo_intento (ver webhookService)
+ *
+ * @typedef {Object} EntregaWebhook
+ * @property {ObjectId} webhook_id - Webhook destino
+ * @property {ObjectId} tienda_id - Tienda
+ * @property {string} evento - Evento enviado (o webhook.prueba)
+ * @property {Object} payload - Cuerpo enviado { id, evento, fecha, tienda_id, datos }
+ * @property {string} estado - pendiente | exitosa | fallida
+ * @property {Object[]} intentos - { fecha, codigo, error, duracion_ms }
+ * @property {Date|null} proximo_intento - Cuándo reintentar (null si terminó)
+ * @property {Date} createdAt - Creación (expira a los 30 días)
+ */
+const entregaWebhookSchema = new mongoose.Schema({
+  webhook_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Webhook',
+    required: true
+  },
+  tienda_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tienda',
+    required: true
+  },
+  evento: {
+    type: String,
+    required: true
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  estado: {
+    type: String,
+    enum: ['pendiente', 'exitosa', 'fallida'],
+    default: 'pendiente'
+  },
+  intentos: [{
+    _id: false,
+    fecha: { type: Date, default: Date.now },
+    codigo: Number,
+    error: String,
+    duracion_ms: Number
+  }],
+  proximo_intento: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  versionKey: false
+});
+
+// ===================================
+// ÍNDICES
+// ===================================
+
+/**
+ * Índice TTL: el registro se borra pasados DIAS_REGISTRO
+ */
+entregaWebhookSchema.index({ createdAt: 1 }, { expireAfterSeconds: DIAS_REGISTRO * 24 * 60 * 60 });
+
+/**
+ * Registro de un webhook, más recientes primero
+ */
+entregaWebhookSchema.index({ webhook_id: 1, createdAt: -1 });
+
+/**
+ * Entregas pendientes de reintento
+ */
+entregaWebhookSchema.index({ estado: 1, proximo_intento: 1 });
+
+const EntregaWebhook = mongoose.model('EntregaWebhook', entregaWebhookSchema);
+
+module.exports = EntregaWebhook;
+module.exports.DIAS_REGISTRO = DIAS_REGISTRO;
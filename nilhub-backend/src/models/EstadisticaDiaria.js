@@ -0,0 +1,70 @@
+// backend/src/models/EstadisticaDiaria.js
+const mongoose = require('mongoose');
+
+/**
+ * Contador de EstadisticaDiaria para cada tipo de evento
+ * @constant
+ */
+const CONTADOR_POR_TIPO = {
+  vista: 'vistas',
+  click_whatsapp: 'clicks_whatsapp',
+  busqueda: 'busquedas',
+  compartir: 'compartidos'
+};
+
+/**
+ * @description Totales de eventos de un día, por tienda y por producto
+ * Cada evento suma 1 en el documento del producto y en el de la tienda
+ * (producto_id null), así los gráficos no recorren el registro de eventos
+ *
+ * @typedef {Object} EstadisticaDiaria
+ * @property {ObjectId} tienda_id - Tienda
+ * @property {ObjectId|null} producto_id - Producto, o null para el total de la tienda
+ * @property {string} dia - Día en la zona horaria de la plataforma (YYYY-MM-DD)
+ * @property {number} vistas - Vistas de producto
+ * @property {number} clicks_whatsapp - Clicks en WhatsApp
+ * @property {number} busquedas - Búsquedas en el catálogo (solo en el total de la tienda)
+ * @property {number} compartidos - Veces que se compartió
+ */
+const estadisticaDiariaSchema = new mongoose.Schema({
+  tienda_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tienda',
+    required: true
+  },
+  producto_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Producto',
+    default: null
+  },
+  dia: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}-\d{2}$/
+  },
+  vistas: { type: Number, default: 0 },
+  clicks_whatsapp: { type: Number, default: 0 },
+  busquedas: { type: Number, default: 0 },
+  compartidos: { type: Number, default: 0 }
+}, {
+  versionKey: false
+});
+
+// ===================================
+// ÍNDICES
+// ===================================
+
+/**
+ * Un documento por tienda, producto y día (lo usa el upsert de cada evento)
+ */
+estadisticaDiariaSchema.index({ tienda_id: 1, producto_id: 1, dia: 1 }, { unique: true });
+
+/**
+ * Ranking de productos de una tienda en un rango de días
+ */
+estadisticaDiariaSchema.index({ tienda_id: 1, dia: 1 });
+
+const EstadisticaDiaria = mongoose.model('EstadisticaDiaria', estadisticaDiariaSchema);
+
+module.exports = EstadisticaDiaria;
+module.exports.CONTADOR_POR_TIPO = CONTADOR_POR_TIPO;
@@ -0,0 +1,98 @@
+// backend/src/models/Evento.js
+const mongoose = require('mongoose');
+
+/**
+ * Tipos de evento que se registran
+ * @constant
+ */
+const TIPOS_EVENTO = ['vista', 'click_whatsapp', 'busqueda', 'compartir'];
+
+/**
+ * Días que se guarda cada evento
+ * Los totales por día quedan en EstadisticaDiaria para siempre
+ * @constant
+ */
+const DIAS_RETENCION = 90;
+
+/**
+ * @description Esquema de un evento de analítica del catálogo público
+ * Es el registro detallado; para gráficos se usa EstadisticaDiaria,
+ * que se actualiza al mismo tiempo (ver analiticaService)
+ *
+ * @typedef {Object} Evento
+ * @property {string} tipo - vista | click_whatsapp | busqueda | compartir
+ * @property {ObjectId} tienda_id - Tienda donde ocurrió
+ * @property {ObjectId} producto_id - Producto (no aplica a búsquedas)
+ * @property {string} referrer - Página externa de la que llegó el visitante
+ * @property {string} fuente - Canal de la visita (instagram, facebook, google, directo...)
+ * @property {string} utm_source - Parámetro utm_source del enlace de llegada
+ * @property {string} utm_medium - Parámetro utm_medium
+ * @property {string} utm_campaign - Parámetro utm_campaign
+ * @property {string} texto - Texto buscado (solo búsquedas, normalizado)
+ * @property {number} resultados - Productos encontrados (solo búsquedas)
+ * @property {Date} createdAt - Momento del evento (expira a los 90 días)
+ */
+const eventoSchema = new mongoose.Schema({
+  tipo: {
+    type: String,
+    enum: TIPOS_EVENTO,
+    required: true
+  },
+  tienda_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tienda',
+    required: true
+  },
+  producto_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Producto'
+  },
+  referrer: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  fuente: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: 100,
+    default: 'directo'
+  },
+  utm_source: { type: String, trim: true, maxlength: 100 },
+  utm_medium: { type: String, trim: true, maxlength: 100 },
+  utm_campaign: { type: String, trim: true, maxlength: 100 },
+  texto: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  resultados: {
+    type: Number,
+    min: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// ===================================
+// ÍNDICES
+// ===================================
+
+/**
+ * Índice TTL: MongoDB borra los eventos pasados DIAS_RETENCION
+ */
+eventoSchema.index({ createdAt: 1 }, { expireAfterSeconds: DIAS_RETENCION * 24 * 60 * 60 });
+
+/**
+ * Consultas por tienda, tipo y rango de fechas
+ */
+eventoSchema.index({ tienda_id: 1, tipo: 1, createdAt: -1 });
+
+const Evento = mongoose.model('Evento', eventoSchema);
+
+module.exports = Evento;
+module.exports.TIPOS_EVENTO = TIPOS_EVENTO;
+module.exports.DIAS_RETENCION = DIAS_RETENCION;
@@ -0,0 +1,46 @@
+// backend/src/models/Interaccion.js
+const mongoose = require('mongoose');
+
+/**
+ * Minutos en los que un visitante cuenta una sola vez por producto
+ * @constant
+ */
+const VENTANA_MINUTOS = 30;
+
+/**
+ * @description Marca de una vista o click ya contado
+ * Hay un documento por visitante, producto, tipo y ventana de tiempo;
+ * el índice único hace que el segundo intento de la misma ventana falle
+ * y no se cuente (ver analiticaService.contarInteraccion)
+ *
+ * @typedef {Object} Interaccion
+ * @property {string} clave - tipo:producto:visitante:ventana
+ * @property {Date} createdAt - Momento en que se contó (expira pasada la ventana)
+ */
+const interaccionSchema = new mongoose.Schema({
+  clave: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  versionKey: false
+});
+
+// ===================================
+// ÍNDICES
+// ===================================
+
+/**
+ * Índice TTL: las marcas solo sirven durante su ventana
+ */
+interaccionSchema.index({ createdAt: 1 }, { expireAfterSeconds: VENTANA_MINUTOS * 2 * 60 });
+
+const Interaccion = mongoose.model('Interaccion', interaccionSchema);
+
+module.exports = Interaccion;
+module.exports.VENTANA_MINUTOS = VENTANA_MINUTOS;
@@ -0,0 +1,207 @@
+// backend/src/models/Pedido.js
+const mongoose = require('mongoose');
+
+/**
+ * Estados posibles de un pedido y sus transiciones válidas
+ * Los estados 'entregado' y 'cancelado' son finales
+ * @constant
+ */
+const TRANSICIONES = {
+  pendiente: ['confirmado', 'cancelado'],
+  confirmado: ['entregado', 'cancelado'],
+  entregado: [],
+  cancelado: []
+};
+
+/**
+ * Caracteres usados en el código corto del pedido
+ * Sin 0/O ni 1/I para evitar confusiones al dictarlo por WhatsApp
+ * @constant
+ */
+const CARACTERES_CODIGO = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * @description Esquema de una línea del pedido
+ * Guarda una copia del nombre, variante y precio al momento de pedir
+ */
+const itemPedidoSchema = new mongoose.Schema({
+  producto_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Producto',
+    required: true
+  },
+  nombre: {
+    type: String,
+    required: true
+  },
+  // Solo para productos con variantes
+  variante_id: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  variante_nombre: {
+    type: String
+  },
+  precio_unitario: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  cantidad: {
+    type: Number,
+    required: true,
+    min: [1, 'La cantidad debe ser al menos 1']
+  },
+  subtotal: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+/**
+ * @description Esquema de Pedido generado desde el carrito del catálogo
+ * El cliente envía el pedido por WhatsApp con el código corto
+ * y el vendedor lo gestiona desde el panel
+ *
+ * @typedef {Object} Pedido
+ * @property {ObjectId} tienda_id - ID de la tienda que recibe el pedido
+ * @property {string} codigo - Código corto único (ej: NH-7K3Q9)
+ * @property {string} cliente_nombre - Nombre del comprador
+ * @property {string} cliente_telefono - Teléfono del comprador
+ * @property {Array<Object>} items - Productos pedidos
+ * @property {number} total - Monto total del pedido
+ * @property {string} estado - pendiente, confirmado, entregado, cancelado
+ * @property {boolean} stock_descontado - Si ya se descontó el stock
+ * @property {Date} createdAt - Fecha de creación
+ * @property {Date} updatedAt - Fecha de última actualización
+ */
+const pedidoSchema = new mongoose.Schema({
+  tienda_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tienda',
+    required: true,
+    index: true
+  },
+  codigo: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  cliente_nombre: {
+    type: String,
+    required: [true, 'El nombre del comprador es obligatorio'],
+    trim: true,
+    minlength: [2, 'El nombre debe tener al menos 2 caracteres'],
+    maxlength: [80, 'El nombre no puede exceder 80 caracteres']
+  },
+  cliente_telefono: {
+    type: String,
+    required: [true, 'El teléfono del comprador es obligatorio'],
+    match: [/^[0-9]{6,15}$/, 'Ingresa un teléfono válido (solo números, 6-15 dígitos)']
+  },
+  items: {
+    type: [itemPedidoSchema],
+    validate: {
+      validator: (items) => items.length > 0,
+      message: 'El pedido debe tener al menos un producto'
+    }
+  },
+  total: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  estado: {
+    type: String,
+    enum: Object.keys(TRANSICIONES),
+    default: 'pendiente',
+    index: true
+  },
+  stock_descontado: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+// ===================================
+// MÉTODOS DE INSTANCIA
+// ===================================
+
+/**
+ * @description Verifica si el pedido puede pasar al estado indicado
+ * @param {string} nuevoEstado - Estado destino
+ * @returns {boolean} True si la transición es válida
+ * @example
+ * if (!pedido.puedeCambiarA('entregado')) {
+ *   // Responder 400
+ * }
+ */
+pedidoSchema.methods.puedeCambiarA = function(nuevoEstado) {
+  return (TRANSICIONES[this.estado] || []).includes(nuevoEstado);
+};
+
+// ===================================
+// MÉTODOS ESTÁTICOS
+// ===================================
+
+/**
+ * @description Genera un código corto único para el pedido
+ * Formato: NH-XXXXX (5 caracteres sin ambigüedades)
+ * @static
+ * @returns {Promise<string>} Código único
+ * @example
+ * const codigo = await Pedido.generarCodigoUnico();
+ * // "NH-7K3Q9"
+ */
+pedidoSchema.statics.generarCodigoUnico = async function() {
+  let codigo;
+  let existe = true;
+
+  while (existe) {
+    let sufijo = '';
+    for (let i = 0; i < 5; i++) {
+      sufijo += CARACTERES_CODIGO[Math.floor(Math.random() * CARACTERES_CODIGO.length)];
+    }
+    codigo = `NH-${sufijo}`;
+    existe = await this.exists({ codigo });
+  }
+
+  return codigo;
+};
+
+/**
+ * @description Cuenta pedidos de una tienda agrupados por estado
+ * @static
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @returns {Promise<Object>} Contadores por estado
+ * @example
+ * const resumen = await Pedido.resumenPorEstado(tiendaId);
+ * // { pendiente: 3, confirmado: 1, entregado: 10, cancelado: 0 }
+ */
+pedidoSchema.statics.resumenPorEstado = async function(tiendaId) {
+  const grupos = await this.aggregate([
+    { $match: { tienda_id: new mongoose.Types.ObjectId(tiendaId) } },
+    { $group: { _id: '$estado', total: { $sum: 1 } } }
+  ]);
+
+  const resumen = Object.fromEntries(Object.keys(TRANSICIONES).map(estado => [estado, 0]));
+  grupos.forEach(grupo => {
+    resumen[grupo._id] = grupo.total;
+  });
+
+  return resumen;
+};
+
+// ===================================
+// ÍNDICES
+// ===================================
+pedidoSchema.index({ tienda_id: 1, estado: 1, createdAt: -1 }); // Listado del panel
+
+const Pedido = mongoose.model('Pedido', pedidoSchema);
+
+module.exports = Pedido;
+module.exports.ESTADOS_PEDIDO = Object.keys(TRANSICIONES);
@@ -1,6 +1,57 @@
 // backend/src/models/Producto.js
 const mongoose = require('mongoose');
 
+/**
+ * Máximo de variantes por producto
+ * @constant
+ */
+const MAX_VARIANTES = 30;
+
+/**
+ * @description Esquema de una variante del producto (tono, tamaño, etc.)
+ * Cada variante tiene su propio stock y puede sobrescribir el precio
+ * y la imagen del producto. Conserva su _id para referenciarla
+ * desde el carrito y los pedidos.
+ */
+const varianteSchema = new mongoose.Schema({
+  nombre: {
+    type: String,
+    required: [true, 'El nombre de la variante es obligatorio'],
+    trim: true,
+    maxlength: [50, 'El nombre de la variante no puede exceder 50 caracteres']
+  },
+  color: {
+    type: String,
+    trim: true,
+    match: [/^#[0-9A-Fa-f]{6}$/, 'El color de la variante debe ser un código hex (ej: #E91E63)']
+  },
+  talla: {
+    type: String,
+    trim: true,
+    maxlength: [20, 'La talla no puede exceder 20 caracteres']
+  },
+  sku: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [40, 'El SKU no puede exceder 40 caracteres']
+  },
+  // Si no se define, se usa el precio (u oferta) del producto
+  precio: {
+    type: Number,
+    min: [0, 'El precio de la variante no puede ser negativo']
+  },
+  stock: {
+    type: Number,
+    min: [0, 'El stock de la variante no puede ser negativo'],
+    default: 0
+  },
+  imagen: {
+    url: String,
+    cloudinary_id: String
+  }
+});
+
 /**
  * @description Esquema de Producto para catálogos de NilHub
  * Maneja inventario, precios, imágenes y estadísticas
@@ -9,12 +60,14 @@ const mongoose = require('mongoose');
  * @property {ObjectId} tienda_id - ID de la tienda dueña
  * @property {string} nombre - Nombre del producto
  * @property {string} descripcion - Descripción detallada
- * @property {string} categoria - Categoría del producto
+ * @property {string} categoria - Slug de la categoría de la tienda (ver Categoria)
  * @property {string} marca - Marca del producto
+ * @property {string} sku - Código del producto (único en la tienda, opcional)
  * @property {number} precio - Precio regular
  * @property {number} precio_oferta - Precio en oferta (opcional)
- * @property {number} stock - Cantidad en inventario (manual)
+ * @property {number} stock - Cantidad en inventario (suma de variantes si las hay)
  * @property {boolean} hay_stock - Si hay stock disponible
+ * @property {Array<Object>} variantes - Tonos/tamaños con stock y precio propios
  * @property {Array<Object>} imagenes - URLs de Cloudinary
  * @property {string} ingredientes - Lista de ingredientes
  * @property {string} peso - Peso o tamaño del producto
@@ -45,8 +98,8 @@ const productoSchema = new mongoose.Schema({
   categoria: {
     type: String,
     required: [true, 'La categoría es obligatoria'],
-    enum: ['maquillaje', 'skincare', 'fragancias', 'cuidado-personal', 'accesorios', 'otros'],
     lowercase: true,
+    trim: true,
     index: true
   },
   marca: {
@@ -54,6 +107,14 @@ const productoSchema = new mongoose.Schema({
     trim: true,
     maxlength: [50, 'La marca no puede exceder 50 caracteres']
   },
+  sku: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [40, 'El SKU no puede exceder 40 caracteres'],
+    // Vacío = sin SKU (el índice único solo cuenta los que tienen)
+    set: (valor) => (valor && String(valor).trim()) || undefined
+  },
   precio: {
     type: Number,
     required: [true, 'El precio es obligatorio'],
@@ -77,6 +138,22 @@ const productoSchema = new mongoose.Schema({
     type: Boolean,
     default: true
   },
+  variantes: {
+    type: [varianteSchema],
+    validate: [
+      {
+        validator: (variantes) => variantes.length <= MAX_VARIANTES,
+        message: `Máximo ${MAX_VARIANTES} variantes por producto`
+      },
+      {
+        validator: (variantes) => {
+          const skus = variantes.map(v => v.sku).filter(Boolean);
+          return new Set(skus).size === skus.length;
+        },
+        message: 'Cada variante debe tener un SKU distinto'
+      }
+    ]
+  },
   imagenes: [{
     url: {
       type: String,
@@ -119,41 +196,75 @@ const productoSchema = new mongoose.Schema({
 // MIDDLEWARE
 // ===================================
 
+/**
+ * @description Suma el stock de un array de variantes
+ * @param {Array<Object>} variantes - Variantes del producto
+ * @returns {number} Stock total
+ * @private
+ */
+const sumarStockVariantes = (variantes) =>
+  variantes.reduce((suma, variante) => suma + (Number(variante.stock) || 0), 0);
+
 /**
  * @description Actualiza hay_stock automáticamente según el stock
+ * Si el producto tiene variantes, el stock es la suma de sus stocks
  * Se ejecuta antes de guardar con .save()
  * ⚠️ NO se ejecuta con .updateOne(), .findOneAndUpdate(), etc
  * @middleware
  */
 productoSchema.pre('save', function(next) {
+  if (this.variantes.length > 0) {
+    this.stock = sumarStockVariantes(this.variantes);
+  }
   this.hay_stock = this.stock > 0;
   next();
 });
 
+/**
+ * @description Recalcula stock y hay_stock cuando se actualizan las variantes
+ * o el stock con findByIdAndUpdate (usado por el controller de edición)
+ * ⚠️ Con solo `stock` no sabe si el producto tiene variantes: el controller
+ * rechaza ese caso antes de actualizar
+ * @middleware
+ */
+productoSchema.pre('findOneAndUpdate', function(next) {
+  const update = this.getUpdate() || {};
+  const datos = update.$set || update;
+
+  if (Array.isArray(datos.variantes) && datos.variantes.length > 0) {
+    datos.stock = sumarStockVariantes(datos.variantes);
+    datos.hay_stock = datos.stock > 0;
+  } else if (datos.stock !== undefined) {
+    datos.hay_stock = Number(datos.stock) > 0;
+  }
+  next();
+});
+
 // ===================================
 // MÉTODOS DE INSTANCIA
 // ===================================
 
 /**
  * @description Incrementa el contador de vistas del producto
- * @returns {Promise<Producto>} Producto actualizado
+ * Usa $inc en la base: dos vistas simultáneas no se pisan
+ * (el documento en memoria no se modifica)
+ * @returns {Promise<Object>} Resultado de updateOne
  * @example
  * await producto.incrementarVistas();
  */
-productoSchema.methods.incrementarVistas = async function() {
-  this.vistas += 1;
-  return await this.save();
+productoSchema.methods.incrementarVistas = function() {
+  return this.constructor.updateOne({ _id: this._id }, { $inc: { vistas: 1 } });
 };
 
 /**
  * @description Incrementa el contador de clicks en WhatsApp
- * @returns {Promise<Producto>} Producto actualizado
+ * Usa $inc en la base, igual que incrementarVistas
+ * @returns {Promise<Object>} Resultado de updateOne
  * @example
  * await producto.incrementarClicksWhatsApp();
  */
-productoSchema.methods.incrementarClicksWhatsApp = async function() {
-  this.clicks_whatsapp += 1;
-  return await this.save();
+productoSchema.methods.incrementarClicksWhatsApp = function() {
+  return this.constructor.updateOne({ _id: this._id }, { $inc: { clicks_whatsapp: 1 } });
 };
 
 /**
@@ -170,6 +281,78 @@ productoSchema.methods.actualizarStock = async function(nuevoStock) {
   return await this.save();
 };
 
+/**
+ * @description Actualiza el stock de una variante
+ * El stock total y hay_stock se recalculan en el pre-save
+ * @param {string|ObjectId} varianteId - ID de la variante
+ * @param {number} nuevoStock - Nueva cantidad de stock de la variante
+ * @returns {Promise<Producto>} Producto actualizado
+ * @throws {Error} Si la variante no existe
+ * @example
+ * await producto.actualizarStockVariante(varianteId, 4);
+ */
+productoSchema.methods.actualizarStockVariante = async function(varianteId, nuevoStock) {
+  const variante = this.variantes.id(varianteId);
+  if (!variante) {
+    throw new Error('Variante no encontrada');
+  }
+  variante.stock = nuevoStock;
+  return await this.save();
+};
+
+/**
+ * @description Suma (o resta) unidades al stock de forma atómica
+ * Con delta negativo solo descuenta si alcanza el stock del producto (o de
+ * la variante): dos descuentos simultáneos no lo dejan negativo ni pisan
+ * un cambio hecho entre la lectura y la escritura (p. ej. PATCH /api/v1/stock)
+ * Con variante, suma el delta a la variante y al total del producto
+ * @param {string|ObjectId} productoId - ID del producto
+ * @param {string|ObjectId|null} varianteId - ID de la variante (null si no tiene)
+ * @param {number} delta - Unidades a sumar (negativo para descontar)
+ * @returns {Promise<Producto|null>} Producto actualizado, o null si no alcanzó
+ *          el stock o el producto/la variante ya no existen
+ * @example
+ * const producto = await Producto.moverStock(item.producto_id, item.variante_id, -item.cantidad);
+ */
+productoSchema.statics.moverStock = async function(productoId, varianteId, delta) {
+  const filtro = { _id: productoId };
+  const incremento = { stock: delta };
+
+  if (varianteId) {
+    filtro.variantes = {
+      $elemMatch: delta < 0 ? { _id: varianteId, stock: { $gte: -delta } } : { _id: varianteId }
+    };
+    incremento['variantes.$.stock'] = delta;
+  } else if (delta < 0) {
+    filtro.stock = { $gte: -delta };
+  }
+
+  const movido = await this.findOneAndUpdate(filtro, { $inc: incremento });
+  if (!movido) return null;
+
+  // hay_stock depende del stock recién escrito: se recalcula en la base
+  return this.findOneAndUpdate(
+    { _id: productoId },
+    [{ $set: { hay_stock: { $gt: ['$stock', 0] } } }],
+    { new: true }
+  );
+};
+
+/**
+ * @description Precio unitario a cobrar por el producto o una de sus variantes
+ * El precio propio de la variante tiene prioridad sobre el precio/oferta del producto
+ * @param {Object} [variante] - Variante elegida
+ * @returns {number} Precio unitario
+ * @example
+ * const precio = producto.precioDe(producto.variantes.id(varianteId));
+ */
+productoSchema.methods.precioDe = function(variante) {
+  if (variante && variante.precio) {
+    return variante.precio;
+  }
+  return this.precio_oferta || this.precio;
+};
+
 // ===================================
 // MÉTODOS ESTÁTICOS
 // ===================================
@@ -193,6 +376,8 @@ productoSchema.statics.porCategoria = function(tiendaId, categoria) {
 
 /**
  * @description Busca productos por texto en nombre, descripción o marca
+ * Ignora tildes y escapa caracteres especiales. Para búsqueda con ranking
+ * y tolerancia a errores usar busquedaService.buscarEnTienda
  * @static
  * @param {string|ObjectId} tiendaId - ID de la tienda
  * @param {string} terminoBusqueda - Término a buscar
@@ -201,13 +386,17 @@ productoSchema.statics.porCategoria = function(tiendaId, categoria) {
  * const resultados = await Producto.buscar(tiendaId, 'labial');
  */
 productoSchema.statics.buscar = function(tiendaId, terminoBusqueda) {
+  // Requerido aquí: busquedaService depende de este modelo
+  const { patronSinAcentos } = require('../services/busquedaService');
+  const patron = patronSinAcentos(terminoBusqueda);
+
   return this.find({
     tienda_id: tiendaId,
     activo: true,
     $or: [
-      { nombre: { $regex: terminoBusqueda, $options: 'i' } },
-      { descripcion: { $regex: terminoBusqueda, $options: 'i' } },
-      { marca: { $regex: terminoBusqueda, $options: 'i' } }
+      { nombre: { $regex: patron, $options: 'i' } },
+      { descripcion: { $regex: patron, $options: 'i' } },
+      { marca: { $regex: patron, $options: 'i' } }
     ]
   }).sort({ createdAt: -1 });
 };
@@ -240,6 +429,11 @@ productoSchema.statics.relacionados = function(tiendaId, categoria, excluirId, l
 // ===================================
 productoSchema.index({ tienda_id: 1, activo: 1 }); // Compuesto para queries frecuentes
 productoSchema.index({ categoria: 1 });
-productoSchema.index({ nombre: 'text', descripcion: 'text', marca: 'text' }); // Text search
+// Sin índice de texto: la búsqueda (tildes, errores, ranking) la hace busquedaService
+productoSchema.index({ tienda_id: 1, 'variantes.sku': 1 }); // Búsqueda por SKU
+productoSchema.index(
+  { tienda_id: 1, sku: 1 },
+  { unique: true, partialFilterExpression: { sku: { $type: 'string' } } }
+); // SKU único por tienda (importación por SKU)
 
 module.exports = mongoose.model('Producto', productoSchema);
\ No newline at end of file
@@ -0,0 +1,310 @@
+// backend/src/models/Sesion.js
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+/**
+ * Cookie con el JWT de acceso (corto, se envía a toda la API)
+ * @constant
+ */
+const COOKIE_ACCESO = 'nilhub_acceso';
+
+/**
+ * Cookie con el token de refresco (largo, solo se envía a /api/auth)
+ * @constant
+ */
+const COOKIE_REFRESCO = 'nilhub_refresco';
+
+/**
+ * Días que dura una sesión sin usarse (cada refresco la extiende)
+ * @constant
+ */
+const DIAS_SESION = Number(process.env.SESION_DIAS) || 30;
+
+/**
+ * Tiempo en que el token recién reemplazado todavía se acepta (ms)
+ * Cubre dos pestañas que refrescan a la vez con la misma cookie
+ * @constant
+ */
+const GRACIA_ROTACION = 30 * 1000;
+
+/**
+ * Tokens ya usados que se recuerdan por sesión para detectar reutilización
+ * @constant
+ */
+const MAX_USADOS = 50;
+
+/**
+ * Motivos por los que se cierra una sesión
+ * - cierre       → el usuario cerró sesión
+ * - reutilizacion → se presentó un token de refresco ya usado (posible robo)
+ * - password     → se cambió la contraseña
+ * @constant
+ */
+const MOTIVOS_REVOCACION = ['cierre', 'reutilizacion', 'password'];
+
+/**
+ * @description Esquema de una sesión iniciada en un navegador
+ * Es la "familia" de tokens de refresco: cada refresco reemplaza el token
+ * por uno nuevo (rotación) y guarda el hash del anterior. Si vuelve a llegar
+ * un token ya reemplazado, alguien lo copió: se revoca la sesión completa.
+ *
+ * @typedef {Object} Sesion
+ * @property {ObjectId} usuario_id - Dueño de la sesión
+ * @property {string} hash - SHA-256 del token de refresco vigente
+ * @property {string} hash_anterior - SHA-256 del token recién reemplazado
+ * @property {Date} rotada_en - Cuándo se reemplazó el token por última vez
+ * @property {string[]} hashes_usados - Tokens ya reemplazados (los últimos MAX_USADOS)
+ * @property {string} user_agent - Navegador donde se inició
+ * @property {string} ip - Última IP desde donde se usó
+ * @property {string} pais - Código ISO del país de esa IP (si el proxy lo informa)
+ * @property {string} ciudad - Ciudad de esa IP (si el proxy lo informa)
+ * @property {Date} ultimo_uso - Último refresco (el JWT de acceso dura 15 minutos)
+ * @property {Date} expira_en - Vence si no se refresca antes (MongoDB la borra)
+ * @property {Date} revocada_en - Si tiene fecha, la sesión está cerrada
+ * @property {string} motivo_revocacion - Ver MOTIVOS_REVOCACION
+ */
+const sesionSchema = new mongoose.Schema({
+  usuario_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Usuario',
+    required: true,
+    index: true
+  },
+  hash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  hash_anterior: {
+    type: String,
+    default: null,
+    select: false
+  },
+  rotada_en: {
+    type: Date,
+    default: null
+  },
+  hashes_usados: {
+    type: [String],
+    default: [],
+    index: true,
+    select: false
+  },
+  user_agent: {
+    type: String,
+    default: ''
+  },
+  ip: {
+    type: String,
+    default: ''
+  },
+  pais: {
+    type: String,
+    default: ''
+  },
+  ciudad: {
+    type: String,
+    default: ''
+  },
+  ultimo_uso: {
+    type: Date,
+    default: Date.now
+  },
+  expira_en: {
+    type: Date,
+    required: true
+  },
+  revocada_en: {
+    type: Date,
+    default: null
+  },
+  motivo_revocacion: {
+    type: String,
+    enum: [...MOTIVOS_REVOCACION, null],
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// MongoDB borra las sesiones vencidas
+sesionSchema.index({ expira_en: 1 }, { expireAfterSeconds: 0 });
+
+// ===================================
+// MÉTODOS ESTÁTICOS
+// ===================================
+
+/**
+ * @description Hash con el que se guarda y se busca un token de refresco
+ * @param {string} token - Token en texto plano
+ * @returns {string} SHA-256 en hexadecimal
+ */
+sesionSchema.statics.hashDe = function(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * @description Fecha de vencimiento de una sesión usada ahora
+ * @returns {Date}
+ */
+sesionSchema.statics.vencimiento = function() {
+  return new Date(Date.now() + DIAS_SESION * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * @description Inicia una sesión nueva
+ * @param {Object} datos
+ * @param {ObjectId} datos.usuario_id - Usuario que inició sesión
+ * @param {string} [datos.user_agent] - Header User-Agent
+ * @param {string} [datos.ip] - IP del request
+ * @param {string} [datos.pais] - País aproximado de la IP
+ * @param {string} [datos.ciudad] - Ciudad aproximada de la IP
+ * @returns {Promise<{sesion: Sesion, refresco: string}>} La sesión y su token
+ *          de refresco en texto plano (solo se entrega en la cookie)
+ */
+sesionSchema.statics.iniciar = async function({ usuario_id, user_agent = '', ip = '', pais = '', ciudad = '' }) {
+  const refresco = crypto.randomBytes(32).toString('base64url');
+  const sesion = await this.create({
+    usuario_id,
+    hash: this.hashDe(refresco),
+    user_agent: user_agent.slice(0, 300),
+    ip,
+    pais,
+    ciudad,
+    expira_en: this.vencimiento()
+  });
+  return { sesion, refresco };
+};
+
+/**
+ * @description Cambia un token de refresco por uno nuevo
+ *
+ * - Token vigente: se reemplaza (rotación) → { sesion, refresco }
+ * - Token recién reemplazado (dentro de GRACIA_ROTACION): refresco
+ *   simultáneo de otra pestaña → { sesion, refresco: null }; no se rota otra
+ *   vez, el navegador ya tiene la cookie nueva
+ * - Token reemplazado hace más tiempo: reutilización → se revoca la sesión
+ *   → { reutilizado: true }
+ * - Token desconocido, de una sesión cerrada o vencida → null
+ *
+ * @param {string} refresco - Token de refresco recibido en la cookie
+ * @param {Object} [red] - Desde dónde se renueva (el dispositivo pudo cambiar de red)
+ * @param {string} [red.ip]
+ * @param {string} [red.pais]
+ * @param {string} [red.ciudad]
+ * @returns {Promise<{sesion?: Sesion, refresco?: string|null, reutilizado?: boolean}|null>}
+ */
+sesionSchema.statics.rotar = async function(refresco, red = {}) {
+  const hash = this.hashDe(refresco);
+  const ahora = new Date();
+  const nuevo = crypto.randomBytes(32).toString('base64url');
+
+  // Atómico: si dos requests rotan el mismo token, solo uno lo consigue
+  const sesion = await this.findOneAndUpdate(
+    { hash, revocada_en: null, expira_en: { $gt: ahora } },
+    {
+      $set: {
+        hash: this.hashDe(nuevo),
+        hash_anterior: hash,
+        rotada_en: ahora,
+        ultimo_uso: ahora,
+        ...red,
+        expira_en: this.vencimiento()
+      },
+      $push: { hashes_usados: { $each: [hash], $slice: -MAX_USADOS } }
+    },
+    { new: true }
+  );
+
+  if (sesion) {
+    return { sesion, refresco: nuevo };
+  }
+
+  const usada = await this.findOne({ hashes_usados: hash }).select('+hash_anterior');
+  if (!usada || usada.revocada_en) {
+    return null;
+  }
+
+  if (usada.hash_anterior === hash && ahora - usada.rotada_en < GRACIA_ROTACION) {
+    return { sesion: usada, refresco: null };
+  }
+
+  await usada.revocar('reutilizacion');
+  console.warn(`🚨 Token de refresco reutilizado: sesión ${usada._id} revocada (usuario ${usada.usuario_id})`);
+  return { reutilizado: true };
+};
+
+/**
+ * @description Indica si una sesión sigue abierta (para validar el JWT de acceso)
+ * @param {string|ObjectId} id - ID de la sesión
+ * @returns {Promise<boolean>}
+ */
+sesionSchema.statics.estaVigente = async function(id) {
+  if (!mongoose.isValidObjectId(id)) return false;
+  const sesion = await this.exists({ _id: id, revocada_en: null, expira_en: { $gt: new Date() } });
+  return Boolean(sesion);
+};
+
+/**
+ * @description Sesiones abiertas de un usuario, la de uso más reciente primero
+ * @param {string|ObjectId} usuarioId - Dueño de las sesiones
+ * @returns {Promise<Sesion[]>}
+ */
+sesionSchema.statics.abiertasDe = function(usuarioId) {
+  return this.find({ usuario_id: usuarioId, revocada_en: null, expira_en: { $gt: new Date() } })
+    .sort({ ultimo_uso: -1 });
+};
+
+/**
+ * @description Cierra todas las sesiones abiertas de un usuario
+ * @param {string|ObjectId} usuarioId - Dueño de las sesiones
+ * @param {string} motivo - Ver MOTIVOS_REVOCACION
+ * @returns {Promise<number>} Sesiones cerradas
+ */
+sesionSchema.statics.revocarTodas = async function(usuarioId, motivo) {
+  const { modifiedCount } = await this.updateMany(
+    { usuario_id: usuarioId, revocada_en: null },
+    { $set: { revocada_en: new Date(), motivo_revocacion: motivo } }
+  );
+  return modifiedCount;
+};
+
+// ===================================
+// MÉTODOS DE INSTANCIA
+// ===================================
+
+/**
+ * @description Cierra la sesión (su token de refresco deja de servir)
+ * @param {string} motivo - Ver MOTIVOS_REVOCACION
+ * @returns {Promise<void>}
+ */
+sesionSchema.methods.revocar = async function(motivo) {
+  this.revocada_en = new Date();
+  this.motivo_revocacion = motivo;
+  await this.constructor.updateOne(
+    { _id: this._id },
+    { $set: { revocada_en: this.revocada_en, motivo_revocacion: motivo } }
+  );
+};
+
+/**
+ * @description Objeto público de la sesión (sin hashes)
+ * @returns {Object}
+ */
+sesionSchema.methods.toJSON = function() {
+  const sesion = this.toObject();
+  delete sesion.hash;
+  delete sesion.hash_anterior;
+  delete sesion.hashes_usados;
+  delete sesion.__v;
+  return sesion;
+};
+
+const Sesion = mongoose.model('Sesion', sesionSchema);
+
+module.exports = Sesion;
+module.exports.COOKIE_ACCESO = COOKIE_ACCESO;
+module.exports.COOKIE_REFRESCO = COOKIE_REFRESCO;
+module.exports.DIAS_SESION = DIAS_SESION;
+module.exports.MOTIVOS_REVOCACION = MOTIVOS_REVOCACION;
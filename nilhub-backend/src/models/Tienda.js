@@ -19,6 +19,8 @@ const mongoose = require('mongoose');
  * @property {string} banner_cloudinary_id - ID en Cloudinary del banner
  * @property {string} color_tema - Color hexadecimal del tema
  * @property {boolean} activa - Si la tienda está activa
+ * @property {boolean} verificacion_pendiente - Oculta del catálogo público hasta que el dueño confirme su email
+ * @property {boolean} eliminacion_pendiente - Oculta del catálogo público mientras el dueño puede cancelar la eliminación de su cuenta
  * @property {number} total_productos - Contador de productos (manual)
  * @property {Date} createdAt - Fecha de creación
  * @property {Date} updatedAt - Fecha de última actualización
@@ -85,6 +87,14 @@ const tiendaSchema = new mongoose.Schema({
     default: true,
     index: true
   },
+  verificacion_pendiente: {
+    type: Boolean,
+    default: false
+  },
+  eliminacion_pendiente: {
+    type: Boolean,
+    default: false
+  },
   total_productos: {
     type: Number,
     default: 0,
@@ -98,6 +108,21 @@ const tiendaSchema = new mongoose.Schema({
 // MÉTODOS ESTÁTICOS
 // ===================================
 
+/**
+ * @description Filtro de las tiendas visibles en el catálogo público
+ * Excluye las desactivadas por un admin, las de dueños que aún no confirman
+ * su email (las tiendas anteriores a la verificación no tienen el campo) y
+ * las de cuentas que se van a eliminar
+ * @static
+ * @param {Object} [filtro] - Condiciones adicionales (slug, etc.)
+ * @returns {Object} Filtro para find/findOne
+ * @example
+ * const tienda = await Tienda.findOne(Tienda.filtroPublico({ slug }));
+ */
+tiendaSchema.statics.filtroPublico = function(filtro = {}) {
+  return { ...filtro, activa: true, verificacion_pendiente: { $ne: true }, eliminacion_pendiente: { $ne: true } };
+};
+
 /**
  * @description Genera un slug único a partir del nombre de la tienda
  * Si el slug ya existe, agrega un número al final (-1, -2, etc)
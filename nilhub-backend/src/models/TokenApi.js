@@ -0,0 +1,177 @@
+// backend/src/models/TokenApi.js
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+/**
+ * Permisos que puede tener un token de API
+ * - catalogo:leer      → listar y ver productos
+ * - productos:escribir → crear, editar y eliminar productos
+ * - stock:escribir     → cambiar stock (también por SKU)
+ * @constant
+ */
+const PERMISOS_TOKEN = ['catalogo:leer', 'productos:escribir', 'stock:escribir'];
+
+/**
+ * Prefijo de los tokens: permite distinguirlos de un JWT en el header
+ * @constant
+ */
+const PREFIJO_TOKEN = 'nhk_';
+
+/**
+ * Máximo de tokens activos por usuario
+ * @constant
+ */
+const MAX_TOKENS = 10;
+
+/**
+ * Peticiones por minuto de un token si no se indica otro límite
+ * @constant
+ */
+const LIMITE_POR_DEFECTO = 60;
+
+/**
+ * @description Esquema de un token de API personal
+ * El token solo se muestra al crearlo: se guarda su hash SHA-256, y
+ * `prefijo` (sus primeros caracteres) sirve para reconocerlo en la lista
+ *
+ * @typedef {Object} TokenApi
+ * @property {ObjectId} usuario_id - Dueño del token
+ * @property {string} nombre - Nombre puesto por el vendedor (ej: "Caja de la tienda")
+ * @property {string} prefijo - Primeros caracteres del token (ej: "nhk_3f9a2c")
+ * @property {string} hash - SHA-256 del token
+ * @property {string[]} permisos - Ver PERMISOS_TOKEN
+ * @property {number} limite_por_minuto - Peticiones permitidas por minuto
+ * @property {Date} ultimo_uso - Última petición autenticada con el token
+ * @property {Date} revocado_en - Si tiene fecha, el token ya no vale
+ */
+const tokenApiSchema = new mongoose.Schema({
+  usuario_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Usuario',
+    required: true,
+    index: true
+  },
+  nombre: {
+    type: String,
+    required: [true, 'El nombre del token es obligatorio'],
+    trim: true,
+    maxlength: [50, 'El nombre no puede exceder 50 caracteres']
+  },
+  prefijo: {
+    type: String,
+    required: true
+  },
+  hash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  permisos: {
+    type: [{ type: String, enum: PERMISOS_TOKEN }],
+    validate: {
+      validator: (permisos) => permisos.length > 0,
+      message: 'Elige al menos un permiso'
+    }
+  },
+  limite_por_minuto: {
+    type: Number,
+    default: LIMITE_POR_DEFECTO,
+    min: [1, 'El límite debe ser de al menos 1 petición por minuto'],
+    max: [600, 'El límite no puede exceder 600 peticiones por minuto']
+  },
+  ultimo_uso: {
+    type: Date,
+    default: null
+  },
+  revocado_en: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// ===================================
+// MÉTODOS ESTÁTICOS
+// ===================================
+
+/**
+ * @description Hash con el que se guarda y se busca un token
+ * @param {string} token - Token en texto plano
+ * @returns {string} SHA-256 en hexadecimal
+ */
+tokenApiSchema.statics.hashDe = function(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * @description Genera un token nuevo (aún sin guardar)
+ * @returns {{ token: string, prefijo: string, hash: string }}
+ * @example
+ * const { token, prefijo, hash } = TokenApi.generar();
+ * await TokenApi.create({ usuario_id, nombre, permisos, prefijo, hash });
+ * // Mostrar `token` al usuario una sola vez
+ */
+tokenApiSchema.statics.generar = function() {
+  const token = `${PREFIJO_TOKEN}${crypto.randomBytes(24).toString('base64url')}`;
+  return {
+    token,
+    prefijo: token.slice(0, PREFIJO_TOKEN.length + 6),
+    hash: this.hashDe(token)
+  };
+};
+
+/**
+ * @description Busca un token vigente (no revocado) por su texto plano
+ * @param {string} token - Token recibido en el header Authorization
+ * @returns {Promise<TokenApi|null>}
+ */
+tokenApiSchema.statics.buscarVigente = function(token) {
+  return this.findOne({ hash: this.hashDe(token), revocado_en: null });
+};
+
+// ===================================
+// MÉTODOS DE INSTANCIA
+// ===================================
+
+/**
+ * @description Indica si el token tiene un permiso
+ * @param {string} permiso - Uno de PERMISOS_TOKEN
+ * @returns {boolean}
+ */
+tokenApiSchema.methods.tienePermiso = function(permiso) {
+  return this.permisos.includes(permiso);
+};
+
+/**
+ * @description Registra el uso del token
+ * Solo escribe si pasó más de un minuto desde el último registro,
+ * para no hacer una escritura por petición
+ * @returns {Promise<void>}
+ */
+tokenApiSchema.methods.registrarUso = async function() {
+  const ahora = new Date();
+  if (this.ultimo_uso && ahora - this.ultimo_uso < 60 * 1000) return;
+  this.ultimo_uso = ahora;
+  await this.constructor.updateOne({ _id: this._id }, { $set: { ultimo_uso: ahora } });
+};
+
+/**
+ * @description Objeto público del token (sin hash)
+ * @returns {Object}
+ */
+tokenApiSchema.methods.toJSON = function() {
+  const tokenApi = this.toObject();
+  delete tokenApi.hash;
+  delete tokenApi.__v;
+  return tokenApi;
+};
+
+const TokenApi = mongoose.model('TokenApi', tokenApiSchema);
+
+module.exports = TokenApi;
+module.exports.PERMISOS_TOKEN = PERMISOS_TOKEN;
+module.exports.PREFIJO_TOKEN = PREFIJO_TOKEN;
+module.exports.MAX_TOKENS = MAX_TOKENS;
+module.exports.LIMITE_POR_DEFECTO = LIMITE_POR_DEFECTO;
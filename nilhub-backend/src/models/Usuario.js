@@ -13,6 +13,22 @@ const bcrypt = require('bcryptjs');
  * @property {string} telefono - Teléfono opcional
  * @property {string} role - Rol del usuario: 'vendedor' o 'admin'
  * @property {boolean} activo - Si el usuario está activo
+ * @property {boolean} email_verificado - Si confirmó su email con el código enviado al registrarse
+ * @property {Date} email_verificado_en - Cuándo lo confirmó
+ * @property {Object} dos_pasos - Verificación en dos pasos (TOTP)
+ * @property {boolean} dos_pasos.activo - Si el login pide un código de la app autenticadora
+ * @property {string} dos_pasos.secreto - Secreto TOTP en base32 (nunca sale de la API)
+ * @property {string} dos_pasos.secreto_pendiente - Secreto generado que todavía no se confirmó
+ * @property {string[]} dos_pasos.codigos_recuperacion - SHA-256 de los códigos de recuperación sin usar
+ * @property {number} dos_pasos.ultimo_paso - Intervalo del último código aceptado (no se acepta dos veces)
+ * @property {Date} dos_pasos.activado_en - Cuándo se activó
+ * @property {Object} bloqueo - Intentos de login fallidos de la cuenta
+ * @property {number} bloqueo.intentos_fallidos - Fallos seguidos desde el último ingreso correcto
+ * @property {Date} bloqueo.bloqueado_hasta - Hasta cuándo se rechazan los intentos de login
+ * @property {Object[]} historial_accesos - Últimos 50 intentos de login (más viejo primero)
+ * @property {Object} eliminacion - Solo si pidió eliminar su cuenta
+ * @property {Date} eliminacion.solicitada_en - Cuándo lo pidió
+ * @property {Date} eliminacion.programada_para - Cuándo se borra todo (puede cancelarlo hasta entonces)
  * @property {Date} createdAt - Fecha de creación
  * @property {Date} updatedAt - Fecha de última actualización
  */
@@ -50,6 +66,72 @@ const usuarioSchema = new mongoose.Schema({
   activo: {
     type: Boolean,
     default: true
+  },
+  email_verificado: {
+    type: Boolean,
+    default: false
+  },
+  email_verificado_en: {
+    type: Date,
+    default: null
+  },
+  dos_pasos: {
+    activo: {
+      type: Boolean,
+      default: false
+    },
+    secreto: {
+      type: String,
+      select: false
+    },
+    secreto_pendiente: {
+      type: String,
+      select: false
+    },
+    codigos_recuperacion: {
+      type: [String],
+      default: undefined,
+      select: false
+    },
+    ultimo_paso: {
+      type: Number,
+      select: false
+    },
+    activado_en: {
+      type: Date,
+      default: null
+    }
+  },
+  bloqueo: {
+    intentos_fallidos: {
+      type: Number,
+      default: 0
+    },
+    bloqueado_hasta: {
+      type: Date,
+      default: null
+    }
+  },
+  historial_accesos: {
+    type: [{
+      _id: false,
+      fecha: { type: Date, default: Date.now },
+      ip: String,
+      user_agent: String,
+      pais: String,
+      ciudad: String,
+      exito: Boolean,
+      metodo: {
+        type: String,
+        enum: ['contrasena', 'codigo', 'dos_pasos']
+      },
+      motivo: String
+    }],
+    select: false // Se pide explícitamente (puede pesar)
+  },
+  eliminacion: {
+    solicitada_en: Date,
+    programada_para: Date
   }
 }, {
   timestamps: true // createdAt, updatedAt
@@ -105,6 +187,15 @@ usuarioSchema.methods.esAdmin = function() {
   return this.role === 'admin';
 };
 
+/**
+ * @description Indica si la cuenta debe tener verificación en dos pasos
+ * Es obligatoria para administradores (pueden eliminar usuarios)
+ * @returns {boolean}
+ */
+usuarioSchema.methods.dosPasosObligatorio = function() {
+  return this.role === 'admin';
+};
+
 /**
  * @description Obtener objeto público (sin password ni campos internos)
  * Se ejecuta automáticamente al convertir a JSON
@@ -114,6 +205,13 @@ usuarioSchema.methods.toJSON = function() {
   const usuario = this.toObject();
   delete usuario.password;
   delete usuario.__v;
+  if (usuario.dos_pasos) {
+    usuario.dos_pasos = {
+      activo: usuario.dos_pasos.activo,
+      activado_en: usuario.dos_pasos.activado_en,
+      obligatorio: this.dosPasosObligatorio()
+    };
+  }
   return usuario;
 };
 
@@ -123,5 +221,6 @@ usuarioSchema.methods.toJSON = function() {
 usuarioSchema.index({ email: 1 }); // Búsqueda rápida por email
 usuarioSchema.index({ activo: 1 }); // Filtrar usuarios activos
 usuarioSchema.index({ role: 1 }); // Filtrar por rol
+usuarioSchema.index({ 'eliminacion.programada_para': 1 }, { sparse: true }); // Cuentas a eliminar
 
 module.exports = mongoose.model('Usuario', usuarioSchema);
\ No newline at end of file
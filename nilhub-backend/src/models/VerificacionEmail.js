@@ -0,0 +1,116 @@
+// backend/src/models/VerificacionEmail.js
+const mongoose = require('mongoose');
+
+/**
+ * @description Esquema para verificar el email de cuentas nuevas
+ * Códigos de 6 dígitos con expiración, como PasswordReset, pero en su propia
+ * colección: un código de verificación nunca sirve para cambiar la contraseña
+ *
+ * @typedef {Object} VerificacionEmail
+ * @property {ObjectId} usuario_id - ID del usuario
+ * @property {string} email - Email al que se envió el código (normalizado)
+ * @property {string} code - Código de 6 dígitos
+ * @property {Date} expira - Fecha de expiración (24 horas)
+ * @property {number} intentos - Intentos fallidos (máx 5)
+ * @property {boolean} usado - Si ya fue usado
+ * @property {Date} createdAt - Fecha de envío (para la espera entre reenvíos)
+ */
+const verificacionEmailSchema = new mongoose.Schema({
+  usuario_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Usuario',
+    required: true,
+    index: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  code: {
+    type: String,
+    required: true,
+    minlength: [6, 'El código debe tener 6 dígitos'],
+    maxlength: [6, 'El código debe tener 6 dígitos']
+  },
+  expira: {
+    type: Date,
+    required: true,
+    default: () => new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 horas
+  },
+  intentos: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 5
+  },
+  usado: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// ===================================
+// ÍNDICES
+// ===================================
+
+/**
+ * Índice TTL: MongoDB elimina los códigos vencidos
+ */
+verificacionEmailSchema.index({ expira: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Último código enviado a cada usuario
+ */
+verificacionEmailSchema.index({ usuario_id: 1, createdAt: -1 });
+
+// ===================================
+// MÉTODOS DE INSTANCIA
+// ===================================
+
+/**
+ * @description Verifica si el código todavía puede usarse
+ * Chequea: no usado, intentos < 5, no expirado
+ * @returns {boolean} True si es válido, false si no
+ */
+verificacionEmailSchema.methods.esValido = function() {
+  return (
+    !this.usado &&
+    this.intentos < 5 &&
+    this.expira > new Date()
+  );
+};
+
+/**
+ * @description Incrementa el contador de intentos fallidos
+ * @returns {Promise<void>}
+ */
+verificacionEmailSchema.methods.incrementarIntentos = async function() {
+  this.intentos += 1;
+  await this.save();
+};
+
+// ===================================
+// MÉTODOS ESTÁTICOS
+// ===================================
+
+/**
+ * @description Último código enviado al usuario (usado o no)
+ * @static
+ * @param {ObjectId} usuarioId
+ * @returns {Promise<VerificacionEmail|null>}
+ * @example
+ * const ultimo = await VerificacionEmail.ultimoDe(usuario._id);
+ */
+verificacionEmailSchema.statics.ultimoDe = function(usuarioId) {
+  return this.findOne({ usuario_id: usuarioId }).sort({ createdAt: -1 });
+};
+
+const VerificacionEmail = mongoose.model('VerificacionEmail', verificacionEmailSchema);
+
+module.exports = VerificacionEmail;
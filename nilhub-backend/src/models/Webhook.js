@@ -0,0 +1,78 @@
+// backend/src/models/Webhook.js
+const mongoose = require('mongoose');
+
+/**
+ * Eventos a los que se puede suscribir un webhook
+ * @constant
+ */
+const EVENTOS_WEBHOOK = [
+  'producto.creado',
+  'producto.actualizado',
+  'producto.eliminado',
+  'producto.stock',
+  'tienda.actualizada',
+  'whatsapp.click'
+];
+
+/**
+ * Máximo de webhooks por tienda
+ * @constant
+ */
+const MAX_WEBHOOKS = 5;
+
+/**
+ * @description Esquema de un webhook de una tienda
+ * NilHub envía un POST firmado a la URL cada vez que ocurre uno de sus eventos
+ * (ver webhookService)
+ *
+ * @typedef {Object} Webhook
+ * @property {ObjectId} tienda_id - Tienda dueña
+ * @property {string} url - Destino (http o https)
+ * @property {string[]} eventos - Eventos suscritos
+ * @property {string} secreto - Clave HMAC para verificar la firma (X-NilHub-Firma)
+ * @property {string} descripcion - Nota del vendedor (ej: "Hoja de stock")
+ * @property {boolean} activo - Si está pausado no se envía nada
+ */
+const webhookSchema = new mongoose.Schema({
+  tienda_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tienda',
+    required: true,
+    index: true
+  },
+  url: {
+    type: String,
+    required: [true, 'La URL es requerida'],
+    trim: true,
+    maxlength: [500, 'La URL no puede exceder 500 caracteres'],
+    match: [/^https?:\/\/\S+$/i, 'La URL debe empezar con http:// o https://']
+  },
+  eventos: {
+    type: [{ type: String, enum: EVENTOS_WEBHOOK }],
+    validate: {
+      validator: (eventos) => eventos.length > 0,
+      message: 'Elige al menos un evento'
+    }
+  },
+  secreto: {
+    type: String,
+    required: true
+  },
+  descripcion: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'La descripción no puede exceder 100 caracteres']
+  },
+  activo: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+const Webhook = mongoose.model('Webhook', webhookSchema);
+
+module.exports = Webhook;
+module.exports.EVENTOS_WEBHOOK = EVENTOS_WEBHOOK;
+module.exports.MAX_WEBHOOKS = MAX_WEBHOOKS;
@@ -21,7 +21,7 @@ router.get('/stats', async (req, res) => {
 
     const stats = {
       usuarios: await Usuario.countDocuments(),
-      vendedores: await Usuario.countDocuments({ rol: 'vendedor' }),
+      vendedores: await Usuario.countDocuments({ role: 'vendedor' }),
       tiendas: await Tienda.countDocuments(),
       tiendas_activas: await Tienda.countDocuments({ activa: true }),
       productos: await Producto.countDocuments(),
@@ -130,17 +130,16 @@ router.put('/tiendas/:id/toggle', async (req, res) => {
 });
 
 /**
- * @route   DELETE /api/admin/usuarios/:id
- * @desc    Eliminar usuario
+ * @route   PUT /api/admin/usuarios/:id/desbloquear
+ * @desc    Quitar la espera o el bloqueo por intentos de login fallidos
  * @access  Admin
  */
-router.delete('/usuarios/:id', async (req, res) => {
+router.put('/usuarios/:id/desbloquear', async (req, res) => {
   try {
-    const Usuario = require('../models/Usuario');
-    const Tienda = require('../models/Tienda');
-    
-    const usuario = await Usuario.findById(req.params.id);
-    
+    const accesosService = require('../services/accesosService');
+
+    const usuario = await accesosService.desbloquear(req.params.id);
+
     if (!usuario) {
       return res.status(404).json({
         success: false,
@@ -148,11 +147,69 @@ router.delete('/usuarios/:id', async (req, res) => {
       });
     }
 
-    // Eliminar tienda asociada si existe
-    await Tienda.deleteMany({ usuario_id: usuario._id });
+    console.log(`🔓 Cuenta desbloqueada por ${req.usuario.email}: ${usuario.email}`);
 
-    // Eliminar usuario
-    await usuario.deleteOne();
+    res.json({
+      success: true,
+      data: usuario
+    });
+  } catch (error) {
+    console.error('Error al desbloquear usuario:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al desbloquear usuario'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/usuarios/:id/accesos
+ * @desc    Historial de intentos de login de un usuario
+ * @access  Admin
+ */
+router.get('/usuarios/:id/accesos', async (req, res) => {
+  try {
+    const accesosService = require('../services/accesosService');
+
+    const accesos = await accesosService.historialDe(req.params.id);
+
+    if (!accesos) {
+      return res.status(404).json({
+        success: false,
+        error: 'Usuario no encontrado'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: accesos
+    });
+  } catch (error) {
+    console.error('Error al obtener accesos del usuario:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al obtener accesos del usuario'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/admin/usuarios/:id
+ * @desc    Eliminar usuario con su tienda, productos e imágenes (sin plazo de gracia)
+ * @access  Admin
+ */
+router.delete('/usuarios/:id', async (req, res) => {
+  try {
+    const cuentaService = require('../services/cuentaService');
+
+    const resumen = await cuentaService.eliminarCuenta(req.params.id);
+
+    if (!resumen) {
+      return res.status(404).json({
+        success: false,
+        error: 'Usuario no encontrado'
+      });
+    }
 
     res.json({
       success: true,
@@ -0,0 +1,51 @@
+// backend/src/routes/analitica.js
+/**
+ * @fileoverview Rutas de Analítica - API REST
+ *
+ * Endpoints para las estadísticas de la tienda del vendedor:
+ * - Resumen por rango de fechas (tendencia diaria, top productos, búsquedas,
+ *   fuentes de tráfico y campañas)
+ *
+ * Los eventos se registran en las rutas públicas de productos y tiendas.
+ *
+ * @module AnaliticaRoutes
+ */
+
+const express = require('express');
+const router = express.Router();
+const analiticaController = require('../controllers/analiticaController');
+const { protect } = require('../middleware/auth');
+
+// ===================================
+// RUTAS PRIVADAS (requieren JWT)
+// ===================================
+
+/**
+ * @route   GET /api/analitica/resumen
+ * @desc    Resumen de analítica de mi tienda en un rango de días
+ * @access  Private (requiere JWT)
+ *
+ * @query {string} [desde] - Primer día YYYY-MM-DD (por defecto, últimos 30 días)
+ * @query {string} [hasta] - Último día YYYY-MM-DD (por defecto, hoy)
+ *
+ * @example
+ * GET /api/analitica/resumen?desde=2025-01-01&hasta=2025-01-31
+ * Headers: { Authorization: "Bearer <token>" }
+ *
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     desde: "2025-01-01", hasta: "2025-01-31", dias: 31,
+ *     totales: { vistas, clicks_whatsapp, busquedas, compartidos, ctr },
+ *     anteriores: { ...mismo formato, desde, hasta },
+ *     serie: [{ dia: "2025-01-01", vistas: 12, clicks_whatsapp: 2, ... }],
+ *     productos: [{ _id, nombre, imagen, vistas, clicks_whatsapp, compartidos, ctr }],
+ *     busquedas: [{ texto: "labial", total: 8, sin_resultados: 0 }],
+ *     fuentes: [{ fuente: "instagram", vistas: 40, clicks_whatsapp: 6, ctr: 0.15 }],
+ *     campanas: [{ campana: "verano", fuente: "instagram", vistas: 25, clicks_whatsapp: 4, ctr: 0.16 }]
+ *   }
+ * }
+ */
+router.get('/resumen', protect, analiticaController.obtenerResumen);
+
+module.exports = router;
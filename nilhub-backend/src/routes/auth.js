@@ -1,48 +1,70 @@
 // backend/src/routes/auth.js
 const express = require('express');
 const router = express.Router();
-const { body } = require('express-validator');
 const authController = require('../controllers/authController');
+const dosPasosController = require('../controllers/dosPasosController');
+const codigoAccesoController = require('../controllers/codigoAccesoController');
+const verificacionEmailController = require('../controllers/verificacionEmailController');
+const cuentaController = require('../controllers/cuentaController');
 const { protect } = require('../middleware/auth');
+const { validar } = require('../middleware/validar');
+const {
+  esquemaRegistro,
+  esquemaLogin,
+  esquemaLoginDosPasos,
+  esquemaCodigoDosPasos,
+  esquemaSolicitarCodigoAcceso,
+  esquemaLoginCodigo,
+  esquemaVerificarEmail,
+  esquemaEliminarCuenta
+} = require('nilhub-shared');
 
 /**
  * @route   POST /api/auth/registro
  * @desc    Registrar nuevo usuario y crear tienda
  * @access  Public
  */
-router.post('/registro', [
-  body('nombre')
-    .trim()
-    .notEmpty()
-    .withMessage('El nombre es obligatorio'),
-  body('email')
-    .isEmail()
-    .withMessage('Ingresa un email válido'),
-  body('password')
-    .isLength({ min: 6 })
-    .withMessage('La contraseña debe tener al menos 6 caracteres'),
-  body('nombreTienda')
-    .trim()
-    .notEmpty()
-    .withMessage('El nombre de la tienda es obligatorio'),
-  body('whatsapp')
-    .matches(/^[0-9]{8,15}$/)
-    .withMessage('Ingresa un número de WhatsApp válido (solo números, 8-15 dígitos)')
-], authController.registro);
+router.post('/registro', validar(esquemaRegistro), authController.registro);
 
 /**
  * @route   POST /api/auth/login
- * @desc    Iniciar sesión
+ * @desc    Iniciar sesión (o recibir el desafío de dos pasos)
  * @access  Public
  */
-router.post('/login', [
-  body('email')
-    .isEmail()
-    .withMessage('Ingresa un email válido'),
-  body('password')
-    .notEmpty()
-    .withMessage('La contraseña es obligatoria')
-], authController.login);
+router.post('/login', validar(esquemaLogin), authController.login);
+
+/**
+ * @route   POST /api/auth/login/dos-pasos
+ * @desc    Completar el login con el código de la app o de recuperación
+ * @access  Public
+ *
+ * @example
+ * POST /api/auth/login/dos-pasos
+ * Body: { desafio: "eyJ...", codigo: "123456" }
+ */
+router.post('/login/dos-pasos', validar(esquemaLoginDosPasos), dosPasosController.completarLogin);
+
+/**
+ * @route   POST /api/auth/login/codigo
+ * @desc    Pedir un código para ingresar sin contraseña (email o WhatsApp)
+ * @access  Public
+ *
+ * @example
+ * POST /api/auth/login/codigo
+ * Body: { email: "maria@example.com", metodo: "email" }
+ */
+router.post('/login/codigo', validar(esquemaSolicitarCodigoAcceso), codigoAccesoController.solicitarCodigo);
+
+/**
+ * @route   POST /api/auth/login/codigo/verificar
+ * @desc    Ingresar con el código (o desafío de dos pasos)
+ * @access  Public
+ *
+ * @example
+ * POST /api/auth/login/codigo/verificar
+ * Body: { email: "maria@example.com", code: "123456" }
+ */
+router.post('/login/codigo/verificar', validar(esquemaLoginCodigo), codigoAccesoController.ingresarConCodigo);
 
 /**
  * @route   GET /api/auth/me
@@ -51,4 +73,157 @@ router.post('/login', [
  */
 router.get('/me', protect, authController.obtenerUsuarioActual);
 
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Renovar el JWT de acceso (cookie de refresco)
+ * @access  Public
+ */
+router.post('/refresh', authController.refrescarSesion);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Cerrar sesión
+ * @access  Public
+ */
+router.post('/logout', authController.cerrarSesion);
+
+/**
+ * @route   GET /api/auth/sesiones
+ * @desc    Listar dispositivos con sesión iniciada
+ * @access  Private
+ *
+ * @example
+ * Response: {
+ *   success: true,
+ *   data: [{
+ *     _id, dispositivo: { navegador: "Chrome", sistema: "Android", movil: true },
+ *     ip, pais: "PE", ciudad: "Lima", ultimo_uso, createdAt, actual: true
+ *   }]
+ * }
+ */
+router.get('/sesiones', protect, authController.obtenerSesiones);
+
+/**
+ * @route   DELETE /api/auth/sesiones
+ * @desc    Cerrar sesión en todos los dispositivos (incluido este)
+ * @access  Private
+ */
+router.delete('/sesiones', protect, authController.cerrarTodasLasSesiones);
+
+/**
+ * @route   DELETE /api/auth/sesiones/:id
+ * @desc    Cerrar sesión en un dispositivo
+ * @access  Private
+ */
+router.delete('/sesiones/:id', protect, authController.cerrarSesionDeDispositivo);
+
+/**
+ * @route   GET /api/auth/accesos
+ * @desc    Historial de intentos de login (los últimos 50, el más reciente primero)
+ * @access  Private
+ *
+ * @example
+ * Response: {
+ *   success: true,
+ *   data: [{
+ *     fecha, exito: false, metodo: "contrasena", motivo: "Contraseña incorrecta",
+ *     ip, pais: "PE", ciudad: "Lima", dispositivo: { navegador, sistema, movil }
+ *   }]
+ * }
+ */
+router.get('/accesos', protect, authController.obtenerAccesos);
+
+// ===================================
+// VERIFICACIÓN DE EMAIL
+// ===================================
+
+/**
+ * @route   POST /api/auth/verificar-email
+ * @desc    Confirmar el email con el código enviado (publica la tienda)
+ * @access  Private
+ *
+ * @example
+ * POST /api/auth/verificar-email
+ * Body: { code: "123456" }
+ */
+router.post('/verificar-email', protect, validar(esquemaVerificarEmail), verificacionEmailController.verificarEmail);
+
+/**
+ * @route   POST /api/auth/verificar-email/reenviar
+ * @desc    Reenviar el código (una vez por minuto)
+ * @access  Private
+ */
+router.post('/verificar-email/reenviar', protect, verificacionEmailController.reenviarCodigo);
+
+// ===================================
+// VERIFICACIÓN EN DOS PASOS
+// ===================================
+
+/**
+ * @route   GET /api/auth/dos-pasos
+ * @desc    Estado de la verificación en dos pasos
+ * @access  Private
+ */
+router.get('/dos-pasos', protect, dosPasosController.obtenerEstado);
+
+/**
+ * @route   POST /api/auth/dos-pasos/configurar
+ * @desc    Generar secreto y QR para la app autenticadora
+ * @access  Private
+ *
+ * @example
+ * Response: { success: true, data: { secreto: "JBSW...", otpauth: "otpauth://totp/...", qr: "data:image/png;base64,..." } }
+ */
+router.post('/dos-pasos/configurar', protect, dosPasosController.configurar);
+
+/**
+ * @route   POST /api/auth/dos-pasos/activar
+ * @desc    Activar con el primer código (devuelve los códigos de recuperación)
+ * @access  Private
+ */
+router.post('/dos-pasos/activar', protect, validar(esquemaCodigoDosPasos), dosPasosController.activar);
+
+/**
+ * @route   POST /api/auth/dos-pasos/codigos
+ * @desc    Generar códigos de recuperación nuevos
+ * @access  Private
+ */
+router.post('/dos-pasos/codigos', protect, validar(esquemaCodigoDosPasos), dosPasosController.regenerarCodigos);
+
+/**
+ * @route   POST /api/auth/dos-pasos/desactivar
+ * @desc    Desactivar (no disponible para administradores)
+ * @access  Private
+ */
+router.post('/dos-pasos/desactivar', protect, validar(esquemaCodigoDosPasos), dosPasosController.desactivar);
+
+// ===================================
+// DATOS DE LA CUENTA
+// ===================================
+
+/**
+ * @route   GET /api/auth/cuenta/exportar
+ * @desc    Descargar mis datos: .zip con datos.json e imágenes
+ * @access  Private
+ */
+router.get('/cuenta/exportar', protect, cuentaController.exportarDatos);
+
+/**
+ * @route   POST /api/auth/cuenta/eliminacion
+ * @desc    Programar la eliminación de la cuenta (14 días para cancelarla)
+ * @access  Private
+ *
+ * @example
+ * POST /api/auth/cuenta/eliminacion
+ * Body: { password: "micontraseña" }
+ */
+router.post('/cuenta/eliminacion', protect, validar(esquemaEliminarCuenta), cuentaController.solicitarEliminacion);
+
+/**
+ * @route   DELETE /api/auth/cuenta/eliminacion
+ * @desc    Cancelar la eliminación programada
+ * @access  Private
+ */
+router.delete('/cuenta/eliminacion', protect, cuentaController.cancelarEliminacion);
+
 module.exports = router;
\ No newline at end of file
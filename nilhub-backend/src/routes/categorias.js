@@ -0,0 +1,109 @@
+// backend/src/routes/categorias.js
+/**
+ * @fileoverview Rutas de Categorías - API REST
+ *
+ * Endpoints para las categorías propias de cada tienda:
+ * - Listar categorías de mi tienda (con conteo de productos)
+ * - Crear, editar, reordenar y eliminar categorías
+ * - Listar categorías de una tienda pública
+ *
+ * @module CategoriasRoutes
+ */
+
+const express = require('express');
+const router = express.Router();
+const categoriasController = require('../controllers/categoriasController');
+const { validar } = require('../middleware/validar');
+const {
+  esquemaCrearCategoria,
+  esquemaActualizarCategoria,
+  esquemaReordenarCategorias
+} = require('../validators/categorias');
+const { protect } = require('../middleware/auth');
+
+// ===================================
+// RUTAS PRIVADAS (requieren JWT)
+// ===================================
+
+/**
+ * @route   GET /api/categorias/mis-categorias
+ * @desc    Obtener categorías de la tienda del usuario autenticado
+ * @access  Private (requiere JWT)
+ *
+ * @example
+ * GET /api/categorias/mis-categorias
+ * Headers: { Authorization: "Bearer <token>" }
+ *
+ * Response: {
+ *   success: true,
+ *   data: [{ _id, nombre, slug, icono, orden, padre_id, total_productos }]
+ * }
+ */
+router.get('/mis-categorias', protect, categoriasController.obtenerMisCategorias);
+
+/**
+ * @route   POST /api/categorias
+ * @desc    Crear categoría
+ * @access  Private (requiere JWT)
+ *
+ * @body {string} nombre - Nombre visible
+ * @body {string} [icono] - Ícono (ver ICONOS_CATEGORIA)
+ * @body {string} [padre_id] - Categoría padre (un solo nivel)
+ *
+ * @example
+ * POST /api/categorias
+ * Body: { nombre: "Labiales", icono: "sparkles", padre_id: "65a1..." }
+ */
+router.post('/', protect, validar(esquemaCrearCategoria), categoriasController.crearCategoria);
+
+/**
+ * @route   PATCH /api/categorias/orden
+ * @desc    Reordenar categorías
+ * @access  Private (requiere JWT)
+ *
+ * @body {Array<string>} ids - IDs en el orden deseado
+ *
+ * @example
+ * PATCH /api/categorias/orden
+ * Body: { ids: ["65a1...", "65a2...", "65a3..."] }
+ */
+router.patch('/orden', protect, validar(esquemaReordenarCategorias), categoriasController.reordenarCategorias);
+
+/**
+ * @route   PUT /api/categorias/:id
+ * @desc    Actualizar categoría
+ * @access  Private (requiere JWT)
+ *
+ * @note Si cambia el nombre cambia el slug y se actualizan sus productos.
+ */
+router.put('/:id', protect, validar(esquemaActualizarCategoria), categoriasController.actualizarCategoria);
+
+/**
+ * @route   DELETE /api/categorias/:id
+ * @desc    Eliminar categoría
+ * @access  Private (requiere JWT)
+ *
+ * @note Solo se puede eliminar si no tiene productos ni subcategorías.
+ */
+router.delete('/:id', protect, categoriasController.eliminarCategoria);
+
+// ===================================
+// RUTAS PÚBLICAS (sin JWT)
+// ===================================
+
+/**
+ * @route   GET /api/categorias/tienda/:slug
+ * @desc    Obtener categorías de una tienda (catálogo)
+ * @access  Public
+ *
+ * @example
+ * GET /api/categorias/tienda/cosmeticos-mary
+ *
+ * Response: {
+ *   success: true,
+ *   data: [{ _id, nombre, slug, icono, orden, padre_id }]
+ * }
+ */
+router.get('/tienda/:slug', categoriasController.obtenerCategoriasDeTienda);
+
+module.exports = router;
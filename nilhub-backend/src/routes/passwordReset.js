@@ -1,8 +1,13 @@
 // backend/src/routes/passwordReset.js
 const express = require('express');
 const router = express.Router();
-const { body } = require('express-validator');
 const passwordResetController = require('../controllers/passwordResetController');
+const { validar } = require('../middleware/validar');
+const {
+  esquemaSolicitarRecuperacion,
+  esquemaVerificarCodigo,
+  esquemaResetPassword
+} = require('nilhub-shared');
 
 /**
  * @route   POST /api/auth/forgot-password
@@ -11,14 +16,7 @@ const passwordResetController = require('../controllers/passwordResetController'
  */
 router.post(
   '/forgot-password',
-  [
-    body('email')
-      .isEmail()
-      .withMessage('Email inválido'),
-    body('metodo')
-      .isIn(['email', 'whatsapp'])
-      .withMessage('Método debe ser "email" o "whatsapp"')
-  ],
+  validar(esquemaSolicitarRecuperacion),
   passwordResetController.solicitarRecuperacion
 );
 
@@ -29,15 +27,7 @@ router.post(
  */
 router.post(
   '/verify-reset-code',
-  [
-    body('email')
-      .isEmail()
-      .withMessage('Email inválido'),
-    body('code')
-      .isLength({ min: 6, max: 6 })
-      .isNumeric()
-      .withMessage('Código debe tener 6 dígitos')
-  ],
+  validar(esquemaVerificarCodigo),
   passwordResetController.verificarCodigo
 );
 
@@ -48,18 +38,7 @@ router.post(
  */
 router.post(
   '/reset-password',
-  [
-    body('email')
-      .isEmail()
-      .withMessage('Email inválido'),
-    body('code')
-      .isLength({ min: 6, max: 6 })
-      .isNumeric()
-      .withMessage('Código debe tener 6 dígitos'),
-    body('nuevaPassword')
-      .isLength({ min: 6 })
-      .withMessage('La contraseña debe tener al menos 6 caracteres')
-  ],
+  validar(esquemaResetPassword),
   passwordResetController.resetPassword
 );
 
@@ -0,0 +1,99 @@
+// backend/src/routes/pedidos.js
+/**
+ * @fileoverview Rutas de Pedidos - API REST
+ *
+ * Endpoints para pedidos generados desde el carrito:
+ * - Crear pedido desde el catálogo público
+ * - Listar y ver pedidos de mi tienda
+ * - Cambiar estado (confirmar descuenta stock)
+ *
+ * @module PedidosRoutes
+ */
+
+const express = require('express');
+const router = express.Router();
+const pedidosController = require('../controllers/pedidosController');
+const { protect } = require('../middleware/auth');
+const { validar } = require('../middleware/validar');
+const { esquemaCrearPedido, esquemaCambiarEstadoPedido } = require('../validators/pedidos');
+
+// ===================================
+// RUTAS PRIVADAS (requieren JWT)
+// ===================================
+
+/**
+ * @route   GET /api/pedidos/mis-pedidos
+ * @desc    Obtener pedidos de la tienda del usuario autenticado
+ * @access  Private (requiere JWT)
+ *
+ * @query {string} [estado] - pendiente, confirmado, entregado, cancelado
+ *
+ * @example
+ * GET /api/pedidos/mis-pedidos?estado=pendiente
+ * Headers: { Authorization: "Bearer <token>" }
+ *
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     pedidos: [{ _id, codigo, cliente_nombre, items, total, estado, ... }],
+ *     resumen: { pendiente: 3, confirmado: 1, entregado: 10, cancelado: 0 }
+ *   }
+ * }
+ */
+router.get('/mis-pedidos', protect, pedidosController.obtenerMisPedidos);
+
+/**
+ * @route   GET /api/pedidos/:id
+ * @desc    Obtener un pedido de mi tienda
+ * @access  Private (requiere JWT)
+ */
+router.get('/:id', protect, pedidosController.obtenerPedidoPorId);
+
+/**
+ * @route   PATCH /api/pedidos/:id/estado
+ * @desc    Cambiar estado del pedido
+ * @access  Private (requiere JWT)
+ *
+ * @body {string} estado - Nuevo estado
+ *
+ * @example
+ * PATCH /api/pedidos/507f1f77bcf86cd799439011/estado
+ * Headers: { Authorization: "Bearer <token>" }
+ * Body: { estado: "confirmado" }
+ *
+ * @note Confirmar descuenta el stock de cada producto.
+ *       Cancelar un pedido confirmado devuelve el stock.
+ */
+router.patch('/:id/estado', protect, validar(esquemaCambiarEstadoPedido), pedidosController.cambiarEstadoPedido);
+
+// ===================================
+// RUTAS PÚBLICAS (sin JWT)
+// ===================================
+
+/**
+ * @route   POST /api/pedidos
+ * @desc    Crear pedido desde el carrito del catálogo
+ * @access  Public
+ *
+ * @body {string} tienda_slug - Slug de la tienda
+ * @body {string} cliente_nombre - Nombre del comprador
+ * @body {string} cliente_telefono - Teléfono del comprador
+ * @body {Array} items - [{ producto_id, variante_id?, cantidad }]
+ *
+ * @example
+ * POST /api/pedidos
+ * Body: {
+ *   tienda_slug: "cosmeticos-mary",
+ *   cliente_nombre: "Ana",
+ *   cliente_telefono: "51987654321",
+ *   items: [{ producto_id: "507f...", variante_id: "65a1...", cantidad: 2 }]
+ * }
+ *
+ * Response: {
+ *   success: true,
+ *   data: { codigo: "NH-7K3Q9", total: 40, estado: "pendiente", ... }
+ * }
+ */
+router.post('/', validar(esquemaCrearPedido), pedidosController.crearPedido);
+
+module.exports = router;
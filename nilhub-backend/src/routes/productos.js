@@ -6,16 +6,31 @@
  * - Crear, actualizar, eliminar productos
  * - Obtener productos propios y por ID
  * - Actualizar stock manual
- * - Registrar clicks en WhatsApp (analytics)
+ * - Importar/exportar productos en CSV o XLSX
+ * - Registrar vistas y clicks en WhatsApp (analytics, sin bots ni repetidos)
  * 
  * @module ProductosRoutes
  */
 
 const express = require('express');
 const router = express.Router();
-const { body } = require('express-validator');
+const multer = require('multer');
 const productosController = require('../controllers/productosController');
-const { protect } = require('../middleware/auth');
+const { protect, autenticacionOpcional } = require('../middleware/auth');
+const {
+  esquemaCrearProducto,
+  esquemaActualizarProducto,
+  esquemaActualizarStock
+} = require('nilhub-shared');
+const { validar } = require('../middleware/validar');
+
+// Archivo de importación en memoria (buffer)
+const importacion = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024 // 2MB máximo
+  }
+});
 
 // ===================================
 // RUTAS PRIVADAS (requieren JWT)
@@ -39,13 +54,57 @@ const { protect } = require('../middleware/auth');
  */
 router.get('/mis-productos', protect, productosController.obtenerMisProductos);
 
+/**
+ * @route   GET /api/productos/exportar
+ * @desc    Descargar todos los productos del usuario en CSV o XLSX
+ * @access  Private (requiere JWT)
+ * 
+ * @query {string} [formato=csv] - 'csv' o 'xlsx'
+ * 
+ * @returns {File} Archivo con las mismas columnas que acepta /importar
+ * 
+ * @example
+ * GET /api/productos/exportar?formato=xlsx
+ * Headers: { Authorization: "Bearer <token>" }
+ */
+router.get('/exportar', protect, productosController.exportarProductos);
+
+/**
+ * @route   POST /api/productos/importar
+ * @desc    Importar productos desde CSV o XLSX (crea nuevos, actualiza existentes)
+ * @access  Private (requiere JWT)
+ * 
+ * @body {File} archivo - .csv o .xlsx, primera fila con encabezados (máx 500 productos)
+ * @body {string} [mapeo] - JSON { campo: encabezado }. Sin mapeo se sugiere uno y se simula
+ * @body {string} [clave=sku] - Reconocer productos existentes por 'sku' o 'nombre'
+ * @body {string} [simular=true] - 'false' para guardar (si no, solo valida)
+ * 
+ * @returns {Object} Resultado por fila: crear, actualizar o error (con mensajes)
+ * 
+ * @example
+ * POST /api/productos/importar (multipart/form-data)
+ * Headers: { Authorization: "Bearer <token>" }
+ * Body: archivo=productos.csv, mapeo={"nombre":"Producto","precio":"Precio"}, simular=false
+ * 
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     columnas: ["Producto", "Precio"],
+ *     filas: [{ fila: 2, accion: "crear", nombre: "Labial", errores: [] }],
+ *     resumen: { total: 1, crear: 1, actualizar: 0, errores: 0 },
+ *     ...
+ *   }
+ * }
+ */
+router.post('/importar', protect, importacion.single('archivo'), productosController.importarProductos);
+
 /**
  * @route   POST /api/productos
  * @desc    Crear nuevo producto
  * @access  Private (requiere JWT)
  * 
  * @body {string} nombre - Nombre del producto (obligatorio)
- * @body {string} categoria - Categoría del producto (obligatorio)
+ * @body {string} categoria - Slug de una categoría de la tienda (obligatorio)
  * @body {number} precio - Precio del producto (obligatorio, >= 0)
  * @body {number} stock - Cantidad en stock (obligatorio, >= 0)
  * @body {boolean} hay_stock - Disponibilidad (obligatorio)
@@ -55,6 +114,8 @@ router.get('/mis-productos', protect, productosController.obtenerMisProductos);
  * @body {number} [precio_oferta] - Precio en oferta (opcional)
  * @body {string} [ingredientes] - Ingredientes del producto (opcional)
  * @body {string} [peso] - Peso o tamaño (opcional)
+ * @body {Array} [variantes] - [{ nombre, color?, talla?, sku?, precio?, stock, imagen? }]
+ *                             Si hay variantes, el stock es la suma de sus stocks
  * 
  * @example
  * POST /api/productos
@@ -70,31 +131,7 @@ router.get('/mis-productos', protect, productosController.obtenerMisProductos);
  *   ]
  * }
  */
-router.post('/', protect, [
-  body('nombre')
-    .trim()
-    .notEmpty()
-    .withMessage('El nombre es obligatorio'),
-  body('categoria')
-    .isIn(['maquillaje', 'skincare', 'fragancias', 'cuidado-personal', 'accesorios', 'otros'])
-    .withMessage('Categoría inválida'),
-  body('precio')
-    .isFloat({ min: 0 })
-    .withMessage('El precio debe ser mayor o igual a 0')
-    .toFloat(), // ✅ AGREGADO: Convertir a número
-  // ✅ AGREGADO: Validación para precio_oferta
-  body('precio_oferta')
-    .optional({ checkFalsy: true })
-    .isFloat({ min: 0 })
-    .withMessage('El precio de oferta debe ser un número mayor o igual a 0')
-    .toFloat(), // Convertir a número
-  body('stock')
-    .isInt({ min: 0 })
-    .withMessage('El stock debe ser mayor o igual a 0'),
-  body('imagenes')
-    .isArray({ min: 1, max: 5 })
-    .withMessage('Debe incluir entre 1 y 5 imágenes')
-], productosController.crearProducto);
+router.post('/', protect, validar(esquemaCrearProducto), productosController.crearProducto);
 
 /**
  * @route   PUT /api/productos/:id
@@ -114,6 +151,7 @@ router.post('/', protect, [
  * @body {Array} [imagenes] - Array de objetos con url y cloudinary_id (max: 5)
  * @body {string} [ingredientes] - Ingredientes del producto
  * @body {string} [peso] - Peso o tamaño
+ * @body {Array} [variantes] - Variantes con stock y precio propios (reemplaza las actuales)
  * @body {boolean} [activo] - Si el producto está activo
  * 
  * @returns {Object} Producto actualizado
@@ -131,36 +169,7 @@ router.post('/', protect, [
  *   ]
  * }
  */
-router.put('/:id', protect, [
-  body('nombre')
-    .optional()
-    .trim()
-    .notEmpty()
-    .withMessage('El nombre no puede estar vacío'),
-  body('categoria')
-    .optional()
-    .isIn(['maquillaje', 'skincare', 'fragancias', 'cuidado-personal', 'accesorios', 'otros'])
-    .withMessage('Categoría inválida'),
-  body('precio')
-    .optional()
-    .isFloat({ min: 0 })
-    .withMessage('El precio debe ser mayor o igual a 0')
-    .toFloat(), // ✅ AGREGADO: Convertir a número
-  // ✅ AGREGADO: Validación para precio_oferta
-  body('precio_oferta')
-    .optional({ checkFalsy: true })
-    .isFloat({ min: 0 })
-    .withMessage('El precio de oferta debe ser un número mayor o igual a 0')
-    .toFloat(), // Convertir a número
-  body('stock')
-    .optional()
-    .isInt({ min: 0 })
-    .withMessage('El stock debe ser mayor o igual a 0'),
-  body('imagenes')
-    .optional()
-    .isArray({ min: 1, max: 5 })
-    .withMessage('Debe incluir entre 1 y 5 imágenes')
-], productosController.actualizarProducto);
+router.put('/:id', protect, validar(esquemaActualizarProducto), productosController.actualizarProducto);
 
 /**
  * @route   PATCH /api/productos/:id/stock
@@ -172,6 +181,8 @@ router.put('/:id', protect, [
  * @body {number} stock - Nueva cantidad en stock (>= 0)
  * @body {boolean} [hay_stock] - Disponibilidad (opcional)
  * 
+ * @note Los productos con variantes se editan variante por variante (PUT)
+ * 
  * @returns {Object} Mensaje de éxito con nuevo stock
  * 
  * @example
@@ -189,11 +200,7 @@ router.put('/:id', protect, [
  *   hay_stock: true
  * }
  */
-router.patch('/:id/stock', protect, [
-  body('stock')
-    .isInt({ min: 0 })
-    .withMessage('El stock debe ser mayor o igual a 0')
-], productosController.actualizarStock);
+router.patch('/:id/stock', protect, validar(esquemaActualizarStock), productosController.actualizarStock);
 
 /**
  * @route   DELETE /api/productos/:id
@@ -244,26 +251,51 @@ router.delete('/:id', protect, productosController.eliminarProducto);
  */
 router.get('/:id', productosController.obtenerProductoPorId);
 
+/**
+ * @route   POST /api/productos/:id/vista
+ * @desc    Registrar vista del producto (analytics)
+ * @access  Public (token opcional)
+ *
+ * @param {string} id - ID del producto
+ * @body {string} [visitante] - ID del visitante guardado en el navegador
+ * @body {string} [referrer] - Página externa de origen
+ * @body {string} [utm_source, utm_medium, utm_campaign] - Parámetros del enlace de llegada
+ *
+ * @example
+ * POST /api/productos/507f1f77bcf86cd799439011/vista
+ * Body: { visitante: "3f2b...", utm_source: "instagram" }
+ *
+ * Response: {
+ *   success: true,
+ *   data: { contada: true }
+ * }
+ *
+ * @note No cuenta bots (por user agent), al dueño de la tienda (si envía
+ *       su token) ni más de una vista por visitante y producto cada 30 minutos.
+ */
+router.post('/:id/vista', autenticacionOpcional, productosController.registrarVista);
+
 /**
  * @route   POST /api/productos/:id/click-whatsapp
  * @desc    Registrar click en botón de WhatsApp (analytics)
- * @access  Public
+ * @access  Public (token opcional)
  * 
  * @param {string} id - ID del producto
- * 
- * @returns {Object} Mensaje de confirmación
+ * @body {string} [visitante] - ID del visitante guardado en el navegador
+ * @body {string} [referrer] - Página externa de origen
+ * @body {string} [utm_source, utm_medium, utm_campaign] - Parámetros del enlace de llegada
  * 
  * @example
  * POST /api/productos/507f1f77bcf86cd799439011/click-whatsapp
  * 
  * Response: {
  *   success: true,
- *   mensaje: "Click registrado"
+ *   data: { contada: true }
  * }
  * 
- * @note Este endpoint es público para facilitar el tracking.
- *       Se incrementa el contador `clicks_whatsapp` del producto.
+ * @note Mismos filtros que /vista. Si cuenta, incrementa `clicks_whatsapp`
+ *       del producto con $inc y registra el evento para la analítica.
  */
-router.post('/:id/click-whatsapp', productosController.registrarClickWhatsApp);
+router.post('/:id/click-whatsapp', autenticacionOpcional, productosController.registrarClickWhatsApp);
 
 module.exports = router;
\ No newline at end of file
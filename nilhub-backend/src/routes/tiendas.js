@@ -3,6 +3,9 @@ const express = require('express');
 const router = express.Router();
 const tiendasController = require('../controllers/tiendasController');
 const { protect } = require('../middleware/auth');
+const { validar } = require('../middleware/validar');
+const { esquemaCrearTienda, esquemaActualizarTienda } = require('nilhub-shared');
+const webhookService = require('../services/webhookService');
 
 /**
  * ⚠️ ORDEN IMPORTANTE: Rutas específicas ANTES de rutas con parámetros
@@ -20,14 +23,21 @@ router.get('/mi-tienda', protect, tiendasController.obtenerMiTienda);
  * @desc    Actualizar tienda del usuario autenticado
  * @access  Private
  */
-router.put('/mi-tienda', protect, tiendasController.actualizarTienda);
+router.put('/mi-tienda', protect, validar(esquemaActualizarTienda), tiendasController.actualizarTienda);
+
+/**
+ * @route   GET /api/tiendas/sitemap
+ * @desc    Slugs e IDs para sitemap.xml (tiendas y productos activos)
+ * @access  Public
+ */
+router.get('/sitemap', tiendasController.obtenerMapaDelSitio);
 
 /**
  * @route   POST /api/tiendas
  * @desc    Crear nueva tienda
  * @access  Private
  */
-router.post('/', protect, tiendasController.crearTienda);
+router.post('/', protect, validar(esquemaCrearTienda), tiendasController.crearTienda);
 
 /**
  * ⭐ NUEVA RUTA - Actualizar tienda por ID
@@ -35,7 +45,7 @@ router.post('/', protect, tiendasController.crearTienda);
  * @desc    Actualizar tienda por ID (verifica que sea del usuario)
  * @access  Private
  */
-router.put('/:id', protect, async (req, res) => {
+router.put('/:id', protect, validar(esquemaActualizarTienda), async (req, res) => {
   try {
     const Tienda = require('../models/Tienda');
     const { id } = req.params;
@@ -58,37 +68,18 @@ router.put('/:id', protect, async (req, res) => {
       });
     }
 
-    // Campos permitidos
-    const camposPermitidos = [
-      'nombre',
-      'descripcion',
-      'whatsapp',
-      'instagram',
-      'facebook',
-      'logo_url',
-      'logo_cloudinary_id',
-      'banner_url',
-      'banner_cloudinary_id',
-      'color_tema'
-    ];
-
-    // Filtrar campos
-    const updates = {};
-    Object.keys(req.body).forEach(key => {
-      if (camposPermitidos.includes(key)) {
-        updates[key] = req.body[key];
-      }
-    });
-
-    // Actualizar
+    // Actualizar (el esquema ya dejó solo los campos editables)
     const tiendaActualizada = await Tienda.findByIdAndUpdate(
       id,
-      updates,
+      req.body,
       { new: true, runValidators: true }
     );
 
     console.log(`✅ Tienda actualizada: ${tiendaActualizada.nombre} (ID: ${id})`);
 
+    webhookService.emitir(tiendaActualizada._id, 'tienda.actualizada', tiendaActualizada.toJSON())
+      .catch(err => console.error('❌ Error al emitir webhook:', err));
+
     res.json({
       success: true,
       data: tiendaActualizada
@@ -110,9 +101,23 @@ router.put('/:id', protect, async (req, res) => {
  */
 router.get('/:slug', tiendasController.obtenerTiendaPorSlug);
 
+/**
+ * @route   GET /api/tiendas/:slug/sugerencias
+ * @desc    Autocompletar del buscador: productos, marcas y categorías (pública)
+ * @access  Public
+ */
+router.get('/:slug/sugerencias', tiendasController.obtenerSugerencias);
+
+/**
+ * @route   POST /api/tiendas/:slug/eventos
+ * @desc    Registrar búsqueda o compartir en la analítica (pública)
+ * @access  Public
+ */
+router.post('/:slug/eventos', tiendasController.registrarEvento);
+
 /**
  * @route   GET /api/tiendas/:slug/productos
- * @desc    Obtener productos de una tienda (pública)
+ * @desc    Obtener productos de una tienda (pública, paginada con cursor, orden y facetas)
  * @access  Public
  */
 router.get('/:slug/productos', tiendasController.obtenerProductosDeTienda);
@@ -0,0 +1,64 @@
+// backend/src/routes/tokens.js
+/**
+ * @fileoverview Rutas de Tokens de API - API REST
+ *
+ * Los vendedores crean tokens con permisos para usar /api/v1 desde
+ * otros sistemas (caja, inventario, scripts). Estas rutas solo aceptan
+ * la sesión (JWT): un token de API no puede crear ni revocar tokens.
+ *
+ * @module TokensRoutes
+ */
+
+const express = require('express');
+const router = express.Router();
+const tokensController = require('../controllers/tokensController');
+const { protect } = require('../middleware/auth');
+
+// ===================================
+// RUTAS PRIVADAS (requieren JWT)
+// ===================================
+
+/**
+ * @route   GET /api/tokens
+ * @desc    Listar mis tokens vigentes y los permisos disponibles
+ * @access  Private (requiere JWT)
+ *
+ * @example
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     tokens: [{ _id, nombre, prefijo: "nhk_3f9a2c", permisos, limite_por_minuto, ultimo_uso }],
+ *     permisos: ["catalogo:leer", "productos:escribir", "stock:escribir"]
+ *   }
+ * }
+ */
+router.get('/', protect, tokensController.obtenerTokens);
+
+/**
+ * @route   POST /api/tokens
+ * @desc    Crear token (se muestra una sola vez)
+ * @access  Private (requiere JWT)
+ *
+ * @example
+ * POST /api/tokens
+ * Body: { nombre: "Caja", permisos: ["catalogo:leer", "stock:escribir"], limite_por_minuto: 120 }
+ *
+ * Response: { success: true, data: { _id, nombre, prefijo, permisos, token: "nhk_..." } }
+ */
+router.post('/', protect, tokensController.crearToken);
+
+/**
+ * @route   PUT /api/tokens/:id
+ * @desc    Cambiar nombre, permisos o límite
+ * @access  Private (requiere JWT)
+ */
+router.put('/:id', protect, tokensController.actualizarToken);
+
+/**
+ * @route   DELETE /api/tokens/:id
+ * @desc    Revocar token
+ * @access  Private (requiere JWT)
+ */
+router.delete('/:id', protect, tokensController.revocarToken);
+
+module.exports = router;
@@ -4,6 +4,8 @@ const router = express.Router();
 const multer = require('multer');
 const uploadController = require('../controllers/uploadController');
 const { protect } = require('../middleware/auth');
+const { validar } = require('../middleware/validar');
+const { esquemaSubirImagen } = require('nilhub-shared');
 
 // Configurar multer para memoria (buffer)
 const storage = multer.memoryStorage();
@@ -26,15 +28,19 @@ const upload = multer({
  * @route   POST /api/upload/imagen
  * @desc    Subir una sola imagen
  * @access  Private
+ *
+ * @query {string} [folder=nilhub/productos] - Carpeta dentro de nilhub/
  */
-router.post('/imagen', protect, upload.single('imagen'), uploadController.subirImagen);
+router.post('/imagen', protect, validar(esquemaSubirImagen, 'query'), upload.single('imagen'), uploadController.subirImagen);
 
 /**
  * @route   POST /api/upload/imagenes
  * @desc    Subir múltiples imágenes (máx 5)
  * @access  Private
+ *
+ * @query {string} [folder=nilhub/productos] - Carpeta dentro de nilhub/
  */
-router.post('/imagenes', protect, upload.array('imagenes', 5), uploadController.subirImagenes);
+router.post('/imagenes', protect, validar(esquemaSubirImagen, 'query'), upload.array('imagenes', 5), uploadController.subirImagenes);
 
 /**
  * @route   DELETE /api/upload/:cloudinary_id
@@ -0,0 +1,123 @@
+// backend/src/routes/v1.js
+/**
+ * @fileoverview Rutas de la API pública v1 - API REST estable
+ *
+ * Superficie para integraciones (caja, inventario, scripts) autenticadas con
+ * tokens de API (nhk_...) o con el JWT de una sesión. Cada ruta declara el
+ * permiso que debe tener el token (permitirToken).
+ *
+ * Contrato: src/docs/openapiV1.js, servido en GET /api/v1/openapi.json.
+ * Las respuestas mantienen el formato { success, data } del resto de la API.
+ *
+ * @module V1Routes
+ */
+
+const express = require('express');
+const router = express.Router();
+const v1Controller = require('../controllers/v1Controller');
+const productosController = require('../controllers/productosController');
+const { protect, permitirToken } = require('../middleware/auth');
+const {
+  esquemaCrearProducto,
+  esquemaActualizarProducto,
+  esquemaActualizarStock
+} = require('nilhub-shared');
+const { validar } = require('../middleware/validar');
+const openapiV1 = require('../docs/openapiV1');
+
+// ===================================
+// DOCUMENTACIÓN (pública)
+// ===================================
+
+/**
+ * @route   GET /api/v1/openapi.json
+ * @desc    Especificación OpenAPI 3 de /api/v1
+ * @access  Public
+ */
+router.get('/openapi.json', (req, res) => {
+  res.json(openapiV1);
+});
+
+// ===================================
+// PRODUCTOS
+// ===================================
+
+/**
+ * @route   GET /api/v1/productos
+ * @desc    Listar productos de la tienda (paginado por cursor)
+ * @access  Private (catalogo:leer)
+ *
+ * @example
+ * GET /api/v1/productos?limite=100&actualizado_desde=2025-01-01T00:00:00Z
+ * Headers: { Authorization: "Bearer nhk_..." }
+ *
+ * Response: { success: true, data: { productos: [...], siguiente: "65a1..." } }
+ */
+router.get('/productos', permitirToken('catalogo:leer'), protect, v1Controller.listarProductos);
+
+/**
+ * @route   GET /api/v1/productos/:id
+ * @desc    Obtener producto de la tienda
+ * @access  Private (catalogo:leer)
+ */
+router.get('/productos/:id', permitirToken('catalogo:leer'), protect, v1Controller.obtenerProducto);
+
+/**
+ * @route   POST /api/v1/productos
+ * @desc    Crear producto (mismo body que POST /api/productos)
+ * @access  Private (productos:escribir)
+ */
+router.post('/productos', permitirToken('productos:escribir'), protect, validar(esquemaCrearProducto), productosController.crearProducto);
+
+/**
+ * @route   PUT /api/v1/productos/:id
+ * @desc    Actualizar producto (mismo body que PUT /api/productos/:id)
+ * @access  Private (productos:escribir)
+ */
+router.put('/productos/:id', permitirToken('productos:escribir'), protect, validar(esquemaActualizarProducto), productosController.actualizarProducto);
+
+/**
+ * @route   DELETE /api/v1/productos/:id
+ * @desc    Eliminar producto
+ * @access  Private (productos:escribir)
+ */
+router.delete('/productos/:id', permitirToken('productos:escribir'), protect, productosController.eliminarProducto);
+
+// ===================================
+// STOCK
+// ===================================
+
+/**
+ * @route   PATCH /api/v1/stock
+ * @desc    Cambiar stock de hasta 100 productos o variantes por SKU
+ * @access  Private (stock:escribir)
+ *
+ * @example
+ * PATCH /api/v1/stock
+ * Headers: { Authorization: "Bearer nhk_..." }
+ * Body: { items: [{ sku: "LAB-001", stock: 12 }] }
+ *
+ * Response: { success: true, data: { actualizados: 1, resultados: [{ sku: "LAB-001", ok: true, stock: 12 }] } }
+ */
+router.patch('/stock', permitirToken('stock:escribir'), protect, v1Controller.actualizarStockPorSku);
+
+/**
+ * @route   PATCH /api/v1/productos/:id/stock
+ * @desc    Cambiar stock de un producto sin variantes
+ * @access  Private (stock:escribir)
+ */
+router.patch('/productos/:id/stock', permitirToken('stock:escribir'), protect, validar(esquemaActualizarStock), productosController.actualizarStock);
+
+/**
+ * @route   PATCH /api/v1/productos/:id/variantes/:varianteId/stock
+ * @desc    Cambiar stock de una variante
+ * @access  Private (stock:escribir)
+ */
+router.patch(
+  '/productos/:id/variantes/:varianteId/stock',
+  permitirToken('stock:escribir'),
+  protect,
+  v1Controller.actualizarStockVariante
+);
+
+module.exports = router;
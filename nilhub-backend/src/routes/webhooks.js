@@ -0,0 +1,91 @@
+// backend/src/routes/webhooks.js
+/**
+ * @fileoverview Rutas de Webhooks - API REST
+ *
+ * Endpoints para que el vendedor conecte su tienda con otros sistemas:
+ * - Registrar, editar, pausar y eliminar webhooks
+ * - Regenerar el secreto de firma
+ * - Enviar un evento de prueba
+ * - Ver el registro de entregas con sus códigos de respuesta
+ *
+ * El envío de eventos, la firma y los reintentos están en webhookService.
+ *
+ * @module WebhooksRoutes
+ */
+
+const express = require('express');
+const router = express.Router();
+const webhooksController = require('../controllers/webhooksController');
+const { protect } = require('../middleware/auth');
+
+// ===================================
+// RUTAS PRIVADAS (requieren JWT)
+// ===================================
+
+/**
+ * @route   GET /api/webhooks
+ * @desc    Listar webhooks de mi tienda y eventos disponibles
+ * @access  Private (requiere JWT)
+ *
+ * @example
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     webhooks: [{ _id, url, eventos, secreto, descripcion, activo, ultima_entrega: { estado, fecha } }],
+ *     eventos: ["producto.creado", "producto.actualizado", ...]
+ *   }
+ * }
+ */
+router.get('/', protect, webhooksController.obtenerWebhooks);
+
+/**
+ * @route   POST /api/webhooks
+ * @desc    Registrar webhook (máximo 5 por tienda)
+ * @access  Private (requiere JWT)
+ *
+ * @example
+ * POST /api/webhooks
+ * Body: {
+ *   url: "https://hooks.ejemplo.com/nilhub",
+ *   eventos: ["producto.stock", "whatsapp.click"],
+ *   descripcion: "Hoja de inventario"
+ * }
+ */
+router.post('/', protect, webhooksController.crearWebhook);
+
+/**
+ * @route   PUT /api/webhooks/:id
+ * @desc    Editar o pausar webhook
+ * @access  Private (requiere JWT)
+ */
+router.put('/:id', protect, webhooksController.actualizarWebhook);
+
+/**
+ * @route   DELETE /api/webhooks/:id
+ * @desc    Eliminar webhook
+ * @access  Private (requiere JWT)
+ */
+router.delete('/:id', protect, webhooksController.eliminarWebhook);
+
+/**
+ * @route   POST /api/webhooks/:id/secreto
+ * @desc    Regenerar secreto de firma
+ * @access  Private (requiere JWT)
+ */
+router.post('/:id/secreto', protect, webhooksController.regenerarSecreto);
+
+/**
+ * @route   POST /api/webhooks/:id/prueba
+ * @desc    Enviar evento de prueba (webhook.prueba) y ver la respuesta
+ * @access  Private (requiere JWT)
+ */
+router.post('/:id/prueba', protect, webhooksController.enviarPrueba);
+
+/**
+ * @route   GET /api/webhooks/:id/entregas
+ * @desc    Registro de entregas con intentos y códigos de respuesta
+ * @access  Private (requiere JWT)
+ */
+router.get('/:id/entregas', protect, webhooksController.obtenerEntregas);
+
+module.exports = router;
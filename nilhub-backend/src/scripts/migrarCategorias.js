@@ -0,0 +1,107 @@
+// backend/src/scripts/migrarCategorias.js
+/**
+ * @fileoverview Migración a categorías por tienda
+ *
+ * Antes las categorías eran un enum fijo en Producto. Este script:
+ * 1. Crea las categorías por defecto en cada tienda
+ * 2. Crea una categoría para cada valor de Producto.categoria que no exista
+ * 3. Asigna 'otros' a los productos sin categoría
+ *
+ * Se puede ejecutar varias veces sin duplicar nada.
+ *
+ * @example
+ * npm run migrar:categorias
+ */
+
+const dotenv = require('dotenv');
+const mongoose = require('mongoose');
+
+dotenv.config();
+
+const connectDB = require('../config/db');
+const Tienda = require('../models/Tienda');
+const Producto = require('../models/Producto');
+const Categoria = require('../models/Categoria');
+
+/**
+ * Convierte un slug en nombre visible ('cuidado-personal' → 'Cuidado personal')
+ * @param {string} slug - Slug de la categoría
+ * @returns {string} Nombre
+ * @private
+ */
+const nombreDesdeSlug = (slug) => {
+  const nombre = slug.replace(/-/g, ' ').trim();
+  return nombre.charAt(0).toUpperCase() + nombre.slice(1);
+};
+
+/**
+ * Migra las categorías de una tienda
+ * @param {Object} tienda - Documento de la tienda
+ * @returns {Promise<Object>} Resumen { creadas, reasignados }
+ * @private
+ */
+const migrarTienda = async (tienda) => {
+  let creadas = await Categoria.crearPorDefecto(tienda._id);
+
+  // Productos sin categoría → 'otros'
+  const { modifiedCount: reasignados } = await Producto.updateMany(
+    {
+      tienda_id: tienda._id,
+      $or: [{ categoria: { $exists: false } }, { categoria: null }, { categoria: '' }]
+    },
+    { $set: { categoria: 'otros' } }
+  );
+
+  // Valores usados por productos que aún no tienen categoría
+  const [usadas, existentes] = await Promise.all([
+    Producto.distinct('categoria', { tienda_id: tienda._id }),
+    Categoria.find({ tienda_id: tienda._id }).distinct('slug')
+  ]);
+
+  const faltantes = usadas.filter(slug => slug && !existentes.includes(slug));
+  let orden = existentes.length;
+
+  for (const slug of faltantes) {
+    await Categoria.create({
+      tienda_id: tienda._id,
+      nombre: nombreDesdeSlug(slug).slice(0, 40),
+      slug,
+      orden: orden++
+    });
+    creadas++;
+  }
+
+  return { creadas, reasignados };
+};
+
+/**
+ * Ejecuta la migración sobre todas las tiendas
+ * @async
+ */
+const migrar = async () => {
+  await connectDB();
+
+  const tiendas = await Tienda.find({}, 'nombre slug');
+  let totalCreadas = 0;
+  let totalReasignados = 0;
+
+  for (const tienda of tiendas) {
+    const { creadas, reasignados } = await migrarTienda(tienda);
+    totalCreadas += creadas;
+    totalReasignados += reasignados;
+
+    if (creadas > 0 || reasignados > 0) {
+      console.log(`✅ ${tienda.slug}: ${creadas} categorías creadas, ${reasignados} productos reasignados`);
+    }
+  }
+
+  console.log('');
+  console.log(`✅ Migración completa: ${tiendas.length} tiendas, ${totalCreadas} categorías creadas, ${totalReasignados} productos reasignados`);
+};
+
+migrar()
+  .catch((error) => {
+    console.error('❌ Error en la migración de categorías:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.connection.close());
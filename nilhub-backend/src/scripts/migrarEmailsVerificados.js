@@ -0,0 +1,44 @@
+// backend/src/scripts/migrarEmailsVerificados.js
+/**
+ * @fileoverview Marca como verificados los emails de las cuentas existentes
+ *
+ * Las cuentas creadas antes de la verificación de email no tienen el campo
+ * email_verificado, y Mongoose lo lee como false: el panel les pediría un
+ * código que nunca recibieron. Sus tiendas ya son públicas (no tienen
+ * verificacion_pendiente), así que solo hace falta marcar los usuarios.
+ *
+ * Se puede ejecutar varias veces: solo toca usuarios sin el campo.
+ *
+ * @example
+ * npm run migrar:emails-verificados
+ */
+
+const dotenv = require('dotenv');
+const mongoose = require('mongoose');
+
+dotenv.config();
+
+const connectDB = require('../config/db');
+const Usuario = require('../models/Usuario');
+
+/**
+ * Ejecuta la migración sobre todos los usuarios
+ * @async
+ */
+const migrar = async () => {
+  await connectDB();
+
+  const { modifiedCount } = await Usuario.updateMany(
+    { email_verificado: { $exists: false } },
+    { $set: { email_verificado: true, email_verificado_en: null } }
+  );
+
+  console.log(`✅ Migración completa: ${modifiedCount} usuarios marcados con email verificado`);
+};
+
+migrar()
+  .catch((error) => {
+    console.error('❌ Error en la migración de emails verificados:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.connection.close());
@@ -19,8 +19,10 @@ const helmet = require('helmet');
 const compression = require('compression');
 const rateLimit = require('express-rate-limit');
 const morgan = require('morgan');
+const cookieParser = require('cookie-parser');
 const connectDB = require('./config/db');
 const errorHandler = require('./middleware/errorHandler');
+const { identificarTokenApi } = require('./middleware/auth');
 
 // ===================================
 // CONFIGURACIÓN INICIAL
@@ -116,6 +118,12 @@ const corsOptions = {
 
 app.use(cors(corsOptions));
 
+/**
+ * Tokens de API - Se validan antes del límite por IP, que se salta solo
+ * con un token vigente
+ */
+app.use('/api/', identificarTokenApi);
+
 /**
  * Rate Limiting - Prevenir abuso de la API
  */
@@ -128,8 +136,10 @@ const limiter = rateLimit({
   },
   standardHeaders: true, // Retornar info de rate limit en headers
   legacyHeaders: false,
-  // Excluir health check del rate limit
-  skip: (req) => req.path === '/api/health'
+  // Excluir health check y tokens de API vigentes en /api/v1 (ahí protect
+  // aplica el límite por token; en las demás rutas sigue el límite por IP)
+  skip: (req) => req.path === '/api/health' ||
+    (Boolean(req.tokenApiVigente) && req.originalUrl.startsWith('/api/v1/'))
 });
 
 app.use('/api/', limiter);
@@ -152,6 +162,9 @@ app.use('/api/auth/login', authLimiter);
 app.use('/api/auth/registro', authLimiter);
 app.use('/api/auth/forgot-password', authLimiter);
 app.use('/api/auth/reset-password', authLimiter);
+app.use('/api/auth/dos-pasos', authLimiter);
+app.use('/api/auth/verificar-email', authLimiter);
+app.use('/api/auth/cuenta/eliminacion', authLimiter);
 
 // ===================================
 // MIDDLEWARES DE PARSEO Y LOGGING
@@ -168,6 +181,11 @@ app.use(compression());
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+/**
+ * Cookie parser - Leer las cookies de sesión (httpOnly)
+ */
+app.use(cookieParser());
+
 /**
  * Morgan - Logging de requests HTTP
  * Solo en desarrollo
@@ -189,6 +207,15 @@ const tiendasRoutes = require('./routes/tiendas');
 const uploadRoutes = require('./routes/upload');
 const passwordResetRoutes = require('./routes/passwordReset');
 const adminRoutes = require('./routes/admin');
+const pedidosRoutes = require('./routes/pedidos');
+const categoriasRoutes = require('./routes/categorias');
+const analiticaRoutes = require('./routes/analitica');
+const webhooksRoutes = require('./routes/webhooks');
+const tokensRoutes = require('./routes/tokens');
+const v1Routes = require('./routes/v1');
+const webhookService = require('./services/webhookService');
+const cuentaService = require('./services/cuentaService');
+const openapi = require('./docs/openapi');
 
 /**
  * Ruta raíz - Información de la API
@@ -204,8 +231,15 @@ app.get('/', (req, res) => {
       passwordReset: '/api/auth/forgot-password',
       productos: '/api/productos',
       tiendas: '/api/tiendas',
+      pedidos: '/api/pedidos',
+      categorias: '/api/categorias',
+      analitica: '/api/analitica',
+      webhooks: '/api/webhooks',
+      tokens: '/api/tokens',
+      v1: '/api/v1 (OpenAPI: /api/v1/openapi.json)',
       upload: '/api/upload',
-      health: '/api/health'
+      health: '/api/health',
+      docs: '/api/docs'
     },
     documentation: 'https://github.com/tu-usuario/nilhub-api',
     timestamp: new Date().toISOString()
@@ -230,6 +264,14 @@ app.get('/api/health', (req, res) => {
   });
 });
 
+/**
+ * Especificación OpenAPI de toda la API
+ * Fuente del cliente tipado del frontend (npm run api:generar)
+ */
+app.get('/api/docs', (req, res) => {
+  res.json(openapi);
+});
+
 /**
  * Ruta de debug - Solo en desarrollo
  * Lista todos los usuarios (sin passwords)
@@ -277,6 +319,12 @@ app.use('/api/auth', authRoutes);
 app.use('/api/auth', passwordResetRoutes);
 app.use('/api/productos', productosRoutes);
 app.use('/api/tiendas', tiendasRoutes);
+app.use('/api/pedidos', pedidosRoutes);
+app.use('/api/categorias', categoriasRoutes);
+app.use('/api/analitica', analiticaRoutes);
+app.use('/api/webhooks', webhooksRoutes);
+app.use('/api/tokens', tokensRoutes);
+app.use('/api/v1', v1Routes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/admin', adminRoutes);
 
@@ -324,11 +372,26 @@ const server = app.listen(PORT, () => {
   console.log('📝 Rutas disponibles:');
   console.log(`   GET    /                       → Info de la API`);
   console.log(`   GET    /api/health             → Health check`);
+  console.log(`   GET    /api/docs               → Especificación OpenAPI`);
   console.log('');
   console.log('   🔐 AUTH:');
   console.log(`   POST   /api/auth/registro      → Registrar usuario`);
   console.log(`   POST   /api/auth/login         → Iniciar sesión`);
+  console.log(`   POST   /api/auth/login/dos-pasos → Código de dos pasos`);
+  console.log(`   POST   /api/auth/login/codigo  → Pedir código sin contraseña`);
+  console.log(`   POST   /api/auth/login/codigo/verificar → Ingresar con código`);
   console.log(`   GET    /api/auth/me            → Usuario actual (🔒)`);
+  console.log(`   POST   /api/auth/refresh       → Renovar sesión (cookie)`);
+  console.log(`   POST   /api/auth/logout        → Cerrar sesión`);
+  console.log(`   GET    /api/auth/sesiones      → Dispositivos con sesión (🔒)`);
+  console.log(`   DELETE /api/auth/sesiones/:id  → Cerrar sesión en un dispositivo (🔒)`);
+  console.log(`   GET    /api/auth/accesos       → Historial de inicios de sesión (🔒)`);
+  console.log(`   GET    /api/auth/cuenta/exportar → Descargar mis datos (.zip) (🔒)`);
+  console.log(`   POST   /api/auth/cuenta/eliminacion → Programar eliminación de la cuenta (🔒)`);
+  console.log(`   DELETE /api/auth/cuenta/eliminacion → Cancelar eliminación (🔒)`);
+  console.log(`   POST   /api/auth/dos-pasos/*   → Verificación en dos pasos (🔒)`);
+  console.log(`   POST   /api/auth/verificar-email → Confirmar email (🔒)`);
+  console.log(`   POST   /api/auth/verificar-email/reenviar → Reenviar código (🔒)`);
   console.log('');
   console.log('   🔑 PASSWORD RESET:');
   console.log(`   POST   /api/auth/forgot-password    → Solicitar código`);
@@ -337,28 +400,84 @@ const server = app.listen(PORT, () => {
   console.log('');
   console.log('   📦 PRODUCTOS:');
   console.log(`   GET    /api/productos/mis-productos       → Mis productos (🔒)`);
+  console.log(`   GET    /api/productos/exportar            → Exportar CSV/XLSX (🔒)`);
+  console.log(`   POST   /api/productos/importar            → Importar CSV/XLSX (🔒)`);
   console.log(`   GET    /api/productos/:id                 → Obtener producto`);
   console.log(`   POST   /api/productos                     → Crear producto (🔒)`);
   console.log(`   PUT    /api/productos/:id                 → Actualizar producto (🔒)`);
   console.log(`   PATCH  /api/productos/:id/stock           → Actualizar stock (🔒)`);
   console.log(`   DELETE /api/productos/:id                 → Eliminar producto (🔒)`);
+  console.log(`   POST   /api/productos/:id/vista           → Registrar vista`);
   console.log(`   POST   /api/productos/:id/click-whatsapp  → Registrar click`);
   console.log('');
   console.log('   🏪 TIENDAS:');
+  console.log(`   GET    /api/tiendas/sitemap               → Slugs para sitemap.xml`);
   console.log(`   GET    /api/tiendas/:slug                 → Obtener tienda`);
   console.log(`   GET    /api/tiendas/:slug/productos       → Productos de tienda`);
+  console.log(`   GET    /api/tiendas/:slug/sugerencias     → Autocompletar búsqueda`);
+  console.log(`   POST   /api/tiendas/:slug/eventos         → Registrar búsqueda/compartir`);
   console.log(`   GET    /api/tiendas/mi-tienda             → Mi tienda (🔒)`);
   console.log(`   PUT    /api/tiendas/mi-tienda             → Actualizar mi tienda (🔒)`);
   console.log('');
+  console.log('   🧾 PEDIDOS:');
+  console.log(`   POST   /api/pedidos                       → Crear pedido`);
+  console.log(`   GET    /api/pedidos/mis-pedidos           → Mis pedidos (🔒)`);
+  console.log(`   GET    /api/pedidos/:id                   → Obtener pedido (🔒)`);
+  console.log(`   PATCH  /api/pedidos/:id/estado            → Cambiar estado (🔒)`);
+  console.log('');
+  console.log('   🏷️  CATEGORÍAS:');
+  console.log(`   GET    /api/categorias/tienda/:slug       → Categorías de tienda`);
+  console.log(`   GET    /api/categorias/mis-categorias     → Mis categorías (🔒)`);
+  console.log(`   POST   /api/categorias                    → Crear categoría (🔒)`);
+  console.log(`   PUT    /api/categorias/:id                → Actualizar categoría (🔒)`);
+  console.log(`   PATCH  /api/categorias/orden              → Reordenar (🔒)`);
+  console.log(`   DELETE /api/categorias/:id                → Eliminar categoría (🔒)`);
+  console.log('');
+  console.log('   📈 ANALÍTICA:');
+  console.log(`   GET    /api/analitica/resumen             → Tendencias por período (🔒)`);
+  console.log('');
+  console.log('   🔗 WEBHOOKS:');
+  console.log(`   GET    /api/webhooks                      → Mis webhooks (🔒)`);
+  console.log(`   POST   /api/webhooks                      → Registrar webhook (🔒)`);
+  console.log(`   PUT    /api/webhooks/:id                  → Editar/pausar webhook (🔒)`);
+  console.log(`   DELETE /api/webhooks/:id                  → Eliminar webhook (🔒)`);
+  console.log(`   POST   /api/webhooks/:id/secreto          → Regenerar secreto (🔒)`);
+  console.log(`   POST   /api/webhooks/:id/prueba           → Enviar evento de prueba (🔒)`);
+  console.log(`   GET    /api/webhooks/:id/entregas         → Registro de entregas (🔒)`);
+  console.log('');
+  console.log('   🔑 TOKENS DE API:');
+  console.log(`   GET    /api/tokens                        → Mis tokens (🔒)`);
+  console.log(`   POST   /api/tokens                        → Crear token (🔒)`);
+  console.log(`   PUT    /api/tokens/:id                    → Editar token (🔒)`);
+  console.log(`   DELETE /api/tokens/:id                    → Revocar token (🔒)`);
+  console.log('');
+  console.log('   🧩 API v1 (token de API o JWT):');
+  console.log(`   GET    /api/v1/openapi.json               → Especificación OpenAPI`);
+  console.log(`   GET    /api/v1/productos                  → Listar productos (🔑 catalogo:leer)`);
+  console.log(`   GET    /api/v1/productos/:id              → Obtener producto (🔑 catalogo:leer)`);
+  console.log(`   POST   /api/v1/productos                  → Crear producto (🔑 productos:escribir)`);
+  console.log(`   PUT    /api/v1/productos/:id              → Actualizar producto (🔑 productos:escribir)`);
+  console.log(`   DELETE /api/v1/productos/:id              → Eliminar producto (🔑 productos:escribir)`);
+  console.log(`   PATCH  /api/v1/productos/:id/stock        → Stock de producto (🔑 stock:escribir)`);
+  console.log(`   PATCH  /api/v1/productos/:id/variantes/:varianteId/stock → Stock de variante (🔑 stock:escribir)`);
+  console.log(`   PATCH  /api/v1/stock                      → Stock por SKU (🔑 stock:escribir)`);
+  console.log('');
   console.log('   📸 UPLOAD:');
   console.log(`   POST   /api/upload/imagen                 → Subir imagen (🔒)`);
   console.log(`   POST   /api/upload/imagenes               → Subir múltiples (🔒)`);
   console.log(`   DELETE /api/upload/:cloudinary_id         → Eliminar imagen (🔒)`);
   console.log('');
-  console.log('🔒 = Requiere autenticación (JWT)');
+  console.log('🔒 = Requiere autenticación (cookie de sesión o JWT)');
+  console.log('🔑 = JWT o token de API con el permiso indicado');
   console.log('');
   console.log('Presiona Ctrl+C para detener el servidor');
   console.log('');
+
+  // Reintentos de webhooks fallidos
+  webhookService.iniciarReintentos();
+
+  // Cuentas cuyo plazo de eliminación venció
+  cuentaService.iniciarEliminaciones();
 });
 
 // ===================================
@@ -376,6 +495,10 @@ const gracefulShutdown = async (signal) => {
   // Cerrar servidor HTTP (deja de aceptar nuevas conexiones)
   server.close(async () => {
     console.log('✓ Servidor HTTP cerrado');
+
+    // Dejar de reintentar webhooks (los pendientes siguen en MongoDB)
+    webhookService.detenerReintentos();
+    cuentaService.detenerEliminaciones();
     
     try {
       // Cerrar conexión a MongoDB
@@ -0,0 +1,287 @@
+// backend/src/services/accesosService.js
+const Usuario = require('../models/Usuario');
+const { describirDispositivo, redDe } = require('./sesionService');
+const { enviarAvisoNuevoDispositivo } = require('./emailService');
+
+/**
+ * @fileoverview Intentos de login por cuenta: esperas, bloqueo e historial
+ *
+ * @description
+ * El authLimiter de server.js limita por IP; esto limita por cuenta, así
+ * que también frena ataques repartidos entre muchas IPs.
+ *
+ * Cada fallo (contraseña, código de acceso o código de dos pasos) suma uno
+ * a usuario.bloqueo.intentos_fallidos:
+ *   - Los primeros 3 no tienen espera
+ *   - Desde el 4º hay que esperar 15 segundos, y la espera se duplica con
+ *     cada fallo (30s, 1m, 2m...)
+ *   - Al 10º la cuenta queda bloqueada 30 minutos (y otros 30 con cada
+ *     fallo siguiente)
+ *
+ * Un ingreso correcto, restablecer la contraseña o un administrador
+ * (PUT /api/admin/usuarios/:id/desbloquear) ponen el contador en cero.
+ *
+ * Todos los intentos quedan en usuario.historial_accesos (los últimos 50).
+ * Si un ingreso correcto viene de un navegador y sistema que la cuenta no
+ * había usado, se avisa por email.
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Fallos seguidos que no generan espera
+ * @constant
+ * @private
+ */
+const INTENTOS_SIN_ESPERA = 3;
+
+/**
+ * Segundos de espera del primer fallo que la genera (luego se duplica)
+ * @constant
+ * @private
+ */
+const ESPERA_BASE = 15;
+
+/**
+ * Fallos seguidos que bloquean la cuenta
+ * @constant
+ */
+const MAX_INTENTOS = 10;
+
+/**
+ * Segundos que dura el bloqueo
+ * @constant
+ */
+const DURACION_BLOQUEO = 30 * 60;
+
+/**
+ * Intentos que se guardan en el historial de cada usuario
+ * @constant
+ * @private
+ */
+const MAX_HISTORIAL = 50;
+
+// ===================================
+// ESPERAS
+// ===================================
+
+/**
+ * @description Segundos que faltan para que la cuenta acepte otro intento
+ * @param {Object} usuario - Usuario con el campo bloqueo
+ * @returns {number} 0 si puede intentar
+ */
+const segundosDeBloqueo = (usuario) => {
+  const hasta = usuario.bloqueo?.bloqueado_hasta;
+  if (!hasta) return 0;
+  return Math.max(0, Math.ceil((hasta.getTime() - Date.now()) / 1000));
+};
+
+/**
+ * @description Espera que corresponde a una cantidad de fallos seguidos
+ * @param {number} intentos - Fallos seguidos
+ * @returns {number} Segundos
+ * @private
+ */
+const esperaPorIntentos = (intentos) => {
+  if (intentos >= MAX_INTENTOS) return DURACION_BLOQUEO;
+  if (intentos <= INTENTOS_SIN_ESPERA) return 0;
+  return ESPERA_BASE * 2 ** (intentos - INTENTOS_SIN_ESPERA - 1);
+};
+
+/**
+ * @description Texto legible de una espera
+ * @param {number} segundos
+ * @returns {string}
+ *
+ * @example
+ * describirEspera(45);   // '45 segundos'
+ * describirEspera(1800); // '30 minutos'
+ */
+const describirEspera = (segundos) => {
+  if (segundos < 60) return `${segundos} ${segundos === 1 ? 'segundo' : 'segundos'}`;
+  const minutos = Math.ceil(segundos / 60);
+  return `${minutos} ${minutos === 1 ? 'minuto' : 'minutos'}`;
+};
+
+/**
+ * @description Mensaje para responder a un intento con la cuenta en espera
+ * @param {Object} usuario - Usuario con el campo bloqueo
+ * @returns {string}
+ */
+const mensajeDeBloqueo = (usuario) => {
+  const espera = describirEspera(segundosDeBloqueo(usuario));
+  return usuario.bloqueo.intentos_fallidos >= MAX_INTENTOS
+    ? `Cuenta bloqueada temporalmente por demasiados intentos fallidos. Intenta de nuevo en ${espera} o restablece tu contraseña.`
+    : `Demasiados intentos fallidos. Intenta de nuevo en ${espera}.`;
+};
+
+// ===================================
+// REGISTRO DE INTENTOS
+// ===================================
+
+/**
+ * @description Entrada del historial para la petición actual
+ * @param {Object} req - Request de Express
+ * @param {boolean} exito
+ * @param {string} metodo - 'contrasena', 'codigo' o 'dos_pasos'
+ * @param {string} [motivo] - Por qué falló
+ * @returns {Object}
+ * @private
+ */
+const entradaDe = (req, exito, metodo, motivo) => ({
+  fecha: new Date(),
+  ...redDe(req),
+  user_agent: (req.get('user-agent') || '').slice(0, 500),
+  exito,
+  metodo,
+  ...(motivo && { motivo })
+});
+
+/**
+ * @description Agrega una entrada al historial conservando solo las últimas
+ * @param {Object} entrada
+ * @returns {Object} Operador $push
+ * @private
+ */
+const agregarAlHistorial = (entrada) => ({
+  historial_accesos: { $each: [entrada], $slice: -MAX_HISTORIAL }
+});
+
+/**
+ * @description Registra un intento fallido y aplica la espera que corresponde
+ * El contador se incrementa de forma atómica (intentos en paralelo cuentan todos)
+ *
+ * @param {Object} req - Request de Express
+ * @param {Object} usuario - Usuario que intentó ingresar
+ * @param {string} metodo - 'contrasena', 'codigo' o 'dos_pasos'
+ * @param {string} motivo - Por qué falló (ej: 'Contraseña incorrecta')
+ * @returns {Promise<number>} Segundos de espera hasta el próximo intento (0 si no hay)
+ *
+ * @example
+ * const espera = await accesosService.registrarFallo(req, usuario, 'contrasena', 'Contraseña incorrecta');
+ */
+const registrarFallo = async (req, usuario, metodo, motivo) => {
+  const actualizado = await Usuario.findByIdAndUpdate(
+    usuario._id,
+    {
+      $inc: { 'bloqueo.intentos_fallidos': 1 },
+      $push: agregarAlHistorial(entradaDe(req, false, metodo, motivo))
+    },
+    { new: true, projection: 'bloqueo email' }
+  );
+
+  const intentos = actualizado?.bloqueo?.intentos_fallidos || 0;
+  const espera = esperaPorIntentos(intentos);
+
+  if (espera > 0) {
+    await Usuario.updateOne(
+      { _id: usuario._id },
+      { 'bloqueo.bloqueado_hasta': new Date(Date.now() + espera * 1000) }
+    );
+  }
+
+  if (intentos === MAX_INTENTOS) {
+    console.warn(`🔒 Cuenta bloqueada por ${MAX_INTENTOS} intentos fallidos: ${actualizado.email}`);
+  }
+
+  return espera;
+};
+
+/**
+ * @description Registra un ingreso correcto, reinicia el contador de fallos y
+ * avisa por email si es un dispositivo nuevo
+ * El primer ingreso registrado de la cuenta no genera aviso.
+ *
+ * @param {Object} req - Request de Express
+ * @param {Object} usuario - Usuario que ingresó
+ * @param {string} metodo - 'contrasena', 'codigo' o 'dos_pasos'
+ * @returns {Promise<void>}
+ */
+const registrarExito = async (req, usuario, metodo) => {
+  const entrada = entradaDe(req, true, metodo);
+
+  const anterior = await Usuario.findByIdAndUpdate(
+    usuario._id,
+    {
+      $set: { 'bloqueo.intentos_fallidos': 0, 'bloqueo.bloqueado_hasta': null },
+      $push: agregarAlHistorial(entrada)
+    },
+    { projection: 'historial_accesos' }
+  );
+
+  const huella = (userAgent) => {
+    const { navegador, sistema } = describirDispositivo(userAgent);
+    return `${navegador}|${sistema}`;
+  };
+
+  const ingresos = (anterior?.historial_accesos || []).filter(a => a.exito);
+  const conocido = ingresos.some(a => huella(a.user_agent) === huella(entrada.user_agent));
+
+  if (ingresos.length > 0 && !conocido) {
+    const { navegador, sistema } = describirDispositivo(entrada.user_agent);
+    console.log(`🔔 Ingreso desde un dispositivo nuevo: ${usuario.email} (${navegador} en ${sistema})`);
+
+    // Sin await: el login no espera al email (y enviarAviso no lanza errores)
+    enviarAvisoNuevoDispositivo(usuario.email, usuario.nombre, {
+      dispositivo: `${navegador} en ${sistema}`,
+      ubicacion: [entrada.ciudad, entrada.pais].filter(Boolean).join(', '),
+      ip: entrada.ip,
+      fecha: entrada.fecha
+    });
+  }
+};
+
+// ===================================
+// ADMINISTRACIÓN
+// ===================================
+
+/**
+ * @description Quita la espera o el bloqueo de una cuenta
+ * @param {ObjectId} usuarioId
+ * @returns {Promise<Object|null>} Usuario actualizado (null si no existe)
+ */
+const desbloquear = async (usuarioId) => {
+  return Usuario.findByIdAndUpdate(
+    usuarioId,
+    { 'bloqueo.intentos_fallidos': 0, 'bloqueo.bloqueado_hasta': null },
+    { new: true }
+  );
+};
+
+/**
+ * @description Historial de accesos de un usuario, el más reciente primero
+ * @param {ObjectId} usuarioId
+ * @returns {Promise<Object[]|null>} Intentos con el dispositivo descrito (null si no existe)
+ */
+const historialDe = async (usuarioId) => {
+  const usuario = await Usuario.findById(usuarioId).select('historial_accesos').lean();
+  if (!usuario) return null;
+
+  return (usuario.historial_accesos || [])
+    .slice()
+    .reverse()
+    .map(acceso => ({
+      fecha: acceso.fecha,
+      exito: acceso.exito,
+      metodo: acceso.metodo,
+      motivo: acceso.motivo || null,
+      ip: acceso.ip || '',
+      pais: acceso.pais || '',
+      ciudad: acceso.ciudad || '',
+      dispositivo: describirDispositivo(acceso.user_agent)
+    }));
+};
+
+module.exports = {
+  MAX_INTENTOS,
+  DURACION_BLOQUEO,
+  segundosDeBloqueo,
+  describirEspera,
+  mensajeDeBloqueo,
+  registrarFallo,
+  registrarExito,
+  desbloquear,
+  historialDe
+};
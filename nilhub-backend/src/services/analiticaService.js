@@ -0,0 +1,572 @@
+// backend/src/services/analiticaService.js
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const Evento = require('../models/Evento');
+const EstadisticaDiaria = require('../models/EstadisticaDiaria');
+const Interaccion = require('../models/Interaccion');
+const Tienda = require('../models/Tienda');
+
+/**
+ * @fileoverview Analítica del catálogo: registro de eventos y resúmenes por período
+ *
+ * @description
+ * Cada evento (vista, click en WhatsApp, búsqueda, compartir) se guarda en
+ * Evento y suma 1 en EstadisticaDiaria: en el documento del día de la tienda
+ * y, si tiene producto, en el del producto. Los gráficos leen solo los totales
+ * diarios; el registro detallado sirve para el top de búsquedas y expira
+ * a los 90 días.
+ *
+ * Los días se cuentan en la zona horaria de la plataforma (ZONA_HORARIA),
+ * así "hoy" para el vendedor empieza a su medianoche y no a la de UTC.
+ *
+ * Cada evento guarda su origen: los parámetros utm_* del enlace con el que
+ * llegó el visitante y la página externa de la que vino. Con ellos se deduce
+ * la fuente (instagram, facebook, google, directo...) para el desglose por canal.
+ *
+ * Vistas y clicks en WhatsApp pasan antes por contarInteraccion: se ignoran
+ * bots y dueños de la tienda, y cada visitante cuenta una vez por producto
+ * en cada ventana de Interaccion.VENTANA_MINUTOS.
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Zona horaria en la que se agrupan los eventos por día
+ * @constant
+ */
+const ZONA_HORARIA = process.env.ZONA_HORARIA || 'America/Lima';
+
+/**
+ * Días del período si no se indica rango
+ * @constant
+ */
+const DIAS_POR_DEFECTO = 30;
+
+/**
+ * Máximo de días de un período
+ * @constant
+ */
+const DIAS_MAXIMO = 366;
+
+/**
+ * Productos y búsquedas en cada ranking del resumen
+ * @constant
+ */
+const LIMITE_RANKING = 10;
+
+/**
+ * Contadores de EstadisticaDiaria
+ * @constant
+ * @private
+ */
+const CONTADORES = Object.values(EstadisticaDiaria.CONTADOR_POR_TIPO);
+
+/**
+ * Parámetros UTM que se guardan con cada evento
+ * @constant
+ */
+const PARAMETROS_UTM = ['utm_source', 'utm_medium', 'utm_campaign'];
+
+/**
+ * Fuente de cada dominio de origen conocido
+ * Se compara con el final del dominio (l.instagram.com → instagram)
+ * @constant
+ * @private
+ */
+const FUENTES_POR_DOMINIO = {
+  'instagram.com': 'instagram',
+  'facebook.com': 'facebook',
+  'fb.com': 'facebook',
+  'messenger.com': 'facebook',
+  'tiktok.com': 'tiktok',
+  'whatsapp.com': 'whatsapp',
+  'wa.me': 'whatsapp',
+  't.co': 'twitter',
+  'twitter.com': 'twitter',
+  'x.com': 'twitter',
+  'youtube.com': 'youtube',
+  'pinterest.com': 'pinterest'
+};
+
+/**
+ * Abreviaturas frecuentes en utm_source
+ * @constant
+ * @private
+ */
+const ALIAS_FUENTE = {
+  ig: 'instagram',
+  fb: 'facebook',
+  tt: 'tiktok',
+  wa: 'whatsapp'
+};
+
+/**
+ * User agents de bots, crawlers, vistas previas de enlaces y clientes HTTP
+ * @constant
+ * @private
+ */
+const PATRON_BOTS = /bot|crawl|spider|slurp|archiver|facebookexternalhit|facebookcatalog|whatsapp|skypeuripreview|embedly|preview|headless|lighthouse|pagespeed|curl|wget|python|java\/|go-http|okhttp|axios|node-fetch|undici|postman/i;
+
+/**
+ * Formato aceptado del ID de visitante que envía el navegador
+ * @constant
+ * @private
+ */
+const FORMATO_VISITANTE = /^[A-Za-z0-9-]{8,64}$/;
+
+// ===================================
+// FECHAS
+// ===================================
+
+/**
+ * @description Día (YYYY-MM-DD) de una fecha en ZONA_HORARIA
+ * @param {Date} [fecha=new Date()] - Fecha
+ * @returns {string} Día
+ * @example
+ * diaDe(new Date('2025-01-01T03:00:00Z')); // '2024-12-31' en Lima
+ */
+const diaDe = (fecha = new Date()) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: ZONA_HORARIA }).format(fecha);
+
+/**
+ * @description Suma días a un día
+ * @param {string} dia - Día (YYYY-MM-DD)
+ * @param {number} cantidad - Días a sumar (negativo para restar)
+ * @returns {string} Día resultante
+ */
+const sumarDias = (dia, cantidad) => {
+  const fecha = new Date(`${dia}T00:00:00Z`);
+  fecha.setUTCDate(fecha.getUTCDate() + cantidad);
+  return fecha.toISOString().slice(0, 10);
+};
+
+/**
+ * @description Días entre dos días, ambos incluidos
+ * @param {string} desde - Primer día
+ * @param {string} hasta - Último día
+ * @returns {number} Cantidad de días
+ */
+const diasEntre = (desde, hasta) =>
+  Math.round((Date.parse(`${hasta}T00:00:00Z`) - Date.parse(`${desde}T00:00:00Z`)) / 86400000) + 1;
+
+/**
+ * @description Momento en que empieza un día en ZONA_HORARIA
+ * @param {string} dia - Día (YYYY-MM-DD)
+ * @returns {Date} Medianoche del día en la zona horaria
+ * @private
+ */
+const inicioDelDia = (dia) => {
+  const medianocheUtc = new Date(`${dia}T00:00:00Z`);
+  const desfase = new Intl.DateTimeFormat('en-US', {
+    timeZone: ZONA_HORARIA,
+    timeZoneName: 'longOffset'
+  }).formatToParts(medianocheUtc).find(p => p.type === 'timeZoneName').value; // "GMT-05:00"
+
+  const [, signo, horas, minutos] = desfase.match(/([+-])(\d{2}):(\d{2})/) || [null, '+', '00', '00'];
+  const minutosDesfase = (Number(horas) * 60 + Number(minutos)) * (signo === '-' ? -1 : 1);
+  return new Date(medianocheUtc.getTime() - minutosDesfase * 60000);
+};
+
+/**
+ * @description Valida un día recibido en la query
+ * @param {string} dia - Texto a validar
+ * @returns {boolean} true si es YYYY-MM-DD y una fecha real
+ */
+const esDiaValido = (dia) =>
+  typeof dia === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(dia) &&
+  new Date(`${dia}T00:00:00Z`).toISOString().slice(0, 10) === dia;
+
+// ===================================
+// ORIGEN
+// ===================================
+
+/**
+ * @description Toma los parámetros utm_* de un objeto (body o query)
+ * @param {Object} [datos] - Objeto con utm_source, utm_medium, utm_campaign
+ * @returns {Object} Solo los parámetros presentes, como texto de hasta 100 caracteres
+ * @example
+ * utmDe(req.body); // { utm_source: 'instagram', utm_campaign: 'verano' }
+ */
+const utmDe = (datos) => PARAMETROS_UTM.reduce((utm, parametro) => {
+  const valor = datos?.[parametro];
+  if (typeof valor === 'string' && valor.trim()) {
+    utm[parametro] = valor.trim().slice(0, 100);
+  }
+  return utm;
+}, {});
+
+/**
+ * @description Deduce la fuente de una visita
+ * utm_source manda; si no hay, se usa el dominio de la página de origen
+ *
+ * @param {Object} origen
+ * @param {string} [origen.referrer] - Página externa de origen
+ * @param {string} [origen.utm_source] - Parámetro utm_source
+ * @returns {string} Fuente en minúsculas ('directo' si no hay datos)
+ *
+ * @example
+ * fuenteDe({ referrer: 'https://l.instagram.com/?u=...' }); // 'instagram'
+ * fuenteDe({ utm_source: 'IG' }); // 'instagram'
+ * fuenteDe({ referrer: 'https://blog.ejemplo.com/post' }); // 'blog.ejemplo.com'
+ */
+const fuenteDe = ({ referrer, utm_source } = {}) => {
+  if (utm_source) {
+    const fuente = utm_source.trim().toLowerCase().slice(0, 100);
+    return ALIAS_FUENTE[fuente] || fuente;
+  }
+
+  let dominio;
+  try {
+    dominio = new URL(referrer).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return 'directo';
+  }
+
+  const conocido = Object.keys(FUENTES_POR_DOMINIO)
+    .find(d => dominio === d || dominio.endsWith(`.${d}`));
+  if (conocido) return FUENTES_POR_DOMINIO[conocido];
+  if (/(^|\.)google\./.test(dominio)) return 'google';
+  if (/(^|\.)bing\.com$/.test(dominio)) return 'bing';
+  return dominio;
+};
+
+// ===================================
+// VISITANTES
+// ===================================
+
+/**
+ * @description Indica si un user agent es de un bot
+ * Sin user agent también se considera bot: los navegadores siempre lo envían
+ * @param {string} [userAgent] - Header User-Agent
+ * @returns {boolean} true si no debe contarse
+ */
+const esBot = (userAgent) => !userAgent || PATRON_BOTS.test(userAgent);
+
+/**
+ * @description Identifica al visitante de una petición
+ * Usa el ID que guarda el navegador; si no llega, una huella de IP y user agent
+ *
+ * @param {Object} datos
+ * @param {string} [datos.visitante] - ID generado por el navegador
+ * @param {string} [datos.ip] - IP de la petición
+ * @param {string} [datos.userAgent] - User agent
+ * @returns {string} Identificador estable del visitante
+ */
+const idDeVisitante = ({ visitante, ip, userAgent }) => {
+  if (typeof visitante === 'string' && FORMATO_VISITANTE.test(visitante)) {
+    return visitante;
+  }
+  return crypto.createHash('sha256').update(`${ip}|${userAgent}`).digest('hex').slice(0, 32);
+};
+
+/**
+ * @description Cuenta una vista o un click en WhatsApp si corresponde
+ *
+ * No cuenta si el user agent es de un bot, si el usuario autenticado es el
+ * dueño de la tienda, o si el visitante ya fue contado para ese producto en la
+ * ventana actual. Si cuenta, incrementa el contador del producto con $inc
+ * y registra el evento con su origen.
+ *
+ * @param {Object} interaccion
+ * @param {string} interaccion.tipo - vista | click_whatsapp
+ * @param {Object} interaccion.producto - Documento del producto
+ * @param {string} interaccion.visitante - ID del visitante (ver idDeVisitante)
+ * @param {string} [interaccion.userAgent] - User agent
+ * @param {Object} [interaccion.usuario] - Usuario autenticado (req.usuario)
+ * @param {string} [interaccion.referrer] - Página externa de origen
+ * @param {Object} [interaccion.utm] - Parámetros utm_*
+ * @returns {Promise<boolean>} true si se contó
+ *
+ * @example
+ * const contada = await contarInteraccion({
+ *   tipo: 'vista', producto, visitante, userAgent: req.get('User-Agent'), usuario: req.usuario
+ * });
+ */
+const contarInteraccion = async ({ tipo, producto, visitante, userAgent, usuario, referrer, utm }) => {
+  if (esBot(userAgent)) {
+    return false;
+  }
+
+  if (usuario && await Tienda.exists({ _id: producto.tienda_id, usuario_id: usuario._id })) {
+    return false;
+  }
+
+  const ventana = Math.floor(Date.now() / (Interaccion.VENTANA_MINUTOS * 60 * 1000));
+  try {
+    await Interaccion.create({ clave: `${tipo}:${producto._id}:${visitante}:${ventana}` });
+  } catch (error) {
+    if (error.code === 11000) return false;
+    throw error;
+  }
+
+  await Promise.all([
+    tipo === 'vista' ? producto.incrementarVistas() : producto.incrementarClicksWhatsApp(),
+    registrarEvento({
+      tipo,
+      tiendaId: producto.tienda_id,
+      productoId: producto._id,
+      referrer,
+      utm
+    })
+  ]);
+  return true;
+};
+
+// ===================================
+// REGISTRO
+// ===================================
+
+/**
+ * @description Registra un evento y actualiza los totales del día
+ *
+ * @param {Object} evento
+ * @param {string} evento.tipo - vista | click_whatsapp | busqueda | compartir
+ * @param {string|ObjectId} evento.tiendaId - Tienda
+ * @param {string|ObjectId} [evento.productoId] - Producto
+ * @param {string} [evento.referrer] - Página externa de origen
+ * @param {Object} [evento.utm] - utm_source, utm_medium y utm_campaign (ver utmDe)
+ * @param {string} [evento.texto] - Texto buscado
+ * @param {number} [evento.resultados] - Productos encontrados en la búsqueda
+ * @returns {Promise<void>}
+ *
+ * @example
+ * // Sin esperar: la analítica nunca debe demorar la respuesta
+ * registrarEvento({ tipo: 'vista', tiendaId, productoId, referrer })
+ *   .catch(err => console.error('Error al registrar evento:', err));
+ */
+const registrarEvento = async ({ tipo, tiendaId, productoId, referrer, utm = {}, texto, resultados }) => {
+  const dia = diaDe();
+  const incremento = { $inc: { [EstadisticaDiaria.CONTADOR_POR_TIPO[tipo]]: 1 } };
+
+  const totales = [{ tienda_id: tiendaId, producto_id: null, dia }];
+  if (productoId) {
+    totales.push({ tienda_id: tiendaId, producto_id: productoId, dia });
+  }
+
+  const operaciones = totales.map(filtro => ({ updateOne: { filter: filtro, update: incremento, upsert: true } }));
+  const actualizar = (lista) => EstadisticaDiaria.bulkWrite(lista, { ordered: false });
+
+  // Dos upserts simultáneos del primer evento del día pueden chocar con el
+  // índice único: se reintentan solo los que fallaron (los demás ya sumaron)
+  const reintentarDuplicados = (error) => {
+    const fallidas = [].concat(error.writeErrors || []);
+    if (!fallidas.length || fallidas.some(fallida => fallida.code !== 11000)) throw error;
+    return actualizar(fallidas.map(fallida => operaciones[fallida.index]));
+  };
+
+  await Promise.all([
+    Evento.create({
+      tipo,
+      tienda_id: tiendaId,
+      producto_id: productoId,
+      referrer: referrer ? String(referrer).slice(0, 500) : undefined,
+      fuente: fuenteDe({ referrer, utm_source: utm.utm_source }),
+      ...utmDe(utm),
+      texto,
+      resultados
+    }),
+    actualizar(operaciones).catch(reintentarDuplicados)
+  ]);
+};
+
+// ===================================
+// RESUMEN
+// ===================================
+
+/**
+ * @description Suma los contadores de un rango de días
+ * @param {Object} filtro - Filtro de EstadisticaDiaria (tienda y producto)
+ * @param {string} desde - Primer día
+ * @param {string} hasta - Último día
+ * @returns {Promise<Object>} { vistas, clicks_whatsapp, busquedas, compartidos }
+ * @private
+ */
+const sumarPeriodo = async (filtro, desde, hasta) => {
+  const [suma] = await EstadisticaDiaria.aggregate([
+    { $match: { ...filtro, dia: { $gte: desde, $lte: hasta } } },
+    {
+      $group: CONTADORES.reduce(
+        (grupo, contador) => ({ ...grupo, [contador]: { $sum: `$${contador}` } }),
+        { _id: null }
+      )
+    }
+  ]);
+  return CONTADORES.reduce((totales, contador) => ({ ...totales, [contador]: suma?.[contador] || 0 }), {});
+};
+
+/**
+ * @description Tasa de clicks en WhatsApp sobre vistas
+ * @param {Object} totales - Con vistas y clicks_whatsapp
+ * @returns {number} Entre 0 y 1 (0 si no hay vistas)
+ * @private
+ */
+const tasaDeClicks = ({ vistas, clicks_whatsapp }) =>
+  vistas > 0 ? Math.round((clicks_whatsapp / vistas) * 10000) / 10000 : 0;
+
+/**
+ * @description Vistas y clicks en WhatsApp agrupados por origen
+ * @param {ObjectId} tienda - ID de la tienda
+ * @param {Object} periodo - Rango de createdAt
+ * @param {Object} grupo - Campos del origen a agrupar (ej: { fuente: '$fuente' })
+ * @param {Object} [filtro] - Condiciones extra sobre los eventos
+ * @returns {Promise<Array>} [{ ...grupo, vistas, clicks_whatsapp }] ordenado por vistas
+ * @private
+ */
+const visitasPorOrigen = (tienda, periodo, grupo, filtro = {}) =>
+  Evento.aggregate([
+    {
+      $match: {
+        tienda_id: tienda,
+        tipo: { $in: ['vista', 'click_whatsapp'] },
+        createdAt: periodo,
+        ...filtro
+      }
+    },
+    {
+      $group: {
+        _id: grupo,
+        vistas: { $sum: { $cond: [{ $eq: ['$tipo', 'vista'] }, 1, 0] } },
+        clicks_whatsapp: { $sum: { $cond: [{ $eq: ['$tipo', 'click_whatsapp'] }, 1, 0] } }
+      }
+    },
+    { $sort: { vistas: -1, clicks_whatsapp: -1 } },
+    { $limit: LIMITE_RANKING },
+    {
+      $project: {
+        _id: 0,
+        ...Object.keys(grupo).reduce((campos, campo) => ({ ...campos, [campo]: `$_id.${campo}` }), {}),
+        vistas: 1,
+        clicks_whatsapp: 1
+      }
+    }
+  ]);
+
+/**
+ * @description Resumen de analítica de una tienda en un período
+ *
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {string} desde - Primer día (YYYY-MM-DD, incluido)
+ * @param {string} hasta - Último día (YYYY-MM-DD, incluido)
+ * @returns {Promise<Object>} {
+ *   desde, hasta, dias,
+ *   totales,     // contadores del período + ctr
+ *   anteriores,  // lo mismo para el período anterior de igual largo
+ *   serie,       // un punto por día (con ceros en días sin eventos)
+ *   productos,   // top por vistas con clicks y ctr
+ *   busquedas,   // textos más buscados y cuántas veces no encontraron nada
+ *   fuentes,     // vistas, clicks y ctr por fuente de tráfico
+ *   campanas     // lo mismo por campaña (utm_campaign) y fuente
+ * }
+ *
+ * Búsquedas, fuentes y campañas salen del registro de eventos, que solo
+ * guarda los últimos DIAS_RETENCION días (ver Evento).
+ *
+ * @example
+ * const resumen = await obtenerResumen(tienda._id, '2025-01-01', '2025-01-31');
+ * resumen.totales.vistas - resumen.anteriores.vistas; // variación
+ */
+const obtenerResumen = async (tiendaId, desde, hasta) => {
+  const tienda = new mongoose.Types.ObjectId(tiendaId);
+  const dias = diasEntre(desde, hasta);
+  const anteriorDesde = sumarDias(desde, -dias);
+  const anteriorHasta = sumarDias(desde, -1);
+  const periodo = { $gte: inicioDelDia(desde), $lt: inicioDelDia(sumarDias(hasta, 1)) };
+
+  const [diarias, anteriores, productos, busquedas, fuentes, campanas] = await Promise.all([
+    EstadisticaDiaria.find({ tienda_id: tienda, producto_id: null, dia: { $gte: desde, $lte: hasta } })
+      .select(`dia ${CONTADORES.join(' ')}`)
+      .lean(),
+    sumarPeriodo({ tienda_id: tienda, producto_id: null }, anteriorDesde, anteriorHasta),
+    EstadisticaDiaria.aggregate([
+      { $match: { tienda_id: tienda, producto_id: { $ne: null }, dia: { $gte: desde, $lte: hasta } } },
+      {
+        $group: {
+          _id: '$producto_id',
+          vistas: { $sum: '$vistas' },
+          clicks_whatsapp: { $sum: '$clicks_whatsapp' },
+          compartidos: { $sum: '$compartidos' }
+        }
+      },
+      { $sort: { vistas: -1, clicks_whatsapp: -1 } },
+      { $limit: LIMITE_RANKING },
+      { $lookup: { from: 'productos', localField: '_id', foreignField: '_id', as: 'producto' } },
+      { $unwind: '$producto' },
+      {
+        $project: {
+          nombre: '$producto.nombre',
+          imagen: { $arrayElemAt: ['$producto.imagenes.url', 0] },
+          vistas: 1,
+          clicks_whatsapp: 1,
+          compartidos: 1
+        }
+      }
+    ]),
+    Evento.aggregate([
+      {
+        $match: {
+          tienda_id: tienda,
+          tipo: 'busqueda',
+          createdAt: periodo
+        }
+      },
+      {
+        $group: {
+          _id: '$texto',
+          total: { $sum: 1 },
+          sin_resultados: { $sum: { $cond: [{ $eq: ['$resultados', 0] }, 1, 0] } }
+        }
+      },
+      { $sort: { total: -1, _id: 1 } },
+      { $limit: LIMITE_RANKING },
+      { $project: { _id: 0, texto: '$_id', total: 1, sin_resultados: 1 } }
+    ]),
+    visitasPorOrigen(tienda, periodo, { fuente: '$fuente' }),
+    visitasPorOrigen(tienda, periodo, { campana: '$utm_campaign', fuente: '$fuente' }, {
+      utm_campaign: { $exists: true }
+    })
+  ]);
+
+  // Serie completa: los días sin eventos no tienen documento
+  const porDia = new Map(diarias.map(d => [d.dia, d]));
+  const serie = Array.from({ length: dias }, (_, i) => {
+    const dia = sumarDias(desde, i);
+    const datos = porDia.get(dia);
+    return CONTADORES.reduce((punto, contador) => ({ ...punto, [contador]: datos?.[contador] || 0 }), { dia });
+  });
+  const totales = CONTADORES.reduce(
+    (suma, contador) => ({ ...suma, [contador]: serie.reduce((total, punto) => total + punto[contador], 0) }),
+    {}
+  );
+
+  return {
+    desde,
+    hasta,
+    dias,
+    totales: { ...totales, ctr: tasaDeClicks(totales) },
+    anteriores: { ...anteriores, ctr: tasaDeClicks(anteriores), desde: anteriorDesde, hasta: anteriorHasta },
+    serie,
+    productos: productos.map(p => ({ ...p, ctr: tasaDeClicks(p) })),
+    busquedas,
+    fuentes: fuentes.map(f => ({ ...f, ctr: tasaDeClicks(f) })),
+    campanas: campanas.map(c => ({ ...c, ctr: tasaDeClicks(c) }))
+  };
+};
+
+module.exports = {
+  registrarEvento,
+  obtenerResumen,
+  utmDe,
+  fuenteDe,
+  esBot,
+  idDeVisitante,
+  contarInteraccion,
+  diaDe,
+  sumarDias,
+  diasEntre,
+  esDiaValido,
+  DIAS_POR_DEFECTO,
+  DIAS_MAXIMO
+};
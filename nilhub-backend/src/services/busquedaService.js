@@ -0,0 +1,419 @@
+// backend/src/services/busquedaService.js
+const Producto = require('../models/Producto');
+const Categoria = require('../models/Categoria');
+
+/**
+ * @fileoverview Búsqueda de productos dentro de una tienda
+ *
+ * @description
+ * Características:
+ * - Ignora tildes y mayúsculas ("protector" encuentra "Protéctor")
+ * - Ranking por relevancia: nombre > marca > descripción
+ * - Tolera errores de tipeo pequeños ("labail" encuentra "labial")
+ * - Coincidencia por prefijo para autocompletar ("lab" → "Labial")
+ * - Escapa caracteres especiales: el texto nunca se usa como regex crudo
+ *
+ * Cada palabra buscada debe coincidir con algún campo del producto.
+ * MongoDB descarta primero los productos que no pueden coincidir (regex sin
+ * tildes con trozos de cada palabra, ver filtroCandidatos) y el puntaje se
+ * calcula en memoria solo sobre esos candidatos (nombre, marca, descripción
+ * y vistas), hasta MAX_CANDIDATOS.
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Peso de cada campo en el puntaje
+ * @constant
+ */
+const PESOS = {
+  nombre: 3,
+  marca: 2,
+  descripcion: 1
+};
+
+/**
+ * Puntaje según el tipo de coincidencia de una palabra
+ * @constant
+ * @private
+ */
+const COINCIDENCIA = {
+  exacta: 1,
+  prefijo: 0.8,
+  contiene: 0.6,
+  error1: 0.5,
+  error2: 0.3
+};
+
+/**
+ * Máximo de candidatos que se leen para puntuar (protege la memoria)
+ * Si el filtro deja más, se puntúan los más vistos
+ * @constant
+ */
+const MAX_CANDIDATOS = 1000;
+
+/**
+ * Campos donde se busca (los de PESOS)
+ * @constant
+ * @private
+ */
+const CAMPOS = Object.keys(PESOS);
+
+/**
+ * Largo máximo del texto buscado
+ * @constant
+ */
+const MAX_LARGO_BUSQUEDA = 100;
+
+/**
+ * Palabras que no se exigen al buscar ("protector de sol" → protector, sol)
+ * @constant
+ * @private
+ */
+const PALABRAS_VACIAS = new Set([
+  'de', 'del', 'la', 'las', 'el', 'los', 'un', 'una', 'y', 'o', 'en', 'con', 'para', 'por', 'al'
+]);
+
+/**
+ * Variantes acentuadas de cada letra (para regex sin tildes)
+ * @constant
+ * @private
+ */
+const VARIANTES_LETRA = {
+  a: '[aáàäâã]',
+  e: '[eéèëê]',
+  i: '[iíìïî]',
+  o: '[oóòöôõ]',
+  u: '[uúùüû]',
+  n: '[nñ]',
+  c: '[cç]'
+};
+
+// ===================================
+// TEXTO
+// ===================================
+
+/**
+ * @description Pasa un texto a minúsculas sin tildes ni espacios repetidos
+ * @param {string} texto - Texto original
+ * @returns {string} Texto normalizado
+ * @example
+ * normalizar('  Protéctor  SOLAR '); // 'protector solar'
+ */
+const normalizar = (texto) =>
+  String(texto || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * @description Escapa los caracteres especiales de regex
+ * @param {string} texto - Texto del usuario
+ * @returns {string} Texto seguro para new RegExp / $regex
+ * @example
+ * escaparRegex('crema (50ml)+'); // 'crema \\(50ml\\)\\+'
+ */
+const escaparRegex = (texto) => String(texto).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * @description Regex que encuentra el texto con o sin tildes
+ * @param {string} texto - Texto del usuario
+ * @returns {string} Patrón para $regex (usar con $options: 'i')
+ * @example
+ * Producto.find({ nombre: { $regex: patronSinAcentos('proteccion'), $options: 'i' } });
+ */
+const patronSinAcentos = (texto) =>
+  escaparRegex(normalizar(texto)).replace(/[aeiounc]/g, (letra) => VARIANTES_LETRA[letra] || letra);
+
+/**
+ * @description Separa un texto normalizado en palabras
+ * @param {string} texto - Texto
+ * @returns {Array<string>} Palabras (letras y números)
+ * @private
+ */
+const palabras = (texto) => normalizar(texto).split(/[^a-z0-9]+/).filter(Boolean);
+
+// ===================================
+// PUNTAJE
+// ===================================
+
+/**
+ * @description Palabras buscadas, sin las vacías (salvo que sean todas vacías)
+ * @param {string} texto - Texto buscado
+ * @returns {Array<string>} Palabras a exigir
+ * @private
+ */
+const palabrasBuscadas = (texto) => {
+  const todas = palabras(texto);
+  const utiles = todas.filter(palabra => !PALABRAS_VACIAS.has(palabra));
+  return utiles.length > 0 ? utiles : todas;
+};
+
+/**
+ * @description Errores de tipeo tolerados según el largo de la palabra
+ * @param {number} largo - Largo de la palabra buscada
+ * @returns {number} Distancia máxima aceptada
+ * @private
+ */
+const toleranciaDe = (largo) => (largo <= 3 ? 0 : largo <= 7 ? 1 : 2);
+
+/**
+ * @description Distancia de edición con transposiciones (Damerau-Levenshtein restringida)
+ * Corta apenas la distancia supera el máximo
+ * @param {string} a - Primera palabra
+ * @param {string} b - Segunda palabra
+ * @param {number} maximo - Distancia máxima de interés
+ * @returns {number} Distancia (o maximo + 1 si lo supera)
+ * @private
+ */
+const distancia = (a, b, maximo) => {
+  if (Math.abs(a.length - b.length) > maximo) return maximo + 1;
+
+  let anterior2 = [];
+  let anterior = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const actual = [i];
+    let minimoFila = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const costo = a[i - 1] === b[j - 1] ? 0 : 1;
+      actual[j] = Math.min(anterior[j] + 1, actual[j - 1] + 1, anterior[j - 1] + costo);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        actual[j] = Math.min(actual[j], anterior2[j - 2] + 1);
+      }
+      minimoFila = Math.min(minimoFila, actual[j]);
+    }
+
+    if (minimoFila > maximo) return maximo + 1;
+    anterior2 = anterior;
+    anterior = actual;
+  }
+
+  return anterior[b.length];
+};
+
+/**
+ * @description Qué tan bien coincide una palabra buscada con las palabras de un campo
+ * @param {string} buscada - Palabra buscada
+ * @param {Array<string>} delCampo - Palabras del campo
+ * @returns {number} Puntaje de 0 a 1
+ * @private
+ */
+const coincidencia = (buscada, delCampo) => {
+  const tolerancia = toleranciaDe(buscada.length);
+  let mejor = 0;
+
+  for (const palabra of delCampo) {
+    if (palabra === buscada) return COINCIDENCIA.exacta;
+
+    if (palabra.startsWith(buscada)) {
+      mejor = Math.max(mejor, COINCIDENCIA.prefijo);
+    } else if (buscada.length >= 3 && palabra.includes(buscada)) {
+      mejor = Math.max(mejor, COINCIDENCIA.contiene);
+    } else if (tolerancia > 0 && mejor < COINCIDENCIA.error1) {
+      // Se compara con la palabra completa y con su inicio (para autocompletar con errores)
+      const d = Math.min(
+        distancia(buscada, palabra, tolerancia),
+        distancia(buscada, palabra.slice(0, buscada.length), tolerancia)
+      );
+      if (d <= tolerancia) {
+        mejor = Math.max(mejor, d === 1 ? COINCIDENCIA.error1 : COINCIDENCIA.error2);
+      }
+    }
+  }
+
+  return mejor;
+};
+
+/**
+ * @description Puntaje de un producto para una búsqueda
+ * @param {Object} producto - Producto con nombre, marca y descripcion
+ * @param {Array<string>} buscadas - Palabras buscadas
+ * @param {string} frase - Búsqueda completa normalizada
+ * @returns {number} Puntaje (0 si alguna palabra no coincide)
+ * @private
+ */
+const puntuar = (producto, buscadas, frase) => {
+  const campos = {
+    nombre: palabras(producto.nombre),
+    marca: palabras(producto.marca),
+    descripcion: palabras(producto.descripcion)
+  };
+
+  let total = 0;
+  for (const buscada of buscadas) {
+    let mejor = 0;
+    for (const [campo, peso] of Object.entries(PESOS)) {
+      mejor = Math.max(mejor, peso * coincidencia(buscada, campos[campo]));
+    }
+    if (mejor === 0) return 0;
+    total += mejor;
+  }
+
+  // Bonus si el nombre contiene la frase completa (más si empieza con ella)
+  const nombre = normalizar(producto.nombre);
+  if (nombre.startsWith(frase)) total += 2;
+  else if (nombre.includes(frase)) total += 1;
+
+  return total;
+};
+
+// ===================================
+// FILTRO EN LA BASE
+// ===================================
+
+/**
+ * @description Parte una palabra buscada en tantos trozos como errores
+ * tolera, más uno: con hasta esos errores, al menos un trozo aparece intacto
+ * en la palabra del producto ("labail" → "lab", "ail")
+ * Una transposición justo entre dos trozos puede romper ambos: esos errores
+ * no se encuentran
+ * @param {string} palabra - Palabra buscada (normalizada)
+ * @returns {Array<string>} Trozos
+ * @private
+ */
+const trozosDe = (palabra) => {
+  const cantidad = toleranciaDe(palabra.length) + 1;
+  const largo = Math.ceil(palabra.length / cantidad);
+  return Array.from({ length: cantidad }, (_, i) => palabra.slice(i * largo, (i + 1) * largo))
+    .filter(Boolean);
+};
+
+/**
+ * @description Filtro de MongoDB con los productos que pueden coincidir
+ * Cada palabra buscada debe tener algún trozo (sin tildes) en el nombre, la
+ * marca o la descripción: descarta en la base lo que puntuar() dejaría en 0
+ * @param {Array<string>} buscadas - Palabras buscadas
+ * @returns {Object} Condición para Producto.find
+ * @private
+ */
+const filtroCandidatos = (buscadas) => ({
+  $and: buscadas.map(buscada => {
+    const patron = trozosDe(buscada).map(patronSinAcentos).join('|');
+    return { $or: CAMPOS.map(campo => ({ [campo]: { $regex: patron, $options: 'i' } })) };
+  })
+});
+
+// ===================================
+// BÚSQUEDA
+// ===================================
+
+/**
+ * @description Busca productos activos de una tienda ordenados por relevancia
+ * Puntúa como máximo MAX_CANDIDATOS productos (los más vistos entre los que
+ * pasan filtroCandidatos)
+ *
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {string} texto - Texto buscado
+ * @returns {Promise<Array<Object>>} Productos (lean: _id, nombre, marca, descripcion, vistas, puntaje)
+ * de mayor a menor puntaje; a igual puntaje, los más vistos primero
+ *
+ * @example
+ * const resultados = await buscarEnTienda(tienda._id, 'protectr solar');
+ * resultados.map(p => p._id); // IDs en orden de relevancia
+ */
+const buscarEnTienda = async (tiendaId, texto) => {
+  const frase = normalizar(texto).slice(0, MAX_LARGO_BUSQUEDA);
+  const buscadas = palabrasBuscadas(frase);
+
+  if (buscadas.length === 0) {
+    return [];
+  }
+
+  const candidatos = await Producto.find(
+    { tienda_id: tiendaId, activo: true, ...filtroCandidatos(buscadas) },
+    'nombre marca descripcion vistas'
+  )
+    .sort({ vistas: -1, _id: 1 })
+    .limit(MAX_CANDIDATOS)
+    .lean();
+
+  return candidatos
+    .map(producto => ({ ...producto, puntaje: puntuar(producto, buscadas, frase) }))
+    .filter(producto => producto.puntaje > 0)
+    .sort((a, b) => b.puntaje - a.puntaje || (b.vistas || 0) - (a.vistas || 0));
+};
+
+/**
+ * @description IDs de los productos que coinciden, en orden de relevancia
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {string} texto - Texto buscado
+ * @returns {Promise<Array<ObjectId>>} IDs ordenados
+ * @example
+ * const ids = await idsPorRelevancia(tienda._id, 'labial mate');
+ */
+const idsPorRelevancia = async (tiendaId, texto) =>
+  (await buscarEnTienda(tiendaId, texto)).map(producto => producto._id);
+
+/**
+ * @description Sugerencias para autocompletar el buscador del catálogo
+ *
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {string} texto - Lo que el cliente lleva escrito
+ * @param {number} [limite=6] - Máximo de productos sugeridos
+ * @returns {Promise<Object>} { productos, marcas, categorias }
+ *
+ * @example
+ * const { productos, marcas, categorias } = await sugerencias(tienda._id, 'lab');
+ * // productos: [{ _id, nombre, marca, precio, precio_oferta, imagen }]
+ * // marcas: ['L'Oréal'] · categorias: [{ nombre: 'Labiales', slug: 'labiales' }]
+ */
+const sugerencias = async (tiendaId, texto, limite = 6) => {
+  const buscadas = palabrasBuscadas(normalizar(texto).slice(0, MAX_LARGO_BUSQUEDA));
+
+  if (buscadas.length === 0) {
+    return { productos: [], marcas: [], categorias: [] };
+  }
+
+  const resultados = await buscarEnTienda(tiendaId, texto);
+
+  const ids = resultados.slice(0, limite).map(producto => producto._id);
+  const [productos, categorias] = await Promise.all([
+    Producto.find({ _id: { $in: ids } }, 'nombre marca precio precio_oferta imagenes').lean(),
+    Categoria.find({ tienda_id: tiendaId }, 'nombre slug').lean()
+  ]);
+
+  const porId = new Map(productos.map(producto => [producto._id.toString(), producto]));
+
+  // Marcas de los resultados que coinciden con lo escrito
+  const marcas = [...new Set(
+    resultados
+      .filter(producto => producto.marca && buscadas.every(b => coincidencia(b, palabras(producto.marca)) > 0))
+      .map(producto => producto.marca)
+  )].slice(0, 3);
+
+  return {
+    productos: ids
+      .map(id => porId.get(id.toString()))
+      .filter(Boolean)
+      .map(producto => ({
+        _id: producto._id,
+        nombre: producto.nombre,
+        marca: producto.marca,
+        precio: producto.precio,
+        precio_oferta: producto.precio_oferta,
+        imagen: producto.imagenes?.[0]?.url
+      })),
+    marcas,
+    categorias: categorias
+      .filter(categoria => buscadas.every(b => coincidencia(b, palabras(categoria.nombre)) > 0))
+      .slice(0, 3)
+      .map(({ nombre, slug }) => ({ nombre, slug }))
+  };
+};
+
+module.exports = {
+  normalizar,
+  escaparRegex,
+  patronSinAcentos,
+  buscarEnTienda,
+  idsPorRelevancia,
+  sugerencias,
+  MAX_LARGO_BUSQUEDA
+};
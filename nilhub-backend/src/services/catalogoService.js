@@ -0,0 +1,305 @@
+// backend/src/services/catalogoService.js
+const mongoose = require('mongoose');
+const Producto = require('../models/Producto');
+const Categoria = require('../models/Categoria');
+const busquedaService = require('./busquedaService');
+
+/**
+ * @fileoverview Consulta paginada del catálogo público de una tienda
+ *
+ * @description
+ * Características:
+ * - Paginación por cursor (estable aunque se agreguen productos)
+ * - Ordenes: relevancia (al buscar), recientes, precio ascendente/descendente, más vistos, ofertas
+ * - Filtros: categoría (con subcategorías), marcas, rango de precio, solo con stock
+ * - Búsqueda sin tildes y tolerante a errores (ver busquedaService)
+ * - Facetas: conteo por categoría y marca, rango de precios y productos con stock
+ *
+ * Las facetas son "disyuntivas": cada una se calcula con todos los filtros
+ * menos el suyo, así al elegir una marca se siguen viendo las demás.
+ * Solo se calculan en la primera página (sin cursor).
+ *
+ * El precio usado para filtrar y ordenar es el que paga el cliente
+ * (precio_oferta si existe, si no precio).
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Productos por página si no se indica límite
+ * @constant
+ */
+const LIMITE_POR_DEFECTO = 24;
+
+/**
+ * Máximo de productos por página (y de IDs en el filtro `ids`)
+ * @constant
+ */
+const LIMITE_MAXIMO = 100;
+
+/**
+ * Ordenes disponibles: campo calculado/real y dirección
+ * @constant
+ */
+const ORDENES = {
+  relevancia: { campo: 'relevancia', direccion: 1 },
+  recientes: { campo: 'createdAt', direccion: -1 },
+  precio_asc: { campo: 'precio_final', direccion: 1 },
+  precio_desc: { campo: 'precio_final', direccion: -1 },
+  vistas: { campo: 'vistas', direccion: -1 },
+  ofertas: { campo: 'descuento', direccion: -1 }
+};
+
+/**
+ * Campos calculados para filtrar y ordenar por precio y descuento
+ * @constant
+ * @private
+ */
+const CAMPOS_CALCULADOS = {
+  $addFields: {
+    precio_final: {
+      $cond: [{ $gt: ['$precio_oferta', 0] }, '$precio_oferta', '$precio']
+    },
+    descuento: {
+      $cond: [
+        { $and: [{ $gt: ['$precio_oferta', 0] }, { $lt: ['$precio_oferta', '$precio'] }] },
+        { $divide: [{ $subtract: ['$precio', '$precio_oferta'] }, '$precio'] },
+        0
+      ]
+    }
+  }
+};
+
+// ===================================
+// CURSOR
+// ===================================
+
+/**
+ * @description Codifica la posición del último producto de una página
+ * @param {Object} producto - Último producto devuelto (con campos calculados)
+ * @param {string} orden - Orden de la consulta
+ * @returns {string} Cursor opaco (base64url)
+ * @private
+ */
+const codificarCursor = (producto, orden) => {
+  const { campo } = ORDENES[orden];
+  return Buffer.from(JSON.stringify([producto[campo], producto._id])).toString('base64url');
+};
+
+/**
+ * @description Lee un cursor recibido del cliente
+ * @param {string} cursor - Cursor devuelto en `siguiente`
+ * @param {string} orden - Orden de la consulta (debe ser el mismo que generó el cursor)
+ * @returns {{valor: *, id: ObjectId}|null} Posición o null si el cursor no es válido
+ * @example
+ * const posicion = leerCursor(req.query.cursor, 'precio_asc');
+ * if (!posicion) return res.status(400).json({ success: false, error: 'Cursor inválido' });
+ */
+const leerCursor = (cursor, orden) => {
+  try {
+    const [valor, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+
+    if (ORDENES[orden].campo === 'createdAt') {
+      const fecha = typeof valor === 'string' ? new Date(valor) : null;
+      return !fecha || isNaN(fecha) ? null : { valor: fecha, id: new mongoose.Types.ObjectId(id) };
+    }
+
+    return typeof valor === 'number'
+      ? { valor, id: new mongoose.Types.ObjectId(id) }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// ===================================
+// FILTROS
+// ===================================
+
+/**
+ * @description Convierte los filtros en condiciones $match, una por filtro
+ * Se guardan por separado para poder omitir una al calcular su faceta
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {Object} filtros - Filtros normalizados
+ * @returns {Promise<Object>} Condiciones por nombre de filtro
+ * @private
+ */
+const construirCondiciones = async (tiendaId, filtros) => {
+  const condiciones = {};
+
+  if (filtros.categoria && filtros.categoria !== 'todas') {
+    condiciones.categoria = {
+      categoria: { $in: await Categoria.slugsConHijas(tiendaId, filtros.categoria) }
+    };
+  }
+
+  if (filtros.marcas.length > 0) {
+    condiciones.marca = { marca: { $in: filtros.marcas } };
+  }
+
+  if (filtros.precioMin !== undefined || filtros.precioMax !== undefined) {
+    const rango = {};
+    if (filtros.precioMin !== undefined) rango.$gte = filtros.precioMin;
+    if (filtros.precioMax !== undefined) rango.$lte = filtros.precioMax;
+    condiciones.precio = { precio_final: rango };
+  }
+
+  if (filtros.enStock) {
+    condiciones.enStock = { hay_stock: true };
+  }
+
+  return condiciones;
+};
+
+/**
+ * @description Une las condiciones en un solo $match
+ * @param {Object} condiciones - Condiciones por nombre de filtro
+ * @param {string} [excluir] - Filtro a omitir (para su propia faceta)
+ * @returns {Object} Etapa $match
+ * @private
+ */
+const combinar = (condiciones, excluir) => ({
+  $match: Object.entries(condiciones)
+    .filter(([nombre]) => nombre !== excluir)
+    .reduce((match, [, condicion]) => ({ ...match, ...condicion }), {})
+});
+
+// ===================================
+// CONSULTA
+// ===================================
+
+/**
+ * @description Obtiene una página del catálogo de una tienda
+ *
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {Object} filtros - Filtros normalizados por el controller
+ * @param {string} [filtros.categoria] - Slug de categoría (incluye subcategorías)
+ * @param {string} [filtros.buscar] - Texto en nombre, marca o descripción (sin tildes, con errores)
+ * @param {Array<string>} filtros.marcas - Marcas a incluir
+ * @param {number} [filtros.precioMin] - Precio final mínimo
+ * @param {number} [filtros.precioMax] - Precio final máximo
+ * @param {boolean} filtros.enStock - Solo productos con stock
+ * @param {Array<string>} filtros.ids - Solo estos productos (ej: los del carrito)
+ * @param {string} filtros.orden - Clave de ORDENES ('relevancia' solo con buscar)
+ * @param {number} filtros.limite - Productos por página
+ * @param {Object|null} filtros.cursor - Posición leída con leerCursor
+ * @returns {Promise<Object>} { productos, total, siguiente, facetas }
+ *
+ * @example
+ * const pagina = await consultarCatalogo(tienda._id, {
+ *   marcas: ['Maybelline'], enStock: true, ids: [],
+ *   orden: 'precio_asc', limite: 24, cursor: null
+ * });
+ * // pagina.siguiente → cursor para la próxima página o null
+ */
+const consultarCatalogo = async (tiendaId, filtros) => {
+  const { campo, direccion } = ORDENES[filtros.orden];
+
+  // Condiciones que no tienen faceta propia
+  const base = { tienda_id: new mongoose.Types.ObjectId(tiendaId), activo: true };
+
+  if (filtros.ids.length > 0) {
+    base._id = { $in: filtros.ids.map(id => new mongoose.Types.ObjectId(id)) };
+  }
+
+  // Con búsqueda solo entran los productos que coinciden; su posición es la relevancia
+  let ranking = [];
+  if (filtros.buscar) {
+    ranking = await busquedaService.idsPorRelevancia(tiendaId, filtros.buscar);
+
+    if (filtros.ids.length > 0) {
+      const pedidos = new Set(filtros.ids);
+      ranking = ranking.filter(id => pedidos.has(id.toString()));
+    }
+    base._id = { $in: ranking };
+  }
+
+  const condiciones = await construirCondiciones(tiendaId, filtros);
+
+  // Página de productos: después del cursor, ordenada y con uno extra para saber si hay más
+  const pagina = [];
+  if (filtros.cursor) {
+    const comparador = direccion === 1 ? '$gt' : '$lt';
+    pagina.push({
+      $match: {
+        $or: [
+          { [campo]: { [comparador]: filtros.cursor.valor } },
+          { [campo]: filtros.cursor.valor, _id: { [comparador]: filtros.cursor.id } }
+        ]
+      }
+    });
+  }
+  pagina.push(
+    { $sort: { [campo]: direccion, _id: direccion } },
+    { $limit: filtros.limite + 1 }
+  );
+
+  const facetas = {
+    productos: [combinar(condiciones), ...pagina],
+    total: [combinar(condiciones), { $count: 'total' }]
+  };
+
+  if (!filtros.cursor) {
+    facetas.categorias = [
+      combinar(condiciones, 'categoria'),
+      { $group: { _id: '$categoria', total: { $sum: 1 } } },
+      { $project: { _id: 0, slug: '$_id', total: 1 } }
+    ];
+    facetas.marcas = [
+      combinar(condiciones, 'marca'),
+      { $match: { marca: { $nin: [null, ''] } } },
+      { $group: { _id: '$marca', total: { $sum: 1 } } },
+      { $sort: { total: -1, _id: 1 } },
+      { $project: { _id: 0, nombre: '$_id', total: 1 } }
+    ];
+    facetas.precio = [
+      combinar(condiciones, 'precio'),
+      { $group: { _id: null, min: { $min: '$precio_final' }, max: { $max: '$precio_final' } } },
+      { $project: { _id: 0, min: 1, max: 1 } }
+    ];
+    facetas.enStock = [
+      combinar(condiciones, 'enStock'),
+      { $match: { hay_stock: true } },
+      { $count: 'total' }
+    ];
+  }
+
+  const [resultado] = await Producto.aggregate([
+    { $match: base },
+    CAMPOS_CALCULADOS,
+    ...(filtros.buscar ? [{ $addFields: { relevancia: { $indexOfArray: [ranking, '$_id'] } } }] : []),
+    { $facet: facetas }
+  ]);
+
+  const hayMas = resultado.productos.length > filtros.limite;
+  const productos = resultado.productos.slice(0, filtros.limite);
+  const ultimo = productos[productos.length - 1];
+
+  return {
+    productos: productos.map(({ precio_final, descuento, relevancia, ...producto }) => producto),
+    total: resultado.total[0]?.total || 0,
+    siguiente: hayMas && ultimo ? codificarCursor(ultimo, filtros.orden) : null,
+    facetas: filtros.cursor
+      ? null
+      : {
+        categorias: resultado.categorias,
+        marcas: resultado.marcas,
+        precio: resultado.precio[0] || null,
+        en_stock: resultado.enStock[0]?.total || 0
+      }
+  };
+};
+
+module.exports = {
+  consultarCatalogo,
+  leerCursor,
+  ORDENES,
+  LIMITE_POR_DEFECTO,
+  LIMITE_MAXIMO
+};
@@ -0,0 +1,385 @@
+// backend/src/services/cuentaService.js
+const archiver = require('archiver');
+const Usuario = require('../models/Usuario');
+const Tienda = require('../models/Tienda');
+const Producto = require('../models/Producto');
+const Categoria = require('../models/Categoria');
+const Pedido = require('../models/Pedido');
+const Evento = require('../models/Evento');
+const EstadisticaDiaria = require('../models/EstadisticaDiaria');
+const Webhook = require('../models/Webhook');
+const EntregaWebhook = require('../models/EntregaWebhook');
+const TokenApi = require('../models/TokenApi');
+const Sesion = require('../models/Sesion');
+const PasswordReset = require('../models/PasswordReset');
+const CodigoAcceso = require('../models/CodigoAcceso');
+const VerificacionEmail = require('../models/VerificacionEmail');
+const { deleteImage } = require('../config/cloudinary');
+const sesionService = require('./sesionService');
+const { enviarAvisoEliminacion } = require('./emailService');
+
+/**
+ * @fileoverview Datos personales de la cuenta: exportación y eliminación
+ *
+ * @description
+ * Exportar (GET /api/auth/cuenta/exportar) entrega un .zip con:
+ *   - datos.json: usuario, historial de accesos, tienda, categorías,
+ *     productos, pedidos, estadísticas diarias, webhooks, tokens de API y
+ *     sesiones abiertas (sin contraseñas, secretos ni hashes)
+ *   - imagenes/: logo, banner e imágenes de productos y variantes
+ *
+ * Eliminar es en dos tiempos:
+ *   1. POST /api/auth/cuenta/eliminacion programa el borrado para dentro de
+ *      DIAS_GRACIA días y oculta la tienda del catálogo. Hasta entonces el
+ *      vendedor puede ingresar y cancelarlo.
+ *   2. Vencido el plazo, un temporizador que se inicia con el servidor
+ *      (iniciarEliminaciones) borra todo con eliminarCuenta.
+ *
+ * eliminarCuenta también la usa el administrador (DELETE /api/admin/usuarios/:id),
+ * sin plazo de gracia.
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Días entre el pedido de eliminación y el borrado
+ * @constant
+ */
+const DIAS_GRACIA = 14;
+
+/**
+ * Cada cuánto se buscan cuentas con el plazo vencido
+ * @constant
+ */
+const INTERVALO_ELIMINACIONES_MS = 60 * 60 * 1000;
+
+/**
+ * Cuentas que se eliminan por vuelta del temporizador
+ * @constant
+ * @private
+ */
+const LOTE_ELIMINACIONES = 10;
+
+/**
+ * Tiempo máximo para descargar cada imagen de la exportación
+ * @constant
+ * @private
+ */
+const TIEMPO_DESCARGA_MS = 15000;
+
+/**
+ * Extensión del archivo según el tipo de imagen
+ * @constant
+ * @private
+ */
+const EXTENSIONES = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg'
+};
+
+/**
+ * Temporizador de eliminaciones
+ * @private
+ */
+let temporizador = null;
+
+// ===================================
+// IMÁGENES
+// ===================================
+
+/**
+ * @description Imágenes de las tiendas y productos de una cuenta
+ * @param {Object[]} tiendas - Tiendas (lean)
+ * @param {Object[]} productos - Productos (lean)
+ * @returns {Array<{url: string, cloudinary_id: string, ruta: string}>}
+ *   ruta es el nombre en el .zip sin extensión
+ * @private
+ */
+const imagenesDe = (tiendas, productos) => {
+  const imagenes = [];
+
+  tiendas.forEach(tienda => {
+    if (tienda.logo_url) {
+      imagenes.push({ url: tienda.logo_url, cloudinary_id: tienda.logo_cloudinary_id, ruta: `imagenes/${tienda.slug}/logo` });
+    }
+    if (tienda.banner_url) {
+      imagenes.push({ url: tienda.banner_url, cloudinary_id: tienda.banner_cloudinary_id, ruta: `imagenes/${tienda.slug}/banner` });
+    }
+  });
+
+  productos.forEach(producto => {
+    const carpeta = `imagenes/productos/${producto._id}`;
+    (producto.imagenes || []).forEach((imagen, i) => {
+      imagenes.push({ ...imagen, ruta: `${carpeta}/${i + 1}` });
+    });
+    (producto.variantes || []).forEach(variante => {
+      if (variante.imagen?.url) {
+        imagenes.push({ ...variante.imagen, ruta: `${carpeta}/variante-${variante._id}` });
+      }
+    });
+  });
+
+  return imagenes;
+};
+
+/**
+ * @description Descarga una imagen de Cloudinary para la exportación
+ * Solo se descargan URLs de Cloudinary: las demás las guardó el cliente y
+ * podrían apuntar a la red interna
+ *
+ * @param {string} url
+ * @returns {Promise<{contenido: Buffer, extension: string}|null>} null si no se pudo
+ * @private
+ */
+const descargarImagen = async (url) => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'https:' || hostname !== 'res.cloudinary.com') return null;
+
+    const respuesta = await fetch(url, { signal: AbortSignal.timeout(TIEMPO_DESCARGA_MS) });
+    if (!respuesta.ok) return null;
+
+    const tipo = (respuesta.headers.get('content-type') || '').split(';')[0];
+    return {
+      contenido: Buffer.from(await respuesta.arrayBuffer()),
+      extension: EXTENSIONES[tipo] || 'img'
+    };
+  } catch (error) {
+    console.warn(`⚠️ No se pudo descargar ${url}:`, error.message);
+    return null;
+  }
+};
+
+// ===================================
+// EXPORTACIÓN
+// ===================================
+
+/**
+ * @description Escribe el .zip con los datos y las imágenes de la cuenta
+ * Las imágenes se descargan de a una para no cargar la memoria
+ *
+ * @param {ObjectId} usuarioId
+ * @param {Writable} destino - Stream de salida (la respuesta de Express)
+ * @returns {Promise<void>} Se resuelve al terminar de escribir
+ *
+ * @example
+ * res.set('Content-Type', 'application/zip');
+ * await cuentaService.exportarDatos(req.usuario._id, res);
+ */
+const exportarDatos = async (usuarioId, destino) => {
+  const usuario = await Usuario.findById(usuarioId).select('+historial_accesos');
+  const tiendas = await Tienda.find({ usuario_id: usuarioId }).lean();
+  const tiendaIds = tiendas.map(t => t._id);
+
+  const [categorias, productos, pedidos, estadisticas, webhooks, tokens, sesiones] = await Promise.all([
+    Categoria.find({ tienda_id: { $in: tiendaIds } }).sort({ orden: 1 }).lean(),
+    Producto.find({ tienda_id: { $in: tiendaIds } }).sort({ createdAt: -1 }).lean(),
+    Pedido.find({ tienda_id: { $in: tiendaIds } }).sort({ createdAt: -1 }).lean(),
+    EstadisticaDiaria.find({ tienda_id: { $in: tiendaIds } }).sort({ dia: 1 }).lean(),
+    Webhook.find({ tienda_id: { $in: tiendaIds } }).select('-secreto').lean(),
+    TokenApi.find({ usuario_id: usuarioId }),
+    sesionService.listar(usuarioId, null)
+  ]);
+
+  const archivo = archiver('zip', { zlib: { level: 6 } });
+  const terminado = new Promise((resolve, reject) => {
+    destino.on('finish', resolve);
+    destino.on('close', resolve);
+    archivo.on('error', reject);
+  });
+  archivo.pipe(destino);
+
+  // Cada imagen queda con la ruta de su archivo en el .zip (null si no se pudo descargar)
+  const imagenes = [];
+  for (const { url, ruta } of imagenesDe(tiendas, productos)) {
+    const descarga = await descargarImagen(url);
+    const nombre = descarga && `${ruta}.${descarga.extension}`;
+    if (descarga) archivo.append(descarga.contenido, { name: nombre });
+    imagenes.push({ url, archivo: nombre || null });
+  }
+
+  const { historial_accesos: historialAccesos, ...datosUsuario } = usuario.toJSON();
+  const datos = {
+    exportado_en: new Date(),
+    usuario: datosUsuario,
+    historial_accesos: historialAccesos || [],
+    tiendas,
+    categorias,
+    productos,
+    pedidos,
+    estadisticas_diarias: estadisticas,
+    webhooks,
+    tokens_api: tokens,
+    sesiones,
+    imagenes
+  };
+
+  archivo.append(JSON.stringify(datos, null, 2), { name: 'datos.json' });
+  await archivo.finalize();
+  await terminado;
+
+  console.log(`📦 Datos exportados: ${usuario.email} (${productos.length} productos, ${imagenes.length} imágenes)`);
+};
+
+// ===================================
+// ELIMINACIÓN
+// ===================================
+
+/**
+ * @description Programa la eliminación de la cuenta y oculta su tienda
+ * @param {Object} usuario
+ * @returns {Promise<Object>} Usuario actualizado (con eliminacion)
+ */
+const programarEliminacion = async (usuario) => {
+  const ahora = new Date();
+  const programadaPara = new Date(ahora.getTime() + DIAS_GRACIA * 24 * 60 * 60 * 1000);
+
+  const actualizado = await Usuario.findByIdAndUpdate(
+    usuario._id,
+    { eliminacion: { solicitada_en: ahora, programada_para: programadaPara } },
+    { new: true }
+  );
+
+  await Tienda.updateMany({ usuario_id: usuario._id }, { eliminacion_pendiente: true });
+
+  await enviarAvisoEliminacion(usuario.email, usuario.nombre, programadaPara);
+
+  console.log(`🗑️ Eliminación programada para ${programadaPara.toISOString()}: ${usuario.email}`);
+
+  return actualizado;
+};
+
+/**
+ * @description Cancela la eliminación programada y vuelve a publicar la tienda
+ * @param {ObjectId} usuarioId
+ * @returns {Promise<Object>} Usuario actualizado
+ */
+const cancelarEliminacion = async (usuarioId) => {
+  const usuario = await Usuario.findByIdAndUpdate(
+    usuarioId,
+    { $unset: { eliminacion: '' } },
+    { new: true }
+  );
+
+  await Tienda.updateMany({ usuario_id: usuarioId }, { $unset: { eliminacion_pendiente: '' } });
+
+  console.log(`↩️ Eliminación cancelada: ${usuario.email}`);
+
+  return usuario;
+};
+
+/**
+ * @description Borra la cuenta y todo lo que depende de ella
+ * Tiendas, productos, categorías, pedidos, analítica, webhooks, tokens,
+ * sesiones y códigos (recuperación, acceso, verificación). Las imágenes se
+ * borran de Cloudinary primero: si alguna falla se registra y se sigue, para
+ * no dejar la cuenta a medio borrar.
+ *
+ * @param {ObjectId} usuarioId
+ * @returns {Promise<Object|null>} Resumen { productos, imagenes, imagenes_fallidas } (null si no existe)
+ */
+const eliminarCuenta = async (usuarioId) => {
+  const usuario = await Usuario.findById(usuarioId);
+  if (!usuario) return null;
+
+  const tiendas = await Tienda.find({ usuario_id: usuario._id }).lean();
+  const tiendaIds = tiendas.map(t => t._id);
+  const productos = await Producto.find({ tienda_id: { $in: tiendaIds } }, 'imagenes variantes').lean();
+
+  const cloudinaryIds = [...new Set(imagenesDe(tiendas, productos).map(i => i.cloudinary_id).filter(Boolean))];
+  const borradas = await Promise.allSettled(cloudinaryIds.map(id => deleteImage(id)));
+  const fallidas = cloudinaryIds.filter((id, i) => borradas[i].status === 'rejected');
+  if (fallidas.length > 0) {
+    console.error(`⚠️ Imágenes que quedaron en Cloudinary (${usuario.email}):`, fallidas.join(', '));
+  }
+
+  const deTiendas = { tienda_id: { $in: tiendaIds } };
+  const deUsuario = { usuario_id: usuario._id };
+
+  await Promise.all([
+    Producto.deleteMany(deTiendas),
+    Categoria.deleteMany(deTiendas),
+    Pedido.deleteMany(deTiendas),
+    Evento.deleteMany(deTiendas),
+    EstadisticaDiaria.deleteMany(deTiendas),
+    Webhook.deleteMany(deTiendas),
+    EntregaWebhook.deleteMany(deTiendas),
+    TokenApi.deleteMany(deUsuario),
+    Sesion.deleteMany(deUsuario),
+    PasswordReset.deleteMany({ $or: [deUsuario, { email: usuario.email }] }),
+    CodigoAcceso.deleteMany(deUsuario),
+    VerificacionEmail.deleteMany(deUsuario)
+  ]);
+
+  await Tienda.deleteMany(deUsuario);
+  await usuario.deleteOne();
+
+  console.log(`🗑️ Cuenta eliminada: ${usuario.email} (${productos.length} productos, ${cloudinaryIds.length - fallidas.length} imágenes)`);
+
+  return {
+    productos: productos.length,
+    imagenes: cloudinaryIds.length - fallidas.length,
+    imagenes_fallidas: fallidas.length
+  };
+};
+
+/**
+ * @description Elimina las cuentas cuyo plazo de gracia venció
+ * Cada cuenta se reserva corriendo su fecha una vuelta: si el borrado falla
+ * se reintenta en la siguiente, y dos procesos no borran la misma
+ * @returns {Promise<number>} Cuentas procesadas
+ */
+const procesarVencidas = async () => {
+  let procesadas = 0;
+
+  while (procesadas < LOTE_ELIMINACIONES) {
+    const ahora = new Date();
+    const usuario = await Usuario.findOneAndUpdate(
+      { 'eliminacion.programada_para': { $lte: ahora } },
+      { $set: { 'eliminacion.programada_para': new Date(ahora.getTime() + INTERVALO_ELIMINACIONES_MS) } },
+      { sort: { 'eliminacion.programada_para': 1 }, projection: '_id' }
+    );
+    if (!usuario) break;
+
+    await eliminarCuenta(usuario._id);
+    procesadas += 1;
+  }
+
+  return procesadas;
+};
+
+/**
+ * @description Inicia el temporizador de eliminaciones (una vez por proceso)
+ */
+const iniciarEliminaciones = () => {
+  if (temporizador) return;
+  temporizador = setInterval(() => {
+    procesarVencidas().catch(err => console.error('❌ Error al eliminar cuentas vencidas:', err));
+  }, INTERVALO_ELIMINACIONES_MS);
+  temporizador.unref();
+};
+
+/**
+ * @description Detiene el temporizador de eliminaciones (cierre del servidor)
+ */
+const detenerEliminaciones = () => {
+  clearInterval(temporizador);
+  temporizador = null;
+};
+
+module.exports = {
+  DIAS_GRACIA,
+  exportarDatos,
+  programarEliminacion,
+  cancelarEliminacion,
+  eliminarCuenta,
+  procesarVencidas,
+  iniciarEliminaciones,
+  detenerEliminaciones
+};
@@ -0,0 +1,293 @@
+// backend/src/services/dosPasosService.js
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
+const Usuario = require('../models/Usuario');
+
+/**
+ * @fileoverview Verificación en dos pasos con códigos TOTP (RFC 6238)
+ *
+ * @description
+ * Compatible con Google Authenticator, Authy, 1Password, etc.: códigos de
+ * 6 dígitos que cambian cada 30 segundos, derivados de un secreto que la
+ * app lee del QR al activar la verificación.
+ *
+ * Login en dos pasos:
+ *   1. POST /api/auth/login con la contraseña correcta → si el usuario tiene
+ *      la verificación activa, no se inicia sesión: se devuelve un "desafío"
+ *      (JWT de 5 minutos que solo sirve para el paso 2)
+ *   2. POST /api/auth/login/dos-pasos con el desafío y el código de la app
+ *      (o un código de recuperación) → se inicia la sesión
+ *
+ * Los códigos de recuperación (10, de un solo uso) se guardan como SHA-256
+ * y sirven en el login y al restablecer la contraseña si se pierde el teléfono.
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Segundos que dura cada código
+ * @constant
+ * @private
+ */
+const PERIODO = 30;
+
+/**
+ * Dígitos de cada código
+ * @constant
+ * @private
+ */
+const DIGITOS = 6;
+
+/**
+ * Intervalos de tolerancia a cada lado (relojes desfasados)
+ * @constant
+ * @private
+ */
+const TOLERANCIA = 1;
+
+/**
+ * Cantidad de códigos de recuperación que se entregan
+ * @constant
+ */
+const CANTIDAD_RECUPERACION = 10;
+
+/**
+ * Duración del desafío entre la contraseña y el código
+ * @constant
+ * @private
+ */
+const DURACION_DESAFIO = '5m';
+
+/**
+ * Nombre de la cuenta en la app autenticadora
+ * @constant
+ * @private
+ */
+const EMISOR = 'NilHub';
+
+/**
+ * Campos ocultos que hacen falta para verificar un código
+ * @constant
+ */
+const CAMPOS_SECRETOS = '+dos_pasos.secreto +dos_pasos.codigos_recuperacion +dos_pasos.ultimo_paso';
+
+// ===================================
+// TOTP
+// ===================================
+
+/**
+ * Alfabeto base32 (RFC 4648), el que usan las apps autenticadoras
+ * @constant
+ * @private
+ */
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * @description Codifica bytes en base32 sin relleno
+ * @param {Buffer} buffer
+ * @returns {string}
+ * @private
+ */
+const aBase32 = (buffer) => {
+  let bits = '';
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+  let texto = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    texto += BASE32[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return texto;
+};
+
+/**
+ * @description Decodifica base32 (ignora espacios y relleno)
+ * @param {string} texto
+ * @returns {Buffer}
+ * @private
+ */
+const deBase32 = (texto) => {
+  let bits = '';
+  for (const letra of texto.toUpperCase().replace(/[\s=]/g, '')) {
+    const valor = BASE32.indexOf(letra);
+    if (valor === -1) throw new Error('Secreto base32 inválido');
+    bits += valor.toString(2).padStart(5, '0');
+  }
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * @description Código TOTP de un intervalo
+ * @param {string} secreto - Secreto en base32
+ * @param {number} paso - Número de intervalo (segundos desde 1970 / PERIODO)
+ * @returns {string} Código de DIGITOS dígitos
+ * @private
+ */
+const codigoDelPaso = (secreto, paso) => {
+  const contador = Buffer.alloc(8);
+  contador.writeBigUInt64BE(BigInt(paso));
+  const hmac = crypto.createHmac('sha1', deBase32(secreto)).update(contador).digest();
+
+  // Truncamiento dinámico (RFC 4226)
+  const desplazamiento = hmac[hmac.length - 1] & 0x0f;
+  const numero = hmac.readUInt32BE(desplazamiento) & 0x7fffffff;
+  return String(numero % 10 ** DIGITOS).padStart(DIGITOS, '0');
+};
+
+/**
+ * @description Busca el intervalo al que corresponde un código
+ * Acepta el intervalo actual y TOLERANCIA a cada lado, pero nunca uno
+ * igual o anterior al último aceptado (un código no sirve dos veces)
+ *
+ * @param {string} secreto - Secreto en base32
+ * @param {string} codigo - Código ingresado
+ * @param {number} [ultimoPaso] - Último intervalo aceptado
+ * @returns {number|null} Intervalo del código o null si no es válido
+ */
+const verificarTotp = (secreto, codigo, ultimoPaso = -1) => {
+  const limpio = String(codigo || '').replace(/\s/g, '');
+  if (!secreto || !/^\d{6}$/.test(limpio)) return null;
+
+  const actual = Math.floor(Date.now() / 1000 / PERIODO);
+  for (let paso = actual - TOLERANCIA; paso <= actual + TOLERANCIA; paso++) {
+    if (paso <= ultimoPaso) continue;
+    const esperado = codigoDelPaso(secreto, paso);
+    if (crypto.timingSafeEqual(Buffer.from(esperado), Buffer.from(limpio))) {
+      return paso;
+    }
+  }
+  return null;
+};
+
+// ===================================
+// ACTIVACIÓN
+// ===================================
+
+/**
+ * @description Genera un secreto nuevo y el QR para escanearlo
+ * @param {Object} usuario - Usuario que activa la verificación
+ * @returns {Promise<{secreto: string, otpauth: string, qr: string}>} Secreto
+ *          (para ingresarlo a mano), URL otpauth:// y QR como data URL PNG
+ */
+const nuevoSecreto = async (usuario) => {
+  const secreto = aBase32(crypto.randomBytes(20));
+  const etiqueta = encodeURIComponent(`${EMISOR}:${usuario.email}`);
+  const otpauth = `otpauth://totp/${etiqueta}?secret=${secreto}&issuer=${EMISOR}` +
+    `&algorithm=SHA1&digits=${DIGITOS}&period=${PERIODO}`;
+  const qr = await QRCode.toDataURL(otpauth, { margin: 1, width: 240 });
+  return { secreto, otpauth, qr };
+};
+
+/**
+ * @description Hash con el que se guarda un código de recuperación
+ * @param {string} codigo - Código con o sin guion, en cualquier caja
+ * @returns {string} SHA-256 en hexadecimal
+ * @private
+ */
+const hashRecuperacion = (codigo) =>
+  crypto.createHash('sha256').update(String(codigo).replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+/**
+ * @description Genera códigos de recuperación nuevos
+ * @returns {{codigos: string[], hashes: string[]}} Códigos para mostrar
+ *          una sola vez (formato xxxxx-xxxxx) y sus hashes para guardar
+ */
+const nuevosCodigosRecuperacion = () => {
+  const codigos = Array.from({ length: CANTIDAD_RECUPERACION }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codigos, hashes: codigos.map(hashRecuperacion) };
+};
+
+// ===================================
+// VERIFICACIÓN
+// ===================================
+
+/**
+ * @description Verifica un código de la app o de recuperación y lo consume
+ * El código TOTP queda marcado como usado (ultimo_paso); el de recuperación
+ * se elimina. Ambos cambios son atómicos: dos peticiones con el mismo código
+ * no pueden pasar las dos.
+ *
+ * @param {Object} usuario - Usuario con CAMPOS_SECRETOS seleccionados
+ * @param {string} codigo - 6 dígitos o código de recuperación
+ * @returns {Promise<'app'|'recuperacion'|null>} Con qué se verificó, o null si no es válido
+ *
+ * @example
+ * const usuario = await Usuario.findById(id).select(dosPasosService.CAMPOS_SECRETOS);
+ * const metodo = await dosPasosService.verificarCodigo(usuario, req.body.codigo);
+ */
+const verificarCodigo = async (usuario, codigo) => {
+  const { secreto, ultimo_paso, codigos_recuperacion = [] } = usuario.dos_pasos || {};
+
+  const paso = verificarTotp(secreto, codigo, ultimo_paso ?? -1);
+  if (paso !== null) {
+    const { modifiedCount } = await Usuario.updateOne(
+      {
+        _id: usuario._id,
+        $or: [{ 'dos_pasos.ultimo_paso': { $lt: paso } }, { 'dos_pasos.ultimo_paso': null }]
+      },
+      { $set: { 'dos_pasos.ultimo_paso': paso } }
+    );
+    return modifiedCount ? 'app' : null;
+  }
+
+  const hash = hashRecuperacion(codigo || '');
+  if (codigos_recuperacion.includes(hash)) {
+    const { modifiedCount } = await Usuario.updateOne(
+      { _id: usuario._id, 'dos_pasos.codigos_recuperacion': hash },
+      { $pull: { 'dos_pasos.codigos_recuperacion': hash } }
+    );
+    if (modifiedCount) {
+      console.log(`🔑 Código de recuperación usado por ${usuario.email} (quedan ${codigos_recuperacion.length - 1})`);
+      return 'recuperacion';
+    }
+  }
+
+  return null;
+};
+
+// ===================================
+// DESAFÍO DE LOGIN
+// ===================================
+
+/**
+ * @description Crea el desafío que recibe quien pasó la contraseña
+ * @param {Object} usuario
+ * @returns {string} JWT que solo vale para POST /api/auth/login/dos-pasos
+ */
+const crearDesafio = (usuario) =>
+  jwt.sign({ id: usuario._id, tipo: 'dos_pasos' }, process.env.JWT_SECRET, { expiresIn: DURACION_DESAFIO });
+
+/**
+ * @description Lee un desafío de login
+ * @param {string} desafio - JWT de crearDesafio
+ * @returns {string|null} ID del usuario o null si es inválido o venció
+ */
+const leerDesafio = (desafio) => {
+  try {
+    const decoded = jwt.verify(String(desafio || ''), process.env.JWT_SECRET);
+    return decoded.tipo === 'dos_pasos' ? decoded.id : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+module.exports = {
+  CAMPOS_SECRETOS,
+  CANTIDAD_RECUPERACION,
+  verificarTotp,
+  nuevoSecreto,
+  nuevosCodigosRecuperacion,
+  verificarCodigo,
+  crearDesafio,
+  leerDesafio
+};
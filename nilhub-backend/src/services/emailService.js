@@ -358,6 +358,527 @@ const generarHTMLConfirmacion = (nombre) => {
   `;
 };
 
+/**
+ * @description Envía el código para verificar el email de una cuenta nueva
+ *
+ * @async
+ * @param {string} email - Email del destinatario
+ * @param {string} nombre - Nombre del destinatario
+ * @param {string} code - Código de 6 dígitos
+ * @returns {Promise<Object>} Resultado del envío
+ *
+ * @throws {Error} Si falla el envío del email
+ *
+ * @example
+ * await enviarCodigoVerificacion('usuario@email.com', 'Juan', '123456');
+ */
+const enviarCodigoVerificacion = async (email, nombre, code) => {
+  try {
+    if (!email || !nombre || !/^\d{6}$/.test(code)) {
+      throw new Error('Faltan parámetros requeridos: email, nombre, code');
+    }
+
+    const mailOptions = {
+      from: `"NilHub - Catálogos Virtuales" <${process.env.GMAIL_USER}>`,
+      to: email,
+      subject: '✉️ Confirma tu email para publicar tu tienda - NilHub',
+      html: generarHTMLVerificacion(nombre, code)
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log(`✅ Código de verificación enviado a ${email} (ID: ${info.messageId})`);
+
+    return { success: true, messageId: info.messageId };
+
+  } catch (error) {
+    console.error('❌ Error al enviar código de verificación:', error.message);
+
+    if (error.code === 'EAUTH') {
+      throw new Error('Error de autenticación con Gmail. Verifica credenciales.');
+    }
+
+    throw new Error('Error al enviar el email: ' + error.message);
+  }
+};
+
+/**
+ * @description Genera HTML del email de verificación
+ *
+ * @param {string} nombre - Nombre del destinatario
+ * @param {string} code - Código de 6 dígitos
+ * @returns {string} HTML del email
+ * @private
+ */
+const generarHTMLVerificacion = (nombre, code) => {
+  return `
+<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Confirma tu email</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Arial', sans-serif; background-color: #f3f4f6;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f3f4f6; padding: 40px 0;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+
+          <tr>
+            <td style="background: linear-gradient(135deg, #EC4899 0%, #A855F7 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold;">
+                ✉️ Confirma tu email
+              </h1>
+              <p style="margin: 10px 0 0 0; color: #ffffff; font-size: 16px; opacity: 0.9;">
+                NilHub - Catálogos Virtuales
+              </p>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="margin: 0 0 20px 0; color: #1f2937; font-size: 16px; line-height: 1.6;">
+                Hola <strong>${nombre}</strong>,
+              </p>
+
+              <p style="margin: 0 0 30px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                ¡Gracias por crear tu tienda en NilHub! Ingresa este código en tu panel para
+                confirmar tu email. Tu catálogo será público en cuanto lo confirmes:
+              </p>
+
+              <table width="100%" cellpadding="0" cellspacing="0" style="margin: 0 0 30px 0;">
+                <tr>
+                  <td align="center" style="background: linear-gradient(135deg, #EC4899 0%, #A855F7 100%); padding: 30px; border-radius: 12px;">
+                    <div style="font-size: 42px; font-weight: bold; color: #ffffff; letter-spacing: 8px; font-family: 'Courier New', monospace;">
+                      ${code}
+                    </div>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                Este código es válido por <strong>24 horas</strong>.
+              </p>
+
+              <p style="margin: 30px 0 0 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
+                Si no creaste una cuenta en NilHub, ignora este mensaje.
+              </p>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="background-color: #f9fafb; padding: 30px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="margin: 0; color: #9ca3af; font-size: 13px;">
+                © ${new Date().getFullYear()} NilHub - Catálogos Virtuales
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+};
+
+/**
+ * @description Envía el código (y el enlace) para ingresar sin contraseña
+ *
+ * @async
+ * @param {string} email - Email del destinatario
+ * @param {string} nombre - Nombre del destinatario
+ * @param {string} code - Código de 6 dígitos
+ * @param {string} enlace - URL del login que ingresa con el código
+ * @returns {Promise<Object>} Resultado del envío
+ *
+ * @throws {Error} Si falla el envío del email
+ *
+ * @example
+ * await enviarCodigoAcceso('usuario@email.com', 'Juan', '123456', 'https://nilhub.xyz/login#...');
+ */
+const enviarCodigoAcceso = async (email, nombre, code, enlace) => {
+  try {
+    if (!email || !nombre || !/^\d{6}$/.test(code) || !enlace) {
+      throw new Error('Faltan parámetros requeridos: email, nombre, code, enlace');
+    }
+
+    const mailOptions = {
+      from: `"NilHub - Catálogos Virtuales" <${process.env.GMAIL_USER}>`,
+      to: email,
+      subject: `🔑 Tu código para ingresar a NilHub: ${code}`,
+      html: generarHTMLAcceso(nombre, code, enlace),
+      priority: 'high'
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log(`✅ Código de acceso enviado a ${email} (ID: ${info.messageId})`);
+
+    return { success: true, messageId: info.messageId };
+
+  } catch (error) {
+    console.error('❌ Error al enviar código de acceso:', error.message);
+
+    if (error.code === 'EAUTH') {
+      throw new Error('Error de autenticación con Gmail. Verifica credenciales.');
+    }
+
+    throw new Error('Error al enviar el email: ' + error.message);
+  }
+};
+
+/**
+ * @description Genera HTML del email de acceso sin contraseña
+ *
+ * @param {string} nombre - Nombre del destinatario
+ * @param {string} code - Código de 6 dígitos
+ * @param {string} enlace - URL del login con el código
+ * @returns {string} HTML del email
+ * @private
+ */
+const generarHTMLAcceso = (nombre, code, enlace) => {
+  return `
+<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Ingresa a NilHub</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Arial', sans-serif; background-color: #f3f4f6;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f3f4f6; padding: 40px 0;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+
+          <tr>
+            <td style="background: linear-gradient(135deg, #EC4899 0%, #A855F7 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold;">
+                🔑 Ingresa a tu tienda
+              </h1>
+              <p style="margin: 10px 0 0 0; color: #ffffff; font-size: 16px; opacity: 0.9;">
+                NilHub - Catálogos Virtuales
+              </p>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="margin: 0 0 20px 0; color: #1f2937; font-size: 16px; line-height: 1.6;">
+                Hola <strong>${nombre}</strong>,
+              </p>
+
+              <p style="margin: 0 0 30px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                Pulsa el botón para ingresar a NilHub sin contraseña:
+              </p>
+
+              <table width="100%" cellpadding="0" cellspacing="0" style="margin: 0 0 30px 0;">
+                <tr>
+                  <td align="center">
+                    <a href="${enlace}" style="display: inline-block; background: linear-gradient(135deg, #EC4899 0%, #A855F7 100%); color: #ffffff; font-size: 16px; font-weight: bold; text-decoration: none; padding: 16px 40px; border-radius: 12px;">
+                      Ingresar a NilHub
+                    </a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 0 0 10px 0; color: #4b5563; font-size: 15px; line-height: 1.6; text-align: center;">
+                O ingresa este código en la página de login:
+              </p>
+              <div style="margin: 0 0 30px 0; font-size: 36px; font-weight: bold; color: #1f2937; letter-spacing: 8px; font-family: 'Courier New', monospace; text-align: center;">
+                ${code}
+              </div>
+
+              <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                El enlace y el código son válidos por <strong>15 minutos</strong> y sirven una sola vez.
+              </p>
+
+              <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; border-radius: 8px; margin: 30px 0;">
+                <tr>
+                  <td>
+                    <p style="margin: 0; color: #92400e; font-size: 14px; line-height: 1.5;">
+                      <strong>⚠️ Importante:</strong> Si no intentaste ingresar, ignora este mensaje
+                      y no compartas el código con nadie.
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="background-color: #f9fafb; padding: 30px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="margin: 0; color: #9ca3af; font-size: 13px;">
+                © ${new Date().getFullYear()} NilHub - Catálogos Virtuales
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+};
+
+/**
+ * @description Avisa que se ingresó a la cuenta desde un dispositivo nuevo
+ * 
+ * @async
+ * @param {string} email - Email del destinatario
+ * @param {string} nombre - Nombre del destinatario
+ * @param {Object} acceso - Datos del ingreso
+ * @param {string} acceso.dispositivo - Navegador y sistema (ej: 'Chrome en Android')
+ * @param {string} acceso.ubicacion - Ciudad y país aproximados (puede ir vacío)
+ * @param {string} acceso.ip - IP de la petición
+ * @param {Date} acceso.fecha - Cuándo ocurrió
+ * @returns {Promise<Object>} Resultado del envío
+ * @returns {boolean} returns.success - Si el envío fue exitoso
+ * 
+ * @example
+ * await enviarAvisoNuevoDispositivo('usuario@email.com', 'Juan', {
+ *   dispositivo: 'Firefox en Windows', ubicacion: 'Lima, PE', ip: '190.0.0.1', fecha: new Date()
+ * });
+ */
+const enviarAvisoNuevoDispositivo = async (email, nombre, acceso) => {
+  try {
+    if (!email || !nombre || !acceso) {
+      throw new Error('Faltan parámetros requeridos: email, nombre, acceso');
+    }
+
+    const mailOptions = {
+      from: `"NilHub - Catálogos Virtuales" <${process.env.GMAIL_USER}>`,
+      to: email,
+      subject: '🔔 Nuevo ingreso a tu cuenta - NilHub',
+      html: generarHTMLNuevoDispositivo(nombre, acceso)
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log(`✅ Aviso de nuevo dispositivo enviado a ${email} (ID: ${info.messageId})`);
+
+    return { success: true, messageId: info.messageId };
+
+  } catch (error) {
+    console.error('❌ Error al enviar aviso de nuevo dispositivo:', error.message);
+    // No lanzar error - el login ya se completó
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * @description Genera HTML del aviso de ingreso desde un dispositivo nuevo
+ * 
+ * @param {string} nombre - Nombre del destinatario
+ * @param {Object} acceso - { dispositivo, ubicacion, ip, fecha }
+ * @returns {string} HTML del email
+ * @private
+ */
+const generarHTMLNuevoDispositivo = (nombre, { dispositivo, ubicacion, ip, fecha }) => {
+  const enlace = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/admin/seguridad`;
+  const cuando = new Date(fecha).toLocaleString('es-PE', { dateStyle: 'long', timeStyle: 'short' });
+  const fila = (etiqueta, valor) => `
+                <tr>
+                  <td style="padding: 6px 0; color: #6b7280; font-size: 14px; width: 120px;">${etiqueta}</td>
+                  <td style="padding: 6px 0; color: #1f2937; font-size: 14px;"><strong>${valor}</strong></td>
+                </tr>`;
+
+  return `
+<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Arial', sans-serif; background-color: #f3f4f6;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f3f4f6; padding: 40px 0;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+          
+          <tr>
+            <td style="background: linear-gradient(135deg, #3B82F6 0%, #8B5CF6 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold;">
+                🔔 Nuevo ingreso a tu cuenta
+              </h1>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="margin: 0 0 20px 0; color: #1f2937; font-size: 16px;">
+                Hola <strong>${nombre}</strong>,
+              </p>
+              
+              <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                Alguien ingresó a tu cuenta de <strong>NilHub</strong> desde un dispositivo que no habías usado antes:
+              </p>
+
+              <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f9fafb; border: 1px solid #e5e7eb; padding: 15px 20px; border-radius: 8px; margin: 20px 0;">
+                ${fila('Dispositivo', dispositivo)}
+                ${ubicacion ? fila('Ubicación', ubicacion) : ''}
+                ${fila('IP', ip || 'Desconocida')}
+                ${fila('Fecha', cuando)}
+              </table>
+
+              <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                Si fuiste tú, no tienes que hacer nada.
+              </p>
+
+              <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; border-radius: 8px; margin: 20px 0;">
+                <tr>
+                  <td>
+                    <p style="margin: 0; color: #92400e; font-size: 14px; line-height: 1.5;">
+                      <strong>⚠️ ¿No fuiste tú?</strong> Cambia tu contraseña y cierra las sesiones
+                      que no reconozcas desde <a href="${enlace}" style="color: #92400e;">Seguridad</a>.
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="background-color: #f9fafb; padding: 30px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="margin: 0; color: #9ca3af; font-size: 13px;">
+                © ${new Date().getFullYear()} NilHub - Catálogos Virtuales
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+};
+
+/**
+ * @description Confirma que se pidió eliminar la cuenta y hasta cuándo se puede cancelar
+ * 
+ * @async
+ * @param {string} email - Email del destinatario
+ * @param {string} nombre - Nombre del destinatario
+ * @param {Date} programadaPara - Cuándo se borran los datos
+ * @returns {Promise<Object>} Resultado del envío
+ * @returns {boolean} returns.success - Si el envío fue exitoso
+ * 
+ * @example
+ * await enviarAvisoEliminacion('usuario@email.com', 'Juan', usuario.eliminacion.programada_para);
+ */
+const enviarAvisoEliminacion = async (email, nombre, programadaPara) => {
+  try {
+    if (!email || !nombre || !programadaPara) {
+      throw new Error('Faltan parámetros requeridos: email, nombre, programadaPara');
+    }
+
+    const mailOptions = {
+      from: `"NilHub - Catálogos Virtuales" <${process.env.GMAIL_USER}>`,
+      to: email,
+      subject: '🗑️ Tu cuenta de NilHub se eliminará - NilHub',
+      html: generarHTMLEliminacion(nombre, programadaPara)
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log(`✅ Aviso de eliminación enviado a ${email} (ID: ${info.messageId})`);
+
+    return { success: true, messageId: info.messageId };
+
+  } catch (error) {
+    console.error('❌ Error al enviar aviso de eliminación:', error.message);
+    // No lanzar error - la eliminación ya quedó programada
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * @description Genera HTML del aviso de eliminación de cuenta
+ * 
+ * @param {string} nombre - Nombre del destinatario
+ * @param {Date} programadaPara - Cuándo se borran los datos
+ * @returns {string} HTML del email
+ * @private
+ */
+const generarHTMLEliminacion = (nombre, programadaPara) => {
+  const enlace = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/admin/seguridad`;
+  const fecha = new Date(programadaPara).toLocaleString('es-PE', { dateStyle: 'long', timeStyle: 'short' });
+
+  return `
+<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Arial', sans-serif; background-color: #f3f4f6;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f3f4f6; padding: 40px 0;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+          
+          <tr>
+            <td style="background: linear-gradient(135deg, #EF4444 0%, #B91C1C 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold;">
+                🗑️ Eliminación de cuenta
+              </h1>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="margin: 0 0 20px 0; color: #1f2937; font-size: 16px;">
+                Hola <strong>${nombre}</strong>,
+              </p>
+              
+              <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                Recibimos tu pedido para eliminar tu cuenta de <strong>NilHub</strong>. Tu tienda ya no
+                aparece en el catálogo público.
+              </p>
+
+              <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                El <strong>${fecha}</strong> borraremos tu cuenta, tu tienda, tus productos con sus imágenes,
+                tus pedidos y tus estadísticas. Esto no se puede deshacer.
+              </p>
+
+              <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; border-radius: 8px; margin: 20px 0;">
+                <tr>
+                  <td>
+                    <p style="margin: 0; color: #92400e; font-size: 14px; line-height: 1.5;">
+                      <strong>¿Cambiaste de opinión?</strong> Ingresa antes de esa fecha y pulsa
+                      "Cancelar eliminación" en <a href="${enlace}" style="color: #92400e;">Seguridad</a>.
+                      Ahí también puedes descargar una copia de tus datos.
+                    </p>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 20px 0 0 0; color: #ef4444; font-size: 14px; line-height: 1.6;">
+                Si <strong>no</strong> pediste esto, ingresa, cancela la eliminación y cambia tu contraseña.
+              </p>
+            </td>
+          </tr>
+
+          <tr>
+            <td style="background-color: #f9fafb; padding: 30px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="margin: 0; color: #9ca3af; font-size: 13px;">
+                © ${new Date().getFullYear()} NilHub - Catálogos Virtuales
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+};
+
 /**
  * @description Cierra el transporter de Gmail
  * Útil para testing o cierre graceful
@@ -377,5 +898,9 @@ const cerrarTransporter = async () => {
 module.exports = {
   enviarCodigoRecuperacion,
   enviarConfirmacionCambio,
+  enviarCodigoVerificacion,
+  enviarCodigoAcceso,
+  enviarAvisoNuevoDispositivo,
+  enviarAvisoEliminacion,
   cerrarTransporter
 };
\ No newline at end of file
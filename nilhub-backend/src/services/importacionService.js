@@ -0,0 +1,634 @@
+// backend/src/services/importacionService.js
+const ExcelJS = require('exceljs');
+const Producto = require('../models/Producto');
+const Categoria = require('../models/Categoria');
+const { uploadImage } = require('../config/cloudinary');
+const { normalizar } = require('./busquedaService');
+const webhookService = require('./webhookService');
+const { esquemaCrearProducto, esquemaActualizarProducto } = require('nilhub-shared');
+const { validarDatos } = require('../middleware/validar');
+
+/**
+ * @fileoverview Importación y exportación masiva de productos (CSV / XLSX)
+ *
+ * @description
+ * Flujo de importación:
+ * 1. Se lee el archivo: la primera fila con datos son los encabezados
+ * 2. Cada campo de Producto se asocia a una columna (mapeo); si no se envía
+ *    mapeo, se sugiere uno comparando los encabezados con ALIAS
+ * 3. Cada fila se valida con los mismos esquemas que POST/PUT /api/productos
+ *    (nilhub-shared), más las del controller (categoría de la tienda,
+ *    oferta menor al precio) y las del modelo
+ * 4. Si no es simulación, las filas válidas se crean o actualizan: un producto
+ *    existente se reconoce por SKU o por nombre (sin tildes ni mayúsculas)
+ *
+ * Las imágenes vienen como URLs y se copian a Cloudinary al aplicar.
+ * Las que ya son del producto (ej: al reimportar una exportación) no se
+ * vuelven a subir.
+ *
+ * La exportación usa los mismos encabezados, así el archivo exportado
+ * se puede editar y volver a importar sin mapear columnas.
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Columnas del formato de importación/exportación, en orden
+ * `alias` son encabezados alternativos reconocidos (ya normalizados)
+ * @constant
+ */
+const COLUMNAS = [
+  { campo: 'sku', encabezado: 'SKU', alias: ['codigo', 'cod', 'referencia', 'ref'] },
+  { campo: 'nombre', encabezado: 'Nombre', alias: ['producto', 'titulo', 'name'] },
+  { campo: 'descripcion', encabezado: 'Descripción', alias: ['detalle', 'description'] },
+  { campo: 'categoria', encabezado: 'Categoría', alias: ['category', 'tipo'] },
+  { campo: 'marca', encabezado: 'Marca', alias: ['brand', 'fabricante'] },
+  { campo: 'precio', encabezado: 'Precio', alias: ['precio normal', 'precio regular', 'price'] },
+  { campo: 'precio_oferta', encabezado: 'Precio oferta', alias: ['oferta', 'precio de oferta', 'sale price'] },
+  { campo: 'stock', encabezado: 'Stock', alias: ['cantidad', 'inventario', 'unidades'] },
+  { campo: 'imagenes', encabezado: 'Imágenes', alias: ['imagen', 'fotos', 'foto', 'images', 'image', 'urls'] },
+  { campo: 'ingredientes', encabezado: 'Ingredientes', alias: ['composicion'] },
+  { campo: 'peso', encabezado: 'Peso', alias: ['tamano', 'contenido', 'medida'] },
+  { campo: 'activo', encabezado: 'Activo', alias: ['visible', 'publicado'] }
+];
+
+/**
+ * Formas de reconocer un producto existente
+ * @constant
+ */
+const CLAVES = ['sku', 'nombre'];
+
+/**
+ * Máximo de filas por archivo (sin contar encabezados)
+ * @constant
+ */
+const MAX_FILAS = 500;
+
+/**
+ * Separador de URLs en la columna de imágenes al exportar
+ * (al importar también se aceptan comas, punto y coma y saltos de línea)
+ * @constant
+ */
+const SEPARADOR_IMAGENES = ' | ';
+
+/**
+ * Carpeta de Cloudinary para las imágenes importadas
+ * @constant
+ * @private
+ */
+const CARPETA_IMAGENES = 'nilhub/productos';
+
+/**
+ * Tipos de archivo por extensión
+ * @constant
+ */
+const FORMATOS = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// ===================================
+// CSV
+// ===================================
+
+/**
+ * @description Detecta el separador de un CSV en su primera línea
+ * Excel en español guarda con punto y coma
+ * @param {string} linea - Primera línea del archivo
+ * @returns {string} Separador (',', ';' o tabulación)
+ * @private
+ */
+const detectarSeparador = (linea) => {
+  const sinComillas = linea.replace(/"[^"]*"/g, '');
+  return [',', ';', '\t']
+    .map(separador => ({ separador, veces: sinComillas.split(separador).length }))
+    .sort((a, b) => b.veces - a.veces)[0].separador;
+};
+
+/**
+ * @description Lee un CSV (RFC 4180: comillas dobles, saltos de línea dentro de comillas)
+ * @param {string} texto - Contenido del archivo
+ * @returns {Array<Array<string>>} Filas de celdas
+ * @private
+ */
+const leerCsv = (texto) => {
+  const contenido = texto.replace(/^\uFEFF/, '');
+  const separador = detectarSeparador(contenido.split(/\r?\n/, 1)[0]);
+  const filas = [];
+  let fila = [];
+  let celda = '';
+  let enComillas = false;
+
+  for (let i = 0; i < contenido.length; i++) {
+    const c = contenido[i];
+
+    if (enComillas) {
+      if (c === '"' && contenido[i + 1] === '"') {
+        celda += '"';
+        i++;
+      } else if (c === '"') {
+        enComillas = false;
+      } else {
+        celda += c;
+      }
+    } else if (c === '"') {
+      enComillas = true;
+    } else if (c === separador) {
+      fila.push(celda);
+      celda = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && contenido[i + 1] === '\n') i++;
+      fila.push(celda);
+      filas.push(fila);
+      fila = [];
+      celda = '';
+    } else {
+      celda += c;
+    }
+  }
+
+  if (celda !== '' || fila.length > 0) {
+    fila.push(celda);
+    filas.push(fila);
+  }
+
+  return filas;
+};
+
+/**
+ * @description Escribe filas como CSV (con BOM para que Excel lea las tildes)
+ * @param {Array<Array<*>>} filas - Filas de celdas
+ * @returns {Buffer} Archivo CSV en UTF-8
+ * @private
+ */
+const escribirCsv = (filas) => {
+  const celda = (valor) => {
+    const texto = valor === undefined || valor === null ? '' : String(valor);
+    return /[",;\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+  };
+  return Buffer.from('\uFEFF' + filas.map(fila => fila.map(celda).join(',')).join('\r\n'), 'utf8');
+};
+
+// ===================================
+// XLSX
+// ===================================
+
+/**
+ * @description Convierte el valor de una celda de Excel en texto
+ * Maneja texto enriquecido, hipervínculos, fórmulas y fechas
+ * @param {*} valor - cell.value de exceljs
+ * @returns {string} Texto de la celda
+ * @private
+ */
+const textoDeCelda = (valor) => {
+  if (valor === null || valor === undefined) return '';
+  if (valor instanceof Date) return valor.toISOString();
+  if (typeof valor !== 'object') return String(valor);
+  if (valor.richText) return valor.richText.map(parte => parte.text).join('');
+  if (valor.hyperlink) return valor.hyperlink;
+  if ('result' in valor) return textoDeCelda(valor.result);
+  return valor.text ? String(valor.text) : '';
+};
+
+/**
+ * @description Lee la primera hoja de un archivo XLSX
+ * @param {Buffer} buffer - Contenido del archivo
+ * @returns {Promise<Array<Array<string>>>} Filas de celdas
+ * @private
+ */
+const leerXlsx = async (buffer) => {
+  const libro = new ExcelJS.Workbook();
+  await libro.xlsx.load(buffer);
+  const hoja = libro.worksheets[0];
+  const filas = [];
+
+  if (!hoja) return filas;
+
+  hoja.eachRow((fila, numero) => {
+    // row.values empieza en el índice 1 y tiene huecos en las celdas vacías
+    filas[numero - 1] = Array.from(fila.values.slice(1), textoDeCelda);
+  });
+
+  // Las filas vacías quedan como huecos: se conservan para numerar bien
+  return Array.from(filas, fila => fila || []);
+};
+
+/**
+ * @description Escribe filas como XLSX (encabezados en negrita, primera fila fija)
+ * @param {Array<Array<*>>} filas - Filas de celdas (la primera son encabezados)
+ * @returns {Promise<Buffer>} Archivo XLSX
+ * @private
+ */
+const escribirXlsx = async (filas) => {
+  const libro = new ExcelJS.Workbook();
+  libro.creator = 'NilHub';
+  const hoja = libro.addWorksheet('Productos', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  hoja.addRows(filas);
+  hoja.getRow(1).font = { bold: true };
+  hoja.columns.forEach((columna, i) => {
+    columna.width = ['descripcion', 'imagenes', 'ingredientes'].includes(COLUMNAS[i]?.campo) ? 50 : 16;
+  });
+
+  return Buffer.from(await libro.xlsx.writeBuffer());
+};
+
+// ===================================
+// LECTURA Y MAPEO
+// ===================================
+
+/**
+ * @description Formato de un archivo según su nombre
+ * @param {string} nombreArchivo - Nombre original del archivo
+ * @returns {'csv'|'xlsx'|null} Formato o null si no se soporta
+ */
+const formatoDe = (nombreArchivo = '') => {
+  const extension = nombreArchivo.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+  return null;
+};
+
+/**
+ * @description Lee un archivo CSV o XLSX
+ * Descarta filas vacías; la primera con datos son los encabezados
+ * @param {Buffer} buffer - Contenido del archivo
+ * @param {'csv'|'xlsx'} formato - Formato (ver formatoDe)
+ * @returns {Promise<{columnas: Array<string>, filas: Array<{numero: number, celdas: Array<string>}>}>}
+ *          Encabezados y filas de datos con su número de fila en el archivo
+ * @throws {Error} Si el archivo no se puede leer
+ */
+const leerArchivo = async (buffer, formato) => {
+  const crudas = formato === 'xlsx' ? await leerXlsx(buffer) : leerCsv(buffer.toString('utf8'));
+
+  const filas = crudas
+    .map((celdas, i) => ({ numero: i + 1, celdas: celdas.map(c => c.trim()) }))
+    .filter(({ celdas }) => celdas.some(Boolean));
+
+  const [encabezados, ...datos] = filas;
+
+  return {
+    columnas: encabezados ? encabezados.celdas : [],
+    filas: datos
+  };
+};
+
+/**
+ * @description Sugiere qué columna del archivo corresponde a cada campo
+ * Compara encabezados sin tildes ni mayúsculas con el encabezado y los alias
+ * @param {Array<string>} columnas - Encabezados del archivo
+ * @returns {Object<string, string>} Campo → encabezado (solo los reconocidos)
+ * @example
+ * sugerirMapeo(['Código', 'Producto', 'Precio (S/)', 'Notas']);
+ * // { sku: 'Código', nombre: 'Producto', precio: 'Precio (S/)' }
+ */
+const sugerirMapeo = (columnas) => {
+  const mapeo = {};
+  const usadas = new Set();
+
+  // "Precio (S/)*" → "precio", "precio_oferta" → "precio oferta"
+  const limpiar = (texto) => normalizar(texto.replace(/\(.*?\)|[_*:]/g, ' '));
+
+  for (const { campo, encabezado, alias } of COLUMNAS) {
+    const nombres = [limpiar(encabezado), limpiar(campo), ...alias];
+    const columna = columnas.find(c => !usadas.has(c) && nombres.includes(limpiar(c)));
+    if (columna) {
+      mapeo[campo] = columna;
+      usadas.add(columna);
+    }
+  }
+
+  return mapeo;
+};
+
+/**
+ * @description Lee un número escrito a mano ("S/ 25,50" → "25.50")
+ * Devuelve texto: los esquemas de nilhub-shared lo convierten a número
+ * @param {string} texto - Celda
+ * @returns {string} Número con punto decimal (o el texto original si no lo parece)
+ * @private
+ */
+const numeroDeTexto = (texto) => {
+  let limpio = texto.replace(/s\/\.?|\$|\s/gi, '');
+  // Coma decimal: "25,50" o "1.250,50"
+  if (/,\d{1,2}$/.test(limpio)) {
+    limpio = limpio.replace(/\./g, '').replace(',', '.');
+  } else {
+    limpio = limpio.replace(/,/g, '');
+  }
+  return limpio === '' ? texto : limpio;
+};
+
+/**
+ * @description Convierte una fila del archivo en datos de producto según el mapeo
+ * Las celdas vacías se omiten (al actualizar no borran el valor actual)
+ * @param {Array<string>} celdas - Celdas de la fila
+ * @param {Array<string>} columnas - Encabezados del archivo
+ * @param {Object<string, string>} mapeo - Campo → encabezado
+ * @returns {Object} Datos del producto (imagenes como array de URLs)
+ * @private
+ */
+const datosDeFila = (celdas, columnas, mapeo) => {
+  const datos = {};
+
+  for (const [campo, encabezado] of Object.entries(mapeo)) {
+    const valor = celdas[columnas.indexOf(encabezado)];
+    if (!valor) continue;
+
+    if (['precio', 'precio_oferta', 'stock'].includes(campo)) {
+      datos[campo] = numeroDeTexto(valor);
+    } else if (campo === 'imagenes') {
+      datos.imagenes = valor.split(/\s*[|,;\n]\s*/).filter(Boolean);
+    } else if (campo === 'activo') {
+      datos.activo = !['no', 'false', '0', 'inactivo', 'oculto'].includes(normalizar(valor));
+    } else {
+      datos[campo] = valor;
+    }
+  }
+
+  return datos;
+};
+
+// ===================================
+// VALIDACIÓN
+// ===================================
+
+/**
+ * @description Clave de búsqueda de un producto (SKU o nombre normalizado)
+ * @param {Object} datos - Producto o datos de fila
+ * @param {'sku'|'nombre'} clave - Forma de reconocer productos
+ * @returns {string} Clave o '' si no tiene
+ * @private
+ */
+const claveDe = (datos, clave) => clave === 'sku'
+  ? (datos.sku || '').trim().toUpperCase()
+  : normalizar(datos.nombre || '').trim();
+
+/**
+ * @description Valida una fila contra las reglas de la API y del modelo
+ * @param {Object} datos - Datos de la fila (se normalizan en el lugar)
+ * @param {Object|null} existente - Producto que se actualizaría
+ * @param {Map<string, string>} categorias - Nombre/slug normalizado → slug
+ * @param {ObjectId} tiendaId - ID de la tienda
+ * @returns {Promise<Array<string>>} Errores de la fila
+ * @private
+ */
+const validarFila = async (datos, existente, categorias, tiendaId) => {
+  // Las imágenes llegan como URLs: se validan con la forma de la API y se conservan las URLs
+  const { imagenes } = datos;
+  const { errores, datos: normalizados } = validarDatos(
+    existente ? esquemaActualizarProducto : esquemaCrearProducto,
+    { ...datos, imagenes: imagenes?.map(url => ({ url, cloudinary_id: 'importacion' })) }
+  );
+  if (normalizados) {
+    Object.assign(datos, normalizados, imagenes && { imagenes });
+  }
+
+  // La categoría se acepta por nombre o por slug
+  if (datos.categoria) {
+    const slug = categorias.get(normalizar(datos.categoria));
+    if (slug) {
+      datos.categoria = slug;
+    } else {
+      errores.push(`La categoría "${datos.categoria}" no existe en tu tienda`);
+    }
+  }
+
+  const precio = datos.precio !== undefined ? datos.precio : existente?.precio;
+  if (datos.precio_oferta && typeof precio === 'number' && datos.precio_oferta >= precio) {
+    errores.push('El precio de oferta debe ser menor al precio normal');
+  }
+
+  const invalidas = (datos.imagenes || []).filter(url => !/^https?:\/\/\S+$/i.test(url));
+  if (invalidas.length > 0) {
+    errores.push(`URL de imagen inválida: ${invalidas[0]}`);
+  }
+
+  // Con variantes el stock es la suma de sus stocks
+  if (existente?.variantes?.length > 0 && datos.stock !== undefined) {
+    if (Number(datos.stock) !== existente.stock) {
+      errores.push('Este producto tiene variantes: edita el stock de cada variante');
+    }
+    delete datos.stock;
+  }
+
+  // Reglas del modelo (largos, mínimos) sobre el producto como quedaría
+  if (errores.length === 0) {
+    const { _id, ...actual } = existente || {};
+    const documento = new Producto({
+      ...actual,
+      ...datos,
+      tienda_id: tiendaId,
+      imagenes: (datos.imagenes || []).map(url => ({ url, cloudinary_id: 'importacion' }))
+    });
+    const error = documento.validateSync();
+    if (error) {
+      errores.push(...Object.values(error.errors).map(e => e.message));
+    }
+  }
+
+  return errores;
+};
+
+/**
+ * @description Valida todas las filas y decide qué hacer con cada una
+ *
+ * @param {Object} tienda - Tienda del usuario
+ * @param {Object} archivo - Resultado de leerArchivo
+ * @param {Object} opciones
+ * @param {Object<string, string>} opciones.mapeo - Campo → encabezado
+ * @param {'sku'|'nombre'} opciones.clave - Forma de reconocer productos existentes
+ * @returns {Promise<Array<Object>>} Por fila: { fila, accion, nombre, sku, errores, datos, existente }
+ *          accion: 'crear' | 'actualizar' | 'error'
+ *
+ * @example
+ * const archivo = await leerArchivo(req.file.buffer, 'csv');
+ * const filas = await prepararImportacion(tienda, archivo, { mapeo, clave: 'sku' });
+ */
+const prepararImportacion = async (tienda, archivo, { mapeo, clave }) => {
+  const [productos, categorias] = await Promise.all([
+    Producto.find({ tienda_id: tienda._id }).lean(),
+    Categoria.find({ tienda_id: tienda._id }).select('nombre slug').lean()
+  ]);
+
+  const porClave = new Map(
+    productos.filter(p => claveDe(p, clave)).map(p => [claveDe(p, clave), p])
+  );
+  const categoriasPorNombre = new Map();
+  categorias.forEach(c => {
+    categoriasPorNombre.set(normalizar(c.nombre), c.slug);
+    categoriasPorNombre.set(normalizar(c.slug), c.slug);
+  });
+
+  const vistas = new Map(); // clave → número de fila donde apareció primero
+  const resultado = [];
+
+  for (const { numero, celdas } of archivo.filas) {
+    const datos = datosDeFila(celdas, archivo.columnas, mapeo);
+    const valorClave = claveDe(datos, clave);
+    const existente = valorClave ? porClave.get(valorClave) || null : null;
+    const errores = [];
+
+    if (!valorClave) {
+      errores.push(clave === 'sku' ? 'Falta el SKU' : 'Falta el nombre');
+    } else if (vistas.has(valorClave)) {
+      errores.push(`${clave === 'sku' ? 'SKU' : 'Nombre'} repetido (fila ${vistas.get(valorClave)})`);
+    } else {
+      vistas.set(valorClave, numero);
+      errores.push(...await validarFila(datos, existente, categoriasPorNombre, tienda._id));
+    }
+
+    // Al importar por nombre, el SKU no puede ser de otro producto
+    if (clave === 'nombre' && datos.sku && errores.length === 0) {
+      const duenio = productos.find(p => p.sku === datos.sku.toUpperCase());
+      if (duenio && duenio._id.toString() !== existente?._id.toString()) {
+        errores.push(`El SKU ${datos.sku} ya es de "${duenio.nombre}"`);
+      }
+    }
+
+    resultado.push({
+      fila: numero,
+      accion: errores.length > 0 ? 'error' : existente ? 'actualizar' : 'crear',
+      nombre: datos.nombre || existente?.nombre || '',
+      sku: datos.sku || existente?.sku || '',
+      errores,
+      datos,
+      existente
+    });
+  }
+
+  return resultado;
+};
+
+// ===================================
+// APLICACIÓN
+// ===================================
+
+/**
+ * @description Copia las imágenes de una fila a Cloudinary
+ * Reutiliza las que ya son del producto (misma URL)
+ * @param {Array<string>} urls - URLs de la fila
+ * @param {Object|null} existente - Producto que se actualiza
+ * @returns {Promise<Array<{url: string, cloudinary_id: string}>>} Imágenes guardadas
+ * @throws {Error} Si alguna imagen no se puede descargar
+ * @private
+ */
+const guardarImagenes = async (urls, existente) => {
+  const actuales = new Map((existente?.imagenes || []).map(img => [img.url, img]));
+
+  return Promise.all(urls.map(async (url) => {
+    if (actuales.has(url)) {
+      const { url: guardada, cloudinary_id } = actuales.get(url);
+      return { url: guardada, cloudinary_id };
+    }
+    try {
+      const { url: subida, cloudinary_id } = await uploadImage(url, CARPETA_IMAGENES);
+      return { url: subida, cloudinary_id };
+    } catch {
+      throw new Error(`No se pudo descargar la imagen ${url}`);
+    }
+  }));
+};
+
+/**
+ * @description Emite los webhooks de un producto importado sin esperar el envío
+ * Al actualizar, también producto.stock si cambió
+ * @private
+ */
+const emitirWebhooks = (tienda, evento, producto, existente) => {
+  if (!producto) return;
+  webhookService.emitir(tienda._id, evento, producto.toJSON())
+    .then(() => existente && webhookService.emitirCambioStock(producto, webhookService.stockDe(existente)))
+    .catch(err => console.error('❌ Error al emitir webhook:', err));
+};
+
+/**
+ * @description Crea o actualiza los productos de las filas válidas
+ * Las filas se procesan una por una; un error en una no detiene las demás
+ *
+ * @param {Object} tienda - Tienda del usuario (documento de Mongoose)
+ * @param {Array<Object>} filas - Resultado de prepararImportacion
+ * @returns {Promise<Array<Object>>} Las mismas filas con `producto_id`,
+ *          o accion 'error' si falló al guardar
+ */
+const aplicarImportacion = async (tienda, filas) => {
+  let creados = 0;
+
+  for (const fila of filas) {
+    if (fila.accion === 'error') continue;
+
+    try {
+      const datos = { ...fila.datos };
+      if (datos.imagenes) {
+        datos.imagenes = await guardarImagenes(datos.imagenes, fila.existente);
+      }
+
+      if (fila.existente) {
+        const producto = await Producto.findByIdAndUpdate(fila.existente._id, datos, { new: true, runValidators: true });
+        fila.producto_id = fila.existente._id;
+        emitirWebhooks(tienda, 'producto.actualizado', producto, fila.existente);
+      } else {
+        const producto = await Producto.create({ ...datos, tienda_id: tienda._id });
+        fila.producto_id = producto._id;
+        creados++;
+        emitirWebhooks(tienda, 'producto.creado', producto);
+      }
+    } catch (error) {
+      fila.accion = 'error';
+      fila.errores = [error.code === 11000 ? 'Ya existe un producto con ese SKU' : error.message];
+    }
+  }
+
+  if (creados > 0) {
+    tienda.total_productos += creados;
+    await tienda.save();
+  }
+
+  console.log(`✅ Importación en ${tienda.nombre}: ${filas.filter(f => f.producto_id).length} productos`);
+
+  return filas;
+};
+
+// ===================================
+// EXPORTACIÓN
+// ===================================
+
+/**
+ * @description Exporta todos los productos de una tienda
+ * Mismo formato que la importación (ver COLUMNAS)
+ * @param {string|ObjectId} tiendaId - ID de la tienda
+ * @param {'csv'|'xlsx'} formato - Formato del archivo
+ * @returns {Promise<Buffer>} Archivo generado
+ * @example
+ * const archivo = await exportarProductos(tienda._id, 'xlsx');
+ * res.type(FORMATOS.xlsx).send(archivo);
+ */
+const exportarProductos = async (tiendaId, formato) => {
+  const productos = await Producto.find({ tienda_id: tiendaId }).sort({ createdAt: -1 }).lean();
+
+  const filas = [
+    COLUMNAS.map(c => c.encabezado),
+    ...productos.map(producto => COLUMNAS.map(({ campo }) => {
+      if (campo === 'imagenes') return producto.imagenes.map(img => img.url).join(SEPARADOR_IMAGENES);
+      if (campo === 'activo') return producto.activo ? 'sí' : 'no';
+      return producto[campo] ?? '';
+    }))
+  ];
+
+  return formato === 'xlsx' ? escribirXlsx(filas) : escribirCsv(filas);
+};
+
+module.exports = {
+  formatoDe,
+  leerArchivo,
+  sugerirMapeo,
+  prepararImportacion,
+  aplicarImportacion,
+  exportarProductos,
+  COLUMNAS,
+  CLAVES,
+  FORMATOS,
+  MAX_FILAS
+};
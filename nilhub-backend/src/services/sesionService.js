@@ -0,0 +1,299 @@
+// backend/src/services/sesionService.js
+const Sesion = require('../models/Sesion');
+const { generarToken } = require('../middleware/auth');
+
+/**
+ * @fileoverview Sesiones del panel en cookies httpOnly
+ *
+ * @description
+ * Al iniciar sesión se crean dos cookies que el JavaScript del navegador no
+ * puede leer:
+ *   - nilhub_acceso: JWT corto (JWT_ACCESO_EXPIRE, 15 minutos por defecto) con el
+ *     ID del usuario y de la sesión. Se envía a toda la API.
+ *   - nilhub_refresco: token aleatorio que solo se envía a /api/auth y sirve
+ *     una sola vez: POST /api/auth/refresh lo cambia por uno nuevo y entrega
+ *     otro JWT (ver Sesion.rotar para la detección de reutilización).
+ *
+ * SameSite se configura con COOKIE_SAMESITE: 'lax' (por defecto) si el
+ * frontend y la API comparten sitio, 'none' si están en dominios distintos
+ * (exige HTTPS). Las peticiones de otros orígenes ya las corta CORS.
+ *
+ * Cada sesión guarda el navegador y la red desde donde se usa para que el
+ * vendedor reconozca sus dispositivos en Seguridad. La ubicación es la que
+ * informa el proxy delante de la API, solo si PROXY_UBICACION lo indica
+ * ('cloudflare' o 'vercel'): sin ese proxy cualquiera podría enviar esos
+ * headers, así que queda vacía.
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * @description Opciones comunes de las cookies de sesión
+ * @returns {Object} Opciones para res.cookie
+ * @private
+ */
+const opcionesCookie = () => {
+  const sameSite = (process.env.COOKIE_SAMESITE || 'lax').toLowerCase();
+  return {
+    httpOnly: true,
+    sameSite,
+    // SameSite=None solo lo aceptan los navegadores con Secure
+    secure: sameSite === 'none' || process.env.NODE_ENV === 'production'
+  };
+};
+
+/**
+ * Ruta de la cookie de refresco: solo viaja a las rutas de autenticación
+ * @constant
+ * @private
+ */
+const RUTA_REFRESCO = '/api/auth';
+
+/**
+ * Headers con el país y la ciudad de la IP según cada proxy
+ * ⚠️ El proxy debe reemplazar los que envíe el cliente
+ * @constant
+ * @private
+ */
+const HEADERS_UBICACION = {
+  cloudflare: { pais: 'cf-ipcountry', ciudad: 'cf-ipcity' },
+  vercel: { pais: 'x-vercel-ip-country', ciudad: 'x-vercel-ip-city' }
+};
+
+/**
+ * Headers del proxy delante de la API (PROXY_UBICACION); null si no hay
+ * uno conocido
+ * @constant
+ * @private
+ */
+const HEADERS_PROXY = HEADERS_UBICACION[(process.env.PROXY_UBICACION || '').toLowerCase()] || null;
+
+// ===================================
+// DISPOSITIVO
+// ===================================
+
+/**
+ * Navegadores reconocidos, en orden: Edge y Opera también dicen "Chrome"
+ * y Chrome también dice "Safari"
+ * @constant
+ * @private
+ */
+const NAVEGADORES = [
+  ['Edge', /Edg(e|A|iOS)?\//],
+  ['Opera', /OPR\/|Opera/],
+  ['Samsung Internet', /SamsungBrowser\//],
+  ['Firefox', /Firefox\/|FxiOS\//],
+  ['Chrome', /Chrome\/|CriOS\//],
+  ['Safari', /Safari\//]
+];
+
+/**
+ * Sistemas operativos reconocidos (Android antes que Linux)
+ * @constant
+ * @private
+ */
+const SISTEMAS = [
+  ['Android', /Android/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['ChromeOS', /CrOS/],
+  ['Linux', /Linux/]
+];
+
+/**
+ * @description Describe el dispositivo de una sesión a partir de su User-Agent
+ * @param {string} [userAgent] - Header User-Agent
+ * @returns {{navegador: string, sistema: string, movil: boolean}}
+ *
+ * @example
+ * describirDispositivo('Mozilla/5.0 (Linux; Android 14; ...) Chrome/126.0 Mobile Safari/537.36');
+ * // { navegador: 'Chrome', sistema: 'Android', movil: true }
+ */
+const describirDispositivo = (userAgent = '') => {
+  const reconocer = (lista) => lista.find(([, patron]) => patron.test(userAgent))?.[0] || 'Desconocido';
+  return {
+    navegador: reconocer(NAVEGADORES),
+    sistema: reconocer(SISTEMAS),
+    movil: /Mobi|Android|iPhone|iPad|iPod/.test(userAgent)
+  };
+};
+
+/**
+ * @description IP y ubicación aproximada de la petición
+ * La ubicación solo se lee de los headers del proxy configurado en
+ * PROXY_UBICACION; sin él queda vacía
+ * @param {Object} req - Request de Express
+ * @returns {{ip: string, pais: string, ciudad: string}}
+ */
+const redDe = (req) => {
+  const pais = ((HEADERS_PROXY && req.get(HEADERS_PROXY.pais)) || '').toUpperCase();
+  let ciudad = (HEADERS_PROXY && req.get(HEADERS_PROXY.ciudad)) || '';
+  try {
+    // Vercel la envía codificada (ej: S%C3%A3o%20Paulo)
+    ciudad = decodeURIComponent(ciudad);
+  } catch (error) {
+    // Se deja como llegó
+  }
+
+  return {
+    ip: req.ip || '',
+    // Cloudflare usa XX (desconocido) y T1 (Tor)
+    pais: /^[A-Z]{2}$/.test(pais) && pais !== 'XX' ? pais : '',
+    ciudad: ciudad.slice(0, 100)
+  };
+};
+
+// ===================================
+// COOKIES
+// ===================================
+
+/**
+ * @description Escribe la cookie con un JWT de acceso nuevo
+ * @param {Object} res - Response de Express
+ * @param {Object} sesion - Sesión del usuario
+ * @private
+ */
+const escribirAcceso = (res, sesion) => {
+  // Sin maxAge: el JWT trae su propio vencimiento
+  res.cookie(Sesion.COOKIE_ACCESO, generarToken(sesion.usuario_id, sesion._id), {
+    ...opcionesCookie(),
+    path: '/'
+  });
+};
+
+/**
+ * @description Escribe la cookie con el token de refresco
+ * @param {Object} res - Response de Express
+ * @param {string} refresco - Token en texto plano
+ * @private
+ */
+const escribirRefresco = (res, refresco) => {
+  res.cookie(Sesion.COOKIE_REFRESCO, refresco, {
+    ...opcionesCookie(),
+    path: RUTA_REFRESCO,
+    maxAge: Sesion.DIAS_SESION * 24 * 60 * 60 * 1000
+  });
+};
+
+/**
+ * @description Borra las dos cookies de sesión
+ * @param {Object} res - Response de Express
+ */
+const borrarCookies = (res) => {
+  res.clearCookie(Sesion.COOKIE_ACCESO, { ...opcionesCookie(), path: '/' });
+  res.clearCookie(Sesion.COOKIE_REFRESCO, { ...opcionesCookie(), path: RUTA_REFRESCO });
+};
+
+// ===================================
+// SESIONES
+// ===================================
+
+/**
+ * @description Inicia una sesión y escribe sus cookies (login y registro)
+ * @param {Object} req - Request de Express (User-Agent e IP)
+ * @param {Object} res - Response de Express
+ * @param {Object} usuario - Usuario autenticado
+ * @returns {Promise<Object>} La sesión creada
+ *
+ * @example
+ * await sesionService.iniciar(req, res, usuario);
+ * res.json({ success: true, data: { usuario, tienda } });
+ */
+const iniciar = async (req, res, usuario) => {
+  const { sesion, refresco } = await Sesion.iniciar({
+    usuario_id: usuario._id,
+    user_agent: req.get('user-agent') || '',
+    ...redDe(req)
+  });
+
+  escribirAcceso(res, sesion);
+  escribirRefresco(res, refresco);
+  return sesion;
+};
+
+/**
+ * @description Renueva la sesión con la cookie de refresco
+ * Si el token no sirve (o fue reutilizado) borra las cookies
+ *
+ * @param {Object} req - Request de Express
+ * @param {Object} res - Response de Express
+ * @returns {Promise<{sesion?: Object, error?: string}>} La sesión renovada o el motivo del rechazo
+ */
+const renovar = async (req, res) => {
+  const refresco = req.cookies?.[Sesion.COOKIE_REFRESCO];
+
+  if (!refresco) {
+    return { error: 'No hay sesión para renovar' };
+  }
+
+  const resultado = await Sesion.rotar(refresco, redDe(req));
+
+  if (!resultado || resultado.reutilizado) {
+    borrarCookies(res);
+    return {
+      error: resultado?.reutilizado
+        ? 'La sesión se cerró por seguridad. Inicia sesión nuevamente.'
+        : 'Tu sesión ha expirado. Por favor, inicia sesión nuevamente.'
+    };
+  }
+
+  escribirAcceso(res, resultado.sesion);
+  // null: otra pestaña ya rotó el token y el navegador tiene la cookie nueva
+  if (resultado.refresco) {
+    escribirRefresco(res, resultado.refresco);
+  }
+  return { sesion: resultado.sesion };
+};
+
+/**
+ * @description Cierra la sesión del navegador (la de la cookie de refresco) y borra las cookies
+ * @param {Object} req - Request de Express
+ * @param {Object} res - Response de Express
+ * @returns {Promise<void>}
+ */
+const cerrar = async (req, res) => {
+  const refresco = req.cookies?.[Sesion.COOKIE_REFRESCO];
+
+  if (refresco) {
+    await Sesion.updateOne(
+      { hash: Sesion.hashDe(refresco), revocada_en: null },
+      { $set: { revocada_en: new Date(), motivo_revocacion: 'cierre' } }
+    );
+  }
+
+  borrarCookies(res);
+};
+
+/**
+ * @description Sesiones abiertas de un usuario, listas para mostrar
+ * @param {string|ObjectId} usuarioId - Dueño de las sesiones
+ * @param {string|null} sesionActualId - Sesión de la petición (req.sesionId)
+ * @returns {Promise<Object[]>} Sesiones con dispositivo y marca de la actual
+ */
+const listar = async (usuarioId, sesionActualId) => {
+  const sesiones = await Sesion.abiertasDe(usuarioId);
+
+  return sesiones.map(sesion => ({
+    _id: sesion._id,
+    dispositivo: describirDispositivo(sesion.user_agent),
+    ip: sesion.ip,
+    pais: sesion.pais,
+    ciudad: sesion.ciudad,
+    ultimo_uso: sesion.ultimo_uso,
+    createdAt: sesion.createdAt,
+    actual: String(sesion._id) === String(sesionActualId)
+  }));
+};
+
+module.exports = {
+  iniciar,
+  renovar,
+  cerrar,
+  listar,
+  borrarCookies,
+  describirDispositivo,
+  redDe
+};
@@ -0,0 +1,99 @@
+// backend/src/services/verificacionEmailService.js
+const crypto = require('crypto');
+const Usuario = require('../models/Usuario');
+const Tienda = require('../models/Tienda');
+const VerificacionEmail = require('../models/VerificacionEmail');
+const { enviarCodigoVerificacion } = require('./emailService');
+
+/**
+ * @fileoverview Verificación del email de las cuentas nuevas
+ *
+ * @description
+ * Al registrarse, la tienda se crea con verificacion_pendiente: true y no
+ * aparece en el catálogo público. Se envía un código de 6 dígitos al email;
+ * al ingresarlo (POST /api/auth/verificar-email) la cuenta queda verificada
+ * y la tienda se publica.
+ *
+ * Así nadie puede reservar slugs con emails ajenos, y la recuperación de
+ * contraseña por email llega a alguien que de verdad lo controla.
+ *
+ * Ingresar con un código de acceso enviado por email también lo verifica.
+ */
+
+/**
+ * Segundos de espera entre un envío y el siguiente
+ * @constant
+ */
+const ESPERA_REENVIO = 60;
+
+/**
+ * @description Segundos que faltan para poder reenviar el código
+ * @param {Object} usuario
+ * @returns {Promise<number>} 0 si ya se puede reenviar
+ */
+const esperaParaReenviar = async (usuario) => {
+  const ultimo = await VerificacionEmail.ultimoDe(usuario._id);
+  if (!ultimo) return 0;
+  const transcurridos = (Date.now() - ultimo.createdAt.getTime()) / 1000;
+  return Math.max(0, Math.ceil(ESPERA_REENVIO - transcurridos));
+};
+
+/**
+ * @description Genera un código nuevo y lo envía por email
+ * Los códigos anteriores dejan de servir (solo vale el último). Si el email
+ * falla, el código queda guardado y en consola (se puede reenviar).
+ *
+ * @param {Object} usuario - Usuario con email y nombre
+ * @returns {Promise<string>} Código generado
+ *
+ * @example
+ * await verificacionEmailService.enviarCodigo(usuario);
+ */
+const enviarCodigo = async (usuario) => {
+  const code = crypto.randomInt(100000, 1000000).toString();
+
+  await VerificacionEmail.create({
+    usuario_id: usuario._id,
+    email: usuario.email,
+    code
+  });
+
+  console.log(`✉️ Código de verificación para ${usuario.email}: ${code}`);
+
+  try {
+    await enviarCodigoVerificacion(usuario.email, usuario.nombre, code);
+  } catch (error) {
+    console.error('❌ Error al enviar código de verificación:', error.message);
+  }
+
+  return code;
+};
+
+/**
+ * @description Marca el email como verificado y publica la tienda del usuario
+ * @param {ObjectId} usuarioId
+ * @returns {Promise<Object>} Usuario actualizado
+ */
+const marcarVerificado = async (usuarioId) => {
+  const usuario = await Usuario.findByIdAndUpdate(
+    usuarioId,
+    { email_verificado: true, email_verificado_en: new Date() },
+    { new: true }
+  );
+
+  await Tienda.updateMany(
+    { usuario_id: usuarioId },
+    { $unset: { verificacion_pendiente: '' } }
+  );
+
+  console.log(`✅ Email verificado: ${usuario.email}`);
+
+  return usuario;
+};
+
+module.exports = {
+  ESPERA_REENVIO,
+  esperaParaReenviar,
+  enviarCodigo,
+  marcarVerificado
+};
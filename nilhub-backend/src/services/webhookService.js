@@ -0,0 +1,461 @@
+// backend/src/services/webhookService.js
+const crypto = require('crypto');
+const dns = require('dns').promises;
+const http = require('http');
+const https = require('https');
+const net = require('net');
+const mongoose = require('mongoose');
+const Webhook = require('../models/Webhook');
+const EntregaWebhook = require('../models/EntregaWebhook');
+
+/**
+ * @fileoverview Webhooks salientes: envío firmado, reintentos y registro
+ *
+ * @description
+ * Cuando ocurre un evento de una tienda (producto creado, stock cambiado,
+ * click en WhatsApp...), emitir() crea una EntregaWebhook por cada webhook
+ * activo suscrito y la envía sin demorar la respuesta de la API.
+ *
+ * Cada envío es un POST JSON:
+ *   { id, evento, fecha, tienda_id, datos }
+ * con los headers:
+ *   X-NilHub-Evento: producto.creado
+ *   X-NilHub-Entrega: <id de la entrega, igual en cada reintento>
+ *   X-NilHub-Firma: t=<unix>,v1=<hex>
+ * donde v1 = HMAC-SHA256(secreto, `${t}.${cuerpo}`). El receptor debe
+ * recalcularla con el cuerpo crudo y rechazar firmas viejas.
+ *
+ * Una respuesta 2xx es éxito; cualquier otra cosa (o no responder en
+ * TIEMPO_ESPERA_MS) se reintenta según ESPERAS_MINUTOS y, agotados los
+ * intentos, la entrega queda fallida. Los reintentos los procesa un
+ * temporizador que se inicia con el servidor (iniciarReintentos).
+ */
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Espera antes de cada reintento (minutos); su largo + 1 es el total de intentos
+ * @constant
+ */
+const ESPERAS_MINUTOS = [1, 5, 30, 120, 360];
+
+/**
+ * Tiempo máximo de respuesta del receptor
+ * @constant
+ */
+const TIEMPO_ESPERA_MS = 10000;
+
+/**
+ * Cada cuánto se buscan entregas para reintentar
+ * @constant
+ */
+const INTERVALO_REINTENTOS_MS = 30000;
+
+/**
+ * Entregas que se reintentan por vuelta del temporizador
+ * @constant
+ */
+const LOTE_REINTENTOS = 20;
+
+/**
+ * Evento de la entrega de prueba (no requiere suscripción)
+ * @constant
+ */
+const EVENTO_PRUEBA = 'webhook.prueba';
+
+/**
+ * Permite URLs de la red local (solo para desarrollo)
+ * En producción se rechazan para no exponer servicios internos
+ * @constant
+ * @private
+ */
+const PERMITIR_RED_LOCAL = process.env.WEBHOOKS_PERMITIR_RED_LOCAL === 'true';
+
+/**
+ * Temporizador de reintentos
+ * @private
+ */
+let temporizador = null;
+
+// ===================================
+// SECRETO Y FIRMA
+// ===================================
+
+/**
+ * @description Genera el secreto de firma de un webhook
+ * @returns {string} Secreto con prefijo whsec_
+ */
+const generarSecreto = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+/**
+ * @description Firma un cuerpo para el header X-NilHub-Firma
+ * @param {string} secreto - Secreto del webhook
+ * @param {number} timestamp - Segundos unix del envío
+ * @param {string} cuerpo - JSON enviado
+ * @returns {string} t=<timestamp>,v1=<hmac hex>
+ * @example
+ * firmar(webhook.secreto, 1735689600, '{"evento":"producto.creado"}');
+ * // 't=1735689600,v1=5f2c...'
+ */
+const firmar = (secreto, timestamp, cuerpo) => {
+  const hmac = crypto.createHmac('sha256', secreto).update(`${timestamp}.${cuerpo}`).digest('hex');
+  return `t=${timestamp},v1=${hmac}`;
+};
+
+// ===================================
+// DESTINO
+// ===================================
+
+/**
+ * Rangos de la red local, loopback o reservados (no se permiten como destino)
+ * BlockList también reconoce las IPv4 escritas como IPv6 (::ffff:7f00:1)
+ * @constant
+ * @private
+ */
+const DIRECCIONES_PRIVADAS = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 3] // multicast y reservadas (224.0.0.0 - 255.255.255.255)
+].forEach(([red, prefijo]) => DIRECCIONES_PRIVADAS.addSubnet(red, prefijo, 'ipv4'));
+[
+  ['::', 96], // no especificada, loopback e IPv4 compatibles (::a.b.c.d)
+  ['64:ff9b::', 96], ['64:ff9b:1::', 48], // NAT64 (traducen a IPv4)
+  ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([red, prefijo]) => DIRECCIONES_PRIVADAS.addSubnet(red, prefijo, 'ipv6'));
+
+/**
+ * @description Indica si una IP es de la red local, loopback o reservada
+ * @param {string} ip - IPv4 o IPv6
+ * @returns {boolean}
+ * @private
+ */
+const esDireccionPrivada = (ip) => {
+  const tipo = net.isIPv4(ip) ? 'ipv4' : net.isIPv6(ip) ? 'ipv6' : null;
+  return !tipo || DIRECCIONES_PRIVADAS.check(ip, tipo);
+};
+
+/**
+ * @description Valida la URL de un webhook y resuelve su host una sola vez
+ * @param {string} url - URL del webhook
+ * @returns {Promise<{error: string|null, direccion: ({address: string, family: number}|null)}>}
+ *          Mensaje de error (null si es válida) y la IP validada a la que
+ *          conectarse (null si se permite la red local)
+ * @private
+ */
+const resolverDestino = async (url) => {
+  let destino;
+  try {
+    destino = new URL(url);
+  } catch {
+    return { error: 'La URL no es válida', direccion: null };
+  }
+
+  if (!['http:', 'https:'].includes(destino.protocol)) {
+    return { error: 'La URL debe empezar con http:// o https://', direccion: null };
+  }
+  if (PERMITIR_RED_LOCAL) {
+    return { error: null, direccion: null };
+  }
+
+  try {
+    const host = destino.hostname.replace(/^\[|\]$/g, '');
+    const direcciones = net.isIP(host)
+      ? [{ address: host, family: net.isIP(host) }]
+      : await dns.lookup(host, { all: true });
+    if (direcciones.length === 0 || direcciones.some(({ address }) => esDireccionPrivada(address))) {
+      return { error: 'La URL debe apuntar a un servidor público', direccion: null };
+    }
+    return { error: null, direccion: direcciones[0] };
+  } catch {
+    return { error: 'No se pudo encontrar el servidor de la URL', direccion: null };
+  }
+};
+
+/**
+ * @description Valida que la URL de un webhook sea pública
+ * Se usa al guardar el webhook; cada envío vuelve a validar con resolverDestino
+ *
+ * @param {string} url - URL del webhook
+ * @returns {Promise<string|null>} Mensaje de error, o null si es válida
+ */
+const validarDestino = async (url) => (await resolverDestino(url)).error;
+
+// ===================================
+// ENVÍO
+// ===================================
+
+/**
+ * @description POST a la URL del webhook, conectándose a la IP ya validada
+ * Fijar la IP evita que el DNS cambie entre la validación y la conexión
+ * (DNS rebinding). No sigue redirecciones
+ * @param {string} url - URL del webhook
+ * @param {Object} opciones
+ * @param {Object} opciones.headers - Headers del envío
+ * @param {string} opciones.cuerpo - JSON enviado
+ * @param {Object|null} opciones.direccion - IP de resolverDestino (null: DNS normal)
+ * @returns {Promise<number>} Código HTTP de la respuesta
+ * @private
+ */
+const enviarPost = (url, { headers, cuerpo, direccion }) => new Promise((resolve, reject) => {
+  const destino = new URL(url);
+  const cliente = destino.protocol === 'https:' ? https : http;
+  const fijarDireccion = (host, opciones, callback) => (opciones.all
+    ? callback(null, [direccion])
+    : callback(null, direccion.address, direccion.family));
+
+  const solicitud = cliente.request(destino, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Length': Buffer.byteLength(cuerpo) },
+    signal: AbortSignal.timeout(TIEMPO_ESPERA_MS),
+    ...(direccion && { lookup: fijarDireccion })
+  }, (respuesta) => {
+    respuesta.resume();
+    resolve(respuesta.statusCode);
+  });
+
+  solicitud.on('error', reject);
+  solicitud.end(cuerpo);
+});
+
+/**
+ * @description Envía una entrega y guarda el intento
+ * Si falla y quedan intentos, programa el siguiente según ESPERAS_MINUTOS
+ *
+ * @param {Object} entrega - Documento EntregaWebhook
+ * @param {Object} [webhook] - Webhook destino (se busca si no se pasa)
+ * @returns {Promise<Object>} Entrega actualizada
+ */
+const intentarEntrega = async (entrega, webhook) => {
+  const destino = webhook || await Webhook.findById(entrega.webhook_id);
+  const disponible = destino && (destino.activo || entrega.evento === EVENTO_PRUEBA);
+  const inicio = Date.now();
+  const intento = { fecha: new Date() };
+
+  if (!disponible) {
+    intento.error = 'El webhook fue eliminado o está pausado';
+  } else {
+    // El DNS puede cambiar desde que se guardó: se resuelve y valida de nuevo
+    const { error: errorDestino, direccion } = await resolverDestino(destino.url);
+
+    if (errorDestino) {
+      intento.error = errorDestino;
+    } else {
+      const cuerpo = JSON.stringify(entrega.payload);
+      try {
+        intento.codigo = await enviarPost(destino.url, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'NilHub-Webhooks/1.0',
+            'X-NilHub-Evento': entrega.evento,
+            'X-NilHub-Entrega': String(entrega._id),
+            'X-NilHub-Firma': firmar(destino.secreto, Math.floor(Date.now() / 1000), cuerpo)
+          },
+          cuerpo,
+          direccion
+        });
+        if (intento.codigo < 200 || intento.codigo > 299) {
+          intento.error = `El servidor respondió ${intento.codigo}`;
+        }
+      } catch (error) {
+        intento.error = error.name === 'AbortError'
+          ? `Sin respuesta en ${TIEMPO_ESPERA_MS / 1000} segundos`
+          : `No se pudo conectar: ${error.code || error.message}`;
+      }
+    }
+  }
+
+  intento.duracion_ms = Date.now() - inicio;
+  entrega.intentos.push(intento);
+
+  if (!intento.error) {
+    entrega.estado = 'exitosa';
+    entrega.proximo_intento = null;
+  } else if (!disponible || entrega.intentos.length > ESPERAS_MINUTOS.length) {
+    entrega.estado = 'fallida';
+    entrega.proximo_intento = null;
+  } else {
+    entrega.estado = 'pendiente';
+    entrega.proximo_intento = new Date(Date.now() + ESPERAS_MINUTOS[entrega.intentos.length - 1] * 60000);
+  }
+
+  return entrega.save();
+};
+
+/**
+ * @description Crea la entrega de un evento para un webhook
+ * proximo_intento reserva la entrega: el temporizador no la toma mientras
+ * se hace el primer envío
+ * @private
+ */
+const crearEntrega = (webhook, evento, datos) => {
+  const _id = new mongoose.Types.ObjectId();
+  return EntregaWebhook.create({
+    _id,
+    webhook_id: webhook._id,
+    tienda_id: webhook.tienda_id,
+    evento,
+    payload: {
+      id: String(_id),
+      evento,
+      fecha: new Date().toISOString(),
+      tienda_id: String(webhook.tienda_id),
+      datos
+    },
+    proximo_intento: new Date(Date.now() + TIEMPO_ESPERA_MS * 3)
+  });
+};
+
+/**
+ * @description Emite un evento a los webhooks activos de la tienda suscritos a él
+ * Resuelve cuando las entregas quedan creadas; los envíos siguen en segundo plano
+ *
+ * @param {string|ObjectId} tiendaId - Tienda donde ocurrió
+ * @param {string} evento - Uno de EVENTOS_WEBHOOK
+ * @param {Object} datos - Datos del evento (se envían en `datos`)
+ * @returns {Promise<void>}
+ *
+ * @example
+ * // Sin esperar: los webhooks nunca deben demorar la respuesta
+ * webhookService.emitir(tienda._id, 'producto.creado', producto.toJSON())
+ *   .catch(err => console.error('Error al emitir webhook:', err));
+ */
+const emitir = async (tiendaId, evento, datos) => {
+  const webhooks = await Webhook.find({ tienda_id: tiendaId, activo: true, eventos: evento });
+
+  await Promise.all(webhooks.map(async (webhook) => {
+    const entrega = await crearEntrega(webhook, evento, datos);
+    intentarEntrega(entrega, webhook).catch(err =>
+      console.error('❌ Error al enviar webhook:', err)
+    );
+  }));
+};
+
+/**
+ * @description Envía un evento de prueba y espera el resultado
+ * Si falla, sigue los reintentos como cualquier entrega
+ * @param {Object} webhook - Webhook destino
+ * @returns {Promise<Object>} Entrega con el primer intento
+ */
+const enviarPrueba = async (webhook) => {
+  const entrega = await crearEntrega(webhook, EVENTO_PRUEBA, {
+    mensaje: 'Evento de prueba de NilHub',
+    eventos: webhook.eventos
+  });
+  return intentarEntrega(entrega, webhook);
+};
+
+// ===================================
+// EVENTOS DE PRODUCTOS
+// ===================================
+
+/**
+ * @description Stock de un producto (total y por variante)
+ * Se toma antes de modificarlo para comparar con emitirCambioStock()
+ * @param {Object} producto - Producto (documento o lean)
+ * @returns {Object} { stock, variantes: [{ _id, nombre, sku, stock }] }
+ */
+const stockDe = (producto) => ({
+  stock: producto.stock,
+  variantes: (producto.variantes || []).map(v => ({
+    _id: String(v._id),
+    nombre: v.nombre,
+    sku: v.sku,
+    stock: v.stock
+  }))
+});
+
+/**
+ * @description Emite producto.stock si el stock cambió (total o de alguna variante)
+ *
+ * @param {Object} producto - Producto ya guardado
+ * @param {Object} anterior - stockDe(producto) antes del cambio
+ * @returns {Promise<void>}
+ *
+ * @example
+ * const anterior = webhookService.stockDe(producto);
+ * await producto.actualizarStock(3);
+ * webhookService.emitirCambioStock(producto, anterior).catch(...);
+ */
+const emitirCambioStock = async (producto, anterior) => {
+  const actual = stockDe(producto);
+  const clave = ({ stock, variantes }) => `${stock}|${variantes.map(v => `${v._id}:${v.stock}`).join(',')}`;
+  if (clave(actual) === clave(anterior)) return;
+
+  await emitir(producto.tienda_id, 'producto.stock', {
+    producto_id: String(producto._id),
+    nombre: producto.nombre,
+    sku: producto.sku,
+    stock_anterior: anterior.stock,
+    stock: actual.stock,
+    hay_stock: actual.stock > 0,
+    variantes: actual.variantes
+  });
+};
+
+// ===================================
+// REINTENTOS
+// ===================================
+
+/**
+ * @description Reintenta las entregas pendientes cuyo turno llegó
+ * Cada entrega se reserva con findOneAndUpdate, así dos procesos del
+ * servidor no envían la misma
+ * @returns {Promise<number>} Entregas procesadas
+ */
+const procesarPendientes = async () => {
+  let procesadas = 0;
+
+  while (procesadas < LOTE_REINTENTOS) {
+    const ahora = new Date();
+    const entrega = await EntregaWebhook.findOneAndUpdate(
+      { estado: 'pendiente', proximo_intento: { $lte: ahora } },
+      { $set: { proximo_intento: new Date(ahora.getTime() + TIEMPO_ESPERA_MS * 3) } },
+      { sort: { proximo_intento: 1 }, new: true }
+    );
+    if (!entrega) break;
+
+    await intentarEntrega(entrega);
+    procesadas += 1;
+  }
+
+  return procesadas;
+};
+
+/**
+ * @description Inicia el temporizador de reintentos (una vez por proceso)
+ */
+const iniciarReintentos = () => {
+  if (temporizador) return;
+  temporizador = setInterval(() => {
+    procesarPendientes().catch(err => console.error('❌ Error al reintentar webhooks:', err));
+  }, INTERVALO_REINTENTOS_MS);
+  temporizador.unref();
+};
+
+/**
+ * @description Detiene el temporizador de reintentos (cierre del servidor)
+ */
+const detenerReintentos = () => {
+  clearInterval(temporizador);
+  temporizador = null;
+};
+
+module.exports = {
+  generarSecreto,
+  firmar,
+  validarDestino,
+  emitir,
+  stockDe,
+  emitirCambioStock,
+  enviarPrueba,
+  intentarEntrega,
+  procesarPendientes,
+  iniciarReintentos,
+  detenerReintentos,
+  EVENTO_PRUEBA,
+  ESPERAS_MINUTOS
+};
@@ -230,27 +230,22 @@ const formatearNumero = (telefono) => {
 };
 
 /**
- * @description Envía código de recuperación por WhatsApp
- * 
+ * @description Envía un mensaje con un código de 6 dígitos
+ *
  * @async
- * @param {string} nombre - Nombre del destinatario
  * @param {string} telefono - Número de teléfono (9 dígitos o con código)
  * @param {string} code - Código de 6 dígitos
- * @returns {Promise<Object>} Resultado del envío
- * @returns {boolean} returns.success - Si el envío fue exitoso
- * @returns {string} returns.metodo - Método usado ('whatsapp')
- * @returns {string} returns.mensaje - Mensaje de confirmación
- * 
+ * @param {string} mensaje - Mensaje ya formateado
+ * @returns {Promise<void>}
+ *
  * @throws {Error} Si el cliente no está listo o falla el envío
- * 
- * @example
- * await enviarCodigoRecuperacion('Juan', '987654321', '123456');
+ * @private
  */
-const enviarCodigoRecuperacion = async (nombre, telefono, code) => {
+const enviarCodigo = async (telefono, code, mensaje) => {
   try {
     // Validar parámetros
-    if (!nombre || !telefono || !code) {
-      throw new Error('Faltan parámetros: nombre, telefono, code');
+    if (!telefono || !code) {
+      throw new Error('Faltan parámetros: telefono, code');
     }
 
     // Validar código (6 dígitos)
@@ -268,9 +263,6 @@ const enviarCodigoRecuperacion = async (nombre, telefono, code) => {
 
     // Formatear número
     const numeroFormateado = formatearNumero(telefono);
-    
-    // Generar mensaje
-    const mensaje = generarMensajeWhatsApp(nombre, code);
 
     // Verificar que el número existe en WhatsApp
     const isRegistered = await whatsappClient.isRegisteredUser(numeroFormateado);
@@ -282,12 +274,6 @@ const enviarCodigoRecuperacion = async (nombre, telefono, code) => {
     await whatsappClient.sendMessage(numeroFormateado, mensaje);
 
     console.log(`✅ Código enviado por WhatsApp a: ${telefono}`);
-    
-    return {
-      success: true,
-      metodo: 'whatsapp',
-      mensaje: 'Código enviado por WhatsApp exitosamente'
-    };
 
   } catch (error) {
     console.error('❌ Error al enviar WhatsApp:', error.message);
@@ -303,6 +289,57 @@ const enviarCodigoRecuperacion = async (nombre, telefono, code) => {
   }
 };
 
+/**
+ * @description Envía código de recuperación por WhatsApp
+ * 
+ * @async
+ * @param {string} nombre - Nombre del destinatario
+ * @param {string} telefono - Número de teléfono (9 dígitos o con código)
+ * @param {string} code - Código de 6 dígitos
+ * @returns {Promise<Object>} Resultado del envío
+ * @returns {boolean} returns.success - Si el envío fue exitoso
+ * @returns {string} returns.metodo - Método usado ('whatsapp')
+ * @returns {string} returns.mensaje - Mensaje de confirmación
+ * 
+ * @throws {Error} Si el cliente no está listo o falla el envío
+ * 
+ * @example
+ * await enviarCodigoRecuperacion('Juan', '987654321', '123456');
+ */
+const enviarCodigoRecuperacion = async (nombre, telefono, code) => {
+  await enviarCodigo(telefono, code, generarMensajeWhatsApp(nombre, code));
+
+  return {
+    success: true,
+    metodo: 'whatsapp',
+    mensaje: 'Código enviado por WhatsApp exitosamente'
+  };
+};
+
+/**
+ * @description Envía el código para ingresar sin contraseña por WhatsApp
+ *
+ * @async
+ * @param {string} nombre - Nombre del destinatario
+ * @param {string} telefono - Número de teléfono (9 dígitos o con código)
+ * @param {string} code - Código de 6 dígitos
+ * @returns {Promise<Object>} Resultado del envío (igual que enviarCodigoRecuperacion)
+ *
+ * @throws {Error} Si el cliente no está listo o falla el envío
+ *
+ * @example
+ * await enviarCodigoAcceso('Juan', '987654321', '123456');
+ */
+const enviarCodigoAcceso = async (nombre, telefono, code) => {
+  await enviarCodigo(telefono, code, generarMensajeAcceso(nombre, code));
+
+  return {
+    success: true,
+    metodo: 'whatsapp',
+    mensaje: 'Código enviado por WhatsApp exitosamente'
+  };
+};
+
 /**
  * @description Genera mensaje formateado para WhatsApp
  * 
@@ -327,6 +364,30 @@ Si no solicitaste este código, ignora este mensaje.
 _Equipo NilHub - Catálogos Virtuales_`;
 };
 
+/**
+ * @description Genera el mensaje de acceso sin contraseña
+ *
+ * @param {string} nombre - Nombre del destinatario
+ * @param {string} code - Código de 6 dígitos
+ * @returns {string} Mensaje formateado con markdown de WhatsApp
+ * @private
+ */
+const generarMensajeAcceso = (nombre, code) => {
+  return `🔑 *NilHub - Código para ingresar*
+
+Hola *${nombre}*,
+
+Tu código para ingresar a NilHub es:
+
+*${code}*
+
+Es válido por *15 minutos* y sirve una sola vez. No lo compartas con nadie.
+
+Si no intentaste ingresar, ignora este mensaje.
+
+_Equipo NilHub - Catálogos Virtuales_`;
+};
+
 /**
  * @description Obtiene el estado actual del cliente de WhatsApp
  * 
@@ -424,6 +485,7 @@ process.on('SIGTERM', async () => {
 module.exports = {
   inicializarCliente,
   enviarCodigoRecuperacion,
+  enviarCodigoAcceso,
   generarMensajeWhatsApp,
   estaListo,
   obtenerEstado,
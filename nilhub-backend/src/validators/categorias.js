@@ -0,0 +1,64 @@
+// backend/src/validators/categorias.js
+const { z, esquemaId, entero } = require('nilhub-shared');
+const { ICONOS_CATEGORIA } = require('../models/Categoria');
+
+/**
+ * @fileoverview Esquemas de los bodies de /api/categorias (zod)
+ *
+ * @description
+ * Dependen de ICONOS_CATEGORIA del modelo, por eso viven en el backend y no
+ * en nilhub-shared. Se aplican con middleware/validar igual que aquellos.
+ */
+
+/**
+ * Nombre visible de una categoría
+ * @private
+ */
+const nombre = z.string({ error: 'El nombre debe tener entre 2 y 40 caracteres' })
+  .trim()
+  .min(2, 'El nombre debe tener entre 2 y 40 caracteres')
+  .max(40, 'El nombre debe tener entre 2 y 40 caracteres');
+
+/**
+ * Campos opcionales de crear y actualizar
+ * padre_id vacío o null = categoría principal
+ * @private
+ */
+const camposOpcionales = {
+  icono: z.enum(ICONOS_CATEGORIA, { error: 'Ícono no disponible' }).optional(),
+  orden: entero('El orden debe ser un número mayor o igual a 0').optional(),
+  padre_id: z.preprocess(valor => (valor === '' ? null : valor), esquemaId.nullable().optional())
+};
+
+/**
+ * Body de POST /api/categorias
+ * @constant
+ */
+const esquemaCrearCategoria = z.object({
+  nombre,
+  ...camposOpcionales
+});
+
+/**
+ * Body de PUT /api/categorias/:id
+ * @constant
+ */
+const esquemaActualizarCategoria = z.object({
+  nombre: nombre.optional(),
+  ...camposOpcionales
+});
+
+/**
+ * Body de PATCH /api/categorias/orden
+ * @constant
+ */
+const esquemaReordenarCategorias = z.object({
+  ids: z.array(esquemaId, { error: 'Debes enviar la lista de categorías' })
+    .min(1, 'Debes enviar la lista de categorías')
+});
+
+module.exports = {
+  esquemaCrearCategoria,
+  esquemaActualizarCategoria,
+  esquemaReordenarCategorias
+};
@@ -0,0 +1,44 @@
+// backend/src/validators/pedidos.js
+const { z, esquemaId, texto, entero } = require('nilhub-shared');
+const { ESTADOS_PEDIDO } = require('../models/Pedido');
+
+/**
+ * @fileoverview Esquemas de los bodies de /api/pedidos (zod)
+ *
+ * @description
+ * Dependen de ESTADOS_PEDIDO del modelo, por eso viven en el backend y no
+ * en nilhub-shared. El máximo de productos y el stock de cada línea los
+ * revisa el controller al agrupar el carrito.
+ */
+
+/**
+ * Body de POST /api/pedidos
+ * @constant
+ */
+const esquemaCrearPedido = z.object({
+  tienda_slug: texto('La tienda es obligatoria'),
+  cliente_nombre: texto('Tu nombre es obligatorio'),
+  cliente_telefono: texto('Tu teléfono es obligatorio'),
+  items: z.array(
+    z.object({
+      producto_id: esquemaId,
+      variante_id: esquemaId.nullable().optional(),
+      cantidad: entero('La cantidad debe ser un número entero mayor a 0')
+        .refine(cantidad => cantidad > 0, 'La cantidad debe ser un número entero mayor a 0')
+    }),
+    { error: 'El pedido debe tener al menos un producto' }
+  ).min(1, 'El pedido debe tener al menos un producto')
+});
+
+/**
+ * Body de PATCH /api/pedidos/:id/estado
+ * @constant
+ */
+const esquemaCambiarEstadoPedido = z.object({
+  estado: z.enum(ESTADOS_PEDIDO, { error: 'Estado inválido' })
+});
+
+module.exports = {
+  esquemaCrearPedido,
+  esquemaCambiarEstadoPedido
+};
@@ -1,6 +1,12 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // nilhub-shared vive fuera de este proyecto (../nilhub-shared)
+  transpilePackages: ['nilhub-shared'],
+  turbopack: {
+    root: path.join(__dirname, '..'),
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,341 @@
+// scripts/generar-api.mjs
+/**
+ * @fileoverview Genera el cliente tipado de la API desde la especificación OpenAPI
+ *
+ * Lee la especificación del backend y escribe src/lib/api.generado.ts con:
+ * - un tipo por cada esquema (Producto, Tienda, Usuario...)
+ * - `Operaciones`: parámetros, query, body y respuesta de cada ruta
+ * - `crearCliente`: función `solicitar('GET /ruta/{id}', ...)` tipada con ese contrato
+ *
+ * Uso:
+ *   npm run api:generar                                      (../nilhub-backend/src/docs/openapi.js)
+ *   OPENAPI_URL=http://localhost:4000/api/docs npm run api:generar   (backend en ejecución)
+ *
+ * Sin dependencias: solo el subconjunto de OpenAPI 3 que usa la especificación
+ * de NilHub ($ref, allOf, oneOf, enum, nullable, objetos, arreglos y binarios).
+ */
+
+import { createRequire } from 'node:module';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+const RAIZ = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Módulo de la especificación en el backend (monorepo)
+ */
+const ESPECIFICACION = path.resolve(RAIZ, '../nilhub-backend/src/docs/openapi.js');
+
+/**
+ * Archivo generado
+ */
+const SALIDA = path.resolve(RAIZ, 'src/lib/api.generado.ts');
+
+/**
+ * Métodos HTTP que se leen de cada ruta, en este orden
+ */
+const METODOS = ['get', 'post', 'put', 'patch', 'delete'];
+
+// ===================================
+// ESQUEMAS → TIPOS
+// ===================================
+
+/**
+ * Nombre del esquema de un $ref (#/components/schemas/Producto → Producto)
+ */
+const nombreDeRef = (ref) => ref.split('/').pop();
+
+/**
+ * Agrega paréntesis a uniones e intersecciones al combinarlas
+ */
+const agrupar = (tipo) => (/[|&]/.test(tipo) && !tipo.startsWith('{') ? `(${tipo})` : tipo);
+
+/**
+ * Comentario JSDoc de una línea
+ */
+const comentario = (texto, sangria) =>
+  texto ? `${sangria}/** ${texto.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */\n` : '';
+
+/**
+ * Clave de propiedad válida en TypeScript
+ */
+const clave = (nombre) => (/^[A-Za-z_$][\w$]*$/.test(nombre) ? nombre : `'${nombre}'`);
+
+/**
+ * Literal de un valor de enum
+ */
+const literal = (valor) => (typeof valor === 'string' ? `'${valor.replace(/'/g, "\\'")}'` : String(valor));
+
+/**
+ * Cuerpo de un objeto con sus propiedades
+ */
+function tipoObjeto(esquema, sangria) {
+  const requeridos = new Set(esquema.required || []);
+  const interior = `${sangria}  `;
+  const lineas = Object.entries(esquema.properties).map(([nombre, propiedad]) =>
+    comentario(propiedad.description, interior) +
+    `${interior}${clave(nombre)}${requeridos.has(nombre) ? '' : '?'}: ${tipo(propiedad, interior)};`
+  );
+  return `{\n${lineas.join('\n')}\n${sangria}}`;
+}
+
+/**
+ * Tipo TypeScript de un esquema
+ */
+function tipo(esquema, sangria = '') {
+  if (!esquema) return 'unknown';
+  const resultado = tipoSinNulo(esquema, sangria);
+  return esquema.nullable ? `${resultado} | null` : resultado;
+}
+
+function tipoSinNulo(esquema, sangria) {
+  if (esquema.$ref) return nombreDeRef(esquema.$ref);
+
+  if (esquema.allOf) {
+    const partes = esquema.allOf.map(parte => agrupar(tipo(parte, sangria)));
+    // { allOf: [Ref], required: [...] } hace obligatorios campos opcionales de Ref
+    if (esquema.required && !esquema.properties && partes.length === 1) {
+      partes.push(`Required<Pick<${partes[0]}, ${esquema.required.map(literal).join(' | ')}>>`);
+    }
+    return partes.join(' & ');
+  }
+
+  const alternativas = esquema.oneOf || esquema.anyOf;
+  if (alternativas) return alternativas.map(parte => agrupar(tipo(parte, sangria))).join(' | ');
+
+  if (esquema.enum) return esquema.enum.map(literal).join(' | ');
+
+  switch (esquema.type) {
+    case 'string':
+      return esquema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const elemento = tipo(esquema.items, sangria);
+      return /[|&{ ]/.test(elemento) ? `Array<${elemento}>` : `${elemento}[]`;
+    }
+    case 'object':
+    case undefined:
+      if (esquema.properties) return tipoObjeto(esquema, sangria);
+      if (esquema.additionalProperties === true) return 'Record<string, unknown>';
+      if (esquema.additionalProperties) return `Record<string, ${tipo(esquema.additionalProperties, sangria)}>`;
+      return esquema.type === 'object' ? 'Record<string, never>' : 'unknown';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Declaración exportada de un esquema de components
+ */
+function declaracion(nombre, esquema) {
+  const doc = comentario(esquema.description, '');
+  if (esquema.properties && !esquema.allOf && !esquema.nullable) {
+    return `${doc}export interface ${nombre} ${tipoObjeto(esquema, '')}\n`;
+  }
+  return `${doc}export type ${nombre} = ${tipo(esquema)};\n`;
+}
+
+// ===================================
+// RUTAS → OPERACIONES
+// ===================================
+
+/**
+ * Objeto de parámetros (ruta o query) o undefined si no hay
+ */
+function tipoParametros(parametros, sangria) {
+  if (parametros.length === 0) return 'undefined';
+  return tipoObjeto({
+    properties: Object.fromEntries(parametros.map(p => [p.name, { ...p.schema, description: p.description }])),
+    required: parametros.filter(p => p.required).map(p => p.name)
+  }, sangria);
+}
+
+/**
+ * Tipo del body de una operación
+ */
+function tipoCuerpo(requestBody, sangria) {
+  const contenido = requestBody?.content;
+  if (!contenido) return 'undefined';
+  if (contenido['multipart/form-data']) return 'FormData';
+  return tipo(contenido['application/json']?.schema, sangria);
+}
+
+/**
+ * Tipo de la respuesta exitosa (primer código 2xx)
+ */
+function tipoRespuesta(responses, sangria) {
+  const codigo = Object.keys(responses).sort().find(c => c.startsWith('2'));
+  const contenido = responses[codigo]?.content;
+  if (!contenido) return 'void';
+  const json = contenido['application/json'];
+  return json ? tipo(json.schema, sangria) : 'Blob';
+}
+
+/**
+ * Entradas de la interfaz Operaciones
+ */
+function operaciones(paths) {
+  const entradas = [];
+  for (const [ruta, item] of Object.entries(paths)) {
+    for (const metodo of METODOS) {
+      const operacion = item[metodo];
+      if (!operacion) continue;
+
+      const parametros = new Map();
+      for (const p of [...(item.parameters || []), ...(operacion.parameters || [])]) {
+        parametros.set(`${p.in}:${p.name}`, p);
+      }
+      const lista = [...parametros.values()];
+      const sangria = '    ';
+
+      entradas.push(
+        comentario(operacion.summary, '  ') +
+        `  '${metodo.toUpperCase()} ${ruta}': {\n` +
+        `    parametros: ${tipoParametros(lista.filter(p => p.in === 'path'), sangria)};\n` +
+        `    query: ${tipoParametros(lista.filter(p => p.in === 'query'), sangria)};\n` +
+        `    cuerpo: ${tipoCuerpo(operacion.requestBody, sangria)};\n` +
+        `    respuesta: ${tipoRespuesta(operacion.responses, sangria)};\n` +
+        '  };'
+      );
+    }
+  }
+  return entradas.join('\n');
+}
+
+// ===================================
+// CLIENTE
+// ===================================
+
+const CLIENTE = `
+// ===================================
+// CLIENTE
+// ===================================
+
+/**
+ * Operación de la API: 'MÉTODO /ruta' tal como aparece en la especificación
+ */
+export type Operacion = keyof Operaciones;
+
+/**
+ * Datos de una petición según el contrato de la operación
+ */
+export type OpcionesOperacion<O extends Operacion> =
+  (Operaciones[O]['parametros'] extends undefined
+    ? { parametros?: undefined }
+    : { parametros: Operaciones[O]['parametros'] }) &
+  (Operaciones[O]['query'] extends undefined
+    ? { query?: undefined }
+    : { query?: Operaciones[O]['query'] | URLSearchParams }) &
+  (Operaciones[O]['cuerpo'] extends undefined
+    ? { cuerpo?: undefined }
+    : { cuerpo: Operaciones[O]['cuerpo'] }) & {
+    /** Opciones extra de axios (ej: responseType) */
+    config?: AxiosRequestConfig;
+  };
+
+/**
+ * Las opciones solo son obligatorias si hay parámetros de ruta o body
+ */
+type ArgumentosOperacion<O extends Operacion> =
+  Operaciones[O]['parametros'] extends undefined
+    ? Operaciones[O]['cuerpo'] extends undefined
+      ? [opciones?: OpcionesOperacion<O>]
+      : [opciones: OpcionesOperacion<O>]
+    : [opciones: OpcionesOperacion<O>];
+
+/**
+ * Crea la función que hace las peticiones con una instancia de axios
+ *
+ * @example
+ * const solicitar = crearCliente(apiClient);
+ * const { data } = await solicitar('GET /productos/{id}', { parametros: { id } });
+ */
+export function crearCliente(http: AxiosInstance) {
+  return async function solicitar<O extends Operacion>(
+    operacion: O,
+    ...[opciones]: ArgumentosOperacion<O>
+  ): Promise<Operaciones[O]['respuesta']> {
+    const [metodo, plantilla] = operacion.split(' ');
+    const { parametros, query, cuerpo, config } = (opciones ?? {}) as {
+      parametros?: Record<string, string>;
+      query?: unknown;
+      cuerpo?: unknown;
+      config?: AxiosRequestConfig;
+    };
+
+    const url = plantilla.replace(/\\{(\\w+)\\}/g, (_, nombre: string) =>
+      encodeURIComponent(parametros?.[nombre] ?? '')
+    );
+
+    const response = await http.request({
+      ...config,
+      method: metodo,
+      url,
+      params: query,
+      data: cuerpo,
+      ...(cuerpo instanceof FormData
+        ? { headers: { ...config?.headers, 'Content-Type': 'multipart/form-data' } }
+        : {}),
+    });
+
+    return response.data;
+  };
+}
+`;
+
+// ===================================
+// GENERACIÓN
+// ===================================
+
+async function leerEspecificacion() {
+  if (process.env.OPENAPI_URL) {
+    const respuesta = await fetch(process.env.OPENAPI_URL);
+    if (!respuesta.ok) throw new Error(`${process.env.OPENAPI_URL} respondió ${respuesta.status}`);
+    return respuesta.json();
+  }
+  return createRequire(import.meta.url)(ESPECIFICACION);
+}
+
+const especificacion = await leerEspecificacion();
+const schemas = especificacion.components?.schemas || {};
+
+const archivo = [
+  '// src/lib/api.generado.ts',
+  '/**',
+  ` * @fileoverview Tipos y cliente de ${especificacion.info.title} ${especificacion.info.version}`,
+  ' * GENERADO por scripts/generar-api.mjs desde la especificación OpenAPI del backend.',
+  ' * No editar a mano: cambia la especificación y ejecuta `npm run api:generar`.',
+  ' * @module api.generado',
+  ' */',
+  '',
+  "import type { AxiosInstance, AxiosRequestConfig } from 'axios';",
+  '',
+  '// ===================================',
+  '// ESQUEMAS',
+  '// ===================================',
+  '',
+  Object.entries(schemas).map(([nombre, esquema]) => declaracion(nombre, esquema)).join('\n'),
+  '// ===================================',
+  '// OPERACIONES',
+  '// ===================================',
+  '',
+  '/**',
+  ' * Contrato de cada ruta de la API (relativa a /api)',
+  ' */',
+  'export interface Operaciones {',
+  operaciones(especificacion.paths),
+  '}',
+  CLIENTE,
+].join('\n');
+
+await writeFile(SALIDA, archivo);
+console.log(`✅ ${path.relative(RAIZ, SALIDA)}: ${Object.keys(schemas).length} esquemas`);
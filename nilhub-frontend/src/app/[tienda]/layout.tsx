@@ -0,0 +1,33 @@
+// src/app/[tienda]/layout.tsx
+/**
+ * @fileoverview Layout del catálogo público de una tienda
+ * Provee el carrito de compras a todas las páginas de la tienda
+ * @module TiendaLayout
+ */
+
+import { CarritoProvider } from '@/contexts/CarritoContext';
+
+/**
+ * Layout compartido por el catálogo y el detalle de producto
+ *
+ * El carrito vive aquí para que se conserve al navegar
+ * entre el catálogo y las páginas de producto.
+ *
+ * @param props - Props del layout
+ * @param props.params - Parámetros de ruta (slug de la tienda)
+ */
+export default async function TiendaLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ tienda: string }>;
+}>) {
+  const { tienda } = await params;
+
+  return (
+    <CarritoProvider tiendaSlug={tienda}>
+      {children}
+    </CarritoProvider>
+  );
+}
@@ -0,0 +1,109 @@
+// src/app/[tienda]/loading.tsx
+/**
+ * @fileoverview Estado de carga del catálogo de una tienda
+ * Skeletons mientras el servidor obtiene la tienda y sus productos
+ * @module CatalogoLoading
+ */
+
+import { Card, CardContent } from '@/components/ui/card';
+
+// ===================================
+// SKELETON LOADERS
+// ===================================
+
+/**
+ * Card skeleton para estado de carga
+ * Muestra un placeholder animado mientras cargan los productos
+ * @private
+ */
+function SkeletonCard() {
+  return (
+    <Card className="overflow-hidden bg-white/60 backdrop-blur-md border-2 border-white/20 animate-in fade-in duration-500">
+      <CardContent className="p-0">
+        {/* Área de imagen con shimmer */}
+        <div className="aspect-square bg-gradient-to-br from-slate-200 via-slate-100 to-slate-200 relative overflow-hidden">
+          <div className="absolute inset-0 -translate-x-full animate-shimmer 
+                        bg-gradient-to-r from-transparent via-white/60 to-transparent" />
+        </div>
+        {/* Placeholder de texto */}
+        <div className="p-4 space-y-3">
+          <div className="h-3 bg-slate-200 rounded-full w-1/3 animate-pulse" />
+          <div className="h-5 bg-slate-200 rounded-full w-full animate-pulse" />
+          <div className="h-4 bg-slate-200 rounded-full w-2/3 animate-pulse" />
+          <div className="h-6 bg-slate-200 rounded-full w-1/2 animate-pulse mt-4" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Grid de skeletons para estado de carga
+ * Muestra 6 cards de placeholder
+ * @private
+ */
+function SkeletonGrid() {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+      {[...Array(6)].map((_, i) => (
+        <SkeletonCard key={i} />
+      ))}
+    </div>
+  );
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Skeleton del catálogo (header, filtros y grid)
+ *
+ * @returns Placeholder animado de la página
+ */
+export default function CatalogoLoading() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-blue-50">
+      {/* Background animado */}
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-0 -left-4 w-72 h-72 bg-pink-300 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob" />
+        <div className="absolute top-0 -right-4 w-72 h-72 bg-purple-300 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob animation-delay-2000" />
+        <div className="absolute -bottom-8 left-20 w-72 h-72 bg-blue-300 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob animation-delay-4000" />
+      </div>
+
+      <div className="relative">
+        {/* Skeleton del header */}
+        <div className="container mx-auto px-4 py-16">
+          <div className="flex flex-col lg:flex-row gap-8 max-w-6xl mx-auto">
+            <div className="flex-shrink-0">
+              <div className="w-48 h-48 rounded-3xl bg-slate-200 animate-pulse" />
+            </div>
+            <div className="flex-1 space-y-4">
+              <div className="h-12 bg-slate-200 rounded-full w-3/4 animate-pulse" />
+              <div className="h-6 bg-slate-200 rounded-full w-full animate-pulse" />
+              <div className="h-6 bg-slate-200 rounded-full w-2/3 animate-pulse" />
+            </div>
+          </div>
+        </div>
+
+        {/* Skeleton del contenido */}
+        <div className="container mx-auto px-4 py-8">
+          <div className="grid lg:grid-cols-[320px_1fr] gap-8 max-w-7xl mx-auto">
+            <aside className="space-y-6">
+              <div className="h-14 bg-white/60 backdrop-blur-md border-2 border-white/20 rounded-xl animate-pulse" />
+              <div className="space-y-3">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="h-16 bg-white/60 backdrop-blur-md border-2 border-white/20 rounded-xl animate-pulse" />
+                ))}
+              </div>
+            </aside>
+
+            <main>
+              <SkeletonGrid />
+            </main>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+// src/app/[tienda]/not-found.tsx
+/**
+ * @fileoverview Tienda no encontrada o desactivada
+ * @module TiendaNotFound
+ */
+
+import Link from 'next/link';
+import { Store } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+
+/**
+ * Página 404 del catálogo
+ *
+ * Se muestra cuando el slug no corresponde a una tienda activa.
+ *
+ * @returns Mensaje con link al inicio
+ */
+export default function TiendaNotFound() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-blue-50 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full bg-white/80 backdrop-blur-xl border-2 border-white/20 shadow-2xl">
+        <CardContent className="p-8 text-center space-y-6">
+          {/* Ícono de error */}
+          <div className="relative">
+            <div className="absolute inset-0 bg-red-500/20 rounded-full blur-3xl scale-150" />
+            <div className="relative w-24 h-24 mx-auto bg-gradient-to-br from-red-500 to-pink-500 rounded-full flex items-center justify-center">
+              <Store className="w-12 h-12 text-white" />
+            </div>
+          </div>
+
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 bg-clip-text text-transparent">
+            Tienda no encontrada
+          </h2>
+
+          <p className="text-slate-600 leading-relaxed">
+            La tienda que buscas no existe o está temporalmente desactivada.
+          </p>
+
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-xl font-semibold hover:scale-105 hover:shadow-xl hover:shadow-pink-500/50 transition-all duration-300"
+          >
+            Ir al inicio
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+// src/app/[tienda]/opengraph-image.tsx
+/**
+ * @fileoverview Imagen Open Graph del catálogo de una tienda
+ * Se muestra al compartir el link de la tienda en WhatsApp, Instagram o Facebook
+ * @module TiendaOpenGraphImage
+ */
+
+import { ImageResponse } from 'next/og';
+import { obtenerCatalogo, obtenerTienda } from '@/lib/catalogo';
+import { cargarImagen, colorDe, MarcaTienda, OgGenerico, TAMANO_OG, TIPO_OG } from '@/lib/og';
+import { SITE_URL } from '@/lib/seo';
+
+export const alt = 'Catálogo de la tienda en NilHub';
+export const size = TAMANO_OG;
+export const contentType = TIPO_OG;
+
+/**
+ * Genera la imagen 1200×630 del catálogo
+ *
+ * - Fondo con el color_tema de la tienda
+ * - Logo, nombre, descripción y cantidad de productos
+ * - Hasta 3 fotos de productos a la derecha
+ *
+ * @param props.params - Slug de la tienda
+ * @returns PNG generado con next/og
+ */
+export default async function Image({ params }: { params: { tienda: string } }) {
+  const tienda = await obtenerTienda(params.tienda);
+
+  if (!tienda) {
+    return new ImageResponse(<OgGenerico />, size);
+  }
+
+  const { productos, total } = await obtenerCatalogo(params.tienda, { limite: 12 });
+  const color = colorDe(tienda);
+
+  const [logo, ...fotos] = await Promise.all([
+    cargarImagen(tienda.logo_url, 144, 144),
+    ...productos
+      .filter(p => p.imagenes.length > 0)
+      .slice(0, 3)
+      .map(p => cargarImagen(p.imagenes[0].url, 260, 260)),
+  ]);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: 'flex',
+          width: '100%',
+          height: '100%',
+          padding: 64,
+          background: `linear-gradient(135deg, ${color}, #9333EA)`,
+          color: 'white',
+        }}
+      >
+        {/* Datos de la tienda */}
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            flex: 1,
+            paddingRight: 40,
+          }}
+        >
+          <MarcaTienda tienda={tienda} logo={logo} tamano={144} claro />
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+            {tienda.descripcion && (
+              <div style={{ display: 'flex', fontSize: 34, opacity: 0.95, lineHeight: 1.3 }}>
+                {tienda.descripcion.length > 110
+                  ? `${tienda.descripcion.slice(0, 109)}…`
+                  : tienda.descripcion}
+              </div>
+            )}
+            <div style={{ display: 'flex', fontSize: 28, opacity: 0.85 }}>
+              {`${total} ${total === 1 ? 'producto' : 'productos'} · Pide por WhatsApp`}
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', fontSize: 24, opacity: 0.8 }}>
+            {`${new URL(SITE_URL).host}/${tienda.slug}`}
+          </div>
+        </div>
+
+        {/* Fotos de productos */}
+        {fotos.some(Boolean) && (
+          <div style={{ display: 'flex', flexDirection: 'column', justifyContent: 'center', gap: 16 }}>
+            {fotos.filter((foto): foto is string => !!foto).map((foto, index) => (
+              <img
+                key={index}
+                src={foto}
+                alt=""
+                width={150}
+                height={150}
+                style={{ borderRadius: 24, objectFit: 'cover', border: '4px solid white' }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,23 @@
+// src/app/[tienda]/producto/[id]/loading.tsx
+/**
+ * @fileoverview Estado de carga del detalle de producto
+ * @module ProductoLoading
+ */
+
+import { Loader2 } from 'lucide-react';
+
+/**
+ * Spinner mientras el servidor obtiene el producto
+ *
+ * @returns Placeholder de la página
+ */
+export default function ProductoLoading() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-blue-50 flex items-center justify-center">
+      <div className="text-center space-y-4">
+        <Loader2 className="h-12 w-12 animate-spin text-pink-500 mx-auto" />
+        <p className="text-slate-600 font-medium">Cargando producto...</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// src/app/[tienda]/producto/[id]/not-found.tsx
+/**
+ * @fileoverview Producto no encontrado
+ * @module ProductoNotFound
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+
+/**
+ * Página 404 del detalle de producto
+ *
+ * Se muestra cuando el producto no existe o no pertenece a la tienda.
+ * Es de cliente para leer el slug de la tienda (not-found no recibe params).
+ *
+ * @returns Mensaje con link al catálogo
+ */
+export default function ProductoNotFound() {
+  const params = useParams();
+  const tiendaSlug = params.tienda as string;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-blue-50 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full bg-white/80 backdrop-blur-xl border-2 border-white/20">
+        <CardContent className="p-8 text-center space-y-4">
+          <div className="text-6xl">😕</div>
+          <h2 className="text-2xl font-bold text-slate-900">Producto no encontrado</h2>
+          <p className="text-slate-600">
+            El producto que buscas no existe o fue eliminado.
+          </p>
+          <Link
+            href={`/${tiendaSlug}`}
+            className="inline-block px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-xl font-semibold hover:scale-105 transition-transform"
+          >
+            Volver al catálogo
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+// src/app/[tienda]/producto/[id]/opengraph-image.tsx
+/**
+ * @fileoverview Imagen Open Graph de un producto
+ * Se muestra al compartir el link del producto en WhatsApp, Instagram o Facebook
+ * @module ProductoOpenGraphImage
+ */
+
+import { ImageResponse } from 'next/og';
+import { esIdValido, obtenerCatalogo, obtenerTienda } from '@/lib/catalogo';
+import {
+  cargarImagen,
+  colorDe,
+  MarcaTienda,
+  OgGenerico,
+  PrecioOg,
+  TAMANO_OG,
+  TIPO_OG,
+} from '@/lib/og';
+
+export const alt = 'Producto en NilHub';
+export const size = TAMANO_OG;
+export const contentType = TIPO_OG;
+
+/**
+ * Genera la imagen 1200×630 del producto
+ *
+ * - Foto del producto a la izquierda (630×630)
+ * - Logo y nombre de la tienda, nombre del producto y precio
+ *   (con el precio normal tachado si hay oferta)
+ * - Franja con el color_tema de la tienda
+ *
+ * El producto se pide al catálogo de la tienda (filtro `ids`) en lugar de
+ * GET /productos/:id, que suma una vista en cada pedido de la imagen.
+ *
+ * @param props.params - Slug de la tienda e ID del producto
+ * @returns PNG generado con next/og
+ */
+export default async function Image({ params }: { params: { tienda: string; id: string } }) {
+  if (!esIdValido(params.id)) {
+    return new ImageResponse(<OgGenerico />, size);
+  }
+
+  const [tienda, { productos }] = await Promise.all([
+    obtenerTienda(params.tienda),
+    obtenerCatalogo(params.tienda, { ids: [params.id] }),
+  ]);
+  const producto = productos[0];
+
+  if (!tienda || !producto) {
+    return new ImageResponse(<OgGenerico />, size);
+  }
+
+  const color = colorDe(tienda);
+  const [foto, logo] = await Promise.all([
+    cargarImagen(producto.imagenes[0]?.url, 630, 630),
+    cargarImagen(tienda.logo_url, 72, 72),
+  ]);
+
+  return new ImageResponse(
+    (
+      <div style={{ display: 'flex', width: '100%', height: '100%', background: 'white' }}>
+        {/* Foto del producto */}
+        {foto ? (
+          <img src={foto} alt="" width={630} height={630} style={{ objectFit: 'cover' }} />
+        ) : (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              width: 630,
+              height: 630,
+              background: `linear-gradient(135deg, ${color}, #9333EA)`,
+              color: 'white',
+              fontSize: 200,
+            }}
+          >
+            {producto.nombre.charAt(0).toUpperCase()}
+          </div>
+        )}
+
+        {/* Datos */}
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            flex: 1,
+            padding: 48,
+            borderTop: `16px solid ${color}`,
+          }}
+        >
+          <MarcaTienda tienda={tienda} logo={logo} />
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+            {producto.marca && (
+              <div style={{ display: 'flex', fontSize: 26, color: '#64748b' }}>
+                {producto.marca.toUpperCase()}
+              </div>
+            )}
+            <div style={{ display: 'flex', fontSize: 48, color: '#0f172a', lineHeight: 1.2 }}>
+              {producto.nombre.length > 60 ? `${producto.nombre.slice(0, 59)}…` : producto.nombre}
+            </div>
+            <PrecioOg producto={producto} color={color} />
+          </div>
+
+          <div style={{ display: 'flex', fontSize: 26, color: producto.hay_stock ? '#16a34a' : '#dc2626' }}>
+            {producto.hay_stock ? 'Disponible · Pide por WhatsApp' : 'Agotado'}
+          </div>
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -1,222 +1,159 @@
-// fronted/src/app/[tienda]/producto/[id]/page.tsx
+// src/app/[tienda]/producto/[id]/page.tsx
 /**
  * @fileoverview Página de detalle de producto
- * Vista completa de un producto con galería, información y WhatsApp
+ * Renderizada en el servidor con metadata Open Graph y JSON-LD de Product/Offer.
+ * Galería, variantes, carrito y WhatsApp son islas de cliente.
  * @module ProductoDetallePage
  */
 
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useParams } from 'next/navigation';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Package, Sparkles, Info, ChevronRight, Loader2 } from 'lucide-react';
-import { Badge } from '@/components/ui/badge';
-import { Card, CardContent } from '@/components/ui/card';
-import ProductGallery from '@/components/productos/ProductGallery';
+import { ArrowLeft, ChevronRight } from 'lucide-react';
+import ProductoDetalle from '@/components/productos/ProductoDetalle';
 import ProductCard from '@/components/productos/ProductCard';
-import WhatsAppButton, { generarMensajeProducto } from '@/components/common/WhatsAppButton';
-import { Producto, Tienda } from '@/types';
-import api from '@/lib/api';
+import CarritoDrawer from '@/components/carrito/CarritoDrawer';
+import JsonLd from '@/components/common/JsonLd';
+import { obtenerCatalogo, obtenerCategorias, obtenerProducto, obtenerTienda } from '@/lib/catalogo';
+import { jsonLdProducto, recortar } from '@/lib/seo';
 
 // ===================================
-// COMPONENTE PRINCIPAL
+// TIPOS
 // ===================================
 
 /**
- * Página de detalle de un producto específico
- * 
- * Muestra información completa de un producto:
- * - Galería de imágenes navegable
- * - Nombre, marca, categoría
- * - Precios (con descuento si aplica)
- * - Descripción detallada
- * - Ingredientes y peso (si están disponibles)
- * - Estado de stock
- * - Botón de WhatsApp con mensaje pre-formateado
- * - Productos relacionados (misma categoría)
- * 
- * Estados manejados:
- * - **Loading**: Spinner mientras carga
- * - **Error**: Producto no encontrado
- * - **Success**: Detalle completo del producto
- * 
- * Funcionalidades:
- * - Carga de datos desde API
- * - Registro de analytics (click en WhatsApp)
- * - Productos relacionados por categoría
- * - Navegación de regreso al catálogo
- * 
- * @returns Página de detalle renderizada
- * 
- * @example
- * // Ruta dinámica: /[tienda]/producto/[id]
- * // URL: https://nilhub.xyz/cosmeticos-mary/producto/507f1f77bcf86cd799439011
+ * Props de la página (Next 15: params es una promesa)
+ * @interface ProductoDetallePageProps
  */
-export default function ProductoDetallePage() {
-  const params = useParams();
-  const tiendaSlug = params.tienda as string;
-  const productoId = params.id as string;
-
-  // ===================================
-  // ESTADOS
-  // ===================================
-  
-  /** Datos de la tienda */
-  const [tienda, setTienda] = useState<Tienda | null>(null);
-  /** Datos del producto actual */
-  const [producto, setProducto] = useState<Producto | null>(null);
-  /** Productos relacionados (misma categoría) */
-  const [productosRelacionados, setProductosRelacionados] = useState<Producto[]>([]);
-  /** Estado de carga inicial */
-  const [loading, setLoading] = useState(true);
-  /** Mensaje de error si falla */
-  const [error, setError] = useState('');
+interface ProductoDetallePageProps {
+  params: Promise<{ tienda: string; id: string }>;
+}
 
-  // ===================================
-  // CARGA DE DATOS
-  // ===================================
-  
-  /**
-   * Efecto para cargar todos los datos necesarios
-   * 
-   * Flujo:
-   * 1. Cargar datos de la tienda por slug
-   * 2. Cargar datos del producto por ID
-   * 3. Cargar productos relacionados (misma categoría, diferentes ID)
-   * 
-   * Se ejecuta al montar y cuando cambian los parámetros
-   */
-  useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      setError('');
+// ===================================
+// DATOS
+// ===================================
 
-      try {
-        // 1. Cargar tienda
-        const tiendaResponse = await api.tiendas.getBySlug(tiendaSlug);
-        if (!tiendaResponse.success || !tiendaResponse.data) {
-          setError('Tienda no encontrada');
-          return;
-        }
-        setTienda(tiendaResponse.data);
+/**
+ * Carga la tienda y el producto, validando que el producto sea de esa tienda
+ *
+ * Las consultas se memorizan por request: generateMetadata y la página
+ * comparten el mismo resultado.
+ *
+ * @param slug - Slug de la tienda
+ * @param id - ID del producto
+ * @returns Tienda y producto, o null si alguno no existe
+ * @private
+ */
+async function cargarProducto(slug: string, id: string) {
+  const [tienda, producto] = await Promise.all([obtenerTienda(slug), obtenerProducto(id)]);
 
-        // 2. Cargar producto específico
-        const productoResponse = await api.productos.getById(productoId);
-        if (!productoResponse.success || !productoResponse.data) {
-          setError('Producto no encontrado');
-          return;
-        }
-        setProducto(productoResponse.data);
+  if (!tienda || !producto || producto.tienda_id !== tienda._id) {
+    return null;
+  }
 
-        // 3. Cargar productos relacionados
-        const productosResponse = await api.tiendas.getProductos(tiendaSlug, {
-          categoria: productoResponse.data.categoria
-        });
-        
-        if (productosResponse.success) {
-          // Filtrar: misma categoría, diferente ID, solo activos
-          const relacionados = productosResponse.data
-            .filter(p => p._id !== productoId && p.activo)
-            .slice(0, 3); // Máximo 3 relacionados
-          
-          setProductosRelacionados(relacionados);
-        }
+  return { tienda, producto };
+}
 
-      } catch (err) {
-        console.error('Error al cargar datos:', err);
-        setError('Error al cargar el producto');
-      } finally {
-        setLoading(false);
-      }
-    };
+// ===================================
+// METADATA
+// ===================================
 
-    loadData();
-  }, [tiendaSlug, productoId]);
+/**
+ * Metadata del producto: título, descripción y tarjetas Open Graph/Twitter
+ *
+ * La imagen de las tarjetas la genera `opengraph-image.tsx` (foto, tienda y precio).
+ * Los productos desactivados no se indexan.
+ *
+ * @param props - Props de la página
+ * @returns Metadata de Next
+ */
+export async function generateMetadata({ params }: ProductoDetallePageProps): Promise<Metadata> {
+  const { tienda: slug, id } = await params;
+  const datos = await cargarProducto(slug, id);
 
-  // ===================================
-  // HANDLERS
-  // ===================================
-  
-  /**
-   * Registra el click en WhatsApp para analytics
-   * Se ejecuta antes de abrir WhatsApp
-   * @private
-   */
-  const handleWhatsAppClick = async () => {
-    if (!producto) return;
+  if (!datos) {
+    return { title: 'Producto no encontrado' };
+  }
 
-    try {
-      await api.productos.clickWhatsApp(producto._id);
-    } catch (error) {
-      console.error('Error al registrar click:', error);
-      // No interrumpir el flujo aunque falle el analytics
-    }
+  const { tienda, producto } = datos;
+  const precio = producto.precio_oferta || producto.precio;
+  const titulo = `${producto.nombre} - ${tienda.nombre}`;
+  const descripcion = recortar(
+    producto.descripcion ||
+      `${producto.nombre}${producto.marca ? ` de ${producto.marca}` : ''} a S/ ${precio.toFixed(2)} en ${tienda.nombre}. Pide por WhatsApp.`
+  );
+  const url = `/${tienda.slug}/producto/${producto._id}`;
+
+  return {
+    title: titulo,
+    description: descripcion,
+    alternates: { canonical: url },
+    robots: producto.activo ? undefined : { index: false, follow: true },
+    openGraph: {
+      type: 'website',
+      url,
+      siteName: 'NilHub',
+      title: titulo,
+      description: descripcion,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: titulo,
+      description: descripcion,
+    },
   };
+}
 
-  // ===================================
-  // ESTADO: LOADING
-  // ===================================
-  
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-blue-50 flex items-center justify-center">
-        <div className="text-center space-y-4">
-          <Loader2 className="h-12 w-12 animate-spin text-pink-500 mx-auto" />
-          <p className="text-slate-600 font-medium">Cargando producto...</p>
-        </div>
-      </div>
-    );
-  }
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
 
-  // ===================================
-  // ESTADO: ERROR
-  // ===================================
-  
-  if (error || !producto || !tienda) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-blue-50 flex items-center justify-center p-4">
-        <Card className="max-w-md w-full bg-white/80 backdrop-blur-xl border-2 border-white/20">
-          <CardContent className="p-8 text-center space-y-4">
-            <div className="text-6xl">😕</div>
-            <h2 className="text-2xl font-bold text-slate-900">Producto no encontrado</h2>
-            <p className="text-slate-600">
-              {error || 'El producto que buscas no existe o fue eliminado.'}
-            </p>
-            <Link href={`/${tiendaSlug}`}>
-              <button className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-xl font-semibold hover:scale-105 transition-transform">
-                Volver al catálogo
-              </button>
-            </Link>
-          </CardContent>
-        </Card>
-      </div>
-    );
+/**
+ * Página de detalle de un producto específico
+ *
+ * - Detalle interactivo del producto (isla ProductoDetalle)
+ * - Productos relacionados (misma categoría)
+ * - Navegación de regreso al catálogo
+ * - JSON-LD con precio, disponibilidad y marca para buscadores
+ *
+ * Mientras carga se muestra `loading.tsx`; si el producto no existe
+ * o es de otra tienda, `not-found.tsx`.
+ *
+ * @param props - Props de la página
+ * @returns Página de detalle renderizada
+ *
+ * @example
+ * // Ruta dinámica: /[tienda]/producto/[id]
+ * // URL: https://nilhub.xyz/cosmeticos-mary/producto/507f1f77bcf86cd799439011
+ */
+export default async function ProductoDetallePage({ params }: ProductoDetallePageProps) {
+  const { tienda: slug, id } = await params;
+  const datos = await cargarProducto(slug, id);
+
+  if (!datos) {
+    notFound();
   }
 
-  // ===================================
-  // CÁLCULOS
-  // ===================================
-  
-  /** Porcentaje de descuento si hay precio de oferta */
-  const descuento = producto.precio_oferta 
-    ? Math.round(((producto.precio - producto.precio_oferta) / producto.precio) * 100)
-    : 0;
+  const { tienda, producto } = datos;
 
-  /** Mensaje pre-formateado para WhatsApp */
-  const mensajeWhatsApp = generarMensajeProducto(
-    producto.nombre,
-    producto.precio,
-    producto.precio_oferta
-  );
+  const [mismaCategoria, categorias] = await Promise.all([
+    obtenerCatalogo(slug, { categoria: producto.categoria, limite: 4 }),
+    obtenerCategorias(slug),
+  ]);
+
+  /** Relacionados: misma categoría, diferente ID, máximo 3 */
+  const productosRelacionados = mismaCategoria.productos
+    .filter(p => p._id !== producto._id)
+    .slice(0, 3);
+
+  /** Nombre de cada categoría por slug */
+  const nombreCategoria = (slugCategoria: string) =>
+    categorias.find(c => c.slug === slugCategoria)?.nombre || slugCategoria;
 
-  // ===================================
-  // RENDER: CONTENIDO PRINCIPAL
-  // ===================================
-  
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-50 via-purple-50 to-blue-50">
-      
+      <JsonLd data={jsonLdProducto(producto, tienda, nombreCategoria(producto.categoria))} />
+
       {/* Background con blobs animados */}
       <div className="fixed inset-0 overflow-hidden pointer-events-none">
         <div className="absolute top-0 -left-4 w-72 h-72 bg-pink-300 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob"></div>
@@ -225,13 +162,13 @@ export default function ProductoDetallePage() {
       </div>
 
       <div className="relative">
-        
+
         {/* ===================================
             BREADCRUMB / NAVEGACIÓN
             =================================== */}
         <div className="container mx-auto px-4 pt-6">
-          <Link 
-            href={`/${tiendaSlug}`}
+          <Link
+            href={`/${tienda.slug}`}
             className="inline-flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors group"
           >
             <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
@@ -243,152 +180,11 @@ export default function ProductoDetallePage() {
             CONTENIDO PRINCIPAL
             =================================== */}
         <div className="container mx-auto px-4 py-8">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12">
-            
-            {/* ===================================
-                COLUMNA IZQUIERDA: GALERÍA
-                =================================== */}
-            <div>
-              <ProductGallery 
-                imagenes={producto.imagenes}
-                nombreProducto={producto.nombre}
-              />
-            </div>
-
-            {/* ===================================
-                COLUMNA DERECHA: INFORMACIÓN
-                =================================== */}
-            <div className="space-y-6">
-              
-              {/* Marca */}
-              {producto.marca && (
-                <p className="text-sm font-semibold text-slate-500 uppercase tracking-wider">
-                  {producto.marca}
-                </p>
-              )}
-
-              {/* Nombre del producto */}
-              <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-slate-900 via-slate-800 to-slate-900 bg-clip-text text-transparent">
-                {producto.nombre}
-              </h1>
-
-              {/* Badges: Categoría, Stock, Descuento */}
-              <div className="flex flex-wrap items-center gap-2">
-                <Badge className="bg-gradient-to-r from-pink-500 to-purple-600 text-white border-0">
-                  {producto.categoria}
-                </Badge>
-                
-                {producto.hay_stock ? (
-                  <Badge variant="default" className="bg-green-500 hover:bg-green-600">
-                    ✓ Disponible {producto.stock > 0 && `(${producto.stock} unidades)`}
-                  </Badge>
-                ) : (
-                  <Badge variant="secondary">
-                    Sin stock
-                  </Badge>
-                )}
-
-                {descuento > 0 && (
-                  <Badge className="bg-red-500 text-white border-0 font-bold">
-                    -{descuento}% OFF
-                  </Badge>
-                )}
-              </div>
-
-              {/* ===================================
-                  PRECIOS
-                  =================================== */}
-              <div className="flex items-end gap-3">
-                {producto.precio_oferta ? (
-                  <>
-                    {/* Precio con descuento */}
-                    <span className="text-4xl font-bold bg-gradient-to-r from-pink-600 to-purple-600 bg-clip-text text-transparent">
-                      S/ {producto.precio_oferta.toFixed(2)}
-                    </span>
-                    {/* Precio original tachado */}
-                    <span className="text-xl text-slate-400 line-through pb-1">
-                      S/ {producto.precio.toFixed(2)}
-                    </span>
-                  </>
-                ) : (
-                  /* Precio normal */
-                  <span className="text-4xl font-bold text-slate-900">
-                    S/ {producto.precio.toFixed(2)}
-                  </span>
-                )}
-              </div>
-
-              {/* ===================================
-                  DESCRIPCIÓN
-                  =================================== */}
-              {producto.descripcion && (
-                <div className="space-y-2">
-                  <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
-                    <Info className="w-4 h-4" />
-                    Descripción
-                  </h3>
-                  <p className="text-base text-slate-600 leading-relaxed">
-                    {producto.descripcion}
-                  </p>
-                </div>
-              )}
-
-              {/* ===================================
-                  DETALLES ADICIONALES
-                  =================================== */}
-              {(producto.ingredientes || producto.peso) && (
-                <Card className="bg-white/60 backdrop-blur-md border-2 border-white/30">
-                  <CardContent className="p-6 space-y-4">
-                    
-                    {/* Ingredientes */}
-                    {producto.ingredientes && (
-                      <div className="space-y-2">
-                        <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
-                          <Sparkles className="w-4 h-4" />
-                          Ingredientes
-                        </h4>
-                        <p className="text-sm text-slate-600 leading-relaxed">
-                          {producto.ingredientes}
-                        </p>
-                      </div>
-                    )}
-
-                    {/* Peso/Contenido */}
-                    {producto.peso && (
-                      <div className="space-y-2">
-                        <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
-                          <Package className="w-4 h-4" />
-                          Contenido
-                        </h4>
-                        <p className="text-sm text-slate-600">
-                          {producto.peso}
-                        </p>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* ===================================
-                  BOTÓN DE WHATSAPP
-                  =================================== */}
-              <div onClick={handleWhatsAppClick}>
-                <WhatsAppButton 
-                  telefono={tienda.whatsapp}
-                  mensaje={mensajeWhatsApp}
-                  variant="inline"
-                  size="lg"
-                />
-              </div>
-
-              {/* Mensaje informativo */}
-              <div className="p-4 rounded-xl bg-blue-50 border-2 border-blue-100">
-                <p className="text-sm text-blue-800">
-                  💬 <span className="font-semibold">¿Tienes dudas?</span> Consúltanos por WhatsApp y te responderemos al instante.
-                </p>
-              </div>
-            </div>
-          </div>
+          <ProductoDetalle
+            tienda={tienda}
+            producto={producto}
+            categoriaNombre={nombreCategoria(producto.categoria)}
+          />
 
           {/* ===================================
               PRODUCTOS RELACIONADOS
@@ -399,8 +195,8 @@ export default function ProductoDetallePage() {
                 <h2 className="text-2xl font-bold text-slate-900">
                   Productos relacionados
                 </h2>
-                <Link 
-                  href={`/${tiendaSlug}`}
+                <Link
+                  href={`/${tienda.slug}`}
                   className="text-sm font-medium text-pink-600 hover:text-pink-700 flex items-center gap-1 group"
                 >
                   Ver todo
@@ -414,15 +210,20 @@ export default function ProductoDetallePage() {
                   <ProductCard
                     key={relacionado._id}
                     producto={relacionado}
-                    tiendaSlug={tiendaSlug}
+                    tiendaSlug={tienda.slug}
                     showStats={false}
+                    showCarrito
+                    categoriaNombre={nombreCategoria(relacionado.categoria)}
                   />
                 ))}
               </div>
             </div>
           )}
         </div>
+
+        {/* Carrito (botón flotante + panel) */}
+        <CarritoDrawer tienda={tienda} />
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,428 @@
+// fronted/src/app/admin/categorias/page.tsx
+/**
+ * @fileoverview Gestión de categorías propias de la tienda
+ * Crear, editar, reordenar y eliminar categorías y subcategorías
+ * @module CategoriasPage
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Tags,
+  Plus,
+  Edit,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Loader2,
+  AlertCircle,
+  Check,
+  X
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import api from '@/lib/api';
+import { Categoria, IconoCategoria } from '@/types';
+import { useInvalidarCategorias, useMisCategorias, useReordenarCategorias } from '@/hooks/useCategorias';
+import {
+  ICONOS_CATEGORIA,
+  iconoCategoria,
+  ordenarCategorias
+} from '@/components/tienda/CategoryFilter';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Datos del formulario de categoría
+ * @interface CategoriaForm
+ */
+interface CategoriaForm {
+  nombre: string;
+  icono: IconoCategoria;
+  /** '' = categoría principal */
+  padre_id: string;
+}
+
+/** Formulario vacío */
+const FORM_INICIAL: CategoriaForm = {
+  nombre: '',
+  icono: 'tag',
+  padre_id: '',
+};
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+export default function CategoriasPage() {
+  const { data: categorias = [], isLoading: loading } = useMisCategorias();
+  const reordenarCategorias = useReordenarCategorias();
+  const invalidarCategorias = useInvalidarCategorias();
+  const [error, setError] = useState('');
+  const [form, setForm] = useState<CategoriaForm>(FORM_INICIAL);
+  /** ID de la categoría en edición (null = creando) */
+  const [editandoId, setEditandoId] = useState<string | null>(null);
+  const [guardando, setGuardando] = useState(false);
+
+  const ordenadas = ordenarCategorias(categorias);
+  /** Categorías que pueden ser padre (las principales, menos la que se edita) */
+  const posiblesPadres = ordenadas.filter((c) => !c.padre_id && c._id !== editandoId);
+  /** Una categoría con subcategorías no puede pasar a ser subcategoría */
+  const editandoTieneHijas = categorias.some((c) => c.padre_id === editandoId);
+
+  // Handlers
+  const handleCancelar = () => {
+    setForm(FORM_INICIAL);
+    setEditandoId(null);
+  };
+
+  const handleEditar = (categoria: Categoria) => {
+    setEditandoId(categoria._id);
+    setForm({
+      nombre: categoria.nombre,
+      icono: categoria.icono,
+      padre_id: categoria.padre_id || '',
+    });
+    setError('');
+  };
+
+  const handleGuardar = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.nombre.trim().length < 2) {
+      setError('El nombre debe tener al menos 2 caracteres');
+      return;
+    }
+
+    const datos = {
+      nombre: form.nombre.trim(),
+      icono: form.icono,
+      padre_id: form.padre_id || null,
+    };
+
+    try {
+      setGuardando(true);
+      setError('');
+      if (editandoId) {
+        await api.categorias.actualizar(editandoId, datos);
+      } else {
+        await api.categorias.crear(datos);
+      }
+      handleCancelar();
+      await invalidarCategorias();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar categoría');
+      console.error(err);
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const handleEliminar = async (categoria: Categoria) => {
+    if (!confirm(`¿Eliminar la categoría "${categoria.nombre}"?`)) return;
+
+    try {
+      setError('');
+      await api.categorias.eliminar(categoria._id);
+      if (editandoId === categoria._id) handleCancelar();
+      await invalidarCategorias();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al eliminar categoría');
+      console.error(err);
+    }
+  };
+
+  /**
+   * Mueve una categoría entre sus hermanas (mismo padre)
+   * Actualiza la lista al instante y la restaura si falla
+   */
+  const handleMover = (categoria: Categoria, direccion: -1 | 1) => {
+    const hermanas = ordenadas.filter((c) => (c.padre_id || null) === (categoria.padre_id || null));
+    const desde = hermanas.findIndex((c) => c._id === categoria._id);
+    const hasta = desde + direccion;
+    if (hasta < 0 || hasta >= hermanas.length) return;
+
+    [hermanas[desde], hermanas[hasta]] = [hermanas[hasta], hermanas[desde]];
+    const posicion = new Map(hermanas.map((c, index) => [c._id, index]));
+
+    const reordenadas = ordenarCategorias(
+      categorias.map((c) => ({ ...c, orden: posicion.get(c._id) ?? c.orden }))
+    ).map((c, index) => ({ ...c, orden: index }));
+
+    setError('');
+    reordenarCategorias.mutate(reordenadas, {
+      onError: (err) => {
+        setError(err instanceof Error ? err.message : 'Error al reordenar categorías');
+        console.error(err);
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 bg-clip-text text-transparent">
+          Categorías
+        </h1>
+        <p className="text-sm text-slate-600 mt-2">
+          Organiza tu catálogo con tus propias categorías y subcategorías
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_360px] gap-6 items-start">
+        {/* Lista */}
+        {loading ? (
+          <div className="flex items-center justify-center min-h-[40vh]">
+            <div className="text-center">
+              <Loader2 className="h-12 w-12 animate-spin text-pink-500 mx-auto mb-4" />
+              <p className="text-slate-600">Cargando categorías...</p>
+            </div>
+          </div>
+        ) : ordenadas.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="h-16 w-16 rounded-full bg-slate-100 flex items-center justify-center mx-auto mb-4">
+                <Tags className="h-8 w-8 text-slate-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-slate-900 mb-2">
+                Aún no tienes categorías
+              </h3>
+              <p className="text-slate-600">
+                Crea tu primera categoría para organizar tus productos
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {ordenadas.map((categoria) => {
+              const hermanas = ordenadas.filter((c) => (c.padre_id || null) === (categoria.padre_id || null));
+              const posicion = hermanas.findIndex((c) => c._id === categoria._id);
+
+              return (
+                <CategoriaItem
+                  key={categoria._id}
+                  categoria={categoria}
+                  editando={editandoId === categoria._id}
+                  esPrimera={posicion === 0}
+                  esUltima={posicion === hermanas.length - 1}
+                  onEditar={handleEditar}
+                  onEliminar={handleEliminar}
+                  onMover={handleMover}
+                />
+              );
+            })}
+          </div>
+        )}
+
+        {/* Formulario */}
+        <Card className="lg:sticky lg:top-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {editandoId ? (
+                <Edit className="h-5 w-5 text-pink-600" />
+              ) : (
+                <Plus className="h-5 w-5 text-pink-600" />
+              )}
+              {editandoId ? 'Editar categoría' : 'Nueva categoría'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleGuardar} className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="nombre" className="text-sm font-semibold text-slate-700">
+                  Nombre <span className="text-red-500">*</span>
+                </label>
+                <Input
+                  id="nombre"
+                  value={form.nombre}
+                  onChange={(e) => setForm((prev) => ({ ...prev, nombre: e.target.value }))}
+                  placeholder="Ej: Labiales, Polos, Snacks"
+                  maxLength={40}
+                  className="h-11"
+                />
+                {editandoId && (
+                  <p className="text-xs text-slate-500">
+                    Si cambias el nombre, sus productos se actualizan automáticamente
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="padre_id" className="text-sm font-semibold text-slate-700">
+                  Ubicación
+                </label>
+                <select
+                  id="padre_id"
+                  value={form.padre_id}
+                  onChange={(e) => setForm((prev) => ({ ...prev, padre_id: e.target.value }))}
+                  disabled={editandoTieneHijas}
+                  className="w-full h-11 px-3 rounded-md border border-slate-200 bg-white focus:border-pink-400 focus:ring-4 focus:ring-pink-500/10 outline-none transition-all"
+                >
+                  <option value="">Categoría principal</option>
+                  {posiblesPadres.map((padre) => (
+                    <option key={padre._id} value={padre._id}>
+                      Dentro de {padre.nombre}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <span className="text-sm font-semibold text-slate-700">Ícono</span>
+                <div className="grid grid-cols-8 gap-2">
+                  {(Object.keys(ICONOS_CATEGORIA) as IconoCategoria[]).map((icono) => {
+                    const Icon = ICONOS_CATEGORIA[icono];
+                    const activo = form.icono === icono;
+
+                    return (
+                      <button
+                        key={icono}
+                        type="button"
+                        onClick={() => setForm((prev) => ({ ...prev, icono }))}
+                        aria-label={icono}
+                        aria-pressed={activo}
+                        className={cn(
+                          "h-9 w-9 rounded-lg flex items-center justify-center border-2 transition-all",
+                          activo
+                            ? "border-pink-500 bg-pink-50 text-pink-600"
+                            : "border-slate-200 text-slate-500 hover:border-pink-300"
+                        )}
+                      >
+                        <Icon className="h-4 w-4" />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  disabled={guardando}
+                  className="flex-1 gap-2 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700"
+                >
+                  {guardando ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Check className="h-4 w-4" />
+                  )}
+                  {editandoId ? 'Guardar' : 'Crear'}
+                </Button>
+                {editandoId && (
+                  <Button type="button" variant="outline" onClick={handleCancelar} className="gap-2">
+                    <X className="h-4 w-4" />
+                    Cancelar
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+// Componente: Item de Categoría
+interface CategoriaItemProps {
+  categoria: Categoria;
+  editando: boolean;
+  esPrimera: boolean;
+  esUltima: boolean;
+  onEditar: (categoria: Categoria) => void;
+  onEliminar: (categoria: Categoria) => void;
+  onMover: (categoria: Categoria, direccion: -1 | 1) => void;
+}
+
+function CategoriaItem({
+  categoria,
+  editando,
+  esPrimera,
+  esUltima,
+  onEditar,
+  onEliminar,
+  onMover
+}: CategoriaItemProps) {
+  const Icon = iconoCategoria(categoria.icono);
+  const totalProductos = categoria.total_productos || 0;
+
+  return (
+    <Card className={cn(
+      "border-2 transition-all duration-300 hover:shadow-md",
+      categoria.padre_id && "ml-8",
+      editando && "border-pink-400"
+    )}>
+      <CardContent className="p-3">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-pink-50 flex items-center justify-center flex-shrink-0">
+            <Icon className="h-5 w-5 text-pink-600" />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-slate-900 truncate">{categoria.nombre}</h3>
+            <p className="text-xs text-slate-500 font-mono truncate">{categoria.slug}</p>
+          </div>
+
+          <Badge variant="outline" className="shrink-0">
+            {totalProductos} {totalProductos === 1 ? 'producto' : 'productos'}
+          </Badge>
+
+          <div className="flex items-center gap-1 shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onMover(categoria, -1)}
+              disabled={esPrimera}
+              aria-label="Subir"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onMover(categoria, 1)}
+              disabled={esUltima}
+              aria-label="Bajar"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onEditar(categoria)}
+              aria-label="Editar"
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onEliminar(categoria)}
+              disabled={totalProductos > 0}
+              title={totalProductos > 0 ? 'Mueve sus productos a otra categoría para eliminarla' : undefined}
+              aria-label="Eliminar"
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,6 +20,8 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import api from '@/lib/api';
+import TokensApi from '@/components/admin/TokensApi';
+import WebhooksTienda from '@/components/admin/WebhooksTienda';
 
 interface ConfigData {
   nombre: string;
@@ -176,7 +178,7 @@ export default function ConfiguracionPage() {
 
       // Subir logo si hay uno nuevo
       if (logoFile) {
-        const logoResponse = await api.upload.imagen(logoFile, 'tiendas/logos');
+        const logoResponse = await api.upload.imagen(logoFile, 'nilhub/tiendas/logos');
         if (logoResponse.success) {
           updateData.logo_url = logoResponse.data.url;
           updateData.logo_cloudinary_id = logoResponse.data.cloudinary_id;
@@ -185,15 +187,14 @@ export default function ConfiguracionPage() {
 
       // Subir banner si hay uno nuevo
       if (bannerFile) {
-        const bannerResponse = await api.upload.imagen(bannerFile, 'tiendas/banners');
+        const bannerResponse = await api.upload.imagen(bannerFile, 'nilhub/tiendas/banners');
         if (bannerResponse.success) {
           updateData.banner_url = bannerResponse.data.url;
           updateData.banner_cloudinary_id = bannerResponse.data.cloudinary_id;
         }
       }
 
-      // ✅ ÚNICO CAMBIO CRÍTICO: Agregar tienda._id como primer parámetro
-      const response = await api.tiendas.update(tienda._id, updateData);
+      const response = await api.tiendas.update(updateData);
 
       if (response.success) {
         setSuccess(true);
@@ -595,6 +596,12 @@ export default function ConfiguracionPage() {
 
         </div>
       </form>
+
+      {/* Integraciones (fuera del formulario: se guardan por separado) */}
+      <div className="lg:w-2/3 space-y-6">
+        <TokensApi />
+        <WebhooksTienda />
+      </div>
     </div>
   );
 }
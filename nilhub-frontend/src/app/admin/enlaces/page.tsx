@@ -0,0 +1,211 @@
+// fronted/src/app/admin/enlaces/page.tsx
+/**
+ * @fileoverview Generador de enlaces con seguimiento (UTM) para redes sociales
+ * Un enlace por red configurada en la tienda, al catálogo o a un producto
+ * @module EnlacesPage
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Link2, Copy, Check, Instagram, Facebook, Settings } from 'lucide-react';
+import api from '@/lib/api';
+import type { Producto } from '@/types';
+import { SITE_URL } from '@/lib/seo';
+import { enlaceConUtm } from '@/lib/origen';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Redes para las que se generan enlaces (si la tienda las configuró)
+ * `clave` es el utm_source que luego aparece en la analítica
+ * @constant
+ */
+const REDES = [
+  { clave: 'instagram', nombre: 'Instagram', icono: Instagram },
+  { clave: 'facebook', nombre: 'Facebook', icono: Facebook },
+] as const;
+
+/**
+ * utm_medium de los enlaces publicados en redes
+ * @constant
+ */
+const MEDIO_SOCIAL = 'social';
+
+/**
+ * Convierte el nombre de campaña a un valor estable para utm_campaign
+ * ("Promo Día de la Madre" → "promo-dia-de-la-madre")
+ * @private
+ */
+const valorDeCampana = (texto: string) =>
+  texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Página de enlaces con seguimiento
+ *
+ * Cada enlace lleva utm_source (la red), utm_medium=social y, si se indica,
+ * utm_campaign. Las visitas y consultas que lleguen por ellos aparecen en
+ * "De dónde llegan" y "Campañas" del dashboard.
+ */
+export default function EnlacesPage() {
+  const { tienda } = useAuth();
+  const [productos, setProductos] = useState<Producto[]>([]);
+  const [productoId, setProductoId] = useState('');
+  const [campana, setCampana] = useState('');
+  const [copiado, setCopiado] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    api.productos.getMisProductos()
+      .then(({ data }) => setProductos(data.filter((p) => p.activo)))
+      .catch(() => setError('No se pudieron cargar tus productos'));
+  }, []);
+
+  if (!tienda) return null;
+
+  /** Redes configuradas en la tienda */
+  const redes = REDES.filter((red) => tienda[red.clave]?.trim());
+
+  /** Página a la que apuntan los enlaces */
+  const destino = productoId
+    ? `${SITE_URL}/${tienda.slug}/producto/${productoId}`
+    : `${SITE_URL}/${tienda.slug}`;
+
+  const enlaceDe = (red: string) =>
+    enlaceConUtm(destino, {
+      utm_source: red,
+      utm_medium: MEDIO_SOCIAL,
+      utm_campaign: valorDeCampana(campana),
+    });
+
+  const copiar = async (red: string) => {
+    try {
+      await navigator.clipboard.writeText(enlaceDe(red));
+      setCopiado(red);
+      setTimeout(() => setCopiado((actual) => (actual === red ? '' : actual)), 2000);
+    } catch {
+      setError('No se pudo copiar el enlace. Selecciónalo y cópialo manualmente.');
+    }
+  };
+
+  return (
+    <div className="space-y-8 max-w-3xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Enlaces con seguimiento</h1>
+        <p className="text-slate-600 mt-2">
+          Publica estos enlaces en tus redes para saber cuántas visitas y consultas trae cada una
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Opciones */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">¿A dónde lleva el enlace?</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <label htmlFor="destino" className="text-sm font-medium text-slate-700">
+              Página
+            </label>
+            <select
+              id="destino"
+              value={productoId}
+              onChange={(e) => setProductoId(e.target.value)}
+              className="mt-1 w-full h-10 rounded-md border border-slate-200 bg-white px-3 text-sm"
+            >
+              <option value="">Catálogo completo</option>
+              {productos.map((producto) => (
+                <option key={producto._id} value={producto._id}>
+                  {producto.nombre}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="campana" className="text-sm font-medium text-slate-700">
+              Campaña (opcional)
+            </label>
+            <Input
+              id="campana"
+              value={campana}
+              onChange={(e) => setCampana(e.target.value)}
+              placeholder="Ej: Día de la Madre"
+              maxLength={60}
+              className="mt-1"
+            />
+            {campana && (
+              <p className="text-xs text-slate-500 mt-1">
+                Aparecerá en la analítica como <code>{valorDeCampana(campana) || '—'}</code>
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Enlaces por red */}
+      {redes.length === 0 ? (
+        <Alert>
+          <AlertDescription className="flex flex-wrap items-center gap-2">
+            Agrega tu Instagram o Facebook en la configuración de la tienda para generar sus enlaces.
+            <Link href="/admin/configuracion" className="inline-flex items-center gap-1 font-medium text-pink-600">
+              <Settings className="h-4 w-4" />
+              Ir a Configuración
+            </Link>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="space-y-4">
+          {redes.map(({ clave, nombre, icono: Icono }) => (
+            <Card key={clave}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center gap-2 font-semibold text-slate-900">
+                  <Icono className="h-5 w-5 text-pink-500" />
+                  {nombre}
+                </div>
+                <div className="flex gap-2">
+                  <Input value={enlaceDe(clave)} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                  <Button variant="outline" onClick={() => copiar(clave)} className="gap-2 flex-shrink-0">
+                    {copiado === clave ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    {copiado === clave ? 'Copiado' : 'Copiar'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <p className="flex items-start gap-2 text-sm text-slate-500">
+        <Link2 className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        Las visitas sin etiqueta también se atribuyen cuando el navegador informa de dónde vienen
+        (por ejemplo Google o TikTok); las que no, se muestran como Directo.
+      </p>
+    </div>
+  );
+}
@@ -2,9 +2,11 @@
 'use client';
 
 import { useAuth } from '@/contexts/AuthContext';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 import AdminSidebar from '@/components/layout/AdminSidebar';
+import VerificarEmail from '@/components/admin/VerificarEmail';
+import EliminacionPendiente from '@/components/admin/EliminacionPendiente';
 import { Loader2 } from 'lucide-react';
 
 export default function AdminLayout({
@@ -14,6 +16,10 @@ export default function AdminLayout({
 }) {
   const { usuario, isLoading } = useAuth(); // ✅ Cambio aquí
   const router = useRouter();
+  const pathname = usePathname();
+
+  /** Verificación en dos pasos obligatoria (administradores) y sin activar */
+  const faltaDosPasos = !!usuario?.dos_pasos?.obligatorio && !usuario.dos_pasos.activo;
 
   useEffect(() => {
     if (!isLoading && !usuario) { // ✅ Cambio aquí
@@ -21,6 +27,13 @@ export default function AdminLayout({
     }
   }, [usuario, isLoading, router]); // ✅ Cambio aquí
 
+  // Sin la verificación obligatoria solo se puede estar en Seguridad
+  useEffect(() => {
+    if (faltaDosPasos && pathname !== '/admin/seguridad') {
+      router.replace('/admin/seguridad');
+    }
+  }, [faltaDosPasos, pathname, router]);
+
   if (isLoading) { // ✅ Cambio aquí
     return (
       <div className="min-h-screen flex items-center justify-center bg-slate-50">
@@ -40,6 +53,8 @@ export default function AdminLayout({
     <div className="min-h-screen bg-slate-50">
       <AdminSidebar />
       <main className="ml-64 p-8">
+        <EliminacionPendiente />
+        <VerificarEmail />
         {children}
       </main>
     </div>
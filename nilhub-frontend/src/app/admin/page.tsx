@@ -26,8 +26,13 @@ import {
   Shield
 } from 'lucide-react';
 import Link from 'next/link';
-import { useEffect, useState } from 'react';
-import api, { Producto, Tienda } from '@/lib/api';
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import api from '@/lib/api';
+import { claves } from '@/lib/consultas';
+import { useMisProductos } from '@/hooks/useProductos';
+import type { Producto, Tienda } from '@/types';
+import AnaliticaTienda from '@/components/admin/AnaliticaTienda';
 
 // ===================================
 // INTERFACES
@@ -68,74 +73,35 @@ interface StatsAdmin {
 export default function AdminDashboard() {
   const { usuario, tienda, isAdmin } = useAuth();
   
-  // Estados
-  const [statsVendedor, setStatsVendedor] = useState<StatsVendedor | null>(null);
-  const [statsAdmin, setStatsAdmin] = useState<StatsAdmin | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (isAdmin) {
-      cargarEstadisticasAdmin();
-    } else {
-      cargarEstadisticasVendedor();
-    }
-  }, [isAdmin]);
+  // Productos desde la caché (los comparte la página de productos)
+  const productosQuery = useMisProductos();
 
-  /**
-   * Carga estadísticas globales para administrador
-   */
-  const cargarEstadisticasAdmin = async () => {
-    try {
-      setLoading(true);
-      
-      // Llamar al endpoint de stats del admin
-      const response = await api.admin.getStats();
-      
-      if (response.success) {
-        setStatsAdmin(response.data);
-      }
-    } catch (error) {
-      console.error('Error al cargar estadísticas admin:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Estadísticas globales: solo para el administrador
+  const statsAdminQuery = useQuery({
+    queryKey: claves.estadisticas(),
+    queryFn: async () => (await api.admin.getStats()).data,
+    enabled: isAdmin,
+  });
 
   /**
-   * Carga estadísticas de la tienda del vendedor
+   * Estadísticas de la tienda del vendedor, calculadas de sus productos
    */
-  const cargarEstadisticasVendedor = async () => {
-    try {
-      setLoading(true);
-      
-      // Obtener productos del backend
-      const response = await api.productos.getMisProductos();
-      
-      if (response.success) {
-        const productos = response.data;
-        
-        // Calcular estadísticas
-        const total_visitas = productos.reduce((sum, p) => sum + p.vistas, 0);
-        const clicks_whatsapp = productos.reduce((sum, p) => sum + p.clicks_whatsapp, 0);
-        const productos_sin_stock = productos.filter(p => !p.hay_stock).length;
-        
-        // Obtener últimos 3 productos
-        const ultimos_productos = productos.slice(0, 3);
-        
-        setStatsVendedor({
-          total_productos: productos.length,
-          total_visitas,
-          clicks_whatsapp,
-          productos_sin_stock,
-          ultimos_productos,
-        });
-      }
-    } catch (error) {
-      console.error('Error al cargar estadísticas vendedor:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const statsVendedor = useMemo<StatsVendedor | null>(() => {
+    const productos = productosQuery.data;
+    if (!productos) return null;
+
+    return {
+      total_productos: productos.length,
+      total_visitas: productos.reduce((sum, p) => sum + p.vistas, 0),
+      clicks_whatsapp: productos.reduce((sum, p) => sum + p.clicks_whatsapp, 0),
+      productos_sin_stock: productos.filter(p => !p.hay_stock).length,
+      // Últimos 3 productos
+      ultimos_productos: productos.slice(0, 3),
+    };
+  }, [productosQuery.data]);
+
+  const statsAdmin: StatsAdmin | null = statsAdminQuery.data ?? null;
+  const loading = isAdmin ? statsAdminQuery.isLoading : productosQuery.isLoading;
 
   // Mostrar loading
   if (loading) {
@@ -464,6 +430,9 @@ function DashboardVendedor({ stats, tienda }: { stats: StatsVendedor | null; tie
         </Card>
       </div>
 
+      {/* Analítica por período */}
+      <AnaliticaTienda />
+
       {/* Últimos Productos */}
       <Card>
         <CardHeader>
@@ -0,0 +1,298 @@
+// fronted/src/app/admin/pedidos/page.tsx
+/**
+ * @fileoverview Gestión de pedidos recibidos desde el carrito del catálogo
+ * Filtro por estado y acciones: confirmar, entregar, cancelar
+ * @module PedidosPage
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Receipt,
+  Loader2,
+  AlertCircle,
+  Check,
+  Truck,
+  X,
+  Phone,
+  MessageCircle
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import api from '@/lib/api';
+import { EstadoPedido, Pedido } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Etiquetas y estilos por estado
+ * @constant
+ */
+const ESTADOS: Record<EstadoPedido, { label: string; className: string }> = {
+  pendiente: { label: 'Pendiente', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  confirmado: { label: 'Confirmado', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  entregado: { label: 'Entregado', className: 'bg-green-100 text-green-700 border-green-200' },
+  cancelado: { label: 'Cancelado', className: 'bg-slate-100 text-slate-600 border-slate-300' },
+};
+
+/** Resumen vacío (antes de cargar) */
+const RESUMEN_INICIAL: Record<EstadoPedido, number> = {
+  pendiente: 0,
+  confirmado: 0,
+  entregado: 0,
+  cancelado: 0,
+};
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+export default function PedidosPage() {
+  const [estadoFiltro, setEstadoFiltro] = useState<EstadoPedido | ''>('pendiente');
+  const [pedidos, setPedidos] = useState<Pedido[]>([]);
+  const [resumen, setResumen] = useState(RESUMEN_INICIAL);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  /** ID del pedido cuya acción está en curso */
+  const [procesando, setProcesando] = useState<string | null>(null);
+
+  const cargarPedidos = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await api.pedidos.getMisPedidos(estadoFiltro || undefined);
+      if (response.success) {
+        setPedidos(response.data.pedidos);
+        setResumen(response.data.resumen);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar pedidos');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [estadoFiltro]);
+
+  useEffect(() => {
+    cargarPedidos();
+  }, [cargarPedidos]);
+
+  // Handlers
+  const handleCambiarEstado = async (pedido: Pedido, estado: EstadoPedido) => {
+    if (estado === 'cancelado' && !confirm(`¿Cancelar el pedido ${pedido.codigo}?`)) return;
+
+    try {
+      setProcesando(pedido._id);
+      setError('');
+      await api.pedidos.cambiarEstado(pedido._id, estado);
+      await cargarPedidos();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al actualizar pedido');
+      console.error(err);
+    } finally {
+      setProcesando(null);
+    }
+  };
+
+  const totalPedidos = Object.values(resumen).reduce((suma, n) => suma + n, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 bg-clip-text text-transparent">
+          Pedidos
+        </h1>
+        <p className="text-sm text-slate-600 mt-2">
+          {totalPedidos} pedidos recibidos
+          {resumen.pendiente > 0 && (
+            <span className="text-amber-600 font-medium"> • {resumen.pendiente} por confirmar</span>
+          )}
+        </p>
+      </div>
+
+      {/* Filtro por estado */}
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant={estadoFiltro === '' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setEstadoFiltro('')}
+        >
+          Todos ({totalPedidos})
+        </Button>
+        {(Object.keys(ESTADOS) as EstadoPedido[]).map((estado) => (
+          <Button
+            key={estado}
+            variant={estadoFiltro === estado ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setEstadoFiltro(estado)}
+          >
+            {ESTADOS[estado].label} ({resumen[estado]})
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Lista o estados */}
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[40vh]">
+          <div className="text-center">
+            <Loader2 className="h-12 w-12 animate-spin text-pink-500 mx-auto mb-4" />
+            <p className="text-slate-600">Cargando pedidos...</p>
+          </div>
+        </div>
+      ) : pedidos.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="h-16 w-16 rounded-full bg-slate-100 flex items-center justify-center mx-auto mb-4">
+              <Receipt className="h-8 w-8 text-slate-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">
+              No hay pedidos {estadoFiltro && ESTADOS[estadoFiltro].label.toLowerCase() + 's'}
+            </h3>
+            <p className="text-slate-600">
+              Los pedidos que tus clientes envían desde el carrito aparecerán aquí
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {pedidos.map((pedido) => (
+            <PedidoItem
+              key={pedido._id}
+              pedido={pedido}
+              procesando={procesando === pedido._id}
+              onCambiarEstado={handleCambiarEstado}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Componente: Item de Pedido
+interface PedidoItemProps {
+  pedido: Pedido;
+  procesando: boolean;
+  onCambiarEstado: (pedido: Pedido, estado: EstadoPedido) => void;
+}
+
+function PedidoItem({ pedido, procesando, onCambiarEstado }: PedidoItemProps) {
+  const fecha = new Date(pedido.createdAt).toLocaleString('es-PE', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+  return (
+    <Card className={cn(
+      "border-2 transition-all duration-300 hover:shadow-md",
+      pedido.estado === 'cancelado' && "opacity-60 bg-slate-50"
+    )}>
+      <CardContent className="p-4">
+        <div className="flex flex-col md:flex-row md:items-start gap-4">
+          {/* Info principal */}
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="font-bold text-slate-900 font-mono">{pedido.codigo}</h3>
+              <Badge variant="outline" className={ESTADOS[pedido.estado].className}>
+                {ESTADOS[pedido.estado].label}
+              </Badge>
+              <span className="text-xs text-slate-500">{fecha}</span>
+            </div>
+
+            <div className="flex items-center gap-3 text-sm text-slate-600">
+              <span className="font-medium">{pedido.cliente_nombre}</span>
+              <span>•</span>
+              <a
+                href={`https://wa.me/${pedido.cliente_telefono}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 hover:text-green-600 transition-colors"
+              >
+                <Phone className="h-3 w-3" />
+                {pedido.cliente_telefono}
+                <MessageCircle className="h-3 w-3" />
+              </a>
+            </div>
+
+            {/* Líneas del pedido */}
+            <ul className="text-sm text-slate-700 space-y-1">
+              {pedido.items.map((item) => (
+                <li key={`${item.producto_id}:${item.variante_id || ''}`} className="flex justify-between gap-4">
+                  <span className="truncate">
+                    {item.cantidad} x {item.nombre}
+                    {item.variante_nombre && (
+                      <span className="text-slate-500"> ({item.variante_nombre})</span>
+                    )}
+                  </span>
+                  <span className="text-slate-500 shrink-0">
+                    S/ {item.subtotal.toFixed(2)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Total y acciones */}
+          <div className="flex md:flex-col items-center md:items-end gap-3">
+            <div className="text-right">
+              <div className="text-xs text-slate-500">Total</div>
+              <div className="text-xl font-bold text-slate-900">S/ {pedido.total.toFixed(2)}</div>
+            </div>
+
+            <div className="flex gap-2">
+              {pedido.estado === 'pendiente' && (
+                <Button
+                  size="sm"
+                  onClick={() => onCambiarEstado(pedido, 'confirmado')}
+                  disabled={procesando}
+                  className="gap-2 bg-green-600 hover:bg-green-700"
+                  title="Confirmar descuenta el stock de cada producto"
+                >
+                  {procesando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                  Confirmar
+                </Button>
+              )}
+              {pedido.estado === 'confirmado' && (
+                <Button
+                  size="sm"
+                  onClick={() => onCambiarEstado(pedido, 'entregado')}
+                  disabled={procesando}
+                  className="gap-2 bg-blue-600 hover:bg-blue-700"
+                >
+                  {procesando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Truck className="h-4 w-4" />}
+                  Entregado
+                </Button>
+              )}
+              {(pedido.estado === 'pendiente' || pedido.estado === 'confirmado') && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onCambiarEstado(pedido, 'cancelado')}
+                  disabled={procesando}
+                  className="gap-2 text-red-600 hover:text-red-700"
+                >
+                  <X className="h-4 w-4" />
+                  Cancelar
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
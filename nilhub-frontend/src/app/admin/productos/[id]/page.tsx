@@ -7,6 +7,7 @@
  * - Precios (normal y oferta)
  * - Stock manual (cantidad y disponibilidad)
  * - Imágenes (mantener existentes, eliminar, agregar nuevas - máx 5 total)
+ * - Variantes (tonos/tamaños con stock, precio e imagen propios)
  * - Detalles opcionales (ingredientes, peso)
  * 
  * Características técnicas:
@@ -41,26 +42,21 @@ import {
   Trash2
 } from 'lucide-react';
 import Link from 'next/link';
+import VariantesEditor, {
+  VarianteForm,
+  formAVariantes,
+  stockTotal,
+  variantesAForm
+} from '@/components/productos/VariantesEditor';
+import CategoriaSelect from '@/components/productos/CategoriaSelect';
 import { cn } from '@/lib/utils';
 import api from '@/lib/api';
+import { useInvalidarProductos, useProducto } from '@/hooks/useProductos';
 
 // ===================================
 // CONSTANTES Y TIPOS
 // ===================================
 
-/**
- * Categorías predefinidas de productos cosméticos
- */
-const categorias = [
-  { value: '', label: 'Selecciona una categoría' },
-  { value: 'maquillaje', label: 'Maquillaje' },
-  { value: 'skincare', label: 'Skincare' },
-  { value: 'fragancias', label: 'Fragancias' },
-  { value: 'cuidado-personal', label: 'Cuidado Personal' },
-  { value: 'accesorios', label: 'Accesorios' },
-  { value: 'otros', label: 'Otros' },
-];
-
 /**
  * Interface para los datos del formulario
  */
@@ -69,6 +65,7 @@ interface FormData {
   descripcion: string;
   categoria: string;
   marca: string;
+  sku: string;
   precio: string;
   precio_oferta: string;
   stock: string;
@@ -119,8 +116,13 @@ export default function EditarProductoPage() {
   // ESTADOS
   // ===================================
 
+  // Producto desde la caché
+  const productoQuery = useProducto(productId);
+  const invalidarProductos = useInvalidarProductos();
+
   // Estados de carga y feedback
   const [loading, setLoading] = useState(false);
+  /** true hasta copiar el producto al formulario */
   const [loadingData, setLoadingData] = useState(true);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
@@ -131,6 +133,7 @@ export default function EditarProductoPage() {
     descripcion: '',
     categoria: '',
     marca: '',
+    sku: '',
     precio: '',
     precio_oferta: '',
     stock: '0',
@@ -145,52 +148,54 @@ export default function EditarProductoPage() {
   const [imagenesAEliminar, setImagenesAEliminar] = useState<string[]>([]); // cloudinary_ids
   const [dragActive, setDragActive] = useState(false);
 
+  // Variantes (tonos, tamaños)
+  const [variantes, setVariantes] = useState<VarianteForm[]>([]);
+  const tieneVariantes = variantes.length > 0;
+
   // ===================================
   // EFECTOS
   // ===================================
 
   /**
-   * Effect: Cargar datos del producto al montar
+   * Effect: Rellenar el formulario con el producto
    * 
-   * Obtiene el producto desde la API y rellena el formulario
-   * con los datos existentes.
+   * El producto viene de la caché si está al día; si no, se espera a la
+   * respuesta de la API. Se rellena una sola vez: una revalidación posterior
+   * no pisa lo que el usuario está editando.
    */
   useEffect(() => {
-    const loadProducto = async () => {
-      setLoadingData(true);
-      try {
-        const response = await api.productos.getById(productId);
-
-        if (response.success) {
-          const producto = response.data;
-
-          // Llenar formulario con datos existentes
-          setFormData({
-            nombre: producto.nombre,
-            descripcion: producto.descripcion || '',
-            categoria: producto.categoria,
-            marca: producto.marca || '',
-            precio: producto.precio.toString(),
-            precio_oferta: producto.precio_oferta?.toString() || '',
-            stock: producto.stock.toString(),
-            hay_stock: producto.hay_stock,
-            ingredientes: producto.ingredientes || '',
-            peso: producto.peso || '',
-          });
-
-          // Cargar imágenes existentes
-          setImagenesExistentes(producto.imagenes || []);
-        }
-      } catch (err) {
-        setError('Error al cargar el producto. Verifica que el ID sea correcto.');
-        console.error('Error al cargar producto:', err);
-      } finally {
-        setLoadingData(false);
-      }
-    };
+    if (productoQuery.error) {
+      setError('Error al cargar el producto. Verifica que el ID sea correcto.');
+      console.error('Error al cargar producto:', productoQuery.error);
+      setLoadingData(false);
+      return;
+    }
+
+    const producto = productoQuery.data;
+    if (!producto || productoQuery.isFetching || !loadingData) return;
+    setLoadingData(false);
+
+    // Llenar formulario con datos existentes
+    setFormData({
+      nombre: producto.nombre,
+      descripcion: producto.descripcion || '',
+      categoria: producto.categoria,
+      marca: producto.marca || '',
+      sku: producto.sku || '',
+      precio: producto.precio.toString(),
+      precio_oferta: producto.precio_oferta?.toString() || '',
+      stock: producto.stock.toString(),
+      hay_stock: producto.hay_stock,
+      ingredientes: producto.ingredientes || '',
+      peso: producto.peso || '',
+    });
+
+    // Cargar imágenes existentes
+    setImagenesExistentes(producto.imagenes || []);
 
-    loadProducto();
-  }, [productId]);
+    // Cargar variantes
+    setVariantes(variantesAForm(producto.variantes));
+  }, [productoQuery.data, productoQuery.isFetching, productoQuery.error, loadingData]);
 
   // ===================================
   // HANDLERS - FORMULARIO
@@ -369,6 +374,9 @@ export default function EditarProductoPage() {
         throw new Error('El producto debe tener al menos 1 imagen');
       }
 
+      // Validar variantes antes de subir imágenes
+      formAVariantes(variantes, () => undefined);
+
       // ===================================
       // PASO 2: SUBIR NUEVAS IMÁGENES
       // ===================================
@@ -377,7 +385,7 @@ export default function EditarProductoPage() {
 
       if (imagenesNuevas.length > 0) {
         const imagenesFiles = imagenesNuevas.map(img => img.file);
-        const uploadResponse = await api.upload.imagenes(imagenesFiles, 'productos');
+        const uploadResponse = await api.upload.imagenes(imagenesFiles);
 
         if (!uploadResponse.success) {
           throw new Error('Error al subir las nuevas imágenes');
@@ -396,19 +404,28 @@ export default function EditarProductoPage() {
         ...nuevasImagenesSubidas
       ];
 
+      // Imagen final correspondiente a cada URL del formulario (para las variantes)
+      const imagenPorUrl = new Map<string, ImagenExistente>([
+        ...imagenesExistentes.map((img): [string, ImagenExistente] => [img.url, img]),
+        ...imagenesNuevas.map((img, index): [string, ImagenExistente] => [img.preview, nuevasImagenesSubidas[index]])
+      ]);
+
       // Preparar objeto con datos del producto
       const productData = {
         nombre: formData.nombre.trim(),
         descripcion: formData.descripcion.trim() || undefined,
-        categoria: formData.categoria as 'maquillaje' | 'skincare' | 'fragancias' | 'cuidado-personal' | 'accesorios' | 'otros',
+        categoria: formData.categoria,
         marca: formData.marca.trim() || undefined,
+        // Vacío quita el SKU
+        sku: formData.sku.trim(),
         precio: parseFloat(formData.precio),
         precio_oferta: formData.precio_oferta ? parseFloat(formData.precio_oferta) : undefined,
-        stock: parseInt(formData.stock) || 0,
+        stock: tieneVariantes ? stockTotal(variantes) : parseInt(formData.stock) || 0,
         hay_stock: formData.hay_stock,
         ingredientes: formData.ingredientes.trim() || undefined,
         peso: formData.peso.trim() || undefined,
         imagenes: imagenesFinales,
+        variantes: formAVariantes(variantes, (url) => imagenPorUrl.get(url)),
         activo: true,
       };
 
@@ -422,6 +439,9 @@ export default function EditarProductoPage() {
         throw new Error(response.error || 'Error al actualizar el producto');
       }
 
+      // La lista y este producto se recargan en segundo plano
+      invalidarProductos();
+
       // ===================================
       // PASO 5: ELIMINAR IMÁGENES ANTIGUAS
       // ===================================
@@ -730,20 +750,10 @@ export default function EditarProductoPage() {
                 <label htmlFor="categoria" className="text-sm font-semibold text-slate-700">
                   Categoría <span className="text-red-500">*</span>
                 </label>
-                <select
-                  id="categoria"
-                  name="categoria"
+                <CategoriaSelect
                   value={formData.categoria}
                   onChange={handleChange}
-                  required
-                  className="w-full h-11 px-3 rounded-md border border-slate-200 bg-white focus:border-pink-400 focus:ring-4 focus:ring-pink-500/10 outline-none transition-all"
-                >
-                  {categorias.map(cat => (
-                    <option key={cat.value} value={cat.value}>
-                      {cat.label}
-                    </option>
-                  ))}
-                </select>
+                />
               </div>
 
               <div className="space-y-2">
@@ -759,6 +769,23 @@ export default function EditarProductoPage() {
                   className="h-11"
                 />
               </div>
+
+              <div className="space-y-2">
+                <label htmlFor="sku" className="text-sm font-semibold text-slate-700">
+                  SKU
+                </label>
+                <Input
+                  id="sku"
+                  name="sku"
+                  value={formData.sku}
+                  onChange={handleChange}
+                  placeholder="Ej: LAB-001"
+                  className="h-11 uppercase"
+                />
+                <p className="text-xs text-slate-500">
+                  Código único para reconocer el producto al importar desde Excel
+                </p>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -816,14 +843,18 @@ export default function EditarProductoPage() {
               <div className="space-y-2">
                 <label htmlFor="stock" className="text-sm font-semibold text-slate-700">
                   Cantidad en Stock
+                  {tieneVariantes && (
+                    <span className="text-xs text-slate-500 ml-2">Suma de las variantes</span>
+                  )}
                 </label>
                 <Input
                   id="stock"
                   name="stock"
                   type="number"
                   min="0"
-                  value={formData.stock}
+                  value={tieneVariantes ? stockTotal(variantes) : formData.stock}
                   onChange={handleChange}
+                  disabled={tieneVariantes}
                   className="h-11"
                 />
               </div>
@@ -851,6 +882,18 @@ export default function EditarProductoPage() {
           </CardContent>
         </Card>
 
+        {/* ===================================
+            SECCIÓN: VARIANTES
+            =================================== */}
+        <VariantesEditor
+          variantes={variantes}
+          onChange={setVariantes}
+          imagenes={[
+            ...imagenesExistentes.map(img => img.url),
+            ...imagenesNuevas.map(img => img.preview)
+          ]}
+        />
+
         {/* ===================================
             SECCIÓN: DETALLES ADICIONALES
             =================================== */}
@@ -0,0 +1,433 @@
+// fronted/src/app/admin/productos/importar/page.tsx
+/**
+ * @fileoverview Importación masiva de productos desde CSV o Excel
+ * Subir archivo → asociar columnas → revisar errores por fila → importar
+ * @module ImportarProductosPage
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  ArrowLeft,
+  FileSpreadsheet,
+  Download,
+  Upload,
+  Loader2,
+  AlertCircle,
+  Check,
+  RefreshCw
+} from 'lucide-react';
+import { cn, descargarArchivo } from '@/lib/utils';
+import api from '@/lib/api';
+import { useInvalidarProductos } from '@/hooks/useProductos';
+import { CampoImportacion, ResultadoImportacion } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Campos que se pueden importar, en el orden del archivo exportado
+ * `obligatorio`: necesario para crear productos nuevos
+ * @constant
+ */
+const CAMPOS: Array<{ campo: CampoImportacion; etiqueta: string; obligatorio?: boolean; ayuda?: string }> = [
+  { campo: 'sku', etiqueta: 'SKU', ayuda: 'Código único del producto' },
+  { campo: 'nombre', etiqueta: 'Nombre', obligatorio: true },
+  { campo: 'descripcion', etiqueta: 'Descripción' },
+  { campo: 'categoria', etiqueta: 'Categoría', obligatorio: true, ayuda: 'Nombre o slug de una categoría de tu tienda' },
+  { campo: 'marca', etiqueta: 'Marca' },
+  { campo: 'precio', etiqueta: 'Precio', obligatorio: true },
+  { campo: 'precio_oferta', etiqueta: 'Precio oferta' },
+  { campo: 'stock', etiqueta: 'Stock', obligatorio: true },
+  { campo: 'imagenes', etiqueta: 'Imágenes', obligatorio: true, ayuda: 'URLs separadas por | (máx. 5)' },
+  { campo: 'ingredientes', etiqueta: 'Ingredientes' },
+  { campo: 'peso', etiqueta: 'Peso' },
+  { campo: 'activo', etiqueta: 'Activo', ayuda: 'sí / no' },
+];
+
+/**
+ * Estilo de cada acción en la tabla de resultados
+ * @constant
+ */
+const ACCIONES = {
+  crear: { etiqueta: 'Nuevo', clase: 'bg-green-100 text-green-700' },
+  actualizar: { etiqueta: 'Actualizar', clase: 'bg-blue-100 text-blue-700' },
+  error: { etiqueta: 'Error', clase: 'bg-red-100 text-red-700' },
+} as const;
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Página de importación de productos
+ *
+ * Flujo:
+ * 1. Al elegir el archivo se sugiere un mapeo de columnas y se valida (sin guardar)
+ * 2. Cada cambio de mapeo o de clave vuelve a validar
+ * 3. "Importar" guarda solo las filas válidas; las demás quedan con su error
+ *
+ * Un producto existente se reconoce por SKU o por nombre, y se actualiza
+ * con las columnas que tengan valor (las celdas vacías no borran datos).
+ */
+export default function ImportarProductosPage() {
+  const invalidarProductos = useInvalidarProductos();
+  const [archivo, setArchivo] = useState<File | null>(null);
+  const [clave, setClave] = useState<ResultadoImportacion['clave']>('sku');
+  const [mapeo, setMapeo] = useState<ResultadoImportacion['mapeo']>({});
+  const [resultado, setResultado] = useState<ResultadoImportacion | null>(null);
+  const [soloErrores, setSoloErrores] = useState(false);
+  const [validando, setValidando] = useState(false);
+  const [importando, setImportando] = useState(false);
+  const [exportando, setExportando] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Valida el archivo (simulación) con el mapeo y la clave indicados
+   * Sin mapeo, el backend sugiere uno
+   */
+  const validar = async (
+    nuevoArchivo: File,
+    opciones: { mapeo?: ResultadoImportacion['mapeo']; clave: ResultadoImportacion['clave'] }
+  ) => {
+    try {
+      setValidando(true);
+      setError('');
+      const { data } = await api.productos.importar(nuevoArchivo, { ...opciones, simular: true });
+      setResultado(data);
+      setMapeo(data.mapeo);
+    } catch (err) {
+      setResultado(null);
+      setError(err instanceof Error ? err.message : 'Error al leer el archivo');
+    } finally {
+      setValidando(false);
+    }
+  };
+
+  const handleArchivo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const elegido = e.target.files?.[0];
+    e.target.value = '';
+    if (!elegido) return;
+
+    setArchivo(elegido);
+    setSoloErrores(false);
+    validar(elegido, { clave });
+  };
+
+  const handleMapeo = (campo: CampoImportacion, columna: string) => {
+    const nuevo = { ...mapeo };
+    if (columna) {
+      // Una columna solo puede ir a un campo
+      (Object.keys(nuevo) as CampoImportacion[]).forEach((c) => {
+        if (nuevo[c] === columna) delete nuevo[c];
+      });
+      nuevo[campo] = columna;
+    } else {
+      delete nuevo[campo];
+    }
+    setMapeo(nuevo);
+    if (archivo) validar(archivo, { mapeo: nuevo, clave });
+  };
+
+  const handleClave = (nuevaClave: ResultadoImportacion['clave']) => {
+    setClave(nuevaClave);
+    if (archivo) validar(archivo, { mapeo, clave: nuevaClave });
+  };
+
+  const handleImportar = async () => {
+    if (!archivo || !resultado) return;
+    const validos = resultado.resumen.crear + resultado.resumen.actualizar;
+    if (!confirm(`¿Importar ${validos} productos? Las filas con errores se omiten.`)) return;
+
+    try {
+      setImportando(true);
+      setError('');
+      const { data } = await api.productos.importar(archivo, { mapeo, clave, simular: false });
+      invalidarProductos();
+      setResultado(data);
+      setSoloErrores(data.resumen.errores > 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al importar productos');
+    } finally {
+      setImportando(false);
+    }
+  };
+
+  const handleExportar = async (formato: 'csv' | 'xlsx') => {
+    try {
+      setExportando(true);
+      const fecha = new Date().toISOString().slice(0, 10);
+      descargarArchivo(await api.productos.exportar(formato), `productos-${fecha}.${formato}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al exportar productos');
+    } finally {
+      setExportando(false);
+    }
+  };
+
+  const filas = resultado
+    ? resultado.filas.filter((f) => !soloErrores || f.accion === 'error')
+    : [];
+  const validos = resultado ? resultado.resumen.crear + resultado.resumen.actualizar : 0;
+  const importado = resultado && !resultado.simulacion;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/admin/productos">
+            <Button variant="outline" size="sm" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Volver
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 bg-clip-text text-transparent">
+              Importar Productos
+            </h1>
+            <p className="text-slate-600 mt-1">
+              Sube un archivo CSV o Excel para crear o actualizar productos
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="gap-2" disabled={exportando} onClick={() => handleExportar('xlsx')}>
+            <Download className="h-4 w-4" />
+            Exportar Excel
+          </Button>
+          <Button variant="outline" className="gap-2" disabled={exportando} onClick={() => handleExportar('csv')}>
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="animate-in fade-in slide-in-from-top-2">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {importado && (
+        <Alert className="border-green-200 bg-green-50 text-green-900 animate-in fade-in slide-in-from-top-2">
+          <Check className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800">
+            Se crearon {resultado.resumen.crear} y se actualizaron {resultado.resumen.actualizar} productos.
+            {resultado.resumen.errores > 0 && ` ${resultado.resumen.errores} filas no se importaron.`}{' '}
+            <Link href="/admin/productos" className="font-semibold underline">
+              Ver productos
+            </Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* ===================================
+          PASO 1: ARCHIVO
+          =================================== */}
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Archivo</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label
+            className={cn(
+              'flex flex-col items-center justify-center gap-2 p-8 rounded-xl border-2 border-dashed cursor-pointer transition-all',
+              archivo ? 'border-pink-300 bg-pink-50/50' : 'border-slate-200 hover:border-pink-300 hover:bg-pink-50/30'
+            )}
+          >
+            <FileSpreadsheet className="h-10 w-10 text-pink-500" />
+            <span className="font-medium text-slate-700">
+              {archivo ? archivo.name : 'Elige un archivo .csv o .xlsx'}
+            </span>
+            <span className="text-sm text-slate-500">
+              La primera fila debe tener los nombres de las columnas. Máximo 500 productos.
+            </span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleArchivo}
+              className="hidden"
+            />
+          </label>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <span className="text-sm font-semibold text-slate-700">Reconocer productos existentes por:</span>
+            <div className="flex gap-2">
+              {(['sku', 'nombre'] as const).map((opcion) => (
+                <button
+                  key={opcion}
+                  type="button"
+                  onClick={() => handleClave(opcion)}
+                  className={cn(
+                    'px-4 py-1.5 rounded-full border-2 text-sm font-medium transition-all',
+                    clave === opcion
+                      ? 'bg-purple-600 text-white border-transparent'
+                      : 'bg-white text-slate-700 border-slate-200 hover:border-purple-300'
+                  )}
+                >
+                  {opcion === 'sku' ? 'SKU' : 'Nombre'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            ¿No tienes un archivo? Exporta tus productos: el archivo sirve de plantilla y se puede volver a importar.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* ===================================
+          PASO 2: COLUMNAS
+          =================================== */}
+      {resultado && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Columnas</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {CAMPOS.map(({ campo, etiqueta, obligatorio, ayuda }) => (
+                <div key={campo} className="space-y-1">
+                  <label htmlFor={`campo-${campo}`} className="text-sm font-semibold text-slate-700">
+                    {etiqueta} {obligatorio && <span className="text-red-500">*</span>}
+                  </label>
+                  <select
+                    id={`campo-${campo}`}
+                    value={mapeo[campo] || ''}
+                    onChange={(e) => handleMapeo(campo, e.target.value)}
+                    disabled={validando || importando}
+                    className="w-full h-10 px-3 rounded-md border border-slate-200 bg-white text-sm focus:border-pink-400 focus:ring-4 focus:ring-pink-500/10 outline-none"
+                  >
+                    <option value="">— No importar —</option>
+                    {resultado.columnas.map((columna) => (
+                      <option key={columna} value={columna}>
+                        {columna}
+                      </option>
+                    ))}
+                  </select>
+                  {ayuda && <p className="text-xs text-slate-500">{ayuda}</p>}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-4">
+              <span className="text-red-500">*</span> Obligatorios para productos nuevos. Al actualizar,
+              las celdas vacías conservan el valor actual.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* ===================================
+          PASO 3: REVISIÓN
+          =================================== */}
+      {resultado && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <CardTitle>{importado ? 'Resultado' : '3. Revisión'}</CardTitle>
+              <div className="flex flex-wrap items-center gap-2">
+                {validando && <RefreshCw className="h-4 w-4 animate-spin text-slate-400" />}
+                <Badge className={ACCIONES.crear.clase}>{resultado.resumen.crear} nuevos</Badge>
+                <Badge className={ACCIONES.actualizar.clase}>{resultado.resumen.actualizar} a actualizar</Badge>
+                <Badge className={ACCIONES.error.clase}>{resultado.resumen.errores} con errores</Badge>
+                {resultado.resumen.errores > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setSoloErrores(!soloErrores)}
+                    className="text-sm font-medium text-pink-600 hover:text-pink-700"
+                  >
+                    {soloErrores ? 'Ver todas' : 'Ver solo errores'}
+                  </button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-h-[28rem] overflow-auto rounded-lg border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-slate-600 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 font-semibold">Fila</th>
+                    <th className="px-3 py-2 font-semibold">Producto</th>
+                    <th className="px-3 py-2 font-semibold">Acción</th>
+                    <th className="px-3 py-2 font-semibold">Detalle</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {filas.map((fila) => (
+                    <tr key={fila.fila} className={fila.accion === 'error' ? 'bg-red-50/40' : ''}>
+                      <td className="px-3 py-2 text-slate-500">{fila.fila}</td>
+                      <td className="px-3 py-2">
+                        <p className="font-medium text-slate-900">{fila.nombre || '—'}</p>
+                        {fila.sku && <p className="text-xs text-slate-500">{fila.sku}</p>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge className={ACCIONES[fila.accion].clase}>{ACCIONES[fila.accion].etiqueta}</Badge>
+                      </td>
+                      <td className="px-3 py-2 text-red-700">
+                        {fila.errores.length > 0 ? (
+                          <ul className="space-y-0.5">
+                            {fila.errores.map((mensaje) => (
+                              <li key={mensaje}>{mensaje}</li>
+                            ))}
+                          </ul>
+                        ) : fila.producto_id ? (
+                          <Link
+                            href={`/admin/productos/${fila.producto_id}`}
+                            className="text-pink-600 hover:text-pink-700 font-medium"
+                          >
+                            Ver producto
+                          </Link>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {!importado && (
+              <div className="flex justify-end">
+                <Button
+                  size="lg"
+                  disabled={validos === 0 || validando || importando}
+                  onClick={handleImportar}
+                  className="gap-2 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 shadow-lg shadow-pink-500/30"
+                >
+                  {importando ? (
+                    <>
+                      <Loader2 className="h-5 w-5 animate-spin" />
+                      Importando (las imágenes pueden tardar)...
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="h-5 w-5" />
+                      Importar {validos} productos
+                    </>
+                  )}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {validando && !resultado && (
+        <div className="flex items-center justify-center py-12 text-slate-600 gap-3">
+          <Loader2 className="h-6 w-6 animate-spin text-pink-500" />
+          Leyendo archivo...
+        </div>
+      )}
+    </div>
+  );
+}
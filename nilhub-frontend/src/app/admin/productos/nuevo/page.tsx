@@ -19,25 +19,22 @@ import {
   Sparkles
 } from 'lucide-react';
 import Link from 'next/link';
+import VariantesEditor, {
+  VarianteForm,
+  formAVariantes,
+  stockTotal
+} from '@/components/productos/VariantesEditor';
+import CategoriaSelect from '@/components/productos/CategoriaSelect';
 import { cn } from '@/lib/utils';
 import api from '@/lib/api';
-
-// Categorías predefinidas
-const categorias = [
-  { value: '', label: 'Selecciona una categoría' },
-  { value: 'maquillaje', label: 'Maquillaje' },
-  { value: 'skincare', label: 'Skincare' },
-  { value: 'fragancias', label: 'Fragancias' },
-  { value: 'cuidado-personal', label: 'Cuidado Personal' },
-  { value: 'accesorios', label: 'Accesorios' },
-  { value: 'otros', label: 'Otros' },
-];
+import { useInvalidarProductos } from '@/hooks/useProductos';
 
 interface FormData {
   nombre: string;
   descripcion: string;
   categoria: string;
   marca: string;
+  sku: string;
   precio: string;
   precio_oferta: string;
   stock: string;
@@ -53,6 +50,7 @@ interface ImagePreview {
 
 export default function NuevoProductoPage() {
   const router = useRouter();
+  const invalidarProductos = useInvalidarProductos();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
@@ -63,6 +61,7 @@ export default function NuevoProductoPage() {
     descripcion: '',
     categoria: '',
     marca: '',
+    sku: '',
     precio: '',
     precio_oferta: '',
     stock: '0',
@@ -75,6 +74,10 @@ export default function NuevoProductoPage() {
   const [imagenes, setImagenes] = useState<ImagePreview[]>([]);
   const [dragActive, setDragActive] = useState(false);
 
+  // Variantes (tonos, tamaños)
+  const [variantes, setVariantes] = useState<VarianteForm[]>([]);
+  const tieneVariantes = variantes.length > 0;
+
   // Handlers
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
@@ -172,28 +175,37 @@ export default function NuevoProductoPage() {
       if (imagenes.length === 0) {
         throw new Error('Debes agregar al menos 1 imagen');
       }
+      // Validar variantes antes de subir imágenes
+      formAVariantes(variantes, () => undefined);
 
       // 1. Subir imágenes a Cloudinary
       const imagenesFiles = imagenes.map(img => img.file);
-      const uploadResponse = await api.upload.imagenes(imagenesFiles, 'productos');
+      const uploadResponse = await api.upload.imagenes(imagenesFiles);
 
       if (!uploadResponse.success) {
         throw new Error('Error al subir las imágenes');
       }
 
+      // Imagen subida correspondiente a cada preview (para las variantes)
+      const imagenPorPreview = new Map(
+        imagenes.map((img, index) => [img.preview, uploadResponse.data[index]])
+      );
+
       // 2. Preparar datos del producto
       const productData = {
         nombre: formData.nombre,
         descripcion: formData.descripcion || undefined,
-        categoria: formData.categoria as 'maquillaje' | 'skincare' | 'fragancias' | 'cuidado-personal' | 'accesorios' | 'otros', // ✅ TYPE CASTING
+        categoria: formData.categoria,
         marca: formData.marca || undefined,
+        sku: formData.sku.trim() || undefined,
         precio: parseFloat(formData.precio),
         precio_oferta: formData.precio_oferta ? parseFloat(formData.precio_oferta) : undefined,
-        stock: parseInt(formData.stock) || 0,
+        stock: tieneVariantes ? stockTotal(variantes) : parseInt(formData.stock) || 0,
         hay_stock: formData.hay_stock,
         ingredientes: formData.ingredientes || undefined,
         peso: formData.peso || undefined,
         imagenes: uploadResponse.data,
+        variantes: formAVariantes(variantes, (url) => imagenPorPreview.get(url)),
         activo: true,
       };
 
@@ -202,6 +214,7 @@ export default function NuevoProductoPage() {
 
       if (response.success) {
         setSuccess(true);
+        invalidarProductos();
 
         // Redirigir después de 1 segundo
         setTimeout(() => {
@@ -407,20 +420,10 @@ export default function NuevoProductoPage() {
                 <label htmlFor="categoria" className="text-sm font-semibold text-slate-700">
                   Categoría <span className="text-red-500">*</span>
                 </label>
-                <select
-                  id="categoria"
-                  name="categoria"
+                <CategoriaSelect
                   value={formData.categoria}
                   onChange={handleChange}
-                  required
-                  className="w-full h-11 px-3 rounded-md border border-slate-200 bg-white focus:border-pink-400 focus:ring-4 focus:ring-pink-500/10 outline-none transition-all"
-                >
-                  {categorias.map(cat => (
-                    <option key={cat.value} value={cat.value}>
-                      {cat.label}
-                    </option>
-                  ))}
-                </select>
+                />
               </div>
 
               <div className="space-y-2">
@@ -436,6 +439,23 @@ export default function NuevoProductoPage() {
                   className="h-11"
                 />
               </div>
+
+              <div className="space-y-2">
+                <label htmlFor="sku" className="text-sm font-semibold text-slate-700">
+                  SKU
+                </label>
+                <Input
+                  id="sku"
+                  name="sku"
+                  value={formData.sku}
+                  onChange={handleChange}
+                  placeholder="Ej: LAB-001"
+                  className="h-11 uppercase"
+                />
+                <p className="text-xs text-slate-500">
+                  Código único para reconocer el producto al importar desde Excel
+                </p>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -490,14 +510,18 @@ export default function NuevoProductoPage() {
               <div className="space-y-2">
                 <label htmlFor="stock" className="text-sm font-semibold text-slate-700">
                   Cantidad en Stock
+                  {tieneVariantes && (
+                    <span className="text-xs text-slate-500 ml-2">Suma de las variantes</span>
+                  )}
                 </label>
                 <Input
                   id="stock"
                   name="stock"
                   type="number"
                   min="0"
-                  value={formData.stock}
+                  value={tieneVariantes ? stockTotal(variantes) : formData.stock}
                   onChange={handleChange}
+                  disabled={tieneVariantes}
                   className="h-11"
                 />
               </div>
@@ -525,6 +549,13 @@ export default function NuevoProductoPage() {
           </CardContent>
         </Card>
 
+        {/* Variantes */}
+        <VariantesEditor
+          variantes={variantes}
+          onChange={setVariantes}
+          imagenes={imagenes.map(img => img.preview)}
+        />
+
         {/* Detalles Adicionales */}
         <Card>
           <CardHeader>
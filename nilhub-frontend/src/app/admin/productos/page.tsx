@@ -1,7 +1,7 @@
 // fronted/src/app/admin/productos/page.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,52 +18,33 @@ import {
   AlertCircle,
   Check,
   X,
-  Loader2
+  Loader2,
+  FileSpreadsheet,
+  Download
 } from 'lucide-react';
-import { cn } from '@/lib/utils';
-import api, { Producto } from '@/lib/api';
-
-const categorias = [
-  { value: '', label: 'Todas las categorías' },
-  { value: 'maquillaje', label: 'Maquillaje' },
-  { value: 'skincare', label: 'Skincare' },
-  { value: 'fragancias', label: 'Fragancias' },
-  { value: 'cuidado-personal', label: 'Cuidado Personal' },
-  { value: 'accesorios', label: 'Accesorios' },
-];
+import { cn, descargarArchivo } from '@/lib/utils';
+import api from '@/lib/api';
+import { Producto } from '@/types';
+import { useMisCategorias } from '@/hooks/useCategorias';
+import { useActualizarStock, useCambiarActivo, useEliminarProducto, useMisProductos } from '@/hooks/useProductos';
+import { ordenarCategorias, slugsDeCategoria } from '@/components/tienda/CategoryFilter';
 
 export default function ProductosPage() {
   const [busqueda, setBusqueda] = useState('');
   const [categoriaFiltro, setCategoriaFiltro] = useState('');
-  const [productos, setProductos] = useState<Producto[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
 
-  // Cargar productos
-  useEffect(() => {
-    cargarProductos();
-  }, []);
-
-  const cargarProductos = async () => {
-    try {
-      setLoading(true);
-      const response = await api.productos.getMisProductos();
-      if (response.success) {
-        setProductos(response.data);
-      }
-    } catch (err) {
-      setError('Error al cargar productos');
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Productos y categorías desde la caché (se revalidan en segundo plano)
+  const { data: productos = [], isLoading: loading } = useMisProductos();
+  const { data: categorias = [] } = useMisCategorias();
+  const actualizarStock = useActualizarStock();
+  const cambiarActivo = useCambiarActivo();
+  const eliminarProducto = useEliminarProducto();
 
   // Filtrar productos
   const productosFiltrados = productos.filter(p => {
     const matchBusqueda = p.nombre.toLowerCase().includes(busqueda.toLowerCase()) ||
                           p.marca?.toLowerCase().includes(busqueda.toLowerCase());
-    const matchCategoria = !categoriaFiltro || p.categoria === categoriaFiltro;
+    const matchCategoria = !categoriaFiltro || slugsDeCategoria(categorias, categoriaFiltro).includes(p.categoria);
     return matchBusqueda && matchCategoria;
   });
 
@@ -72,45 +53,47 @@ export default function ProductosPage() {
   const productosActivos = productos.filter(p => p.activo).length;
   const productosSinStock = productos.filter(p => !p.hay_stock).length;
 
-  // Handlers
-  const handleUpdateStock = async (id: string, stock: number) => {
-    try {
-      await api.productos.updateStock(id, stock);
-      // Actualizar localmente
-      setProductos(prev => prev.map(p => 
-        p._id === id ? { ...p, stock, hay_stock: stock > 0 } : p
-      ));
-    } catch (err) {
-      alert('Error al actualizar stock');
-      console.error(err);
-    }
+  // Handlers (la lista cambia al instante y se restaura si el backend falla)
+  const handleUpdateStock = (id: string, stock: number) => {
+    actualizarStock.mutate({ id, stock }, {
+      onError: (err) => {
+        alert('Error al actualizar stock');
+        console.error(err);
+      },
+    });
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = (id: string) => {
     if (!confirm('¿Estás seguro de eliminar este producto?')) return;
-    
+
+    eliminarProducto.mutate(id, {
+      onError: (err) => {
+        alert('Error al eliminar producto');
+        console.error(err);
+      },
+    });
+  };
+
+  const handleExportar = async () => {
     try {
-      await api.productos.delete(id);
-      setProductos(prev => prev.filter(p => p._id !== id));
+      const fecha = new Date().toISOString().slice(0, 10);
+      descargarArchivo(await api.productos.exportar('xlsx'), `productos-${fecha}.xlsx`);
     } catch (err) {
-      alert('Error al eliminar producto');
+      alert('Error al exportar productos');
       console.error(err);
     }
   };
 
-  const handleToggleActivo = async (id: string) => {
+  const handleToggleActivo = (id: string) => {
     const producto = productos.find(p => p._id === id);
     if (!producto) return;
 
-    try {
-      await api.productos.update(id, { activo: !producto.activo });
-      setProductos(prev => prev.map(p => 
-        p._id === id ? { ...p, activo: !p.activo } : p
-      ));
-    } catch (err) {
-      alert('Error al actualizar producto');
-      console.error(err);
-    }
+    cambiarActivo.mutate({ id, activo: !producto.activo }, {
+      onError: (err) => {
+        alert('Error al actualizar producto');
+        console.error(err);
+      },
+    });
   };
 
   if (loading) {
@@ -151,15 +134,27 @@ export default function ProductosPage() {
           </div>
         </div>
 
-        <Link href="/admin/productos/nuevo">
-          <Button 
-            size="lg"
-            className="gap-2 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 shadow-lg shadow-pink-500/30"
-          >
-            <Plus className="h-5 w-5" />
-            Nuevo Producto
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="lg" className="gap-2" onClick={handleExportar}>
+            <Download className="h-5 w-5" />
+            Exportar
           </Button>
-        </Link>
+          <Link href="/admin/productos/importar">
+            <Button variant="outline" size="lg" className="gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Importar
+            </Button>
+          </Link>
+          <Link href="/admin/productos/nuevo">
+            <Button 
+              size="lg"
+              className="gap-2 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 shadow-lg shadow-pink-500/30"
+            >
+              <Plus className="h-5 w-5" />
+              Nuevo Producto
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Filtros */}
@@ -183,9 +178,10 @@ export default function ProductosPage() {
               onChange={(e) => setCategoriaFiltro(e.target.value)}
               className="h-9 px-3 rounded-md border border-slate-200 bg-white text-sm focus:border-pink-400 focus:ring-4 focus:ring-pink-500/10 outline-none transition-all"
             >
-              {categorias.map(cat => (
-                <option key={cat.value} value={cat.value}>
-                  {cat.label}
+              <option value="">Todas las categorías</option>
+              {ordenarCategorias(categorias).map(cat => (
+                <option key={cat._id} value={cat.slug}>
+                  {cat.padre_id ? `— ${cat.nombre}` : cat.nombre}
                 </option>
               ))}
             </select>
@@ -243,6 +239,7 @@ export default function ProductosPage() {
             <ProductoItem
               key={producto._id}
               producto={producto}
+              categoriaNombre={categorias.find(c => c.slug === producto.categoria)?.nombre}
               onUpdateStock={handleUpdateStock}
               onDelete={handleDelete}
               onToggleActivo={handleToggleActivo}
@@ -257,14 +254,17 @@ export default function ProductosPage() {
 // Componente: Item de Producto
 interface ProductoItemProps {
   producto: Producto;
+  categoriaNombre?: string;
   onUpdateStock: (id: string, stock: number) => void;
   onDelete: (id: string) => void;
   onToggleActivo: (id: string) => void;
 }
 
-function ProductoItem({ producto, onUpdateStock, onDelete, onToggleActivo }: ProductoItemProps) {
+function ProductoItem({ producto, categoriaNombre, onUpdateStock, onDelete, onToggleActivo }: ProductoItemProps) {
   const [editandoStock, setEditandoStock] = useState(false);
   const [stockTemp, setStockTemp] = useState(producto.stock);
+  /** Con variantes, el stock se edita por variante en el formulario */
+  const tieneVariantes = (producto.variantes?.length ?? 0) > 0;
 
   const handleGuardarStock = () => {
     onUpdateStock(producto._id, stockTemp);
@@ -306,7 +306,7 @@ function ProductoItem({ producto, onUpdateStock, onDelete, onToggleActivo }: Pro
             </div>
             
             <div className="flex items-center gap-3 text-sm text-slate-600">
-              <span className="capitalize">{producto.categoria}</span>
+              <span className="capitalize">{categoriaNombre || producto.categoria}</span>
               {producto.marca && (
                 <>
                   <span>•</span>
@@ -382,7 +382,8 @@ function ProductoItem({ producto, onUpdateStock, onDelete, onToggleActivo }: Pro
               // Modo vista
               <button
                 onClick={() => setEditandoStock(true)}
-                className="text-left hover:bg-slate-100 p-2 rounded transition-colors group"
+                disabled={tieneVariantes}
+                className="text-left hover:bg-slate-100 disabled:hover:bg-transparent p-2 rounded transition-colors group"
               >
                 <div className="text-xs text-slate-500 mb-1">Stock</div>
                 <div className="flex items-center gap-2">
@@ -402,7 +403,9 @@ function ProductoItem({ producto, onUpdateStock, onDelete, onToggleActivo }: Pro
                   </Badge>
                 </div>
                 <div className="text-xs text-slate-400 mt-1 group-hover:text-pink-600 transition-colors">
-                  Click para editar
+                  {tieneVariantes
+                    ? `${producto.variantes?.length} variantes • editar en el producto`
+                    : 'Click para editar'}
                 </div>
               </button>
             )}
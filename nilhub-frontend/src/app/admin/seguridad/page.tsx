@@ -0,0 +1,220 @@
+// fronted/src/app/admin/seguridad/page.tsx
+/**
+ * @fileoverview Seguridad de la cuenta: verificación en dos pasos,
+ * dispositivos con sesión iniciada, inicios de sesión recientes y datos
+ * de la cuenta (descarga y eliminación)
+ * Permite cerrar la sesión de un dispositivo perdido o compartido,
+ * o de todos a la vez
+ * @module SeguridadPage
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Smartphone, Monitor, MapPin, LogOut, Loader2, ShieldCheck, History } from 'lucide-react';
+import api from '@/lib/api';
+import { useCerrarSesionDeDispositivo, useSesiones } from '@/hooks/useSesiones';
+import DosPasos from '@/components/admin/DosPasos';
+import HistorialAccesos from '@/components/admin/HistorialAccesos';
+import DatosCuenta from '@/components/admin/DatosCuenta';
+import type { SesionAbierta } from '@/types';
+
+// ===================================
+// FORMATO
+// ===================================
+
+/** Nombres de países en español (PE → Perú) */
+const nombresPais = new Intl.DisplayNames(['es'], { type: 'region' });
+
+/** "hace 5 minutos", "hace 2 días" */
+const relativo = new Intl.RelativeTimeFormat('es', { numeric: 'auto' });
+
+/**
+ * Unidades para el tiempo relativo, de la mayor a la menor (en segundos)
+ * @constant
+ */
+const UNIDADES: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+/**
+ * Tiempo desde el último uso ("hace 3 horas")
+ * @private
+ */
+const haceCuanto = (fecha: string) => {
+  const segundos = (Date.now() - new Date(fecha).getTime()) / 1000;
+  const [unidad, duracion] = UNIDADES.find(([, duracion]) => segundos >= duracion) ?? ['minute', 60];
+  return relativo.format(-Math.floor(segundos / duracion), unidad);
+};
+
+/**
+ * Ubicación aproximada según la IP ("Lima, Perú")
+ * @private
+ */
+const ubicacion = ({ ciudad, pais }: SesionAbierta) => {
+  const nombrePais = pais ? nombresPais.of(pais) : '';
+  return [ciudad, nombrePais].filter(Boolean).join(', ') || 'Ubicación desconocida';
+};
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Página de seguridad
+ *
+ * Lista las sesiones abiertas (navegador, sistema, ubicación aproximada y
+ * último uso) y marca la de este navegador. Cerrar una sesión invalida su
+ * acceso de inmediato; cerrar la de este navegador equivale a salir.
+ */
+export default function SeguridadPage() {
+  const { logout } = useAuth();
+  const { data: sesiones = [], isLoading: loading } = useSesiones();
+  const cerrarSesionDeDispositivo = useCerrarSesionDeDispositivo();
+  const [cerrandoTodas, setCerrandoTodas] = useState(false);
+  const [error, setError] = useState('');
+
+  const cerrar = (sesion: SesionAbierta) => {
+    const aviso = sesion.actual
+      ? '¿Cerrar la sesión de este dispositivo?'
+      : `¿Cerrar la sesión en ${sesion.dispositivo.navegador} (${sesion.dispositivo.sistema})?`;
+    if (!confirm(aviso)) return;
+
+    setError('');
+    cerrarSesionDeDispositivo.mutate(sesion._id, {
+      onSuccess: () => {
+        if (sesion.actual) logout();
+      },
+      onError: (err) => setError(err.message),
+    });
+  };
+
+  const cerrarTodas = async () => {
+    if (!confirm('¿Cerrar sesión en todos los dispositivos? También tendrás que volver a ingresar aquí.')) return;
+
+    try {
+      setCerrandoTodas(true);
+      setError('');
+      await api.auth.cerrarTodasLasSesiones();
+      await logout();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Error al cerrar las sesiones');
+      setCerrandoTodas(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8 max-w-3xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Seguridad</h1>
+        <p className="text-slate-600 mt-2">
+          Revisa dónde está abierta tu cuenta y cierra la sesión de los dispositivos que no reconozcas
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <DosPasos />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-pink-500" />
+            Dispositivos con sesión iniciada
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-pink-500" />
+            </div>
+          ) : (
+            sesiones.map((sesion) => {
+              const Icono = sesion.dispositivo.movil ? Smartphone : Monitor;
+              return (
+                <div
+                  key={sesion._id}
+                  className="flex flex-wrap items-start justify-between gap-2 rounded-lg border-2 border-slate-100 p-4"
+                >
+                  <div className="flex min-w-0 gap-3">
+                    <Icono className="h-8 w-8 flex-shrink-0 text-slate-400" />
+                    <div className="min-w-0">
+                      <p className="flex flex-wrap items-center gap-2 font-medium text-slate-900">
+                        {sesion.dispositivo.navegador} en {sesion.dispositivo.sistema}
+                        {sesion.actual && <Badge className="bg-green-100 text-green-700">Este dispositivo</Badge>}
+                      </p>
+                      <p className="mt-1 flex items-center gap-1 text-xs text-slate-500">
+                        <MapPin className="h-3 w-3" />
+                        {ubicacion(sesion)}
+                        {sesion.ip && ` · ${sesion.ip}`}
+                      </p>
+                      <p className="mt-1 text-xs text-slate-500">
+                        {sesion.actual ? 'Activa ahora' : `Último uso ${haceCuanto(sesion.ultimo_uso)}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cerrar(sesion)}
+                    className="gap-2 text-red-600 hover:text-red-700"
+                  >
+                    <LogOut className="h-4 w-4" />
+                    Cerrar sesión
+                  </Button>
+                </div>
+              );
+            })
+          )}
+
+          <Button
+            type="button"
+            variant="outline"
+            onClick={cerrarTodas}
+            disabled={cerrandoTodas || loading}
+            className="w-full gap-2 text-red-600 hover:text-red-700"
+          >
+            {cerrandoTodas ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+            Cerrar sesión en todos los dispositivos
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-pink-500" />
+            Actividad reciente
+          </CardTitle>
+          <p className="text-sm text-slate-500">
+            Te avisamos por email cuando alguien ingresa desde un dispositivo nuevo. Tras varios intentos
+            fallidos la cuenta se bloquea unos minutos.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <HistorialAccesos />
+        </CardContent>
+      </Card>
+
+      <DatosCuenta />
+
+      <p className="flex items-start gap-2 text-sm text-slate-500">
+        <ShieldCheck className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        Al cambiar tu contraseña con &quot;Olvidé mi contraseña&quot; se cierran todas tus sesiones.
+      </p>
+    </div>
+  );
+}
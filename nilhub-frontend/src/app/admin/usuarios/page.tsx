@@ -0,0 +1,182 @@
+// fronted/src/app/admin/usuarios/page.tsx
+/**
+ * @fileoverview Usuarios de la plataforma (solo administradores)
+ * Muestra las cuentas bloqueadas por intentos de login fallidos, permite
+ * desbloquearlas y revisar los inicios de sesión de cada una
+ * @module UsuariosPage
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Users, Loader2, Lock, Unlock, History, ChevronDown, ChevronUp } from 'lucide-react';
+import api from '@/lib/api';
+import { claves, useMutacionOptimista } from '@/lib/consultas';
+import HistorialAccesos from '@/components/admin/HistorialAccesos';
+import type { Usuario } from '@/types';
+
+// ===================================
+// FORMATO
+// ===================================
+
+/** "19/10/26, 14:05" */
+const hora = new Intl.DateTimeFormat('es', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Hasta cuándo está bloqueada la cuenta (null si no lo está)
+ * @private
+ */
+const bloqueadaHasta = (usuario: Usuario) => {
+  const hasta = usuario.bloqueo?.bloqueado_hasta;
+  return hasta && new Date(hasta).getTime() > Date.now() ? new Date(hasta) : null;
+};
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Página de usuarios
+ *
+ * Las cuentas en espera o bloqueadas aparecen primero. Desbloquear pone en
+ * cero los intentos fallidos: el usuario puede volver a ingresar de inmediato.
+ */
+export default function UsuariosPage() {
+  const { isAdmin } = useAuth();
+  const { data: usuarios = [], isLoading: cargando, error } = useQuery({
+    queryKey: claves.usuarios(),
+    queryFn: async () => (await api.admin.getUsuarios()).data,
+    enabled: isAdmin,
+  });
+  const desbloquear = useMutacionOptimista({
+    queryKey: claves.usuarios(),
+    mutationFn: (id: string) => api.admin.desbloquearUsuario(id),
+    aplicar: (lista: Usuario[], id) =>
+      lista.map((u) => (u._id === id ? { ...u, bloqueo: { intentos_fallidos: 0, bloqueado_hasta: null } } : u)),
+  });
+  /** Usuario con el historial desplegado */
+  const [abierto, setAbierto] = useState<string | null>(null);
+  const [errorAccion, setErrorAccion] = useState('');
+
+  const ordenados = [...usuarios].sort(
+    (a, b) => Number(!!bloqueadaHasta(b)) - Number(!!bloqueadaHasta(a)) ||
+      (b.bloqueo?.intentos_fallidos ?? 0) - (a.bloqueo?.intentos_fallidos ?? 0)
+  );
+
+  const alDesbloquear = (usuario: Usuario) => {
+    setErrorAccion('');
+    desbloquear.mutate(usuario._id, { onError: (err) => setErrorAccion(err.message) });
+  };
+
+  if (!isAdmin) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>Solo los administradores pueden ver esta página</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-8 max-w-4xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Usuarios</h1>
+        <p className="text-slate-600 mt-2">
+          Tras 10 intentos de login fallidos seguidos una cuenta queda bloqueada 30 minutos. Desbloquéala
+          si quien la usa lo pide y confirmaste su identidad.
+        </p>
+      </div>
+
+      {(error || errorAccion) && (
+        <Alert variant="destructive">
+          <AlertDescription>{error?.message || errorAccion}</AlertDescription>
+        </Alert>
+      )}
+
+      {cargando ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-pink-500" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {ordenados.map((usuario) => {
+            const hasta = bloqueadaHasta(usuario);
+            const intentos = usuario.bloqueo?.intentos_fallidos ?? 0;
+            const desplegado = abierto === usuario._id;
+            return (
+              <Card key={usuario._id} className={hasta ? 'border-2 border-red-200' : undefined}>
+                <CardContent className="space-y-3 p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="flex flex-wrap items-center gap-2 font-medium text-slate-900">
+                        {usuario.nombre}
+                        {usuario.role === 'admin' && <Badge className="bg-blue-100 text-blue-700">Admin</Badge>}
+                        {!usuario.activo && <Badge className="bg-slate-100 text-slate-600">Inactivo</Badge>}
+                        {hasta ? (
+                          <Badge className="gap-1 bg-red-100 text-red-700">
+                            <Lock className="h-3 w-3" />
+                            Bloqueada hasta {hora.format(hasta)}
+                          </Badge>
+                        ) : intentos > 0 && (
+                          <Badge className="bg-amber-100 text-amber-700">
+                            {intentos} {intentos === 1 ? 'intento fallido' : 'intentos fallidos'}
+                          </Badge>
+                        )}
+                      </p>
+                      <p className="mt-1 truncate text-sm text-slate-500">{usuario.email}</p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {intentos > 0 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => alDesbloquear(usuario)}
+                          disabled={desbloquear.isPending && desbloquear.variables === usuario._id}
+                          className="gap-2"
+                        >
+                          <Unlock className="h-4 w-4" />
+                          Desbloquear
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAbierto(desplegado ? null : usuario._id)}
+                        className="gap-2"
+                      >
+                        <History className="h-4 w-4" />
+                        Accesos
+                        {desplegado ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {desplegado && (
+                    <div className="rounded-lg border-2 border-slate-100 px-4">
+                      <HistorialAccesos usuarioId={usuario._id} />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {ordenados.length === 0 && !error && (
+            <div className="flex flex-col items-center gap-2 py-12 text-slate-500">
+              <Users className="h-10 w-10" />
+              No hay usuarios registrados
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
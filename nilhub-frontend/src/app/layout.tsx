@@ -2,11 +2,17 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { ConsultasProvider } from "@/contexts/ConsultasProvider";
+import { SITE_URL } from "@/lib/seo";
 
 const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
-  title: "NilHub - Catálogos Digitales para Emprendedores",
+  metadataBase: new URL(SITE_URL),
+  title: {
+    default: "NilHub - Catálogos Digitales para Emprendedores",
+    template: "%s | NilHub",
+  },
   description: "Crea tu catálogo digital de cosméticos en 5 minutos",
 };
 
@@ -18,9 +24,11 @@ export default function RootLayout({
   return (
     <html lang="es">
       <body className={inter.className}>
-        <AuthProvider>
-          {children}
-        </AuthProvider>
+        <ConsultasProvider>
+          <AuthProvider>
+            {children}
+          </AuthProvider>
+        </ConsultasProvider>
       </body>
     </html>
   );
@@ -1,19 +1,30 @@
 //src/app/login/page.tsx
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Store, Loader2, AlertCircle, ArrowLeft, Mail, Lock, Sparkles } from 'lucide-react';
+import { Store, Loader2, AlertCircle, ArrowLeft, Mail, Lock, Sparkles, ShieldCheck, KeyRound, MessageCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import api from '@/lib/api';
 
 export default function LoginPage() {
-  const { login } = useAuth();
+  const { login, loginDosPasos, loginConCodigo } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [aviso, setAviso] = useState('');
+  /** Con contraseña o con un código enviado por email/WhatsApp */
+  const [modo, setModo] = useState<'contrasena' | 'codigo'>('contrasena');
+  const [metodo, setMetodo] = useState<'email' | 'whatsapp'>('email');
+  const [codigoEnviado, setCodigoEnviado] = useState(false);
+  const [codigoAcceso, setCodigoAcceso] = useState('');
+  /** Desafío del segundo paso ('' = pidiendo email y contraseña) */
+  const [desafio, setDesafio] = useState('');
+  const [codigo, setCodigo] = useState('');
 
   const [formData, setFormData] = useState({
     email: '',
@@ -27,13 +38,42 @@ export default function LoginPage() {
     });
   };
 
+  // Enlace del email de acceso: /login#email=...&codigo=... ingresa directo
+  useEffect(() => {
+    const enlace = new URLSearchParams(window.location.hash.slice(1));
+    const email = enlace.get('email');
+    const code = enlace.get('codigo');
+    if (!email || !code) return;
+
+    // Quitar el código de la barra de direcciones y del historial
+    window.history.replaceState(null, '', window.location.pathname);
+    setFormData({ email, password: '' });
+    setModo('codigo');
+    setCodigoEnviado(true);
+    setCodigoAcceso(code);
+    setLoading(true);
+    loginConCodigo(email, code)
+      .then((desafioNuevo) => setDesafio(desafioNuevo ?? ''))
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [loginConCodigo]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
-      await login(formData.email, formData.password);
+      if (desafio) {
+        await loginDosPasos(desafio, codigo);
+      } else if (modo === 'codigo' && !codigoEnviado) {
+        setAviso(await api.auth.solicitarCodigoAcceso(formData.email, metodo));
+        setCodigoEnviado(true);
+      } else if (modo === 'codigo') {
+        setDesafio((await loginConCodigo(formData.email, codigoAcceso)) ?? '');
+      } else {
+        setDesafio((await login(formData.email, formData.password)) ?? '');
+      }
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
@@ -45,6 +85,36 @@ export default function LoginPage() {
     }
   };
 
+  const volverAContrasena = () => {
+    setDesafio('');
+    setCodigo('');
+    setModo('contrasena');
+    setCodigoEnviado(false);
+    setCodigoAcceso('');
+    setError('');
+    setAviso('');
+  };
+
+  const ingresarSinContrasena = () => {
+    setModo('codigo');
+    setError('');
+  };
+
+  /** Volver a pedir el código (otro canal o no llegó) */
+  const pedirOtroCodigo = () => {
+    setCodigoEnviado(false);
+    setCodigoAcceso('');
+    setError('');
+    setAviso('');
+  };
+
+  /** Texto del botón principal */
+  const textoBoton = desafio
+    ? 'Verificar'
+    : modo === 'codigo' && !codigoEnviado
+      ? 'Enviar código'
+      : 'Iniciar Sesión';
+
   return (
     <div className="min-h-screen relative overflow-hidden">
       {/* Background con pattern animado */}
@@ -88,10 +158,14 @@ export default function LoginPage() {
             </div>
             
             <h1 className="text-2xl font-bold bg-gradient-to-r from-slate-900 via-slate-800 to-slate-900 bg-clip-text text-transparent mb-2">
-              ¡Bienvenido de nuevo!
+              {desafio ? 'Verificación en dos pasos' : '¡Bienvenido de nuevo!'}
             </h1>
             <p className="text-sm text-slate-600 font-medium">
-              Ingresa para gestionar tu catálogo
+              {desafio
+                ? 'Ingresa el código de tu app autenticadora'
+                : modo === 'codigo'
+                  ? 'Te enviaremos un código para ingresar sin contraseña'
+                  : 'Ingresa para gestionar tu catálogo'}
             </p>
           </div>
 
@@ -105,53 +179,142 @@ export default function LoginPage() {
                 </Alert>
               )}
 
-              {/* Input Email mejorado */}
-              <div className="space-y-2">
-                <label htmlFor="email" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <Mail className="h-4 w-4 text-slate-500" />
-                  Email
-                </label>
-                <div className="relative group">
-                  <Input
-                    id="email"
-                    name="email"
-                    type="email"
-                    placeholder="tu@email.com"
-                    value={formData.email}
-                    onChange={handleChange}
-                    required
-                    className="h-12 pl-4 pr-4 border-2 border-slate-200 bg-white/50 backdrop-blur-sm focus:border-pink-400 focus:bg-white focus:ring-4 focus:ring-pink-500/10 transition-all duration-200 group-hover:border-slate-300"
-                  />
-                </div>
-              </div>
+              {aviso && !error && !desafio && (
+                <Alert className="border-green-200/50 bg-green-50/80 backdrop-blur-sm">
+                  <AlertDescription className="text-green-800 text-sm">{aviso}</AlertDescription>
+                </Alert>
+              )}
 
-              {/* Input Password mejorado */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <label htmlFor="password" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                    <Lock className="h-4 w-4 text-slate-500" />
-                    Contraseña
+              {desafio ? (
+                <div className="space-y-2">
+                  <label htmlFor="codigo" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4 text-slate-500" />
+                    Código de verificación
                   </label>
-                  <Link 
-                    href="/forgot-password"
-                    className="text-xs font-semibold text-pink-600 hover:text-pink-700 transition-colors hover:underline"
-                  >
-                    ¿Olvidaste?
-                  </Link>
-                </div>
-                <div className="relative group">
                   <Input
-                    id="password"
-                    name="password"
-                    type="password"
-                    placeholder="••••••••"
-                    value={formData.password}
-                    onChange={handleChange}
+                    id="codigo"
+                    name="codigo"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    placeholder="123456"
+                    value={codigo}
+                    onChange={(e) => setCodigo(e.target.value.trim())}
+                    maxLength={11}
                     required
-                    className="h-12 pl-4 pr-4 border-2 border-slate-200 bg-white/50 backdrop-blur-sm focus:border-pink-400 focus:bg-white focus:ring-4 focus:ring-pink-500/10 transition-all duration-200 group-hover:border-slate-300"
+                    className="h-12 text-center text-xl font-mono tracking-widest border-2 border-slate-200 bg-white/50 backdrop-blur-sm focus:border-pink-400 focus:bg-white focus:ring-4 focus:ring-pink-500/10 transition-all duration-200"
                   />
+                  <p className="text-xs text-slate-500">
+                    ¿Sin acceso a tu teléfono? Usa uno de tus códigos de recuperación (xxxxx-xxxxx).
+                  </p>
                 </div>
-              </div>
+              ) : (
+                <>
+                  {/* Input Email mejorado */}
+                  <div className="space-y-2">
+                    <label htmlFor="email" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                      <Mail className="h-4 w-4 text-slate-500" />
+                      Email
+                    </label>
+                    <div className="relative group">
+                      <Input
+                        id="email"
+                        name="email"
+                        type="email"
+                        placeholder="tu@email.com"
+                        value={formData.email}
+                        onChange={handleChange}
+                        required
+                        className="h-12 pl-4 pr-4 border-2 border-slate-200 bg-white/50 backdrop-blur-sm focus:border-pink-400 focus:bg-white focus:ring-4 focus:ring-pink-500/10 transition-all duration-200 group-hover:border-slate-300"
+                      />
+                    </div>
+                  </div>
+
+                  {modo === 'contrasena' ? (
+                    /* Input Password mejorado */
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <label htmlFor="password" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                          <Lock className="h-4 w-4 text-slate-500" />
+                          Contraseña
+                        </label>
+                        <Link 
+                          href="/forgot-password"
+                          className="text-xs font-semibold text-pink-600 hover:text-pink-700 transition-colors hover:underline"
+                        >
+                          ¿Olvidaste?
+                        </Link>
+                      </div>
+                      <div className="relative group">
+                        <Input
+                          id="password"
+                          name="password"
+                          type="password"
+                          placeholder="••••••••"
+                          value={formData.password}
+                          onChange={handleChange}
+                          required
+                          className="h-12 pl-4 pr-4 border-2 border-slate-200 bg-white/50 backdrop-blur-sm focus:border-pink-400 focus:bg-white focus:ring-4 focus:ring-pink-500/10 transition-all duration-200 group-hover:border-slate-300"
+                        />
+                      </div>
+                    </div>
+                  ) : codigoEnviado ? (
+                    /* Código recibido */
+                    <div className="space-y-2">
+                      <label htmlFor="codigo-acceso" className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                        <KeyRound className="h-4 w-4 text-slate-500" />
+                        Código recibido
+                      </label>
+                      <Input
+                        id="codigo-acceso"
+                        name="codigo-acceso"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        placeholder="123456"
+                        value={codigoAcceso}
+                        onChange={(e) => setCodigoAcceso(e.target.value.replace(/\D/g, ''))}
+                        maxLength={6}
+                        required
+                        className="h-12 text-center text-xl font-mono tracking-widest border-2 border-slate-200 bg-white/50 backdrop-blur-sm focus:border-pink-400 focus:bg-white focus:ring-4 focus:ring-pink-500/10 transition-all duration-200"
+                      />
+                      <button
+                        type="button"
+                        onClick={pedirOtroCodigo}
+                        className="text-xs font-semibold text-pink-600 hover:text-pink-700 hover:underline"
+                      >
+                        ¿No llegó? Pedir otro código
+                      </button>
+                    </div>
+                  ) : (
+                    /* Canal para el código */
+                    <div className="space-y-2">
+                      <span className="text-sm font-semibold text-slate-700">Enviar el código por</span>
+                      <div className="grid grid-cols-2 gap-2">
+                        {([
+                          ['email', 'Email', Mail],
+                          ['whatsapp', 'WhatsApp', MessageCircle],
+                        ] as const).map(([valor, etiqueta, Icono]) => (
+                          <button
+                            key={valor}
+                            type="button"
+                            onClick={() => setMetodo(valor)}
+                            className={cn(
+                              'flex h-12 items-center justify-center gap-2 rounded-md border-2 text-sm font-medium transition-colors',
+                              metodo === valor
+                                ? 'border-pink-400 bg-pink-50 text-pink-700'
+                                : 'border-slate-200 bg-white/50 text-slate-600 hover:border-slate-300'
+                            )}
+                          >
+                            <Icono className="h-4 w-4" />
+                            {etiqueta}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
 
               {/* Botón premium con efecto */}
               <Button
@@ -163,11 +326,11 @@ export default function LoginPage() {
                   {loading ? (
                     <>
                       <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                      Iniciando sesión...
+                      {desafio ? 'Verificando...' : modo === 'codigo' && !codigoEnviado ? 'Enviando...' : 'Iniciando sesión...'}
                     </>
                   ) : (
                     <>
-                      Iniciar Sesión
+                      {textoBoton}
                       <Sparkles className="ml-2 h-4 w-4 opacity-80 group-hover:opacity-100 transition-opacity" />
                     </>
                   )}
@@ -176,6 +339,25 @@ export default function LoginPage() {
                 <div className="absolute inset-0 -translate-x-full group-hover:translate-x-full transition-transform duration-1000 bg-gradient-to-r from-transparent via-white/20 to-transparent"></div>
               </Button>
 
+              {desafio || modo === 'codigo' ? (
+                <button
+                  type="button"
+                  onClick={volverAContrasena}
+                  className="w-full text-center text-sm font-medium text-slate-600 hover:text-slate-900"
+                >
+                  {desafio ? 'Volver al inicio de sesión' : 'Ingresar con contraseña'}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={ingresarSinContrasena}
+                  className="w-full flex items-center justify-center gap-2 text-sm font-medium text-slate-600 hover:text-slate-900"
+                >
+                  <KeyRound className="h-4 w-4" />
+                  Ingresar sin contraseña
+                </button>
+              )}
+
               {/* Separador elegante */}
               <div className="relative my-6">
                 <div className="absolute inset-0 flex items-center">
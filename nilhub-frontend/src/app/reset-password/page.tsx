@@ -31,6 +31,7 @@ export default function ResetPasswordPage() {
   const [nuevaPassword, setNuevaPassword] = useState('');
   const [confirmarPassword, setConfirmarPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [codigoDosPasos, setCodigoDosPasos] = useState('');
   
   // Estados UI
   const [loading, setLoading] = useState(false);
@@ -38,6 +39,9 @@ export default function ResetPasswordPage() {
   const [success, setSuccess] = useState(false);
   const [verificandoCodigo, setVerificandoCodigo] = useState(false);
   const [codigoValido, setCodigoValido] = useState<boolean | null>(null);
+  // Cuentas con verificación en dos pasos: además del código del correo se
+  // pide uno de la app (o de recuperación)
+  const [requiereDosPasos, setRequiereDosPasos] = useState(false);
 
   // Cargar datos de la página anterior
   useEffect(() => {
@@ -72,6 +76,7 @@ export default function ResetPasswordPage() {
 
       if (response.ok && data.success) {
         setCodigoValido(true);
+        setRequiereDosPasos(!!data.data?.requiere_dos_pasos);
       } else {
         setCodigoValido(false);
         setError(data.error || 'Código inválido');
@@ -95,6 +100,11 @@ export default function ResetPasswordPage() {
       return;
     }
 
+    if (requiereDosPasos && !codigoDosPasos) {
+      setError('Ingresa el código de tu app autenticadora o un código de recuperación');
+      return;
+    }
+
     if (nuevaPassword.length < 6) {
       setError('La contraseña debe tener al menos 6 caracteres');
       return;
@@ -111,7 +121,12 @@ export default function ResetPasswordPage() {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/reset-password`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, code, nuevaPassword })
+        body: JSON.stringify({
+          email,
+          code,
+          nuevaPassword,
+          ...(requiereDosPasos && { codigo_dos_pasos: codigoDosPasos })
+        })
       });
 
       const data = await response.json();
@@ -240,6 +255,31 @@ export default function ResetPasswordPage() {
                 </p>
               </div>
 
+              {/* Verificación en dos pasos */}
+              {requiereDosPasos && (
+                <div className="space-y-2">
+                  <label htmlFor="codigo-dos-pasos" className="text-sm font-medium text-slate-700">
+                    Código de verificación en dos pasos
+                  </label>
+                  <Input
+                    id="codigo-dos-pasos"
+                    value={codigoDosPasos}
+                    onChange={(e) => setCodigoDosPasos(e.target.value.trim())}
+                    placeholder="123456"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={11}
+                    required
+                    disabled={loading || success}
+                    className="h-12 text-center font-mono tracking-widest"
+                  />
+                  <p className="text-xs text-slate-500">
+                    Tu cuenta tiene verificación en dos pasos. Ingresa el código de tu app o, si perdiste
+                    el teléfono, uno de tus códigos de recuperación.
+                  </p>
+                </div>
+              )}
+
               {/* Nueva contraseña */}
               <div className="space-y-2">
                 <label htmlFor="password" className="text-sm font-medium text-slate-700">
@@ -298,7 +338,10 @@ export default function ResetPasswordPage() {
               {/* Botón cambiar contraseña */}
               <Button
                 type="submit"
-                disabled={loading || success || codigoValido !== true || nuevaPassword !== confirmarPassword}
+                disabled={
+                  loading || success || codigoValido !== true || nuevaPassword !== confirmarPassword ||
+                  (requiereDosPasos && !codigoDosPasos)
+                }
                 className="w-full h-12 gap-2 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 shadow-lg text-base font-semibold"
               >
                 {loading ? (
@@ -0,0 +1,27 @@
+// src/app/robots.ts
+/**
+ * @fileoverview robots.txt del sitio
+ * @module robots
+ */
+
+import type { MetadataRoute } from 'next';
+import { SITE_URL } from '@/lib/seo';
+
+/**
+ * Genera /robots.txt
+ *
+ * Permite indexar catálogos y productos; bloquea el panel y las páginas de cuenta.
+ *
+ * @returns Reglas para crawlers y ubicación del sitemap
+ */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/admin', '/login', '/forgot-password', '/reset-password'],
+    },
+    sitemap: `${SITE_URL}/sitemap.xml`,
+    host: SITE_URL,
+  };
+}
@@ -0,0 +1,65 @@
+// src/app/sitemap.ts
+/**
+ * @fileoverview sitemap.xml del sitio
+ * Páginas públicas, catálogos de tiendas activas y sus productos activos
+ * @module sitemap
+ */
+
+import type { MetadataRoute } from 'next';
+import { obtenerMapaDelSitio, REVALIDAR_SITEMAP } from '@/lib/catalogo';
+import { SITE_URL } from '@/lib/seo';
+
+/**
+ * El sitemap se regenera como máximo una vez por hora
+ * @constant
+ */
+export const revalidate = REVALIDAR_SITEMAP;
+
+/**
+ * Genera /sitemap.xml
+ *
+ * - Inicio y registro
+ * - Un catálogo por tienda activa (lastmod: su producto más reciente o la tienda)
+ * - Un detalle por producto activo (lastmod: updatedAt)
+ *
+ * Las tiendas desactivadas desde el panel de admin no aparecen: el backend las excluye.
+ *
+ * @returns Entradas del sitemap
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const { tiendas, productos } = await obtenerMapaDelSitio();
+
+  // Último cambio de cada catálogo = el más reciente entre la tienda y sus productos
+  const ultimoCambio = new Map(tiendas.map(t => [t.slug, t.updatedAt]));
+  productos.forEach(p => {
+    const actual = ultimoCambio.get(p.tienda);
+    if (actual && p.updatedAt > actual) {
+      ultimoCambio.set(p.tienda, p.updatedAt);
+    }
+  });
+
+  return [
+    {
+      url: SITE_URL,
+      changeFrequency: 'weekly',
+      priority: 1,
+    },
+    {
+      url: `${SITE_URL}/registro`,
+      changeFrequency: 'monthly',
+      priority: 0.5,
+    },
+    ...tiendas.map(tienda => ({
+      url: `${SITE_URL}/${tienda.slug}`,
+      lastModified: ultimoCambio.get(tienda.slug),
+      changeFrequency: 'daily' as const,
+      priority: 0.8,
+    })),
+    ...productos.map(producto => ({
+      url: `${SITE_URL}/${producto.tienda}/producto/${producto._id}`,
+      lastModified: producto.updatedAt,
+      changeFrequency: 'weekly' as const,
+      priority: 0.6,
+    })),
+  ];
+}
@@ -0,0 +1,503 @@
+// src/components/admin/AnaliticaTienda.tsx
+/**
+ * @fileoverview Analítica de la tienda en el dashboard del vendedor
+ * Tendencia diaria de vistas y clicks, comparación con el período anterior,
+ * productos más vistos con su tasa de consulta, búsquedas más frecuentes
+ * y desglose por fuente de tráfico y campaña
+ * @module AnaliticaTienda
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Eye, MessageCircle, Search, Share2, TrendingUp, Loader2, Link2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import api from '@/lib/api';
+import type { ResumenAnalitica } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Períodos que se pueden elegir (en días)
+ * @constant
+ */
+const PERIODOS = [7, 30, 90] as const;
+
+/**
+ * Alto del gráfico en unidades del viewBox (el ancho es un día por unidad)
+ * @constant
+ */
+const ALTO_GRAFICO = 100;
+
+/**
+ * Nombre visible de las fuentes conocidas (las demás muestran su dominio)
+ * @constant
+ */
+const NOMBRES_FUENTE: Record<string, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  tiktok: 'TikTok',
+  whatsapp: 'WhatsApp',
+  google: 'Google',
+  bing: 'Bing',
+  twitter: 'X / Twitter',
+  youtube: 'YouTube',
+  pinterest: 'Pinterest',
+  directo: 'Directo',
+};
+
+// ===================================
+// HELPERS
+// ===================================
+
+/**
+ * Día local (YYYY-MM-DD) desplazado una cantidad de días desde hoy
+ * @private
+ */
+const diaLocal = (desplazamiento = 0) => {
+  const fecha = new Date();
+  fecha.setDate(fecha.getDate() + desplazamiento);
+  return fecha.toLocaleDateString('en-CA');
+};
+
+/**
+ * Fecha corta para ejes y leyendas (ej: "5 mar")
+ * @private
+ */
+const fechaCorta = (dia: string) =>
+  new Date(`${dia}T12:00:00`).toLocaleDateString('es-PE', { day: 'numeric', month: 'short' });
+
+/**
+ * Nombre visible de una fuente de tráfico
+ * @private
+ */
+const nombreFuente = (fuente: string) => NOMBRES_FUENTE[fuente] || fuente;
+
+/**
+ * Porcentaje con un decimal a partir de una tasa entre 0 y 1
+ * @private
+ */
+const porcentaje = (tasa: number) => `${(tasa * 100).toFixed(1)}%`;
+
+/**
+ * Variación respecto al período anterior
+ * @returns Texto (+12%, -3%, "nuevo" o "—") y si es positiva, negativa o neutra
+ * @private
+ */
+const variacion = (actual: number, anterior: number) => {
+  if (anterior === 0) {
+    return actual > 0 ? { texto: 'nuevo', signo: 1 } : { texto: '—', signo: 0 };
+  }
+  const cambio = Math.round(((actual - anterior) / anterior) * 100);
+  return { texto: `${cambio > 0 ? '+' : ''}${cambio}%`, signo: Math.sign(cambio) };
+};
+
+// ===================================
+// SUBCOMPONENTES
+// ===================================
+
+/**
+ * Tarjeta con el total del período y su variación
+ * @private
+ */
+function Indicador({
+  titulo,
+  valor,
+  anterior,
+  formato = (n) => n.toLocaleString('es-PE'),
+  icono: Icono,
+}: {
+  titulo: string;
+  valor: number;
+  anterior: number;
+  formato?: (n: number) => string;
+  icono: typeof Eye;
+}) {
+  const { texto, signo } = variacion(valor, anterior);
+
+  return (
+    <div className="rounded-lg border-2 border-slate-100 p-4">
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <span>{titulo}</span>
+        <Icono className="h-4 w-4 text-slate-400" />
+      </div>
+      <div className="mt-2 text-2xl font-bold text-slate-900">{formato(valor)}</div>
+      <p className="mt-1 text-xs text-slate-500">
+        <span
+          className={cn(
+            'font-semibold',
+            signo > 0 && 'text-green-600',
+            signo < 0 && 'text-red-600'
+          )}
+        >
+          {texto}
+        </span>{' '}
+        vs. {formato(anterior)} antes
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Gráfico de líneas de vistas y clicks por día (SVG sin dependencias)
+ * Cada día tiene una franja con tooltip nativo con sus valores
+ * @private
+ */
+function GraficoTendencia({ serie }: { serie: ResumenAnalitica['serie'] }) {
+  const maximo = Math.max(1, ...serie.map((p) => p.vistas));
+  const ancho = Math.max(1, serie.length - 1);
+  const y = (valor: number) => ALTO_GRAFICO - (valor / maximo) * ALTO_GRAFICO;
+  const linea = (campo: 'vistas' | 'clicks_whatsapp') =>
+    serie.map((p, i) => `${i},${y(p[campo])}`).join(' ');
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 text-xs text-slate-600 mb-2">
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-4 rounded bg-pink-500" /> Vistas
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-4 rounded bg-green-500" /> Clicks en WhatsApp
+        </span>
+        <span className="ml-auto">Máx. {maximo} por día</span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${ancho} ${ALTO_GRAFICO}`}
+        preserveAspectRatio="none"
+        className="h-48 w-full overflow-visible"
+        role="img"
+        aria-label="Vistas y clicks en WhatsApp por día"
+      >
+        {[0.25, 0.5, 0.75].map((fraccion) => (
+          <line
+            key={fraccion}
+            x1={0}
+            x2={ancho}
+            y1={ALTO_GRAFICO * fraccion}
+            y2={ALTO_GRAFICO * fraccion}
+            className="stroke-slate-100"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        <polyline
+          points={linea('vistas')}
+          fill="none"
+          className="stroke-pink-500"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        <polyline
+          points={linea('clicks_whatsapp')}
+          fill="none"
+          className="stroke-green-500"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {serie.map((p, i) => (
+          <rect
+            key={p.dia}
+            x={i - 0.5}
+            y={0}
+            width={1}
+            height={ALTO_GRAFICO}
+            fill="transparent"
+            className="hover:fill-slate-900/5"
+          >
+            <title>{`${fechaCorta(p.dia)}: ${p.vistas} vistas, ${p.clicks_whatsapp} clicks`}</title>
+          </rect>
+        ))}
+      </svg>
+
+      <div className="flex justify-between text-xs text-slate-500 mt-1">
+        <span>{fechaCorta(serie[0].dia)}</span>
+        <span>{fechaCorta(serie[serie.length - 1].dia)}</span>
+      </div>
+    </div>
+  );
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Analítica de la tienda del vendedor autenticado
+ *
+ * Características:
+ * - Selector de período (7, 30 o 90 días)
+ * - Totales con variación frente al período anterior de igual largo
+ * - Tendencia diaria de vistas y clicks en WhatsApp
+ * - Productos más vistos con su tasa de consulta (clicks / vistas)
+ * - Búsquedas más frecuentes, marcando las que no encontraron productos
+ * - Vistas, clicks y tasa de consulta por fuente de tráfico y por campaña
+ *
+ * @returns Card con la analítica
+ *
+ * @example
+ * <AnaliticaTienda />
+ */
+export default function AnaliticaTienda() {
+
+  // ===================================
+  // ESTADOS
+  // ===================================
+
+  const [dias, setDias] = useState<(typeof PERIODOS)[number]>(30);
+  const [resumen, setResumen] = useState<ResumenAnalitica | null>(null);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState('');
+
+  // ===================================
+  // EFECTOS
+  // ===================================
+
+  /**
+   * Carga el resumen al elegir un período (descarta respuestas viejas)
+   */
+  useEffect(() => {
+    let vigente = true;
+    setCargando(true);
+    setError('');
+
+    api.analitica.getResumen(diaLocal(-(dias - 1)), diaLocal())
+      .then((data) => {
+        if (vigente) setResumen(data);
+      })
+      .catch((err) => {
+        if (vigente) setError(err.message);
+      })
+      .finally(() => {
+        if (vigente) setCargando(false);
+      });
+
+    return () => {
+      vigente = false;
+    };
+  }, [dias]);
+
+  // ===================================
+  // RENDER
+  // ===================================
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-bold text-slate-900">
+              Analítica
+            </CardTitle>
+            <p className="text-sm text-slate-600 mt-1">
+              {resumen
+                ? `${fechaCorta(resumen.desde)} – ${fechaCorta(resumen.hasta)}, comparado con los ${resumen.dias} días anteriores`
+                : 'Cómo encuentran y consultan tus productos'}
+            </p>
+          </div>
+          <div className="flex rounded-lg border-2 border-slate-100 p-1" role="group" aria-label="Período">
+            {PERIODOS.map((periodo) => (
+              <button
+                key={periodo}
+                type="button"
+                onClick={() => setDias(periodo)}
+                aria-pressed={dias === periodo}
+                className={cn(
+                  'px-3 py-1 text-sm rounded-md transition-colors',
+                  dias === periodo ? 'bg-pink-500 text-white' : 'text-slate-600 hover:bg-slate-100'
+                )}
+              >
+                {periodo} días
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {cargando && !resumen ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-pink-500" />
+          </div>
+        ) : resumen && (
+          <div className={cn('space-y-8 transition-opacity', cargando && 'opacity-50')}>
+            {/* Totales del período */}
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+              <Indicador titulo="Vistas" valor={resumen.totales.vistas} anterior={resumen.anteriores.vistas} icono={Eye} />
+              <Indicador
+                titulo="Clicks en WhatsApp"
+                valor={resumen.totales.clicks_whatsapp}
+                anterior={resumen.anteriores.clicks_whatsapp}
+                icono={MessageCircle}
+              />
+              <Indicador
+                titulo="Tasa de consulta"
+                valor={resumen.totales.ctr}
+                anterior={resumen.anteriores.ctr}
+                formato={porcentaje}
+                icono={TrendingUp}
+              />
+              <Indicador titulo="Búsquedas" valor={resumen.totales.busquedas} anterior={resumen.anteriores.busquedas} icono={Search} />
+              <Indicador
+                titulo="Compartidos"
+                valor={resumen.totales.compartidos}
+                anterior={resumen.anteriores.compartidos}
+                icono={Share2}
+              />
+            </div>
+
+            {/* Tendencia diaria */}
+            <GraficoTendencia serie={resumen.serie} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Productos más vistos */}
+              <div className="lg:col-span-2">
+                <h3 className="font-semibold text-slate-900 mb-3">Productos más vistos</h3>
+                {resumen.productos.length === 0 ? (
+                  <p className="text-sm text-slate-500">Aún no hay vistas en este período.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 border-b">
+                        <th className="py-2 font-medium">Producto</th>
+                        <th className="py-2 font-medium text-right">Vistas</th>
+                        <th className="py-2 font-medium text-right">Clicks</th>
+                        <th className="py-2 font-medium text-right">Consulta</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {resumen.productos.map((producto) => (
+                        <tr key={producto._id} className="border-b border-slate-100">
+                          <td className="py-2">
+                            <div className="flex items-center gap-3 min-w-0">
+                              <div className="h-8 w-8 rounded bg-slate-100 overflow-hidden flex-shrink-0">
+                                {producto.imagen && (
+                                  <img src={producto.imagen} alt="" className="h-full w-full object-cover" />
+                                )}
+                              </div>
+                              <span className="truncate text-slate-900">{producto.nombre}</span>
+                            </div>
+                          </td>
+                          <td className="py-2 text-right">{producto.vistas}</td>
+                          <td className="py-2 text-right">{producto.clicks_whatsapp}</td>
+                          <td className="py-2 text-right font-semibold text-slate-900">{porcentaje(producto.ctr)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* Búsquedas frecuentes */}
+              <div>
+                <h3 className="font-semibold text-slate-900 mb-3">Lo más buscado</h3>
+                {resumen.busquedas.length === 0 ? (
+                  <p className="text-sm text-slate-500">Aún no hay búsquedas en este período.</p>
+                ) : (
+                  <ul className="space-y-2 text-sm">
+                    {resumen.busquedas.map((busqueda) => (
+                      <li key={busqueda.texto} className="flex items-center justify-between gap-2">
+                        <span className="truncate text-slate-900">{busqueda.texto}</span>
+                        <span className="flex-shrink-0 text-slate-500">
+                          {busqueda.total}
+                          {busqueda.sin_resultados > 0 && (
+                            <span className="ml-2 text-xs text-orange-600">
+                              {busqueda.sin_resultados} sin resultados
+                            </span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            {/* Fuentes de tráfico y campañas */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-2">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold text-slate-900">De dónde llegan</h3>
+                  <Link
+                    href="/admin/enlaces"
+                    className="flex items-center gap-1 text-sm text-pink-600 hover:text-pink-700"
+                  >
+                    <Link2 className="h-4 w-4" />
+                    Crear enlaces con seguimiento
+                  </Link>
+                </div>
+                {resumen.fuentes.length === 0 ? (
+                  <p className="text-sm text-slate-500">Aún no hay visitas en este período.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 border-b">
+                        <th className="py-2 font-medium">Fuente</th>
+                        <th className="py-2 font-medium text-right">Vistas</th>
+                        <th className="py-2 font-medium text-right">Clicks</th>
+                        <th className="py-2 font-medium text-right">Consulta</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {resumen.fuentes.map((fuente) => (
+                        <tr key={fuente.fuente} className="border-b border-slate-100">
+                          <td className="py-2">
+                            <span className="text-slate-900">{nombreFuente(fuente.fuente)}</span>
+                            <div className="mt-1 h-1.5 rounded bg-slate-100">
+                              <div
+                                className="h-full rounded bg-pink-500"
+                                style={{
+                                  width: `${resumen.totales.vistas > 0 ? (fuente.vistas / resumen.totales.vistas) * 100 : 0}%`,
+                                }}
+                              />
+                            </div>
+                          </td>
+                          <td className="py-2 text-right">{fuente.vistas}</td>
+                          <td className="py-2 text-right">{fuente.clicks_whatsapp}</td>
+                          <td className="py-2 text-right font-semibold text-slate-900">{porcentaje(fuente.ctr)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-slate-900 mb-3">Campañas</h3>
+                {resumen.campanas.length === 0 ? (
+                  <p className="text-sm text-slate-500">
+                    Comparte enlaces con utm_campaign para comparar tus publicaciones.
+                  </p>
+                ) : (
+                  <ul className="space-y-2 text-sm">
+                    {resumen.campanas.map((campana) => (
+                      <li key={`${campana.fuente}-${campana.campana}`} className="flex items-center justify-between gap-2">
+                        <span className="truncate text-slate-900">
+                          {campana.campana}
+                          <span className="ml-1 text-xs text-slate-500">· {nombreFuente(campana.fuente)}</span>
+                        </span>
+                        <span className="flex-shrink-0 text-slate-500">
+                          {campana.vistas} / {campana.clicks_whatsapp}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
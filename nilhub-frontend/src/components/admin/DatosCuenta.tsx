@@ -0,0 +1,152 @@
+// src/components/admin/DatosCuenta.tsx
+/**
+ * @fileoverview Datos de la cuenta en Seguridad: descargar una copia y
+ * eliminar la cuenta
+ * @module DatosCuenta
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Database, Download, Loader2, Trash2 } from 'lucide-react';
+import api from '@/lib/api';
+import { descargarArchivo } from '@/lib/utils';
+
+/**
+ * Tarjeta "Tus datos"
+ *
+ * La descarga es un .zip con datos.json (cuenta, tienda, productos,
+ * pedidos...) y las imágenes. Eliminar pide la contraseña y deja 14 días
+ * para arrepentirse: el aviso para cancelar aparece arriba en todo el panel.
+ * Los administradores no pueden eliminar su cuenta.
+ */
+export default function DatosCuenta() {
+  const { usuario, isAdmin, refreshUser } = useAuth();
+  const [exportando, setExportando] = useState(false);
+  /** Muestra el campo de contraseña para confirmar */
+  const [confirmando, setConfirmando] = useState(false);
+  const [password, setPassword] = useState('');
+  const [eliminando, setEliminando] = useState(false);
+  const [error, setError] = useState('');
+
+  const exportar = async () => {
+    try {
+      setExportando(true);
+      setError('');
+      const fecha = new Date().toISOString().slice(0, 10);
+      descargarArchivo(await api.auth.exportarDatos(), `nilhub-datos-${fecha}.zip`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al exportar tus datos');
+    } finally {
+      setExportando(false);
+    }
+  };
+
+  const eliminar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setEliminando(true);
+      setError('');
+      await api.auth.solicitarEliminacion(password);
+      setPassword('');
+      setConfirmando(false);
+      // Trae el usuario con la fecha de eliminación (muestra el aviso)
+      await refreshUser();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al solicitar la eliminación de la cuenta');
+    } finally {
+      setEliminando(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5 text-pink-500" />
+          Tus datos
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm text-slate-600">
+            Descarga una copia de tu cuenta, tu tienda, tus productos con sus imágenes, tus pedidos y tus
+            estadísticas. Puede tardar un poco si tienes muchas imágenes.
+          </p>
+          <Button type="button" variant="outline" onClick={exportar} disabled={exportando} className="gap-2">
+            {exportando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            {exportando ? 'Preparando archivo...' : 'Descargar mis datos'}
+          </Button>
+        </div>
+
+        {!isAdmin && (
+          <div className="space-y-2 border-t border-slate-100 pt-6">
+            <p className="font-medium text-slate-900">Eliminar cuenta</p>
+            {usuario?.eliminacion ? (
+              <p className="text-sm text-slate-600">
+                La eliminación de tu cuenta ya está programada. Puedes cancelarla desde el aviso de arriba.
+              </p>
+            ) : confirmando ? (
+              <form onSubmit={eliminar} className="space-y-3">
+                <p className="text-sm text-slate-600">
+                  Tu tienda dejará de verse en el catálogo de inmediato. En 14 días borraremos tu cuenta y todo
+                  lo que contiene; hasta entonces puedes cancelarlo. Ingresa tu contraseña para confirmar.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Tu contraseña"
+                    autoComplete="current-password"
+                    className="max-w-60"
+                    aria-label="Contraseña"
+                  />
+                  <Button
+                    type="submit"
+                    variant="destructive"
+                    disabled={eliminando || !password}
+                    className="gap-2"
+                  >
+                    {eliminando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    Eliminar mi cuenta
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => setConfirmando(false)}>
+                    Cancelar
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <>
+                <p className="text-sm text-slate-600">
+                  Borra tu cuenta, tu tienda, tus productos con sus imágenes, tus pedidos y tus estadísticas.
+                  Descarga tus datos antes si quieres conservarlos.
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setConfirmando(true)}
+                  className="gap-2 text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Eliminar mi cuenta
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
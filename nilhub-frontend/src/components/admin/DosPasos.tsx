@@ -0,0 +1,262 @@
+// src/components/admin/DosPasos.tsx
+/**
+ * @fileoverview Verificación en dos pasos (TOTP) en Seguridad
+ * Activar con QR, ver y regenerar códigos de recuperación, desactivar
+ * @module DosPasos
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Smartphone, Copy, Check, Download, Loader2, RefreshCw } from 'lucide-react';
+import api from '@/lib/api';
+import { claves } from '@/lib/consultas';
+
+// ===================================
+// SUBCOMPONENTES
+// ===================================
+
+/**
+ * Códigos de recuperación recién generados (única vez que se ven)
+ * @private
+ */
+function CodigosRecuperacion({ codigos, onListo }: { codigos: string[]; onListo: () => void }) {
+  const [copiado, setCopiado] = useState(false);
+  const texto = codigos.join('\n');
+
+  const copiar = async () => {
+    try {
+      await navigator.clipboard.writeText(texto);
+      setCopiado(true);
+    } catch {
+      // Quedan visibles para copiarlos a mano
+    }
+  };
+
+  const descargar = () => {
+    const enlace = document.createElement('a');
+    enlace.href = URL.createObjectURL(new Blob([`Códigos de recuperación de NilHub\n\n${texto}\n`], { type: 'text/plain' }));
+    enlace.download = 'nilhub-codigos-recuperacion.txt';
+    enlace.click();
+    URL.revokeObjectURL(enlace.href);
+  };
+
+  return (
+    <Alert className="border-green-200 bg-green-50">
+      <AlertDescription className="space-y-3 text-green-800">
+        <p className="font-medium">
+          Guarda estos códigos en un lugar seguro: no los volverás a ver. Cada uno sirve una vez para
+          ingresar o cambiar tu contraseña si pierdes el teléfono.
+        </p>
+        <div className="grid grid-cols-2 gap-2 rounded-md bg-white p-3 font-mono text-sm text-slate-900">
+          {codigos.map((codigo) => (
+            <span key={codigo}>{codigo}</span>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={copiar} className="gap-2">
+            {copiado ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            {copiado ? 'Copiados' : 'Copiar'}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={descargar} className="gap-2">
+            <Download className="h-4 w-4" />
+            Descargar
+          </Button>
+          <Button type="button" size="sm" onClick={onListo}>
+            Ya los guardé
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Tarjeta de verificación en dos pasos
+ *
+ * Al activarla, el login pide además un código de la app autenticadora.
+ * Es obligatoria para administradores: no ven la opción de desactivarla.
+ */
+export default function DosPasos() {
+  const { refreshUser } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: estado, isLoading: cargando } = useQuery({
+    queryKey: claves.dosPasos(),
+    queryFn: api.dosPasos.getEstado,
+  });
+  /** Secreto recién generado mientras se escanea el QR */
+  const [configuracion, setConfiguracion] = useState<{ secreto: string; qr: string } | null>(null);
+  const [codigo, setCodigo] = useState('');
+  /** Códigos de recuperación recién generados */
+  const [codigosNuevos, setCodigosNuevos] = useState<string[]>([]);
+  const [procesando, setProcesando] = useState(false);
+  const [error, setError] = useState('');
+
+  /** Ejecuta una acción mostrando su error y vuelve a leer el estado */
+  const ejecutar = async (accion: () => Promise<void>) => {
+    try {
+      setProcesando(true);
+      setError('');
+      await accion();
+      setCodigo('');
+      await queryClient.invalidateQueries({ queryKey: claves.dosPasos() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error en la verificación en dos pasos');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  const empezar = () =>
+    ejecutar(async () => {
+      const { secreto, qr } = await api.dosPasos.configurar();
+      setConfiguracion({ secreto, qr });
+    });
+
+  const activar = () =>
+    ejecutar(async () => {
+      const { codigos_recuperacion } = await api.dosPasos.activar(codigo);
+      setConfiguracion(null);
+      setCodigosNuevos(codigos_recuperacion);
+      // El usuario ahora trae dos_pasos.activo (libera el panel de administrador)
+      await refreshUser();
+    });
+
+  const regenerar = () =>
+    ejecutar(async () => {
+      const { codigos_recuperacion } = await api.dosPasos.regenerarCodigos(codigo);
+      setCodigosNuevos(codigos_recuperacion);
+    });
+
+  const desactivar = () => {
+    if (!confirm('¿Desactivar la verificación en dos pasos? Tu cuenta quedará protegida solo con la contraseña.')) return;
+    ejecutar(async () => {
+      await api.dosPasos.desactivar(codigo);
+      await refreshUser();
+    });
+  };
+
+  /** Campo para el código de la app (o de recuperación) */
+  const campoCodigo = (
+    <Input
+      value={codigo}
+      onChange={(e) => setCodigo(e.target.value.trim())}
+      placeholder="123456"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      maxLength={11}
+      className="max-w-40 text-center font-mono tracking-widest"
+      aria-label="Código de verificación"
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Smartphone className="h-5 w-5 text-pink-500" />
+          Verificación en dos pasos
+          {estado?.activo && <Badge className="bg-green-100 text-green-700">Activa</Badge>}
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Además de tu contraseña, al ingresar se pedirá un código de una app como Google Authenticator o Authy
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {estado?.obligatorio && !estado.activo && (
+          <Alert className="border-amber-200 bg-amber-50">
+            <AlertDescription className="text-amber-800">
+              Como administrador debes activar la verificación en dos pasos para usar el panel.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {codigosNuevos.length > 0 && (
+          <CodigosRecuperacion codigos={codigosNuevos} onListo={() => setCodigosNuevos([])} />
+        )}
+
+        {cargando || !estado ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-pink-500" />
+          </div>
+        ) : estado.activo ? (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              Activa desde el{' '}
+              {estado.activado_en
+                ? new Date(estado.activado_en).toLocaleDateString('es-PE', { day: 'numeric', month: 'long', year: 'numeric' })
+                : '—'}
+              . Te quedan {estado.codigos_restantes} códigos de recuperación.
+            </p>
+            <p className="text-sm text-slate-600">
+              Para generar códigos nuevos{estado.obligatorio ? '' : ' o desactivarla'}, ingresa un código de tu app:
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {campoCodigo}
+              <Button type="button" variant="outline" onClick={regenerar} disabled={procesando || !codigo} className="gap-2">
+                <RefreshCw className="h-4 w-4" />
+                Códigos nuevos
+              </Button>
+              {!estado.obligatorio && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={desactivar}
+                  disabled={procesando || !codigo}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Desactivar
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : configuracion ? (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              1. Escanea este código con tu app autenticadora.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element -- data URL generada por el backend */}
+            <img src={configuracion.qr} alt="Código QR para la app autenticadora" width={200} height={200} className="rounded-md border" />
+            <p className="text-xs text-slate-500">
+              ¿No puedes escanearlo? Ingresa esta clave a mano:{' '}
+              <code className="break-all rounded bg-slate-100 px-1 py-0.5">{configuracion.secreto}</code>
+            </p>
+            <p className="text-sm text-slate-600">2. Ingresa el código de 6 dígitos que muestra la app:</p>
+            <div className="flex flex-wrap gap-2">
+              {campoCodigo}
+              <Button type="button" onClick={activar} disabled={procesando || codigo.length !== 6} className="gap-2">
+                {procesando && <Loader2 className="h-4 w-4 animate-spin" />}
+                Activar
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setConfiguracion(null)} disabled={procesando}>
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button type="button" onClick={empezar} disabled={procesando} className="gap-2">
+            {procesando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Smartphone className="h-4 w-4" />}
+            Activar verificación en dos pasos
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
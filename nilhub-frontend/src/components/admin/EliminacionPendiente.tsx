@@ -0,0 +1,68 @@
+// src/components/admin/EliminacionPendiente.tsx
+/**
+ * @fileoverview Aviso de cuenta con eliminación programada
+ * Permite cancelarla mientras no venza el plazo
+ * @module EliminacionPendiente
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Trash2 } from 'lucide-react';
+import api from '@/lib/api';
+
+/** "2 de noviembre de 2026" */
+const fechaLarga = new Intl.DateTimeFormat('es', { dateStyle: 'long' });
+
+/**
+ * Aviso con el botón para cancelar la eliminación
+ *
+ * Se muestra en todo el panel mientras usuario.eliminacion exista. Al
+ * cancelar, la tienda vuelve al catálogo público.
+ */
+export default function EliminacionPendiente() {
+  const { usuario, refreshUser } = useAuth();
+  const [cancelando, setCancelando] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!usuario?.eliminacion) return null;
+
+  const cancelar = async () => {
+    try {
+      setCancelando(true);
+      setError('');
+      await api.auth.cancelarEliminacion();
+      // Trae el usuario sin la eliminación y la tienda publicada
+      await refreshUser();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cancelar la eliminación');
+    } finally {
+      setCancelando(false);
+    }
+  };
+
+  return (
+    <Alert className="mb-6 border-red-200 bg-red-50">
+      <AlertDescription className="space-y-3 text-red-900">
+        <p className="flex items-start gap-2">
+          <Trash2 className="mt-0.5 h-4 w-4 flex-shrink-0" />
+          <span>
+            <strong>
+              Tu cuenta se eliminará el {fechaLarga.format(new Date(usuario.eliminacion.programada_para))}.
+            </strong>{' '}
+            Tu tienda ya no aparece en el catálogo. Ese día se borran tus productos, imágenes, pedidos y
+            estadísticas.
+          </span>
+        </p>
+        <Button type="button" size="sm" variant="outline" onClick={cancelar} disabled={cancelando} className="gap-2 bg-white">
+          {cancelando && <Loader2 className="h-4 w-4 animate-spin" />}
+          Cancelar eliminación
+        </Button>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,122 @@
+// src/components/admin/HistorialAccesos.tsx
+/**
+ * @fileoverview Últimos inicios de sesión de una cuenta, correctos y fallidos
+ * Se usa en Seguridad (la cuenta propia) y en Usuarios (la de cualquier
+ * usuario, solo administradores)
+ * @module HistorialAccesos
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Smartphone, Monitor, MapPin, Loader2 } from 'lucide-react';
+import api from '@/lib/api';
+import { claves } from '@/lib/consultas';
+import type { Acceso } from '@/types';
+
+// ===================================
+// FORMATO
+// ===================================
+
+/** Nombres de países en español (PE → Perú) */
+const nombresPais = new Intl.DisplayNames(['es'], { type: 'region' });
+
+/** "19 oct 2026, 14:05" */
+const fechaHora = new Intl.DateTimeFormat('es', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Cómo se intentó ingresar
+ * @constant
+ */
+const METODOS: Record<Acceso['metodo'], string> = {
+  contrasena: 'Contraseña',
+  codigo: 'Código sin contraseña',
+  dos_pasos: 'Verificación en dos pasos',
+};
+
+/**
+ * Red desde donde se intentó ("Lima, Perú · 190.0.0.1")
+ * @private
+ */
+const red = ({ ciudad, pais, ip }: Acceso) => {
+  const nombrePais = pais ? nombresPais.of(pais) : '';
+  return [[ciudad, nombrePais].filter(Boolean).join(', ') || 'Ubicación desconocida', ip]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+interface HistorialAccesosProps {
+  /** Usuario a consultar (solo administradores). Sin él, la cuenta propia */
+  usuarioId?: string;
+}
+
+/**
+ * Lista de intentos de login, el más reciente primero
+ *
+ * Los fallidos se marcan en rojo con el motivo. Varios seguidos desde una
+ * red desconocida suelen ser alguien probando contraseñas.
+ */
+export default function HistorialAccesos({ usuarioId }: HistorialAccesosProps) {
+  const { data: accesos = [], isLoading: cargando, error } = useQuery({
+    queryKey: usuarioId ? claves.accesosDeUsuario(usuarioId) : claves.accesos(),
+    queryFn: async () =>
+      usuarioId ? (await api.admin.getAccesosDeUsuario(usuarioId)).data : api.auth.getAccesos(),
+  });
+
+  if (cargando) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-pink-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (accesos.length === 0) {
+    return <p className="py-4 text-center text-sm text-slate-500">Todavía no hay inicios de sesión registrados</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {accesos.map((acceso, i) => {
+        const Icono = acceso.dispositivo.movil ? Smartphone : Monitor;
+        return (
+          <li key={`${acceso.fecha}-${i}`} className="flex items-start gap-3 py-3">
+            <Icono className="h-6 w-6 flex-shrink-0 text-slate-400" />
+            <div className="min-w-0 flex-1">
+              <p className="flex flex-wrap items-center gap-2 text-sm font-medium text-slate-900">
+                {acceso.dispositivo.navegador} en {acceso.dispositivo.sistema}
+                {acceso.exito ? (
+                  <Badge className="bg-green-100 text-green-700">Correcto</Badge>
+                ) : (
+                  <Badge className="bg-red-100 text-red-700">Fallido</Badge>
+                )}
+              </p>
+              <p className="mt-1 text-xs text-slate-500">
+                {fechaHora.format(new Date(acceso.fecha))} · {METODOS[acceso.metodo]}
+                {acceso.motivo && <span className="text-red-600"> · {acceso.motivo}</span>}
+              </p>
+              <p className="mt-1 flex items-center gap-1 text-xs text-slate-500">
+                <MapPin className="h-3 w-3" />
+                {red(acceso)}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
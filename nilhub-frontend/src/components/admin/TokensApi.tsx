@@ -0,0 +1,362 @@
+// src/components/admin/TokensApi.tsx
+/**
+ * @fileoverview Tokens de API personales en Configuración
+ * Crear tokens con permisos y límite por minuto, ver su último uso y revocarlos
+ * @module TokensApi
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, Plus, Pencil, Trash2, Copy, Check, Loader2, FileJson } from 'lucide-react';
+import api from '@/lib/api';
+import type { PermisoToken, TokenApi } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Base URL de la API (para el enlace a la especificación y el ejemplo)
+ * @constant
+ */
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000/api';
+
+/**
+ * Descripción visible de cada permiso
+ * @constant
+ */
+const NOMBRES_PERMISO: Record<PermisoToken, string> = {
+  'catalogo:leer': 'Leer catálogo',
+  'productos:escribir': 'Crear, editar y eliminar productos',
+  'stock:escribir': 'Cambiar stock',
+};
+
+/**
+ * Formulario vacío para un token nuevo
+ * @constant
+ */
+const FORMULARIO_VACIO = { nombre: '', permisos: [] as PermisoToken[], limite_por_minuto: 60 };
+
+/**
+ * Fecha relativa del último uso (ej: "hace 5 min")
+ * @private
+ */
+const ultimoUso = (fecha: string | null) => {
+  if (!fecha) return 'Nunca usado';
+  const minutos = Math.round((Date.now() - new Date(fecha).getTime()) / 60000);
+  if (minutos < 1) return 'Usado hace un momento';
+  if (minutos < 60) return `Usado hace ${minutos} min`;
+  if (minutos < 60 * 24) return `Usado hace ${Math.round(minutos / 60)} h`;
+  return `Usado el ${new Date(fecha).toLocaleDateString('es-PE', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+};
+
+// ===================================
+// SUBCOMPONENTES
+// ===================================
+
+/**
+ * Formulario para crear o editar un token
+ * @private
+ */
+function FormularioToken({
+  inicial,
+  permisos,
+  onGuardar,
+  onCancelar,
+}: {
+  inicial: typeof FORMULARIO_VACIO;
+  permisos: PermisoToken[];
+  onGuardar: (datos: typeof FORMULARIO_VACIO) => Promise<void>;
+  onCancelar: () => void;
+}) {
+  const [datos, setDatos] = useState(inicial);
+  const [guardando, setGuardando] = useState(false);
+
+  const alternarPermiso = (permiso: PermisoToken) =>
+    setDatos((actual) => ({
+      ...actual,
+      permisos: actual.permisos.includes(permiso)
+        ? actual.permisos.filter((p) => p !== permiso)
+        : [...actual.permisos, permiso],
+    }));
+
+  const guardar = async () => {
+    setGuardando(true);
+    try {
+      await onGuardar(datos);
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border-2 border-pink-100 bg-pink-50/40 p-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="sm:col-span-2">
+          <label htmlFor="token-nombre" className="text-sm font-medium text-slate-700">
+            Nombre
+          </label>
+          <Input
+            id="token-nombre"
+            value={datos.nombre}
+            onChange={(e) => setDatos({ ...datos, nombre: e.target.value })}
+            placeholder="Ej: Caja de la tienda"
+            maxLength={50}
+            className="mt-1 bg-white"
+          />
+        </div>
+        <div>
+          <label htmlFor="token-limite" className="text-sm font-medium text-slate-700">
+            Peticiones por minuto
+          </label>
+          <Input
+            id="token-limite"
+            type="number"
+            min={1}
+            max={600}
+            value={datos.limite_por_minuto}
+            onChange={(e) => setDatos({ ...datos, limite_por_minuto: Number(e.target.value) })}
+            className="mt-1 bg-white"
+          />
+        </div>
+      </div>
+
+      <fieldset>
+        <legend className="text-sm font-medium text-slate-700">Permisos</legend>
+        <div className="mt-2 space-y-2">
+          {permisos.map((permiso) => (
+            <label key={permiso} className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={datos.permisos.includes(permiso)}
+                onChange={() => alternarPermiso(permiso)}
+                className="h-4 w-4 accent-pink-500"
+              />
+              {NOMBRES_PERMISO[permiso] || permiso}
+              <code className="text-xs text-slate-400">{permiso}</code>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancelar} disabled={guardando}>
+          Cancelar
+        </Button>
+        <Button
+          type="button"
+          onClick={guardar}
+          disabled={guardando || !datos.nombre.trim() || datos.permisos.length === 0}
+          className="bg-gradient-to-r from-pink-500 to-purple-500 text-white"
+        >
+          {guardando && <Loader2 className="h-4 w-4 animate-spin" />}
+          Guardar
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Sección de tokens de API de Configuración
+ *
+ * Los tokens autentican las integraciones en /api/v1 con los permisos
+ * elegidos. El token completo se muestra una sola vez, al crearlo.
+ */
+export default function TokensApi() {
+  const [tokens, setTokens] = useState<TokenApi[]>([]);
+  const [permisos, setPermisos] = useState<PermisoToken[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState('');
+  /** 'nuevo', el ID del token en edición o '' */
+  const [editando, setEditando] = useState('');
+  /** Token recién creado (única vez que se ve completo) */
+  const [nuevoToken, setNuevoToken] = useState('');
+  const [copiado, setCopiado] = useState(false);
+
+  useEffect(() => {
+    api.tokens.getMisTokens()
+      .then((datos) => {
+        setTokens(datos.tokens);
+        setPermisos(datos.permisos);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Error al cargar tokens'))
+      .finally(() => setCargando(false));
+  }, []);
+
+  const guardar = async (datos: typeof FORMULARIO_VACIO) => {
+    setError('');
+    try {
+      if (editando === 'nuevo') {
+        const { token, ...creado } = await api.tokens.crear(datos);
+        setTokens((actuales) => [creado, ...actuales]);
+        setNuevoToken(token);
+        setCopiado(false);
+      } else {
+        const actualizado = await api.tokens.actualizar(editando, datos);
+        setTokens((actuales) => actuales.map((t) => (t._id === actualizado._id ? actualizado : t)));
+      }
+      setEditando('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar token');
+    }
+  };
+
+  const revocar = async (tokenApi: TokenApi) => {
+    if (!window.confirm(`¿Revocar "${tokenApi.nombre}"? Las integraciones que lo usen dejarán de funcionar.`)) return;
+    setError('');
+    try {
+      await api.tokens.revocar(tokenApi._id);
+      setTokens((actuales) => actuales.filter((t) => t._id !== tokenApi._id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al revocar token');
+    }
+  };
+
+  const copiarNuevo = async () => {
+    try {
+      await navigator.clipboard.writeText(nuevoToken);
+      setCopiado(true);
+    } catch {
+      setError('No se pudo copiar el token. Selecciónalo y cópialo manualmente.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-pink-500" />
+          Tokens de API
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Conecta tu caja o tu sistema de inventario para actualizar productos y stock automáticamente
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {nuevoToken && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="space-y-2 text-green-800">
+              <p className="font-medium">Copia tu token ahora: no lo volverás a ver.</p>
+              <div className="flex gap-2">
+                <Input value={nuevoToken} readOnly onFocus={(e) => e.target.select()} className="bg-white font-mono text-xs" />
+                <Button type="button" variant="outline" onClick={copiarNuevo} className="flex-shrink-0 gap-2">
+                  {copiado ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  {copiado ? 'Copiado' : 'Copiar'}
+                </Button>
+              </div>
+              <button type="button" onClick={() => setNuevoToken('')} className="text-xs underline">
+                Ya lo guardé
+              </button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {cargando ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-pink-500" />
+          </div>
+        ) : (
+          <>
+            {tokens.length === 0 && editando !== 'nuevo' && (
+              <p className="py-4 text-center text-sm text-slate-500">Todavía no tienes tokens</p>
+            )}
+
+            {tokens.map((tokenApi) =>
+              editando === tokenApi._id ? (
+                <FormularioToken
+                  key={tokenApi._id}
+                  inicial={{
+                    nombre: tokenApi.nombre,
+                    permisos: tokenApi.permisos,
+                    limite_por_minuto: tokenApi.limite_por_minuto,
+                  }}
+                  permisos={permisos}
+                  onGuardar={guardar}
+                  onCancelar={() => setEditando('')}
+                />
+              ) : (
+                <div key={tokenApi._id} className="flex flex-wrap items-start justify-between gap-2 rounded-lg border-2 border-slate-100 p-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900">{tokenApi.nombre}</p>
+                    <p className="font-mono text-xs text-slate-500">{tokenApi.prefijo}…</p>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {tokenApi.permisos.map((permiso) => (
+                        <span key={permiso} className="rounded-full bg-pink-50 px-2 py-0.5 text-xs text-pink-700">
+                          {NOMBRES_PERMISO[permiso] || permiso}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="mt-2 text-xs text-slate-500">
+                      {ultimoUso(tokenApi.ultimo_uso)} · {tokenApi.limite_por_minuto} peticiones/min
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button type="button" variant="ghost" size="icon-sm" title="Editar" onClick={() => setEditando(tokenApi._id)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon-sm" title="Revocar" onClick={() => revocar(tokenApi)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            )}
+
+            {editando === 'nuevo' ? (
+              <FormularioToken
+                inicial={FORMULARIO_VACIO}
+                permisos={permisos}
+                onGuardar={guardar}
+                onCancelar={() => setEditando('')}
+              />
+            ) : (
+              <Button type="button" variant="outline" onClick={() => setEditando('nuevo')} className="w-full gap-2">
+                <Plus className="h-4 w-4" />
+                Crear token
+              </Button>
+            )}
+
+            {/* Cómo usar la API */}
+            <details className="rounded-lg bg-slate-50 p-4 text-sm text-slate-600">
+              <summary className="cursor-pointer font-medium text-slate-700">¿Cómo uso la API?</summary>
+              <div className="mt-3 space-y-2">
+                <p>Envía el token en el header <code>Authorization</code>. Por ejemplo, para cambiar stock por SKU:</p>
+                <pre className="overflow-x-auto rounded bg-slate-900 p-3 text-xs text-slate-100">
+{`curl -X PATCH ${API_URL}/v1/stock \\
+  -H "Authorization: Bearer nhk_..." \\
+  -H "Content-Type: application/json" \\
+  -d '{"items":[{"sku":"LAB-001","stock":12}]}'`}
+                </pre>
+                <a
+                  href={`${API_URL}/v1/openapi.json`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 font-medium text-pink-600"
+                >
+                  <FileJson className="h-4 w-4" />
+                  Especificación OpenAPI de /api/v1
+                </a>
+              </div>
+            </details>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+// src/components/admin/VerificarEmail.tsx
+/**
+ * @fileoverview Aviso para confirmar el email de una cuenta nueva
+ * La tienda no aparece en el catálogo público hasta ingresar el código
+ * @module VerificarEmail
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, MailCheck } from 'lucide-react';
+import api from '@/lib/api';
+
+/**
+ * Aviso con el campo para el código de verificación
+ *
+ * Se muestra en todo el panel mientras usuario.email_verificado sea false.
+ * El código se puede reenviar una vez por minuto.
+ */
+export default function VerificarEmail() {
+  const { usuario, refreshUser } = useAuth();
+  const [code, setCode] = useState('');
+  /** Segundos hasta poder pedir otro código */
+  const [espera, setEspera] = useState(0);
+  const [verificando, setVerificando] = useState(false);
+  const [reenviando, setReenviando] = useState(false);
+  const [error, setError] = useState('');
+  const [aviso, setAviso] = useState('');
+
+  useEffect(() => {
+    if (espera <= 0) return;
+    const id = setTimeout(() => setEspera(espera - 1), 1000);
+    return () => clearTimeout(id);
+  }, [espera]);
+
+  if (!usuario || usuario.email_verificado !== false) return null;
+
+  const verificar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setVerificando(true);
+      setError('');
+      await api.auth.verificarEmail(code);
+      // Trae el usuario verificado y la tienda ya publicada
+      await refreshUser();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al verificar el email');
+      setVerificando(false);
+    }
+  };
+
+  const reenviar = async () => {
+    try {
+      setReenviando(true);
+      setError('');
+      const { espera } = await api.auth.reenviarVerificacionEmail();
+      setEspera(espera);
+      setAviso(`Te enviamos un código nuevo a ${usuario.email}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al reenviar el código');
+    } finally {
+      setReenviando(false);
+    }
+  };
+
+  return (
+    <Alert className="mb-6 border-amber-200 bg-amber-50">
+      <AlertDescription className="space-y-3 text-amber-900">
+        <p className="flex items-start gap-2">
+          <MailCheck className="mt-0.5 h-4 w-4 flex-shrink-0" />
+          <span>
+            <strong>Confirma tu email para publicar tu tienda.</strong> Ingresa el código que enviamos a{' '}
+            {usuario.email}. Mientras tanto tu catálogo no es visible para tus clientes.
+          </span>
+        </p>
+        <form onSubmit={verificar} className="flex flex-wrap items-center gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            placeholder="123456"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            className="max-w-36 bg-white text-center font-mono tracking-widest"
+            aria-label="Código de verificación"
+          />
+          <Button type="submit" size="sm" disabled={verificando || code.length !== 6} className="gap-2">
+            {verificando && <Loader2 className="h-4 w-4 animate-spin" />}
+            Verificar
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={reenviar}
+            disabled={reenviando || espera > 0}
+          >
+            {espera > 0 ? `Reenviar en ${espera} s` : 'Reenviar código'}
+          </Button>
+        </form>
+        {aviso && !error && <p className="text-sm text-amber-800">{aviso}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,576 @@
+// src/components/admin/WebhooksTienda.tsx
+/**
+ * @fileoverview Webhooks salientes de la tienda en Configuración
+ * Registro de URLs por evento, secreto de firma, evento de prueba
+ * y registro de entregas con sus códigos de respuesta
+ * @module WebhooksTienda
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Webhook as WebhookIcon,
+  Plus,
+  Pencil,
+  Trash2,
+  Pause,
+  Play,
+  Send,
+  Copy,
+  Check,
+  Eye,
+  EyeOff,
+  RefreshCw,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import api from '@/lib/api';
+import type { EntregaWebhook, EstadoEntregaWebhook, EventoWebhook, Webhook } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Descripción visible de cada evento
+ * @constant
+ */
+const NOMBRES_EVENTO: Record<string, string> = {
+  'producto.creado': 'Producto creado',
+  'producto.actualizado': 'Producto actualizado',
+  'producto.eliminado': 'Producto eliminado',
+  'producto.stock': 'Cambio de stock',
+  'tienda.actualizada': 'Tienda actualizada',
+  'whatsapp.click': 'Click en WhatsApp',
+  'webhook.prueba': 'Prueba',
+};
+
+/**
+ * Estilo y texto de cada estado de entrega
+ * @constant
+ */
+const ESTADOS_ENTREGA: Record<EstadoEntregaWebhook, { texto: string; clase: string }> = {
+  exitosa: { texto: 'Exitosa', clase: 'bg-green-100 text-green-700' },
+  pendiente: { texto: 'Reintentando', clase: 'bg-amber-100 text-amber-700' },
+  fallida: { texto: 'Fallida', clase: 'bg-red-100 text-red-700' },
+};
+
+/**
+ * Formulario vacío para un webhook nuevo
+ * @constant
+ */
+const FORMULARIO_VACIO = { url: '', descripcion: '', eventos: [] as EventoWebhook[] };
+
+/**
+ * Fecha y hora corta (ej: "5 mar, 14:32")
+ * @private
+ */
+const fechaHora = (fecha: string) =>
+  new Date(fecha).toLocaleString('es-PE', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// ===================================
+// SUBCOMPONENTES
+// ===================================
+
+/**
+ * Etiqueta del estado de una entrega
+ * @private
+ */
+function EstadoEntrega({ estado }: { estado: EstadoEntregaWebhook }) {
+  const { texto, clase } = ESTADOS_ENTREGA[estado];
+  return <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium', clase)}>{texto}</span>;
+}
+
+/**
+ * Formulario para crear o editar un webhook
+ * @private
+ */
+function FormularioWebhook({
+  inicial,
+  eventos,
+  onGuardar,
+  onCancelar,
+}: {
+  inicial: typeof FORMULARIO_VACIO;
+  eventos: EventoWebhook[];
+  onGuardar: (datos: typeof FORMULARIO_VACIO) => Promise<void>;
+  onCancelar: () => void;
+}) {
+  const [datos, setDatos] = useState(inicial);
+  const [guardando, setGuardando] = useState(false);
+
+  const alternarEvento = (evento: EventoWebhook) =>
+    setDatos((actual) => ({
+      ...actual,
+      eventos: actual.eventos.includes(evento)
+        ? actual.eventos.filter((e) => e !== evento)
+        : [...actual.eventos, evento],
+    }));
+
+  const guardar = async () => {
+    setGuardando(true);
+    try {
+      await onGuardar(datos);
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border-2 border-pink-100 bg-pink-50/40 p-4">
+      <div>
+        <label htmlFor="webhook-url" className="text-sm font-medium text-slate-700">
+          URL que recibirá los eventos
+        </label>
+        <Input
+          id="webhook-url"
+          type="url"
+          value={datos.url}
+          onChange={(e) => setDatos({ ...datos, url: e.target.value })}
+          placeholder="https://hooks.ejemplo.com/nilhub"
+          maxLength={500}
+          className="mt-1 bg-white"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="webhook-descripcion" className="text-sm font-medium text-slate-700">
+          Descripción (opcional)
+        </label>
+        <Input
+          id="webhook-descripcion"
+          value={datos.descripcion}
+          onChange={(e) => setDatos({ ...datos, descripcion: e.target.value })}
+          placeholder="Ej: Hoja de inventario"
+          maxLength={100}
+          className="mt-1 bg-white"
+        />
+      </div>
+
+      <fieldset>
+        <legend className="text-sm font-medium text-slate-700">Eventos</legend>
+        <div className="mt-2 grid gap-2 sm:grid-cols-2">
+          {eventos.map((evento) => (
+            <label key={evento} className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={datos.eventos.includes(evento)}
+                onChange={() => alternarEvento(evento)}
+                className="h-4 w-4 accent-pink-500"
+              />
+              {NOMBRES_EVENTO[evento] || evento}
+              <code className="text-xs text-slate-400">{evento}</code>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancelar} disabled={guardando}>
+          Cancelar
+        </Button>
+        <Button
+          type="button"
+          onClick={guardar}
+          disabled={guardando || !datos.url.trim() || datos.eventos.length === 0}
+          className="bg-gradient-to-r from-pink-500 to-purple-500 text-white"
+        >
+          {guardando && <Loader2 className="h-4 w-4 animate-spin" />}
+          Guardar
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Registro de entregas de un webhook con cada intento
+ * @private
+ */
+function RegistroEntregas({ entregas }: { entregas: EntregaWebhook[] | undefined }) {
+  if (!entregas) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (entregas.length === 0) {
+    return <p className="py-4 text-center text-sm text-slate-500">Todavía no hay entregas</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs text-slate-500">
+            <th className="py-2 pr-3 font-medium">Fecha</th>
+            <th className="py-2 pr-3 font-medium">Evento</th>
+            <th className="py-2 pr-3 font-medium">Estado</th>
+            <th className="py-2 pr-3 font-medium">Respuesta</th>
+            <th className="py-2 font-medium text-right">Intentos</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entregas.map((entrega) => {
+            const ultimo = entrega.intentos[entrega.intentos.length - 1];
+            return (
+              <tr key={entrega._id} className="border-b last:border-0 align-top">
+                <td className="py-2 pr-3 whitespace-nowrap text-slate-600">{fechaHora(entrega.createdAt)}</td>
+                <td className="py-2 pr-3 text-slate-900">{NOMBRES_EVENTO[entrega.evento] || entrega.evento}</td>
+                <td className="py-2 pr-3">
+                  <EstadoEntrega estado={entrega.estado} />
+                  {entrega.estado === 'pendiente' && entrega.proximo_intento && (
+                    <p className="mt-1 text-xs text-slate-500">Próximo: {fechaHora(entrega.proximo_intento)}</p>
+                  )}
+                </td>
+                <td className="py-2 pr-3 text-slate-600">
+                  {ultimo ? (
+                    <>
+                      {ultimo.codigo && <span className="font-mono">{ultimo.codigo}</span>}
+                      {ultimo.error && <p className="text-xs text-red-600">{ultimo.error}</p>}
+                      <p className="text-xs text-slate-400">{ultimo.duracion_ms} ms</p>
+                    </>
+                  ) : (
+                    '—'
+                  )}
+                </td>
+                <td className="py-2 text-right text-slate-600">{entrega.intentos.length}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Sección de webhooks de Configuración
+ *
+ * Cada evento suscrito se envía como POST JSON firmado con el secreto del
+ * webhook (header X-NilHub-Firma). Los envíos fallidos se reintentan y
+ * quedan en el registro de entregas.
+ */
+export default function WebhooksTienda() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [eventos, setEventos] = useState<EventoWebhook[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState('');
+  const [aviso, setAviso] = useState('');
+  /** 'nuevo', el ID del webhook en edición o '' */
+  const [editando, setEditando] = useState('');
+  const [abierto, setAbierto] = useState('');
+  const [entregas, setEntregas] = useState<Record<string, EntregaWebhook[]>>({});
+  const [secretoVisible, setSecretoVisible] = useState('');
+  const [copiado, setCopiado] = useState('');
+  const [enviando, setEnviando] = useState('');
+
+  useEffect(() => {
+    api.webhooks.getMisWebhooks()
+      .then((datos) => {
+        setWebhooks(datos.webhooks);
+        setEventos(datos.eventos);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Error al cargar webhooks'))
+      .finally(() => setCargando(false));
+  }, []);
+
+  /** Reemplaza un webhook en la lista conservando su última entrega */
+  const reemplazar = (webhook: Webhook) =>
+    setWebhooks((actuales) =>
+      actuales.map((w) => (w._id === webhook._id ? { ...webhook, ultima_entrega: w.ultima_entrega } : w))
+    );
+
+  /** Ejecuta una acción mostrando su error, si lo hay */
+  const ejecutar = async (accion: () => Promise<void>) => {
+    setError('');
+    setAviso('');
+    try {
+      await accion();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error inesperado');
+    }
+  };
+
+  const cargarEntregas = (id: string) =>
+    ejecutar(async () => {
+      const lista = await api.webhooks.getEntregas(id);
+      setEntregas((actuales) => ({ ...actuales, [id]: lista }));
+    });
+
+  const alternarRegistro = (id: string) => {
+    if (abierto === id) {
+      setAbierto('');
+      return;
+    }
+    setAbierto(id);
+    cargarEntregas(id);
+  };
+
+  const guardar = (datos: typeof FORMULARIO_VACIO) =>
+    ejecutar(async () => {
+      if (editando === 'nuevo') {
+        const webhook = await api.webhooks.crear(datos);
+        setWebhooks((actuales) => [...actuales, webhook]);
+        setSecretoVisible(webhook._id);
+        setAviso('Webhook creado. Copia su secreto para verificar las firmas.');
+      } else {
+        reemplazar(await api.webhooks.actualizar(editando, datos));
+        setAviso('Webhook actualizado');
+      }
+      setEditando('');
+    });
+
+  const alternarActivo = (webhook: Webhook) =>
+    ejecutar(async () => {
+      reemplazar(await api.webhooks.actualizar(webhook._id, { activo: !webhook.activo }));
+    });
+
+  const eliminar = (webhook: Webhook) => {
+    if (!window.confirm(`¿Eliminar el webhook ${webhook.url}? Dejará de recibir eventos.`)) return;
+    ejecutar(async () => {
+      await api.webhooks.eliminar(webhook._id);
+      setWebhooks((actuales) => actuales.filter((w) => w._id !== webhook._id));
+    });
+  };
+
+  const regenerarSecreto = (webhook: Webhook) => {
+    if (!window.confirm('El secreto actual dejará de valer. ¿Generar uno nuevo?')) return;
+    ejecutar(async () => {
+      reemplazar(await api.webhooks.regenerarSecreto(webhook._id));
+      setSecretoVisible(webhook._id);
+    });
+  };
+
+  const copiarSecreto = async (webhook: Webhook) => {
+    try {
+      await navigator.clipboard.writeText(webhook.secreto);
+      setCopiado(webhook._id);
+      setTimeout(() => setCopiado((actual) => (actual === webhook._id ? '' : actual)), 2000);
+    } catch {
+      setError('No se pudo copiar el secreto. Selecciónalo y cópialo manualmente.');
+    }
+  };
+
+  const enviarPrueba = (webhook: Webhook) =>
+    ejecutar(async () => {
+      setEnviando(webhook._id);
+      try {
+        const entrega = await api.webhooks.enviarPrueba(webhook._id);
+        const intento = entrega.intentos[0];
+        if (entrega.estado === 'exitosa') {
+          setAviso(`Prueba entregada: tu servidor respondió ${intento?.codigo}`);
+        } else {
+          setError(`La prueba falló: ${intento?.error || 'sin respuesta'}. Se reintentará automáticamente.`);
+        }
+        setWebhooks((actuales) =>
+          actuales.map((w) =>
+            w._id === webhook._id ? { ...w, ultima_entrega: { estado: entrega.estado, fecha: entrega.createdAt } } : w
+          )
+        );
+        if (abierto === webhook._id) {
+          setEntregas((actuales) => ({ ...actuales, [webhook._id]: [entrega, ...(actuales[webhook._id] || [])] }));
+        }
+      } finally {
+        setEnviando('');
+      }
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <WebhookIcon className="h-5 w-5 text-pink-500" />
+          Webhooks
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Avisa a otros sistemas (inventario, hojas de cálculo, automatizaciones) cuando algo cambia en tu tienda
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {aviso && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="text-green-800">{aviso}</AlertDescription>
+          </Alert>
+        )}
+
+        {cargando ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-pink-500" />
+          </div>
+        ) : (
+          <>
+            {webhooks.length === 0 && editando !== 'nuevo' && (
+              <p className="py-4 text-center text-sm text-slate-500">Todavía no tienes webhooks</p>
+            )}
+
+            {webhooks.map((webhook) => (
+              <div key={webhook._id} className="rounded-lg border-2 border-slate-100 p-4 space-y-3">
+                {editando === webhook._id ? (
+                  <FormularioWebhook
+                    inicial={{ url: webhook.url, descripcion: webhook.descripcion || '', eventos: webhook.eventos }}
+                    eventos={eventos}
+                    onGuardar={guardar}
+                    onCancelar={() => setEditando('')}
+                  />
+                ) : (
+                  <>
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-mono text-sm text-slate-900 break-all">{webhook.url}</p>
+                        {webhook.descripcion && <p className="text-sm text-slate-500">{webhook.descripcion}</p>}
+                        <div className="mt-2 flex flex-wrap gap-1">
+                          {!webhook.activo && (
+                            <span className="rounded-full bg-slate-200 px-2 py-0.5 text-xs font-medium text-slate-700">
+                              Pausado
+                            </span>
+                          )}
+                          {webhook.eventos.map((evento) => (
+                            <span key={evento} className="rounded-full bg-pink-50 px-2 py-0.5 text-xs text-pink-700">
+                              {NOMBRES_EVENTO[evento] || evento}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button type="button" variant="ghost" size="icon-sm" title="Editar" onClick={() => setEditando(webhook._id)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon-sm"
+                          title={webhook.activo ? 'Pausar' : 'Reanudar'}
+                          onClick={() => alternarActivo(webhook)}
+                        >
+                          {webhook.activo ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon-sm" title="Eliminar" onClick={() => eliminar(webhook)}>
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {/* Secreto de firma */}
+                    <div className="flex gap-2">
+                      <Input
+                        value={secretoVisible === webhook._id ? webhook.secreto : '•'.repeat(32)}
+                        readOnly
+                        onFocus={(e) => e.target.select()}
+                        aria-label="Secreto de firma"
+                        className="font-mono text-xs"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        title={secretoVisible === webhook._id ? 'Ocultar secreto' : 'Ver secreto'}
+                        onClick={() => setSecretoVisible(secretoVisible === webhook._id ? '' : webhook._id)}
+                      >
+                        {secretoVisible === webhook._id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                      <Button type="button" variant="outline" size="icon" title="Copiar secreto" onClick={() => copiarSecreto(webhook)}>
+                        {copiado === webhook._id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                      </Button>
+                      <Button type="button" variant="outline" size="icon" title="Generar secreto nuevo" onClick={() => regenerarSecreto(webhook)}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => enviarPrueba(webhook)}
+                        disabled={enviando === webhook._id}
+                      >
+                        {enviando === webhook._id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                        Enviar evento de prueba
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => alternarRegistro(webhook._id)}>
+                        {abierto === webhook._id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        Registro de entregas
+                      </Button>
+                      {webhook.ultima_entrega && (
+                        <span className="ml-auto flex items-center gap-2 text-xs text-slate-500">
+                          Última: <EstadoEntrega estado={webhook.ultima_entrega.estado} />
+                          {fechaHora(webhook.ultima_entrega.fecha)}
+                        </span>
+                      )}
+                    </div>
+
+                    {abierto === webhook._id && (
+                      <div className="border-t pt-3">
+                        <div className="mb-2 flex justify-end">
+                          <Button type="button" variant="ghost" size="sm" onClick={() => cargarEntregas(webhook._id)}>
+                            <RefreshCw className="h-4 w-4" />
+                            Actualizar
+                          </Button>
+                        </div>
+                        <RegistroEntregas entregas={entregas[webhook._id]} />
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+
+            {editando === 'nuevo' ? (
+              <FormularioWebhook
+                inicial={FORMULARIO_VACIO}
+                eventos={eventos}
+                onGuardar={guardar}
+                onCancelar={() => setEditando('')}
+              />
+            ) : (
+              <Button type="button" variant="outline" onClick={() => setEditando('nuevo')} className="w-full gap-2">
+                <Plus className="h-4 w-4" />
+                Agregar webhook
+              </Button>
+            )}
+
+            {/* Cómo verificar la firma */}
+            <details className="rounded-lg bg-slate-50 p-4 text-sm text-slate-600">
+              <summary className="cursor-pointer font-medium text-slate-700">¿Cómo verifico que el evento viene de NilHub?</summary>
+              <div className="mt-3 space-y-2">
+                <p>
+                  Cada envío es un <code>POST</code> JSON con el header{' '}
+                  <code className="break-all">X-NilHub-Firma: t=&lt;timestamp&gt;,v1=&lt;firma&gt;</code>.
+                </p>
+                <p>
+                  Calcula <code>HMAC-SHA256(secreto, t + &quot;.&quot; + cuerpo)</code> en hexadecimal con el cuerpo
+                  tal como llegó y compáralo con <code>v1</code>. Rechaza los eventos con un <code>t</code> de hace
+                  más de 5 minutos.
+                </p>
+                <p>
+                  Responde con un código 2xx en menos de 10 segundos. Si no, reintentamos después de 1, 5, 30, 120 y
+                  360 minutos. El header <code>X-NilHub-Entrega</code> se repite en los reintentos: úsalo para no
+                  procesar un evento dos veces.
+                </p>
+              </div>
+            </details>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+// src/components/carrito/AgregarCarritoButton.tsx
+/**
+ * @fileoverview Botón para agregar un producto (o una variante) al carrito
+ * Se deshabilita sin stock, sin variante elegida o cuando el carrito ya tiene todo el stock
+ * @module AgregarCarritoButton
+ */
+
+'use client';
+
+import { ShoppingBag, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCarrito } from '@/contexts/CarritoContext';
+import { Producto, Variante } from '@/types';
+import { cn } from '@/lib/utils';
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Props del componente AgregarCarritoButton
+ * @interface AgregarCarritoButtonProps
+ */
+interface AgregarCarritoButtonProps {
+  /** Producto a agregar */
+  producto: Producto;
+  /** Variante elegida (obligatoria si el producto tiene variantes) */
+  variante?: Variante;
+  /** Unidades a agregar por click (por defecto 1) */
+  cantidad?: number;
+  /** Tamaño del botón */
+  size?: 'sm' | 'lg';
+  /** Clases CSS adicionales */
+  className?: string;
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Botón "Agregar al carrito"
+ *
+ * Puede usarse dentro de un Link (ProductCard): detiene la navegación
+ * para que el click solo agregue el producto.
+ *
+ * @param props - Props del componente
+ * @returns Botón renderizado
+ *
+ * @example
+ * <AgregarCarritoButton producto={producto} variante={variante} cantidad={2} size="lg" />
+ */
+export default function AgregarCarritoButton({
+  producto,
+  variante,
+  cantidad = 1,
+  size = 'sm',
+  className
+}: AgregarCarritoButtonProps) {
+  const { agregar, cantidadDe } = useCarrito();
+
+  const faltaVariante = Boolean(producto.variantes?.length) && !variante;
+  const stock = variante ? variante.stock : producto.stock;
+  const enCarrito = cantidadDe(producto._id, variante?._id);
+  const agotado = !producto.hay_stock || stock <= 0;
+  const limiteAlcanzado = enCarrito >= stock;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    agregar(producto, cantidad, variante);
+  };
+
+  return (
+    <Button
+      type="button"
+      onClick={handleClick}
+      disabled={faltaVariante || agotado || limiteAlcanzado}
+      className={cn(
+        "w-full gap-2 font-semibold",
+        "bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white",
+        "shadow-lg shadow-pink-500/30 transition-all duration-300",
+        size === 'lg' ? 'h-14 text-lg' : 'h-10 text-sm',
+        className
+      )}
+    >
+      {enCarrito > 0 ? <Check className="w-4 h-4" /> : <ShoppingBag className="w-4 h-4" />}
+      {faltaVariante
+        ? 'Elige una opción'
+        : agotado
+          ? 'Sin stock'
+          : limiteAlcanzado
+            ? 'Stock máximo en carrito'
+            : enCarrito > 0
+              ? `Agregar más (${enCarrito} en carrito)`
+              : 'Agregar al carrito'}
+    </Button>
+  );
+}
@@ -0,0 +1,363 @@
+// src/components/carrito/CarritoDrawer.tsx
+/**
+ * @fileoverview Panel lateral del carrito de compras
+ * Botón flotante con contador + panel con productos, cantidades y total.
+ * El pedido se registra en el backend y se envía en un solo mensaje de WhatsApp.
+ * @module CarritoDrawer
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { ShoppingBag, X, Minus, Plus, Trash2, Loader2, AlertCircle, Receipt } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import WhatsAppButton, { generarMensajePedido } from '@/components/common/WhatsAppButton';
+import { useCarrito, precioUnitario, claveItem } from '@/contexts/CarritoContext';
+import { Pedido, Tienda } from '@/types';
+import api from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Props del componente CarritoDrawer
+ * @interface CarritoDrawerProps
+ */
+interface CarritoDrawerProps {
+  /** Tienda dueña del carrito (nombre y WhatsApp) */
+  tienda: Tienda;
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Carrito de compras del catálogo público
+ *
+ * - Botón flotante (sobre el de WhatsApp) con la cantidad de unidades
+ * - Panel lateral con cada producto, controles de cantidad y subtotales
+ * - Respeta el stock de cada producto
+ * - Pide nombre y teléfono, registra el pedido y obtiene su código corto
+ * - Envía el pedido completo por WhatsApp y registra un click por producto
+ *
+ * @param props - Props del componente
+ * @returns Carrito renderizado (nada si está vacío y cerrado)
+ *
+ * @example
+ * <CarritoDrawer tienda={tienda} />
+ */
+export default function CarritoDrawer({ tienda }: CarritoDrawerProps) {
+  const {
+    items,
+    totalItems,
+    total,
+    abierto,
+    setAbierto,
+    actualizarCantidad,
+    quitar,
+    vaciar,
+    tiendaSlug
+  } = useCarrito();
+
+  /** Datos del comprador */
+  const [cliente, setCliente] = useState({ nombre: '', telefono: '' });
+  /** Pedido registrado (listo para enviar por WhatsApp) */
+  const [pedido, setPedido] = useState<Pedido | null>(null);
+  const [registrando, setRegistrando] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Si el carrito cambia, el pedido registrado ya no coincide
+   */
+  useEffect(() => {
+    setPedido(null);
+  }, [items]);
+
+  /**
+   * Registra el pedido en el backend para obtener su código
+   * @private
+   */
+  const handleRegistrarPedido = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setRegistrando(true);
+
+    try {
+      const response = await api.pedidos.crear({
+        tienda_slug: tiendaSlug,
+        cliente_nombre: cliente.nombre.trim(),
+        cliente_telefono: cliente.telefono.replace(/\D/g, ''),
+        items: items.map((item) => ({
+          producto_id: item.producto_id,
+          variante_id: item.variante_id,
+          cantidad: item.cantidad
+        }))
+      });
+
+      if (response.success) {
+        setPedido(response.data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al registrar el pedido');
+    } finally {
+      setRegistrando(false);
+    }
+  };
+
+  /**
+   * Registra un click de WhatsApp por cada producto del pedido
+   * y vacía el carrito. No bloquea la apertura de WhatsApp.
+   * @private
+   */
+  const handleEnviarPedido = () => {
+    items.forEach((item) => {
+      api.productos.clickWhatsApp(item.producto_id);
+    });
+    vaciar();
+    setAbierto(false);
+  };
+
+  if (totalItems === 0 && !abierto) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* ===================================
+          BOTÓN FLOTANTE
+          =================================== */}
+      {totalItems > 0 && (
+        <button
+          type="button"
+          onClick={() => setAbierto(true)}
+          className={cn(
+            "fixed bottom-24 right-6 z-50",
+            "h-14 w-14 rounded-full flex items-center justify-center",
+            "bg-gradient-to-r from-pink-500 to-purple-600 text-white",
+            "shadow-2xl shadow-pink-500/50 hover:scale-110 active:scale-95 transition-all duration-300",
+            "animate-in slide-in-from-bottom-8 duration-500"
+          )}
+          aria-label="Ver carrito"
+        >
+          <ShoppingBag className="w-6 h-6" />
+          <span className="absolute -top-1 -right-1 min-w-6 h-6 px-1.5 rounded-full bg-white text-pink-600 text-xs font-bold flex items-center justify-center shadow-md">
+            {totalItems}
+          </span>
+        </button>
+      )}
+
+      {/* ===================================
+          PANEL LATERAL
+          =================================== */}
+      {abierto && (
+        <div className="fixed inset-0 z-[60] flex justify-end">
+          {/* Overlay */}
+          <div
+            className="absolute inset-0 bg-black/40 backdrop-blur-sm animate-in fade-in duration-300"
+            onClick={() => setAbierto(false)}
+          />
+
+          <aside className="relative w-full max-w-md h-full bg-white/95 backdrop-blur-xl shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+            {/* Header */}
+            <div className="flex items-center justify-between p-6 border-b border-slate-200">
+              <div className="flex items-center gap-3">
+                <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-pink-500 to-purple-600 flex items-center justify-center">
+                  <ShoppingBag className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="font-bold text-slate-900">Tu pedido</h2>
+                  <p className="text-xs text-slate-500">
+                    {totalItems} unidad{totalItems === 1 ? '' : 'es'}
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setAbierto(false)} aria-label="Cerrar carrito">
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {/* Lista de productos */}
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              {items.length === 0 ? (
+                <div className="text-center py-16 space-y-3">
+                  <ShoppingBag className="w-12 h-12 text-slate-300 mx-auto" />
+                  <p className="text-slate-500">Tu carrito está vacío</p>
+                </div>
+              ) : (
+                items.map((item) => (
+                  <div
+                    key={claveItem(item)}
+                    className="flex gap-4 p-3 rounded-xl bg-white border-2 border-slate-100"
+                  >
+                    <div className="relative h-20 w-20 flex-shrink-0 rounded-lg overflow-hidden bg-slate-100">
+                      <Image
+                        src={item.imagen || '/placeholder-product.jpg'}
+                        alt={item.nombre}
+                        fill
+                        className="object-cover"
+                        sizes="80px"
+                      />
+                    </div>
+
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-slate-900 text-sm line-clamp-2">{item.nombre}</p>
+                          {item.variante_nombre && (
+                            <p className="text-xs text-slate-500">{item.variante_nombre}</p>
+                          )}
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => quitar(claveItem(item))}
+                          className="text-slate-400 hover:text-red-500 transition-colors"
+                          aria-label={`Quitar ${item.nombre}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-bold text-pink-600">
+                          S/ {precioUnitario(item).toFixed(2)}
+                        </span>
+                        {item.precio_oferta && (
+                          <span className="text-xs text-slate-400 line-through">
+                            S/ {item.precio.toFixed(2)}
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        {/* Controles de cantidad */}
+                        <div className="flex items-center gap-1 rounded-lg border-2 border-slate-200">
+                          <button
+                            type="button"
+                            onClick={() => actualizarCantidad(claveItem(item), item.cantidad - 1)}
+                            className="h-8 w-8 flex items-center justify-center text-slate-600 hover:text-slate-900"
+                            aria-label="Disminuir cantidad"
+                          >
+                            <Minus className="w-3 h-3" />
+                          </button>
+                          <span className="w-8 text-center text-sm font-semibold">{item.cantidad}</span>
+                          <button
+                            type="button"
+                            onClick={() => actualizarCantidad(claveItem(item), item.cantidad + 1)}
+                            disabled={item.cantidad >= item.stock}
+                            className="h-8 w-8 flex items-center justify-center text-slate-600 hover:text-slate-900 disabled:opacity-30"
+                            aria-label="Aumentar cantidad"
+                          >
+                            <Plus className="w-3 h-3" />
+                          </button>
+                        </div>
+
+                        {/* Subtotal */}
+                        <span className="text-sm font-bold text-slate-900">
+                          S/ {(precioUnitario(item) * item.cantidad).toFixed(2)}
+                        </span>
+                      </div>
+
+                      {item.cantidad >= item.stock && (
+                        <p className="text-xs text-amber-600">Máximo disponible: {item.stock}</p>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Footer con total y envío */}
+            {items.length > 0 && (
+              <div className="p-6 border-t border-slate-200 space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-600 font-medium">Total</span>
+                  <span className="text-2xl font-bold bg-gradient-to-r from-pink-600 to-purple-600 bg-clip-text text-transparent">
+                    S/ {total.toFixed(2)}
+                  </span>
+                </div>
+
+                {pedido ? (
+                  <>
+                    {/* Paso 2: enviar por WhatsApp con el código */}
+                    <div className="flex items-center gap-2 p-3 rounded-xl bg-green-50 border-2 border-green-100 text-sm text-green-800">
+                      <Receipt className="w-4 h-4 flex-shrink-0" />
+                      <span>
+                        Pedido <span className="font-bold">{pedido.codigo}</span> registrado.
+                        Envíalo para coordinar el pago y la entrega.
+                      </span>
+                    </div>
+
+                    <WhatsAppButton
+                      telefono={tienda.whatsapp}
+                      mensaje={generarMensajePedido(tienda.nombre, items, pedido)}
+                      variant="inline"
+                      size="lg"
+                      texto="Enviar pedido por WhatsApp"
+                      onClick={handleEnviarPedido}
+                    />
+                  </>
+                ) : (
+                  /* Paso 1: datos del comprador */
+                  <form onSubmit={handleRegistrarPedido} className="space-y-3">
+                    {error && (
+                      <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 border-2 border-red-100 text-sm text-red-800">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                        <span>{error}</span>
+                      </div>
+                    )}
+
+                    <Input
+                      placeholder="Tu nombre"
+                      value={cliente.nombre}
+                      onChange={(e) => setCliente({ ...cliente, nombre: e.target.value })}
+                      required
+                      minLength={2}
+                      className="h-11"
+                    />
+                    <Input
+                      type="tel"
+                      placeholder="Tu teléfono (ej: 51987654321)"
+                      value={cliente.telefono}
+                      onChange={(e) => setCliente({ ...cliente, telefono: e.target.value })}
+                      required
+                      pattern="[0-9 +]{6,20}"
+                      className="h-11"
+                    />
+
+                    <Button
+                      type="submit"
+                      disabled={registrando}
+                      className="w-full h-12 font-semibold bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white"
+                    >
+                      {registrando ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Registrando pedido...
+                        </>
+                      ) : (
+                        'Continuar'
+                      )}
+                    </Button>
+                  </form>
+                )}
+
+                <button
+                  type="button"
+                  onClick={vaciar}
+                  className="w-full text-sm text-slate-500 hover:text-red-500 transition-colors"
+                >
+                  Vaciar carrito
+                </button>
+              </div>
+            )}
+          </aside>
+        </div>
+      )}
+    </>
+  );
+}
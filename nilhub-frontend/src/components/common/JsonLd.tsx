@@ -0,0 +1,34 @@
+// src/components/common/JsonLd.tsx
+/**
+ * @fileoverview Datos estructurados schema.org para buscadores
+ * @module JsonLd
+ */
+
+/**
+ * Props del componente JsonLd
+ * @interface JsonLdProps
+ */
+interface JsonLdProps {
+  /** Objeto schema.org (ver lib/seo) */
+  data: object;
+}
+
+/**
+ * Script JSON-LD renderizado en el servidor
+ *
+ * Escapa "<" para que textos del vendedor no puedan cerrar el script.
+ *
+ * @param props - Props del componente
+ * @returns Etiqueta script con el JSON
+ *
+ * @example
+ * <JsonLd data={jsonLdProducto(producto, tienda)} />
+ */
+export default function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  );
+}
@@ -10,6 +10,7 @@
 import { MessageCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { ItemCarrito } from '@/types';
 
 // ===================================
 // TIPOS
@@ -30,6 +31,12 @@ interface WhatsAppButtonProps {
   variant?: 'floating' | 'inline';
   /** Tamaño del botón */
   size?: 'sm' | 'md' | 'lg';
+  /** Texto del botón (por defecto "Consultar") */
+  texto?: string;
+  /** Callback ejecutado antes de abrir WhatsApp (ej: analytics) */
+  onClick?: () => void;
+  /** Deshabilita el botón */
+  disabled?: boolean;
 }
 
 // ===================================
@@ -69,7 +76,10 @@ export default function WhatsAppButton({
   mensaje,
   className,
   variant = 'floating',
-  size = 'md'
+  size = 'md',
+  texto,
+  onClick,
+  disabled = false
 }: WhatsAppButtonProps) {
   
   /**
@@ -78,6 +88,8 @@ export default function WhatsAppButton({
    * @private
    */
   const abrirWhatsApp = () => {
+    onClick?.();
+
     // Limpiar el número (solo dígitos)
     const numeroLimpio = telefono.replace(/\D/g, '');
     
@@ -123,6 +135,7 @@ export default function WhatsAppButton({
       )}>
         <Button
           onClick={abrirWhatsApp}
+          disabled={disabled}
           className={cn(
             "group relative overflow-hidden",
             "bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700",
@@ -143,7 +156,7 @@ export default function WhatsAppButton({
               "animate-bounce"
             )} />
             <span className="font-semibold hidden sm:inline">
-              Consultar
+              {texto || 'Consultar'}
             </span>
           </div>
 
@@ -174,6 +187,7 @@ export default function WhatsAppButton({
   return (
     <Button
       onClick={abrirWhatsApp}
+      disabled={disabled}
       className={cn(
         "group relative overflow-hidden w-full",
         "bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700",
@@ -188,7 +202,7 @@ export default function WhatsAppButton({
       <div className="relative flex items-center justify-center gap-2 w-full">
         <MessageCircle className={iconSize[size]} />
         <span className="font-semibold">
-          Consultar por WhatsApp
+          {texto || 'Consultar por WhatsApp'}
         </span>
       </div>
 
@@ -208,11 +222,13 @@ export default function WhatsAppButton({
  * Genera mensaje pre-formateado para un producto específico
  * 
  * Incluye nombre, precio y emoji. Si hay precio de oferta,
- * muestra el precio original tachado.
+ * muestra el precio original tachado. Si el cliente eligió una
+ * variante (tono, tamaño), la incluye para que el vendedor sepa cuál.
  * 
  * @param nombreProducto - Nombre del producto
  * @param precio - Precio regular
  * @param precioOferta - Precio de oferta (opcional)
+ * @param nombreVariante - Variante elegida (opcional)
  * @returns Mensaje formateado listo para WhatsApp
  * 
  * @example
@@ -225,16 +241,18 @@ export default function WhatsAppButton({
 export function generarMensajeProducto(
   nombreProducto: string,
   precio: number,
-  precioOferta?: number
+  precioOferta?: number,
+  nombreVariante?: string
 ): string {
   const precioFinal = precioOferta || precio;
   const textoDescuento = precioOferta 
     ? `\n~~S/ ${precio.toFixed(2)}~~ → *S/ ${precioOferta.toFixed(2)}*`
     : `\nPrecio: *S/ ${precio.toFixed(2)}*`;
+  const textoVariante = nombreVariante ? `\nOpción: *${nombreVariante}*` : '';
 
   return `¡Hola! 👋 Me interesa este producto:
 
-*${nombreProducto}*${textoDescuento}
+*${nombreProducto}*${textoVariante}${textoDescuento}
 
 ¿Está disponible? 🛍️`;
 }
@@ -256,4 +274,62 @@ export function generarMensajeGeneral(nombreTienda: string): string {
   return `¡Hola *${nombreTienda}*! 👋
 
 Vi tu catálogo y me gustaría hacer una consulta. ¿Podrías ayudarme? 🛍️`;
-}
\ No newline at end of file
+}
+/**
+ * Genera el mensaje de pedido con todos los productos del carrito
+ * 
+ * Lista cada producto con cantidad, precio unitario (oferta si aplica)
+ * y subtotal, y cierra con el total del pedido.
+ * 
+ * Si se pasa el pedido registrado, incluye su código corto y el nombre
+ * del comprador para que el vendedor lo ubique en su panel.
+ * 
+ * @param nombreTienda - Nombre de la tienda
+ * @param items - Líneas del carrito
+ * @param pedido - Pedido registrado (opcional)
+ * @returns Mensaje formateado listo para WhatsApp
+ * 
+ * @example
+ * generarMensajePedido('Cosméticos Mary', [
+ *   { nombre: 'Labial Rosa', variante_nombre: 'Rojo Pasión', precio: 25, precio_oferta: 20, cantidad: 2, ... }
+ * ], { codigo: 'NH-7K3Q9', cliente_nombre: 'Ana' })
+ * // → "¡Hola *Cosméticos Mary*! 👋 Quiero hacer este pedido:
+ * //    🧾 Pedido *NH-7K3Q9* - Ana
+ * //    1. *Labial Rosa* - Rojo Pasión
+ * //       2 x S/ 20.00 = S/ 40.00
+ * //    *Total: S/ 40.00*
+ * //    ¿Está disponible? 🛍️"
+ */
+export function generarMensajePedido(
+  nombreTienda: string,
+  items: ItemCarrito[],
+  pedido?: { codigo: string; cliente_nombre?: string }
+): string {
+  const lineas = items.map((item, index) => {
+    const precioFinal = item.precio_oferta || item.precio;
+    const subtotal = precioFinal * item.cantidad;
+    const textoOferta = item.precio_oferta ? ` (antes S/ ${item.precio.toFixed(2)})` : '';
+
+    const textoVariante = item.variante_nombre ? ` - ${item.variante_nombre}` : '';
+
+    return `${index + 1}. *${item.nombre}*${textoVariante}
+   ${item.cantidad} x S/ ${precioFinal.toFixed(2)}${textoOferta} = S/ ${subtotal.toFixed(2)}`;
+  });
+
+  const total = items.reduce(
+    (suma, item) => suma + (item.precio_oferta || item.precio) * item.cantidad,
+    0
+  );
+
+  const textoPedido = pedido
+    ? `\n🧾 Pedido *${pedido.codigo}*${pedido.cliente_nombre ? ` - ${pedido.cliente_nombre}` : ''}\n`
+    : '';
+
+  return `¡Hola *${nombreTienda}*! 👋 Quiero hacer este pedido:
+${textoPedido}
+${lineas.join('\n')}
+
+*Total: S/ ${total.toFixed(2)}*
+
+¿Está disponible? 🛍️`;
+}
@@ -21,7 +21,11 @@ import {
   Sparkles,
   Users,
   ShoppingBag,
-  Shield
+  Shield,
+  Receipt,
+  Tags,
+  Link2,
+  ShieldCheck
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -45,11 +49,31 @@ const menuItemsVendedor = [
     href: '/admin/productos',
     icon: Package,
   },
+  {
+    title: 'Pedidos',
+    href: '/admin/pedidos',
+    icon: Receipt,
+  },
+  {
+    title: 'Categorías',
+    href: '/admin/categorias',
+    icon: Tags,
+  },
+  {
+    title: 'Enlaces',
+    href: '/admin/enlaces',
+    icon: Link2,
+  },
   {
     title: 'Configuración',
     href: '/admin/configuracion',
     icon: Settings,
   },
+  {
+    title: 'Seguridad',
+    href: '/admin/seguridad',
+    icon: ShieldCheck,
+  },
 ];
 
 /**
@@ -78,6 +102,11 @@ const menuItemsAdmin = [
     href: '/admin/productos',
     icon: ShoppingBag,
   },
+  {
+    title: 'Seguridad',
+    href: '/admin/seguridad',
+    icon: ShieldCheck,
+  },
 ];
 
 // ===================================
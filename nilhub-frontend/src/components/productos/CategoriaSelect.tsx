@@ -0,0 +1,90 @@
+// src/components/productos/CategoriaSelect.tsx
+/**
+ * @fileoverview Selector de categoría para los formularios de producto
+ * Carga las categorías de la tienda del vendedor desde la API
+ * @module CategoriaSelect
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Settings2 } from 'lucide-react';
+import { Categoria } from '@/types';
+import { ordenarCategorias } from '@/components/tienda/CategoryFilter';
+import api from '@/lib/api';
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Props del componente CategoriaSelect
+ * @interface CategoriaSelectProps
+ */
+interface CategoriaSelectProps {
+  /** Slug de la categoría elegida */
+  value: string;
+  /** Mismo handler que el resto de campos del formulario */
+  onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  /** Nombre e id del campo */
+  name?: string;
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Select de categorías de la tienda
+ *
+ * - Subcategorías listadas debajo de su padre
+ * - Link a la gestión de categorías
+ *
+ * @param props - Props del componente
+ * @returns Select renderizado
+ *
+ * @example
+ * <CategoriaSelect value={formData.categoria} onChange={handleChange} />
+ */
+export default function CategoriaSelect({ value, onChange, name = 'categoria' }: CategoriaSelectProps) {
+  const [categorias, setCategorias] = useState<Categoria[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    api.categorias.getMisCategorias()
+      .then((response) => setCategorias(response.data || []))
+      .catch((err) => console.error('Error al cargar categorías:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <div className="space-y-1">
+      <select
+        id={name}
+        name={name}
+        value={value}
+        onChange={onChange}
+        required
+        disabled={loading}
+        className="w-full h-11 px-3 rounded-md border border-slate-200 bg-white focus:border-pink-400 focus:ring-4 focus:ring-pink-500/10 outline-none transition-all"
+      >
+        <option value="">
+          {loading ? 'Cargando categorías...' : 'Selecciona una categoría'}
+        </option>
+        {ordenarCategorias(categorias).map((categoria) => (
+          <option key={categoria._id} value={categoria.slug}>
+            {categoria.padre_id ? `— ${categoria.nombre}` : categoria.nombre}
+          </option>
+        ))}
+      </select>
+      <Link
+        href="/admin/categorias"
+        className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-pink-600 transition-colors"
+      >
+        <Settings2 className="h-3 w-3" />
+        Gestionar categorías
+      </Link>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Eye, MessageCircle, Sparkles } from 'lucide-react';
 import { Producto } from '@/types';
 import { cn } from '@/lib/utils';
+import AgregarCarritoButton from '@/components/carrito/AgregarCarritoButton';
 
 // ===================================
 // TIPOS
@@ -30,6 +31,10 @@ interface ProductCardProps {
   tiendaSlug: string;
   /** Mostrar estadísticas de vistas y clicks (opcional) */
   showStats?: boolean;
+  /** Mostrar botón "Agregar al carrito" (requiere CarritoProvider) */
+  showCarrito?: boolean;
+  /** Nombre visible de la categoría (si no, se muestra el slug) */
+  categoriaNombre?: string;
 }
 
 // ===================================
@@ -57,14 +62,20 @@ interface ProductCardProps {
  *   producto={producto}
  *   tiendaSlug="cosmeticos-mary"
  *   showStats={false}
+ *   showCarrito
  * />
  */
 export default function ProductCard({ 
   producto, 
   tiendaSlug,
-  showStats = false 
+  showStats = false,
+  showCarrito = false,
+  categoriaNombre
 }: ProductCardProps) {
   
+  /** Variantes del producto (tonos, tamaños) */
+  const variantes = producto.variantes || [];
+
   /**
    * Calcula el porcentaje de descuento
    * @private
@@ -164,7 +175,7 @@ export default function ProductCard({
                 "bg-white/20 backdrop-blur-md border border-white/30",
                 getCategoriaColor(producto.categoria)
               )}>
-                {producto.categoria}
+                {categoriaNombre || producto.categoria}
               </Badge>
             </div>
 
@@ -238,10 +249,48 @@ export default function ProductCard({
               )}
             </div>
 
+            {/* Variantes disponibles (swatches de color) */}
+            {variantes.length > 0 && (
+              <div className="flex items-center gap-1.5">
+                {variantes.slice(0, 6).map((variante) => (
+                  <span
+                    key={variante._id}
+                    title={variante.nombre}
+                    className={cn(
+                      "h-4 w-4 rounded-full border border-slate-300",
+                      variante.stock <= 0 && "opacity-30"
+                    )}
+                    style={{ backgroundColor: variante.color || '#e2e8f0' }}
+                  />
+                ))}
+                <span className="text-xs text-slate-500 ml-1">
+                  {variantes.length} opcion{variantes.length === 1 ? '' : 'es'}
+                </span>
+              </div>
+            )}
+
+            {/* Agregar al carrito (siempre visible) */}
+            {showCarrito && (
+              <div className="pt-2">
+                {variantes.length > 0 ? (
+                  /* Con variantes se elige la opción en el detalle (el Link navega) */
+                  <div className="w-full h-10 rounded-md flex items-center justify-center gap-2 text-sm font-semibold border-2 border-pink-200 text-pink-600 hover:bg-pink-50 transition-colors">
+                    <Sparkles className="w-4 h-4" />
+                    Elegir opción
+                  </div>
+                ) : (
+                  <AgregarCarritoButton producto={producto} />
+                )}
+              </div>
+            )}
+
             {/* ===================================
                 BOTÓN DE ACCIÓN (aparece en hover)
                 =================================== */}
-            <div className="pt-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+            <div className={cn(
+              "pt-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300",
+              showCarrito && "hidden"
+            )}>
               <div className={cn(
                 "w-full py-2 px-4 rounded-lg text-center font-medium",
                 "bg-gradient-to-r from-pink-500 to-purple-600 text-white",
@@ -8,7 +8,7 @@
 'use client';
 
 import ProductCard from './ProductCard';
-import { Producto } from '@/types';
+import { Categoria, Producto } from '@/types';
 import { Package, Search } from 'lucide-react';
 
 // ===================================
@@ -22,12 +22,18 @@ import { Package, Search } from 'lucide-react';
 interface ProductGridProps {
   /** Array de productos a mostrar */
   productos: Producto[];
+  /** Total de productos si se muestra solo una parte (paginación) */
+  total?: number;
   /** Slug de la tienda (pasado a ProductCard) */
   tiendaSlug: string;
   /** Mostrar estadísticas en las cards (opcional) */
   showStats?: boolean;
+  /** Mostrar botón "Agregar al carrito" en las cards */
+  showCarrito?: boolean;
   /** Mensaje personalizado cuando no hay productos */
   emptyMessage?: string;
+  /** Categorías de la tienda (para mostrar su nombre en las cards) */
+  categorias?: Categoria[];
 }
 
 // ===================================
@@ -57,10 +63,16 @@ interface ProductGridProps {
  */
 export default function ProductGrid({ 
   productos, 
+  total,
   tiendaSlug,
   showStats = false,
-  emptyMessage = "No se encontraron productos"
+  showCarrito = false,
+  emptyMessage = "No se encontraron productos",
+  categorias = []
 }: ProductGridProps) {
+
+  /** Nombre de cada categoría por slug */
+  const nombreCategoria = new Map(categorias.map((c) => [c.slug, c.nombre]));
   
   // ===================================
   // ESTADO VACÍO
@@ -115,7 +127,9 @@ export default function ProductGrid({
       <div className="flex items-center gap-2 text-sm text-slate-600">
         <Package className="w-4 h-4" />
         <span className="font-medium">
-          {productos.length} {productos.length === 1 ? 'producto' : 'productos'}
+          {total !== undefined && total > productos.length
+            ? `${productos.length} de ${total} productos`
+            : `${productos.length} ${productos.length === 1 ? 'producto' : 'productos'}`}
         </span>
       </div>
 
@@ -127,6 +141,8 @@ export default function ProductGrid({
             producto={producto}
             tiendaSlug={tiendaSlug}
             showStats={showStats}
+            showCarrito={showCarrito}
+            categoriaNombre={nombreCategoria.get(producto.categoria)}
           />
         ))}
       </div>
@@ -0,0 +1,383 @@
+// src/components/productos/ProductoDetalle.tsx
+/**
+ * @fileoverview Detalle interactivo de un producto (isla de cliente)
+ * Galería, variantes, precios, cantidad, carrito, WhatsApp y compartir.
+ * Los datos llegan ya cargados desde el servidor.
+ * @module ProductoDetalle
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Package, Sparkles, Info, Minus, Plus, Share2, Check } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import ProductGallery from '@/components/productos/ProductGallery';
+import VariantePicker from '@/components/productos/VariantePicker';
+import WhatsAppButton, { generarMensajeProducto } from '@/components/common/WhatsAppButton';
+import AgregarCarritoButton from '@/components/carrito/AgregarCarritoButton';
+import { preciosDe } from '@/contexts/CarritoContext';
+import { Producto, Tienda, Variante } from '@/types';
+import api from '@/lib/api';
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Props del componente ProductoDetalle
+ * @interface ProductoDetalleProps
+ */
+interface ProductoDetalleProps {
+  /** Tienda dueña (WhatsApp) */
+  tienda: Tienda;
+  /** Producto a mostrar */
+  producto: Producto;
+  /** Nombre visible de la categoría (si no, se muestra el slug) */
+  categoriaNombre?: string;
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Detalle de un producto
+ *
+ * Muestra:
+ * - Galería de imágenes navegable
+ * - Nombre, marca, categoría
+ * - Precios (con descuento si aplica)
+ * - Selector de variantes (tono/tamaño) con precio, stock e imagen propios
+ * - Descripción detallada
+ * - Ingredientes y peso (si están disponibles)
+ * - Estado de stock
+ * - Selector de cantidad y botón "Agregar al carrito"
+ * - Botón de WhatsApp con mensaje pre-formateado (registra el click)
+ * - Registra la vista al mostrarse (el backend descarta bots y repetidas)
+ * - Botón para compartir (menú nativo o copiar enlace; se registra en la analítica)
+ *
+ * @param props - Props del componente
+ * @returns Galería e información del producto
+ *
+ * @example
+ * <ProductoDetalle tienda={tienda} producto={producto} categoriaNombre="Maquillaje" />
+ */
+export default function ProductoDetalle({
+  tienda,
+  producto,
+  categoriaNombre
+}: ProductoDetalleProps) {
+
+  // ===================================
+  // ESTADOS
+  // ===================================
+
+  /** Cantidad a agregar al carrito */
+  const [cantidad, setCantidad] = useState(1);
+  /** Variante elegida: se preselecciona la primera con stock */
+  const [varianteId, setVarianteId] = useState<string | undefined>(
+    () => producto.variantes?.find(v => v.stock > 0)?._id
+  );
+  /** Se copió el enlace (navegadores sin menú para compartir) */
+  const [enlaceCopiado, setEnlaceCopiado] = useState(false);
+
+  // ===================================
+  // EFECTOS
+  // ===================================
+
+  /**
+   * Registra la vista del producto
+   * Desde el navegador, así no cuentan los crawlers ni el render del servidor
+   */
+  useEffect(() => {
+    api.productos.registrarVista(producto._id);
+  }, [producto._id]);
+
+  // ===================================
+  // HANDLERS
+  // ===================================
+  
+  /**
+   * Registra el click en WhatsApp para analytics
+   * Se ejecuta antes de abrir WhatsApp
+   * @private
+   */
+  const handleWhatsAppClick = async () => {
+    try {
+      await api.productos.clickWhatsApp(producto._id);
+    } catch (error) {
+      console.error('Error al registrar click:', error);
+      // No interrumpir el flujo aunque falle el analytics
+    }
+  };
+
+  /**
+   * Comparte el producto con el menú nativo o copia el enlace
+   * Solo se registra si el visitante compartió (cancelar el menú no cuenta)
+   * @private
+   */
+  const handleCompartir = async () => {
+    const url = window.location.href;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: producto.nombre, text: `${producto.nombre} en ${tienda.nombre}`, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setEnlaceCopiado(true);
+        setTimeout(() => setEnlaceCopiado(false), 2000);
+      }
+    } catch {
+      return;
+    }
+
+    api.tiendas.registrarEvento(tienda.slug, { tipo: 'compartir', producto_id: producto._id });
+  };
+
+  // ===================================
+  // CÁLCULOS
+  // ===================================
+  
+  /** Variantes del producto y la elegida */
+  const variantes = producto.variantes || [];
+  const variante = variantes.find(v => v._id === varianteId);
+
+  /** Precio y stock de la variante elegida (o del producto) */
+  const precios = preciosDe(producto, variante);
+  const stockDisponible = variante ? variante.stock : producto.stock;
+
+  /** Imágenes: la de la variante elegida va primero */
+  const imagenesGaleria = variante?.imagen?.url
+    ? [variante.imagen, ...producto.imagenes.filter(img => img.url !== variante.imagen?.url)]
+    : producto.imagenes;
+
+  /** Porcentaje de descuento si hay precio de oferta */
+  const descuento = precios.precio_oferta 
+    ? Math.round(((precios.precio - precios.precio_oferta) / precios.precio) * 100)
+    : 0;
+
+  /** Mensaje pre-formateado para WhatsApp (incluye la variante elegida) */
+  const mensajeWhatsApp = generarMensajeProducto(
+    producto.nombre,
+    precios.precio,
+    precios.precio_oferta,
+    variante ? [variante.nombre, variante.talla].filter(Boolean).join(' • ') : undefined
+  );
+
+  /**
+   * Cambia la variante elegida y ajusta la cantidad a su stock
+   * @private
+   */
+  const handleSeleccionarVariante = (nueva: Variante) => {
+    setVarianteId(nueva._id);
+    setCantidad((actual) => Math.max(1, Math.min(actual, nueva.stock)));
+  };
+
+  // ===================================
+  // RENDER
+  // ===================================
+  
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12">
+      
+      {/* ===================================
+          COLUMNA IZQUIERDA: GALERÍA
+          =================================== */}
+      <div>
+        <ProductGallery 
+          key={variante?._id}
+          imagenes={imagenesGaleria}
+          nombreProducto={producto.nombre}
+        />
+      </div>
+
+      {/* ===================================
+          COLUMNA DERECHA: INFORMACIÓN
+          =================================== */}
+      <div className="space-y-6">
+        
+        {/* Marca */}
+        {producto.marca && (
+          <p className="text-sm font-semibold text-slate-500 uppercase tracking-wider">
+            {producto.marca}
+          </p>
+        )}
+
+        {/* Nombre del producto */}
+        <h1 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-slate-900 via-slate-800 to-slate-900 bg-clip-text text-transparent">
+          {producto.nombre}
+        </h1>
+
+        {/* Badges: Categoría, Stock, Descuento */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge className="bg-gradient-to-r from-pink-500 to-purple-600 text-white border-0">
+            {categoriaNombre || producto.categoria}
+          </Badge>
+          
+          {producto.hay_stock ? (
+            <Badge variant="default" className="bg-green-500 hover:bg-green-600">
+              ✓ Disponible {stockDisponible > 0 && `(${stockDisponible} unidades)`}
+            </Badge>
+          ) : (
+            <Badge variant="secondary">
+              Sin stock
+            </Badge>
+          )}
+
+          {descuento > 0 && (
+            <Badge className="bg-red-500 text-white border-0 font-bold">
+              -{descuento}% OFF
+            </Badge>
+          )}
+        </div>
+
+        {/* ===================================
+            PRECIOS
+            =================================== */}
+        <div className="flex items-end gap-3">
+          {precios.precio_oferta ? (
+            <>
+              {/* Precio con descuento */}
+              <span className="text-4xl font-bold bg-gradient-to-r from-pink-600 to-purple-600 bg-clip-text text-transparent">
+                S/ {precios.precio_oferta.toFixed(2)}
+              </span>
+              {/* Precio original tachado */}
+              <span className="text-xl text-slate-400 line-through pb-1">
+                S/ {precios.precio.toFixed(2)}
+              </span>
+            </>
+          ) : (
+            /* Precio normal */
+            <span className="text-4xl font-bold text-slate-900">
+              S/ {precios.precio.toFixed(2)}
+            </span>
+          )}
+        </div>
+
+        {/* ===================================
+            VARIANTES (tono / tamaño)
+            =================================== */}
+        {variantes.length > 0 && (
+          <VariantePicker
+            variantes={variantes}
+            seleccionadaId={variante?._id}
+            onSeleccionar={handleSeleccionarVariante}
+          />
+        )}
+
+        {/* ===================================
+            DESCRIPCIÓN
+            =================================== */}
+        {producto.descripcion && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+              <Info className="w-4 h-4" />
+              Descripción
+            </h3>
+            <p className="text-base text-slate-600 leading-relaxed">
+              {producto.descripcion}
+            </p>
+          </div>
+        )}
+
+        {/* ===================================
+            DETALLES ADICIONALES
+            =================================== */}
+        {(producto.ingredientes || producto.peso) && (
+          <Card className="bg-white/60 backdrop-blur-md border-2 border-white/30">
+            <CardContent className="p-6 space-y-4">
+              
+              {/* Ingredientes */}
+              {producto.ingredientes && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+                    <Sparkles className="w-4 h-4" />
+                    Ingredientes
+                  </h4>
+                  <p className="text-sm text-slate-600 leading-relaxed">
+                    {producto.ingredientes}
+                  </p>
+                </div>
+              )}
+
+              {/* Peso/Contenido */}
+              {producto.peso && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+                    <Package className="w-4 h-4" />
+                    Contenido
+                  </h4>
+                  <p className="text-sm text-slate-600">
+                    {producto.peso}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* ===================================
+            CARRITO
+            =================================== */}
+        {producto.hay_stock && (
+          <div className="flex items-center gap-3">
+            {/* Selector de cantidad (limitado al stock) */}
+            <div className="flex items-center rounded-xl border-2 border-slate-200 bg-white/60 h-14">
+              <button
+                type="button"
+                onClick={() => setCantidad((actual) => Math.max(1, actual - 1))}
+                className="h-full w-12 flex items-center justify-center text-slate-600 hover:text-slate-900"
+                aria-label="Disminuir cantidad"
+              >
+                <Minus className="w-4 h-4" />
+              </button>
+              <span className="w-10 text-center font-semibold">{cantidad}</span>
+              <button
+                type="button"
+                onClick={() => setCantidad((actual) => Math.min(stockDisponible, actual + 1))}
+                disabled={cantidad >= stockDisponible}
+                className="h-full w-12 flex items-center justify-center text-slate-600 hover:text-slate-900 disabled:opacity-30"
+                aria-label="Aumentar cantidad"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+
+            <AgregarCarritoButton
+              producto={producto}
+              variante={variante}
+              cantidad={cantidad}
+              size="lg"
+              className="flex-1"
+            />
+          </div>
+        )}
+
+        {/* ===================================
+            BOTÓN DE WHATSAPP
+            =================================== */}
+        <WhatsAppButton 
+          telefono={tienda.whatsapp}
+          mensaje={mensajeWhatsApp}
+          variant="inline"
+          size="lg"
+          onClick={handleWhatsAppClick}
+        />
+
+        <Button variant="outline" size="lg" className="w-full" onClick={handleCompartir}>
+          {enlaceCopiado ? <Check className="w-4 h-4 mr-2" /> : <Share2 className="w-4 h-4 mr-2" />}
+          {enlaceCopiado ? '¡Enlace copiado!' : 'Compartir'}
+        </Button>
+
+        {/* Mensaje informativo */}
+        <div className="p-4 rounded-xl bg-blue-50 border-2 border-blue-100">
+          <p className="text-sm text-blue-800">
+            💬 <span className="font-semibold">¿Tienes dudas?</span> Consúltanos por WhatsApp y te responderemos al instante.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+// src/components/productos/VariantePicker.tsx
+/**
+ * @fileoverview Selector de variantes del catálogo público
+ * Swatches de color (o chips con el nombre) para elegir tono o tamaño
+ * @module VariantePicker
+ */
+
+'use client';
+
+import { Check } from 'lucide-react';
+import { Variante } from '@/types';
+import { cn } from '@/lib/utils';
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Props del componente VariantePicker
+ * @interface VariantePickerProps
+ */
+interface VariantePickerProps {
+  /** Variantes del producto */
+  variantes: Variante[];
+  /** ID de la variante seleccionada */
+  seleccionadaId?: string;
+  /** Callback al elegir una variante */
+  onSeleccionar: (variante: Variante) => void;
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Selector de variantes
+ *
+ * - Variantes con color: swatch circular con el color
+ * - Variantes sin color: chip con el nombre (y talla)
+ * - Variantes sin stock: tachadas y deshabilitadas
+ *
+ * @param props - Props del componente
+ * @returns Selector renderizado
+ *
+ * @example
+ * <VariantePicker
+ *   variantes={producto.variantes}
+ *   seleccionadaId={variante?._id}
+ *   onSeleccionar={(v) => setVarianteId(v._id)}
+ * />
+ */
+export default function VariantePicker({
+  variantes,
+  seleccionadaId,
+  onSeleccionar
+}: VariantePickerProps) {
+  const seleccionada = variantes.find((v) => v._id === seleccionadaId);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-semibold text-slate-700">
+        Opción:{' '}
+        <span className="font-normal text-slate-600">
+          {seleccionada
+            ? [seleccionada.nombre, seleccionada.talla].filter(Boolean).join(' • ')
+            : 'Elige una opción'}
+        </span>
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {variantes.map((variante) => {
+          const activa = variante._id === seleccionadaId;
+          const agotada = variante.stock <= 0;
+          const etiqueta = `${variante.nombre}${agotada ? ' (sin stock)' : ''}`;
+
+          return variante.color ? (
+            <button
+              key={variante._id}
+              type="button"
+              onClick={() => onSeleccionar(variante)}
+              disabled={agotada}
+              title={etiqueta}
+              aria-label={etiqueta}
+              aria-pressed={activa}
+              className={cn(
+                "relative h-10 w-10 rounded-full border-2 transition-all duration-200",
+                activa
+                  ? "border-pink-500 ring-4 ring-pink-500/20 scale-110"
+                  : "border-white shadow-md hover:scale-110",
+                agotada && "opacity-40 cursor-not-allowed hover:scale-100"
+              )}
+              style={{ backgroundColor: variante.color }}
+            >
+              {activa && (
+                <Check className="absolute inset-0 m-auto w-4 h-4 text-white drop-shadow" />
+              )}
+              {agotada && (
+                <span className="absolute inset-0 m-auto h-0.5 w-full bg-slate-500 rotate-45" />
+              )}
+            </button>
+          ) : (
+            <button
+              key={variante._id}
+              type="button"
+              onClick={() => onSeleccionar(variante)}
+              disabled={agotada}
+              aria-pressed={activa}
+              className={cn(
+                "px-4 h-10 rounded-xl border-2 text-sm font-medium transition-all duration-200",
+                activa
+                  ? "border-pink-500 bg-pink-50 text-pink-700"
+                  : "border-slate-200 bg-white/60 text-slate-700 hover:border-pink-300",
+                agotada && "opacity-40 line-through cursor-not-allowed hover:border-slate-200"
+              )}
+            >
+              {variante.talla ? `${variante.nombre} • ${variante.talla}` : variante.nombre}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
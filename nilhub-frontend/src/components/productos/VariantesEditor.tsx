@@ -0,0 +1,356 @@
+// src/components/productos/VariantesEditor.tsx
+/**
+ * @fileoverview Editor de variantes de producto (tonos, tamaños)
+ * Usado en los formularios de crear y editar producto del panel.
+ * Cada variante tiene nombre, color, talla, SKU, precio propio, stock e imagen.
+ * @module VariantesEditor
+ */
+
+'use client';
+
+import { Plus, Trash2, Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Variante } from '@/types';
+import { cn } from '@/lib/utils';
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Máximo de variantes por producto (igual que el backend)
+ * @constant
+ */
+export const MAX_VARIANTES = 30;
+
+/**
+ * Fila del editor (valores como string, igual que el resto del formulario)
+ * @interface VarianteForm
+ */
+export interface VarianteForm {
+  /** ID existente (solo al editar) */
+  _id?: string;
+  nombre: string;
+  color: string;
+  /** Si la variante usa swatch de color */
+  usa_color: boolean;
+  talla: string;
+  sku: string;
+  precio: string;
+  stock: string;
+  /** URL de la imagen elegida entre las del producto ('' = ninguna) */
+  imagen: string;
+}
+
+/**
+ * Imagen del producto disponible para asignar a una variante
+ * @interface ImagenOpcion
+ */
+interface ImagenOpcion {
+  /** URL (de Cloudinary o preview local) */
+  url: string;
+  /** Etiqueta visible (ej: "Principal", "#2") */
+  label: string;
+}
+
+/**
+ * Props del componente VariantesEditor
+ * @interface VariantesEditorProps
+ */
+interface VariantesEditorProps {
+  /** Filas actuales */
+  variantes: VarianteForm[];
+  /** Callback con las filas actualizadas */
+  onChange: (variantes: VarianteForm[]) => void;
+  /** URLs de las imágenes del producto, en orden */
+  imagenes: string[];
+}
+
+// ===================================
+// HELPERS
+// ===================================
+
+/**
+ * Fila vacía para agregar una variante nueva
+ * @private
+ */
+const varianteVacia = (): VarianteForm => ({
+  nombre: '',
+  color: '#e91e63',
+  usa_color: true,
+  talla: '',
+  sku: '',
+  precio: '',
+  stock: '0',
+  imagen: '',
+});
+
+/**
+ * Convierte las variantes de la API en filas del editor
+ *
+ * @param variantes - Variantes del producto
+ * @returns Filas para el formulario
+ *
+ * @example
+ * setVariantes(variantesAForm(producto.variantes));
+ */
+export function variantesAForm(variantes: Variante[] = []): VarianteForm[] {
+  return variantes.map((variante) => ({
+    _id: variante._id,
+    nombre: variante.nombre,
+    color: variante.color || '#e91e63',
+    usa_color: Boolean(variante.color),
+    talla: variante.talla || '',
+    sku: variante.sku || '',
+    precio: variante.precio?.toString() || '',
+    stock: variante.stock.toString(),
+    imagen: variante.imagen?.url || '',
+  }));
+}
+
+/**
+ * Valida las filas y las convierte al formato de la API
+ *
+ * La imagen de cada variante se resuelve con `resolverImagen`, que recibe
+ * la URL elegida (preview local o URL existente) y devuelve la imagen ya
+ * subida a Cloudinary. Si la imagen fue quitada del producto se descarta.
+ *
+ * @param filas - Filas del editor
+ * @param resolverImagen - Traduce una URL del formulario a la imagen subida
+ * @returns Variantes listas para enviar
+ * @throws Error con mensaje para el usuario si alguna fila es inválida
+ *
+ * @example
+ * const variantes = formAVariantes(filas, (url) => imagenesPorPreview.get(url));
+ */
+export function formAVariantes(
+  filas: VarianteForm[],
+  resolverImagen: (url: string) => Variante['imagen'] | undefined
+): Array<Omit<Variante, '_id'> & { _id?: string }> {
+  const skus = new Set<string>();
+
+  return filas.map((fila, index) => {
+    const numero = index + 1;
+    const nombre = fila.nombre.trim();
+    const sku = fila.sku.trim().toUpperCase();
+    const stock = parseInt(fila.stock);
+    const precio = fila.precio ? parseFloat(fila.precio) : undefined;
+
+    if (!nombre) {
+      throw new Error(`La variante #${numero} necesita un nombre`);
+    }
+    if (isNaN(stock) || stock < 0) {
+      throw new Error(`El stock de "${nombre}" debe ser 0 o más`);
+    }
+    if (precio !== undefined && (isNaN(precio) || precio <= 0)) {
+      throw new Error(`El precio de "${nombre}" debe ser mayor a 0`);
+    }
+    if (sku) {
+      if (skus.has(sku)) {
+        throw new Error(`El SKU ${sku} está repetido`);
+      }
+      skus.add(sku);
+    }
+
+    return {
+      _id: fila._id,
+      nombre,
+      color: fila.usa_color ? fila.color : undefined,
+      talla: fila.talla.trim() || undefined,
+      sku: sku || undefined,
+      precio,
+      stock,
+      imagen: fila.imagen ? resolverImagen(fila.imagen) : undefined,
+    };
+  });
+}
+
+/**
+ * Suma el stock de las filas (para mostrar el total del producto)
+ *
+ * @param filas - Filas del editor
+ * @returns Stock total
+ */
+export function stockTotal(filas: VarianteForm[]): number {
+  return filas.reduce((suma, fila) => suma + (parseInt(fila.stock) || 0), 0);
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Editor de variantes del producto
+ *
+ * - Agregar / quitar variantes (máximo 30)
+ * - Color con selector nativo (opcional) para el swatch del catálogo
+ * - Precio propio opcional (si está vacío se usa el del producto)
+ * - Imagen elegida entre las imágenes del producto
+ *
+ * Con variantes, el stock del producto es la suma de las variantes.
+ *
+ * @param props - Props del componente
+ * @returns Card con el editor
+ *
+ * @example
+ * <VariantesEditor
+ *   variantes={variantes}
+ *   onChange={setVariantes}
+ *   imagenes={imagenes.map(img => img.preview)}
+ * />
+ */
+export default function VariantesEditor({ variantes, onChange, imagenes }: VariantesEditorProps) {
+  const opcionesImagen: ImagenOpcion[] = imagenes.map((url, index) => ({
+    url,
+    label: index === 0 ? 'Principal' : `#${index + 1}`,
+  }));
+
+  const actualizar = (index: number, cambios: Partial<VarianteForm>) => {
+    onChange(variantes.map((fila, i) => (i === index ? { ...fila, ...cambios } : fila)));
+  };
+
+  const agregar = () => {
+    if (variantes.length >= MAX_VARIANTES) return;
+    onChange([...variantes, varianteVacia()]);
+  };
+
+  const quitar = (index: number) => {
+    onChange(variantes.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-pink-600" />
+            Variantes
+            <Badge variant="outline" className="text-xs">
+              Opcional
+            </Badge>
+          </span>
+          {variantes.length > 0 && (
+            <Badge variant="outline">
+              {variantes.length}/{MAX_VARIANTES} • {stockTotal(variantes)} unidades
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-slate-600">
+          Agrega tonos o tamaños con su propio stock. Si una variante no tiene precio,
+          se usa el precio del producto.
+        </p>
+
+        {variantes.map((fila, index) => (
+          <div
+            key={fila._id || index}
+            className="p-4 rounded-lg border-2 border-slate-200 space-y-3"
+          >
+            <div className="flex items-center gap-3">
+              {/* Color del swatch */}
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={fila.color}
+                  onChange={(e) => actualizar(index, { color: e.target.value, usa_color: true })}
+                  disabled={!fila.usa_color}
+                  className={cn(
+                    "h-10 w-10 rounded-md border border-slate-200 cursor-pointer",
+                    !fila.usa_color && "opacity-30 cursor-not-allowed"
+                  )}
+                  aria-label="Color de la variante"
+                />
+                <label className="flex items-center gap-1 text-xs text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={fila.usa_color}
+                    onChange={(e) => actualizar(index, { usa_color: e.target.checked })}
+                    className="h-3 w-3 rounded border-slate-300 text-pink-600"
+                  />
+                  Color
+                </label>
+              </div>
+
+              <Input
+                value={fila.nombre}
+                onChange={(e) => actualizar(index, { nombre: e.target.value })}
+                placeholder="Nombre (ej: Rojo Pasión, 50ml)"
+                className="h-10 flex-1"
+              />
+
+              <button
+                type="button"
+                onClick={() => quitar(index)}
+                className="h-10 w-10 flex items-center justify-center rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                aria-label={`Quitar variante ${fila.nombre || index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <Input
+                value={fila.talla}
+                onChange={(e) => actualizar(index, { talla: e.target.value })}
+                placeholder="Talla / tamaño"
+                className="h-10"
+              />
+              <Input
+                value={fila.sku}
+                onChange={(e) => actualizar(index, { sku: e.target.value })}
+                placeholder="SKU"
+                className="h-10 uppercase"
+              />
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={fila.precio}
+                onChange={(e) => actualizar(index, { precio: e.target.value })}
+                placeholder="Precio (S/)"
+                className="h-10"
+              />
+              <Input
+                type="number"
+                min="0"
+                value={fila.stock}
+                onChange={(e) => actualizar(index, { stock: e.target.value })}
+                placeholder="Stock"
+                className="h-10"
+                aria-label="Stock de la variante"
+              />
+              <select
+                value={opcionesImagen.some((op) => op.url === fila.imagen) ? fila.imagen : ''}
+                onChange={(e) => actualizar(index, { imagen: e.target.value })}
+                className="h-10 px-3 rounded-md border border-slate-200 bg-white text-sm focus:border-pink-400 outline-none"
+                aria-label="Imagen de la variante"
+              >
+                <option value="">Sin imagen</option>
+                {opcionesImagen.map((opcion) => (
+                  <option key={opcion.url} value={opcion.url}>
+                    Imagen {opcion.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        ))}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={agregar}
+          disabled={variantes.length >= MAX_VARIANTES}
+          className="w-full gap-2 border-dashed"
+        >
+          <Plus className="h-4 w-4" />
+          Agregar variante
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,496 @@
+// src/components/tienda/CatalogoProductos.tsx
+/**
+ * @fileoverview Catálogo interactivo de una tienda (isla de cliente)
+ * Búsqueda, filtros, orden, scroll infinito y WhatsApp flotante.
+ * La primera página llega ya cargada desde el servidor; las demás quedan
+ * en caché por filtros (lib/consultas).
+ * @module CatalogoProductos
+ */
+
+'use client';
+
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query';
+import SearchBar from '@/components/tienda/SearchBar';
+import CategoryFilter from '@/components/tienda/CategoryFilter';
+import FiltrosCatalogo from '@/components/tienda/FiltrosCatalogo';
+import ProductGrid from '@/components/productos/ProductGrid';
+import WhatsAppButton, { generarMensajeGeneral } from '@/components/common/WhatsAppButton';
+import { useCarrito } from '@/contexts/CarritoContext';
+import api from '@/lib/api';
+import { claves } from '@/lib/consultas';
+import {
+  hayFiltrosExtra,
+  ORDENES_CATALOGO,
+  ordenEfectivo,
+  PRODUCTOS_POR_PAGINA,
+  queryDeFiltros,
+} from '@/lib/filtrosCatalogo';
+import { Categoria, FiltrosCatalogo as Filtros, OrdenCatalogo, PaginaCatalogo, Tienda } from '@/types';
+import { Store, AlertCircle, Sparkles, SlidersHorizontal, Loader2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Espera antes de buscar mientras el usuario escribe (ms)
+ * @constant
+ */
+const ESPERA_BUSQUEDA = 350;
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Props del componente CatalogoProductos
+ * @interface CatalogoProductosProps
+ */
+interface CatalogoProductosProps {
+  /** Tienda (slug para los links, WhatsApp para el botón flotante) */
+  tienda: Tienda;
+  /** Primera página cargada en el servidor (con facetas) */
+  paginaInicial: PaginaCatalogo;
+  /** Filtros leídos de la URL */
+  filtrosIniciales: Filtros;
+  /** Categorías definidas por la tienda */
+  categorias: Categoria[];
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Búsqueda, filtros y grid del catálogo
+ *
+ * Funcionalidades:
+ * - Filtros por categoría (incluye subcategorías), marca, precio y stock
+ * - Orden: recientes, precio, más vistos, ofertas
+ * - Búsqueda por nombre/descripción/marca (con espera mientras se escribe)
+ * - Contadores por categoría y marca calculados en el servidor (facetas)
+ * - Scroll infinito (paginación por cursor)
+ * - Filtros sincronizados con la URL para compartir vistas filtradas
+ * - Sincroniza precios y stock del carrito guardado
+ * - Botón WhatsApp flotante
+ *
+ * @param props - Props del componente
+ * @returns Layout de filtros y productos
+ *
+ * @example
+ * <CatalogoProductos
+ *   tienda={tienda}
+ *   paginaInicial={pagina}
+ *   filtrosIniciales={filtros}
+ *   categorias={categorias}
+ * />
+ */
+export default function CatalogoProductos({
+  tienda,
+  paginaInicial,
+  filtrosIniciales,
+  categorias
+}: CatalogoProductosProps) {
+  const { items, sincronizar } = useCarrito();
+  const tiendaSlug = tienda.slug;
+
+  // ===================================
+  // ESTADOS
+  // ===================================
+
+  /** Filtros aplicados (fuente de la URL y de la consulta) */
+  const [filtros, setFiltros] = useState<Filtros>(filtrosIniciales);
+  /** Texto del buscador (se aplica a los filtros con espera) */
+  const [busqueda, setBusqueda] = useState(filtrosIniciales.buscar || '');
+  /** Panel de filtros abierto en mobile */
+  const [mostrarFiltros, setMostrarFiltros] = useState(false);
+
+  /** Elemento al final del grid que dispara la siguiente página */
+  const centinela = useRef<HTMLDivElement>(null);
+  /** El carrito guardado se sincroniza una sola vez */
+  const carritoSincronizado = useRef(false);
+  /** Último texto registrado en la analítica (cambiar otro filtro no es otra búsqueda) */
+  const busquedaRegistrada = useRef(filtrosIniciales.buscar || '');
+
+  /**
+   * Páginas del catálogo en caché por tienda y filtros
+   * Volver a un filtro ya visto es instantáneo (y se revalida en segundo plano).
+   * La primera página de los filtros de la URL llega del servidor.
+   */
+  const catalogo = useInfiniteQuery({
+    queryKey: claves.catalogo(tiendaSlug, filtros),
+    queryFn: async ({ pageParam }) =>
+      (await api.tiendas.getProductos(tiendaSlug, {
+        ...filtros,
+        limite: PRODUCTOS_POR_PAGINA,
+        cursor: pageParam ?? undefined,
+      })).data,
+    initialPageParam: null as string | null,
+    getNextPageParam: (pagina) => pagina.siguiente,
+    initialData: filtros === filtrosIniciales
+      ? { pages: [paginaInicial], pageParams: [null] }
+      : undefined,
+    // Mientras carga otro filtro se sigue viendo el anterior (atenuado)
+    placeholderData: keepPreviousData,
+  });
+
+  const paginas = catalogo.data?.pages;
+  const primeraPagina = paginas?.[0] ?? paginaInicial;
+  const { total, facetas } = primeraPagina;
+  const siguiente = paginas?.[paginas.length - 1].siguiente ?? null;
+  /** Cargando otros filtros (se muestra la página anterior mientras tanto) */
+  const cargando = catalogo.isPlaceholderData;
+  const cargandoMas = catalogo.isFetchingNextPage;
+  const error = catalogo.error?.message ?? '';
+  const { fetchNextPage, hasNextPage, isFetching } = catalogo;
+
+  /**
+   * Productos de todas las páginas cargadas (sin repetidos si el catálogo
+   * cambió entre una página y otra)
+   */
+  const productos = useMemo(() => {
+    const vistos = new Set<string>();
+    return (paginas ?? [paginaInicial])
+      .flatMap((pagina) => pagina.productos)
+      .filter((p) => {
+        if (vistos.has(p._id)) return false;
+        vistos.add(p._id);
+        return true;
+      });
+  }, [paginas, paginaInicial]);
+
+  /**
+   * Aplica cambios de filtros (el texto de búsqueda se mantiene al día)
+   */
+  const cambiarFiltros = useCallback((cambios: Partial<Filtros>) => {
+    if (cambios.buscar !== undefined) setBusqueda(cambios.buscar);
+    setFiltros((actuales) => ({ ...actuales, ...cambios }));
+  }, []);
+
+  // ===================================
+  // EFECTOS
+  // ===================================
+
+  /**
+   * Aplica la búsqueda cuando el usuario deja de escribir
+   */
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFiltros((actuales) =>
+        (actuales.buscar || '') === busqueda.trim() ? actuales : { ...actuales, buscar: busqueda.trim() }
+      );
+    }, ESPERA_BUSQUEDA);
+    return () => clearTimeout(timer);
+  }, [busqueda]);
+
+  /**
+   * Al cambiar los filtros actualiza la URL
+   * Se reemplaza sin navegar para no volver a renderizar en el servidor
+   */
+  useEffect(() => {
+    if (filtros === filtrosIniciales) return;
+    const query = queryDeFiltros(filtros).toString();
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }, [filtros, filtrosIniciales]);
+
+  /**
+   * Registra cada búsqueda nueva en la analítica, con sus resultados
+   * (cuando llega la respuesta de esos filtros, no la página anterior)
+   */
+  useEffect(() => {
+    if (cargando || !catalogo.isSuccess) return;
+    const texto = filtros.buscar || '';
+    if (texto && texto !== busquedaRegistrada.current) {
+      api.tiendas.registrarEvento(tiendaSlug, { tipo: 'busqueda', texto, resultados: total });
+    }
+    busquedaRegistrada.current = texto;
+  }, [filtros.buscar, cargando, catalogo.isSuccess, total, tiendaSlug]);
+
+  /**
+   * Carga la siguiente página y la agrega al final
+   */
+  const cargarMas = useCallback(() => {
+    if (!hasNextPage || isFetching) return;
+    fetchNextPage();
+  }, [hasNextPage, isFetching, fetchNextPage]);
+
+  /**
+   * Scroll infinito: pide la siguiente página al acercarse al final
+   */
+  useEffect(() => {
+    const elemento = centinela.current;
+    if (!elemento || !siguiente || error) return;
+
+    const observer = new IntersectionObserver(
+      ([entrada]) => {
+        if (entrada.isIntersecting) cargarMas();
+      },
+      { rootMargin: '600px' }
+    );
+    observer.observe(elemento);
+    return () => observer.disconnect();
+  }, [siguiente, error, cargarMas]);
+
+  /**
+   * Actualiza precios/stock del carrito guardado con datos frescos
+   * Se piden solo sus productos: pueden no estar en la página cargada
+   */
+  useEffect(() => {
+    if (carritoSincronizado.current || items.length === 0) return;
+    carritoSincronizado.current = true;
+
+    const ids = [...new Set(items.map((item) => item.producto_id))].slice(0, 100);
+    api.tiendas.getProductos(tiendaSlug, { ids, limite: ids.length })
+      .then(({ data }) => sincronizar(data.productos))
+      .catch((err) => console.error('Error al sincronizar carrito:', err));
+  }, [items, sincronizar, tiendaSlug]);
+
+  // ===================================
+  // CONTADORES
+  // ===================================
+
+  /**
+   * Contadores de productos por categoría (facetas del servidor)
+   * Para mostrar en los filtros
+   */
+  const contadores = useMemo(() => {
+    const counts: Record<string, number> = { todas: 0 };
+
+    facetas?.categorias.forEach(({ slug, total: cantidad }) => {
+      counts[slug] = cantidad;
+      counts.todas += cantidad;
+    });
+
+    // Las categorías padre suman los productos de sus subcategorías
+    categorias
+      .filter((c) => c.padre_id)
+      .forEach((hija) => {
+        const padre = categorias.find((c) => c._id === hija.padre_id);
+        if (padre) {
+          counts[padre.slug] = (counts[padre.slug] || 0) + (counts[hija.slug] || 0);
+        }
+      });
+
+    return counts;
+  }, [facetas, categorias]);
+
+  const categoria = filtros.categoria || 'todas';
+  const filtrando = categoria !== 'todas' || hayFiltrosExtra(filtros);
+
+  return (
+    <>
+      {/* ===================================
+          LAYOUT PRINCIPAL
+          =================================== */}
+      <div className="container mx-auto px-4 py-8">
+        <div className="grid lg:grid-cols-[320px_1fr] gap-8 max-w-7xl mx-auto">
+
+          {/* ===================================
+              SIDEBAR (Desktop)
+              =================================== */}
+          <aside className="lg:sticky lg:top-8 lg:h-fit space-y-6">
+          
+            {/* Barra de búsqueda */}
+            <div className="animate-in fade-in slide-in-from-left duration-500">
+              <SearchBar
+                value={busqueda}
+                onChange={setBusqueda}
+                placeholder="Buscar productos..."
+                tiendaSlug={tienda.slug}
+                onSugerencia={(sugerencia) =>
+                  cambiarFiltros(
+                    sugerencia.tipo === 'marca'
+                      ? { marcas: [sugerencia.nombre], buscar: '' }
+                      : { categoria: sugerencia.slug, buscar: '' }
+                  )
+                }
+              />
+            </div>
+
+            {/* Filtros verticales - Solo desktop */}
+            <div className="hidden lg:block animate-in fade-in slide-in-from-left duration-700">
+              <CategoryFilter
+                categorias={categorias}
+                categoriaActual={categoria}
+                onCategoriaChange={(slug) => cambiarFiltros({ categoria: slug })}
+                contadores={contadores}
+                variant="vertical"
+              />
+            </div>
+
+            {/* Marca, precio y stock - siempre en desktop, desplegable en mobile */}
+            <div className={mostrarFiltros ? 'block' : 'hidden lg:block'}>
+              <FiltrosCatalogo
+                filtros={filtros}
+                facetas={facetas}
+                onChange={cambiarFiltros}
+              />
+            </div>
+
+            {/* Card informativa */}
+            <Card className="hidden lg:block bg-gradient-to-br from-purple-50 to-pink-50 border-2 border-white/50 backdrop-blur-md">
+              <CardContent className="p-6 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Sparkles className="w-5 h-5 text-purple-600" />
+                  <h3 className="font-bold text-slate-900">¿Tienes dudas?</h3>
+                </div>
+                <p className="text-sm text-slate-600 leading-relaxed">
+                  Consulta disponibilidad y precios directamente por WhatsApp
+                </p>
+              </CardContent>
+            </Card>
+          </aside>
+
+          {/* ===================================
+              CONTENIDO PRINCIPAL
+              =================================== */}
+          <main className="space-y-6">
+          
+            {/* Filtros horizontales - Solo mobile */}
+            <div className="lg:hidden animate-in fade-in slide-in-from-bottom duration-500">
+              <CategoryFilter
+                categorias={categorias}
+                categoriaActual={categoria}
+                onCategoriaChange={(slug) => cambiarFiltros({ categoria: slug })}
+                contadores={contadores}
+                variant="horizontal"
+              />
+            </div>
+
+            {/* Barra de información de resultados y orden */}
+            <div className="flex flex-wrap items-center justify-between gap-4 animate-in fade-in duration-700">
+              <div className="flex-1">
+                {filtrando ? (
+                  <Alert className="bg-blue-50 border-blue-200 py-2">
+                    <AlertCircle className="h-4 w-4 text-blue-600" />
+                    <AlertDescription className="text-blue-800 text-sm">
+                      {total === 0
+                        ? `Sin resultados ${filtros.buscar ? `para "${filtros.buscar}"` : 'con estos filtros'}`
+                        : `${total} producto${total === 1 ? '' : 's'}`
+                      }
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Badge variant="secondary" className="text-sm font-medium px-4 py-2">
+                    {total} productos disponibles
+                  </Badge>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                {/* Mostrar/ocultar filtros - Solo mobile */}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="lg:hidden"
+                  onClick={() => setMostrarFiltros(!mostrarFiltros)}
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                  Filtros
+                </Button>
+
+                <select
+                  value={ordenEfectivo(filtros)}
+                  onChange={(e) => cambiarFiltros({ orden: e.target.value as OrdenCatalogo })}
+                  aria-label="Ordenar productos"
+                  className="h-9 rounded-md border border-slate-200 bg-white/80 px-3 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-pink-500"
+                >
+                  {ORDENES_CATALOGO.filter((orden) => orden.valor !== 'relevancia' || filtros.buscar).map((orden) => (
+                    <option key={orden.valor} value={orden.valor}>
+                      {orden.etiqueta}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Error al cargar */}
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {/* ===================================
+                GRID DE PRODUCTOS
+                =================================== */}
+            <div
+              className={`animate-in fade-in slide-in-from-bottom duration-700 delay-200 transition-opacity ${cargando ? 'opacity-50 pointer-events-none' : ''}`}
+              aria-busy={cargando}
+            >
+              <ProductGrid
+                productos={productos}
+                total={total}
+                tiendaSlug={tiendaSlug}
+                showStats={false}
+                showCarrito
+                categorias={categorias}
+                emptyMessage={
+                  filtros.buscar
+                    ? `No se encontraron productos para "${filtros.buscar}"`
+                    : filtrando
+                      ? "No hay productos con estos filtros"
+                      : "Esta tienda aún no tiene productos"
+                }
+              />
+            </div>
+
+            {/* ===================================
+                SCROLL INFINITO
+                =================================== */}
+            {siguiente && (
+              <div ref={centinela} className="flex justify-center py-4">
+                {cargandoMas ? (
+                  <Loader2 className="w-6 h-6 text-pink-500 animate-spin" />
+                ) : (
+                  <Button variant="outline" onClick={cargarMas} disabled={cargando}>
+                    Cargar más productos
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* ===================================
+                ESTADO VACÍO GLOBAL
+                =================================== */}
+            {!cargando && total === 0 && !filtrando && (
+              <Card className="bg-white/60 backdrop-blur-md border-2 border-white/30">
+                <CardContent className="p-16 text-center space-y-6">
+                  <div className="relative">
+                    <div className="absolute inset-0 bg-slate-400/20 rounded-full blur-3xl scale-150" />
+                    <div className="relative w-24 h-24 mx-auto bg-gradient-to-br from-slate-300 to-slate-400 rounded-full flex items-center justify-center">
+                      <Store className="w-12 h-12 text-white" />
+                    </div>
+                  </div>
+
+                  <h3 className="text-2xl font-bold text-slate-700">
+                    Catálogo en construcción
+                  </h3>
+                  <p className="text-slate-500 max-w-md mx-auto">
+                    Esta tienda está preparando sus productos. ¡Vuelve pronto para ver las novedades!
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </main>
+        </div>
+      </div>
+
+      {/* ===================================
+          BOTÓN WHATSAPP FLOTANTE
+          =================================== */}
+      <WhatsAppButton
+        telefono={tienda.whatsapp}
+        mensaje={generarMensajeGeneral(tienda.nombre)}
+        variant="floating"
+        size="md"
+      />
+    </>
+  );
+}
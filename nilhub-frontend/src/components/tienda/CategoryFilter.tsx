@@ -9,13 +9,26 @@
 
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import { 
-  Sparkles, 
-  Leaf, 
-  Wind, 
-  Heart, 
+import { Categoria, IconoCategoria } from '@/types';
+import {
+  Sparkles,
+  Leaf,
+  Wind,
+  Heart,
   Scissors,
-  Check
+  Package,
+  Shirt,
+  Gem,
+  Baby,
+  Cookie,
+  Coffee,
+  Gift,
+  Home,
+  Smartphone,
+  Star,
+  Tag,
+  Check,
+  LucideIcon
 } from 'lucide-react';
 
 // ===================================
@@ -23,66 +36,59 @@ import {
 // ===================================
 
 /**
- * Configuración de categorías con íconos y colores
- * Cada categoría tiene un ícono específico y gradiente de color
+ * Íconos disponibles para las categorías (mismos nombres que el backend)
  * @constant
  */
-const CATEGORIAS = [
-  {
-    value: 'todas',
-    label: 'Todas',
-    icon: Sparkles,
-    gradient: 'from-slate-500 to-slate-600',
-    bg: 'bg-slate-50',
-    border: 'border-slate-200',
-    text: 'text-slate-700',
-    activeBg: 'bg-gradient-to-br from-slate-500 to-slate-600'
-  },
+const ICONOS_CATEGORIA: Record<IconoCategoria, LucideIcon> = {
+  sparkles: Sparkles,
+  leaf: Leaf,
+  wind: Wind,
+  heart: Heart,
+  scissors: Scissors,
+  package: Package,
+  shirt: Shirt,
+  gem: Gem,
+  baby: Baby,
+  cookie: Cookie,
+  coffee: Coffee,
+  gift: Gift,
+  home: Home,
+  smartphone: Smartphone,
+  star: Star,
+  tag: Tag
+};
+
+/**
+ * Paletas de color que se asignan en orden a las categorías
+ * Las subcategorías usan la paleta de su categoría padre
+ * @constant
+ */
+const PALETAS = [
   {
-    value: 'maquillaje',
-    label: 'Maquillaje',
-    icon: Sparkles,
-    gradient: 'from-pink-500 to-rose-500',
     bg: 'bg-pink-50',
     border: 'border-pink-200',
     text: 'text-pink-700',
     activeBg: 'bg-gradient-to-br from-pink-500 to-rose-500'
   },
   {
-    value: 'skincare',
-    label: 'Skincare',
-    icon: Leaf,
-    gradient: 'from-green-500 to-emerald-500',
     bg: 'bg-green-50',
     border: 'border-green-200',
     text: 'text-green-700',
     activeBg: 'bg-gradient-to-br from-green-500 to-emerald-500'
   },
   {
-    value: 'fragancias',
-    label: 'Fragancias',
-    icon: Wind,
-    gradient: 'from-purple-500 to-indigo-500',
     bg: 'bg-purple-50',
     border: 'border-purple-200',
     text: 'text-purple-700',
     activeBg: 'bg-gradient-to-br from-purple-500 to-indigo-500'
   },
   {
-    value: 'cuidado-personal',
-    label: 'Cuidado Personal',
-    icon: Heart,
-    gradient: 'from-blue-500 to-cyan-500',
     bg: 'bg-blue-50',
     border: 'border-blue-200',
     text: 'text-blue-700',
     activeBg: 'bg-gradient-to-br from-blue-500 to-cyan-500'
   },
   {
-    value: 'accesorios',
-    label: 'Accesorios',
-    icon: Scissors,
-    gradient: 'from-orange-500 to-amber-500',
     bg: 'bg-orange-50',
     border: 'border-orange-200',
     text: 'text-orange-700',
@@ -90,6 +96,99 @@ const CATEGORIAS = [
   }
 ];
 
+/**
+ * Opción "Todas" (siempre primera)
+ * @constant
+ */
+const OPCION_TODAS = {
+  value: 'todas',
+  label: 'Todas',
+  icon: Sparkles,
+  esSubcategoria: false,
+  bg: 'bg-slate-50',
+  border: 'border-slate-200',
+  text: 'text-slate-700',
+  activeBg: 'bg-gradient-to-br from-slate-500 to-slate-600'
+};
+
+/**
+ * Opción visible del filtro
+ * @typedef OpcionCategoria
+ */
+type OpcionCategoria = typeof OPCION_TODAS;
+
+// ===================================
+// HELPERS
+// ===================================
+
+/**
+ * Ordena las categorías con cada subcategoría después de su padre
+ *
+ * @param categorias - Categorías de la tienda
+ * @returns Categorías ordenadas para mostrar
+ */
+export function ordenarCategorias(categorias: Categoria[]): Categoria[] {
+  const porOrden = [...categorias].sort((a, b) => a.orden - b.orden || a.nombre.localeCompare(b.nombre));
+  const raices = porOrden.filter((c) => !c.padre_id || !porOrden.some((p) => p._id === c.padre_id));
+
+  return raices.flatMap((raiz) => [raiz, ...porOrden.filter((c) => c.padre_id === raiz._id)]);
+}
+
+/**
+ * Slugs que incluye una categoría: ella misma y sus subcategorías
+ * Usado para filtrar productos por una categoría padre
+ *
+ * @param categorias - Categorías de la tienda
+ * @param slug - Slug de la categoría seleccionada
+ * @returns Lista de slugs
+ *
+ * @example
+ * slugsDeCategoria(categorias, 'maquillaje'); // ['maquillaje', 'labiales']
+ */
+export function slugsDeCategoria(categorias: Categoria[], slug: string): string[] {
+  const categoria = categorias.find((c) => c.slug === slug);
+  if (!categoria) return [slug];
+
+  return [slug, ...categorias.filter((c) => c.padre_id === categoria._id).map((c) => c.slug)];
+}
+
+/**
+ * Ícono de una categoría (Tag si el nombre no existe)
+ *
+ * @param icono - Nombre del ícono
+ * @returns Componente de lucide-react
+ */
+export function iconoCategoria(icono?: string): LucideIcon {
+  return ICONOS_CATEGORIA[icono as IconoCategoria] || Tag;
+}
+
+/**
+ * Convierte las categorías de la API en opciones del filtro
+ * @private
+ */
+const crearOpciones = (categorias: Categoria[]): OpcionCategoria[] => {
+  const paletaDe = new Map<string, (typeof PALETAS)[number]>();
+  let raices = 0;
+
+  return [
+    OPCION_TODAS,
+    ...ordenarCategorias(categorias).map((categoria) => {
+      const paletaPadre = categoria.padre_id ? paletaDe.get(categoria.padre_id) : undefined;
+      const esSubcategoria = Boolean(paletaPadre);
+      const paleta = paletaPadre || PALETAS[raices++ % PALETAS.length];
+      paletaDe.set(categoria._id, paleta);
+
+      return {
+        value: categoria.slug,
+        label: categoria.nombre,
+        icon: iconoCategoria(categoria.icono),
+        esSubcategoria,
+        ...paleta
+      };
+    })
+  ];
+};
+
 // ===================================
 // TIPOS
 // ===================================
@@ -99,6 +198,8 @@ const CATEGORIAS = [
  * @interface CategoryFilterProps
  */
 interface CategoryFilterProps {
+  /** Categorías de la tienda (de la API) */
+  categorias: Categoria[];
   /** Categoría actualmente seleccionada */
   categoriaActual: string;
   /** Callback al cambiar categoría */
@@ -122,8 +223,8 @@ interface CategoryFilterProps {
  * - **grid**: Grid de 2-3 columnas ideal para secciones
  * 
  * Características:
- * - Íconos personalizados por categoría
- * - Gradientes de color únicos
+ * - Categorías propias de cada tienda (subcategorías bajo su padre)
+ * - Íconos elegidos por el vendedor y gradientes de color por categoría
  * - Contador de productos por categoría
  * - Animaciones en hover y active
  * - Badge de selección con check
@@ -134,6 +235,7 @@ interface CategoryFilterProps {
  * @example
  * // Variante horizontal (mobile)
  * <CategoryFilter
+ *   categorias={categorias}
  *   categoriaActual={categoria}
  *   onCategoriaChange={setCategoria}
  *   contadores={{ todas: 25, maquillaje: 10 }}
@@ -143,17 +245,20 @@ interface CategoryFilterProps {
  * @example
  * // Variante vertical (sidebar)
  * <CategoryFilter
+ *   categorias={categorias}
  *   categoriaActual={categoria}
  *   onCategoriaChange={setCategoria}
  *   variant="vertical"
  * />
  */
 export default function CategoryFilter({ 
+  categorias,
   categoriaActual, 
   onCategoriaChange,
   contadores,
   variant = 'vertical'
 }: CategoryFilterProps) {
+  const opciones = crearOpciones(categorias);
   
   // ===================================
   // VARIANTE: HORIZONTAL (Mobile)
@@ -168,7 +273,7 @@ export default function CategoryFilter({
 
         {/* Scroll horizontal sin scrollbar visible */}
         <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-          {CATEGORIAS.map((categoria) => {
+          {opciones.map((categoria) => {
             const Icon = categoria.icon;
             const isActive = categoriaActual === categoria.value;
             const contador = contadores?.[categoria.value] || 0;
@@ -232,7 +337,7 @@ export default function CategoryFilter({
         </h3>
 
         <div className="space-y-2">
-          {CATEGORIAS.map((categoria) => {
+          {opciones.map((categoria) => {
             const Icon = categoria.icon;
             const isActive = categoriaActual === categoria.value;
             const contador = contadores?.[categoria.value] || 0;
@@ -244,6 +349,7 @@ export default function CategoryFilter({
                 className={cn(
                   "group w-full",
                   "flex items-center gap-3 px-4 py-3 rounded-xl",
+                  categoria.esSubcategoria && "ml-6 w-[calc(100%-1.5rem)] py-2",
                   "border-2 transition-all duration-300",
                   "hover:scale-[1.02] active:scale-[0.98]",
                   isActive 
@@ -311,7 +417,7 @@ export default function CategoryFilter({
       </h3>
 
       <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-2 xl:grid-cols-3 gap-3">
-        {CATEGORIAS.map((categoria) => {
+        {opciones.map((categoria) => {
           const Icon = categoria.icon;
           const isActive = categoriaActual === categoria.value;
           const contador = contadores?.[categoria.value] || 0;
@@ -385,5 +491,5 @@ export default function CategoryFilter({
   );
 }
 
-/** Exportar configuración de categorías para uso externo */
-export { CATEGORIAS };
\ No newline at end of file
+/** Exportar íconos para el panel de categorías */
+export { ICONOS_CATEGORIA };
\ No newline at end of file
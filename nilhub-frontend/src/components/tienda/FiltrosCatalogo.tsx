@@ -0,0 +1,267 @@
+// src/components/tienda/FiltrosCatalogo.tsx
+/**
+ * @fileoverview Filtros del catálogo por marca, precio y stock
+ * Usa las facetas que devuelve la API para mostrar solo opciones con productos
+ * @module FiltrosCatalogo
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Check, PackageCheck, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { hayFiltrosExtra } from '@/lib/filtrosCatalogo';
+import type { FacetasCatalogo, FiltrosCatalogo as Filtros } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Marcas visibles antes de "Ver todas"
+ * @constant
+ */
+const MARCAS_VISIBLES = 8;
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Props del componente FiltrosCatalogo
+ * @interface FiltrosCatalogoProps
+ */
+interface FiltrosCatalogoProps {
+  /** Filtros aplicados */
+  filtros: Filtros;
+  /** Facetas de la última consulta (null mientras no haya) */
+  facetas: FacetasCatalogo | null;
+  /** Callback con los filtros que cambiaron */
+  onChange: (cambios: Partial<Filtros>) => void;
+}
+
+// ===================================
+// SUBCOMPONENTES
+// ===================================
+
+/**
+ * Rango de precio con inputs mínimo/máximo
+ * Se aplica al salir del input o con Enter, no en cada tecla
+ * @private
+ */
+function RangoPrecio({
+  min,
+  max,
+  limites,
+  onAplicar,
+}: {
+  min?: number;
+  max?: number;
+  limites: { min: number; max: number } | null;
+  onAplicar: (min?: number, max?: number) => void;
+}) {
+  const [desde, setDesde] = useState(min?.toString() ?? '');
+  const [hasta, setHasta] = useState(max?.toString() ?? '');
+
+  const aplicar = () => {
+    const a = desde === '' ? undefined : Math.max(0, Number(desde));
+    const b = hasta === '' ? undefined : Math.max(0, Number(hasta));
+    // Si se invierten, se intercambian
+    const [nuevoMin, nuevoMax] = a !== undefined && b !== undefined && a > b ? [b, a] : [a, b];
+    if (nuevoMin !== min || nuevoMax !== max) {
+      onAplicar(nuevoMin, nuevoMax);
+    }
+  };
+
+  const alPresionar = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') aplicar();
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        value={desde}
+        onChange={(e) => setDesde(e.target.value)}
+        onBlur={aplicar}
+        onKeyDown={alPresionar}
+        placeholder={limites ? `S/ ${Math.floor(limites.min)}` : 'Mín.'}
+        aria-label="Precio mínimo"
+        className="bg-white/80"
+      />
+      <span className="text-slate-400">–</span>
+      <Input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        value={hasta}
+        onChange={(e) => setHasta(e.target.value)}
+        onBlur={aplicar}
+        onKeyDown={alPresionar}
+        placeholder={limites ? `S/ ${Math.ceil(limites.max)}` : 'Máx.'}
+        aria-label="Precio máximo"
+        className="bg-white/80"
+      />
+    </div>
+  );
+}
+
+// ===================================
+// COMPONENTE PRINCIPAL
+// ===================================
+
+/**
+ * Panel de filtros del catálogo público
+ *
+ * Características:
+ * - Marcas con contador (selección múltiple)
+ * - Rango de precio (el que paga el cliente)
+ * - Solo productos con stock
+ * - Botón para limpiar filtros
+ *
+ * @param props - Props del componente
+ * @returns Panel de filtros
+ *
+ * @example
+ * <FiltrosCatalogo
+ *   filtros={filtros}
+ *   facetas={facetas}
+ *   onChange={(cambios) => setFiltros((f) => ({ ...f, ...cambios }))}
+ * />
+ */
+export default function FiltrosCatalogo({ filtros, facetas, onChange }: FiltrosCatalogoProps) {
+  const [verTodas, setVerTodas] = useState(false);
+
+  const seleccionadas = filtros.marcas || [];
+  const marcas = facetas?.marcas || [];
+  // Las marcas elegidas siempre se muestran, aunque estén después del corte
+  const marcasVisibles = verTodas
+    ? marcas
+    : marcas.filter((m, i) => i < MARCAS_VISIBLES || seleccionadas.includes(m.nombre));
+
+  const alternarMarca = (marca: string) => {
+    onChange({
+      marcas: seleccionadas.includes(marca)
+        ? seleccionadas.filter((m) => m !== marca)
+        : [...seleccionadas, marca],
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+
+      {/* ===================================
+          STOCK
+          =================================== */}
+      <button
+        type="button"
+        onClick={() => onChange({ en_stock: !filtros.en_stock })}
+        className={cn(
+          'w-full flex items-center justify-between gap-3 px-4 py-3 rounded-xl border-2 transition-all',
+          filtros.en_stock
+            ? 'bg-gradient-to-r from-pink-500 to-purple-600 text-white border-transparent shadow-lg'
+            : 'bg-white/80 text-slate-700 border-slate-200 hover:border-pink-300'
+        )}
+      >
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <PackageCheck className="w-4 h-4" />
+          Solo con stock
+        </span>
+        {facetas && (
+          <Badge
+            variant="secondary"
+            className={cn('text-xs', filtros.en_stock ? 'bg-white/20 text-white border-0' : '')}
+          >
+            {facetas.en_stock}
+          </Badge>
+        )}
+      </button>
+
+      {/* ===================================
+          PRECIO
+          =================================== */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide px-1">
+          Precio
+        </h3>
+        <RangoPrecio
+          key={`${filtros.precio_min}-${filtros.precio_max}`}
+          min={filtros.precio_min}
+          max={filtros.precio_max}
+          limites={facetas?.precio || null}
+          onAplicar={(precio_min, precio_max) => onChange({ precio_min, precio_max })}
+        />
+      </div>
+
+      {/* ===================================
+          MARCAS
+          =================================== */}
+      {marcas.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide px-1">
+            Marcas
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {marcasVisibles.map(({ nombre, total }) => {
+              const activa = seleccionadas.includes(nombre);
+              return (
+                <button
+                  key={nombre}
+                  type="button"
+                  onClick={() => alternarMarca(nombre)}
+                  className={cn(
+                    'flex items-center gap-1.5 px-3 py-1.5 rounded-full border-2 text-sm transition-all',
+                    activa
+                      ? 'bg-purple-600 text-white border-transparent'
+                      : 'bg-white/80 text-slate-700 border-slate-200 hover:border-purple-300'
+                  )}
+                >
+                  {activa && <Check className="w-3.5 h-3.5" />}
+                  {nombre}
+                  <span className={cn('text-xs', activa ? 'text-white/80' : 'text-slate-400')}>
+                    {total}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+          {marcas.length > MARCAS_VISIBLES && (
+            <button
+              type="button"
+              onClick={() => setVerTodas(!verTodas)}
+              className="text-sm font-medium text-pink-600 hover:text-pink-700"
+            >
+              {verTodas ? 'Ver menos' : `Ver todas (${marcas.length})`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* ===================================
+          LIMPIAR
+          =================================== */}
+      {hayFiltrosExtra(filtros) && (
+        <button
+          type="button"
+          onClick={() =>
+            onChange({
+              buscar: '',
+              marcas: [],
+              precio_min: undefined,
+              precio_max: undefined,
+              en_stock: false,
+            })
+          }
+          className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-slate-900"
+        >
+          <X className="w-4 h-4" />
+          Limpiar filtros
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,35 @@
 // src/components/tienda/SearchBar.tsx
 /**
  * @fileoverview Barra de búsqueda con glassmorphism
- * Input de búsqueda con efectos premium y botón de limpiar
+ * Input de búsqueda con efectos premium, botón de limpiar y autocompletado
  * @module SearchBar
  */
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useId } from 'react';
+import Link from 'next/link';
 import { Input } from '@/components/ui/input';
-import { Search, X } from 'lucide-react';
+import { Search, X, Tag, Folder } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import api from '@/lib/api';
+import type { SugerenciasBusqueda } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Espera antes de pedir sugerencias mientras se escribe (ms)
+ * @constant
+ */
+const ESPERA_SUGERENCIAS = 200;
+
+/**
+ * Caracteres mínimos para pedir sugerencias
+ * @constant
+ */
+const MIN_CARACTERES = 2;
 
 // ===================================
 // TIPOS
@@ -29,8 +48,28 @@ interface SearchBarProps {
   placeholder?: string;
   /** Clases CSS adicionales */
   className?: string;
+  /** Slug de la tienda: activa el autocompletado con sus productos */
+  tiendaSlug?: string;
+  /** Callback al elegir una marca o categoría sugerida */
+  onSugerencia?: (sugerencia: Sugerencia) => void;
 }
 
+/**
+ * Marca o categoría elegida en el autocompletado
+ * (los productos sugeridos llevan directo a su página)
+ */
+export type Sugerencia =
+  | { tipo: 'marca'; nombre: string }
+  | { tipo: 'categoria'; nombre: string; slug: string };
+
+/**
+ * Opción navegable con el teclado
+ * @private
+ */
+type Opcion =
+  | { tipo: 'producto'; producto: SugerenciasBusqueda['productos'][number] }
+  | Sugerencia;
+
 // ===================================
 // COMPONENTE PRINCIPAL
 // ===================================
@@ -44,6 +83,8 @@ interface SearchBarProps {
  * - Ícono de búsqueda
  * - Botón de limpiar (aparece al escribir)
  * - Texto de ayuda con el término buscado
+ * - Autocompletado (con `tiendaSlug`): productos, marcas y categorías,
+ *   sin tildes y tolerante a errores, navegable con flechas/Enter/Escape
  * - Animaciones suaves
  * 
  * @param props - Props del componente
@@ -62,11 +103,94 @@ export default function SearchBar({
   value, 
   onChange,
   placeholder = "Buscar productos...",
-  className 
+  className,
+  tiendaSlug,
+  onSugerencia
 }: SearchBarProps) {
   
   /** Estado de focus para animaciones */
   const [isFocused, setIsFocused] = useState(false);
+  /** Sugerencias para el texto actual */
+  const [sugerencias, setSugerencias] = useState<SugerenciasBusqueda | null>(null);
+  /** Opción resaltada con el teclado (-1 = ninguna) */
+  const [activa, setActiva] = useState(-1);
+  const listaId = useId();
+
+  /**
+   * Pide sugerencias cuando el usuario deja de escribir
+   * Las respuestas de textos anteriores se descartan
+   */
+  useEffect(() => {
+    const texto = value.trim();
+    if (!tiendaSlug || texto.length < MIN_CARACTERES) {
+      setSugerencias(null);
+      return;
+    }
+
+    let vigente = true;
+    const timer = setTimeout(() => {
+      api.tiendas.getSugerencias(tiendaSlug, texto)
+        .then(({ data }) => {
+          if (vigente) {
+            setSugerencias(data);
+            setActiva(-1);
+          }
+        })
+        .catch(() => {
+          if (vigente) setSugerencias(null);
+        });
+    }, ESPERA_SUGERENCIAS);
+
+    return () => {
+      vigente = false;
+      clearTimeout(timer);
+    };
+  }, [value, tiendaSlug]);
+
+  /** Opciones en el orden en que se muestran */
+  const opciones: Opcion[] = sugerencias
+    ? [
+        ...sugerencias.productos.map((producto) => ({ tipo: 'producto' as const, producto })),
+        ...sugerencias.marcas.map((nombre) => ({ tipo: 'marca' as const, nombre })),
+        ...sugerencias.categorias.map((c) => ({ tipo: 'categoria' as const, ...c })),
+      ]
+    : [];
+  const abierto = isFocused && opciones.length > 0;
+
+  /**
+   * Elige una sugerencia de marca o categoría
+   * @private
+   */
+  const elegir = (opcion: Sugerencia) => {
+    setSugerencias(null);
+    onSugerencia?.(opcion);
+  };
+
+  /**
+   * Navegación con teclado en la lista de sugerencias
+   * @private
+   */
+  const alPresionar = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!abierto) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiva((i) => (i + 1) % opciones.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiva((i) => (i <= 0 ? opciones.length - 1 : i - 1));
+    } else if (e.key === 'Escape') {
+      setSugerencias(null);
+    } else if (e.key === 'Enter' && activa >= 0) {
+      e.preventDefault();
+      const opcion = opciones[activa];
+      if (opcion.tipo === 'producto') {
+        document.getElementById(`${listaId}-${activa}`)?.click();
+      } else {
+        elegir(opcion);
+      }
+    }
+  };
 
   /**
    * Limpia el campo de búsqueda
@@ -115,8 +239,15 @@ export default function SearchBar({
             value={value}
             onChange={(e) => onChange(e.target.value)}
             onFocus={() => setIsFocused(true)}
-            onBlur={() => setIsFocused(false)}
+            // Espera a que un click en la lista se procese antes de cerrarla
+            onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+            onKeyDown={alPresionar}
             placeholder={placeholder}
+            role={tiendaSlug ? 'combobox' : undefined}
+            aria-expanded={tiendaSlug ? abierto : undefined}
+            aria-controls={tiendaSlug ? listaId : undefined}
+            aria-activedescendant={abierto && activa >= 0 ? `${listaId}-${activa}` : undefined}
+            autoComplete="off"
             className={cn(
               "pl-12 pr-12 py-6 text-base",
               "border-0 bg-transparent",
@@ -146,11 +277,79 @@ export default function SearchBar({
           )}
         </div>
 
+        {/* ===================================
+            AUTOCOMPLETADO
+            =================================== */}
+        {abierto && (
+          <ul
+            id={listaId}
+            role="listbox"
+            className="absolute z-30 mt-2 w-full overflow-hidden rounded-2xl border-2 border-white/40 bg-white/95 backdrop-blur-xl shadow-2xl"
+          >
+            {opciones.map((opcion, index) => {
+              const clase = cn(
+                "flex items-center gap-3 px-4 py-2.5 text-sm cursor-pointer transition-colors",
+                index === activa ? "bg-pink-50" : "hover:bg-slate-50"
+              );
+
+              if (opcion.tipo === 'producto') {
+                const { producto } = opcion;
+                return (
+                  <li key={producto._id} role="option" aria-selected={index === activa}>
+                    <Link
+                      id={`${listaId}-${index}`}
+                      href={`/${tiendaSlug}/producto/${producto._id}`}
+                      className={clase}
+                      onMouseEnter={() => setActiva(index)}
+                    >
+                      {producto.imagen ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={producto.imagen} alt="" className="w-9 h-9 rounded-lg object-cover" />
+                      ) : (
+                        <div className="w-9 h-9 rounded-lg bg-gradient-to-br from-pink-100 to-purple-100" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-slate-900 truncate">{producto.nombre}</p>
+                        {producto.marca && (
+                          <p className="text-xs text-slate-500 truncate">{producto.marca}</p>
+                        )}
+                      </div>
+                      <span className="font-semibold text-pink-600">
+                        S/ {(producto.precio_oferta || producto.precio).toFixed(2)}
+                      </span>
+                    </Link>
+                  </li>
+                );
+              }
+
+              const Icono = opcion.tipo === 'marca' ? Tag : Folder;
+              return (
+                <li
+                  key={`${opcion.tipo}-${opcion.nombre}`}
+                  id={`${listaId}-${index}`}
+                  role="option"
+                  aria-selected={index === activa}
+                  className={clase}
+                  onMouseEnter={() => setActiva(index)}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => elegir(opcion)}
+                >
+                  <Icono className="w-4 h-4 text-purple-500" />
+                  <span className="flex-1 text-slate-700">{opcion.nombre}</span>
+                  <span className="text-xs text-slate-400">
+                    {opcion.tipo === 'marca' ? 'Marca' : 'Categoría'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
         {/* ===================================
             TEXTO DE AYUDA
             (muestra el término buscado)
             =================================== */}
-        {value && (
+        {value && !abierto && (
           <div className="absolute -bottom-6 left-0 text-xs text-slate-500">
             Buscando: <span className="font-medium text-slate-700">&quot;{value}&quot;</span>
           </div>
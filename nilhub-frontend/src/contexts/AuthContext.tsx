@@ -10,7 +10,10 @@
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import api, { Usuario, Tienda } from '@/lib/api';
+import { useQueryClient } from '@tanstack/react-query';
+import api, { alExpirarSesion, ErrorApi } from '@/lib/api';
+import { claves } from '@/lib/consultas';
+import type { Usuario, Tienda, Sesion } from '@/types';
 
 // ===================================
 // TIPOS
@@ -31,12 +34,16 @@ interface AuthContextType {
   isLoading: boolean;
   /** Indica si el usuario es administrador */
   isAdmin: boolean;
-  /** Función para iniciar sesión */
-  login: (email: string, password: string) => Promise<void>;
+  /** Función para iniciar sesión; devuelve el desafío si falta el código de dos pasos */
+  login: (email: string, password: string) => Promise<string | null>;
+  /** Segundo paso del login: código de la app o de recuperación */
+  loginDosPasos: (desafio: string, codigo: string) => Promise<void>;
+  /** Login sin contraseña con el código enviado; devuelve el desafío si falta el de dos pasos */
+  loginConCodigo: (email: string, code: string) => Promise<string | null>;
   /** Función para registrar nuevo usuario */
   registro: (datos: RegistroData) => Promise<void>;
   /** Función para cerrar sesión */
-  logout: () => void;
+  logout: () => Promise<void>;
   /** Función para refrescar datos del usuario */
   refreshUser: () => Promise<void>;
 }
@@ -66,6 +73,14 @@ interface RegistroData {
 // CONTEXTO
 // ===================================
 
+/**
+ * Marca en localStorage de que este navegador inició sesión
+ * No es un secreto (la sesión viaja en cookies httpOnly): solo evita
+ * consultar /auth/me en cada visita anónima
+ * @constant
+ */
+const MARCA_SESION = 'nilhub_sesion';
+
 /** Contexto de autenticación */
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -96,18 +111,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [tienda, setTienda] = useState<Tienda | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
+  const queryClient = useQueryClient();
 
   /**
    * Verifica la autenticación al montar el componente
-   * Lee el token de localStorage y valida con el backend
+   * Valida con el backend la sesión guardada en cookies
    */
   useEffect(() => {
     checkAuth();
   }, []);
 
+  /**
+   * Si la sesión vence o se revoca (falló la renovación silenciosa en
+   * lib/api.ts), se limpia el estado: el layout del admin redirige al login
+   */
+  useEffect(
+    () =>
+      alExpirarSesion(() => {
+        console.log('⌛ Sesión expirada - Limpiando estado');
+        localStorage.removeItem(MARCA_SESION);
+        setUsuario(null);
+        setTienda(null);
+        queryClient.clear();
+      }),
+    [queryClient]
+  );
+
   /**
    * Verifica si hay una sesión válida
-   * Lee el token del localStorage y lo valida con el backend
+   * Consulta /auth/me; las cookies las envía el navegador
    * 
    * IMPORTANTE: Los usuarios admin NO tienen tienda asociada
    * 
@@ -115,11 +147,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    */
   const checkAuth = async () => {
     try {
-      const token = localStorage.getItem('token');
-
-      // Si no hay token, no hay sesión
-      if (!token) {
-        console.log('ℹ️ No hay token guardado - Usuario no logueado');
+      // Si este navegador nunca inició sesión, no hay nada que validar
+      if (!localStorage.getItem(MARCA_SESION)) {
+        console.log('ℹ️ Sin sesión iniciada - Usuario no logueado');
         setIsLoading(false);
         return;
       }
@@ -133,12 +163,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         const { usuario, tienda } = response.data;
         
         console.log('✅ Sesión válida:', usuario.email);
-        console.log('📋 Rol:', usuario.rol);
+        console.log('📋 Rol:', usuario.role);
         
         setUsuario(usuario);
         
         // ⚠️ IMPORTANTE: Admin NO tiene tienda (es null)
-        if (usuario.rol === 'admin') {
+        if (usuario.role === 'admin') {
           console.log('👑 Usuario es administrador - Sin tienda asignada');
           setTienda(null);
         } else {
@@ -147,44 +177,68 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
       } else {
         console.warn('⚠️ Respuesta inválida del servidor');
-        localStorage.removeItem('token');
+        localStorage.removeItem(MARCA_SESION);
         setUsuario(null);
         setTienda(null);
       }
     } catch (error) {
       console.error('❌ Error al verificar autenticación:', error);
       
-      // Determinar si limpiar el token
-      if (error instanceof Error) {
-        const errorMsg = error.message.toLowerCase();
-        
-        // Limpiar solo si es error de autenticación
-        if (errorMsg.includes('401') || errorMsg.includes('no autorizado') || errorMsg.includes('token')) {
-          console.log('🗑️ Token inválido o expirado - Limpiando sesión');
-          localStorage.removeItem('token');
-          setUsuario(null);
-          setTienda(null);
-        } else {
-          // Error de red: mantener token
-          console.warn('⚠️ Error de conexión - Manteniendo token para reintentar');
-        }
+      // Una sesión vencida ya la limpió alExpirarSesion; un error de red
+      // conserva la marca para reintentar en la próxima visita
+      if (error instanceof ErrorApi && error.estado === 401) {
+        localStorage.removeItem(MARCA_SESION);
+      } else {
+        console.warn('⚠️ Error de conexión - Se reintentará en la próxima visita');
       }
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * Guarda la sesión recién iniciada y redirige al admin
+   * @private
+   */
+  const entrar = ({ usuario, tienda }: Sesion) => {
+    localStorage.setItem(MARCA_SESION, '1');
+    console.log('✅ Login exitoso');
+
+    // Nada de la sesión anterior debe quedar en caché
+    queryClient.clear();
+
+    // Actualizar estado
+    setUsuario(usuario);
+
+    // ⚠️ Admin no tiene tienda
+    if (usuario.role === 'admin') {
+      console.log('👑 Login como administrador');
+      setTienda(null);
+    } else {
+      console.log('🏪 Login como vendedor');
+      setTienda(tienda || null);
+    }
+
+    // Redirigir al admin
+    router.push('/admin');
+  };
+
   /**
    * Inicia sesión con email y contraseña
-   * Guarda el token en localStorage y redirige al admin
+   * El backend deja la sesión en cookies; aquí se guarda el usuario y se redirige al admin
+   * 
+   * Si el usuario tiene verificación en dos pasos no se inicia sesión todavía:
+   * devuelve el desafío para completar el login con loginDosPasos
    * 
    * @param email - Email del usuario
    * @param password - Contraseña
+   * @returns El desafío de dos pasos, o null si ya se inició sesión
    * @throws Error si las credenciales son inválidas
    * 
    * @example
    * try {
-   *   await login('user@example.com', 'password123');
+   *   const desafio = await login('user@example.com', 'password123');
+   *   if (desafio) setPaso('codigo');
    * } catch (error) {
    *   console.error('Login falló:', error.message);
    * }
@@ -194,30 +248,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.log('🔐 Intentando login para:', email);
       const response = await api.auth.login(email, password);
 
-      if (response.success) {
-        // Guardar token
-        localStorage.setItem('token', response.data.token);
-        console.log('✅ Login exitoso - Token guardado');
-
-        const { usuario, tienda } = response.data;
-
-        // Actualizar estado
-        setUsuario(usuario);
-        
-        // ⚠️ Admin no tiene tienda
-        if (usuario.rol === 'admin') {
-          console.log('👑 Login como administrador');
-          setTienda(null);
-        } else {
-          console.log('🏪 Login como vendedor');
-          setTienda(tienda || null);
-        }
-
-        // Redirigir al admin
-        router.push('/admin');
-      } else {
+      if (!response.success) {
         throw new Error('Credenciales inválidas');
       }
+
+      if ('desafio' in response.data) {
+        console.log('🔐 Falta el código de verificación en dos pasos');
+        return response.data.desafio;
+      }
+
+      entrar(response.data);
+      return null;
     } catch (error: unknown) {
       console.error('❌ Error en login:', error);
       const message = error instanceof Error ? error.message : 'Error al ingresar. Verifica tus credenciales';
@@ -225,9 +266,54 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Inicia sesión sin contraseña, con el código enviado por email o WhatsApp
+   * Igual que login: devuelve el desafío si falta el código de dos pasos
+   *
+   * @param email - Email del usuario
+   * @param code - Código de 6 dígitos recibido
+   * @returns El desafío de dos pasos, o null si ya se inició sesión
+   * @throws Error si el código es incorrecto, venció o se usó
+   */
+  const loginConCodigo = async (email: string, code: string) => {
+    try {
+      const response = await api.auth.loginConCodigo(email, code);
+
+      if ('desafio' in response.data) {
+        console.log('🔐 Falta el código de verificación en dos pasos');
+        return response.data.desafio;
+      }
+
+      entrar(response.data);
+      return null;
+    } catch (error: unknown) {
+      console.error('❌ Error en login con código:', error);
+      const message = error instanceof Error ? error.message : 'Código incorrecto';
+      throw new Error(message);
+    }
+  };
+
+  /**
+   * Completa el login con el código de la app autenticadora o uno de recuperación
+   * 
+   * @param desafio - Devuelto por login
+   * @param codigo - 6 dígitos o código de recuperación
+   * @throws Error si el código es incorrecto o el desafío venció
+   */
+  const loginDosPasos = async (desafio: string, codigo: string) => {
+    try {
+      const response = await api.auth.loginDosPasos(desafio, codigo);
+      entrar(response.data);
+    } catch (error: unknown) {
+      console.error('❌ Error en verificación en dos pasos:', error);
+      const message = error instanceof Error ? error.message : 'Código incorrecto';
+      throw new Error(message);
+    }
+  };
+
   /**
    * Registra un nuevo usuario y crea su tienda
-   * Guarda el token en localStorage y redirige al admin
+   * Inicia la sesión (cookies) y redirige al admin
    * 
    * NOTA: Solo aplica para rol 'vendedor'
    * El registro de admin se hace manualmente desde el backend
@@ -254,9 +340,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const response = await api.auth.registro(datos);
 
       if (response.success) {
-        // Guardar token
-        localStorage.setItem('token', response.data.token);
-        console.log('✅ Registro exitoso - Token guardado');
+        localStorage.setItem(MARCA_SESION, '1');
+        console.log('✅ Registro exitoso');
+        queryClient.clear();
 
         // Actualizar estado
         setUsuario(response.data.usuario);
@@ -276,19 +362,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   /**
    * Cierra la sesión actual
-   * Elimina el token del localStorage y redirige al login
+   * El backend revoca la sesión y borra las cookies; luego redirige al login
    * 
    * @example
-   * logout(); // Cierra sesión y redirige a /login
+   * await logout(); // Cierra sesión y redirige a /login
    */
-  const logout = () => {
-    // Limpiar token
-    localStorage.removeItem('token');
-    console.log('👋 Sesión cerrada - Token eliminado');
+  const logout = async () => {
+    try {
+      await api.auth.logout();
+    } catch (error) {
+      // Sin conexión igual se limpia el navegador; la sesión vencerá sola
+      console.error('❌ Error al cerrar sesión en el servidor:', error);
+    }
+    localStorage.removeItem(MARCA_SESION);
+    console.log('👋 Sesión cerrada');
 
-    // Limpiar estado
+    // Limpiar estado y caché
     setUsuario(null);
     setTienda(null);
+    queryClient.clear();
 
     // Redirigir al login
     router.push('/login');
@@ -298,16 +390,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    * Refresca los datos del usuario desde el backend
    * Útil después de actualizar perfil o tienda
    * 
+   * También invalida la caché de la tienda (panel y catálogo público):
+   * las consultas abiertas se recargan en segundo plano. Si la tienda
+   * cambió, se descarta la caché de la anterior.
+   * 
    * @example
    * // Después de actualizar la tienda
-   * await api.tiendas.update(id, datos);
+   * await api.tiendas.update(datos);
    * await refreshUser(); // Recargar datos
    */
   const refreshUser = async () => {
     try {
-      const token = localStorage.getItem('token');
-      if (!token) {
-        console.warn('⚠️ No hay token para refrescar');
+      if (!usuario) {
+        console.warn('⚠️ No hay sesión para refrescar');
         return;
       }
 
@@ -316,15 +411,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       if (response.success) {
         console.log('✅ Datos del usuario actualizados');
-        const { usuario, tienda } = response.data;
+        const { usuario, tienda: tiendaActual } = response.data;
         
         setUsuario(usuario);
         
         // Admin no tiene tienda
-        if (usuario.rol === 'admin') {
-          setTienda(null);
-        } else {
-          setTienda(tienda || null);
+        const nuevaTienda = usuario.role === 'admin' ? null : tiendaActual || null;
+        setTienda(nuevaTienda);
+
+        if (tienda && tienda._id !== nuevaTienda?._id) {
+          queryClient.removeQueries({ queryKey: claves.tienda(tienda._id) });
+        }
+        if (tienda && tienda.slug !== nuevaTienda?.slug) {
+          queryClient.removeQueries({ queryKey: claves.catalogo(tienda.slug) });
+        }
+        if (nuevaTienda) {
+          await Promise.all([
+            queryClient.invalidateQueries({ queryKey: claves.tienda(nuevaTienda._id) }),
+            queryClient.invalidateQueries({ queryKey: claves.catalogo(nuevaTienda.slug) }),
+          ]);
         }
       }
     } catch (error) {
@@ -333,7 +438,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   // Calcular si es admin
-  const isAdmin = usuario?.rol === 'admin';
+  const isAdmin = usuario?.role === 'admin';
 
   // Valor del contexto
   const value = {
@@ -343,6 +448,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isLoading,
     isAdmin,
     login,
+    loginDosPasos,
+    loginConCodigo,
     registro,
     logout,
     refreshUser,
@@ -0,0 +1,340 @@
+// fronted/src/contexts/CarritoContext.tsx
+/**
+ * @fileoverview Contexto del carrito de compras del catálogo público
+ * Maneja los productos agregados por el cliente en una tienda
+ * y los persiste en localStorage (un carrito por slug de tienda)
+ * @module CarritoContext
+ */
+
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { ItemCarrito, Producto, Variante } from '@/types';
+
+// ===================================
+// TIPOS
+// ===================================
+
+/**
+ * Tipo del contexto del carrito
+ * @interface CarritoContextType
+ */
+interface CarritoContextType {
+  /** Slug de la tienda a la que pertenece el carrito */
+  tiendaSlug: string;
+  /** Líneas del carrito */
+  items: ItemCarrito[];
+  /** Cantidad total de unidades */
+  totalItems: number;
+  /** Monto total del pedido (con precios de oferta aplicados) */
+  total: number;
+  /** Indica si el panel del carrito está abierto */
+  abierto: boolean;
+  /** Abre o cierra el panel del carrito */
+  setAbierto: (abierto: boolean) => void;
+  /** Agrega un producto o variante (o suma cantidad si ya existe) */
+  agregar: (producto: Producto, cantidad?: number, variante?: Variante) => void;
+  /** Cambia la cantidad de una línea (0 la elimina) */
+  actualizarCantidad: (clave: string, cantidad: number) => void;
+  /** Quita una línea del carrito */
+  quitar: (clave: string) => void;
+  /** Vacía el carrito */
+  vaciar: () => void;
+  /** Actualiza precios y stock con datos frescos del catálogo */
+  sincronizar: (productos: Producto[]) => void;
+  /** Cantidad de un producto o variante en el carrito (0 si no está) */
+  cantidadDe: (productoId: string, varianteId?: string) => number;
+}
+
+// ===================================
+// HELPERS
+// ===================================
+
+/**
+ * Genera la key de localStorage para el carrito de una tienda
+ * @param tiendaSlug - Slug de la tienda
+ * @private
+ */
+const storageKey = (tiendaSlug: string) => `carrito:${tiendaSlug}`;
+
+/**
+ * Precio unitario efectivo de una línea (oferta si existe)
+ *
+ * @param item - Línea del carrito
+ * @returns Precio unitario a cobrar
+ *
+ * @example
+ * precioUnitario({ precio: 25, precio_oferta: 20, ... }) // → 20
+ */
+export const precioUnitario = (item: Pick<ItemCarrito, 'precio' | 'precio_oferta'>) =>
+  item.precio_oferta || item.precio;
+
+/**
+ * Clave única de una línea del carrito (producto + variante)
+ *
+ * @param item - Línea del carrito
+ * @returns Clave para actualizar o quitar la línea
+ *
+ * @example
+ * claveItem({ producto_id: 'abc', variante_id: 'v1', ... }) // → "abc:v1"
+ */
+export const claveItem = (item: Pick<ItemCarrito, 'producto_id' | 'variante_id'>) =>
+  `${item.producto_id}:${item.variante_id || ''}`;
+
+/**
+ * Precio regular y de oferta de un producto o de una de sus variantes
+ * El precio propio de la variante reemplaza al del producto (sin oferta)
+ *
+ * @param producto - Producto
+ * @param variante - Variante elegida (opcional)
+ * @returns Precios a mostrar y cobrar
+ *
+ * @example
+ * preciosDe(producto, { precio: 30, ... }) // → { precio: 30, precio_oferta: undefined }
+ */
+export const preciosDe = (
+  producto: Pick<Producto, 'precio' | 'precio_oferta'>,
+  variante?: Pick<Variante, 'precio'>
+): Pick<ItemCarrito, 'precio' | 'precio_oferta'> =>
+  variante?.precio
+    ? { precio: variante.precio, precio_oferta: undefined }
+    : { precio: producto.precio, precio_oferta: producto.precio_oferta };
+
+/**
+ * Limita una cantidad al rango [0, stock]
+ * @private
+ */
+const limitarCantidad = (cantidad: number, stock: number) =>
+  Math.max(0, Math.min(Math.floor(cantidad), stock));
+
+/**
+ * Lee el carrito guardado de una tienda
+ * Descarta datos corruptos sin romper la página
+ * @private
+ */
+const leerCarrito = (tiendaSlug: string): ItemCarrito[] => {
+  try {
+    const guardado = localStorage.getItem(storageKey(tiendaSlug));
+    if (!guardado) return [];
+
+    const items = JSON.parse(guardado);
+    return Array.isArray(items) ? items : [];
+  } catch (error) {
+    console.warn('⚠️ Carrito guardado inválido - Se descarta:', error);
+    return [];
+  }
+};
+
+// ===================================
+// CONTEXTO
+// ===================================
+
+/** Contexto del carrito */
+const CarritoContext = createContext<CarritoContextType | undefined>(undefined);
+
+// ===================================
+// PROVIDER
+// ===================================
+
+/**
+ * Proveedor del carrito de una tienda
+ *
+ * Cada tienda tiene su propio carrito en localStorage,
+ * así un cliente puede armar pedidos en varias tiendas sin mezclarlos.
+ *
+ * @param props - Props del componente
+ * @param props.tiendaSlug - Slug de la tienda actual
+ * @param props.children - Componentes hijos
+ *
+ * @example
+ * // En app/[tienda]/layout.tsx
+ * <CarritoProvider tiendaSlug={tienda}>
+ *   {children}
+ * </CarritoProvider>
+ */
+export function CarritoProvider({
+  tiendaSlug,
+  children
+}: {
+  tiendaSlug: string;
+  children: React.ReactNode;
+}) {
+  const [items, setItems] = useState<ItemCarrito[]>([]);
+  const [abierto, setAbierto] = useState(false);
+  /** Evita sobrescribir localStorage antes de haberlo leído */
+  const [cargado, setCargado] = useState(false);
+
+  /**
+   * Carga el carrito guardado al montar o al cambiar de tienda
+   */
+  useEffect(() => {
+    setItems(leerCarrito(tiendaSlug));
+    setCargado(true);
+  }, [tiendaSlug]);
+
+  /**
+   * Persiste el carrito en cada cambio
+   */
+  useEffect(() => {
+    if (!cargado) return;
+
+    if (items.length === 0) {
+      localStorage.removeItem(storageKey(tiendaSlug));
+    } else {
+      localStorage.setItem(storageKey(tiendaSlug), JSON.stringify(items));
+    }
+  }, [items, cargado, tiendaSlug]);
+
+  const agregar = useCallback((producto: Producto, cantidad = 1, variante?: Variante) => {
+    // Un producto con variantes solo se agrega con una variante elegida
+    if (producto.variantes?.length && !variante) return;
+
+    const stock = variante ? variante.stock : producto.stock;
+    if (!producto.hay_stock || stock <= 0) return;
+
+    const nuevo: ItemCarrito = {
+      producto_id: producto._id,
+      variante_id: variante?._id,
+      variante_nombre: variante?.nombre,
+      nombre: producto.nombre,
+      ...preciosDe(producto, variante),
+      imagen: variante?.imagen?.url || producto.imagenes[0]?.url,
+      stock,
+      cantidad: Math.max(1, limitarCantidad(cantidad, stock))
+    };
+    const clave = claveItem(nuevo);
+
+    setItems((actuales) => {
+      const existente = actuales.find((item) => claveItem(item) === clave);
+
+      if (existente) {
+        return actuales.map((item) =>
+          claveItem(item) === clave
+            ? { ...item, stock, cantidad: limitarCantidad(item.cantidad + cantidad, stock) }
+            : item
+        );
+      }
+
+      return [...actuales, nuevo];
+    });
+    setAbierto(true);
+  }, []);
+
+  const actualizarCantidad = useCallback((clave: string, cantidad: number) => {
+    setItems((actuales) =>
+      actuales
+        .map((item) =>
+          claveItem(item) === clave
+            ? { ...item, cantidad: limitarCantidad(cantidad, item.stock) }
+            : item
+        )
+        .filter((item) => item.cantidad > 0)
+    );
+  }, []);
+
+  const quitar = useCallback((clave: string) => {
+    setItems((actuales) => actuales.filter((item) => claveItem(item) !== clave));
+  }, []);
+
+  const vaciar = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  /**
+   * Actualiza precios y stock del carrito con el catálogo actual
+   * Quita productos o variantes que ya no existen, están inactivos o sin stock
+   */
+  const sincronizar = useCallback((productos: Producto[]) => {
+    const porId = new Map(productos.map((producto) => [producto._id, producto]));
+
+    setItems((actuales) =>
+      actuales
+        .map((item): ItemCarrito | null => {
+          const producto = porId.get(item.producto_id);
+          if (!producto || !producto.activo || !producto.hay_stock) return null;
+
+          const variantes = producto.variantes || [];
+          const variante = variantes.find((v) => v._id === item.variante_id);
+          // La línea debe seguir coincidiendo con la estructura del producto
+          if (variantes.length > 0 ? !variante : item.variante_id) return null;
+
+          const stock = variante ? variante.stock : producto.stock;
+
+          return {
+            ...item,
+            nombre: producto.nombre,
+            variante_nombre: variante?.nombre,
+            ...preciosDe(producto, variante),
+            imagen: variante?.imagen?.url || producto.imagenes[0]?.url,
+            stock,
+            cantidad: limitarCantidad(item.cantidad, stock)
+          };
+        })
+        .filter((item): item is ItemCarrito => item !== null && item.cantidad > 0)
+    );
+  }, []);
+
+  const cantidadDe = useCallback(
+    (productoId: string, varianteId?: string) => {
+      const clave = claveItem({ producto_id: productoId, variante_id: varianteId });
+      return items.find((item) => claveItem(item) === clave)?.cantidad || 0;
+    },
+    [items]
+  );
+
+  const totalItems = useMemo(
+    () => items.reduce((suma, item) => suma + item.cantidad, 0),
+    [items]
+  );
+
+  const total = useMemo(
+    () => items.reduce((suma, item) => suma + precioUnitario(item) * item.cantidad, 0),
+    [items]
+  );
+
+  const value = {
+    tiendaSlug,
+    items,
+    totalItems,
+    total,
+    abierto,
+    setAbierto,
+    agregar,
+    actualizarCantidad,
+    quitar,
+    vaciar,
+    sincronizar,
+    cantidadDe
+  };
+
+  return (
+    <CarritoContext.Provider value={value}>
+      {children}
+    </CarritoContext.Provider>
+  );
+}
+
+// ===================================
+// HOOK
+// ===================================
+
+/**
+ * Hook para acceder al carrito de la tienda actual
+ * Debe usarse dentro de un CarritoProvider
+ *
+ * @returns Contexto del carrito
+ * @throws Error si se usa fuera de CarritoProvider
+ *
+ * @example
+ * function BotonAgregar({ producto }: { producto: Producto }) {
+ *   const { agregar } = useCarrito();
+ *   return <button onClick={() => agregar(producto)}>Agregar</button>;
+ * }
+ */
+export function useCarrito() {
+  const context = useContext(CarritoContext);
+  if (context === undefined) {
+    throw new Error('useCarrito debe ser usado dentro de un CarritoProvider');
+  }
+  return context;
+}
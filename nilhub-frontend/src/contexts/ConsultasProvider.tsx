@@ -0,0 +1,32 @@
+// src/contexts/ConsultasProvider.tsx
+/**
+ * @fileoverview Proveedor de la caché de datos (TanStack Query)
+ * Debe envolver al AuthProvider: la sesión invalida la caché al cambiar
+ * @module ConsultasProvider
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { crearClienteConsultas } from '@/lib/consultas';
+
+/**
+ * Proveedor de la caché de consultas
+ * El cliente se crea una vez por montaje (no se comparte entre requests del servidor)
+ *
+ * @example
+ * // En layout.tsx
+ * <ConsultasProvider>
+ *   <AuthProvider>{children}</AuthProvider>
+ * </ConsultasProvider>
+ */
+export function ConsultasProvider({ children }: { children: React.ReactNode }) {
+  const [queryClient] = useState(crearClienteConsultas);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  );
+}
@@ -0,0 +1,60 @@
+// src/hooks/useCategorias.ts
+/**
+ * @fileoverview Categorías de la tienda del vendedor, con caché
+ * Las comparten la página de categorías y los filtros de productos.
+ * @module useCategorias
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import api from '@/lib/api';
+import { claves, useMutacionOptimista } from '@/lib/consultas';
+import type { Categoria } from '@/types';
+
+/**
+ * Categorías de mi tienda (no consulta nada si el usuario no tiene tienda)
+ *
+ * @example
+ * const { data: categorias = [] } = useMisCategorias();
+ */
+export function useMisCategorias() {
+  const { tienda } = useAuth();
+  const tiendaId = tienda?._id ?? '';
+
+  return useQuery({
+    queryKey: claves.categorias(tiendaId),
+    queryFn: async () => (await api.categorias.getMisCategorias()).data,
+    enabled: !!tiendaId,
+  });
+}
+
+/**
+ * Guarda un nuevo orden de las categorías
+ * Recibe la lista completa ya reordenada y la muestra al instante
+ */
+export function useReordenarCategorias() {
+  const { tienda } = useAuth();
+
+  return useMutacionOptimista({
+    queryKey: claves.categorias(tienda?._id ?? ''),
+    mutationFn: (reordenadas: Categoria[]) => api.categorias.reordenar(reordenadas.map((c) => c._id)),
+    aplicar: (_actuales: Categoria[], reordenadas) => reordenadas,
+  });
+}
+
+/**
+ * Marca las categorías de mi tienda como desactualizadas (tras crear, editar o eliminar)
+ */
+export function useInvalidarCategorias() {
+  const { tienda } = useAuth();
+  const queryClient = useQueryClient();
+  const tiendaId = tienda?._id ?? '';
+
+  return useCallback(
+    () => queryClient.invalidateQueries({ queryKey: claves.categorias(tiendaId) }),
+    [queryClient, tiendaId]
+  );
+}
@@ -0,0 +1,121 @@
+// src/hooks/useProductos.ts
+/**
+ * @fileoverview Productos de la tienda del vendedor, con caché
+ * La lista la comparten el dashboard y la página de productos; las
+ * ediciones rápidas (stock, activar/ocultar, eliminar) son optimistas.
+ * @module useProductos
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import api from '@/lib/api';
+import { claves, useMutacionOptimista } from '@/lib/consultas';
+import type { Producto } from '@/types';
+
+// ===================================
+// CONSULTAS
+// ===================================
+
+/**
+ * Productos de mi tienda (no consulta nada si el usuario no tiene tienda)
+ *
+ * @example
+ * const { data: productos = [], isLoading } = useMisProductos();
+ */
+export function useMisProductos() {
+  const { tienda } = useAuth();
+  const tiendaId = tienda?._id ?? '';
+
+  return useQuery({
+    queryKey: claves.productos(tiendaId),
+    queryFn: async () => (await api.productos.getMisProductos()).data,
+    enabled: !!tiendaId,
+  });
+}
+
+/**
+ * Un producto de mi tienda (formulario de edición)
+ * Se invalida junto con la lista: su clave cuelga de la de productos
+ *
+ * @param id - ID del producto
+ */
+export function useProducto(id: string) {
+  const { tienda } = useAuth();
+  const tiendaId = tienda?._id ?? '';
+
+  return useQuery({
+    queryKey: claves.producto(tiendaId, id),
+    queryFn: async () => (await api.productos.getById(id)).data,
+    enabled: !!tiendaId && !!id,
+  });
+}
+
+// ===================================
+// MUTACIONES
+// ===================================
+
+/**
+ * Cambia el stock de un producto sin variantes
+ * hay_stock se recalcula igual que en el backend
+ */
+export function useActualizarStock() {
+  const { tienda } = useAuth();
+
+  return useMutacionOptimista({
+    queryKey: claves.productos(tienda?._id ?? ''),
+    mutationFn: ({ id, stock }: { id: string; stock: number }) => api.productos.updateStock(id, stock),
+    aplicar: (productos: Producto[], { id, stock }) =>
+      productos.map((p) => (p._id === id ? { ...p, stock, hay_stock: stock > 0 } : p)),
+  });
+}
+
+/**
+ * Activa u oculta un producto del catálogo
+ */
+export function useCambiarActivo() {
+  const { tienda } = useAuth();
+
+  return useMutacionOptimista({
+    queryKey: claves.productos(tienda?._id ?? ''),
+    mutationFn: ({ id, activo }: { id: string; activo: boolean }) => api.productos.update(id, { activo }),
+    aplicar: (productos: Producto[], { id, activo }) =>
+      productos.map((p) => (p._id === id ? { ...p, activo } : p)),
+  });
+}
+
+/**
+ * Elimina un producto (desaparece de la lista al instante)
+ */
+export function useEliminarProducto() {
+  const { tienda } = useAuth();
+
+  return useMutacionOptimista({
+    queryKey: claves.productos(tienda?._id ?? ''),
+    mutationFn: (id: string) => api.productos.delete(id),
+    aplicar: (productos: Producto[], id) => productos.filter((p) => p._id !== id),
+  });
+}
+
+/**
+ * Marca los productos de mi tienda como desactualizados
+ * Para después de crear, editar o importar: las páginas abiertas se recargan
+ * en segundo plano
+ *
+ * @example
+ * const invalidarProductos = useInvalidarProductos();
+ * await api.productos.create(datos);
+ * invalidarProductos();
+ */
+export function useInvalidarProductos() {
+  const { tienda } = useAuth();
+  const queryClient = useQueryClient();
+  const tiendaId = tienda?._id ?? '';
+
+  return useCallback(
+    () => queryClient.invalidateQueries({ queryKey: claves.productos(tiendaId) }),
+    [queryClient, tiendaId]
+  );
+}
@@ -0,0 +1,38 @@
+// src/hooks/useSesiones.ts
+/**
+ * @fileoverview Dispositivos con sesión iniciada del usuario, con caché
+ * Cerrar la sesión de un dispositivo lo quita de la lista al instante.
+ * @module useSesiones
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import api from '@/lib/api';
+import { claves, useMutacionOptimista } from '@/lib/consultas';
+import type { SesionAbierta } from '@/types';
+
+/**
+ * Sesiones abiertas del usuario, la de uso más reciente primero
+ *
+ * @example
+ * const { data: sesiones = [], isLoading } = useSesiones();
+ */
+export function useSesiones() {
+  return useQuery({
+    queryKey: claves.sesiones(),
+    queryFn: api.auth.getSesiones,
+  });
+}
+
+/**
+ * Cierra la sesión de un dispositivo
+ * Si es la de este navegador, hay que cerrar sesión también aquí (logout)
+ */
+export function useCerrarSesionDeDispositivo() {
+  return useMutacionOptimista({
+    queryKey: claves.sesiones(),
+    mutationFn: (id: string) => api.auth.cerrarSesionDeDispositivo(id),
+    aplicar: (sesiones: SesionAbierta[], id) => sesiones.filter((s) => s._id !== id),
+  });
+}
@@ -0,0 +1,1818 @@
+// src/lib/api.generado.ts
+/**
+ * @fileoverview Tipos y cliente de NilHub API 1.0.0
+ * GENERADO por scripts/generar-api.mjs desde la especificación OpenAPI del backend.
+ * No editar a mano: cambia la especificación y ejecuta `npm run api:generar`.
+ * @module api.generado
+ */
+
+import type { AxiosInstance, AxiosRequestConfig } from 'axios';
+
+// ===================================
+// ESQUEMAS
+// ===================================
+
+export interface RespuestaError {
+  success: false;
+  /** Primer mensaje (para mostrar) */
+  error: string;
+  /** Todos los errores de validación del body o query (solo en 400) */
+  errores?: Array<{
+    /** Ruta del campo (ej: variantes.0.stock) */
+    campo: string;
+    mensaje: string;
+  }>;
+}
+
+export interface Imagen {
+  /** URL completa de la imagen */
+  url: string;
+  /** ID de Cloudinary (para eliminarla) */
+  cloudinary_id: string;
+}
+
+export interface VarianteEntrada {
+  /** Solo para conservar una variante existente */
+  _id?: string;
+  nombre: string;
+  color?: string;
+  talla?: string;
+  sku?: string;
+  /** Si falta, se usa el del producto */
+  precio?: number;
+  stock: number;
+  imagen?: Imagen;
+}
+
+export type Variante = VarianteEntrada & {
+  _id: string;
+};
+
+export interface ProductoEntrada {
+  nombre?: string;
+  descripcion?: string;
+  /** Slug de una categoría de la tienda */
+  categoria?: string;
+  marca?: string;
+  /** Único en la tienda */
+  sku?: string;
+  precio?: number;
+  /** Menor que precio */
+  precio_oferta?: number;
+  /** Se ignora si hay variantes (es la suma de sus stocks) */
+  stock?: number;
+  imagenes?: Imagen[];
+  ingredientes?: string;
+  peso?: string;
+  variantes?: VarianteEntrada[];
+  activo?: boolean;
+}
+
+export interface Producto {
+  _id: string;
+  tienda_id: string;
+  nombre: string;
+  descripcion?: string;
+  /** Slug de la categoría de la tienda */
+  categoria: string;
+  marca?: string;
+  /** Código del producto (único en la tienda) */
+  sku?: string;
+  /** Precio regular en soles */
+  precio: number;
+  precio_oferta?: number;
+  /** Cantidad disponible (suma de variantes si las hay) */
+  stock: number;
+  hay_stock: boolean;
+  variantes?: Variante[];
+  imagenes: Imagen[];
+  ingredientes?: string;
+  peso?: string;
+  /** Visibilidad en el catálogo */
+  activo: boolean;
+  vistas: number;
+  clicks_whatsapp: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Usuario registrado en la plataforma */
+export interface Usuario {
+  _id: string;
+  /** Nombre completo */
+  nombre: string;
+  /** Email (único, en minúsculas) */
+  email: string;
+  telefono?: string;
+  /** Rol en el sistema */
+  role: 'vendedor' | 'admin';
+  /** false = no puede iniciar sesión */
+  activo: boolean;
+  /** false = su tienda no aparece en el catálogo público */
+  email_verificado?: boolean;
+  /** Verificación en dos pasos (TOTP) */
+  dos_pasos?: {
+    activo: boolean;
+    activado_en: string | null;
+    /** true para administradores */
+    obligatorio: boolean;
+  };
+  /** Intentos de login fallidos seguidos */
+  bloqueo?: {
+    /** Se reinicia al ingresar o restablecer la contraseña */
+    intentos_fallidos: number;
+    /** Hasta cuándo se rechazan los intentos */
+    bloqueado_hasta: string | null;
+  };
+  /** Solo si pidió eliminar su cuenta */
+  eliminacion?: {
+    solicitada_en: string;
+    /** Hasta entonces puede cancelarla */
+    programada_para: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UsuarioResumen {
+  _id: string;
+  nombre: string;
+  email: string;
+}
+
+/** Campos editables de una tienda */
+export interface TiendaEntrada {
+  nombre?: string;
+  descripcion?: string;
+  /** Número con código de país */
+  whatsapp?: string;
+  /** Usuario de Instagram sin @ */
+  instagram?: string;
+  /** URL de Facebook */
+  facebook?: string;
+  logo_url?: string;
+  logo_cloudinary_id?: string;
+  banner_url?: string;
+  banner_cloudinary_id?: string;
+  /** Color hexadecimal del tema */
+  color_tema?: string;
+}
+
+/** Tienda virtual de un vendedor */
+export interface Tienda {
+  _id: string;
+  /** Dueño (con nombre y email en la vista pública y en el panel de admin) */
+  usuario_id: string | UsuarioResumen;
+  nombre: string;
+  /** URL amigable (única, generada del nombre) */
+  slug: string;
+  descripcion?: string;
+  /** Número con código de país */
+  whatsapp: string;
+  /** Usuario de Instagram sin @ */
+  instagram?: string;
+  /** URL de Facebook */
+  facebook?: string;
+  logo_url?: string;
+  logo_cloudinary_id?: string;
+  banner_url?: string;
+  banner_cloudinary_id?: string;
+  /** Color hexadecimal del tema */
+  color_tema: string;
+  /** false = desactivada por un admin */
+  activa: boolean;
+  /** true = oculta hasta que el dueño confirme su email */
+  verificacion_pendiente?: boolean;
+  /** true = oculta porque el dueño pidió eliminar su cuenta */
+  eliminacion_pendiente?: boolean;
+  /** Productos activos */
+  total_productos: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Respuesta de registro e inicio de sesión (las credenciales van en cookies httpOnly) */
+export interface Sesion {
+  usuario: Usuario;
+  /** null para administradores */
+  tienda: Tienda | null;
+}
+
+/** Respuesta del login cuando falta el código de dos pasos (no inicia sesión) */
+export interface DesafioDosPasos {
+  requiere_dos_pasos: true;
+  /** Se envía a /auth/login/dos-pasos; vence en 5 minutos */
+  desafio: string;
+}
+
+export interface EstadoDosPasos {
+  activo: boolean;
+  activado_en: string | null;
+  /** true para administradores (no se puede desactivar) */
+  obligatorio: boolean;
+  /** Códigos de recuperación sin usar */
+  codigos_restantes: number;
+}
+
+/** Códigos de recuperación de un solo uso (solo se ven en esta respuesta) */
+export interface CodigosRecuperacion {
+  codigos_recuperacion: string[];
+}
+
+export interface CodigoDosPasos {
+  /** 6 dígitos de la app o código de recuperación */
+  codigo: string;
+}
+
+/** Dispositivo con sesión iniciada (la ubicación es aproximada y solo si el proxy la informa) */
+export interface SesionAbierta {
+  _id: string;
+  dispositivo: {
+    navegador: string;
+    sistema: string;
+    movil: boolean;
+  };
+  ip: string;
+  /** Código ISO del país ("" si no se conoce) */
+  pais: string;
+  /** "" si no se conoce */
+  ciudad: string;
+  /** Última renovación (cada 15 minutos de uso) */
+  ultimo_uso: string;
+  createdAt: string;
+  /** true si es la sesión de quien consulta */
+  actual: boolean;
+}
+
+/** Intento de login (correcto o fallido) */
+export interface Acceso {
+  fecha: string;
+  exito: boolean;
+  /** contrasena, código de acceso sin contraseña o código de dos pasos */
+  metodo: 'contrasena' | 'codigo' | 'dos_pasos';
+  /** Por qué falló (null si fue correcto) */
+  motivo: string | null;
+  ip: string;
+  /** Código ISO del país ("" si no se conoce) */
+  pais: string;
+  /** "" si no se conoce */
+  ciudad: string;
+  dispositivo: {
+    navegador: string;
+    sistema: string;
+    movil: boolean;
+  };
+}
+
+/** Ícono de lucide-react de una categoría */
+export type IconoCategoria = 'sparkles' | 'leaf' | 'wind' | 'heart' | 'scissors' | 'package' | 'shirt' | 'gem' | 'baby' | 'cookie' | 'coffee' | 'gift' | 'home' | 'smartphone' | 'star' | 'tag';
+
+/** Categoría de productos definida por cada tienda */
+export interface Categoria {
+  _id: string;
+  tienda_id?: string;
+  nombre: string;
+  /** Identificador usado en Producto.categoria (único por tienda) */
+  slug: string;
+  icono: IconoCategoria;
+  /** Posición en el catálogo (menor primero) */
+  orden: number;
+  /** Categoría padre (un solo nivel de subcategorías) */
+  padre_id?: string | null;
+  /** Solo en el panel */
+  total_productos?: number;
+}
+
+/** Estado de un pedido en el panel del vendedor */
+export type EstadoPedido = 'pendiente' | 'confirmado' | 'entregado' | 'cancelado';
+
+export interface ItemPedido {
+  producto_id: string;
+  nombre: string;
+  variante_id?: string;
+  variante_nombre?: string;
+  /** Precio al momento del pedido */
+  precio_unitario: number;
+  cantidad: number;
+  subtotal: number;
+}
+
+/** Pedido generado desde el carrito del catálogo */
+export interface Pedido {
+  _id: string;
+  tienda_id: string;
+  /** Código corto incluido en el mensaje de WhatsApp (ej: NH-7K3Q9) */
+  codigo: string;
+  cliente_nombre: string;
+  /** Solo dígitos */
+  cliente_telefono: string;
+  items: ItemPedido[];
+  total: number;
+  estado: EstadoPedido;
+  /** Si ya se descontó el stock (al confirmar) */
+  stock_descontado: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Facetas del catálogo: cada una ignora su propio filtro */
+export interface FacetasCatalogo {
+  /** Productos por slug de categoría (sin sumar subcategorías) */
+  categorias: Array<{
+    slug: string;
+    total: number;
+  }>;
+  /** Productos por marca, de mayor a menor */
+  marcas: Array<{
+    nombre: string;
+    total: number;
+  }>;
+  /** Rango de precios disponible (null si no hay productos) */
+  precio: {
+    min: number;
+    max: number;
+  } | null;
+  /** Productos con stock */
+  en_stock: number;
+}
+
+/** Página del catálogo público */
+export interface PaginaCatalogo {
+  productos: Producto[];
+  /** Productos que cumplen los filtros (no solo los de la página) */
+  total: number;
+  /** Cursor de la próxima página (null en la última) */
+  siguiente: string | null;
+  /** Solo en la primera página */
+  facetas: FacetasCatalogo | null;
+}
+
+/** Sugerencias del buscador del catálogo */
+export interface SugerenciasBusqueda {
+  /** Productos más relevantes */
+  productos: Array<{
+    _id: string;
+    nombre: string;
+    marca?: string;
+    precio: number;
+    precio_oferta?: number;
+    imagen?: string;
+  }>;
+  marcas: string[];
+  categorias: Array<{
+    nombre: string;
+    slug: string;
+  }>;
+}
+
+/** Slugs e IDs públicos para generar sitemap.xml */
+export interface MapaDelSitio {
+  /** Tiendas activas */
+  tiendas: Array<{
+    slug: string;
+    updatedAt: string;
+  }>;
+  /** Productos activos de tiendas activas (tienda = slug) */
+  productos: Array<{
+    _id: string;
+    tienda: string;
+    updatedAt: string;
+  }>;
+}
+
+/** Campo de producto que se puede importar/exportar */
+export type CampoImportacion = 'sku' | 'nombre' | 'descripcion' | 'categoria' | 'marca' | 'precio' | 'precio_oferta' | 'stock' | 'imagenes' | 'ingredientes' | 'peso' | 'activo';
+
+/** Resultado de una importación de productos */
+export interface ResultadoImportacion {
+  /** Encabezados del archivo */
+  columnas: string[];
+  /** Columna usada para cada campo (sugerida si no se envió) */
+  mapeo: {
+    sku?: string;
+    nombre?: string;
+    descripcion?: string;
+    categoria?: string;
+    marca?: string;
+    precio?: string;
+    precio_oferta?: string;
+    stock?: string;
+    imagenes?: string;
+    ingredientes?: string;
+    peso?: string;
+    activo?: string;
+  };
+  /** Cómo se reconocen los productos existentes */
+  clave: 'sku' | 'nombre';
+  /** true si solo se validó, sin guardar */
+  simulacion: boolean;
+  /** Resultado de cada fila del archivo */
+  filas: Array<{
+    /** Número de fila en el archivo */
+    fila: number;
+    accion: 'crear' | 'actualizar' | 'error';
+    nombre: string;
+    sku: string;
+    errores: string[];
+    /** ID del producto guardado (solo al aplicar) */
+    producto_id?: string;
+  }>;
+  resumen: {
+    total: number;
+    crear: number;
+    actualizar: number;
+    errores: number;
+  };
+}
+
+/** Contadores de analítica de un día o período */
+export interface ContadoresAnalitica {
+  vistas: number;
+  clicks_whatsapp: number;
+  busquedas: number;
+  compartidos: number;
+}
+
+/** Resumen de analítica de la tienda */
+export interface ResumenAnalitica {
+  /** Primer día del período (YYYY-MM-DD) */
+  desde: string;
+  /** Último día del período (YYYY-MM-DD) */
+  hasta: string;
+  dias: number;
+  /** Totales del período; ctr = clicks / vistas (0 a 1) */
+  totales: ContadoresAnalitica & {
+    ctr: number;
+  };
+  /** Totales del período anterior de igual largo */
+  anteriores: ContadoresAnalitica & {
+    ctr: number;
+    desde: string;
+    hasta: string;
+  };
+  /** Un punto por día, incluidos los días sin eventos */
+  serie: Array<ContadoresAnalitica & {
+    dia: string;
+  }>;
+  /** Productos más vistos del período */
+  productos: Array<{
+    _id: string;
+    nombre: string;
+    imagen?: string;
+    vistas: number;
+    clicks_whatsapp: number;
+    compartidos: number;
+    ctr: number;
+  }>;
+  /** Textos más buscados (normalizados) */
+  busquedas: Array<{
+    texto: string;
+    total: number;
+    sin_resultados: number;
+  }>;
+  /** Vistas y clicks por fuente de tráfico (instagram, facebook, directo...) */
+  fuentes: Array<{
+    fuente: string;
+    vistas: number;
+    clicks_whatsapp: number;
+    ctr: number;
+  }>;
+  /** Vistas y clicks por campaña (utm_campaign) */
+  campanas: Array<{
+    campana: string;
+    fuente: string;
+    vistas: number;
+    clicks_whatsapp: number;
+    ctr: number;
+  }>;
+}
+
+/** Evento de la tienda que se puede enviar a un webhook */
+export type EventoWebhook = 'producto.creado' | 'producto.actualizado' | 'producto.eliminado' | 'producto.stock' | 'tienda.actualizada' | 'whatsapp.click';
+
+export type EstadoEntregaWebhook = 'pendiente' | 'exitosa' | 'fallida';
+
+/** Webhook saliente de la tienda (POST firmado por cada evento suscrito) */
+export interface Webhook {
+  _id: string;
+  tienda_id: string;
+  url: string;
+  eventos: EventoWebhook[];
+  /** Clave para verificar el header X-NilHub-Firma */
+  secreto: string;
+  descripcion?: string;
+  /** false = pausado, no se envían eventos */
+  activo: boolean;
+  /** Solo en el listado */
+  ultima_entrega?: {
+    estado: EstadoEntregaWebhook;
+    fecha: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookEntrada {
+  /** https, pública */
+  url?: string;
+  eventos?: EventoWebhook[];
+  descripcion?: string;
+  activo?: boolean;
+}
+
+/** Envío de un evento a un webhook, con cada intento */
+export interface EntregaWebhook {
+  _id: string;
+  webhook_id: string;
+  /** Un EventoWebhook o 'webhook.prueba' */
+  evento: string;
+  /** Cuerpo enviado: { id, evento, fecha, tienda_id, datos } */
+  payload: Record<string, unknown>;
+  estado: EstadoEntregaWebhook;
+  intentos: Array<{
+    fecha: string;
+    /** Código HTTP de la respuesta (no hay si no respondió) */
+    codigo?: number;
+    error?: string;
+    duracion_ms: number;
+  }>;
+  /** Próximo reintento si sigue pendiente */
+  proximo_intento?: string | null;
+  createdAt: string;
+}
+
+/** Permiso de un token de API */
+export type PermisoToken = 'catalogo:leer' | 'productos:escribir' | 'stock:escribir';
+
+/** Token de API personal para /api/v1 (el token completo solo se ve al crearlo) */
+export interface TokenApi {
+  _id: string;
+  nombre: string;
+  /** Primeros caracteres del token (ej: nhk_3f9a2c) */
+  prefijo: string;
+  permisos: PermisoToken[];
+  limite_por_minuto: number;
+  ultimo_uso: string | null;
+  createdAt: string;
+}
+
+export interface TokenApiEntrada {
+  /** Para reconocerlo (ej: "Caja de la tienda") */
+  nombre?: string;
+  permisos?: PermisoToken[];
+  /** 60 por defecto */
+  limite_por_minuto?: number;
+}
+
+/** Origen de la visita y visitante (para atribución y para no contar repetidas) */
+export interface OrigenVisita {
+  /** Página externa de la que llegó el visitante */
+  referrer?: string;
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  /** ID anónimo del navegador */
+  visitante?: string;
+}
+
+/** Totales de la plataforma */
+export interface EstadisticasAdmin {
+  usuarios: number;
+  vendedores: number;
+  tiendas: number;
+  tiendas_activas: number;
+  productos: number;
+  productos_activos: number;
+}
+
+// ===================================
+// OPERACIONES
+// ===================================
+
+/**
+ * Contrato de cada ruta de la API (relativa a /api)
+ */
+export interface Operaciones {
+  /** Estado del servidor */
+  'GET /health': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: boolean;
+      status: string;
+      /** Segundos */
+      uptime: number;
+      mongodb?: string;
+      memory?: {
+        used?: string;
+        total?: string;
+      };
+      timestamp: string;
+    };
+  };
+  /** Esta especificación */
+  'GET /docs': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: Record<string, unknown>;
+  };
+  /** Registrar vendedor y crear su tienda */
+  'POST /auth/registro': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      nombre: string;
+      email: string;
+      password: string;
+      nombreTienda: string;
+      whatsapp: string;
+      instagram?: string;
+      facebook?: string;
+    };
+    respuesta: {
+      success: true;
+      data: Sesion;
+    };
+  };
+  /** Iniciar sesión */
+  'POST /auth/login': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      email: string;
+      password: string;
+    };
+    respuesta: {
+      success: true;
+      data: Sesion | DesafioDosPasos;
+    };
+  };
+  /** Pedir un código para ingresar sin contraseña */
+  'POST /auth/login/codigo': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      email: string;
+      metodo: 'email' | 'whatsapp';
+    };
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Ingresar con el código recibido */
+  'POST /auth/login/codigo/verificar': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      email: string;
+      /** Código de 6 dígitos */
+      code: string;
+    };
+    respuesta: {
+      success: true;
+      data: Sesion | DesafioDosPasos;
+    };
+  };
+  /** Completar el login con el código de dos pasos */
+  'POST /auth/login/dos-pasos': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      desafio: string;
+      codigo: string;
+    };
+    respuesta: {
+      success: true;
+      data: Sesion;
+    };
+  };
+  /** Usuario de la sesión y su tienda */
+  'GET /auth/me': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        usuario: Usuario;
+        tienda: Tienda | null;
+      };
+    };
+  };
+  /** Renovar la sesión */
+  'POST /auth/refresh': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Record<string, never>;
+    };
+  };
+  /** Cerrar sesión */
+  'POST /auth/logout': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Estado de la verificación en dos pasos */
+  'GET /auth/dos-pasos': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: EstadoDosPasos;
+    };
+  };
+  /** Generar secreto y QR para la app autenticadora */
+  'POST /auth/dos-pasos/configurar': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        /** Base32, para ingresarlo a mano */
+        secreto: string;
+        /** URL otpauth://totp/... */
+        otpauth: string;
+        /** QR como data URL PNG */
+        qr: string;
+      };
+    };
+  };
+  /** Activar con el primer código de la app */
+  'POST /auth/dos-pasos/activar': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: CodigoDosPasos;
+    respuesta: {
+      success: true;
+      data: CodigosRecuperacion;
+    };
+  };
+  /** Generar códigos de recuperación nuevos */
+  'POST /auth/dos-pasos/codigos': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: CodigoDosPasos;
+    respuesta: {
+      success: true;
+      data: CodigosRecuperacion;
+    };
+  };
+  /** Desactivar la verificación en dos pasos */
+  'POST /auth/dos-pasos/desactivar': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: CodigoDosPasos;
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Confirmar el email con el código enviado */
+  'POST /auth/verificar-email': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      /** Código de 6 dígitos */
+      code: string;
+    };
+    respuesta: {
+      success: true;
+      data: {
+        usuario: Usuario;
+      };
+    };
+  };
+  /** Descargar mis datos */
+  'GET /auth/cuenta/exportar': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: Blob;
+  };
+  /** Programar la eliminación de mi cuenta */
+  'POST /auth/cuenta/eliminacion': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      /** Contraseña actual */
+      password: string;
+    };
+    respuesta: {
+      success: true;
+      data: {
+        usuario: Usuario;
+      };
+    };
+  };
+  /** Cancelar la eliminación de mi cuenta */
+  'DELETE /auth/cuenta/eliminacion': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        usuario: Usuario;
+      };
+    };
+  };
+  /** Reenviar el código de verificación */
+  'POST /auth/verificar-email/reenviar': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        /** Segundos hasta poder pedir otro */
+        espera: number;
+        /** Solo en desarrollo */
+        code?: string;
+      };
+    };
+  };
+  /** Dispositivos con sesión iniciada */
+  'GET /auth/sesiones': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: SesionAbierta[];
+    };
+  };
+  /** Cerrar sesión en todos los dispositivos */
+  'DELETE /auth/sesiones': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        cerradas: number;
+      };
+    };
+  };
+  /** Cerrar sesión en un dispositivo */
+  'DELETE /auth/sesiones/{id}': {
+    parametros: {
+      /** ID de la sesión */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Historial de inicios de sesión */
+  'GET /auth/accesos': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Acceso[];
+    };
+  };
+  /** Enviar código de recuperación por email o WhatsApp */
+  'POST /auth/forgot-password': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      email: string;
+      metodo: 'email' | 'whatsapp';
+    };
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Verificar código de recuperación */
+  'POST /auth/verify-reset-code': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      email: string;
+      code: string;
+    };
+    respuesta: {
+      success: true;
+      data: {
+        /** El cambio pedirá también codigo_dos_pasos */
+        requiere_dos_pasos: boolean;
+      };
+    };
+  };
+  /** Cambiar contraseña con el código */
+  'POST /auth/reset-password': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      email: string;
+      code: string;
+      nuevaPassword: string;
+      /** Código de la app o de recuperación (obligatorio con verificación en dos pasos) */
+      codigo_dos_pasos?: string;
+    };
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Crear producto */
+  'POST /productos': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: ProductoEntrada & Required<Pick<ProductoEntrada, 'nombre' | 'categoria' | 'precio' | 'stock' | 'imagenes'>>;
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Productos de mi tienda (activos e inactivos) */
+  'GET /productos/mis-productos': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Producto[];
+    };
+  };
+  /** Descargar mis productos (mismo formato que la importación) */
+  'GET /productos/exportar': {
+    parametros: undefined;
+    query: {
+      formato?: 'csv' | 'xlsx';
+    };
+    cuerpo: undefined;
+    respuesta: Blob;
+  };
+  /** Importar productos desde CSV o XLSX */
+  'POST /productos/importar': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: FormData;
+    respuesta: {
+      success: true;
+      data: ResultadoImportacion;
+    };
+  };
+  /** Obtener producto */
+  'GET /productos/{id}': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Actualizar producto */
+  'PUT /productos/{id}': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: ProductoEntrada;
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Eliminar producto */
+  'DELETE /productos/{id}': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Record<string, never>;
+    };
+  };
+  /** Cambiar stock de un producto sin variantes */
+  'PATCH /productos/{id}/stock': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: {
+      stock: number;
+    };
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Registrar vista del producto */
+  'POST /productos/{id}/vista': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: OrigenVisita;
+    respuesta: {
+      success: true;
+      data: {
+        contada: boolean;
+      };
+    };
+  };
+  /** Registrar click en el botón de WhatsApp */
+  'POST /productos/{id}/click-whatsapp': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: OrigenVisita;
+    respuesta: {
+      success: true;
+      data: {
+        contada: boolean;
+      };
+    };
+  };
+  /** Crear tienda (si el usuario aún no tiene) */
+  'POST /tiendas': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: TiendaEntrada & Required<Pick<TiendaEntrada, 'nombre' | 'whatsapp'>>;
+    respuesta: {
+      success: true;
+      data: Tienda;
+    };
+  };
+  /** Mi tienda */
+  'GET /tiendas/mi-tienda': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Tienda;
+    };
+  };
+  /** Actualizar mi tienda */
+  'PUT /tiendas/mi-tienda': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: TiendaEntrada;
+    respuesta: {
+      success: true;
+      data: Tienda;
+    };
+  };
+  /** Tiendas y productos públicos para sitemap.xml */
+  'GET /tiendas/sitemap': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: MapaDelSitio;
+    };
+  };
+  /** Tienda activa por slug */
+  'GET /tiendas/{slug}': {
+    parametros: {
+      /** Slug de la tienda (GET) o su ID (PUT) */
+      slug: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Tienda;
+    };
+  };
+  /** Actualizar tienda por ID (solo la propia) */
+  'PUT /tiendas/{slug}': {
+    parametros: {
+      /** Slug de la tienda (GET) o su ID (PUT) */
+      slug: string;
+    };
+    query: undefined;
+    cuerpo: TiendaEntrada;
+    respuesta: {
+      success: true;
+      data: Tienda;
+    };
+  };
+  /** Página del catálogo con filtros, orden y facetas */
+  'GET /tiendas/{slug}/productos': {
+    parametros: {
+      /** Slug de la tienda */
+      slug: string;
+    };
+    query: {
+      /** Slug de categoría (incluye subcategorías) */
+      categoria?: string;
+      /** Texto en nombre, descripción o marca */
+      buscar?: string;
+      /** Marcas separadas por coma */
+      marca?: string;
+      /** Precio que paga el cliente */
+      precio_min?: number;
+      precio_max?: number;
+      en_stock?: 'true' | '1';
+      /** IDs separados por coma (máx. 100) */
+      ids?: string;
+      /** Por defecto relevancia si hay búsqueda, si no recientes */
+      orden?: 'relevancia' | 'recientes' | 'precio_asc' | 'precio_desc' | 'vistas' | 'ofertas';
+      limite?: number;
+      /** Valor de `siguiente` de la página anterior */
+      cursor?: string;
+    };
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: PaginaCatalogo & {
+        tienda: Tienda;
+      };
+    };
+  };
+  /** Autocompletar del buscador */
+  'GET /tiendas/{slug}/sugerencias': {
+    parametros: {
+      /** Slug de la tienda */
+      slug: string;
+    };
+    query: {
+      /** Texto escrito (desde 2 caracteres) */
+      q?: string;
+    };
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: SugerenciasBusqueda;
+    };
+  };
+  /** Registrar búsqueda o compartir en la analítica */
+  'POST /tiendas/{slug}/eventos': {
+    parametros: {
+      /** Slug de la tienda */
+      slug: string;
+    };
+    query: undefined;
+    cuerpo: OrigenVisita & {
+      tipo: 'busqueda' | 'compartir';
+      /** Texto buscado (en busqueda) */
+      texto?: string;
+      /** Productos encontrados (en busqueda) */
+      resultados?: number;
+      /** Producto compartido (en compartir) */
+      producto_id?: string;
+    };
+    respuesta: {
+      success: boolean;
+    };
+  };
+  /** Crear pedido desde el carrito */
+  'POST /pedidos': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      tienda_slug: string;
+      cliente_nombre: string;
+      cliente_telefono: string;
+      items: Array<{
+        producto_id: string;
+        variante_id?: string;
+        cantidad: number;
+      }>;
+    };
+    respuesta: {
+      success: true;
+      data: Pedido;
+    };
+  };
+  /** Pedidos de mi tienda (los 200 más recientes) */
+  'GET /pedidos/mis-pedidos': {
+    parametros: undefined;
+    query: {
+      estado?: EstadoPedido;
+    };
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        pedidos: Pedido[];
+        /** Pedidos por estado (todos, sin filtrar) */
+        resumen: {
+          pendiente: number;
+          confirmado: number;
+          entregado: number;
+          cancelado: number;
+        };
+      };
+    };
+  };
+  /** Obtener pedido de mi tienda */
+  'GET /pedidos/{id}': {
+    parametros: {
+      /** ID del pedido */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Pedido;
+    };
+  };
+  /** Cambiar estado del pedido */
+  'PATCH /pedidos/{id}/estado': {
+    parametros: {
+      /** ID del pedido */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: {
+      estado: EstadoPedido;
+    };
+    respuesta: {
+      success: true;
+      data: Pedido;
+    };
+  };
+  /** Crear categoría */
+  'POST /categorias': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      nombre: string;
+      icono?: IconoCategoria;
+      padre_id?: string | null;
+    };
+    respuesta: {
+      success: true;
+      data: Categoria;
+    };
+  };
+  /** Categorías de mi tienda con conteo de productos */
+  'GET /categorias/mis-categorias': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Categoria[];
+    };
+  };
+  /** Reordenar categorías */
+  'PATCH /categorias/orden': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      /** IDs en el orden nuevo */
+      ids: string[];
+    };
+    respuesta: {
+      success: true;
+      data: Categoria[];
+    };
+  };
+  /** Actualizar categoría */
+  'PUT /categorias/{id}': {
+    parametros: {
+      /** ID de la categoría */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: {
+      nombre?: string;
+      icono?: IconoCategoria;
+      padre_id?: string | null;
+    };
+    respuesta: {
+      success: true;
+      data: Categoria;
+    };
+  };
+  /** Eliminar categoría sin productos ni subcategorías */
+  'DELETE /categorias/{id}': {
+    parametros: {
+      /** ID de la categoría */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Record<string, never>;
+    };
+  };
+  /** Categorías de una tienda */
+  'GET /categorias/tienda/{slug}': {
+    parametros: {
+      /** Slug de la tienda */
+      slug: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Categoria[];
+    };
+  };
+  /** Resumen de mi tienda en un rango de días */
+  'GET /analitica/resumen': {
+    parametros: undefined;
+    query: {
+      /** Primer día (YYYY-MM-DD). Por defecto, hace 29 días */
+      desde?: string;
+      /** Último día (YYYY-MM-DD). Por defecto, hoy */
+      hasta?: string;
+    };
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: ResumenAnalitica;
+    };
+  };
+  /** Mis webhooks y los eventos que se pueden suscribir */
+  'GET /webhooks': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        webhooks: Webhook[];
+        eventos: EventoWebhook[];
+      };
+    };
+  };
+  /** Registrar webhook (el secreto lo genera el servidor) */
+  'POST /webhooks': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: WebhookEntrada & Required<Pick<WebhookEntrada, 'url' | 'eventos'>>;
+    respuesta: {
+      success: true;
+      data: Webhook;
+    };
+  };
+  /** Editar, pausar o reanudar webhook */
+  'PUT /webhooks/{id}': {
+    parametros: {
+      /** ID del webhook */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: WebhookEntrada;
+    respuesta: {
+      success: true;
+      data: Webhook;
+    };
+  };
+  /** Eliminar webhook y su registro de entregas */
+  'DELETE /webhooks/{id}': {
+    parametros: {
+      /** ID del webhook */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Generar un secreto nuevo (el anterior deja de valer) */
+  'POST /webhooks/{id}/secreto': {
+    parametros: {
+      /** ID del webhook */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Webhook;
+    };
+  };
+  /** Enviar un evento de prueba */
+  'POST /webhooks/{id}/prueba': {
+    parametros: {
+      /** ID del webhook */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: EntregaWebhook;
+    };
+  };
+  /** Últimas 50 entregas, más recientes primero */
+  'GET /webhooks/{id}/entregas': {
+    parametros: {
+      /** ID del webhook */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: EntregaWebhook[];
+    };
+  };
+  /** Mis tokens vigentes y los permisos disponibles */
+  'GET /tokens': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        tokens: TokenApi[];
+        permisos: PermisoToken[];
+      };
+    };
+  };
+  /** Crear token */
+  'POST /tokens': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: TokenApiEntrada & Required<Pick<TokenApiEntrada, 'nombre' | 'permisos'>>;
+    respuesta: {
+      success: true;
+      data: TokenApi & {
+        token: string;
+      };
+    };
+  };
+  /** Cambiar nombre, permisos o límite */
+  'PUT /tokens/{id}': {
+    parametros: {
+      /** ID del token */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: TokenApiEntrada;
+    respuesta: {
+      success: true;
+      data: TokenApi;
+    };
+  };
+  /** Revocar token */
+  'DELETE /tokens/{id}': {
+    parametros: {
+      /** ID del token */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Listar productos */
+  'GET /v1/productos': {
+    parametros: undefined;
+    query: {
+      limite?: number;
+      /** Valor de `siguiente` de la página anterior */
+      cursor?: string;
+      /** SKU del producto o de una variante */
+      sku?: string;
+      /** Solo productos modificados después de esta fecha (sincronización incremental) */
+      actualizado_desde?: string;
+    };
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: {
+        productos: Producto[];
+        /** null en la última página */
+        siguiente: string | null;
+      };
+    };
+  };
+  /** Crear producto */
+  'POST /v1/productos': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: ProductoEntrada & Required<Pick<ProductoEntrada, 'nombre' | 'categoria' | 'precio' | 'stock' | 'imagenes'>>;
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Obtener producto */
+  'GET /v1/productos/{id}': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Actualizar producto */
+  'PUT /v1/productos/{id}': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: ProductoEntrada;
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Eliminar producto */
+  'DELETE /v1/productos/{id}': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Record<string, never>;
+    };
+  };
+  /** Cambiar stock de un producto sin variantes */
+  'PATCH /v1/productos/{id}/stock': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: {
+      stock: number;
+    };
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Cambiar stock de una variante */
+  'PATCH /v1/productos/{id}/variantes/{varianteId}/stock': {
+    parametros: {
+      /** ID del producto */
+      id: string;
+      varianteId: string;
+    };
+    query: undefined;
+    cuerpo: {
+      stock: number;
+    };
+    respuesta: {
+      success: true;
+      data: Producto;
+    };
+  };
+  /** Cambiar stock por SKU (hasta 100) */
+  'PATCH /v1/stock': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: {
+      items: Array<{
+        sku: string;
+        stock: number;
+      }>;
+    };
+    respuesta: {
+      success: true;
+      data: {
+        actualizados: number;
+        resultados: Array<{
+          sku: string | null;
+          ok: boolean;
+          producto_id?: string;
+          stock?: number;
+          error?: string;
+        }>;
+      };
+    };
+  };
+  /** Subir una imagen a Cloudinary (máx. 5 MB) */
+  'POST /upload/imagen': {
+    parametros: undefined;
+    query: {
+      /** Carpeta en Cloudinary (dentro de nilhub/) */
+      folder?: string;
+    };
+    cuerpo: FormData;
+    respuesta: {
+      success: true;
+      data: Imagen;
+    };
+  };
+  /** Subir hasta 5 imágenes */
+  'POST /upload/imagenes': {
+    parametros: undefined;
+    query: {
+      /** Carpeta en Cloudinary (dentro de nilhub/) */
+      folder?: string;
+    };
+    cuerpo: FormData;
+    respuesta: {
+      success: true;
+      data: Imagen[];
+    };
+  };
+  /** Eliminar imagen de Cloudinary */
+  'DELETE /upload/{cloudinary_id}': {
+    parametros: {
+      /** ID de Cloudinary (codificado: las "/" van como %2F) */
+      cloudinary_id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Record<string, never>;
+    };
+  };
+  /** Totales de la plataforma */
+  'GET /admin/stats': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: EstadisticasAdmin;
+    };
+  };
+  /** Todos los usuarios */
+  'GET /admin/usuarios': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Usuario[];
+    };
+  };
+  /** Eliminar usuario con su tienda, productos e imágenes */
+  'DELETE /admin/usuarios/{id}': {
+    parametros: {
+      /** ID del usuario */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      message: string;
+    };
+  };
+  /** Quitar el bloqueo por intentos de login fallidos */
+  'PUT /admin/usuarios/{id}/desbloquear': {
+    parametros: {
+      /** ID del usuario */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Usuario;
+    };
+  };
+  /** Historial de inicios de sesión de un usuario */
+  'GET /admin/usuarios/{id}/accesos': {
+    parametros: {
+      /** ID del usuario */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Acceso[];
+    };
+  };
+  /** Todas las tiendas, con su dueño */
+  'GET /admin/tiendas': {
+    parametros: undefined;
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Tienda[];
+    };
+  };
+  /** Activar o desactivar tienda */
+  'PUT /admin/tiendas/{id}/toggle': {
+    parametros: {
+      /** ID de la tienda */
+      id: string;
+    };
+    query: undefined;
+    cuerpo: undefined;
+    respuesta: {
+      success: true;
+      data: Tienda;
+    };
+  };
+}
+
+// ===================================
+// CLIENTE
+// ===================================
+
+/**
+ * Operación de la API: 'MÉTODO /ruta' tal como aparece en la especificación
+ */
+export type Operacion = keyof Operaciones;
+
+/**
+ * Datos de una petición según el contrato de la operación
+ */
+export type OpcionesOperacion<O extends Operacion> =
+  (Operaciones[O]['parametros'] extends undefined
+    ? { parametros?: undefined }
+    : { parametros: Operaciones[O]['parametros'] }) &
+  (Operaciones[O]['query'] extends undefined
+    ? { query?: undefined }
+    : { query?: Operaciones[O]['query'] | URLSearchParams }) &
+  (Operaciones[O]['cuerpo'] extends undefined
+    ? { cuerpo?: undefined }
+    : { cuerpo: Operaciones[O]['cuerpo'] }) & {
+    /** Opciones extra de axios (ej: responseType) */
+    config?: AxiosRequestConfig;
+  };
+
+/**
+ * Las opciones solo son obligatorias si hay parámetros de ruta o body
+ */
+type ArgumentosOperacion<O extends Operacion> =
+  Operaciones[O]['parametros'] extends undefined
+    ? Operaciones[O]['cuerpo'] extends undefined
+      ? [opciones?: OpcionesOperacion<O>]
+      : [opciones: OpcionesOperacion<O>]
+    : [opciones: OpcionesOperacion<O>];
+
+/**
+ * Crea la función que hace las peticiones con una instancia de axios
+ *
+ * @example
+ * const solicitar = crearCliente(apiClient);
+ * const { data } = await solicitar('GET /productos/{id}', { parametros: { id } });
+ */
+export function crearCliente(http: AxiosInstance) {
+  return async function solicitar<O extends Operacion>(
+    operacion: O,
+    ...[opciones]: ArgumentosOperacion<O>
+  ): Promise<Operaciones[O]['respuesta']> {
+    const [metodo, plantilla] = operacion.split(' ');
+    const { parametros, query, cuerpo, config } = (opciones ?? {}) as {
+      parametros?: Record<string, string>;
+      query?: unknown;
+      cuerpo?: unknown;
+      config?: AxiosRequestConfig;
+    };
+
+    const url = plantilla.replace(/\{(\w+)\}/g, (_, nombre: string) =>
+      encodeURIComponent(parametros?.[nombre] ?? '')
+    );
+
+    const response = await http.request({
+      ...config,
+      method: metodo,
+      url,
+      params: query,
+      data: cuerpo,
+      ...(cuerpo instanceof FormData
+        ? { headers: { ...config?.headers, 'Content-Type': 'multipart/form-data' } }
+        : {}),
+    });
+
+    return response.data;
+  };
+}
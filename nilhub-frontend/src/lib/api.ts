@@ -5,7 +5,49 @@
  * @module api
  */
 
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import type {
+  Acceso,
+  Categoria,
+  EntregaWebhook,
+  EstadoPedido,
+  EventoWebhook,
+  PermisoToken,
+  EventoAnalitica,
+  FiltrosCatalogo,
+  Imagen,
+  PaginaCatalogo,
+  Pedido,
+  Producto,
+  ProductoEntrada,
+  ResultadoImportacion,
+  ResumenAnalitica,
+  CodigosRecuperacion,
+  DesafioDosPasos,
+  EstadoDosPasos,
+  Sesion,
+  SesionAbierta,
+  SugerenciasBusqueda,
+  Tienda,
+  TiendaEntrada,
+  TokenApi,
+  Usuario,
+  Webhook,
+} from '@/types';
+import { crearCliente, type Operaciones } from '@/lib/api.generado';
+import {
+  z,
+  erroresDeValidacion,
+  esquemaImagen,
+  esquemaProducto,
+  esquemaRespuestaLogin,
+  esquemaSesion,
+  esquemaTienda,
+  esquemaUsuarioActual,
+} from 'nilhub-shared';
+import { queryDeFiltros } from '@/lib/filtrosCatalogo';
+import { origenDelNavegador } from '@/lib/origen';
+import { idDeVisitante } from '@/lib/visitante';
 
 // ===================================
 // CONFIGURACIÓN
@@ -19,51 +61,104 @@ const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000/api';
 
 /**
  * Cliente de Axios configurado con base URL e interceptores
+ * withCredentials: envía las cookies de sesión (httpOnly) al backend
  * @constant
  */
 const apiClient = axios.create({
   baseURL: API_URL,
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+/**
+ * Peticiones tipadas según la especificación OpenAPI del backend
+ * (ver lib/api.generado.ts). Devuelve el cuerpo de la respuesta: { success, data }
+ * @constant
+ */
+const solicitar = crearCliente(apiClient);
+
 // ===================================
-// INTERCEPTORES
+// SESIÓN
 // ===================================
 
 /**
- * Interceptor de peticiones
- * Agrega el token JWT automáticamente si existe
+ * Rutas que no se reintentan tras renovar la sesión
+ * (un 401 ahí es la respuesta, no una sesión vencida)
+ * @constant
  */
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    console.error('Error en interceptor de petición:', error);
-    return Promise.reject(error);
-  }
-);
+const RUTAS_SIN_RENOVAR = ['/auth/login', '/auth/registro', '/auth/refresh', '/auth/logout'];
+
+/**
+ * Renovación en curso: las peticiones que fallan a la vez esperan la misma
+ * (el token de refresco sirve una sola vez)
+ */
+let renovacion: Promise<boolean> | null = null;
+
+/**
+ * Aviso de sesión terminada (lo registra AuthContext)
+ */
+let alTerminarSesion: (() => void) | null = null;
+
+/**
+ * Registra qué hacer cuando la sesión no se puede renovar
+ * @returns Función para quitar el registro
+ *
+ * @example
+ * useEffect(() => alExpirarSesion(() => setUsuario(null)), []);
+ */
+export const alExpirarSesion = (callback: () => void) => {
+  alTerminarSesion = callback;
+  return () => {
+    if (alTerminarSesion === callback) alTerminarSesion = null;
+  };
+};
+
+/**
+ * Renueva el JWT de acceso con la cookie de refresco
+ * @returns true si la sesión sigue abierta
+ */
+const renovarSesion = () => {
+  renovacion ??= solicitar('POST /auth/refresh')
+    .then(() => true)
+    .catch(() => false)
+    .finally(() => {
+      renovacion = null;
+    });
+  return renovacion;
+};
+
+// ===================================
+// INTERCEPTORES
+// ===================================
 
 /**
  * Interceptor de respuestas
- * Maneja errores globalmente
+ * Ante un 401 renueva la sesión una vez y repite la petición; si no se
+ * puede renovar, avisa a AuthContext (que limpia el estado)
  */
 apiClient.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      console.warn('Sesión expirada - Redirigiendo a login');
-      localStorage.removeItem('token');
-      if (typeof window !== 'undefined') {
-        window.location.href = '/login';
-      }
+  async (error: AxiosError) => {
+    const config = error.config as (InternalAxiosRequestConfig & { renovada?: boolean }) | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      config.renovada ||
+      RUTAS_SIN_RENOVAR.some((ruta) => config.url?.startsWith(ruta))
+    ) {
+      return Promise.reject(error);
+    }
+
+    if (await renovarSesion()) {
+      config.renovada = true;
+      return apiClient(config);
     }
+
+    console.warn('Sesión expirada');
+    alTerminarSesion?.();
     return Promise.reject(error);
   }
 );
@@ -72,58 +167,6 @@ apiClient.interceptors.response.use(
 // INTERFACES
 // ===================================
 
-export interface Usuario {
-  _id: string;
-  email: string;
-  nombre: string;
-  rol: 'vendedor' | 'admin';
-  activo: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Tienda {
-  _id: string;
-  usuario_id: string;
-  nombre: string;
-  slug: string;
-  descripcion?: string;
-  whatsapp: string;
-  instagram?: string;
-  facebook?: string;
-  logo_url?: string;
-  banner_url?: string;
-  color_tema?: string;
-  activa: boolean;
-  total_productos: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Producto {
-  _id: string;
-  tienda_id: string;
-  nombre: string;
-  descripcion?: string;
-  categoria: string;
-  marca?: string;
-  precio: number;
-  precio_oferta?: number;
-  stock: number;
-  hay_stock: boolean;
-  imagenes: Array<{
-    url: string;
-    cloudinary_id: string;
-  }>;
-  ingredientes?: string;
-  peso?: string;
-  activo: boolean;
-  vistas: number;
-  clicks_whatsapp: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -131,6 +174,61 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+// ===================================
+// ERRORES
+// ===================================
+
+/**
+ * Error de una petición a la API
+ * `errores` trae el detalle por campo cuando el backend rechaza el body
+ * (o cuando la respuesta no cumple el esquema de nilhub-shared)
+ */
+export class ErrorApi extends Error {
+  estado?: number;
+  errores: Array<{ campo: string; mensaje: string }>;
+
+  constructor(
+    mensaje: string,
+    opciones: { estado?: number; errores?: Array<{ campo: string; mensaje: string }> } = {}
+  ) {
+    super(mensaje);
+    this.name = 'ErrorApi';
+    this.estado = opciones.estado;
+    this.errores = opciones.errores ?? [];
+  }
+}
+
+/**
+ * Convierte cualquier error de una petición en ErrorApi
+ * Usa el mensaje del backend si lo hay; si no, el mensaje por defecto
+ */
+const errorDeApi = (error: unknown, mensajePorDefecto: string): ErrorApi => {
+  if (error instanceof ErrorApi) return error;
+  if (error instanceof AxiosError) {
+    return new ErrorApi(error.response?.data?.error || mensajePorDefecto, {
+      estado: error.response?.status,
+      errores: error.response?.data?.errores,
+    });
+  }
+  return new ErrorApi('Error de conexión');
+};
+
+/**
+ * Valida la respuesta con el esquema compartido antes de entregarla a la UI
+ * Así un cambio de forma en el backend falla aquí, con un error claro,
+ * y no como un undefined en un componente
+ */
+const leer = <T extends z.ZodType>(esquema: T, cuerpo: { data: unknown }): { success: true; data: z.output<T> } => {
+  const resultado = esquema.safeParse(cuerpo.data);
+  if (!resultado.success) {
+    console.error('Respuesta inesperada de la API:', resultado.error);
+    throw new ErrorApi('Respuesta inesperada del servidor', {
+      errores: erroresDeValidacion(resultado.error),
+    });
+  }
+  return { success: true, data: resultado.data };
+};
+
 // ===================================
 // API: AUTENTICACIÓN
 // ===================================
@@ -138,65 +236,191 @@ export interface ApiResponse<T> {
 export const auth = {
   /**
    * Iniciar sesión
+   * Con verificación en dos pasos devuelve el desafío para loginDosPasos
    */
-  login: async (email: string, password: string): Promise<ApiResponse<{
-    token: string;
-    usuario: Usuario;
-    tienda?: Tienda;
-  }>> => {
+  login: async (email: string, password: string): Promise<ApiResponse<Sesion | DesafioDosPasos>> => {
+    try {
+      return leer(esquemaRespuestaLogin, await solicitar('POST /auth/login', { cuerpo: { email, password } }));
+    } catch (error) {
+      throw errorDeApi(error, 'Error al iniciar sesión');
+    }
+  },
+
+  /**
+   * Completar el login con el código de la app o de recuperación
+   */
+  loginDosPasos: async (desafio: string, codigo: string): Promise<ApiResponse<Sesion>> => {
     try {
-      const response = await apiClient.post('/auth/login', { email, password });
-      return { success: true, data: response.data };
+      return leer(esquemaSesion, await solicitar('POST /auth/login/dos-pasos', { cuerpo: { desafio, codigo } }));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al iniciar sesión');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al verificar el código');
+    }
+  },
+
+  /**
+   * Pedir un código para ingresar sin contraseña
+   * Por email llega también un enlace a /login#email=...&codigo=...
+   */
+  solicitarCodigoAcceso: async (email: string, metodo: 'email' | 'whatsapp'): Promise<string> => {
+    try {
+      const { message } = await solicitar('POST /auth/login/codigo', { cuerpo: { email, metodo } });
+      return message;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al enviar el código');
+    }
+  },
+
+  /**
+   * Ingresar con el código recibido
+   * Con verificación en dos pasos devuelve el desafío para loginDosPasos
+   */
+  loginConCodigo: async (email: string, code: string): Promise<ApiResponse<Sesion | DesafioDosPasos>> => {
+    try {
+      return leer(esquemaRespuestaLogin, await solicitar('POST /auth/login/codigo/verificar', { cuerpo: { email, code } }));
+    } catch (error) {
+      throw errorDeApi(error, 'Error al iniciar sesión');
     }
   },
 
   /**
    * Registrar nuevo usuario
    */
-  registro: async (datos: {
-    nombre: string;
-    email: string;
-    password: string;
-    nombreTienda: string;
-    whatsapp: string;
-    instagram?: string;
-    facebook?: string;
-  }): Promise<ApiResponse<{
-    token: string;
-    usuario: Usuario;
-    tienda: Tienda;
-  }>> => {
+  registro: async (datos: Operaciones['POST /auth/registro']['cuerpo']): Promise<ApiResponse<Sesion>> => {
     try {
-      const response = await apiClient.post('/auth/registro', datos);
-      return { success: true, data: response.data };
+      return leer(esquemaSesion, await solicitar('POST /auth/registro', { cuerpo: datos }));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al registrar');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al registrar');
     }
   },
 
   /**
    * Obtener usuario actual
    */
-  me: async (): Promise<ApiResponse<{
-    usuario: Usuario;
-    tienda?: Tienda;
-  }>> => {
+  me: async (): Promise<ApiResponse<Sesion>> => {
+    try {
+      return leer(esquemaUsuarioActual, await solicitar('GET /auth/me'));
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener usuario');
+    }
+  },
+
+  /**
+   * Cerrar sesión (el backend borra las cookies)
+   */
+  logout: async (): Promise<ApiResponse<{ message: string }>> => {
+    try {
+      const { message } = await solicitar('POST /auth/logout');
+      return { success: true, data: { message } };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al cerrar sesión');
+    }
+  },
+
+  /**
+   * Dispositivos con sesión iniciada, el de uso más reciente primero (requiere auth)
+   */
+  getSesiones: async (): Promise<SesionAbierta[]> => {
+    try {
+      const { data } = await solicitar('GET /auth/sesiones');
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener sesiones');
+    }
+  },
+
+  /**
+   * Cerrar sesión en un dispositivo (requiere auth)
+   */
+  cerrarSesionDeDispositivo: async (id: string): Promise<void> => {
+    try {
+      await solicitar('DELETE /auth/sesiones/{id}', { parametros: { id } });
+    } catch (error) {
+      throw errorDeApi(error, 'Error al cerrar sesión');
+    }
+  },
+
+  /**
+   * Cerrar sesión en todos los dispositivos, incluido este (requiere auth)
+   */
+  cerrarTodasLasSesiones: async (): Promise<{ cerradas: number }> => {
+    try {
+      const { data } = await solicitar('DELETE /auth/sesiones');
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al cerrar las sesiones');
+    }
+  },
+
+  /**
+   * Historial de inicios de sesión, correctos y fallidos (requiere auth)
+   */
+  getAccesos: async (): Promise<Acceso[]> => {
+    try {
+      const { data } = await solicitar('GET /auth/accesos');
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener la actividad de la cuenta');
+    }
+  },
+
+  /**
+   * Confirmar el email con el código enviado al registrarse (publica la tienda)
+   */
+  verificarEmail: async (code: string): Promise<Usuario> => {
+    try {
+      const { data } = await solicitar('POST /auth/verificar-email', { cuerpo: { code } });
+      return data.usuario;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al verificar el email');
+    }
+  },
+
+  /**
+   * Reenviar el código de verificación de email
+   * Devuelve los segundos hasta poder pedir otro
+   */
+  reenviarVerificacionEmail: async (): Promise<{ espera: number }> => {
     try {
-      const response = await apiClient.get('/auth/me');
-      return { success: true, data: response.data };
+      const { data } = await solicitar('POST /auth/verificar-email/reenviar');
+      return data;
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al obtener usuario');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al reenviar el código');
+    }
+  },
+
+  /**
+   * Descargar mis datos: .zip con datos.json e imágenes (requiere auth)
+   */
+  exportarDatos: async (): Promise<Blob> => {
+    try {
+      return await solicitar('GET /auth/cuenta/exportar', { config: { responseType: 'blob' } });
+    } catch (error) {
+      throw errorDeApi(error, 'Error al exportar tus datos');
+    }
+  },
+
+  /**
+   * Programar la eliminación de la cuenta, confirmando con la contraseña
+   * Devuelve el usuario con la fecha en que se borrará
+   */
+  solicitarEliminacion: async (password: string): Promise<Usuario> => {
+    try {
+      const { data } = await solicitar('POST /auth/cuenta/eliminacion', { cuerpo: { password } });
+      return data.usuario;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al solicitar la eliminación de la cuenta');
+    }
+  },
+
+  /**
+   * Cancelar la eliminación programada de la cuenta
+   */
+  cancelarEliminacion: async (): Promise<Usuario> => {
+    try {
+      const { data } = await solicitar('DELETE /auth/cuenta/eliminacion');
+      return data.usuario;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al cancelar la eliminación');
     }
   },
 
@@ -205,83 +429,125 @@ export const auth = {
    */
   forgotPassword: async (email: string, metodo: 'email' | 'whatsapp'): Promise<ApiResponse<{ message: string }>> => {
     try {
-      const response = await apiClient.post('/auth/forgot-password', { email, metodo });
-      return { success: true, data: response.data };
+      const { message } = await solicitar('POST /auth/forgot-password', { cuerpo: { email, metodo } });
+      return { success: true, data: { message } };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al solicitar código');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al solicitar código');
     }
   },
 
   /**
    * Verificar código de recuperación
+   * requiere_dos_pasos indica si resetPassword pedirá también un código de dos pasos
    */
-  verifyResetCode: async (email: string, code: string): Promise<ApiResponse<{ message: string }>> => {
+  verifyResetCode: async (email: string, code: string): Promise<ApiResponse<{ requiere_dos_pasos: boolean }>> => {
     try {
-      const response = await apiClient.post('/auth/verify-reset-code', { email, code });
-      return { success: true, data: response.data };
+      const { data } = await solicitar('POST /auth/verify-reset-code', { cuerpo: { email, code } });
+      return { success: true, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Código inválido');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Código inválido');
     }
   },
 
   /**
    * Cambiar contraseña con código
+   * codigoDosPasos: de la app o de recuperación, si el usuario tiene verificación en dos pasos
    */
-  resetPassword: async (email: string, code: string, nuevaPassword: string): Promise<ApiResponse<{ message: string }>> => {
+  resetPassword: async (
+    email: string,
+    code: string,
+    nuevaPassword: string,
+    codigoDosPasos?: string
+  ): Promise<ApiResponse<{ message: string }>> => {
     try {
-      const response = await apiClient.post('/auth/reset-password', { email, code, nuevaPassword });
-      return { success: true, data: response.data };
+      const { message } = await solicitar('POST /auth/reset-password', {
+        cuerpo: { email, code, nuevaPassword, codigo_dos_pasos: codigoDosPasos },
+      });
+      return { success: true, data: { message } };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al cambiar contraseña');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al cambiar contraseña');
     }
   },
 };
 
 // ===================================
-// API: PRODUCTOS
+// API: VERIFICACIÓN EN DOS PASOS
 // ===================================
 
-export const productos = {
+export const dosPasos = {
   /**
-   * Obtener mis productos (requiere auth)
+   * Estado de mi verificación en dos pasos (requiere auth)
    */
-  getMisProductos: async (): Promise<ApiResponse<Producto[]>> => {
+  getEstado: async (): Promise<EstadoDosPasos> => {
     try {
-      const response = await apiClient.get('/productos/mis-productos');
-      return { success: true, data: response.data };
+      const { data } = await solicitar('GET /auth/dos-pasos');
+      return data;
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al obtener productos');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al obtener la verificación en dos pasos');
     }
   },
 
   /**
-   * Obtener productos de una tienda (público)
+   * Generar secreto y QR para escanear (requiere auth)
    */
-  getByTienda: async (slug: string, categoria?: string, buscar?: string): Promise<ApiResponse<Producto[]>> => {
+  configurar: async (): Promise<{ secreto: string; otpauth: string; qr: string }> => {
     try {
-      const params = new URLSearchParams();
-      if (categoria) params.append('categoria', categoria);
-      if (buscar) params.append('buscar', buscar);
+      const { data } = await solicitar('POST /auth/dos-pasos/configurar');
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al configurar la verificación en dos pasos');
+    }
+  },
 
-      const response = await apiClient.get(`/productos/tienda/${slug}?${params.toString()}`);
-      return { success: true, data: response.data };
+  /**
+   * Activar con el primer código; los códigos de recuperación solo vienen aquí (requiere auth)
+   */
+  activar: async (codigo: string): Promise<CodigosRecuperacion> => {
+    try {
+      const { data } = await solicitar('POST /auth/dos-pasos/activar', { cuerpo: { codigo } });
+      return data;
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al obtener productos');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al activar la verificación en dos pasos');
+    }
+  },
+
+  /**
+   * Reemplazar los códigos de recuperación (requiere auth)
+   */
+  regenerarCodigos: async (codigo: string): Promise<CodigosRecuperacion> => {
+    try {
+      const { data } = await solicitar('POST /auth/dos-pasos/codigos', { cuerpo: { codigo } });
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al generar códigos nuevos');
+    }
+  },
+
+  /**
+   * Desactivar (requiere auth; no disponible para administradores)
+   */
+  desactivar: async (codigo: string): Promise<void> => {
+    try {
+      await solicitar('POST /auth/dos-pasos/desactivar', { cuerpo: { codigo } });
+    } catch (error) {
+      throw errorDeApi(error, 'Error al desactivar la verificación en dos pasos');
+    }
+  },
+};
+
+// ===================================
+// API: PRODUCTOS
+// ===================================
+
+export const productos = {
+  /**
+   * Obtener mis productos (requiere auth)
+   */
+  getMisProductos: async (): Promise<ApiResponse<Producto[]>> => {
+    try {
+      return leer(z.array(esquemaProducto), await solicitar('GET /productos/mis-productos'));
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener productos');
     }
   },
 
@@ -290,86 +556,131 @@ export const productos = {
    */
   getById: async (id: string): Promise<ApiResponse<Producto>> => {
     try {
-      const response = await apiClient.get(`/productos/${id}`);
-      return { success: true, data: response.data };
+      return leer(esquemaProducto, await solicitar('GET /productos/{id}', { parametros: { id } }));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Producto no encontrado');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Producto no encontrado');
     }
   },
 
   /**
    * Crear producto (requiere auth)
    */
-  create: async (datos: Partial<Producto>): Promise<ApiResponse<Producto>> => {
+  create: async (datos: Operaciones['POST /productos']['cuerpo']): Promise<ApiResponse<Producto>> => {
     try {
-      const response = await apiClient.post('/productos', datos);
-      return { success: true, data: response.data };
+      return leer(esquemaProducto, await solicitar('POST /productos', { cuerpo: datos }));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al crear producto');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al crear producto');
     }
   },
 
   /**
    * Actualizar producto (requiere auth)
    */
-  update: async (id: string, datos: Partial<Producto>): Promise<ApiResponse<Producto>> => {
+  update: async (id: string, datos: ProductoEntrada): Promise<ApiResponse<Producto>> => {
     try {
-      const response = await apiClient.put(`/productos/${id}`, datos);
-      return { success: true, data: response.data };
+      return leer(esquemaProducto, await solicitar('PUT /productos/{id}', { parametros: { id }, cuerpo: datos }));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al actualizar producto');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al actualizar producto');
     }
   },
 
   /**
    * Eliminar producto (requiere auth)
    */
-  delete: async (id: string): Promise<ApiResponse<{ message: string }>> => {
+  delete: async (id: string): Promise<ApiResponse<Record<string, never>>> => {
     try {
-      const response = await apiClient.delete(`/productos/${id}`);
-      return { success: true, data: response.data };
+      const { data } = await solicitar('DELETE /productos/{id}', { parametros: { id } });
+      return { success: true, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al eliminar producto');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al eliminar producto');
     }
   },
 
   /**
    * Actualizar stock manualmente (requiere auth)
+   * El backend recalcula hay_stock a partir del stock
+   */
+  updateStock: async (id: string, stock: number): Promise<ApiResponse<Producto>> => {
+    try {
+      return leer(esquemaProducto, await solicitar('PATCH /productos/{id}/stock', { parametros: { id }, cuerpo: { stock } }));
+    } catch (error) {
+      throw errorDeApi(error, 'Error al actualizar stock');
+    }
+  },
+
+  /**
+   * Importar productos desde CSV/XLSX (requiere auth)
+   * Sin mapeo, el backend sugiere uno y solo valida
    */
-  updateStock: async (id: string, stock: number, hay_stock: boolean): Promise<ApiResponse<Producto>> => {
+  importar: async (
+    archivo: File,
+    opciones: {
+      mapeo?: ResultadoImportacion['mapeo'];
+      clave?: ResultadoImportacion['clave'];
+      simular?: boolean;
+    } = {}
+  ): Promise<ApiResponse<ResultadoImportacion>> => {
     try {
-      const response = await apiClient.patch(`/productos/${id}/stock`, { stock, hay_stock });
-      return { success: true, data: response.data };
+      const formData = new FormData();
+      formData.append('archivo', archivo);
+      if (opciones.mapeo) formData.append('mapeo', JSON.stringify(opciones.mapeo));
+      if (opciones.clave) formData.append('clave', opciones.clave);
+      formData.append('simular', String(opciones.simular ?? true));
+
+      const { data } = await solicitar('POST /productos/importar', { cuerpo: formData });
+      return { success: true, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al actualizar stock');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al importar productos');
+    }
+  },
+
+  /**
+   * Exportar todos mis productos (requiere auth)
+   * Devuelve el archivo listo para descargar
+   */
+  exportar: async (formato: 'csv' | 'xlsx'): Promise<Blob> => {
+    try {
+      return await solicitar('GET /productos/exportar', {
+        query: { formato },
+        config: { responseType: 'blob' },
+      });
+    } catch (error) {
+      throw errorDeApi(error, 'Error al exportar productos');
+    }
+  },
+
+  /**
+   * Registrar vista de un producto (público)
+   * Envía el ID del visitante y el origen de la visita; el backend ignora bots,
+   * vistas del dueño (por el token) y repetidas
+   */
+  registrarVista: async (id: string): Promise<ApiResponse<{ contada: boolean }>> => {
+    try {
+      const { data } = await solicitar('POST /productos/{id}/vista', {
+        parametros: { id },
+        cuerpo: { ...origenDelNavegador(), visitante: idDeVisitante() },
+      });
+      return { success: true, data };
+    } catch (error) {
+      console.warn('Error al registrar vista:', error);
+      return { success: false, data: { contada: false } };
     }
   },
 
   /**
    * Registrar click en WhatsApp (público)
+   * Mismos datos y filtros que registrarVista
    */
-  clickWhatsApp: async (id: string): Promise<ApiResponse<{ message: string }>> => {
+  clickWhatsApp: async (id: string): Promise<ApiResponse<{ contada: boolean }>> => {
     try {
-      const response = await apiClient.post(`/productos/${id}/click-whatsapp`);
-      return { success: true, data: response.data };
+      const { data } = await solicitar('POST /productos/{id}/click-whatsapp', {
+        parametros: { id },
+        cuerpo: { ...origenDelNavegador(), visitante: idDeVisitante() },
+      });
+      return { success: true, data };
     } catch (error) {
       console.warn('Error al registrar click WhatsApp:', error);
-      return { success: false, data: { message: 'Error' } };
+      return { success: false, data: { contada: false } };
     }
   },
 };
@@ -384,13 +695,53 @@ export const tiendas = {
    */
   getBySlug: async (slug: string): Promise<ApiResponse<Tienda>> => {
     try {
-      const response = await apiClient.get(`/tiendas/${slug}`);
-      return { success: true, data: response.data };
+      return leer(esquemaTienda, await solicitar('GET /tiendas/{slug}', { parametros: { slug } }));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Tienda no encontrada');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Tienda no encontrada');
+    }
+  },
+
+  /**
+   * Obtener una página del catálogo de una tienda (público)
+   * Paginado por cursor, con orden, filtros y facetas (solo en la primera página)
+   */
+  getProductos: async (slug: string, filtros: FiltrosCatalogo = {}): Promise<ApiResponse<PaginaCatalogo>> => {
+    try {
+      const { data } = await solicitar('GET /tiendas/{slug}/productos', {
+        parametros: { slug },
+        query: queryDeFiltros(filtros),
+      });
+      const { productos, total, siguiente, facetas } = data;
+      return { success: true, data: { productos, total, siguiente, facetas } };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener productos');
+    }
+  },
+
+  /**
+   * Sugerencias para autocompletar el buscador del catálogo (público)
+   */
+  getSugerencias: async (slug: string, q: string): Promise<ApiResponse<SugerenciasBusqueda>> => {
+    try {
+      const { data } = await solicitar('GET /tiendas/{slug}/sugerencias', { parametros: { slug }, query: { q } });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener sugerencias');
+    }
+  },
+
+  /**
+   * Registrar una búsqueda o un compartir en la analítica (público)
+   * Nunca falla: la analítica no debe interrumpir al visitante
+   */
+  registrarEvento: async (slug: string, evento: EventoAnalitica): Promise<void> => {
+    try {
+      await solicitar('POST /tiendas/{slug}/eventos', {
+        parametros: { slug },
+        cuerpo: { ...origenDelNavegador(), ...evento },
+      });
+    } catch (error) {
+      console.warn('Error al registrar evento:', error);
     }
   },
 
@@ -399,28 +750,318 @@ export const tiendas = {
    */
   getMiTienda: async (): Promise<ApiResponse<Tienda>> => {
     try {
-      const response = await apiClient.get('/tiendas/mi-tienda');
-      return { success: true, data: response.data };
+      return leer(esquemaTienda, await solicitar('GET /tiendas/mi-tienda'));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al obtener tienda');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al obtener tienda');
     }
   },
 
   /**
    * Actualizar mi tienda (requiere auth)
    */
-  update: async (datos: Partial<Tienda>): Promise<ApiResponse<Tienda>> => {
+  update: async (datos: TiendaEntrada): Promise<ApiResponse<Tienda>> => {
+    try {
+      return leer(esquemaTienda, await solicitar('PUT /tiendas/mi-tienda', { cuerpo: datos }));
+    } catch (error) {
+      throw errorDeApi(error, 'Error al actualizar tienda');
+    }
+  },
+};
+
+// ===================================
+// API: PEDIDOS
+// ===================================
+
+export const pedidos = {
+  /**
+   * Crear pedido desde el carrito (público)
+   */
+  crear: async (datos: Operaciones['POST /pedidos']['cuerpo']): Promise<ApiResponse<Pedido>> => {
+    try {
+      const { data } = await solicitar('POST /pedidos', { cuerpo: datos });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al crear pedido');
+    }
+  },
+
+  /**
+   * Obtener pedidos de mi tienda (requiere auth)
+   */
+  getMisPedidos: async (estado?: EstadoPedido): Promise<ApiResponse<{
+    pedidos: Pedido[];
+    resumen: Record<EstadoPedido, number>;
+  }>> => {
+    try {
+      const { data } = await solicitar('GET /pedidos/mis-pedidos', {
+        query: estado ? { estado } : undefined,
+      });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener pedidos');
+    }
+  },
+
+  /**
+   * Cambiar estado de un pedido (requiere auth)
+   * Confirmar descuenta stock; cancelar un confirmado lo devuelve
+   */
+  cambiarEstado: async (id: string, estado: EstadoPedido): Promise<ApiResponse<Pedido>> => {
+    try {
+      const { data } = await solicitar('PATCH /pedidos/{id}/estado', { parametros: { id }, cuerpo: { estado } });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al cambiar estado del pedido');
+    }
+  },
+};
+
+// ===================================
+// API: CATEGORÍAS
+// ===================================
+
+export const categorias = {
+  /**
+   * Obtener categorías de mi tienda con conteo de productos (requiere auth)
+   */
+  getMisCategorias: async (): Promise<ApiResponse<Categoria[]>> => {
+    try {
+      const { data } = await solicitar('GET /categorias/mis-categorias');
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener categorías');
+    }
+  },
+
+  /**
+   * Obtener categorías de una tienda (público)
+   */
+  getByTienda: async (slug: string): Promise<ApiResponse<Categoria[]>> => {
+    try {
+      const { data } = await solicitar('GET /categorias/tienda/{slug}', { parametros: { slug } });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener categorías');
+    }
+  },
+
+  /**
+   * Crear categoría (requiere auth)
+   */
+  crear: async (datos: Pick<Categoria, 'nombre'> & Partial<Pick<Categoria, 'icono' | 'padre_id'>>): Promise<ApiResponse<Categoria>> => {
+    try {
+      const { data } = await solicitar('POST /categorias', { cuerpo: datos });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al crear categoría');
+    }
+  },
+
+  /**
+   * Actualizar categoría (requiere auth)
+   * Si cambia el nombre, cambia el slug y se actualizan sus productos
+   */
+  actualizar: async (id: string, datos: Partial<Pick<Categoria, 'nombre' | 'icono' | 'padre_id'>>): Promise<ApiResponse<Categoria>> => {
+    try {
+      const { data } = await solicitar('PUT /categorias/{id}', { parametros: { id }, cuerpo: datos });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al actualizar categoría');
+    }
+  },
+
+  /**
+   * Reordenar categorías según la lista de IDs (requiere auth)
+   */
+  reordenar: async (ids: string[]): Promise<ApiResponse<Categoria[]>> => {
+    try {
+      const { data } = await solicitar('PATCH /categorias/orden', { cuerpo: { ids } });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al reordenar categorías');
+    }
+  },
+
+  /**
+   * Eliminar categoría sin productos ni subcategorías (requiere auth)
+   */
+  eliminar: async (id: string): Promise<ApiResponse<Record<string, never>>> => {
+    try {
+      const { data } = await solicitar('DELETE /categorias/{id}', { parametros: { id } });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al eliminar categoría');
+    }
+  },
+};
+
+// ===================================
+// API: ANALÍTICA
+// ===================================
+
+export const analitica = {
+  /**
+   * Resumen de mi tienda en un rango de días (requiere auth)
+   * Sin fechas, el backend usa los últimos 30 días
+   */
+  getResumen: async (desde?: string, hasta?: string): Promise<ResumenAnalitica> => {
+    try {
+      const { data } = await solicitar('GET /analitica/resumen', { query: { desde, hasta } });
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener analítica');
+    }
+  },
+};
+
+// ===================================
+// API: WEBHOOKS
+// ===================================
+
+/**
+ * Datos editables de un webhook
+ */
+type DatosWebhook = Operaciones['POST /webhooks']['cuerpo'];
+
+export const webhooks = {
+  /**
+   * Mis webhooks y los eventos que se pueden suscribir (requiere auth)
+   */
+  getMisWebhooks: async (): Promise<{ webhooks: Webhook[]; eventos: EventoWebhook[] }> => {
+    try {
+      const { data } = await solicitar('GET /webhooks');
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener webhooks');
+    }
+  },
+
+  /**
+   * Registrar webhook (requiere auth); el backend genera el secreto
+   */
+  crear: async (datos: DatosWebhook): Promise<Webhook> => {
+    try {
+      const { data } = await solicitar('POST /webhooks', { cuerpo: datos });
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al crear webhook');
+    }
+  },
+
+  /**
+   * Editar, pausar o reanudar webhook (requiere auth)
+   */
+  actualizar: async (id: string, datos: Partial<DatosWebhook>): Promise<Webhook> => {
     try {
-      const response = await apiClient.put('/tiendas/mi-tienda', datos);
-      return { success: true, data: response.data };
+      const { data } = await solicitar('PUT /webhooks/{id}', { parametros: { id }, cuerpo: datos });
+      return data;
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al actualizar tienda');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al actualizar webhook');
+    }
+  },
+
+  /**
+   * Eliminar webhook (requiere auth)
+   */
+  eliminar: async (id: string): Promise<void> => {
+    try {
+      await solicitar('DELETE /webhooks/{id}', { parametros: { id } });
+    } catch (error) {
+      throw errorDeApi(error, 'Error al eliminar webhook');
+    }
+  },
+
+  /**
+   * Generar un secreto nuevo; el anterior deja de valer (requiere auth)
+   */
+  regenerarSecreto: async (id: string): Promise<Webhook> => {
+    try {
+      const { data } = await solicitar('POST /webhooks/{id}/secreto', { parametros: { id } });
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al regenerar secreto');
+    }
+  },
+
+  /**
+   * Enviar evento de prueba; devuelve la entrega con el primer intento (requiere auth)
+   */
+  enviarPrueba: async (id: string): Promise<EntregaWebhook> => {
+    try {
+      const { data } = await solicitar('POST /webhooks/{id}/prueba', { parametros: { id } });
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al enviar evento de prueba');
+    }
+  },
+
+  /**
+   * Registro de entregas, más recientes primero (requiere auth)
+   */
+  getEntregas: async (id: string): Promise<EntregaWebhook[]> => {
+    try {
+      const { data } = await solicitar('GET /webhooks/{id}/entregas', { parametros: { id } });
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener entregas');
+    }
+  },
+};
+
+// ===================================
+// API: TOKENS DE API
+// ===================================
+
+/**
+ * Datos editables de un token de API
+ */
+type DatosTokenApi = Operaciones['POST /tokens']['cuerpo'];
+
+export const tokens = {
+  /**
+   * Mis tokens vigentes y los permisos disponibles (requiere auth)
+   */
+  getMisTokens: async (): Promise<{ tokens: TokenApi[]; permisos: PermisoToken[] }> => {
+    try {
+      const { data } = await solicitar('GET /tokens');
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener tokens');
+    }
+  },
+
+  /**
+   * Crear token (requiere auth); `token` viene solo en esta respuesta
+   */
+  crear: async (datos: DatosTokenApi): Promise<TokenApi & { token: string }> => {
+    try {
+      const { data } = await solicitar('POST /tokens', { cuerpo: datos });
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al crear token');
+    }
+  },
+
+  /**
+   * Cambiar nombre, permisos o límite (requiere auth)
+   */
+  actualizar: async (id: string, datos: Partial<DatosTokenApi>): Promise<TokenApi> => {
+    try {
+      const { data } = await solicitar('PUT /tokens/{id}', { parametros: { id }, cuerpo: datos });
+      return data;
+    } catch (error) {
+      throw errorDeApi(error, 'Error al actualizar token');
+    }
+  },
+
+  /**
+   * Revocar token: deja de valer de inmediato (requiere auth)
+   */
+  revocar: async (id: string): Promise<void> => {
+    try {
+      await solicitar('DELETE /tokens/{id}', { parametros: { id } });
+    } catch (error) {
+      throw errorDeApi(error, 'Error al revocar token');
     }
   },
 };
@@ -432,70 +1073,51 @@ export const tiendas = {
 export const upload = {
   /**
    * Subir una imagen (requiere auth)
+   * Sin carpeta, el backend usa nilhub/productos
    */
-  imagen: async (file: File): Promise<ApiResponse<{
-    url: string;
-    cloudinary_id: string;
-  }>> => {
+  imagen: async (file: File, carpeta?: string): Promise<ApiResponse<Imagen>> => {
     try {
       const formData = new FormData();
       formData.append('imagen', file);
 
-      const response = await apiClient.post('/upload/imagen', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-
-      return { success: true, data: response.data };
+      return leer(esquemaImagen, await solicitar('POST /upload/imagen', {
+        query: { folder: carpeta },
+        cuerpo: formData,
+      }));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al subir imagen');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al subir imagen');
     }
   },
 
   /**
    * Subir múltiples imágenes (requiere auth)
+   * Sin carpeta, el backend usa nilhub/productos
    */
-  imagenes: async (files: File[]): Promise<ApiResponse<Array<{
-    url: string;
-    cloudinary_id: string;
-  }>>> => {
+  imagenes: async (files: File[], carpeta?: string): Promise<ApiResponse<Imagen[]>> => {
     try {
       const formData = new FormData();
       files.forEach((file) => {
         formData.append('imagenes', file);
       });
 
-      const response = await apiClient.post('/upload/imagenes', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-
-      return { success: true, data: response.data.imagenes };
+      return leer(z.array(esquemaImagen), await solicitar('POST /upload/imagenes', {
+        query: { folder: carpeta },
+        cuerpo: formData,
+      }));
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al subir imágenes');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al subir imágenes');
     }
   },
 
   /**
    * Eliminar imagen (requiere auth)
    */
-  delete: async (cloudinary_id: string): Promise<ApiResponse<{ message: string }>> => {
+  delete: async (cloudinary_id: string): Promise<ApiResponse<Record<string, never>>> => {
     try {
-      const response = await apiClient.delete(`/upload/${cloudinary_id}`);
-      return { success: true, data: response.data };
+      const { data } = await solicitar('DELETE /upload/{cloudinary_id}', { parametros: { cloudinary_id } });
+      return { success: true, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al eliminar imagen');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al eliminar imagen');
     }
   },
 };
@@ -508,22 +1130,12 @@ export const admin = {
   /**
    * Obtener estadísticas globales (requiere rol admin)
    */
-  getStats: async (): Promise<ApiResponse<{
-    usuarios: number;
-    vendedores: number;
-    tiendas: number;
-    tiendas_activas: number;
-    productos: number;
-    productos_activos: number;
-  }>> => {
+  getStats: async (): Promise<ApiResponse<Operaciones['GET /admin/stats']['respuesta']['data']>> => {
     try {
-      const response = await apiClient.get('/admin/stats');
-      return { success: true, data: response.data };
+      const { data } = await solicitar('GET /admin/stats');
+      return { success: true, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al obtener estadísticas');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al obtener estadísticas');
     }
   },
 
@@ -532,13 +1144,34 @@ export const admin = {
    */
   getUsuarios: async (): Promise<ApiResponse<Usuario[]>> => {
     try {
-      const response = await apiClient.get('/admin/usuarios');
-      return { success: true, data: response.data.data };
+      const { data } = await solicitar('GET /admin/usuarios');
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al obtener usuarios');
+    }
+  },
+
+  /**
+   * Quitar el bloqueo por intentos de login fallidos (requiere rol admin)
+   */
+  desbloquearUsuario: async (id: string): Promise<ApiResponse<Usuario>> => {
+    try {
+      const { data } = await solicitar('PUT /admin/usuarios/{id}/desbloquear', { parametros: { id } });
+      return { success: true, data };
+    } catch (error) {
+      throw errorDeApi(error, 'Error al desbloquear usuario');
+    }
+  },
+
+  /**
+   * Historial de inicios de sesión de un usuario (requiere rol admin)
+   */
+  getAccesosDeUsuario: async (id: string): Promise<ApiResponse<Acceso[]>> => {
+    try {
+      const { data } = await solicitar('GET /admin/usuarios/{id}/accesos', { parametros: { id } });
+      return { success: true, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al obtener usuarios');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al obtener accesos del usuario');
     }
   },
 
@@ -547,13 +1180,10 @@ export const admin = {
    */
   getTiendas: async (): Promise<ApiResponse<Tienda[]>> => {
     try {
-      const response = await apiClient.get('/admin/tiendas');
-      return { success: true, data: response.data.data };
+      const { data } = await solicitar('GET /admin/tiendas');
+      return { success: true, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al obtener tiendas');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al obtener tiendas');
     }
   },
 
@@ -562,13 +1192,10 @@ export const admin = {
    */
   toggleTienda: async (id: string): Promise<ApiResponse<Tienda>> => {
     try {
-      const response = await apiClient.put(`/admin/tiendas/${id}/toggle`);
-      return { success: true, data: response.data.data };
+      const { data } = await solicitar('PUT /admin/tiendas/{id}/toggle', { parametros: { id } });
+      return { success: true, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al cambiar estado de tienda');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al cambiar estado de tienda');
     }
   },
 
@@ -577,13 +1204,10 @@ export const admin = {
    */
   deleteUsuario: async (id: string): Promise<ApiResponse<{ message: string }>> => {
     try {
-      const response = await apiClient.delete(`/admin/usuarios/${id}`);
-      return { success: true, data: response.data };
+      const { message } = await solicitar('DELETE /admin/usuarios/{id}', { parametros: { id } });
+      return { success: true, data: { message } };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        throw new Error(error.response?.data?.error || 'Error al eliminar usuario');
-      }
-      throw new Error('Error de conexión');
+      throw errorDeApi(error, 'Error al eliminar usuario');
     }
   },
 };
@@ -594,8 +1218,14 @@ export const admin = {
 
 const api = {
   auth,
+  dosPasos,
   productos,
   tiendas,
+  pedidos,
+  categorias,
+  analitica,
+  webhooks,
+  tokens,
   upload,
   admin,
 };
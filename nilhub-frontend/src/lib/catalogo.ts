@@ -0,0 +1,170 @@
+// src/lib/catalogo.ts
+/**
+ * @fileoverview Lectura del catálogo público desde Server Components
+ * Usa fetch en lugar de axios: no depende de localStorage y Next deduplica
+ * las peticiones entre generateMetadata y la página
+ * @module catalogo
+ */
+
+import { cache } from 'react';
+import type {
+  Categoria,
+  FiltrosCatalogo,
+  MapaDelSitio,
+  PaginaCatalogo,
+  Producto,
+  Tienda,
+} from '@/types';
+import { queryDeFiltros } from '@/lib/filtrosCatalogo';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Base URL de la API (la misma que usa el cliente)
+ * @constant
+ */
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000/api';
+
+/**
+ * Segundos que se reutiliza la tienda y su catálogo antes de volver a pedirlos
+ * @constant
+ */
+export const REVALIDAR_CATALOGO = 60;
+
+/**
+ * Segundos que se reutiliza el listado del sitemap (una hora)
+ * @constant
+ */
+export const REVALIDAR_SITEMAP = 3600;
+
+/**
+ * Formato de un ObjectId de MongoDB
+ * @constant
+ */
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+
+/**
+ * Indica si un ID de la URL tiene formato de ObjectId
+ *
+ * @param id - ID a validar
+ * @returns true si se puede consultar a la API
+ */
+export const esIdValido = (id: string) => OBJECT_ID.test(id);
+
+// ===================================
+// HELPERS
+// ===================================
+
+/**
+ * GET a la API que devuelve `data` de la respuesta
+ *
+ * @param ruta - Ruta relativa a la API (ej: /tiendas/mi-slug)
+ * @param init - Opciones de fetch (caché de Next)
+ * @returns `data` de la respuesta o null si no existe (404)
+ * @throws Error si la API responde con otro error
+ * @private
+ */
+async function obtenerData<T>(ruta: string, init: RequestInit): Promise<T | null> {
+  const response = await fetch(`${API_URL}${ruta}`, init);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Error ${response.status} al obtener ${ruta}`);
+  }
+
+  const json = await response.json();
+  return json.data as T;
+}
+
+// ===================================
+// CONSULTAS
+// ===================================
+
+/**
+ * Obtiene una tienda activa por slug
+ *
+ * @param slug - Slug de la tienda
+ * @returns Tienda o null si no existe o está desactivada
+ */
+export const obtenerTienda = cache(async (slug: string): Promise<Tienda | null> => {
+  return obtenerData<Tienda>(`/tiendas/${encodeURIComponent(slug)}`, {
+    next: { revalidate: REVALIDAR_CATALOGO },
+  });
+});
+
+/**
+ * Página vacía (tienda inexistente)
+ * @constant
+ */
+const PAGINA_VACIA: PaginaCatalogo = { productos: [], total: 0, siguiente: null, facetas: null };
+
+/**
+ * Obtiene una página del catálogo (memorizada por query string)
+ * @private
+ */
+const obtenerPagina = cache(async (slug: string, query: string): Promise<PaginaCatalogo> => {
+  const data = await obtenerData<PaginaCatalogo>(
+    `/tiendas/${encodeURIComponent(slug)}/productos${query ? `?${query}` : ''}`,
+    { next: { revalidate: REVALIDAR_CATALOGO } }
+  );
+  return data || PAGINA_VACIA;
+});
+
+/**
+ * Obtiene una página de los productos activos de una tienda
+ *
+ * @param slug - Slug de la tienda
+ * @param filtros - Filtros, orden y paginación
+ * @returns Página del catálogo (vacía si la tienda no existe)
+ *
+ * @example
+ * const { productos, total, facetas } = await obtenerCatalogo(slug, { categoria: 'labiales' });
+ */
+export function obtenerCatalogo(slug: string, filtros: FiltrosCatalogo = {}): Promise<PaginaCatalogo> {
+  return obtenerPagina(slug, queryDeFiltros(filtros).toString());
+}
+
+/**
+ * Obtiene las categorías de una tienda
+ *
+ * @param slug - Slug de la tienda
+ * @returns Categorías (vacío si la tienda no existe)
+ */
+export const obtenerCategorias = cache(async (slug: string): Promise<Categoria[]> => {
+  const data = await obtenerData<Categoria[]>(`/categorias/tienda/${encodeURIComponent(slug)}`, {
+    next: { revalidate: REVALIDAR_CATALOGO },
+  });
+  return data || [];
+});
+
+/**
+ * Obtiene un producto por ID
+ *
+ * Sin caché: el stock debe estar al día. La vista no se cuenta aquí,
+ * la registra el navegador (ver ProductoDetalle).
+ *
+ * @param id - ID del producto
+ * @returns Producto o null si el ID no es válido o no existe
+ */
+export const obtenerProducto = cache(async (id: string): Promise<Producto | null> => {
+  if (!esIdValido(id)) {
+    return null;
+  }
+  return obtenerData<Producto>(`/productos/${id}`, { cache: 'no-store' });
+});
+
+/**
+ * Obtiene slugs de tiendas e IDs de productos activos para sitemap.xml
+ *
+ * @returns Tiendas y productos publicables (vacío si la API no responde con datos)
+ */
+export async function obtenerMapaDelSitio(): Promise<MapaDelSitio> {
+  const data = await obtenerData<MapaDelSitio>('/tiendas/sitemap', {
+    next: { revalidate: REVALIDAR_SITEMAP },
+  });
+  return data || { tiendas: [], productos: [] };
+}
@@ -0,0 +1,139 @@
+// src/lib/consultas.ts
+/**
+ * @fileoverview Caché de datos del frontend (TanStack Query)
+ * Claves de las consultas, configuración del cliente y mutaciones optimistas.
+ *
+ * Las claves van de lo general a lo particular para poder invalidar por
+ * prefijo: ['tiendas', tiendaId] invalida todo lo de esa tienda.
+ * @module consultas
+ */
+
+import { QueryClient, useMutation, useQueryClient, type QueryKey } from '@tanstack/react-query';
+import type { FiltrosCatalogo } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Tiempo en que un dato se considera fresco (ms)
+ * Pasado este tiempo se muestra lo que hay en caché y se revalida en segundo plano
+ * @constant
+ */
+const TIEMPO_FRESCO = 30 * 1000;
+
+/**
+ * Tiempo que una consulta sin usar se conserva en caché (ms)
+ * @constant
+ */
+const TIEMPO_EN_CACHE = 5 * 60 * 1000;
+
+// ===================================
+// CLAVES
+// ===================================
+
+/**
+ * Claves de consulta por tienda y recurso
+ *
+ * @example
+ * useQuery({ queryKey: claves.productos(tienda._id), queryFn: ... });
+ * queryClient.invalidateQueries({ queryKey: claves.tienda(tienda._id) });
+ */
+export const claves = {
+  /** Todo lo de una tienda en el panel (prefijo) */
+  tienda: (tiendaId: string) => ['tiendas', tiendaId] as const,
+  /** Productos de la tienda (lista del panel) */
+  productos: (tiendaId: string) => ['tiendas', tiendaId, 'productos'] as const,
+  /** Un producto de la tienda (formulario de edición) */
+  producto: (tiendaId: string, id: string) => ['tiendas', tiendaId, 'productos', id] as const,
+  /** Categorías de la tienda */
+  categorias: (tiendaId: string) => ['tiendas', tiendaId, 'categorias'] as const,
+  /** Catálogo público de una tienda (sin filtros: prefijo de todas sus páginas) */
+  catalogo: (slug: string, filtros?: FiltrosCatalogo) =>
+    filtros ? (['catalogo', slug, filtros] as const) : (['catalogo', slug] as const),
+  /** Dispositivos con sesión iniciada del usuario (la caché se vacía al cambiar de usuario) */
+  sesiones: () => ['sesiones'] as const,
+  /** Estado de la verificación en dos pasos del usuario */
+  dosPasos: () => ['dos-pasos'] as const,
+  /** Historial de inicios de sesión del usuario */
+  accesos: () => ['accesos'] as const,
+  /** Estadísticas globales del administrador */
+  estadisticas: () => ['admin', 'estadisticas'] as const,
+  /** Usuarios de la plataforma (vista del administrador) */
+  usuarios: () => ['admin', 'usuarios'] as const,
+  /** Historial de inicios de sesión de un usuario (vista del administrador) */
+  accesosDeUsuario: (id: string) => ['admin', 'usuarios', id, 'accesos'] as const,
+};
+
+// ===================================
+// CLIENTE
+// ===================================
+
+/**
+ * Crea el cliente de consultas (uno por pestaña)
+ * Revalida al volver a la pestaña o recuperar la conexión
+ */
+export const crearClienteConsultas = () =>
+  new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: TIEMPO_FRESCO,
+        gcTime: TIEMPO_EN_CACHE,
+        refetchOnWindowFocus: true,
+        refetchOnReconnect: true,
+        retry: 1,
+      },
+    },
+  });
+
+// ===================================
+// MUTACIONES OPTIMISTAS
+// ===================================
+
+/**
+ * Mutación que actualiza la caché antes de que responda el backend
+ * Si falla, restaura el valor anterior; al terminar (bien o mal) revalida
+ * la consulta para quedar alineada con el servidor.
+ *
+ * @param opciones.queryKey - Consulta a actualizar
+ * @param opciones.mutationFn - Petición al backend
+ * @param opciones.aplicar - Cómo queda el dato en caché con el cambio
+ *
+ * @example
+ * const eliminar = useMutacionOptimista({
+ *   queryKey: claves.productos(tiendaId),
+ *   mutationFn: (id: string) => api.productos.delete(id),
+ *   aplicar: (productos: Producto[], id) => productos.filter((p) => p._id !== id),
+ * });
+ * eliminar.mutate(producto._id, { onError: (err) => alert(err.message) });
+ */
+export function useMutacionOptimista<TDato, TVariables, TRespuesta = unknown>({
+  queryKey,
+  mutationFn,
+  aplicar,
+}: {
+  queryKey: QueryKey;
+  mutationFn: (variables: TVariables) => Promise<TRespuesta>;
+  aplicar: (actual: TDato, variables: TVariables) => TDato;
+}) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: TVariables) => {
+      // Una respuesta en vuelo no debe pisar el cambio optimista
+      await queryClient.cancelQueries({ queryKey });
+      const anterior = queryClient.getQueryData<TDato>(queryKey);
+      if (anterior !== undefined) {
+        queryClient.setQueryData<TDato>(queryKey, aplicar(anterior, variables));
+      }
+      return { anterior };
+    },
+    onError: (_error, _variables, contexto) => {
+      if (contexto?.anterior !== undefined) {
+        queryClient.setQueryData<TDato>(queryKey, contexto.anterior);
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
@@ -0,0 +1,129 @@
+// src/lib/filtrosCatalogo.ts
+/**
+ * @fileoverview Filtros del catálogo público ↔ query string
+ * El mismo formato se usa para la API y para la URL de la página,
+ * así un catálogo filtrado se puede compartir como link.
+ * @module filtrosCatalogo
+ */
+
+import type { FiltrosCatalogo, OrdenCatalogo } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Ordenes disponibles con su etiqueta
+ * @constant
+ */
+export const ORDENES_CATALOGO: Array<{ valor: OrdenCatalogo; etiqueta: string }> = [
+  { valor: 'relevancia', etiqueta: 'Más relevantes' },
+  { valor: 'recientes', etiqueta: 'Más recientes' },
+  { valor: 'precio_asc', etiqueta: 'Menor precio' },
+  { valor: 'precio_desc', etiqueta: 'Mayor precio' },
+  { valor: 'vistas', etiqueta: 'Más vistos' },
+  { valor: 'ofertas', etiqueta: 'En oferta' },
+];
+
+/**
+ * Productos por página del catálogo
+ * @constant
+ */
+export const PRODUCTOS_POR_PAGINA = 24;
+
+// ===================================
+// CONVERSIÓN
+// ===================================
+
+/**
+ * Orden que aplica la API para unos filtros
+ *
+ * Sin orden elegido: relevancia si hay búsqueda, si no recientes.
+ * La relevancia no existe sin búsqueda.
+ *
+ * @param filtros - Filtros del catálogo
+ * @returns Orden efectivo
+ */
+export function ordenEfectivo(filtros: FiltrosCatalogo): OrdenCatalogo {
+  const automatico: OrdenCatalogo = filtros.buscar?.trim() ? 'relevancia' : 'recientes';
+  if (!filtros.orden || (filtros.orden === 'relevancia' && automatico !== 'relevancia')) {
+    return automatico;
+  }
+  return filtros.orden;
+}
+
+/**
+ * Convierte filtros en query string (omite los vacíos y el orden automático)
+ *
+ * @param filtros - Filtros del catálogo
+ * @returns Parámetros listos para la API o la URL
+ *
+ * @example
+ * queryDeFiltros({ marcas: ['Maybelline'], en_stock: true }).toString();
+ * // 'marca=Maybelline&en_stock=true'
+ */
+export function queryDeFiltros(filtros: FiltrosCatalogo): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filtros.categoria && filtros.categoria !== 'todas') params.set('categoria', filtros.categoria);
+  if (filtros.buscar?.trim()) params.set('buscar', filtros.buscar.trim());
+  if (filtros.marcas?.length) params.set('marca', filtros.marcas.join(','));
+  if (filtros.precio_min !== undefined) params.set('precio_min', String(filtros.precio_min));
+  if (filtros.precio_max !== undefined) params.set('precio_max', String(filtros.precio_max));
+  if (filtros.en_stock) params.set('en_stock', 'true');
+  if (filtros.orden && filtros.orden !== ordenEfectivo({ ...filtros, orden: undefined })) {
+    params.set('orden', filtros.orden);
+  }
+  if (filtros.ids?.length) params.set('ids', filtros.ids.join(','));
+  if (filtros.limite) params.set('limite', String(filtros.limite));
+  if (filtros.cursor) params.set('cursor', filtros.cursor);
+
+  return params;
+}
+
+/**
+ * Lee los filtros de la URL de la página (valores inválidos se ignoran)
+ *
+ * @param params - searchParams de la página
+ * @returns Filtros del catálogo (sin paginación)
+ *
+ * @example
+ * // /cosmeticos-mary?categoria=labiales&orden=precio_asc
+ * filtrosDeQuery(await searchParams); // { categoria: 'labiales', orden: 'precio_asc', ... }
+ */
+export function filtrosDeQuery(
+  params: Record<string, string | string[] | undefined>
+): FiltrosCatalogo {
+  const valor = (clave: string) => {
+    const v = params[clave];
+    return Array.isArray(v) ? v[0] : v;
+  };
+  const numero = (clave: string) => {
+    const n = Number(valor(clave));
+    return valor(clave) && !isNaN(n) && n >= 0 ? n : undefined;
+  };
+  const orden = valor('orden');
+
+  return {
+    categoria: valor('categoria') || 'todas',
+    buscar: valor('buscar') || '',
+    marcas: valor('marca')?.split(',').filter(Boolean) || [],
+    precio_min: numero('precio_min'),
+    precio_max: numero('precio_max'),
+    en_stock: valor('en_stock') === 'true',
+    orden: ORDENES_CATALOGO.some(o => o.valor === orden) ? (orden as OrdenCatalogo) : undefined,
+  };
+}
+
+/**
+ * Indica si hay algún filtro aplicado (además de la categoría y el orden)
+ *
+ * @param filtros - Filtros del catálogo
+ * @returns true si hay búsqueda, marcas, precio o stock
+ */
+export const hayFiltrosExtra = (filtros: FiltrosCatalogo) =>
+  !!filtros.buscar ||
+  !!filtros.marcas?.length ||
+  filtros.precio_min !== undefined ||
+  filtros.precio_max !== undefined ||
+  !!filtros.en_stock;
@@ -0,0 +1,233 @@
+// src/lib/og.tsx
+/**
+ * @fileoverview Piezas compartidas de las imágenes Open Graph (next/og)
+ * Tamaño, carga de imágenes remotas y bloques de marca/precio.
+ * Los estilos son inline: next/og no usa Tailwind y todo div con
+ * varios hijos necesita `display: flex`.
+ * @module og
+ */
+
+import type { Producto, Tienda } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Tamaño recomendado por WhatsApp, Facebook e Instagram
+ * @constant
+ */
+export const TAMANO_OG = { width: 1200, height: 630 };
+
+/**
+ * Formato de salida de ImageResponse
+ * @constant
+ */
+export const TIPO_OG = 'image/png';
+
+/**
+ * Color de respaldo si la tienda no tiene color_tema
+ * @constant
+ */
+const COLOR_POR_DEFECTO = '#EC4899';
+
+/**
+ * Tipos de imagen que puede dibujar next/og (no soporta webp ni avif)
+ * @constant
+ */
+const TIPOS_SOPORTADOS = ['image/png', 'image/jpeg', 'image/gif'];
+
+// ===================================
+// HELPERS
+// ===================================
+
+/**
+ * Color principal de la tienda
+ *
+ * @param tienda - Tienda (puede no existir)
+ * @returns Color hexadecimal
+ */
+export const colorDe = (tienda?: Tienda | null) => tienda?.color_tema || COLOR_POR_DEFECTO;
+
+/**
+ * Pide a Cloudinary la imagen ya recortada y en JPG
+ *
+ * Las fotos se suben como webp y next/og no las puede dibujar;
+ * además así se descarga solo el tamaño que se va a usar.
+ *
+ * @param url - URL original
+ * @param ancho - Ancho final en píxeles
+ * @param alto - Alto final en píxeles
+ * @returns URL transformada (o la original si no es de Cloudinary)
+ * @private
+ */
+function urlRecortada(url: string, ancho: number, alto: number): string {
+  if (!url.includes('res.cloudinary.com') || !url.includes('/upload/')) {
+    return url;
+  }
+  return url.replace('/upload/', `/upload/f_jpg,q_80,c_fill,w_${ancho},h_${alto}/`);
+}
+
+/**
+ * Descarga una imagen y la devuelve como data URL
+ *
+ * Si la imagen no carga o tiene un formato no soportado devuelve null,
+ * así una foto rota no hace fallar toda la imagen OG.
+ *
+ * @param url - URL de la imagen
+ * @param ancho - Ancho final en píxeles
+ * @param alto - Alto final en píxeles
+ * @returns Data URL o null
+ *
+ * @example
+ * const foto = await cargarImagen(producto.imagenes[0]?.url, 630, 630);
+ * {foto && <img src={foto} width={630} height={630} />}
+ */
+export async function cargarImagen(
+  url: string | undefined,
+  ancho: number,
+  alto: number
+): Promise<string | null> {
+  if (!url) return null;
+
+  try {
+    const response = await fetch(urlRecortada(url, ancho, alto), {
+      next: { revalidate: 3600 },
+    });
+    const tipo = response.headers.get('content-type')?.split(';')[0] || '';
+
+    if (!response.ok || !TIPOS_SOPORTADOS.includes(tipo)) {
+      return null;
+    }
+
+    const base64 = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return `data:${tipo};base64,${base64}`;
+  } catch (error) {
+    console.error('Error al cargar imagen OG:', error);
+    return null;
+  }
+}
+
+// ===================================
+// BLOQUES
+// ===================================
+
+/**
+ * Logo (o inicial) y nombre de la tienda
+ *
+ * @param props.tienda - Tienda
+ * @param props.logo - Logo ya cargado con cargarImagen
+ * @param props.tamano - Lado del logo en píxeles
+ * @param props.claro - Texto blanco (para fondos de color)
+ */
+export function MarcaTienda({
+  tienda,
+  logo,
+  tamano = 72,
+  claro = false,
+}: {
+  tienda: Tienda;
+  logo: string | null;
+  tamano?: number;
+  claro?: boolean;
+}) {
+  const color = colorDe(tienda);
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+      {logo ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={logo}
+          alt=""
+          width={tamano}
+          height={tamano}
+          style={{ borderRadius: tamano / 2, objectFit: 'cover', border: '4px solid white' }}
+        />
+      ) : (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: tamano,
+            height: tamano,
+            borderRadius: tamano / 2,
+            background: claro ? 'white' : color,
+            color: claro ? color : 'white',
+            fontSize: tamano / 2,
+          }}
+        >
+          {tienda.nombre.charAt(0).toUpperCase()}
+        </div>
+      )}
+      <div
+        style={{
+          display: 'flex',
+          fontSize: tamano / 2.4,
+          color: claro ? 'white' : '#0f172a',
+        }}
+      >
+        {tienda.nombre}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Precio del producto; con oferta muestra el precio normal tachado
+ *
+ * @param props.producto - Producto
+ * @param props.color - Color del precio final
+ */
+export function PrecioOg({ producto, color }: { producto: Producto; color: string }) {
+  const oferta =
+    producto.precio_oferta && producto.precio_oferta < producto.precio ? producto.precio_oferta : null;
+  const final = oferta ?? producto.precio;
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-end', gap: 24 }}>
+      <div style={{ display: 'flex', fontSize: 72, color }}>
+        {`S/ ${final.toFixed(2)}`}
+      </div>
+      {oferta !== null && (
+        <div
+          style={{
+            display: 'flex',
+            fontSize: 40,
+            color: '#94a3b8',
+            textDecoration: 'line-through',
+            marginBottom: 10,
+          }}
+        >
+          {`S/ ${producto.precio.toFixed(2)}`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Imagen genérica de NilHub (tienda o producto inexistente)
+ */
+export function OgGenerico() {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '100%',
+        height: '100%',
+        background: 'linear-gradient(135deg, #EC4899, #9333EA)',
+        color: 'white',
+      }}
+    >
+      <div style={{ display: 'flex', fontSize: 96 }}>NilHub</div>
+      <div style={{ display: 'flex', fontSize: 36, opacity: 0.9 }}>
+        Catálogos digitales para emprendedores
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+// src/lib/origen.ts
+/**
+ * @fileoverview Origen de las visitas al catálogo (UTM y página de referencia)
+ * El middleware lo detecta al llegar y lo guarda en una cookie de sesión;
+ * el navegador lo envía con las vistas y los clicks en WhatsApp
+ * @module origen
+ */
+
+import type { Origen } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * Cookie de sesión con el origen de la visita
+ * No es httpOnly: el navegador la lee para las vistas y los clicks en WhatsApp
+ * @constant
+ */
+export const ORIGEN_COOKIE = 'nilhub_origen';
+
+/**
+ * Parámetros UTM que se guardan
+ * @constant
+ */
+export const PARAMETROS_UTM = ['utm_source', 'utm_medium', 'utm_campaign'] as const;
+
+// ===================================
+// LECTURA Y ESCRITURA
+// ===================================
+
+/**
+ * Origen de una llegada al catálogo
+ * Solo hay origen nuevo si el enlace trae utm_* o se viene de otro sitio;
+ * la navegación dentro del catálogo conserva el de la llegada
+ *
+ * @param url - URL pedida
+ * @param referer - Header Referer de la petición
+ * @returns Origen nuevo, o null si la visita sigue la sesión anterior
+ *
+ * @example
+ * origenDeLlegada(new URL('https://nilhub.xyz/mi-tienda?utm_source=instagram'), null);
+ * // { utm_source: 'instagram' }
+ */
+export function origenDeLlegada(url: URL, referer: string | null): Origen | null {
+  const origen: Origen = {};
+
+  PARAMETROS_UTM.forEach((parametro) => {
+    const valor = url.searchParams.get(parametro)?.trim();
+    if (valor) origen[parametro] = valor.slice(0, 100);
+  });
+
+  if (referer) {
+    try {
+      if (new URL(referer).host !== url.host) origen.referrer = referer.slice(0, 500);
+    } catch {
+      // Referer mal formado: se ignora
+    }
+  }
+
+  return Object.keys(origen).length > 0 ? origen : null;
+}
+
+/**
+ * Convierte un origen a query string (valor de la cookie)
+ */
+export function serializarOrigen(origen: Origen): string {
+  const params = new URLSearchParams();
+  Object.entries(origen).forEach(([clave, valor]) => {
+    if (valor) params.set(clave, valor);
+  });
+  return params.toString();
+}
+
+/**
+ * Lee un origen serializado (vacío si no hay)
+ */
+export function leerOrigen(valor?: string | null): Origen {
+  const params = new URLSearchParams(valor || '');
+  const origen: Origen = {};
+  (['referrer', ...PARAMETROS_UTM] as const).forEach((clave) => {
+    const dato = params.get(clave);
+    if (dato) origen[clave] = dato;
+  });
+  return origen;
+}
+
+/**
+ * Origen de la visita actual desde el navegador (vacío en el servidor)
+ */
+export function origenDelNavegador(): Origen {
+  if (typeof document === 'undefined') return {};
+  const cookie = document.cookie
+    .split('; ')
+    .find((par) => par.startsWith(`${ORIGEN_COOKIE}=`));
+  return leerOrigen(cookie ? decodeURIComponent(cookie.slice(ORIGEN_COOKIE.length + 1)) : null);
+}
+
+// ===================================
+// ENLACES
+// ===================================
+
+/**
+ * Agrega parámetros UTM a un enlace
+ *
+ * @param url - Enlace de la tienda o de un producto
+ * @param utm - Parámetros (los vacíos se omiten)
+ * @returns Enlace etiquetado
+ *
+ * @example
+ * enlaceConUtm('https://nilhub.xyz/mi-tienda', { utm_source: 'instagram', utm_medium: 'social' });
+ * // 'https://nilhub.xyz/mi-tienda?utm_source=instagram&utm_medium=social'
+ */
+export function enlaceConUtm(url: string, utm: Partial<Record<(typeof PARAMETROS_UTM)[number], string>>): string {
+  const enlace = new URL(url);
+  PARAMETROS_UTM.forEach((parametro) => {
+    const valor = utm[parametro]?.trim();
+    if (valor) enlace.searchParams.set(parametro, valor);
+  });
+  return enlace.toString();
+}
@@ -0,0 +1,173 @@
+// src/lib/seo.ts
+/**
+ * @fileoverview Helpers de SEO para el catálogo público
+ * URL del sitio, textos para metadata y datos estructurados schema.org
+ * @module seo
+ */
+
+import type { Producto, Tienda } from '@/types';
+
+// ===================================
+// CONFIGURACIÓN
+// ===================================
+
+/**
+ * URL pública del sitio (sin "/" final), base de canonical y Open Graph
+ * @constant
+ */
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || 'https://nilhub.xyz').replace(/\/$/, '');
+
+/**
+ * Moneda de los precios del catálogo (soles)
+ * @constant
+ */
+const MONEDA = 'PEN';
+
+// ===================================
+// TEXTOS
+// ===================================
+
+/**
+ * Recorta un texto para meta description sin cortar palabras
+ *
+ * @param texto - Texto original
+ * @param max - Largo máximo (160 por defecto)
+ * @returns Texto en una línea, con "…" si se recortó
+ *
+ * @example
+ * recortar(producto.descripcion); // 'Labial mate de larga duración…'
+ */
+export function recortar(texto: string, max = 160): string {
+  const limpio = texto.replace(/\s+/g, ' ').trim();
+  if (limpio.length <= max) return limpio;
+
+  const corte = limpio.slice(0, max - 1);
+  const espacio = corte.lastIndexOf(' ');
+  return `${espacio > max / 2 ? corte.slice(0, espacio) : corte}…`;
+}
+
+/**
+ * Precio que paga el cliente (oferta si la hay)
+ * @private
+ */
+const precioFinal = (producto: Producto) => producto.precio_oferta || producto.precio;
+
+// ===================================
+// DATOS ESTRUCTURADOS (JSON-LD)
+// ===================================
+
+/**
+ * Oferta schema.org de un producto
+ *
+ * Con variantes de distinto precio se usa AggregateOffer (precio mínimo y máximo).
+ * @private
+ */
+function ofertaDe(producto: Producto, tienda: Tienda, url: string) {
+  const disponibilidad = producto.hay_stock
+    ? 'https://schema.org/InStock'
+    : 'https://schema.org/OutOfStock';
+  const vendedor = { '@type': 'Organization', name: tienda.nombre };
+
+  const precios = (producto.variantes || []).map((v) => v.precio || precioFinal(producto));
+  const minimo = Math.min(...precios);
+  const maximo = Math.max(...precios);
+
+  if (precios.length > 1 && minimo !== maximo) {
+    return {
+      '@type': 'AggregateOffer',
+      url,
+      priceCurrency: MONEDA,
+      lowPrice: minimo.toFixed(2),
+      highPrice: maximo.toFixed(2),
+      offerCount: precios.length,
+      availability: disponibilidad,
+      seller: vendedor,
+    };
+  }
+
+  return {
+    '@type': 'Offer',
+    url,
+    priceCurrency: MONEDA,
+    price: precioFinal(producto).toFixed(2),
+    availability: disponibilidad,
+    itemCondition: 'https://schema.org/NewCondition',
+    seller: vendedor,
+  };
+}
+
+/**
+ * Nodo Product (sin @context, para anidarlo en otros nodos)
+ * @private
+ */
+function productoSchema(producto: Producto, tienda: Tienda, categoria?: string) {
+  const url = `${SITE_URL}/${tienda.slug}/producto/${producto._id}`;
+
+  return {
+    '@type': 'Product',
+    '@id': url,
+    name: producto.nombre,
+    description: producto.descripcion || undefined,
+    image: producto.imagenes.map((img) => img.url),
+    category: categoria,
+    brand: producto.marca ? { '@type': 'Brand', name: producto.marca } : undefined,
+    sku: producto.variantes?.length === 1 ? producto.variantes[0].sku : undefined,
+    offers: ofertaDe(producto, tienda, url),
+  };
+}
+
+/**
+ * Product schema.org de un producto del catálogo
+ *
+ * @param producto - Producto
+ * @param tienda - Tienda dueña
+ * @param categoria - Nombre visible de la categoría
+ * @returns Objeto listo para <JsonLd />
+ *
+ * @example
+ * <JsonLd data={jsonLdProducto(producto, tienda, 'Maquillaje')} />
+ */
+export function jsonLdProducto(producto: Producto, tienda: Tienda, categoria?: string) {
+  return {
+    '@context': 'https://schema.org',
+    ...productoSchema(producto, tienda, categoria),
+  };
+}
+
+/**
+ * Catálogo de una tienda: Store con un ItemList de sus productos
+ *
+ * @param tienda - Tienda
+ * @param productos - Productos activos
+ * @returns Objeto listo para <JsonLd />
+ */
+export function jsonLdCatalogo(tienda: Tienda, productos: Producto[]) {
+  const url = `${SITE_URL}/${tienda.slug}`;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Store',
+    '@id': url,
+    name: tienda.nombre,
+    description: tienda.descripcion || undefined,
+    url,
+    logo: tienda.logo_url || undefined,
+    image: tienda.banner_url || tienda.logo_url || undefined,
+    telephone: tienda.whatsapp ? `+${tienda.whatsapp}` : undefined,
+    sameAs: [
+      tienda.instagram ? `https://instagram.com/${tienda.instagram.replace('@', '')}` : null,
+      tienda.facebook
+        ? tienda.facebook.startsWith('http') ? tienda.facebook : `https://facebook.com/${tienda.facebook}`
+        : null,
+    ].filter(Boolean),
+    mainEntity: {
+      '@type': 'ItemList',
+      numberOfItems: productos.length,
+      itemListElement: productos.map((producto, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        item: productoSchema(producto, tienda),
+      })),
+    },
+  };
+}
@@ -22,4 +22,21 @@ import { twMerge } from "tailwind-merge";
  */
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-}
\ No newline at end of file
+}
+/**
+ * Descarga un archivo generado en el navegador (ej: una exportación)
+ *
+ * @param archivo - Contenido del archivo
+ * @param nombre - Nombre con el que se guarda
+ *
+ * @example
+ * descargarArchivo(await api.productos.exportar('xlsx'), 'productos.xlsx');
+ */
+export function descargarArchivo(archivo: Blob, nombre: string) {
+  const url = URL.createObjectURL(archivo);
+  const enlace = document.createElement('a');
+  enlace.href = url;
+  enlace.download = nombre;
+  enlace.click();
+  URL.revokeObjectURL(url);
+}
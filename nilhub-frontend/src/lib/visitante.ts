@@ -0,0 +1,35 @@
+// src/lib/visitante.ts
+/**
+ * @fileoverview ID anónimo del visitante del catálogo
+ * Lo usa el backend para contar una sola vista o click por visitante
+ * y producto en cada ventana de tiempo (no identifica a la persona)
+ * @module visitante
+ */
+
+/**
+ * Clave del ID en localStorage
+ * @constant
+ */
+const VISITANTE_KEY = 'nilhub_visitante';
+
+/**
+ * ID del visitante de este navegador (se crea la primera vez)
+ *
+ * @returns ID aleatorio, o undefined en el servidor o si no hay almacenamiento
+ *   (el backend usa entonces una huella de IP y user agent)
+ */
+export function idDeVisitante(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+
+  try {
+    let id = localStorage.getItem(VISITANTE_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(VISITANTE_KEY, id);
+    }
+    return id;
+  } catch {
+    // Navegación privada o almacenamiento bloqueado
+    return undefined;
+  }
+}
@@ -0,0 +1,34 @@
+// src/middleware.ts
+/**
+ * @fileoverview Middleware del catálogo público
+ * Detecta el origen de la visita (utm_* y sitio de referencia) y lo guarda
+ * en una cookie de sesión, para atribuir vistas y clicks al canal de llegada
+ * @module middleware
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { ORIGEN_COOKIE, origenDeLlegada, serializarOrigen } from '@/lib/origen';
+
+/**
+ * Guarda el origen de la llegada; la navegación interna conserva el anterior
+ */
+export function middleware(request: NextRequest) {
+  const llegada = origenDeLlegada(request.nextUrl, request.headers.get('referer'));
+  const response = NextResponse.next();
+
+  if (llegada) {
+    // Sin maxAge: dura lo que la sesión del navegador
+    response.cookies.set(ORIGEN_COOKIE, serializarOrigen(llegada), { path: '/', sameSite: 'lax' });
+  }
+
+  return response;
+}
+
+/**
+ * Solo rutas de tiendas y productos (/:tienda, /:tienda/producto/:id)
+ */
+export const config = {
+  matcher: [
+    '/((?!_next/|admin|login|registro|forgot-password|reset-password|favicon.ico|robots.txt|sitemap.xml).+)',
+  ],
+};
@@ -10,124 +10,125 @@
 // ===================================
 
 /**
- * Usuario registrado en la plataforma
- * @interface Usuario
+ * Entidades y respuestas de la API. Se generan desde la especificación
+ * OpenAPI del backend (`npm run api:generar`): no se declaran a mano aquí
  */
-export interface Usuario {
-  /** ID único de MongoDB */
-  _id: string;
-  /** Email del usuario (único) */
-  email: string;
-  /** Nombre completo del usuario */
-  nombre: string;
-  /** Rol del usuario en el sistema */
-  rol: 'vendedor' | 'admin';
-  /** Estado de la cuenta */
-  activo: boolean;
-  /** Fecha de creación (ISO string) */
-  createdAt: string;
-  /** Fecha de última actualización (ISO string) */
-  updatedAt: string;
-}
+export type {
+  Acceso,
+  CampoImportacion,
+  Categoria,
+  CodigosRecuperacion,
+  ContadoresAnalitica,
+  DesafioDosPasos,
+  EntregaWebhook,
+  EstadoEntregaWebhook,
+  EstadoDosPasos,
+  EstadoPedido,
+  EventoWebhook,
+  FacetasCatalogo,
+  IconoCategoria,
+  Imagen,
+  ItemPedido,
+  MapaDelSitio,
+  PaginaCatalogo,
+  Pedido,
+  PermisoToken,
+  Producto,
+  ProductoEntrada,
+  ResultadoImportacion,
+  ResumenAnalitica,
+  Sesion,
+  SesionAbierta,
+  SugerenciasBusqueda,
+  Tienda,
+  TiendaEntrada,
+  TokenApi,
+  Usuario,
+  Variante,
+  VarianteEntrada,
+  Webhook,
+} from '@/lib/api.generado';
 
 /**
- * Tienda virtual de un vendedor
- * @interface Tienda
+ * Línea del carrito de compras de un cliente
+ * Guarda una copia de los datos del producto al momento de agregarlo
+ * @interface ItemCarrito
  */
-export interface Tienda {
-  /** ID único de MongoDB */
-  _id: string;
-  /** ID del usuario propietario */
-  usuario_id: string;
-  /** Nombre de la tienda */
-  nombre: string;
-  /** URL amigable (único, auto-generado) */
-  slug: string;
-  /** Descripción de la tienda */
-  descripcion?: string;
-  /** Número de WhatsApp con código de país */
-  whatsapp: string;
-  /** Usuario de Instagram sin @ */
-  instagram?: string;
-  /** URL de Facebook */
-  facebook?: string;
-  /** URL del logo en Cloudinary */
-  logo_url?: string;
-  /** URL del banner en Cloudinary */
-  banner_url?: string;
-  /** Color hexadecimal del tema */
-  color_tema?: string;
-  /** Estado de la tienda */
-  activa: boolean;
-  /** Contador de productos activos */
-  total_productos: number;
-  /** Fecha de creación (ISO string) */
-  createdAt: string;
-  /** Fecha de última actualización (ISO string) */
-  updatedAt: string;
-}
-
-/**
- * Producto de una tienda
- * @interface Producto
- */
-export interface Producto {
-  /** ID único de MongoDB */
-  _id: string;
-  /** ID de la tienda propietaria */
-  tienda_id: string;
+export interface ItemCarrito {
+  /** ID del producto */
+  producto_id: string;
+  /** ID de la variante elegida (si el producto tiene variantes) */
+  variante_id?: string;
+  /** Nombre de la variante elegida */
+  variante_nombre?: string;
   /** Nombre del producto */
   nombre: string;
-  /** Descripción detallada */
-  descripcion?: string;
-  /** Categoría del producto */
-  categoria: string;
-  /** Marca del producto */
-  marca?: string;
   /** Precio regular en soles */
   precio: number;
-  /** Precio en oferta */
+  /** Precio en oferta (si aplica) */
   precio_oferta?: number;
-  /** Cantidad disponible (manual) */
+  /** URL de la imagen principal */
+  imagen?: string;
+  /** Stock disponible (límite de cantidad) */
   stock: number;
-  /** Indicador de disponibilidad */
-  hay_stock: boolean;
-  /** Array de imágenes del producto */
-  imagenes: Array<{
-    /** URL completa de la imagen */
-    url: string;
-    /** ID de Cloudinary para eliminar */
-    cloudinary_id: string;
-  }>;
-  /** Lista de ingredientes */
-  ingredientes?: string;
-  /** Peso/tamaño del producto */
-  peso?: string;
-  /** Visibilidad en catálogo */
-  activo: boolean;
-  /** Contador de visualizaciones */
-  vistas: number;
-  /** Contador de clicks en WhatsApp */
-  clicks_whatsapp: number;
-  /** Fecha de creación (ISO string) */
-  createdAt: string;
-  /** Fecha de última actualización (ISO string) */
-  updatedAt: string;
+  /** Cantidad solicitada */
+  cantidad: number;
 }
 
 // ===================================
-// RESPUESTAS DE LA API
+// CATÁLOGO
 // ===================================
 
 /**
- * Respuesta de autenticación exitosa
- * @interface AuthResponse
+ * Orden del catálogo público
+ * @type OrdenCatalogo
+ */
+export type OrdenCatalogo = 'relevancia' | 'recientes' | 'precio_asc' | 'precio_desc' | 'vistas' | 'ofertas';
+
+/**
+ * Filtros del catálogo público (GET /tiendas/:slug/productos)
+ * @interface FiltrosCatalogo
+ */
+export interface FiltrosCatalogo {
+  /** Slug de categoría ('todas' o vacío = sin filtro) */
+  categoria?: string;
+  /** Texto en nombre, descripción o marca */
+  buscar?: string;
+  /** Marcas a incluir */
+  marcas?: string[];
+  /** Precio mínimo (el que paga el cliente) */
+  precio_min?: number;
+  /** Precio máximo */
+  precio_max?: number;
+  /** Solo productos con stock */
+  en_stock?: boolean;
+  /** Solo estos productos (ej: los del carrito) */
+  ids?: string[];
+  /** Orden de los resultados (sin definir: relevancia si hay búsqueda, si no recientes) */
+  orden?: OrdenCatalogo;
+  /** Productos por página (máx. 100) */
+  limite?: number;
+  /** Cursor `siguiente` de la página anterior */
+  cursor?: string;
+}
+
+/**
+ * Origen de una visita al catálogo (ver lib/origen)
+ * @interface Origen
+ */
+export interface Origen {
+  /** Página externa de la que llegó el visitante */
+  referrer?: string;
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+}
+
+/**
+ * Evento del catálogo que se registra desde el navegador
+ * (POST /tiendas/:slug/eventos)
+ * @type EventoAnalitica
  */
-export interface AuthResponse {
-  /** JWT para autenticación */
-  token: string;
-  /** Datos del usuario autenticado */
-  usuario: Usuario;
-  /** Tienda del usuario (si existe) */
-  tienda?: Tienda;
-}
\ No newline at end of file
+export type EventoAnalitica =
+  | { tipo: 'busqueda'; texto: string; resultados: number }
+  | { tipo: 'compartir'; producto_id: string };
@@ -0,0 +1,224 @@
+// nilhub-shared/src/auth.js
+const { z, texto, opcional } = require('./comunes');
+const { esquemaWhatsapp, esquemaTienda } = require('./tiendas');
+
+/**
+ * @fileoverview Esquemas de autenticación: registro, login, verificación en
+ * dos pasos, recuperación y sesión
+ */
+
+// ===================================
+// ENTRADA
+// ===================================
+
+/**
+ * Email (el controller lo normaliza a minúsculas)
+ * @private
+ */
+const email = (mensaje) => z.email({ error: mensaje });
+
+/**
+ * Código de recuperación de 6 dígitos
+ * @private
+ */
+const codigo = z.string({ error: 'Código debe tener 6 dígitos' })
+  .regex(/^[0-9]{6}$/, 'Código debe tener 6 dígitos');
+
+/**
+ * Código de verificación en dos pasos: 6 dígitos de la app o un código de
+ * recuperación (xxxxx-xxxxx)
+ * @private
+ */
+const codigoDosPasos = texto('Ingresa el código de tu app autenticadora');
+
+/**
+ * Contraseña nueva (registro y recuperación)
+ * @private
+ */
+const password = z.string({ error: 'La contraseña debe tener al menos 6 caracteres' })
+  .min(6, 'La contraseña debe tener al menos 6 caracteres');
+
+/**
+ * Body de POST /api/auth/registro
+ * @constant
+ */
+const esquemaRegistro = z.object({
+  nombre: texto('El nombre es obligatorio'),
+  email: email('Ingresa un email válido'),
+  password,
+  nombreTienda: texto('El nombre de la tienda es obligatorio'),
+  whatsapp: esquemaWhatsapp,
+  instagram: z.string().optional(),
+  facebook: z.string().optional()
+});
+
+/**
+ * Body de POST /api/auth/login
+ * @constant
+ */
+const esquemaLogin = z.object({
+  email: email('Ingresa un email válido'),
+  password: texto('La contraseña es obligatoria')
+});
+
+/**
+ * Body de POST /api/auth/login/dos-pasos
+ * @constant
+ */
+const esquemaLoginDosPasos = z.object({
+  desafio: texto('El inicio de sesión venció. Ingresa tu contraseña nuevamente.'),
+  codigo: codigoDosPasos
+});
+
+/**
+ * Body de las acciones que piden un código de dos pasos
+ * (activar, regenerar códigos de recuperación, desactivar)
+ * @constant
+ */
+const esquemaCodigoDosPasos = z.object({
+  codigo: codigoDosPasos
+});
+
+/**
+ * Body de POST /api/auth/login/codigo (login sin contraseña)
+ * @constant
+ */
+const esquemaSolicitarCodigoAcceso = z.object({
+  email: email('Ingresa un email válido'),
+  metodo: z.enum(['email', 'whatsapp'], { error: 'Método debe ser "email" o "whatsapp"' })
+});
+
+/**
+ * Body de POST /api/auth/login/codigo/verificar
+ * @constant
+ */
+const esquemaLoginCodigo = z.object({
+  email: email('Ingresa un email válido'),
+  code: codigo
+});
+
+/**
+ * Body de POST /api/auth/forgot-password
+ * @constant
+ */
+const esquemaSolicitarRecuperacion = z.object({
+  email: email('Email inválido'),
+  metodo: z.enum(['email', 'whatsapp'], { error: 'Método debe ser "email" o "whatsapp"' })
+});
+
+/**
+ * Body de POST /api/auth/verify-reset-code
+ * @constant
+ */
+const esquemaVerificarCodigo = z.object({
+  email: email('Email inválido'),
+  code: codigo
+});
+
+/**
+ * Body de POST /api/auth/reset-password
+ * @constant
+ */
+const esquemaResetPassword = z.object({
+  email: email('Email inválido'),
+  code: codigo,
+  nuevaPassword: password,
+  // Obligatorio si el usuario tiene la verificación en dos pasos activa
+  codigo_dos_pasos: z.string().trim().optional()
+});
+
+/**
+ * Body de POST /api/auth/verificar-email
+ * @constant
+ */
+const esquemaVerificarEmail = z.object({
+  code: codigo
+});
+
+/**
+ * Body de POST /api/auth/cuenta/eliminacion
+ * @constant
+ */
+const esquemaEliminarCuenta = z.object({
+  password: texto('Ingresa tu contraseña para confirmar')
+});
+
+// ===================================
+// RESPUESTA
+// ===================================
+
+/**
+ * Usuario como lo devuelve la API (sin password)
+ * @constant
+ */
+const esquemaUsuario = z.looseObject({
+  _id: z.string(),
+  nombre: z.string(),
+  email: z.string(),
+  telefono: opcional(z.string()),
+  role: z.enum(['vendedor', 'admin']),
+  activo: z.boolean(),
+  email_verificado: opcional(z.boolean()),
+  dos_pasos: opcional(z.object({
+    activo: z.boolean(),
+    activado_en: z.string().nullable(),
+    obligatorio: z.boolean()
+  })),
+  bloqueo: opcional(z.object({
+    intentos_fallidos: z.number(),
+    bloqueado_hasta: z.string().nullable()
+  })),
+  eliminacion: opcional(z.object({
+    solicitada_en: z.string(),
+    programada_para: z.string()
+  })),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+/**
+ * data de GET /api/auth/me: usuario y su tienda (null para administradores)
+ * @constant
+ */
+const esquemaUsuarioActual = z.object({
+  usuario: esquemaUsuario,
+  tienda: esquemaTienda.nullable()
+});
+
+/**
+ * data de login y registro: el usuario y su tienda
+ * (las credenciales quedan en cookies httpOnly, no en la respuesta)
+ * @constant
+ */
+const esquemaSesion = esquemaUsuarioActual;
+
+/**
+ * data de POST /api/auth/login: la sesión, o el desafío si el usuario tiene
+ * la verificación en dos pasos activa
+ * @constant
+ */
+const esquemaRespuestaLogin = z.union([
+  esquemaSesion,
+  z.object({
+    requiere_dos_pasos: z.literal(true),
+    desafio: z.string()
+  })
+]);
+
+module.exports = {
+  esquemaRegistro,
+  esquemaLogin,
+  esquemaLoginDosPasos,
+  esquemaCodigoDosPasos,
+  esquemaSolicitarCodigoAcceso,
+  esquemaLoginCodigo,
+  esquemaSolicitarRecuperacion,
+  esquemaVerificarCodigo,
+  esquemaResetPassword,
+  esquemaVerificarEmail,
+  esquemaEliminarCuenta,
+  esquemaUsuario,
+  esquemaUsuarioActual,
+  esquemaSesion,
+  esquemaRespuestaLogin
+};
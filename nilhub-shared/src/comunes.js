@@ -0,0 +1,89 @@
+// nilhub-shared/src/comunes.js
+const { z } = require('zod');
+
+/**
+ * @fileoverview Piezas comunes de los esquemas: campos y errores
+ */
+
+// ===================================
+// CAMPOS
+// ===================================
+
+/**
+ * ID de MongoDB (24 caracteres hexadecimales)
+ * @constant
+ */
+const esquemaId = z.string().regex(/^[0-9a-f]{24}$/i, 'ID inválido');
+
+/**
+ * "25.50" → 25.5; lo demás pasa igual (los formularios y el CSV envían texto)
+ * @private
+ */
+const aNumero = (valor) => (typeof valor === 'string' && valor.trim() !== '' ? Number(valor) : valor);
+
+/**
+ * Texto obligatorio (sin espacios alrededor)
+ * @param {string} mensaje - Error si falta o está vacío
+ * @example
+ * const esquema = z.object({ nombre: texto('El nombre es obligatorio') });
+ */
+const texto = (mensaje) => z.string({ error: mensaje }).trim().min(1, mensaje);
+
+/**
+ * Número mayor o igual a 0; acepta números escritos como texto
+ * @param {string} mensaje - Error si no es un número válido
+ */
+const numero = (mensaje) => z.preprocess(aNumero, z.number({ error: mensaje }).min(0, mensaje));
+
+/**
+ * Entero mayor o igual a 0; acepta números escritos como texto
+ * @param {string} mensaje - Error si no es un entero válido
+ */
+const entero = (mensaje) => z.preprocess(aNumero, z.number({ error: mensaje }).int(mensaje).min(0, mensaje));
+
+/**
+ * Campo opcional de una respuesta: null (documentos antiguos) se lee como ausente
+ * @template {z.ZodType} T
+ * @param {T} esquema - Tipo del campo
+ * @example
+ * z.looseObject({ descripcion: opcional(z.string()) });
+ */
+const opcional = (esquema) => esquema.nullish().transform(valor => valor ?? undefined);
+
+/**
+ * Imagen subida a Cloudinary
+ * @constant
+ */
+const esquemaImagen = z.object({
+  url: z.string({ error: 'La imagen debe tener URL' }).min(1, 'La imagen debe tener URL'),
+  cloudinary_id: z.string({ error: 'La imagen debe tener cloudinary_id' }).min(1, 'La imagen debe tener cloudinary_id')
+});
+
+// ===================================
+// ERRORES
+// ===================================
+
+/**
+ * @description Errores de validación por campo, en el formato que responde la API
+ * @param {z.ZodError} error - Error de safeParse
+ * @returns {Array<{campo: string, mensaje: string}>} Un elemento por problema
+ * @example
+ * const resultado = esquemaLogin.safeParse(req.body);
+ * if (!resultado.success) erroresDeValidacion(resultado.error);
+ * // → [{ campo: 'email', mensaje: 'Ingresa un email válido' }]
+ */
+const erroresDeValidacion = (error) => error.issues.map(issue => ({
+  campo: issue.path.join('.'),
+  mensaje: issue.message
+}));
+
+module.exports = {
+  z,
+  esquemaId,
+  texto,
+  numero,
+  entero,
+  opcional,
+  esquemaImagen,
+  erroresDeValidacion
+};
@@ -0,0 +1,21 @@
+// nilhub-shared/src/index.js
+/**
+ * @fileoverview Esquemas (zod) compartidos por el backend y el frontend
+ *
+ * Una sola definición de cada body y respuesta:
+ * - el backend valida los bodies con ellos (middleware/validar)
+ * - el frontend valida las respuestas en lib/api.ts
+ *
+ * Los nombres siguen el patrón esquema<Acción><Entidad> para los bodies
+ * (esquemaCrearProducto) y esquema<Entidad> para las respuestas (esquemaProducto).
+ *
+ * @module nilhub-shared
+ */
+
+module.exports = {
+  ...require('./comunes'),
+  ...require('./productos'),
+  ...require('./tiendas'),
+  ...require('./auth'),
+  ...require('./upload')
+};
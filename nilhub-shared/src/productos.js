@@ -0,0 +1,151 @@
+// nilhub-shared/src/productos.js
+const { z, esquemaId, texto, numero, entero, opcional, esquemaImagen } = require('./comunes');
+
+/**
+ * @fileoverview Esquemas de productos: bodies de POST/PUT/PATCH y respuestas
+ *
+ * Los bodies descartan campos desconocidos (tienda_id, vistas...): el
+ * controller puede guardarlos tal cual. Largos y formatos los valida el modelo.
+ */
+
+// ===================================
+// ENTRADA
+// ===================================
+
+/**
+ * Precio de oferta: vacío o 0 es "sin oferta"; null la quita al actualizar
+ * @private
+ */
+const precioOferta = z.preprocess(
+  (valor) => (valor === '' || valor === 0 || valor === false ? undefined : valor),
+  numero('El precio de oferta debe ser un número mayor o igual a 0').nullable().optional()
+);
+
+/**
+ * Variante enviada al crear/editar un producto (sin _id si es nueva)
+ * @constant
+ */
+const esquemaVarianteEntrada = z.object({
+  _id: esquemaId.optional(),
+  nombre: texto('El nombre de la variante es obligatorio'),
+  color: z.string().optional(),
+  talla: z.string().optional(),
+  sku: z.string().optional(),
+  precio: numero('El precio de la variante debe ser mayor o igual a 0').optional(),
+  stock: entero('El stock de cada variante debe ser mayor o igual a 0'),
+  imagen: esquemaImagen.optional()
+});
+
+/**
+ * Campos opcionales comunes a crear y actualizar
+ * @private
+ */
+const camposOpcionales = {
+  descripcion: z.string().optional(),
+  marca: z.string().optional(),
+  sku: z.string().optional(),
+  precio_oferta: precioOferta,
+  hay_stock: z.boolean().optional(),
+  ingredientes: z.string().optional(),
+  peso: z.string().optional(),
+  variantes: z.array(esquemaVarianteEntrada).max(30, 'Máximo 30 variantes por producto').optional(),
+  activo: z.boolean().optional()
+};
+
+/**
+ * Imágenes del producto (1 a 5)
+ * @private
+ */
+const imagenes = z.array(esquemaImagen, { error: 'Debe incluir entre 1 y 5 imágenes' })
+  .min(1, 'Debe incluir entre 1 y 5 imágenes')
+  .max(5, 'Debe incluir entre 1 y 5 imágenes');
+
+/**
+ * Body de POST /api/productos
+ * @constant
+ */
+const esquemaCrearProducto = z.object({
+  nombre: texto('El nombre es obligatorio'),
+  categoria: texto('La categoría es obligatoria'),
+  precio: numero('El precio debe ser mayor o igual a 0'),
+  stock: entero('El stock debe ser mayor o igual a 0'),
+  imagenes,
+  ...camposOpcionales
+});
+
+/**
+ * Body de PUT /api/productos/:id (todos los campos opcionales)
+ * @constant
+ */
+const esquemaActualizarProducto = z.object({
+  nombre: texto('El nombre no puede estar vacío').optional(),
+  categoria: texto('La categoría no puede estar vacía').optional(),
+  precio: numero('El precio debe ser mayor o igual a 0').optional(),
+  stock: entero('El stock debe ser mayor o igual a 0').optional(),
+  imagenes: imagenes.optional(),
+  ...camposOpcionales
+});
+
+/**
+ * Body de PATCH /api/productos/:id/stock
+ * @constant
+ */
+const esquemaActualizarStock = z.object({
+  stock: entero('El stock debe ser mayor o igual a 0')
+});
+
+// ===================================
+// RESPUESTA
+// ===================================
+
+/**
+ * Variante guardada
+ * @constant
+ */
+const esquemaVariante = z.looseObject({
+  _id: z.string(),
+  nombre: z.string(),
+  color: opcional(z.string()),
+  talla: opcional(z.string()),
+  sku: opcional(z.string()),
+  precio: opcional(z.number()),
+  stock: z.number(),
+  imagen: opcional(esquemaImagen)
+});
+
+/**
+ * Producto como lo devuelve la API
+ * Conserva campos que el esquema no lista (no se pierden datos si el backend agrega uno)
+ * @constant
+ */
+const esquemaProducto = z.looseObject({
+  _id: z.string(),
+  tienda_id: z.string(),
+  nombre: z.string(),
+  descripcion: opcional(z.string()),
+  categoria: z.string(),
+  marca: opcional(z.string()),
+  sku: opcional(z.string()),
+  precio: z.number(),
+  precio_oferta: opcional(z.number()),
+  stock: z.number(),
+  hay_stock: z.boolean(),
+  variantes: opcional(z.array(esquemaVariante)),
+  imagenes: z.array(esquemaImagen),
+  ingredientes: opcional(z.string()),
+  peso: opcional(z.string()),
+  activo: z.boolean(),
+  vistas: z.number(),
+  clicks_whatsapp: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+module.exports = {
+  esquemaVarianteEntrada,
+  esquemaCrearProducto,
+  esquemaActualizarProducto,
+  esquemaActualizarStock,
+  esquemaVariante,
+  esquemaProducto
+};
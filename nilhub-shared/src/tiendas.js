@@ -0,0 +1,96 @@
+// nilhub-shared/src/tiendas.js
+const { z, texto, opcional } = require('./comunes');
+
+/**
+ * @fileoverview Esquemas de tiendas: bodies de POST/PUT y respuestas
+ */
+
+// ===================================
+// ENTRADA
+// ===================================
+
+/**
+ * Número de WhatsApp con código de país (solo dígitos)
+ * @constant
+ */
+const esquemaWhatsapp = z.string({ error: 'El número de WhatsApp es obligatorio' })
+  .trim()
+  .regex(/^[0-9]{8,15}$/, 'Ingresa un número de WhatsApp válido (solo números, 8-15 dígitos)');
+
+/**
+ * Body de POST /api/tiendas
+ * @constant
+ */
+const esquemaCrearTienda = z.object({
+  nombre: texto('El nombre de la tienda es obligatorio'),
+  descripcion: z.string().optional(),
+  whatsapp: esquemaWhatsapp,
+  instagram: z.string().optional(),
+  facebook: z.string().optional()
+});
+
+/**
+ * Body de PUT /api/tiendas/mi-tienda (todos los campos opcionales)
+ * @constant
+ */
+const esquemaActualizarTienda = z.object({
+  nombre: texto('El nombre de la tienda no puede estar vacío').optional(),
+  descripcion: z.string().optional(),
+  whatsapp: esquemaWhatsapp.optional(),
+  instagram: z.string().optional(),
+  facebook: z.string().optional(),
+  logo_url: z.string().optional(),
+  logo_cloudinary_id: z.string().optional(),
+  banner_url: z.string().optional(),
+  banner_cloudinary_id: z.string().optional(),
+  color_tema: z.string()
+    .regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Ingresa un color hexadecimal válido')
+    .optional()
+});
+
+// ===================================
+// RESPUESTA
+// ===================================
+
+/**
+ * Dueño de una tienda cuando viene poblado (vista pública y admin)
+ * @constant
+ */
+const esquemaUsuarioResumen = z.looseObject({
+  _id: z.string(),
+  nombre: z.string(),
+  email: z.string()
+});
+
+/**
+ * Tienda como la devuelve la API
+ * @constant
+ */
+const esquemaTienda = z.looseObject({
+  _id: z.string(),
+  usuario_id: z.union([z.string(), esquemaUsuarioResumen]),
+  nombre: z.string(),
+  slug: z.string(),
+  descripcion: opcional(z.string()),
+  whatsapp: z.string(),
+  instagram: opcional(z.string()),
+  facebook: opcional(z.string()),
+  logo_url: opcional(z.string()),
+  logo_cloudinary_id: opcional(z.string()),
+  banner_url: opcional(z.string()),
+  banner_cloudinary_id: opcional(z.string()),
+  color_tema: z.string(),
+  activa: z.boolean(),
+  verificacion_pendiente: opcional(z.boolean()),
+  total_productos: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+module.exports = {
+  esquemaWhatsapp,
+  esquemaCrearTienda,
+  esquemaActualizarTienda,
+  esquemaUsuarioResumen,
+  esquemaTienda
+};
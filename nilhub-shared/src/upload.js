@@ -0,0 +1,22 @@
+// nilhub-shared/src/upload.js
+const { z } = require('./comunes');
+
+/**
+ * @fileoverview Esquemas de subida de imágenes a Cloudinary
+ * La respuesta de cada imagen es esquemaImagen (comunes)
+ */
+
+/**
+ * Query de POST /api/upload/imagen e /imagenes
+ * La carpeta debe estar dentro de nilhub/ (sin ella: nilhub/productos)
+ * @constant
+ */
+const esquemaSubirImagen = z.object({
+  folder: z.string()
+    .regex(/^nilhub(\/[a-z0-9_-]+)+$/, 'Carpeta inválida: debe estar dentro de nilhub/')
+    .optional()
+});
+
+module.exports = {
+  esquemaSubirImagen
+};